@@ -17,9 +17,23 @@ import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { CsvImportModule } from './csv-import/csv-import.module';
 import { AuthModule } from './auth/auth.module';
+import { WorkspacesModule } from './workspaces/workspaces.module';
 import { UploadRecordEntity } from './csv-import/entities/upload-record.entity';
 import { AuditLogEntity } from './csv-import/entities/audit-log.entity';
+import { ImportJobEntity } from './csv-import/entities/import-job.entity';
+import { UploadSessionEntity } from './csv-import/entities/upload-session.entity';
+import { ValidationSchemaEntity } from './csv-import/entities/validation-schema.entity';
+import { ImportTemplateEntity } from './csv-import/entities/import-template.entity';
+import { UploadRowEntity } from './csv-import/entities/upload-row.entity';
+import { UploadProfileEntity } from './csv-import/entities/upload-profile.entity';
+import { UploadIssueEntity } from './csv-import/entities/upload-issue.entity';
+import { DatasetEntity } from './csv-import/entities/dataset.entity';
+import { ShareLinkEntity } from './csv-import/entities/share-link.entity';
 import { UserEntity } from './auth/entities/user.entity';
+import { SessionEntity } from './auth/entities/session.entity';
+import { WorkspaceEntity } from './workspaces/entities/workspace.entity';
+import { WorkspaceMemberEntity } from './workspaces/entities/workspace-member.entity';
+import { WorkspaceInvitationEntity } from './workspaces/entities/workspace-invitation.entity';
 
 @Module({
   imports: [
@@ -40,7 +54,24 @@ import { UserEntity } from './auth/entities/user.entity';
         username: configService.get('DB_USERNAME', 'postgres'), // Database username
         password: configService.get('DB_PASSWORD', 'postgres'), // Database password
         database: configService.get('DB_NAME', 'csv_import'), // Database name
-        entities: [UploadRecordEntity, AuditLogEntity, UserEntity], // Database entities (tables) to use
+        entities: [
+          UploadRecordEntity,
+          AuditLogEntity,
+          ImportJobEntity,
+          UploadSessionEntity,
+          ValidationSchemaEntity,
+          ImportTemplateEntity,
+          UploadRowEntity,
+          UploadProfileEntity,
+          UploadIssueEntity,
+          DatasetEntity,
+          ShareLinkEntity,
+          UserEntity,
+          SessionEntity,
+          WorkspaceEntity,
+          WorkspaceMemberEntity,
+          WorkspaceInvitationEntity,
+        ], // Database entities (tables) to use
         synchronize: configService.get('NODE_ENV') !== 'production', // Auto-create/update tables in dev mode
         logging: configService.get('NODE_ENV') === 'development', // Log SQL queries in dev mode
       }),
@@ -48,11 +79,31 @@ import { UserEntity } from './auth/entities/user.entity';
     }),
 
     // TypeOrmModule.forFeature - Makes entities repository available in other modules
-    TypeOrmModule.forFeature([UploadRecordEntity, AuditLogEntity, UserEntity]),
+    TypeOrmModule.forFeature([
+      UploadRecordEntity,
+      AuditLogEntity,
+      ImportJobEntity,
+      UploadSessionEntity,
+      ValidationSchemaEntity,
+      ImportTemplateEntity,
+      UploadRowEntity,
+      UploadProfileEntity,
+      UploadIssueEntity,
+      DatasetEntity,
+      ShareLinkEntity,
+      UserEntity,
+      SessionEntity,
+      WorkspaceEntity,
+      WorkspaceMemberEntity,
+      WorkspaceInvitationEntity,
+    ]),
 
     // AuthModule - Authentication and user management
     AuthModule,
 
+    // WorkspacesModule - Workspaces, memberships and invitations
+    WorkspacesModule,
+
     // CsvImportModule - Our custom module for CSV import functionality
     CsvImportModule,
 
@@ -4,6 +4,11 @@
  * Handles HTTP requests for authentication operations:
  * - POST /auth/register - Register a new user
  * - POST /auth/login - Login user
+ * - POST /auth/refresh - Exchange a refresh token for new tokens
+ * - POST /auth/logout - End the current session (protected)
+ * - POST /auth/logout-all - End every session of the user (protected)
+ * - GET /auth/sessions - List the user's active sessions (protected)
+ * - DELETE /auth/sessions/:id - End one of the user's sessions (protected)
  * - GET /auth/me - Get current user info (protected)
  */
 
@@ -11,7 +16,10 @@ import {
   Controller,
   Post,
   Get,
+  Delete,
   Body,
+  Param,
+  Req,
   UseGuards,
   HttpCode,
   HttpStatus,
@@ -21,20 +29,33 @@ import {
   ApiOperation,
   ApiResponse,
   ApiBearerAuth,
+  ApiParam,
 } from '@nestjs/swagger';
+import { Request as ExpressRequest } from 'express';
 import { AuthService } from './auth.service';
+import { SessionContext, SessionsService } from './sessions.service';
 import { RegisterDto } from './dto/register.dto';
 import { LoginDto } from './dto/login.dto';
+import { RefreshTokenDto } from './dto/refresh-token.dto';
 import { AuthResponseDto } from './dto/auth-response.dto';
+import { SessionResponseDto } from './dto/session-response.dto';
 import { JwtAuthGuard } from './guards/jwt-auth.guard';
 import { Public } from './decorators/public.decorator';
 import { CurrentUser } from './decorators/current-user.decorator';
-import { ThrottleStrict, ThrottleLenient } from '../common/decorators/throttle.decorator';
+import { AuthenticatedUser } from './strategies/jwt.strategy';
+import {
+  ThrottleStrict,
+  ThrottleModerate,
+  ThrottleLenient,
+} from '../common/decorators/throttle.decorator';
 
 @ApiTags('auth')
 @Controller('auth')
 export class AuthController {
-  constructor(private readonly authService: AuthService) {}
+  constructor(
+    private readonly authService: AuthService,
+    private readonly sessionsService: SessionsService,
+  ) {}
 
   /**
    * POST /auth/register
@@ -57,8 +78,11 @@ export class AuthController {
     status: 409,
     description: 'User with this email already exists',
   })
-  async register(@Body() registerDto: RegisterDto): Promise<AuthResponseDto> {
-    return this.authService.register(registerDto);
+  async register(
+    @Body() registerDto: RegisterDto,
+    @Req() req?: ExpressRequest,
+  ): Promise<AuthResponseDto> {
+    return this.authService.register(registerDto, this.sessionContext(req));
   }
 
   /**
@@ -71,7 +95,8 @@ export class AuthController {
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
     summary: 'Login user',
-    description: 'Authenticates user with email and password, returns JWT token.',
+    description:
+      'Authenticates user with email and password, returns a short-lived JWT access token and a refresh token.',
   })
   @ApiResponse({
     status: 200,
@@ -82,8 +107,140 @@ export class AuthController {
     status: 401,
     description: 'Invalid email or password',
   })
-  async login(@Body() loginDto: LoginDto): Promise<AuthResponseDto> {
-    return this.authService.login(loginDto);
+  async login(
+    @Body() loginDto: LoginDto,
+    @Req() req?: ExpressRequest,
+  ): Promise<AuthResponseDto> {
+    return this.authService.login(loginDto, this.sessionContext(req));
+  }
+
+  /**
+   * POST /auth/refresh
+   * Exchange a refresh token for a new access token and refresh token
+   */
+  @Public()
+  @Post('refresh')
+  @ThrottleModerate() // Moderate rate limit: 10 requests per minute
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Refresh tokens',
+    description:
+      'Returns a new access token and a new refresh token; the refresh token sent can no longer be used. Sending a refresh token that was already used ends its session.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Tokens refreshed',
+    type: AuthResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Refresh token unknown, expired, revoked or already used',
+  })
+  async refresh(
+    @Body() refreshTokenDto: RefreshTokenDto,
+    @Req() req?: ExpressRequest,
+  ): Promise<AuthResponseDto> {
+    return this.authService.refresh(
+      refreshTokenDto.refreshToken,
+      this.sessionContext(req),
+    );
+  }
+
+  /**
+   * POST /auth/logout
+   * End the session of the access token
+   */
+  @Post('logout')
+  @ThrottleLenient() // Lenient rate limit: 100 requests per minute
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Log out',
+    description:
+      'Ends the current session; its access and refresh tokens stop working.',
+  })
+  @ApiResponse({ status: 204, description: 'Logged out' })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing token',
+  })
+  async logout(@CurrentUser() user: AuthenticatedUser): Promise<void> {
+    await this.authService.logout(user.id, user.sessionId);
+  }
+
+  /**
+   * POST /auth/logout-all
+   * End every session of the user, on every device
+   */
+  @Post('logout-all')
+  @ThrottleModerate() // Moderate rate limit: 10 requests per minute
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Log out everywhere',
+    description: 'Ends all sessions of the current user, including this one.',
+  })
+  @ApiResponse({ status: 204, description: 'All sessions ended' })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing token',
+  })
+  async logoutAll(@CurrentUser() user: AuthenticatedUser): Promise<void> {
+    await this.sessionsService.revokeAll(user.id);
+  }
+
+  /**
+   * GET /auth/sessions
+   * List the devices the user is logged in on
+   */
+  @Get('sessions')
+  @ThrottleLenient() // Lenient rate limit: 100 requests per minute
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'List sessions',
+    description:
+      'Lists the active sessions of the current user, most recently used first; the session making the request has current: true.',
+  })
+  @ApiResponse({ status: 200, type: [SessionResponseDto] })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing token',
+  })
+  async getSessions(
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<SessionResponseDto[]> {
+    return this.sessionsService.findActive(user.id, user.sessionId);
+  }
+
+  /**
+   * DELETE /auth/sessions/:id
+   * End one of the user's sessions
+   */
+  @Delete('sessions/:id')
+  @ThrottleModerate() // Moderate rate limit: 10 requests per minute
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Revoke a session',
+    description:
+      "Ends one of the current user's sessions; that device has to log in again.",
+  })
+  @ApiParam({ name: 'id', description: 'Session ID' })
+  @ApiResponse({ status: 204, description: 'Session ended' })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing token',
+  })
+  @ApiResponse({ status: 404, description: 'Session not found' })
+  async revokeSession(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<void> {
+    await this.sessionsService.revoke(user.id, id);
   }
 
   /**
@@ -106,13 +263,20 @@ export class AuthController {
     status: 401,
     description: 'Unauthorized - Invalid or missing token',
   })
-  async getMe(@CurrentUser() user: any) {
+  async getMe(@CurrentUser() user: AuthenticatedUser) {
     return {
       id: user.id,
       email: user.email,
       firstName: user.firstName,
       lastName: user.lastName,
+      role: user.role,
     };
   }
-}
 
+  private sessionContext(req?: ExpressRequest): SessionContext {
+    return {
+      userIp: req?.ip || req?.socket?.remoteAddress,
+      userAgent: req?.headers['user-agent'],
+    };
+  }
+}
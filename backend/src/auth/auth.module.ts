@@ -3,6 +3,9 @@
  *
  * This module groups all authentication-related functionality together.
  * It registers controllers, services, and makes database repositories available.
+ * Also holds user management (UsersController) and the role checks (RolesGuard, @Roles()),
+ * and login sessions (SessionsService): refresh tokens and server-side logout.
+ * Imports WorkspacesModule to give every new user a personal workspace.
  */
 
 import { Module } from '@nestjs/common';
@@ -13,22 +16,35 @@ import { PassportModule } from '@nestjs/passport';
 import type { StringValue } from 'ms';
 import { AuthController } from './auth.controller';
 import { AuthService } from './auth.service';
+import { UsersController } from './users.controller';
+import { UsersService } from './users.service';
+import { SessionsService } from './sessions.service';
 import { UserEntity } from './entities/user.entity';
+import { SessionEntity } from './entities/session.entity';
 import { JwtStrategy } from './strategies/jwt.strategy';
+import { WorkspacesModule } from '../workspaces/workspaces.module';
+import { DEFAULT_ACCESS_TOKEN_EXPIRES_IN } from '../common/config/auth.config';
 
 @Module({
   imports: [
-    // Import TypeORM feature module to make UserEntity repository available
-    TypeOrmModule.forFeature([UserEntity]),
+    // Import TypeORM feature module to make UserEntity and SessionEntity repositories available
+    TypeOrmModule.forFeature([UserEntity, SessionEntity]),
 
     // PassportModule - Required for authentication strategies
     PassportModule.register({ defaultStrategy: 'jwt' }),
 
+    // WorkspacesModule - Personal workspaces for new users
+    WorkspacesModule,
+
     // JwtModule - Configure JWT token generation and validation
     JwtModule.registerAsync({
       imports: [ConfigModule],
       useFactory: (configService: ConfigService) => {
-        const expiresIn = configService.get<string>('JWT_EXPIRES_IN', '7d') as StringValue;
+        // Access tokens are short-lived; clients get new ones with their refresh token
+        const expiresIn = configService.get<string>(
+          'JWT_EXPIRES_IN',
+          DEFAULT_ACCESS_TOKEN_EXPIRES_IN,
+        ) as StringValue;
         return {
           secret: configService.get<string>('JWT_SECRET', 'your-secret-key'),
           signOptions: {
@@ -39,9 +55,8 @@ import { JwtStrategy } from './strategies/jwt.strategy';
       inject: [ConfigService],
     }),
   ],
-  controllers: [AuthController],
-  providers: [AuthService, JwtStrategy],
+  controllers: [AuthController, UsersController],
+  providers: [AuthService, UsersService, SessionsService, JwtStrategy],
   exports: [AuthService, JwtModule], // Export AuthService for use in other modules
 })
 export class AuthModule {}
-
@@ -2,14 +2,19 @@
  * auth.service.ts - Authentication Service
  *
  * This service handles user authentication logic including:
- * - User registration
+ * - User registration (every new user gets a personal workspace)
  * - User login
  * - Password hashing and verification
- * - JWT token generation
+ * - Issuing short-lived JWT access tokens (the payload carries the user's role and session)
+ *   together with a refresh token; every login starts a session (see SessionsService)
+ * - Refreshing tokens and logging out (ending the session)
+ * - Making sure there is an admin (the first user registered, or the oldest user on startup)
  */
 
 import {
   Injectable,
+  Logger,
+  OnApplicationBootstrap,
   UnauthorizedException,
   ConflictException,
 } from '@nestjs/common';
@@ -17,25 +22,59 @@ import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { JwtService } from '@nestjs/jwt';
 import * as bcrypt from 'bcrypt';
-import { UserEntity } from './entities/user.entity';
+import { UserEntity, UserRole } from './entities/user.entity';
 import { RegisterDto } from './dto/register.dto';
 import { LoginDto } from './dto/login.dto';
 import { AuthResponseDto } from './dto/auth-response.dto';
+import { JwtPayload } from './strategies/jwt.strategy';
+import { SessionContext, SessionsService } from './sessions.service';
+import { SessionRevokeReason } from './entities/session.entity';
+import { WorkspacesService } from '../workspaces/workspaces.service';
 
 @Injectable()
-export class AuthService {
+export class AuthService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(AuthService.name);
+
   constructor(
     @InjectRepository(UserEntity)
     private readonly userRepository: Repository<UserEntity>,
     private readonly jwtService: JwtService,
+    private readonly workspacesService: WorkspacesService,
+    private readonly sessionsService: SessionsService,
   ) {}
 
+  /**
+   * Make the oldest user admin if there are users but no admin
+   * (users registered before roles existed are all editors)
+   */
+  async onApplicationBootstrap(): Promise<void> {
+    const adminCount = await this.userRepository.count({
+      where: { role: UserRole.ADMIN },
+    });
+    if (adminCount > 0) {
+      return;
+    }
+
+    const [oldest] = await this.userRepository.find({
+      order: { createdAt: 'ASC' },
+      take: 1,
+    });
+    if (oldest) {
+      await this.userRepository.update(oldest.id, { role: UserRole.ADMIN });
+      this.logger.log(`No admin found; made ${oldest.email} admin`);
+    }
+  }
+
   /**
    * Register a new user
    * @param registerDto - Registration data
-   * @returns Authentication response with token and user info
+   * @param context - Where the request came from (for the new session)
+   * @returns Authentication response with tokens and user info
    */
-  async register(registerDto: RegisterDto): Promise<AuthResponseDto> {
+  async register(
+    registerDto: RegisterDto,
+    context: SessionContext = {},
+  ): Promise<AuthResponseDto> {
     // Check if user already exists
     const existingUser = await this.userRepository.findOne({
       where: { email: registerDto.email },
@@ -48,36 +87,34 @@ export class AuthService {
     // Hash password
     const hashedPassword = await bcrypt.hash(registerDto.password, 10);
 
+    // The first user manages the others
+    const isFirstUser = (await this.userRepository.count()) === 0;
+
     // Create new user
     const user = this.userRepository.create({
       email: registerDto.email,
       password: hashedPassword,
       firstName: registerDto.firstName,
       lastName: registerDto.lastName,
+      role: isFirstUser ? UserRole.ADMIN : UserRole.EDITOR,
     });
 
     const savedUser = await this.userRepository.save(user);
+    await this.workspacesService.createPersonalWorkspace(savedUser);
 
-    // Generate JWT token
-    const accessToken = this.generateToken(savedUser);
-
-    return {
-      accessToken,
-      user: {
-        id: savedUser.id,
-        email: savedUser.email,
-        firstName: savedUser.firstName,
-        lastName: savedUser.lastName,
-      },
-    };
+    return this.startSession(savedUser, context);
   }
 
   /**
    * Login user
    * @param loginDto - Login credentials
-   * @returns Authentication response with token and user info
+   * @param context - Where the request came from (for the new session)
+   * @returns Authentication response with tokens and user info
    */
-  async login(loginDto: LoginDto): Promise<AuthResponseDto> {
+  async login(
+    loginDto: LoginDto,
+    context: SessionContext = {},
+  ): Promise<AuthResponseDto> {
     // Find user by email
     const user = await this.userRepository.findOne({
       where: { email: loginDto.email },
@@ -97,18 +134,42 @@ export class AuthService {
       throw new UnauthorizedException('Invalid email or password');
     }
 
-    // Generate JWT token
-    const accessToken = this.generateToken(user);
+    return this.startSession(user, context);
+  }
 
-    return {
-      accessToken,
-      user: {
-        id: user.id,
-        email: user.email,
-        firstName: user.firstName,
-        lastName: user.lastName,
-      },
-    };
+  /**
+   * Exchange a refresh token for a new access token and refresh token
+   * @param refreshToken - Refresh token from the last login or refresh
+   * @param context - Where the request came from
+   * @returns Authentication response with the new tokens and user info
+   * @throws UnauthorizedException if the session ended or the token was already used
+   */
+  async refresh(
+    refreshToken: string,
+    context: SessionContext = {},
+  ): Promise<AuthResponseDto> {
+    const { session, refreshToken: newRefreshToken } =
+      await this.sessionsService.rotate(refreshToken, context);
+
+    const user = await this.validateUser(session.userId);
+    if (!user) {
+      throw new UnauthorizedException('User not found');
+    }
+
+    return this.toAuthResponse(user, session.id, newRefreshToken);
+  }
+
+  /**
+   * Log out on this device (end the session of the access token)
+   * @param userId - The user
+   * @param sessionId - Session of the access token
+   */
+  async logout(userId: string, sessionId: string): Promise<void> {
+    await this.sessionsService.revoke(
+      userId,
+      sessionId,
+      SessionRevokeReason.LOGOUT,
+    );
   }
 
   /**
@@ -123,18 +184,52 @@ export class AuthService {
     return user || null;
   }
 
+  /**
+   * Start a session for a user who just logged in or registered
+   */
+  private async startSession(
+    user: UserEntity,
+    context: SessionContext,
+  ): Promise<AuthResponseDto> {
+    const { session, refreshToken } = await this.sessionsService.create(
+      user.id,
+      context,
+    );
+    return this.toAuthResponse(user, session.id, refreshToken);
+  }
+
+  private toAuthResponse(
+    user: UserEntity,
+    sessionId: string,
+    refreshToken: string,
+  ): AuthResponseDto {
+    return {
+      accessToken: this.generateToken(user, sessionId),
+      refreshToken,
+      user: {
+        id: user.id,
+        email: user.email,
+        firstName: user.firstName,
+        lastName: user.lastName,
+        role: user.role,
+      },
+    };
+  }
+
   /**
    * Generate JWT token for user
    * @param user - User entity
+   * @param sessionId - Session the token belongs to
    * @returns JWT token string
    */
-  private generateToken(user: UserEntity): string {
-    const payload = {
+  private generateToken(user: UserEntity, sessionId: string): string {
+    const payload: JwtPayload = {
       sub: user.id,
       email: user.email,
+      role: user.role,
+      sid: sessionId,
     };
 
     return this.jwtService.sign(payload);
   }
 }
-
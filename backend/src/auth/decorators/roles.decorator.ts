@@ -0,0 +1,12 @@
+/**
+ * roles.decorator.ts - Roles Decorator
+ *
+ * Decorator to limit routes to users with one of the given roles.
+ * Used with @Roles(UserRole.ADMIN, ...) on controller methods, together with RolesGuard.
+ */
+
+import { SetMetadata } from '@nestjs/common';
+import { UserRole } from '../entities/user.entity';
+
+export const ROLES_KEY = 'roles';
+export const Roles = (...roles: UserRole[]) => SetMetadata(ROLES_KEY, roles);
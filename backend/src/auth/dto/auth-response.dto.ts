@@ -2,18 +2,27 @@
  * auth-response.dto.ts - Authentication Response DTO
  *
  * Data Transfer Object for authentication responses.
- * Returns user information and JWT token.
+ * Returns user information, a short-lived JWT access token and the refresh
+ * token that gets new ones (POST /auth/refresh).
  */
 
 import { ApiProperty } from '@nestjs/swagger';
+import { UserRole } from '../entities/user.entity';
 
 export class AuthResponseDto {
   @ApiProperty({
-    description: 'JWT access token',
+    description: 'JWT access token (short-lived, see JWT_EXPIRES_IN)',
     example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
   })
   accessToken: string;
 
+  @ApiProperty({
+    description:
+      'Refresh token; can be used once, and is replaced by the one returned by POST /auth/refresh',
+    example: '123e4567-e89b-12d3-a456-426614174000.kq3n...',
+  })
+  refreshToken: string;
+
   @ApiProperty({
     description: 'User information',
     example: {
@@ -21,6 +30,7 @@ export class AuthResponseDto {
       email: 'user@example.com',
       firstName: 'John',
       lastName: 'Doe',
+      role: 'editor',
     },
   })
   user: {
@@ -28,6 +38,6 @@ export class AuthResponseDto {
     email: string;
     firstName?: string;
     lastName?: string;
+    role: UserRole;
   };
 }
-
@@ -0,0 +1,18 @@
+/**
+ * refresh-token.dto.ts - Refresh Token Request DTO
+ *
+ * Data Transfer Object for POST /auth/refresh.
+ */
+
+import { IsString, MinLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class RefreshTokenDto {
+  @ApiProperty({
+    description:
+      'Refresh token returned by login, register or the last refresh',
+  })
+  @IsString()
+  @MinLength(1, { message: 'Refresh token is required' })
+  refreshToken: string;
+}
@@ -0,0 +1,40 @@
+/**
+ * session-response.dto.ts - Session Response DTO
+ *
+ * Data Transfer Object for the sessions page (devices the user is logged in on).
+ * Never includes refresh token hashes.
+ */
+
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class SessionResponseDto {
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000' })
+  id: string;
+
+  @ApiPropertyOptional({
+    description: 'Browser or client the user logged in with',
+    example:
+      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0 Safari/537.36',
+  })
+  userAgent?: string;
+
+  @ApiPropertyOptional({
+    description: 'IP address of the last login or refresh',
+    example: '203.0.113.7',
+  })
+  userIp?: string;
+
+  @ApiProperty({ description: 'When the user logged in' })
+  createdAt: Date;
+
+  @ApiProperty({ description: 'Last login or token refresh' })
+  lastUsedAt: Date;
+
+  @ApiProperty({ description: 'When the session ends unless it is used again' })
+  expiresAt: Date;
+
+  @ApiProperty({
+    description: 'Whether this is the session making the request',
+  })
+  current: boolean;
+}
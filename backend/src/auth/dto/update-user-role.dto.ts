@@ -0,0 +1,21 @@
+/**
+ * update-user-role.dto.ts - Update User Role Request DTO
+ *
+ * Data Transfer Object for changing a user's role (admins only).
+ */
+
+import { IsEnum } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { UserRole } from '../entities/user.entity';
+
+export class UpdateUserRoleDto {
+  @ApiProperty({
+    description: 'New role of the user',
+    enum: UserRole,
+    example: UserRole.VIEWER,
+  })
+  @IsEnum(UserRole, {
+    message: `Role must be one of: ${Object.values(UserRole).join(', ')}`,
+  })
+  role: UserRole;
+}
@@ -0,0 +1,29 @@
+/**
+ * user-response.dto.ts - User Response DTO
+ *
+ * Data Transfer Object for users in the user management endpoints.
+ * Never includes the password hash.
+ */
+
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { UserRole } from '../entities/user.entity';
+
+export class UserResponseDto {
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000' })
+  id: string;
+
+  @ApiProperty({ example: 'user@example.com' })
+  email: string;
+
+  @ApiPropertyOptional({ example: 'John' })
+  firstName?: string;
+
+  @ApiPropertyOptional({ example: 'Doe' })
+  lastName?: string;
+
+  @ApiProperty({ enum: UserRole, example: UserRole.EDITOR })
+  role: UserRole;
+
+  @ApiProperty({ description: 'When the user registered' })
+  createdAt: Date;
+}
@@ -0,0 +1,127 @@
+/**
+ * session.entity.ts - Session Database Entity
+ *
+ * This file defines the database table structure for login sessions.
+ * TypeORM uses this class to create and manage the 'sessions' table.
+ *
+ * Every login creates a session holding the SHA-256 hash of its refresh token.
+ * Access tokens name their session, so revoking a session logs that device out
+ * at once. Refresh tokens rotate on every use; presenting one that was already
+ * rotated away revokes the session (the token was probably stolen).
+ */
+
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+/**
+ * Why a session was ended
+ * - logout: the user logged out on this device
+ * - logout_all: the user logged out everywhere
+ * - revoked: the user ended the session from the sessions page
+ * - reuse: an already rotated refresh token was presented
+ */
+export enum SessionRevokeReason {
+  LOGOUT = 'logout',
+  LOGOUT_ALL = 'logout_all',
+  REVOKED = 'revoked',
+  REUSE = 'reuse',
+}
+
+/**
+ * @Entity('sessions') - Maps this class to 'sessions' table
+ * TypeORM will create this table automatically when synchronize is enabled
+ */
+@Entity('sessions')
+export class SessionEntity {
+  /**
+   * Primary Key - Auto-generated UUID
+   * Carried in access tokens (sid) and in the refresh token
+   */
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /**
+   * User ID Column
+   * The user who logged in
+   * Type: VARCHAR(36) - UUID string
+   */
+  @Column({ type: 'varchar', length: 36 })
+  @Index()
+  userId: string;
+
+  /**
+   * Refresh Token Hash Column
+   * SHA-256 hash (hex) of the current refresh token; the token itself is never stored
+   */
+  @Column({ type: 'varchar', length: 64 })
+  refreshTokenHash: string;
+
+  /**
+   * Previous Token Hash Column
+   * Hash of the refresh token replaced by the last rotation, so that a request
+   * racing the rotation (e.g. from a second tab) is not mistaken for reuse
+   */
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  previousTokenHash?: string;
+
+  /**
+   * Rotated At Column
+   * When the refresh token was last rotated
+   */
+  @Column({ type: 'timestamp', nullable: true })
+  rotatedAt?: Date;
+
+  /**
+   * User Agent Column
+   * Browser or client the user logged in with (shown on the sessions page)
+   */
+  @Column({ type: 'varchar', length: 500, nullable: true })
+  userAgent?: string;
+
+  /**
+   * User IP Column
+   * IP address of the last login or refresh
+   */
+  @Column({ type: 'varchar', length: 45, nullable: true })
+  userIp?: string;
+
+  /**
+   * Expires At Column
+   * The refresh token stops working after this; moved forward on every refresh
+   */
+  @Column({ type: 'timestamp' })
+  expiresAt: Date;
+
+  /**
+   * Last Used At Column
+   * Last login or refresh
+   */
+  @Column({ type: 'timestamp' })
+  lastUsedAt: Date;
+
+  /**
+   * Revoked At Column
+   * When the session was ended (not set while it is active)
+   */
+  @Column({ type: 'timestamp', nullable: true })
+  revokedAt?: Date;
+
+  /**
+   * Revoke Reason Column
+   * Why the session was ended (see SessionRevokeReason)
+   */
+  @Column({ type: 'enum', enum: SessionRevokeReason, nullable: true })
+  revokeReason?: SessionRevokeReason;
+
+  /**
+   * Created At Column
+   * When the user logged in
+   */
+  @CreateDateColumn()
+  createdAt: Date;
+}
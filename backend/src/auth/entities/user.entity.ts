@@ -14,6 +14,19 @@ import {
   Index,
 } from 'typeorm';
 
+/**
+ * User Roles
+ * Defines what a user may do (checked by RolesGuard on routes marked with @Roles())
+ * - admin: everything, including managing user roles and seeing every user's uploads and audit logs
+ * - editor: upload, change and delete their own data
+ * - viewer: read their own data only
+ */
+export enum UserRole {
+  ADMIN = 'admin',
+  EDITOR = 'editor',
+  VIEWER = 'viewer',
+}
+
 @Entity('users')
 @Index(['email'], { unique: true }) // Ensure email is unique
 export class UserEntity {
@@ -51,6 +64,19 @@ export class UserEntity {
   @Column({ type: 'varchar', length: 100, nullable: true })
   lastName?: string;
 
+  /**
+   * Role Column
+   * What the user may do (see UserRole)
+   * default: editor - Existing and newly registered users can upload; the first user is made admin
+   * Type: ENUM - Only allows specific values
+   */
+  @Column({
+    type: 'enum',
+    enum: UserRole,
+    default: UserRole.EDITOR,
+  })
+  role: UserRole;
+
   /**
    * Created At Column
    * Automatically set when user is created
@@ -65,4 +91,3 @@ export class UserEntity {
   @UpdateDateColumn()
   updatedAt: Date;
 }
-
@@ -0,0 +1,40 @@
+/**
+ * roles.guard.ts - Roles Guard
+ *
+ * Guard that lets only users with one of the roles given by @Roles() through.
+ * Runs after JwtAuthGuard, which sets the user: @UseGuards(JwtAuthGuard, RolesGuard).
+ * Routes without @Roles() are open to every logged-in user.
+ */
+
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ROLES_KEY } from '../decorators/roles.decorator';
+import { UserRole } from '../entities/user.entity';
+
+@Injectable()
+export class RolesGuard implements CanActivate {
+  constructor(private reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const roles = this.reflector.getAllAndOverride<UserRole[]>(ROLES_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (!roles || roles.length === 0) {
+      return true;
+    }
+
+    const user = context.switchToHttp().getRequest().user;
+    if (!user || !roles.includes(user.role)) {
+      throw new ForbiddenException(
+        `This action requires the ${roles.join(' or ')} role`,
+      );
+    }
+    return true;
+  }
+}
@@ -0,0 +1,209 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { FindOperator } from 'typeorm';
+import { SessionsService } from './sessions.service';
+import { SessionEntity, SessionRevokeReason } from './entities/session.entity';
+import { REFRESH_TOKEN_REUSE_GRACE_SECONDS } from '../common/config/auth.config';
+
+const USER_ID = '5f0c6d0e-2d8b-4c4e-9a63-3f1f2f6b9d10';
+const CONTEXT = { userIp: '203.0.113.7', userAgent: 'jest' };
+
+/**
+ * In-memory stand-in for the sessions table
+ * findOne hands out copies like a real query, and update only changes rows that
+ * match every criterion (IsNull() included), so racing rotations behave as in Postgres.
+ */
+class InMemorySessionRepository {
+  readonly rows = new Map<string, SessionEntity>();
+  private nextId = 1;
+
+  create(values: Partial<SessionEntity>): SessionEntity {
+    return Object.assign(new SessionEntity(), values);
+  }
+
+  async save(session: SessionEntity): Promise<SessionEntity> {
+    if (!session.id) {
+      const suffix = String(this.nextId++).padStart(12, '0');
+      session.id = `00000000-0000-4000-8000-${suffix}`;
+      session.createdAt = new Date();
+    }
+    this.rows.set(session.id, { ...session });
+    return session;
+  }
+
+  async findOne({
+    where,
+  }: {
+    where: Partial<SessionEntity>;
+  }): Promise<SessionEntity | null> {
+    const row = [...this.rows.values()].find((session) =>
+      this.matches(session, where),
+    );
+    return row ? Object.assign(new SessionEntity(), row) : null;
+  }
+
+  async update(
+    criteria: Record<string, unknown>,
+    values: Partial<SessionEntity>,
+  ): Promise<{ affected: number }> {
+    const matching = [...this.rows.values()].filter((session) =>
+      this.matches(session, criteria),
+    );
+    matching.forEach((session) => Object.assign(session, values));
+    return { affected: matching.length };
+  }
+
+  async delete(): Promise<void> {
+    // Nothing expires during a test
+  }
+
+  private matches(
+    session: SessionEntity,
+    criteria: Record<string, unknown>,
+  ): boolean {
+    return Object.entries(criteria).every(([key, expected]) => {
+      const actual = session[key as keyof SessionEntity];
+      if (expected instanceof FindOperator) {
+        if (expected.type !== 'isNull') {
+          throw new Error(`Unsupported operator ${expected.type}`);
+        }
+        return actual === null || actual === undefined;
+      }
+      return actual === expected;
+    });
+  }
+}
+
+describe('SessionsService', () => {
+  let service: SessionsService;
+  let repository: InMemorySessionRepository;
+
+  beforeEach(async () => {
+    repository = new InMemorySessionRepository();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SessionsService,
+        { provide: getRepositoryToken(SessionEntity), useValue: repository },
+        {
+          provide: ConfigService,
+          useValue: { get: (_key: string, fallback: unknown) => fallback },
+        },
+      ],
+    }).compile();
+
+    service = module.get<SessionsService>(SessionsService);
+  });
+
+  /**
+   * Moves the last rotation of a session back in time
+   */
+  function rotatedSecondsAgo(id: string, seconds: number): void {
+    repository.rows.get(id).rotatedAt = new Date(Date.now() - seconds * 1000);
+  }
+
+  describe('rotate', () => {
+    it('replaces the refresh token and keeps the session', async () => {
+      const { session, refreshToken } = await service.create(USER_ID, CONTEXT);
+
+      const rotated = await service.rotate(refreshToken, CONTEXT);
+
+      expect(rotated.session.id).toBe(session.id);
+      expect(rotated.refreshToken).not.toBe(refreshToken);
+      expect(rotated.refreshToken.startsWith(`${session.id}.`)).toBe(true);
+      await expect(
+        service.rotate(rotated.refreshToken, CONTEXT),
+      ).resolves.toBeDefined();
+    });
+
+    it('refuses malformed and unknown tokens', async () => {
+      await service.create(USER_ID, CONTEXT);
+
+      await expect(service.rotate('', CONTEXT)).rejects.toBeInstanceOf(
+        UnauthorizedException,
+      );
+      await expect(
+        service.rotate('not-a-uuid.secret', CONTEXT),
+      ).rejects.toBeInstanceOf(UnauthorizedException);
+      await expect(
+        service.rotate('00000000-0000-4000-8000-999999999999.secret', CONTEXT),
+      ).rejects.toBeInstanceOf(UnauthorizedException);
+    });
+
+    it('refuses the replaced token within the grace period without revoking the session', async () => {
+      const { session, refreshToken } = await service.create(USER_ID, CONTEXT);
+      const rotated = await service.rotate(refreshToken, CONTEXT);
+      rotatedSecondsAgo(session.id, REFRESH_TOKEN_REUSE_GRACE_SECONDS - 5);
+
+      await expect(
+        service.rotate(refreshToken, CONTEXT),
+      ).rejects.toBeInstanceOf(UnauthorizedException);
+
+      expect(repository.rows.get(session.id).revokedAt).toBeUndefined();
+      await expect(
+        service.rotate(rotated.refreshToken, CONTEXT),
+      ).resolves.toBeDefined();
+    });
+
+    it('revokes the session when the replaced token is reused after the grace period', async () => {
+      const { session, refreshToken } = await service.create(USER_ID, CONTEXT);
+      const rotated = await service.rotate(refreshToken, CONTEXT);
+      rotatedSecondsAgo(session.id, REFRESH_TOKEN_REUSE_GRACE_SECONDS + 5);
+
+      await expect(
+        service.rotate(refreshToken, CONTEXT),
+      ).rejects.toBeInstanceOf(UnauthorizedException);
+
+      const stored = repository.rows.get(session.id);
+      expect(stored.revokedAt).toBeInstanceOf(Date);
+      expect(stored.revokeReason).toBe(SessionRevokeReason.REUSE);
+      await expect(
+        service.rotate(rotated.refreshToken, CONTEXT),
+      ).rejects.toBeInstanceOf(UnauthorizedException);
+    });
+
+    it('revokes the session when a token older than the previous one is presented', async () => {
+      const { session, refreshToken } = await service.create(USER_ID, CONTEXT);
+      const second = await service.rotate(refreshToken, CONTEXT);
+      await service.rotate(second.refreshToken, CONTEXT);
+
+      await expect(
+        service.rotate(refreshToken, CONTEXT),
+      ).rejects.toBeInstanceOf(UnauthorizedException);
+
+      expect(repository.rows.get(session.id).revokeReason).toBe(
+        SessionRevokeReason.REUSE,
+      );
+    });
+
+    it('gives a new token to only one of two refreshes racing with the same token', async () => {
+      const { session, refreshToken } = await service.create(USER_ID, CONTEXT);
+
+      const results = await Promise.allSettled([
+        service.rotate(refreshToken, CONTEXT),
+        service.rotate(refreshToken, CONTEXT),
+      ]);
+
+      expect(results.map((result) => result.status).sort()).toEqual([
+        'fulfilled',
+        'rejected',
+      ]);
+      const rejected = results.find(
+        (result): result is PromiseRejectedResult =>
+          result.status === 'rejected',
+      );
+      expect(rejected.reason).toBeInstanceOf(UnauthorizedException);
+      expect(repository.rows.get(session.id).revokedAt).toBeUndefined();
+    });
+
+    it('refuses tokens of revoked sessions', async () => {
+      const { session, refreshToken } = await service.create(USER_ID, CONTEXT);
+      await service.revoke(USER_ID, session.id, SessionRevokeReason.LOGOUT);
+
+      await expect(
+        service.rotate(refreshToken, CONTEXT),
+      ).rejects.toBeInstanceOf(UnauthorizedException);
+    });
+  });
+});
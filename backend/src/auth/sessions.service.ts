@@ -0,0 +1,270 @@
+/**
+ * sessions.service.ts - Sessions Service
+ *
+ * This service manages login sessions (the sessions table):
+ * - Starting a session on login, with a random refresh token stored as a SHA-256 hash
+ * - Rotating the refresh token on every refresh
+ * - Detecting reuse of a rotated refresh token and revoking the session
+ * - Listing a user's active sessions and revoking one or all of them
+ * - Removing expired sessions when new ones start
+ * - Telling the JWT strategy whether the session of an access token is still active
+ */
+
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { IsNull, LessThan, MoreThan, Repository } from 'typeorm';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { SessionEntity, SessionRevokeReason } from './entities/session.entity';
+import { SessionResponseDto } from './dto/session-response.dto';
+import {
+  REFRESH_TOKEN_REUSE_GRACE_SECONDS,
+  getRefreshTokenTtlMs,
+} from '../common/config/auth.config';
+
+/**
+ * Where a login or refresh came from (shown on the sessions page)
+ */
+export interface SessionContext {
+  userIp?: string;
+  userAgent?: string;
+}
+
+@Injectable()
+export class SessionsService {
+  private readonly logger = new Logger(SessionsService.name);
+  private readonly refreshTokenTtlMs: number;
+
+  constructor(
+    @InjectRepository(SessionEntity)
+    private readonly sessionRepository: Repository<SessionEntity>,
+    configService: ConfigService,
+  ) {
+    this.refreshTokenTtlMs = getRefreshTokenTtlMs(configService);
+  }
+
+  /**
+   * Start a session for a user who just logged in or registered
+   * @param userId - The user
+   * @param context - Where the login came from
+   * @returns The session and its refresh token (the only time the token is available)
+   */
+  async create(
+    userId: string,
+    context: SessionContext,
+  ): Promise<{ session: SessionEntity; refreshToken: string }> {
+    await this.purgeExpiredSessions();
+
+    const secret = this.generateSecret();
+    const now = new Date();
+    const session = await this.sessionRepository.save(
+      this.sessionRepository.create({
+        userId,
+        refreshTokenHash: this.hash(secret),
+        userAgent: context.userAgent?.substring(0, 500),
+        userIp: context.userIp,
+        expiresAt: new Date(now.getTime() + this.refreshTokenTtlMs),
+        lastUsedAt: now,
+      }),
+    );
+    return { session, refreshToken: `${session.id}.${secret}` };
+  }
+
+  /**
+   * Exchange a refresh token for a new one
+   * Presenting a token that was already rotated away means it was copied, so the
+   * session is revoked and both the thief and the user have to log in again.
+   * @param refreshToken - Refresh token from the last login or refresh
+   * @param context - Where the refresh came from
+   * @returns The session and its new refresh token
+   * @throws UnauthorizedException if the token is unknown, expired, revoked or reused
+   */
+  async rotate(
+    refreshToken: string,
+    context: SessionContext,
+  ): Promise<{ session: SessionEntity; refreshToken: string }> {
+    const [id, secret] = (refreshToken || '').split('.');
+    const session =
+      id && secret && this.isUuid(id)
+        ? await this.sessionRepository.findOne({ where: { id } })
+        : null;
+    if (!session || session.revokedAt) {
+      throw new UnauthorizedException('Session expired; please log in again');
+    }
+
+    const presentedHash = this.hash(secret);
+    if (!this.hashesEqual(presentedHash, session.refreshTokenHash)) {
+      const racedRotation =
+        session.previousTokenHash &&
+        this.hashesEqual(presentedHash, session.previousTokenHash) &&
+        session.rotatedAt &&
+        Date.now() - session.rotatedAt.getTime() <
+          REFRESH_TOKEN_REUSE_GRACE_SECONDS * 1000;
+      if (!racedRotation) {
+        await this.revokeSession(session, SessionRevokeReason.REUSE);
+        this.logger.warn(
+          `Refresh token reuse detected; revoked session ${session.id} of user ${session.userId}`,
+        );
+      }
+      throw new UnauthorizedException('Session expired; please log in again');
+    }
+
+    if (session.expiresAt.getTime() <= Date.now()) {
+      throw new UnauthorizedException('Session expired; please log in again');
+    }
+
+    // Swap the hash only if the presented token is still the current one, so of two
+    // refreshes racing with the same token only one gets a new token
+    const newSecret = this.generateSecret();
+    const now = new Date();
+    const rotation = {
+      previousTokenHash: presentedHash,
+      refreshTokenHash: this.hash(newSecret),
+      rotatedAt: now,
+      lastUsedAt: now,
+      expiresAt: new Date(now.getTime() + this.refreshTokenTtlMs),
+      userIp: context.userIp || session.userIp,
+    };
+    const result = await this.sessionRepository.update(
+      { id: session.id, refreshTokenHash: presentedHash, revokedAt: IsNull() },
+      rotation,
+    );
+    if (!result.affected) {
+      throw new UnauthorizedException('Session expired; please log in again');
+    }
+
+    Object.assign(session, rotation);
+    return { session, refreshToken: `${session.id}.${newSecret}` };
+  }
+
+  /**
+   * Whether a session can still be used (checked for every request by the JWT strategy)
+   * @param id - Session ID from the access token
+   * @param userId - User ID from the access token
+   */
+  async isActive(id: string, userId: string): Promise<boolean> {
+    if (!this.isUuid(id)) {
+      return false;
+    }
+    const count = await this.sessionRepository.count({
+      where: {
+        id,
+        userId,
+        revokedAt: IsNull(),
+        expiresAt: MoreThan(new Date()),
+      },
+    });
+    return count > 0;
+  }
+
+  /**
+   * List a user's active sessions, most recently used first
+   * @param userId - The user
+   * @param currentSessionId - Session of the request, flagged as current
+   */
+  async findActive(
+    userId: string,
+    currentSessionId?: string,
+  ): Promise<SessionResponseDto[]> {
+    const sessions = await this.sessionRepository.find({
+      where: { userId, revokedAt: IsNull(), expiresAt: MoreThan(new Date()) },
+      order: { lastUsedAt: 'DESC' },
+    });
+    return sessions.map((session) => ({
+      id: session.id,
+      userAgent: session.userAgent,
+      userIp: session.userIp,
+      createdAt: session.createdAt,
+      lastUsedAt: session.lastUsedAt,
+      expiresAt: session.expiresAt,
+      current: session.id === currentSessionId,
+    }));
+  }
+
+  /**
+   * End one of a user's sessions; its access and refresh tokens stop working at once
+   * @param userId - The user
+   * @param id - Session ID
+   * @param reason - Why the session is ended
+   * @throws NotFoundException if the user has no such active session
+   */
+  async revoke(
+    userId: string,
+    id: string,
+    reason: SessionRevokeReason = SessionRevokeReason.REVOKED,
+  ): Promise<void> {
+    const session = this.isUuid(id)
+      ? await this.sessionRepository.findOne({
+          where: { id, userId, revokedAt: IsNull() },
+        })
+      : null;
+    if (!session) {
+      throw new NotFoundException('Session not found');
+    }
+    await this.revokeSession(session, reason);
+  }
+
+  /**
+   * End all of a user's sessions (log out everywhere)
+   * @param userId - The user
+   * @returns Number of sessions ended
+   */
+  async revokeAll(userId: string): Promise<number> {
+    const result = await this.sessionRepository.update(
+      { userId, revokedAt: IsNull() },
+      {
+        revokedAt: new Date(),
+        revokeReason: SessionRevokeReason.LOGOUT_ALL,
+      },
+    );
+    return result.affected ?? 0;
+  }
+
+  private async revokeSession(
+    session: SessionEntity,
+    reason: SessionRevokeReason,
+  ): Promise<void> {
+    session.revokedAt = new Date();
+    session.revokeReason = reason;
+    await this.sessionRepository.save(session);
+  }
+
+  /**
+   * purgeExpiredSessions - Removes sessions past their expiry, revoked or not
+   * (their refresh tokens are refused either way)
+   */
+  private async purgeExpiredSessions(): Promise<void> {
+    await this.sessionRepository.delete({ expiresAt: LessThan(new Date()) });
+  }
+
+  private generateSecret(): string {
+    return randomBytes(32).toString('base64url');
+  }
+
+  /**
+   * SHA-256 (hex) of a refresh token secret; the secrets are random, so no salt or slow hash is needed
+   */
+  private hash(secret: string): string {
+    return createHash('sha256').update(secret).digest('hex');
+  }
+
+  private hashesEqual(a: string, b: string): boolean {
+    const left = Buffer.from(a);
+    const right = Buffer.from(b);
+    return left.length === right.length && timingSafeEqual(left, right);
+  }
+
+  /**
+   * Session IDs are UUIDs; anything else would make Postgres reject the query
+   */
+  private isUuid(value: string): boolean {
+    return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(
+      value,
+    );
+  }
+}
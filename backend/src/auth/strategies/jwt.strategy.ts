@@ -3,6 +3,8 @@
  *
  * Passport strategy for JWT authentication.
  * Validates JWT tokens and extracts user information.
+ * Tokens are only accepted while their session is active, so logging out
+ * (or revoking the session) takes effect before the token expires.
  */
 
 import { Injectable, UnauthorizedException } from '@nestjs/common';
@@ -10,10 +12,30 @@ import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
 import { ConfigService } from '@nestjs/config';
 import { AuthService } from '../auth.service';
+import { SessionsService } from '../sessions.service';
+import { UserRole } from '../entities/user.entity';
+import { WorkspaceRole } from '../../workspaces/entities/workspace-member.entity';
 
 export interface JwtPayload {
   sub: string; // User ID
   email: string;
+  role: UserRole; // Role when the token was issued (for clients; RolesGuard uses the stored role)
+  sid: string; // Session ID (see SessionsService)
+}
+
+/**
+ * AuthenticatedUser - The user of an authenticated request (request.user, @CurrentUser())
+ * Set by JwtStrategy.validate; WorkspaceGuard adds the workspace the request works in.
+ */
+export interface AuthenticatedUser {
+  id: string;
+  email: string;
+  firstName?: string;
+  lastName?: string;
+  role: UserRole; // Stored role (not the one in the token)
+  sessionId: string;
+  workspaceId?: string; // Set by WorkspaceGuard
+  workspaceRole?: WorkspaceRole; // Set by WorkspaceGuard
 }
 
 @Injectable()
@@ -21,6 +43,7 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
   constructor(
     private readonly configService: ConfigService,
     private readonly authService: AuthService,
+    private readonly sessionsService: SessionsService,
   ) {
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
@@ -31,9 +54,18 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
 
   /**
    * Validate JWT payload and return user
-   * This method is called automatically by Passport after JWT is verified
+   * This method is called automatically by Passport after JWT is verified.
+   * The role is read from the database, so role changes apply to existing tokens.
+   * Tokens issued before sessions existed have no session and are refused.
    */
-  async validate(payload: JwtPayload) {
+  async validate(payload: JwtPayload): Promise<AuthenticatedUser> {
+    if (
+      !payload.sid ||
+      !(await this.sessionsService.isActive(payload.sid, payload.sub))
+    ) {
+      throw new UnauthorizedException('Session expired or revoked');
+    }
+
     const user = await this.authService.validateUser(payload.sub);
 
     if (!user) {
@@ -45,7 +77,8 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
       email: user.email,
       firstName: user.firstName,
       lastName: user.lastName,
+      role: user.role,
+      sessionId: payload.sid,
     };
   }
 }
-
@@ -0,0 +1,85 @@
+/**
+ * users.controller.ts - Users Controller
+ *
+ * Handles HTTP requests for user management (admins only):
+ * - GET /users - List users with their roles
+ * - PATCH /users/:id/role - Change a user's role
+ */
+
+import { Controller, Get, Patch, Param, Body, UseGuards } from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+  ApiBody,
+} from '@nestjs/swagger';
+import { UsersService } from './users.service';
+import { UpdateUserRoleDto } from './dto/update-user-role.dto';
+import { UserResponseDto } from './dto/user-response.dto';
+import { UserRole } from './entities/user.entity';
+import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { RolesGuard } from './guards/roles.guard';
+import { Roles } from './decorators/roles.decorator';
+import {
+  ThrottleLenient,
+  ThrottleModerate,
+} from '../common/decorators/throttle.decorator';
+
+@ApiTags('users')
+@ApiBearerAuth()
+@Controller('users')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+export class UsersController {
+  constructor(private readonly usersService: UsersService) {}
+
+  /**
+   * GET /users
+   * List all users with their roles
+   */
+  @Get()
+  @ThrottleLenient() // Lenient rate limit: 100 requests per minute
+  @ApiOperation({
+    summary: 'List users',
+    description: 'Lists all users with their roles, oldest first. Admins only.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Users retrieved successfully',
+    type: [UserResponseDto],
+  })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admins only' })
+  async findAll(): Promise<UserResponseDto[]> {
+    return this.usersService.findAll();
+  }
+
+  /**
+   * PATCH /users/:id/role
+   * Change a user's role
+   */
+  @Patch(':id/role')
+  @ThrottleModerate() // Moderate rate limit: 10 requests per minute
+  @ApiOperation({
+    summary: "Change a user's role",
+    description:
+      'Sets the role of a user (admin, editor or viewer). The last admin cannot be demoted. Admins only.',
+  })
+  @ApiParam({ name: 'id', description: 'User ID' })
+  @ApiBody({ type: UpdateUserRoleDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Role changed',
+    type: UserResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'This would leave no admin' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admins only' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  async updateRole(
+    @Param('id') id: string,
+    @Body() updateDto: UpdateUserRoleDto,
+  ): Promise<UserResponseDto> {
+    return this.usersService.updateRole(id, updateDto.role);
+  }
+}
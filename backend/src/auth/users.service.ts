@@ -0,0 +1,76 @@
+/**
+ * users.service.ts - Users Service
+ *
+ * This service handles user management by admins:
+ * - Listing users with their roles
+ * - Changing a user's role (there is always at least one admin)
+ */
+
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { UserEntity, UserRole } from './entities/user.entity';
+import { UserResponseDto } from './dto/user-response.dto';
+
+@Injectable()
+export class UsersService {
+  constructor(
+    @InjectRepository(UserEntity)
+    private readonly userRepository: Repository<UserEntity>,
+  ) {}
+
+  /**
+   * List all users, oldest first
+   * @returns Users without their password hashes
+   */
+  async findAll(): Promise<UserResponseDto[]> {
+    const users = await this.userRepository.find({
+      order: { createdAt: 'ASC' },
+    });
+    return users.map((user) => this.toResponse(user));
+  }
+
+  /**
+   * Change a user's role
+   * @param id - User ID
+   * @param role - New role
+   * @returns The updated user
+   * @throws NotFoundException if there is no user with this ID
+   * @throws BadRequestException if this would leave no admin
+   */
+  async updateRole(id: string, role: UserRole): Promise<UserResponseDto> {
+    const user = await this.userRepository.findOne({ where: { id } });
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    if (user.role === UserRole.ADMIN && role !== UserRole.ADMIN) {
+      const adminCount = await this.userRepository.count({
+        where: { role: UserRole.ADMIN },
+      });
+      if (adminCount <= 1) {
+        throw new BadRequestException(
+          'There must be at least one admin; make another user admin first',
+        );
+      }
+    }
+
+    user.role = role;
+    return this.toResponse(await this.userRepository.save(user));
+  }
+
+  private toResponse(user: UserEntity): UserResponseDto {
+    return {
+      id: user.id,
+      email: user.email,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      role: user.role,
+      createdAt: user.createdAt,
+    };
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * auth.config.ts - Authentication Configuration
+ *
+ * Reads token lifetimes from environment variables.
+ * Access tokens are short-lived JWTs (JWT_EXPIRES_IN, read by AuthModule);
+ * refresh tokens last longer and are rotated by SessionsService.
+ */
+
+import { ConfigService } from '@nestjs/config';
+
+/**
+ * Default lifetime of an access token (a duration understood by jsonwebtoken)
+ */
+export const DEFAULT_ACCESS_TOKEN_EXPIRES_IN = '15m';
+
+/**
+ * Default number of days a refresh token stays valid without being used
+ */
+export const DEFAULT_REFRESH_TOKEN_TTL_DAYS = 30;
+
+/**
+ * Returns how long a refresh token stays valid in milliseconds (REFRESH_TOKEN_EXPIRES_IN_DAYS)
+ * Every refresh starts the period again.
+ */
+export function getRefreshTokenTtlMs(configService: ConfigService): number {
+  const days = Number(
+    configService.get(
+      'REFRESH_TOKEN_EXPIRES_IN_DAYS',
+      DEFAULT_REFRESH_TOKEN_TTL_DAYS,
+    ),
+  );
+  const validDays =
+    Number.isFinite(days) && days > 0 ? days : DEFAULT_REFRESH_TOKEN_TTL_DAYS;
+  return validDays * 24 * 60 * 60 * 1000;
+}
+
+/**
+ * Seconds after a rotation during which the replaced refresh token is refused
+ * without revoking the session (requests from another tab racing the rotation)
+ */
+export const REFRESH_TOKEN_REUSE_GRACE_SECONDS = 30;
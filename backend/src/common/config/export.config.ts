@@ -0,0 +1,33 @@
+/**
+ * export.config.ts - Export Configuration
+ *
+ * Reads export-related settings from environment variables.
+ */
+
+import { ConfigService } from '@nestjs/config';
+import {
+  FORMULA_SANITIZATION_MODES,
+  FormulaSanitization,
+} from '../utils/formula-injection.util';
+
+/**
+ * Default handling of formula-like values in CSV exports
+ */
+export const DEFAULT_EXPORT_FORMULA_SANITIZATION: FormulaSanitization =
+  'apostrophe';
+
+/**
+ * Returns the sanitization mode used when an export request does not choose
+ * one (EXPORT_FORMULA_SANITIZATION: off, apostrophe or strip)
+ */
+export function getExportFormulaSanitization(
+  configService: ConfigService,
+): FormulaSanitization {
+  const mode = configService.get<string>(
+    'EXPORT_FORMULA_SANITIZATION',
+    DEFAULT_EXPORT_FORMULA_SANITIZATION,
+  );
+  return (FORMULA_SANITIZATION_MODES as readonly string[]).includes(mode)
+    ? (mode as FormulaSanitization)
+    : DEFAULT_EXPORT_FORMULA_SANITIZATION;
+}
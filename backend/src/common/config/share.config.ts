@@ -0,0 +1,27 @@
+/**
+ * share.config.ts - Share Link Configuration
+ *
+ * Reads share-link-related settings from environment variables.
+ */
+
+import { ConfigService } from '@nestjs/config';
+
+/**
+ * How long a share link is valid when no expiry is chosen, and the longest allowed (in hours)
+ */
+export const DEFAULT_SHARE_LINK_TTL_HOURS = 7 * 24;
+export const MAX_SHARE_LINK_TTL_HOURS = 30 * 24;
+
+/**
+ * Returns the secret share link tokens are signed with (SHARE_LINK_SECRET)
+ * Throws if it is not set, so the app does not start with a guessable secret.
+ */
+export function getShareLinkSecret(configService: ConfigService): string {
+  const secret = configService.get<string>('SHARE_LINK_SECRET');
+  if (!secret) {
+    throw new Error(
+      'SHARE_LINK_SECRET is not set. Set it to a long random string to sign share links',
+    );
+  }
+  return secret;
+}
@@ -0,0 +1,72 @@
+/**
+ * upload.config.ts - File Upload Configuration
+ *
+ * Reads upload-related settings from environment variables.
+ * Centralised here so the multer setup, the controller validation and the
+ * file storage service all agree on the same limits and directories.
+ */
+
+import { join, resolve } from 'path';
+import { ConfigService } from '@nestjs/config';
+
+/**
+ * Default maximum upload size in megabytes
+ * Uploads are streamed to disk, so this is a policy limit rather than a memory safeguard
+ */
+export const DEFAULT_MAX_UPLOAD_SIZE_MB = 500;
+
+/**
+ * Returns the maximum allowed upload size in bytes (MAX_UPLOAD_SIZE_MB)
+ */
+export function getMaxUploadSizeBytes(configService: ConfigService): number {
+  const sizeMb = Number(
+    configService.get('MAX_UPLOAD_SIZE_MB', DEFAULT_MAX_UPLOAD_SIZE_MB),
+  );
+  const validSizeMb =
+    Number.isFinite(sizeMb) && sizeMb > 0 ? sizeMb : DEFAULT_MAX_UPLOAD_SIZE_MB;
+  return Math.floor(validSizeMb * 1024 * 1024);
+}
+
+/**
+ * Returns the absolute directory where uploaded files are kept (UPLOAD_DIR)
+ */
+export function getUploadDir(configService: ConfigService): string {
+  return resolve(configService.get<string>('UPLOAD_DIR', 'uploads'));
+}
+
+/**
+ * Returns the directory multer writes incoming files to before they are processed
+ * Kept inside UPLOAD_DIR so files can be moved into place with a cheap rename
+ */
+export function getUploadTempDir(configService: ConfigService): string {
+  return join(getUploadDir(configService), 'tmp');
+}
+
+/**
+ * Default chunk size for resumable uploads in megabytes
+ */
+export const DEFAULT_UPLOAD_CHUNK_SIZE_MB = 5;
+
+/**
+ * Returns the chunk size used for resumable uploads in bytes (UPLOAD_CHUNK_SIZE_MB)
+ */
+export function getUploadChunkSizeBytes(configService: ConfigService): number {
+  const sizeMb = Number(
+    configService.get('UPLOAD_CHUNK_SIZE_MB', DEFAULT_UPLOAD_CHUNK_SIZE_MB),
+  );
+  const validSizeMb =
+    Number.isFinite(sizeMb) && sizeMb > 0
+      ? sizeMb
+      : DEFAULT_UPLOAD_CHUNK_SIZE_MB;
+  return Math.floor(validSizeMb * 1024 * 1024);
+}
+
+/**
+ * Returns how long an unfinished upload session can sit idle before it expires,
+ * in milliseconds (UPLOAD_SESSION_TTL_HOURS, default 24 hours)
+ */
+export function getUploadSessionTtlMs(configService: ConfigService): number {
+  const hours = Number(configService.get('UPLOAD_SESSION_TTL_HOURS', 24));
+  const validHours = Number.isFinite(hours) && hours > 0 ? hours : 24;
+  return validHours * 60 * 60 * 1000;
+}
@@ -0,0 +1,53 @@
+/**
+ * formula-injection.util.ts - Formula Injection Helpers
+ *
+ * Spreadsheet apps (Excel, LibreOffice, Google Sheets) run a CSV cell as a
+ * formula when it starts with =, +, -, @, a tab or a carriage return, so a
+ * value like =HYPERLINK(...) turns into a live link or command.
+ * See https://owasp.org/www-community/attacks/CSV_Injection
+ */
+
+/**
+ * How values that could run as formulas are written to exports
+ * - off: unchanged
+ * - apostrophe: prefixed with ' so spreadsheets show them as text
+ * - strip: the leading formula characters are removed
+ */
+export const FORMULA_SANITIZATION_MODES = [
+  'off',
+  'apostrophe',
+  'strip',
+] as const;
+export type FormulaSanitization = (typeof FORMULA_SANITIZATION_MODES)[number];
+
+// A lone "-" or "+" (common placeholders) is shown as text, so something must follow
+const FORMULA_TRIGGER = /^[=+\-@\t\r][\s\S]/;
+const LEADING_FORMULA_CHARS = /^[=+\-@\t\r]+/;
+
+// Plain numbers like -12.5 or +3e4 start with a trigger character but are not formulas
+const PLAIN_NUMBER = /^[+-]?(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?$/;
+
+/**
+ * isFormulaLike - Whether a spreadsheet would treat the value as a formula
+ */
+export function isFormulaLike(value: string): boolean {
+  return FORMULA_TRIGGER.test(value) && !PLAIN_NUMBER.test(value);
+}
+
+/**
+ * sanitizeFormulaValue - Makes a value safe to open in a spreadsheet
+ *
+ * @param value - Cell value
+ * @param mode - Sanitization mode (values that are not formula-like are never changed)
+ */
+export function sanitizeFormulaValue(
+  value: string,
+  mode: FormulaSanitization,
+): string {
+  if (mode === 'off' || !isFormulaLike(value)) {
+    return value;
+  }
+  return mode === 'apostrophe'
+    ? `'${value}`
+    : value.replace(LEADING_FORMULA_CHARS, '');
+}
@@ -0,0 +1,70 @@
+/**
+ * peek-stream.util.ts - Stream Peeking Helper
+ *
+ * Lets code look at the start of a stream (to sniff a file format or dialect)
+ * without losing those bytes for whoever reads the stream afterwards.
+ */
+
+import { Readable } from 'stream';
+
+/**
+ * PeekedStream Interface
+ * The first bytes of a stream plus a replacement stream that still yields them
+ */
+export interface PeekedStream {
+  head: Buffer; // Up to the requested number of bytes (more if a chunk was larger)
+  isComplete: boolean; // The head is the whole stream
+  stream: Readable; // Replays the head, then the rest of the input
+  getBytesRead: () => number; // Bytes handed out by stream so far
+}
+
+/**
+ * peekStream - Buffers the start of a stream and replays it in front of the rest
+ *
+ * @param input - Stream to peek into; it must not be read from elsewhere afterwards
+ * @param bytes - Minimum number of bytes to buffer (unless the stream is shorter)
+ */
+export async function peekStream(
+  input: Readable,
+  bytes: number,
+): Promise<PeekedStream> {
+  const iterator = input[Symbol.asyncIterator]();
+  const head: Buffer[] = [];
+  let headBytes = 0;
+  let ended = false;
+
+  while (headBytes < bytes) {
+    const { value, done } = await iterator.next();
+    if (done) {
+      ended = true;
+      break;
+    }
+    const chunk = Buffer.isBuffer(value) ? value : Buffer.from(value);
+    head.push(chunk);
+    headBytes += chunk.length;
+  }
+
+  let bytesRead = 0;
+  async function* replay(): AsyncGenerator<Buffer> {
+    for (const chunk of head) {
+      bytesRead += chunk.length;
+      yield chunk;
+    }
+    while (!ended) {
+      const { value, done } = await iterator.next();
+      if (done) {
+        return;
+      }
+      const chunk = Buffer.isBuffer(value) ? value : Buffer.from(value);
+      bytesRead += chunk.length;
+      yield chunk;
+    }
+  }
+
+  return {
+    head: Buffer.concat(head),
+    isComplete: ended,
+    stream: Readable.from(replay(), { objectMode: false }),
+    getBytesRead: () => bytesRead,
+  };
+}
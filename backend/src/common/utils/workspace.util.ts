@@ -0,0 +1,23 @@
+/**
+ * workspace.util.ts - Workspace Helpers
+ *
+ * Data that belongs to a workspace (uploads, datasets, import templates,
+ * validation schemas) is only looked up within the user's active workspace.
+ */
+
+import { ForbiddenException } from '@nestjs/common';
+
+/**
+ * requireWorkspace - The workspace a lookup is limited to
+ *
+ * @param workspaceId - Active workspace of the user
+ * @returns The workspace ID
+ * @throws ForbiddenException if no workspace ID is given (e.g. a user without an
+ *         active workspace), rather than letting the lookup match every workspace
+ */
+export function requireWorkspace(workspaceId: string | undefined): string {
+  if (!workspaceId) {
+    throw new ForbiddenException('No active workspace');
+  }
+  return workspaceId;
+}
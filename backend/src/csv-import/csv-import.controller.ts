@@ -6,9 +6,26 @@
  *
  * Responsibilities:
  * - Handle file uploads (POST /csv-import/upload)
+ * - Report background import progress (GET /csv-import/history/:id/progress)
+ * - Push upload status changes to clients (GET /csv-import/events)
+ * - Resumable chunked uploads (/csv-import/upload-sessions)
  * - Retrieve upload history (GET /csv-import/history)
  * - Get specific upload details (GET /csv-import/history/:id)
  * - Get CSV data for successful uploads (GET /csv-import/history/:id/data)
+ * - Page through, sort and filter the stored rows of an upload (GET /csv-import/history/:id/rows)
+ * - Group an upload's rows and compute metrics per group (POST /csv-import/history/:id/aggregate)
+ * - Serve the column profiles of an upload (GET /csv-import/history/:id/profile)
+ * - Serve and download the issues and quality score of an upload (GET /csv-import/history/:id/issues)
+ * - Store an upload's values as typed JSON or text (POST /csv-import/history/:id/coerce)
+ * - Export upload data as CSV, Excel, JSON, NDJSON or Parquet (POST /csv-import/history/export)
+ * - Compare the rows of two uploads and export the diff (POST /csv-import/history/diff)
+ * - Create, list and revoke read-only share links of an upload (/csv-import/history/:id/share-links)
+ * - List datasets and their versions, and change a dataset's current version (/csv-import/datasets)
+ * - Manage saved validation schemas (/csv-import/validation-schemas)
+ * - Manage and suggest import templates (/csv-import/import-templates)
+ *
+ * Every route works in the caller's active workspace (X-Workspace-Id header, see WorkspaceGuard):
+ * uploads, datasets, import templates and audit logs are those of the workspace.
  */
 
 import {
@@ -24,11 +41,21 @@ import {
   Query,
   Param,
   NotFoundException,
+  ForbiddenException,
+  InternalServerErrorException,
   Body,
   Res,
   Req,
+  Sse,
+  MessageEvent,
+  Put,
+  Patch,
+  Headers,
+  ParseIntPipe,
 } from '@nestjs/common';
+import { Observable } from 'rxjs';
 import { Response, Request as ExpressRequest } from 'express';
+import { ConfigService } from '@nestjs/config';
 import {
   ApiTags,
   ApiOperation,
@@ -38,60 +65,194 @@ import {
   ApiQuery,
   ApiParam,
   ApiBearerAuth,
+  ApiHeader,
 } from '@nestjs/swagger';
 import { FileInterceptor } from '@nestjs/platform-express';
 import { Express } from 'express';
-import { CsvImportService } from './csv-import.service';
-import { UploadHistoryService } from './services/upload-history.service';
+import {
+  ALL_WORKSPACES,
+  UploadHistoryService,
+  UploadScope,
+} from './services/upload-history.service';
 import { AuditLogService } from './services/audit-log.service';
 import { AuditAction } from './entities/audit-log.entity';
-import { CsvImportResponseDto } from './dto/csv-import-response.dto';
+import { ImportJobResponseDto } from './dto/import-job-response.dto';
+import { UploadProgressResponseDto } from './dto/upload-progress-response.dto';
 import { UploadHistoryResponseDto } from './dto/upload-history-response.dto';
+import { UploadRowsResponseDto } from './dto/upload-rows-response.dto';
+import { UploadProfileResponseDto } from './dto/upload-profile-response.dto';
+import { UploadIssuesResponseDto } from './dto/upload-issues-response.dto';
 import { BulkDeleteDto } from './dto/bulk-delete.dto';
+import { ExportDataDto } from './dto/export-data.dto';
+import { CoerceTypesDto } from './dto/coerce-types.dto';
+import { AggregateRequestDto, AggregateResponseDto } from './dto/aggregate.dto';
+import {
+  UploadDiffPageRequestDto,
+  UploadDiffRequestDto,
+  UploadDiffResponseDto,
+} from './dto/upload-diff.dto';
+import {
+  DatasetListResponseDto,
+  DatasetResponseDto,
+  SetCurrentVersionDto,
+  UpdateDatasetDto,
+} from './dto/dataset.dto';
 import { BulkDeleteResponseDto } from './dto/bulk-delete-response.dto';
 import { AuditLogResponseDto } from './dto/audit-log-response.dto';
+import {
+  CreateShareLinkDto,
+  CreatedShareLinkResponseDto,
+  ShareLinkResponseDto,
+} from './dto/share-link.dto';
 import { UploadStatus } from './interfaces/upload-status.enum';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AuthenticatedUser } from '../auth/strategies/jwt.strategy';
 import { UseGuards } from '@nestjs/common';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
-import { ThrottleModerate, ThrottleLenient } from '../common/decorators/throttle.decorator';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { UserRole } from '../auth/entities/user.entity';
+import { WorkspaceGuard } from '../workspaces/guards/workspace.guard';
+import { WorkspaceRoles } from '../workspaces/decorators/workspace-roles.decorator';
+import { WorkspaceRole } from '../workspaces/entities/workspace-member.entity';
+import {
+  ThrottleModerate,
+  ThrottleLenient,
+} from '../common/decorators/throttle.decorator';
+import { FileStorageService } from './services/file-storage.service';
+import {
+  ImportJobService,
+  ImportJobOptions,
+} from './services/import-job.service';
+import { UploadSessionService } from './services/upload-session.service';
+import { CsvDialectService } from './services/csv-dialect.service';
+import { ImportFormatService } from './services/import-format.service';
+import { ExportService } from './services/export.service';
+import { ValidationSchemaService } from './services/validation-schema.service';
+import { ImportTemplateService } from './services/import-template.service';
+import { TypeInferenceService } from './services/type-inference.service';
+import {
+  UploadRowQuery,
+  UploadRowService,
+} from './services/upload-row.service';
+import { RowFilterService } from './services/row-filter.service';
+import { AggregationService } from './services/aggregation.service';
+import { ColumnProfileService } from './services/column-profile.service';
+import { UploadDiffService } from './services/upload-diff.service';
+import { DatasetService } from './services/dataset.service';
+import { ShareLinkService } from './services/share-link.service';
+import {
+  DataQualityService,
+  UploadIssueQuery,
+} from './services/data-quality.service';
+import {
+  CreateImportTemplateDto,
+  ImportTemplateResponseDto,
+  ImportTemplateSuggestionDto,
+  SuggestImportTemplatesDto,
+  UpdateImportTemplateDto,
+} from './dto/import-template.dto';
+import {
+  CreateValidationSchemaDto,
+  UpdateValidationSchemaDto,
+  ValidationSchemaResponseDto,
+} from './dto/validation-schema.dto';
+import { UploadRecord } from './interfaces/upload-record.interface';
+import {
+  ISSUE_CODES,
+  ISSUE_SEVERITIES,
+  IssueCode,
+  IssueSeverity,
+} from './interfaces/upload-issue.interface';
+import { CsvDialect } from './interfaces/csv-dialect.interface';
+import { InitiateUploadSessionDto } from './dto/initiate-upload-session.dto';
+import { CompleteUploadSessionDto } from './dto/complete-upload-session.dto';
+import { UploadSessionResponseDto } from './dto/upload-session-response.dto';
+import { UploadEventsService } from './services/upload-events.service';
+import { UploadEventType } from './interfaces/upload-event.interface';
+import { getMaxUploadSizeBytes } from '../common/config/upload.config';
+import { getExportFormulaSanitization } from '../common/config/export.config';
+import { requireWorkspace } from '../common/utils/workspace.util';
 
 @ApiTags('csv-import') // Groups endpoints in Swagger docs
 @ApiBearerAuth('JWT-auth') // All endpoints require JWT authentication
+@ApiHeader({
+  name: 'X-Workspace-Id',
+  required: false,
+  description:
+    "Workspace to work in (default: the caller's personal workspace)",
+})
 @Controller('csv-import') // Base route: all endpoints start with /csv-import
 export class CsvImportController {
   /**
    * Dependency Injection
    * NestJS automatically provides these services when the controller is created
-   * - csvImportService: Handles CSV parsing logic
    * - uploadHistoryService: Manages upload records in database
+   * - fileStorageService: Manages uploaded files on disk
+   * - importJobService: Parses uploads in the background
+   * - uploadEventsService: Broadcasts upload changes to connected clients
+   * - uploadSessionService: Handles resumable chunked uploads
+   * - csvDialectService: Validates dialect overrides sent with uploads
+   * - importFormatService: Knows which file formats can be imported
+   * - exportService: Writes upload data in the export formats
+   * - validationSchemaService: Saved validation schemas and the rules of each upload
+   * - importTemplateService: Import templates and the options they give an upload
+   * - typeInferenceService: Infers column types and converts stored values
+   * - uploadRowService: Stores, pages through and filters the rows of uploads
+   * - rowFilterService: Parses row filter expressions into SQL conditions
+   * - aggregationService: Groups rows and computes metrics in the database
+   * - columnProfileService: Computes and stores the column profiles of uploads
+   * - dataQualityService: Stores the issues of uploads and scores their quality
+   * - uploadDiffService: Compares the rows of two uploads
+   * - datasetService: Groups uploads into versioned datasets
+   * - shareLinkService: Creates, lists and revokes share links
    */
   constructor(
-    private readonly csvImportService: CsvImportService,
     private readonly uploadHistoryService: UploadHistoryService,
     private readonly auditLogService: AuditLogService,
+    private readonly fileStorageService: FileStorageService,
+    private readonly importJobService: ImportJobService,
+    private readonly uploadEventsService: UploadEventsService,
+    private readonly uploadSessionService: UploadSessionService,
+    private readonly csvDialectService: CsvDialectService,
+    private readonly importFormatService: ImportFormatService,
+    private readonly exportService: ExportService,
+    private readonly validationSchemaService: ValidationSchemaService,
+    private readonly importTemplateService: ImportTemplateService,
+    private readonly typeInferenceService: TypeInferenceService,
+    private readonly uploadRowService: UploadRowService,
+    private readonly rowFilterService: RowFilterService,
+    private readonly aggregationService: AggregationService,
+    private readonly columnProfileService: ColumnProfileService,
+    private readonly dataQualityService: DataQualityService,
+    private readonly uploadDiffService: UploadDiffService,
+    private readonly datasetService: DatasetService,
+    private readonly shareLinkService: ShareLinkService,
+    private readonly configService: ConfigService,
   ) {}
 
   /**
    * POST /csv-import/upload
-   * Uploads and parses a CSV file
+   * Uploads a CSV, TSV, JSON, NDJSON or Excel (.xlsx) file and queues it for import
    *
    * Flow:
-   * 1. Receives uploaded file
-   * 2. Validates file type (must be .csv)
-   * 3. Creates upload record in database (status: PROCESSING)
-   * 4. Parses CSV file
-   * 5. Updates record with success/failure status
-   * 6. Returns parsed data or error
+   * 1. Receives uploaded file (streamed to a temp file on disk by multer)
+   * 2. Validates file type (extension of a registered format, or .txt to sniff the format)
+   * 3. Creates upload record in database (status: PROCESSING, phase: QUEUED)
+   * 4. Moves the file into storage and queues a background import job
+   * 5. Returns the upload ID immediately (202 Accepted)
+   *
+   * The job parses the file and updates the record; clients follow along via
+   * GET /csv-import/history/:id/progress.
    */
   @Post('upload') // Handles POST requests to /csv-import/upload
   @ThrottleModerate() // Moderate rate limit: 10 requests per minute
-  @HttpCode(HttpStatus.OK) // Returns 200 status code (default for POST is 201)
+  @HttpCode(HttpStatus.ACCEPTED) // Parsing happens in the background
   @UseInterceptors(FileInterceptor('file')) // Intercepts file upload, extracts file from 'file' field
   @ApiOperation({
-    summary: 'Upload and parse a CSV file',
+    summary: 'Upload a data file for import',
     description:
-      'Uploads a CSV file, parses it, and returns the parsed data. The upload is tracked in history with a unique ID.',
+      'Uploads a CSV, TSV, JSON, NDJSON or Excel (.xlsx) file and queues it for parsing in the background. Returns the upload ID immediately; poll /csv-import/history/:id/progress to follow the import.',
   })
   @ApiConsumes('multipart/form-data') // Swagger: expects multipart form data
   @ApiBody({
@@ -101,19 +262,20 @@ export class CsvImportController {
         file: {
           type: 'string',
           format: 'binary',
-          description: 'CSV file to upload',
+          description:
+            'File to upload (.csv, .tsv, .json, .ndjson, .jsonl, .xlsx or .txt)',
         },
       },
     },
   })
   @ApiResponse({
-    status: 200,
-    description: 'CSV file successfully parsed',
-    type: CsvImportResponseDto,
+    status: 202,
+    description: 'File accepted and queued for import',
+    type: ImportJobResponseDto,
   })
   @ApiResponse({
     status: 400,
-    description: 'Bad request - Invalid file or parsing error',
+    description: 'Bad request - Invalid file or options',
   })
   @ApiQuery({
     name: 'detectDuplicates',
@@ -125,210 +287,483 @@ export class CsvImportController {
     name: 'duplicateColumns',
     required: false,
     type: String,
-    description: 'Comma-separated list of column names to check for duplicates (if empty, checks all columns)',
+    description:
+      'Comma-separated list of column names to check for duplicates (if empty, checks all columns)',
   })
   @ApiQuery({
     name: 'handleDuplicates',
     required: false,
     enum: ['skip', 'keep', 'mark'],
-    description: 'How to handle duplicates: skip (remove duplicates), keep (keep all), mark (keep all but mark in warnings)',
+    description:
+      'How to handle duplicates: skip (remove duplicates), keep (keep all), mark (keep all but mark in warnings)',
   })
   @ApiQuery({
     name: 'columnMapping',
     required: false,
     type: String,
-    description: 'JSON string mapping source column names to target column names (e.g., {"oldName": "newName"})',
+    description:
+      'JSON string mapping source column names to target column names (e.g., {"oldName": "newName"})',
+  })
+  @ApiQuery({
+    name: 'dialect',
+    required: false,
+    type: String,
+    description:
+      'JSON string overriding the detected dialect (e.g., {"delimiter": ";", "encoding": "windows-1252"}). Keys: delimiter, quote, lineEnding (lf, crlf, cr), encoding (utf-8, utf-16le, utf-16be, windows-1252, iso-8859-1)',
+  })
+  @ApiQuery({
+    name: 'sheetName',
+    required: false,
+    type: String,
+    description:
+      'Excel only: worksheet to import (defaults to the first sheet)',
+  })
+  @ApiQuery({
+    name: 'headerRow',
+    required: false,
+    type: Number,
+    description:
+      'Excel only: 1-based row holding the column headers; rows above it are skipped (default 1)',
+  })
+  @ApiQuery({
+    name: 'validationRules',
+    required: false,
+    type: String,
+    description:
+      'JSON string with validation rules (e.g., {"severity": "reject_row", "columns": [{"column": "email", "required": true, "type": "email"}]}). See POST /csv-import/validation-schemas for the format',
+  })
+  @ApiQuery({
+    name: 'validationSchemaId',
+    required: false,
+    type: String,
+    description:
+      'ID of a saved validation schema to check rows against (instead of validationRules)',
+  })
+  @ApiQuery({
+    name: 'templateId',
+    required: false,
+    type: String,
+    description:
+      'ID of an import template; its settings apply unless the same option is also given with the upload',
+  })
+  @ApiQuery({
+    name: 'coerceTypes',
+    required: false,
+    type: Boolean,
+    description:
+      'Store values converted to their inferred column types (numbers, booleans, ISO dates) instead of text (default false)',
+  })
+  @ApiQuery({
+    name: 'datasetId',
+    required: false,
+    type: String,
+    description:
+      'ID of a dataset; the file is imported as its next version (a new dataset is created if not given)',
   })
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, RolesGuard, WorkspaceGuard)
+  @Roles(UserRole.ADMIN, UserRole.EDITOR) // Viewers cannot change data
+  @WorkspaceRoles(WorkspaceRole.ADMIN, WorkspaceRole.EDITOR) // Nor can viewers of the workspace
   async uploadCsv(
     @UploadedFile() file: Express.Multer.File, // Extracts uploaded file from request
     @Query('detectDuplicates') detectDuplicates?: string,
     @Query('duplicateColumns') duplicateColumns?: string,
     @Query('handleDuplicates') handleDuplicates?: 'skip' | 'keep' | 'mark',
     @Query('columnMapping') columnMappingStr?: string,
-    @CurrentUser() user?: any,
+    @Query('dialect') dialectStr?: string,
+    @Query('sheetName') sheetName?: string,
+    @Query('headerRow') headerRowStr?: string,
+    @Query('validationRules') validationRulesStr?: string,
+    @Query('validationSchemaId') validationSchemaId?: string,
+    @Query('templateId') templateId?: string,
+    @Query('coerceTypes') coerceTypes?: string,
+    @Query('datasetId') datasetId?: string,
+    @CurrentUser() user?: AuthenticatedUser,
     @Req() req?: ExpressRequest,
-  ): Promise<CsvImportResponseDto> {
+  ): Promise<ImportJobResponseDto> {
     // Validation: Check if file was uploaded
     if (!file) {
-      throw new BadRequestException('No file uploaded. Please select a CSV file to upload');
-    }
-
-    // Validation: Check if file is CSV format
-    if (!file.originalname.match(/\.(csv)$/i)) {
       throw new BadRequestException(
-        `Invalid file type: "${file.originalname}". Only CSV files (.csv) are allowed`,
+        'No file uploaded. Please select a file to upload',
       );
     }
 
-    // Validation: Check file size (max 10MB)
-    const maxFileSize = 10 * 1024 * 1024; // 10MB
+    // Validation: Check if the file is in a supported format
+    const unsupportedFileType =
+      this.importFormatService.getUnsupportedFileTypeMessage(file.originalname);
+    if (unsupportedFileType) {
+      await this.fileStorageService.remove(file.path);
+      throw new BadRequestException(unsupportedFileType);
+    }
+
+    // Validation: Check file size (configured via MAX_UPLOAD_SIZE_MB)
+    // Multer already stops oversized uploads; this keeps the error message descriptive
+    const maxFileSize = getMaxUploadSizeBytes(this.configService);
     if (file.size > maxFileSize) {
+      await this.fileStorageService.remove(file.path);
       const fileSizeMB = (file.size / (1024 * 1024)).toFixed(2);
+      const maxFileSizeMB = (maxFileSize / (1024 * 1024)).toFixed(0);
       throw new BadRequestException(
-        `File "${file.originalname}" is too large (${fileSizeMB}MB). Maximum file size is 10MB`,
+        `File "${file.originalname}" is too large (${fileSizeMB}MB). Maximum file size is ${maxFileSizeMB}MB`,
+      );
+    }
+
+    // Parse duplicate detection and column mapping options
+    const columnsToCheck = duplicateColumns
+      ? duplicateColumns
+          .split(',')
+          .map((col) => col.trim())
+          .filter((col) => col.length > 0)
+      : undefined;
+
+    let columnMapping: Record<string, string> | undefined;
+    if (columnMappingStr) {
+      try {
+        columnMapping = JSON.parse(columnMappingStr);
+      } catch (error) {
+        await this.fileStorageService.remove(file.path);
+        throw new BadRequestException('Invalid column mapping JSON format');
+      }
+    }
+
+    let dialect: Partial<CsvDialect> | undefined;
+    try {
+      dialect = this.csvDialectService.parseOverrides(dialectStr);
+    } catch (error) {
+      await this.fileStorageService.remove(file.path);
+      throw error;
+    }
+
+    let headerRow: number | undefined;
+    if (headerRowStr) {
+      headerRow = Number(headerRowStr);
+      if (!Number.isInteger(headerRow) || headerRow < 1) {
+        await this.fileStorageService.remove(file.path);
+        throw new BadRequestException(
+          'headerRow must be a positive whole number',
+        );
+      }
+    }
+
+    // Options given with the upload win over the settings of the template (if any)
+    let options: ImportJobOptions;
+    try {
+      if (datasetId) {
+        await this.datasetService.findOne(datasetId, user?.workspaceId); // 404 before the file is stored
+      }
+      options = await this.importTemplateService.resolveForUpload(
+        templateId,
+        {
+          dialect,
+          sheetName: sheetName || undefined,
+          headerRow,
+          detectDuplicates:
+            detectDuplicates === undefined
+              ? undefined
+              : detectDuplicates === 'true',
+          duplicateColumns: columnsToCheck,
+          handleDuplicates: handleDuplicates || undefined,
+          columnMapping,
+          validation: await this.validationSchemaService.resolveForUpload(
+            validationSchemaId,
+            validationRulesStr,
+            user?.workspaceId,
+          ),
+          coerceTypes: coerceTypes === 'true',
+          datasetId: datasetId || undefined,
+        },
+        user?.workspaceId,
       );
+    } catch (error) {
+      await this.fileStorageService.remove(file.path);
+      throw error;
     }
 
     // Validation: Check if file is empty
     if (file.size === 0) {
+      await this.fileStorageService.remove(file.path);
       throw new BadRequestException(
-        `File "${file.originalname}" is empty. Please upload a valid CSV file with data`,
+        `File "${file.originalname}" is empty. Please upload a valid file with data`,
       );
     }
 
-    // Step 1: Create upload record in database with PROCESSING status
-    // This tracks the upload even if parsing fails
-    const uploadRecord = await this.uploadHistoryService.createUploadRecord(
+    return this.queueImport(
       file.originalname,
       file.size,
+      file.path,
+      options,
+      user,
+      req,
     );
+  }
 
-    try {
-      // Step 2: Parse the CSV file with duplicate detection and column mapping options
-      // csvImportService.parseCsv() converts the file buffer into structured data
-      const columnsToCheck = duplicateColumns
-        ? duplicateColumns.split(',').map((col) => col.trim()).filter((col) => col.length > 0)
-        : undefined;
-
-      // Parse column mapping JSON string
-      let columnMapping: Record<string, string> | undefined;
-      if (columnMappingStr) {
-        try {
-          columnMapping = JSON.parse(columnMappingStr);
-        } catch (error) {
-          throw new BadRequestException('Invalid column mapping JSON format');
-        }
-      }
-
-      const result = await this.csvImportService.parseCsv(file.buffer, {
-        detectDuplicates: detectDuplicates === 'true',
-        duplicateColumns: columnsToCheck,
-        handleDuplicates: handleDuplicates || 'mark',
-        columnMapping,
-      });
-
-      // Step 3: Store original file buffer for download later
-      await this.uploadHistoryService.storeOriginalFile(
-        uploadRecord.id,
-        file.buffer,
+  /**
+   * POST /csv-import/upload-sessions
+   * Starts a resumable, chunked upload
+   *
+   * Flow:
+   * 1. Client sends file name, size and parse options
+   * 2. Server returns a session ID, the chunk size and the number of chunks
+   * 3. Client PUTs each chunk, then completes the session with a checksum
+   */
+  @Post('upload-sessions')
+  @ThrottleModerate() // Moderate rate limit: 10 requests per minute
+  @UseGuards(JwtAuthGuard, RolesGuard, WorkspaceGuard)
+  @Roles(UserRole.ADMIN, UserRole.EDITOR) // Viewers cannot change data
+  @WorkspaceRoles(WorkspaceRole.ADMIN, WorkspaceRole.EDITOR) // Nor can viewers of the workspace
+  @ApiOperation({
+    summary: 'Initiate a chunked upload',
+    description:
+      'Creates an upload session for a large data file. The file is then sent in numbered chunks and can be resumed after interruptions.',
+  })
+  @ApiBody({ type: InitiateUploadSessionDto })
+  @ApiResponse({
+    status: 201,
+    description: 'Upload session created',
+    type: UploadSessionResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - Invalid file type or size',
+  })
+  async initiateUploadSession(
+    @Body() initiateDto: InitiateUploadSessionDto,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<UploadSessionResponseDto> {
+    if (initiateDto.datasetId) {
+      await this.datasetService.findOne(
+        initiateDto.datasetId,
+        user?.workspaceId,
       );
-
-      // Step 4: Prepare error messages with row numbers
-      const errorMessages = result.errors.length > 0
-        ? result.errors.map((err) => `Row ${err.row}: ${err.message}`)
-        : [];
-
-      // Step 5: Update upload record with SUCCESS status and store CSV data
-      await this.uploadHistoryService.updateUploadStatus(
-        uploadRecord.id,
-        UploadStatus.SUCCESS,
+    }
+    const session = await this.uploadSessionService.createSession(
+      user?.id,
+      user?.workspaceId,
+      initiateDto.fileName,
+      initiateDto.fileSize,
+      await this.importTemplateService.resolveForUpload(
+        initiateDto.templateId,
         {
-          totalRows: result.data.length,
-          message: result.errors.length > 0
-            ? `CSV file imported with ${result.errors.length} warning(s)`
-            : 'CSV file imported successfully',
-          csvData: result.data, // Store the parsed CSV data in database
-          errors: errorMessages.length > 0 ? errorMessages : undefined,
+          dialect: this.csvDialectService.parseOverrides(initiateDto.dialect),
+          sheetName: initiateDto.sheetName,
+          headerRow: initiateDto.headerRow,
+          detectDuplicates: initiateDto.detectDuplicates,
+          duplicateColumns: initiateDto.duplicateColumns,
+          handleDuplicates: initiateDto.handleDuplicates,
+          columnMapping: initiateDto.columnMapping,
+          validation: await this.validationSchemaService.resolveForUpload(
+            initiateDto.validationSchemaId,
+            initiateDto.validationRules,
+            user?.workspaceId,
+          ),
+          coerceTypes: !!initiateDto.coerceTypes,
+          datasetId: initiateDto.datasetId,
         },
-      );
-
-      // Step 6: Prepare duplicate information
-      const duplicateCount = result.duplicates?.length || 0;
-      let finalMessage = result.errors.length > 0
-        ? `CSV file imported with ${result.errors.length} warning(s)`
-        : 'CSV file imported successfully';
-
-      if (duplicateCount > 0) {
-        finalMessage += ` (${duplicateCount} duplicate${duplicateCount !== 1 ? 's' : ''} detected)`;
-      }
+        user?.workspaceId,
+      ),
+    );
+    return this.uploadSessionService.toResponse(session);
+  }
 
-      // Step 7: Log successful upload action
-      await this.auditLogService.logAction(AuditAction.UPLOAD, {
-        userId: user?.id,
-        uploadId: uploadRecord.id,
-        fileName: file.originalname,
-        userIp: req?.ip || req?.socket?.remoteAddress,
-        userAgent: req?.headers['user-agent'],
-        details: {
-          fileSize: file.size,
-          totalRows: result.data.length,
-          duplicateCount,
-          detectDuplicates: detectDuplicates === 'true',
-          handleDuplicates: handleDuplicates || 'mark',
-          columnMapping: columnMapping ? Object.keys(columnMapping).length : 0,
-        },
-        status: 'success',
-      });
+  /**
+   * GET /csv-import/upload-sessions/:sessionId
+   * Gets the state of an upload session
+   *
+   * Used to resume: the response lists which chunks the server already has.
+   */
+  @Get('upload-sessions/:sessionId')
+  @ThrottleLenient() // Lenient rate limit: 100 requests per minute
+  @UseGuards(JwtAuthGuard, WorkspaceGuard)
+  @ApiOperation({
+    summary: 'Get upload session state',
+    description:
+      'Returns the session details and the indexes of the chunks received so far, so an interrupted upload can be resumed.',
+  })
+  @ApiParam({ name: 'sessionId', description: 'Upload session ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Upload session retrieved successfully',
+    type: UploadSessionResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Upload session not found or expired',
+  })
+  async getUploadSession(
+    @Param('sessionId') sessionId: string,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<UploadSessionResponseDto> {
+    const session = await this.uploadSessionService.getSession(
+      sessionId,
+      user?.id,
+      user?.workspaceId,
+    );
+    return this.uploadSessionService.toResponse(session);
+  }
 
-      // Step 8: Return success response with parsed data
-      return {
-        success: true,
-        message: finalMessage,
-        data: result.data,
-        totalRows: result.data.length,
-        uploadId: uploadRecord.id, // Return ID so client can track this upload
-        warnings: result.errors.length > 0 ? result.errors : undefined,
-        duplicates: result.duplicates,
-        duplicateCount,
-      };
-    } catch (error) {
-      // If parsing fails, update record with FAILED status
-      let errorMessage = error instanceof Error ? error.message : String(error);
-      
-      // Improve error messages with more context
-      if (errorMessage.includes('CSV file is empty')) {
-        errorMessage = `CSV file "${file.originalname}" is empty. Please upload a valid CSV file with data`;
-      } else if (errorMessage.includes('only a header row')) {
-        errorMessage = `CSV file "${file.originalname}" contains only a header row with no data rows. Please ensure your CSV file has data rows`;
-      } else if (errorMessage.includes('no valid data rows')) {
-        errorMessage = `CSV file "${file.originalname}" contains no valid data rows (all rows are empty). Please check your CSV file format`;
-      } else if (errorMessage.includes('CSV parsing failed')) {
-        // Extract the underlying error message
-        const underlyingError = errorMessage.replace('CSV parsing failed: ', '');
-        errorMessage = `Failed to parse CSV file "${file.originalname}": ${underlyingError}. Please check that the file is a valid CSV format`;
-      } else if (!errorMessage.includes(file.originalname)) {
-        // Add filename context if not already present
-        errorMessage = `Failed to process CSV file "${file.originalname}": ${errorMessage}`;
-      }
-      
-      await this.uploadHistoryService.updateUploadStatus(
-        uploadRecord.id,
-        UploadStatus.FAILED,
-        {
-          errors: [errorMessage],
-          message: errorMessage,
-        },
-      );
+  /**
+   * PUT /csv-import/upload-sessions/:sessionId/chunks/:index
+   * Uploads one chunk (raw bytes in the request body)
+   *
+   * Chunks may be sent in any order and re-sent to replace a previous attempt.
+   * An optional X-Chunk-Checksum header (SHA-256 hex) is verified on arrival.
+   */
+  @Put('upload-sessions/:sessionId/chunks/:index')
+  @ThrottleLenient() // Lenient rate limit: 100 requests per minute (one request per chunk)
+  @UseGuards(JwtAuthGuard, RolesGuard, WorkspaceGuard)
+  @Roles(UserRole.ADMIN, UserRole.EDITOR) // Viewers cannot change data
+  @WorkspaceRoles(WorkspaceRole.ADMIN, WorkspaceRole.EDITOR) // Nor can viewers of the workspace
+  @ApiOperation({
+    summary: 'Upload a chunk',
+    description:
+      'Uploads chunk number :index (zero-based) as application/octet-stream. Every chunk except the last must be exactly chunkSize bytes.',
+  })
+  @ApiConsumes('application/octet-stream')
+  @ApiParam({ name: 'sessionId', description: 'Upload session ID' })
+  @ApiParam({ name: 'index', description: 'Zero-based chunk number' })
+  @ApiHeader({
+    name: 'X-Chunk-Checksum',
+    required: false,
+    description: 'SHA-256 (hex) of the chunk',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Chunk stored',
+    type: UploadSessionResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - Invalid index, wrong size or checksum mismatch',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Upload session not found or expired',
+  })
+  async uploadChunk(
+    @Param('sessionId') sessionId: string,
+    @Param('index', ParseIntPipe) index: number,
+    @Req() req: ExpressRequest,
+    @Headers('x-chunk-checksum') checksum?: string,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<UploadSessionResponseDto> {
+    // The body is not parsed for application/octet-stream, so the request itself is the chunk stream
+    const session = await this.uploadSessionService.receiveChunk(
+      sessionId,
+      user?.id,
+      user?.workspaceId,
+      index,
+      req,
+      checksum,
+    );
+    return this.uploadSessionService.toResponse(session);
+  }
 
-      // Log failed upload action
-      await this.auditLogService.logAction(AuditAction.UPLOAD, {
-        userId: user?.id,
-        uploadId: uploadRecord.id,
-        fileName: file.originalname,
-        userIp: req?.ip || req?.socket?.remoteAddress,
-        userAgent: req?.headers['user-agent'],
-        status: 'failed',
-        errorMessage,
-      });
+  /**
+   * POST /csv-import/upload-sessions/:sessionId/complete
+   * Assembles the chunks and queues the import
+   *
+   * The checksum is verified against the stored chunks before anything is imported.
+   * From here on the upload behaves exactly like POST /csv-import/upload.
+   */
+  @Post('upload-sessions/:sessionId/complete')
+  @ThrottleModerate() // Moderate rate limit: 10 requests per minute
+  @HttpCode(HttpStatus.ACCEPTED) // Parsing happens in the background
+  @UseGuards(JwtAuthGuard, RolesGuard, WorkspaceGuard)
+  @Roles(UserRole.ADMIN, UserRole.EDITOR) // Viewers cannot change data
+  @WorkspaceRoles(WorkspaceRole.ADMIN, WorkspaceRole.EDITOR) // Nor can viewers of the workspace
+  @ApiOperation({
+    summary: 'Complete a chunked upload',
+    description:
+      'Verifies the checksum, assembles the file and queues it for import. Returns the upload ID; poll /csv-import/history/:id/progress to follow the import.',
+  })
+  @ApiParam({ name: 'sessionId', description: 'Upload session ID' })
+  @ApiBody({ type: CompleteUploadSessionDto })
+  @ApiResponse({
+    status: 202,
+    description: 'File assembled and queued for import',
+    type: ImportJobResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - Missing chunks or checksum mismatch',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Upload session not found or expired',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Upload session was already completed',
+  })
+  async completeUploadSession(
+    @Param('sessionId') sessionId: string,
+    @Body() completeDto: CompleteUploadSessionDto,
+    @CurrentUser() user?: AuthenticatedUser,
+    @Req() req?: ExpressRequest,
+  ): Promise<ImportJobResponseDto> {
+    let response: ImportJobResponseDto;
+    await this.uploadSessionService.completeSession(
+      sessionId,
+      user?.id,
+      user?.workspaceId,
+      completeDto.checksum,
+      async (session, filePath) => {
+        response = await this.queueImport(
+          session.fileName,
+          Number(session.fileSize),
+          filePath,
+          (session.options || {}) as ImportJobOptions,
+          user,
+          req,
+        );
+        return response.uploadId;
+      },
+    );
+    return response;
+  }
 
-      // Throw error to return error response to client
-      throw new BadRequestException(errorMessage);
-    }
+  /**
+   * DELETE /csv-import/upload-sessions/:sessionId
+   * Cancels an unfinished upload session and deletes its chunks
+   */
+  @Delete('upload-sessions/:sessionId')
+  @ThrottleModerate() // Moderate rate limit: 10 requests per minute
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard, WorkspaceGuard)
+  @ApiOperation({
+    summary: 'Cancel a chunked upload',
+    description: 'Deletes an upload session and all chunks received so far.',
+  })
+  @ApiParam({ name: 'sessionId', description: 'Upload session ID' })
+  @ApiResponse({ status: 200, description: 'Upload session cancelled' })
+  @ApiResponse({
+    status: 404,
+    description: 'Upload session not found or expired',
+  })
+  async abortUploadSession(
+    @Param('sessionId') sessionId: string,
+    @CurrentUser() user?: AuthenticatedUser,
+  ) {
+    await this.uploadSessionService.abortSession(
+      sessionId,
+      user?.id,
+      user?.workspaceId,
+    );
+    return { message: 'Upload session cancelled' };
   }
 
   /**
    * GET /csv-import/audit-logs
    * Retrieves audit logs with optional filtering
-   * 
+   *
    * Note: This route must be defined before 'history/:id' to avoid route conflicts
    */
   @Get('audit-logs')
   @ThrottleLenient() // Lenient rate limit: 100 requests per minute
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, WorkspaceGuard)
   @ApiOperation({
     summary: 'Get audit logs',
-    description: 'Retrieves audit logs with optional filtering by action, user ID, upload ID, and date range. Includes user information (name and email) for each log entry.',
+    description:
+      "Retrieves the audit logs of the caller's workspace with optional filtering by action, user ID, upload ID, and date range. Includes user information (name and email) for each log entry. Admins and workspace admins read every member's entries; other users only their own. Admins can read the entries of every workspace with scope=all.",
   })
   @ApiQuery({
     name: 'action',
@@ -348,6 +783,13 @@ export class CsvImportController {
     type: String,
     description: 'Filter by upload ID',
   })
+  @ApiQuery({
+    name: 'scope',
+    required: false,
+    enum: ['all'],
+    description:
+      "'all' returns the entries of every workspace (admins only); by default only those of the caller's workspace",
+  })
   @ApiQuery({
     name: 'startDate',
     required: false,
@@ -381,18 +823,26 @@ export class CsvImportController {
     status: 401,
     description: 'Unauthorized - Invalid or missing token',
   })
+  @ApiResponse({
+    status: 403,
+    description:
+      "Forbidden - No active workspace, or only admins and workspace admins can read other users' audit logs",
+  })
   async getAuditLogs(
     @Query('action') action?: string,
     @Query('userId') userId?: string,
     @Query('uploadId') uploadId?: string,
+    @Query('scope') scope?: string,
     @Query('startDate') startDate?: string,
     @Query('endDate') endDate?: string,
     @Query('page') page?: string,
     @Query('limit') limit?: string,
+    @CurrentUser() user?: AuthenticatedUser,
   ): Promise<AuditLogResponseDto> {
     const filters: {
       action?: AuditAction;
       userId?: string;
+      workspaceId?: string;
       uploadId?: string;
       startDate?: Date;
       endDate?: Date;
@@ -402,8 +852,30 @@ export class CsvImportController {
       filters.action = action as AuditAction;
     }
 
-    if (userId) {
-      filters.userId = userId;
+    // Entries of the caller's active workspace; admins can ask for every workspace's
+    if (scope === 'all' && user?.role !== UserRole.ADMIN) {
+      throw new ForbiddenException(
+        'Only admins can read the audit logs of all workspaces',
+      );
+    }
+    if (scope !== 'all') {
+      filters.workspaceId = requireWorkspace(user?.workspaceId);
+    }
+
+    // Admins and workspace admins read everyone's entries; other users only their own
+    if (
+      user?.role === UserRole.ADMIN ||
+      user?.workspaceRole === WorkspaceRole.ADMIN
+    ) {
+      if (userId) {
+        filters.userId = userId;
+      }
+    } else if (userId && userId !== user?.id) {
+      throw new ForbiddenException(
+        "Only admins and workspace admins can read other users' audit logs",
+      );
+    } else {
+      filters.userId = user?.id;
     }
 
     if (uploadId) {
@@ -426,6 +898,36 @@ export class CsvImportController {
     return await this.auditLogService.getAuditLogs(filters, pageNum, limitNum);
   }
 
+  /**
+   * GET /csv-import/events
+   * Server-Sent Events stream of upload changes
+   *
+   * Pushes upload.created, upload.progress, upload.completed, upload.failed and
+   * upload.deleted events for the uploads of the caller's workspace, plus a heartbeat every 25s.
+   * Each event carries the upload ID, file name and current progress.
+   */
+  @Sse('events') // Handles GET requests to /csv-import/events (text/event-stream)
+  @ThrottleLenient() // Lenient rate limit: 100 requests per minute (covers reconnects)
+  @UseGuards(JwtAuthGuard, WorkspaceGuard)
+  @ApiOperation({
+    summary: 'Subscribe to upload events',
+    description:
+      "Server-Sent Events stream of upload created/progress/completed/failed/deleted events for the uploads of the caller's workspace (made by any member). The SSE event name is the event type.",
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Event stream opened (text/event-stream)',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing token',
+  })
+  streamEvents(
+    @CurrentUser() user: AuthenticatedUser,
+  ): Observable<MessageEvent> {
+    return this.uploadEventsService.streamFor(user.workspaceId);
+  }
+
   /**
    * GET /csv-import/history
    * Retrieves upload history with advanced filtering options
@@ -437,19 +939,22 @@ export class CsvImportController {
    * - endDate (optional): Filter uploads until this date (ISO 8601 format)
    * - minSize (optional): Minimum file size in bytes
    * - maxSize (optional): Maximum file size in bytes
+   * - minQuality, maxQuality (optional): Quality score range (0-100)
+   * - issueCode (optional): Only uploads with issues of this code
+   * - scope (optional): 'all' for the uploads of every workspace (admins only; default: the caller's workspace)
    *
    * Returns:
    * - List of all uploads (or filtered by criteria)
    * - Statistics: total, success count, failed count, processing count
    * - Results sorted: success first, then processing, then failed
    */
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, WorkspaceGuard)
   @Get('history') // Handles GET requests to /csv-import/history
   @ThrottleLenient() // Lenient rate limit: 100 requests per minute
   @ApiOperation({
     summary: 'Get upload history with advanced filters',
     description:
-      'Retrieves all upload records with optional filtering by status, filename search, date range, and file size. Results are sorted with success first, then processing, then failed.',
+      'Retrieves all upload records with optional filtering by status, filename search, date range, file size, quality score, issue code and dataset. Results are sorted with success first, then processing, then failed.',
   })
   @ApiQuery({
     name: 'status',
@@ -467,13 +972,15 @@ export class CsvImportController {
     name: 'startDate',
     required: false,
     type: String,
-    description: 'Filter uploads from this date (ISO 8601 format, e.g., 2024-01-01T00:00:00Z)',
+    description:
+      'Filter uploads from this date (ISO 8601 format, e.g., 2024-01-01T00:00:00Z)',
   })
   @ApiQuery({
     name: 'endDate',
     required: false,
     type: String,
-    description: 'Filter uploads until this date (ISO 8601 format, e.g., 2024-12-31T23:59:59Z)',
+    description:
+      'Filter uploads until this date (ISO 8601 format, e.g., 2024-12-31T23:59:59Z)',
   })
   @ApiQuery({
     name: 'minSize',
@@ -487,6 +994,39 @@ export class CsvImportController {
     type: Number,
     description: 'Maximum file size in bytes',
   })
+  @ApiQuery({
+    name: 'minQuality',
+    required: false,
+    type: Number,
+    description:
+      'Minimum quality score (0-100); uploads without a score are left out',
+  })
+  @ApiQuery({
+    name: 'maxQuality',
+    required: false,
+    type: Number,
+    description:
+      'Maximum quality score (0-100); uploads without a score are left out',
+  })
+  @ApiQuery({
+    name: 'issueCode',
+    required: false,
+    enum: ISSUE_CODES,
+    description: 'Return only uploads with at least one issue of this code',
+  })
+  @ApiQuery({
+    name: 'datasetId',
+    required: false,
+    type: String,
+    description: 'Return only the versions of this dataset',
+  })
+  @ApiQuery({
+    name: 'scope',
+    required: false,
+    enum: ['all'],
+    description:
+      "'all' returns the uploads of every workspace (admins only); by default only those of the caller's workspace",
+  })
   @ApiQuery({
     name: 'page',
     required: false,
@@ -513,28 +1053,35 @@ export class CsvImportController {
     @Query('endDate') endDate?: string,
     @Query('minSize') minSize?: string,
     @Query('maxSize') maxSize?: string,
+    @Query('minQuality') minQuality?: string,
+    @Query('maxQuality') maxQuality?: string,
+    @Query('issueCode') issueCode?: string,
+    @Query('datasetId') datasetId?: string,
+    @Query('scope') scope?: string,
     @Query('page') page?: string,
     @Query('limit') limit?: string,
+    @CurrentUser() user?: AuthenticatedUser,
   ): Promise<UploadHistoryResponseDto> {
-    // Parse pagination parameters
+    const { code } = this.parseIssueQuery(issueCode);
+
+    // Everyone sees the uploads of their workspace; admins can ask for every workspace's
+    if (scope === 'all' && user?.role !== UserRole.ADMIN) {
+      throw new ForbiddenException(
+        'Only admins can see the uploads of all workspaces',
+      );
+    }
+    const uploadScope: UploadScope =
+      scope === 'all' ? ALL_WORKSPACES : user?.workspaceId;
+
+    // Parse pagination parameters
     const pageNum = page ? Math.max(1, parseInt(page, 10)) : 1;
     const limitNum = limit
       ? Math.min(100, Math.max(1, parseInt(limit, 10)))
       : 10;
 
-    // Get all uploads for statistics (without pagination)
-    const allUploads = await this.uploadHistoryService.getAllUploads();
-
-    // Calculate total statistics from all uploads
-    const totalSuccess = allUploads.filter(
-      (u) => u.status === UploadStatus.SUCCESS,
-    ).length;
-    const totalFailed = allUploads.filter(
-      (u) => u.status === UploadStatus.FAILED,
-    ).length;
-    const totalProcessing = allUploads.filter(
-      (u) => u.status === UploadStatus.PROCESSING,
-    ).length;
+    // Count all uploads in scope by status for statistics (without pagination)
+    const statusCounts =
+      await this.uploadHistoryService.countUploadsByStatus(uploadScope);
 
     // Get filtered and paginated uploads
     const result = await this.uploadHistoryService.getUploadsWithFilters(
@@ -545,6 +1092,11 @@ export class CsvImportController {
         endDate: endDate ? new Date(endDate) : undefined,
         minSize: minSize ? parseInt(minSize, 10) : undefined,
         maxSize: maxSize ? parseInt(maxSize, 10) : undefined,
+        minQuality: minQuality ? parseFloat(minQuality) : undefined,
+        maxQuality: maxQuality ? parseFloat(maxQuality) : undefined,
+        issueCode: code,
+        datasetId: datasetId || undefined,
+        scope: uploadScope,
       },
       pageNum,
       limitNum,
@@ -552,11 +1104,11 @@ export class CsvImportController {
 
     // Return paginated uploads with statistics
     return {
-      uploads: result.records,
+      uploads: await this.datasetService.annotate(result.records),
       total: result.total,
-      success: totalSuccess,
-      failed: totalFailed,
-      processing: totalProcessing,
+      success: statusCounts[UploadStatus.SUCCESS],
+      failed: statusCounts[UploadStatus.FAILED],
+      processing: statusCounts[UploadStatus.PROCESSING],
       page: result.page,
       limit: result.limit,
       totalPages: result.totalPages,
@@ -574,9 +1126,10 @@ export class CsvImportController {
    *
    * Returns:
    * - Upload record details (filename, status, dates, errors, etc.)
-   * - Does NOT include CSV data (use /history/:id/data for that)
+   * - columnSchema: the inferred type of each column
+   * - Does NOT include CSV data (use /history/:id/rows or /history/:id/data for that)
    */
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, WorkspaceGuard)
   @Get('history/:id') // Handles GET requests to /csv-import/history/:id
   @ThrottleLenient() // Lenient rate limit: 100 requests per minute
   @ApiOperation({
@@ -597,13 +1150,67 @@ export class CsvImportController {
     status: 404,
     description: 'Upload record not found',
   })
-  async getUploadById(@Param('id') id: string) {
+  async getUploadById(
+    @Param('id') id: string,
+    @CurrentUser() user?: AuthenticatedUser,
+  ) {
     // Find upload record by ID in database
-    const upload = await this.uploadHistoryService.getUploadById(id);
+    const upload = await this.uploadHistoryService.getUploadById(
+      id,
+      this.uploadScope(user),
+    );
     if (!upload) {
       throw new NotFoundException('Upload record not found');
     }
-    return upload;
+    const [annotated] = await this.datasetService.annotate([upload]);
+    return annotated;
+  }
+
+  /**
+   * GET /csv-import/history/:id/progress
+   * Gets the progress of a background import
+   *
+   * Path Parameter:
+   * - id: The unique ID of the upload record
+   *
+   * Returns:
+   * - Status, phase, rows processed so far and estimated percent complete
+   * - Lightweight (does not load CSV data), so it is safe to poll
+   */
+  @UseGuards(JwtAuthGuard, WorkspaceGuard)
+  @Get('history/:id/progress') // Handles GET requests to /csv-import/history/:id/progress
+  @ThrottleLenient() // Lenient rate limit: 100 requests per minute
+  @ApiOperation({
+    summary: 'Get import progress',
+    description:
+      'Retrieves the progress of a background import: status, phase (queued, parsing, saving, completed, failed), rows processed and percent complete.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Upload record ID',
+    example: '1234567890-abc123',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Import progress retrieved successfully',
+    type: UploadProgressResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Upload record not found',
+  })
+  async getUploadProgress(
+    @Param('id') id: string,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<UploadProgressResponseDto> {
+    const progress = await this.uploadHistoryService.getUploadProgress(
+      id,
+      this.uploadScope(user),
+    );
+    if (!progress) {
+      throw new NotFoundException('Upload record not found');
+    }
+    return progress;
   }
 
   /**
@@ -613,26 +1220,44 @@ export class CsvImportController {
    * Path Parameter:
    * - id: The unique ID of the upload record
    *
+   * Query Parameters:
+   * - offset: Rows to skip, in file order (default: 0)
+   * - limit: Rows to return (default: 1000, max: 5000)
+   *
    * Requirements:
    * - Upload must have status 'success'
    * - CSV data must exist in the record
    *
    * Returns:
-   * - The actual CSV data that was parsed and stored
-   * - Useful for viewing what was imported
+   * - A slice of the CSV data that was parsed and stored, in file order
+   * - Useful for reading what was imported in slices (sorting and filtering: use /history/:id/rows)
    */
   @Get('history/:id/data') // Handles GET requests to /csv-import/history/:id/data
   @ThrottleLenient() // Lenient rate limit: 100 requests per minute
   @ApiOperation({
     summary: 'Get CSV data for a successful upload',
     description:
-      'Retrieves the parsed CSV data for a successful upload. Only available for uploads with status "success".',
+      'Retrieves the parsed CSV data for a successful upload, limit rows at a time from offset in file order. Only available for uploads with status "success".',
   })
   @ApiParam({
     name: 'id',
     description: 'Upload record ID',
     example: '1234567890-abc123',
   })
+  @ApiQuery({
+    name: 'offset',
+    required: false,
+    type: Number,
+    description: 'Rows to skip (default: 0)',
+    example: 0,
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: Number,
+    description: 'Number of rows to return (default: 1000, max: 5000)',
+    example: 1000,
+  })
   @ApiResponse({
     status: 200,
     description: 'CSV data retrieved successfully',
@@ -645,10 +1270,19 @@ export class CsvImportController {
     status: 404,
     description: 'Upload record or CSV data not found',
   })
-  @UseGuards(JwtAuthGuard)
-  async getUploadData(@Param('id') id: string, @CurrentUser() user?: any, @Req() req?: ExpressRequest) {
+  @UseGuards(JwtAuthGuard, WorkspaceGuard)
+  async getUploadData(
+    @Param('id') id: string,
+    @Query('offset') offset?: string,
+    @Query('limit') limit?: string,
+    @CurrentUser() user?: AuthenticatedUser,
+    @Req() req?: ExpressRequest,
+  ) {
     // Get upload record from database
-    const upload = await this.uploadHistoryService.getUploadById(id);
+    const upload = await this.uploadHistoryService.getUploadById(
+      id,
+      this.uploadScope(user),
+    );
     if (!upload) {
       throw new NotFoundException('Upload record not found');
     }
@@ -660,20 +1294,34 @@ export class CsvImportController {
       );
     }
 
+    // Parse slice parameters
+    const offsetNum = offset ? Math.max(0, parseInt(offset, 10) || 0) : 0;
+    const limitNum = limit
+      ? Math.min(5000, Math.max(1, parseInt(limit, 10) || 1000))
+      : 1000;
+
     // Validation: Check if CSV data exists
-    if (!upload.data) {
+    const rows = await this.uploadRowService.getRowSlice(
+      upload.id,
+      offsetNum,
+      limitNum,
+    );
+    if (rows.length === 0 && offsetNum === 0) {
       throw new NotFoundException('CSV data not found for this upload');
     }
 
     // Log view data action
     await this.auditLogService.logAction(AuditAction.VIEW_DATA, {
       userId: user?.id,
+      workspaceId: user?.workspaceId,
       uploadId: upload.id,
       fileName: upload.fileName,
       userIp: req?.ip || req?.socket?.remoteAddress,
       userAgent: req?.headers['user-agent'],
       details: {
         totalRows: upload.totalRows,
+        offset: offsetNum,
+        returnedRows: rows.length,
       },
       status: 'success',
     });
@@ -683,167 +1331,1290 @@ export class CsvImportController {
       uploadId: upload.id,
       fileName: upload.fileName,
       totalRows: upload.totalRows,
-      data: upload.data, // The actual parsed CSV data
+      offset: offsetNum,
+      limit: limitNum,
+      columnSchema: upload.columnSchema,
+      typed: upload.typed,
+      data: rows.map((row) => row.data), // The parsed CSV data of the slice
     };
   }
 
   /**
-   * GET /csv-import/history/:id/download
-   * Downloads the original CSV file
+   * GET /csv-import/history/:id/rows
+   * Gets one page of the stored rows of a successful upload
+   *
+   * Query Parameters:
+   * - page, limit: Page number (default: 1) and rows per page (default: 50, max: 500)
+   * - sort, direction: Column to sort by and asc/desc (default: file order)
+   * - search: Case-insensitive text to look for in the row's values
+   * - searchColumns: Comma-separated columns to search (default: all columns)
+   * - filter: Filter expression, e.g. age > 30 AND country IN ("DE", "FR") (see RowFilterService)
+   * - flagged: 'true' to return only rows with warnings or marked as duplicates
+   *
+   * Returns:
+   * - The rows of the page, each with its source row number, warnings and duplicate flag
+   * - The upload's columns and column schema, and pagination metadata
    */
-  @Get('history/:id/download')
-  @ThrottleModerate() // Moderate rate limit: 10 requests per minute
+  @Get('history/:id/rows') // Handles GET requests to /csv-import/history/:id/rows
+  @ThrottleLenient() // Lenient rate limit: 100 requests per minute
   @ApiOperation({
-    summary: 'Download original CSV file',
-    description: 'Downloads the original CSV file that was uploaded.',
+    summary: 'Get a page of rows of a successful upload',
+    description:
+      'Retrieves the stored rows of a successful upload a page at a time, sorted and filtered by the database. Integer and number columns sort numerically; empty values sort last. Each row has its row number in the source file, its warnings and the row it duplicates (if any).',
   })
-  @ApiParam({ name: 'id', description: 'Upload record ID' })
-  @ApiResponse({ status: 200, description: 'File downloaded successfully' })
-  @ApiResponse({ status: 404, description: 'Upload record or file not found' })
-  @UseGuards(JwtAuthGuard)
-  async downloadOriginalFile(@Param('id') id: string, @Res() res: Response, @CurrentUser() user?: any, @Req() req?: ExpressRequest) {
-    const upload = await this.uploadHistoryService.getUploadById(id);
+  @ApiParam({
+    name: 'id',
+    description: 'Upload record ID',
+    example: '1234567890-abc123',
+  })
+  @ApiQuery({
+    name: 'page',
+    required: false,
+    type: Number,
+    description: 'Page number (default: 1)',
+    example: 1,
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: Number,
+    description: 'Number of rows per page (default: 50, max: 500)',
+    example: 50,
+  })
+  @ApiQuery({
+    name: 'sort',
+    required: false,
+    type: String,
+    description: 'Column to sort by (default: order of the file)',
+  })
+  @ApiQuery({
+    name: 'direction',
+    required: false,
+    enum: ['asc', 'desc'],
+    description: 'Sort direction (default: asc)',
+  })
+  @ApiQuery({
+    name: 'search',
+    required: false,
+    type: String,
+    description:
+      'Return rows with a value containing this text (case-insensitive)',
+  })
+  @ApiQuery({
+    name: 'searchColumns',
+    required: false,
+    type: String,
+    description: 'Comma-separated columns to search (default: all columns)',
+  })
+  @ApiQuery({
+    name: 'filter',
+    required: false,
+    type: String,
+    description:
+      'Filter expression: conditions like column = "text", column > 10, column ~ "part", column IN ("a", "b") and column IS EMPTY, combined with AND, OR, NOT and parentheses. Column names with spaces go in backticks.',
+    example: 'age > 30 AND country IN ("DE", "FR") AND email ~ "@acme"',
+  })
+  @ApiQuery({
+    name: 'flagged',
+    required: false,
+    type: Boolean,
+    description: 'Return only rows with warnings or marked as duplicates',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Rows retrieved successfully',
+    type: UploadRowsResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Upload not successful, unknown sort or search columns, or an invalid filter expression',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Upload record not found',
+  })
+  @UseGuards(JwtAuthGuard, WorkspaceGuard)
+  async getUploadRows(
+    @Param('id') id: string,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+    @Query('sort') sort?: string,
+    @Query('direction') direction?: string,
+    @Query('search') search?: string,
+    @Query('searchColumns') searchColumnsStr?: string,
+    @Query('filter') filter?: string,
+    @Query('flagged') flagged?: string,
+    @CurrentUser() user?: AuthenticatedUser,
+    @Req() req?: ExpressRequest,
+  ): Promise<UploadRowsResponseDto> {
+    const upload = await this.uploadHistoryService.getUploadById(
+      id,
+      this.uploadScope(user),
+    );
     if (!upload) {
       throw new NotFoundException('Upload record not found');
     }
 
-    const fileBuffer = await this.uploadHistoryService.getOriginalFile(id);
-    if (!fileBuffer) {
-      throw new NotFoundException('Original file not found');
+    if (upload.status !== UploadStatus.SUCCESS) {
+      throw new BadRequestException(
+        'CSV data is only available for successful uploads',
+      );
     }
 
-    // Log download action
-    await this.auditLogService.logAction(AuditAction.DOWNLOAD_ORIGINAL, {
-      userId: user?.id,
-      uploadId: upload.id,
-      fileName: upload.fileName,
-      userIp: req?.ip || req?.socket?.remoteAddress,
-      userAgent: req?.headers['user-agent'],
-      details: {
-        fileSize: upload.fileSize,
-      },
-      status: 'success',
-    });
+    // Parse pagination parameters
+    const pageNum = page ? Math.max(1, parseInt(page, 10) || 1) : 1;
+    const limitNum = limit
+      ? Math.min(500, Math.max(1, parseInt(limit, 10) || 50))
+      : 50;
 
-    res.setHeader('Content-Type', 'text/csv');
-    res.setHeader(
-      'Content-Disposition',
-      `attachment; filename="${upload.fileName}"`,
+    // Sort and search columns must be columns of the upload
+    const columns = upload.columnSchema?.map((column) => column.name) ?? [];
+    const searchColumns = searchColumnsStr
+      ? searchColumnsStr
+          .split(',')
+          .map((column) => column.trim())
+          .filter(Boolean)
+      : undefined;
+    const unknownColumns = [
+      ...(sort ? [sort] : []),
+      ...(searchColumns ?? []),
+    ].filter((column) => !columns.includes(column));
+    if (unknownColumns.length > 0) {
+      throw new BadRequestException(
+        `Unknown column(s): ${unknownColumns.join(', ')}`,
+      );
+    }
+    if (direction && direction !== 'asc' && direction !== 'desc') {
+      throw new BadRequestException('direction must be asc or desc');
+    }
+
+    // Parse the filter expression (reports the position of the first problem)
+    const where = this.rowFilterService.compile(
+      filter,
+      columns,
+      'uploadRow.data',
+    );
+
+    const sortType = upload.columnSchema?.find(
+      (column) => column.name === sort,
+    )?.type;
+    const result = await this.uploadRowService.getRows(
+      upload.id,
+      {
+        sort: sort
+          ? [
+              {
+                column: sort,
+                direction: direction as 'asc' | 'desc',
+                numeric: sortType === 'integer' || sortType === 'number',
+              },
+            ]
+          : undefined,
+        search,
+        searchColumns,
+        flagged: flagged === 'true',
+        where,
+      },
+      pageNum,
+      limitNum,
     );
-    res.send(fileBuffer);
+
+    // Log viewing the data once, when the first page of the unfiltered rows is opened
+    if (pageNum === 1 && !sort && !search && !where && flagged !== 'true') {
+      await this.auditLogService.logAction(AuditAction.VIEW_DATA, {
+        userId: user?.id,
+        workspaceId: user?.workspaceId,
+        uploadId: upload.id,
+        fileName: upload.fileName,
+        userIp: req?.ip || req?.socket?.remoteAddress,
+        userAgent: req?.headers['user-agent'],
+        details: {
+          totalRows: upload.totalRows,
+          limit: limitNum,
+        },
+        status: 'success',
+      });
+    }
+
+    return {
+      uploadId: upload.id,
+      fileName: upload.fileName,
+      columns,
+      columnSchema: upload.columnSchema,
+      typed: upload.typed,
+      rows: result.rows,
+      total: result.total,
+      page: result.page,
+      limit: result.limit,
+      totalPages: result.totalPages,
+      hasNextPage: result.page < result.totalPages,
+      hasPreviousPage: result.page > 1,
+    };
   }
 
   /**
-   * POST /csv-import/history/export
-   * Exports CSV data to a downloadable CSV file
+   * POST /csv-import/history/:id/aggregate
+   * Groups the rows of a successful upload and computes metrics for every group
+   *
+   * Body:
+   * - groupBy: Columns to group by (none: one row for all matching rows)
+   * - metrics: count, sum, avg, min, max or distinctCount, each of a column (optional for count)
+   * - filter: Filter expression selecting the rows to aggregate
+   * - sort, limit: Order of the groups and maximum number returned (default: 1000)
+   *
+   * Returns:
+   * - One row per group with the group-by values and the metrics by name,
+   *   ready for a pivot grid or a chart
    */
-  @Post('history/export')
-  @ThrottleModerate() // Moderate rate limit: 10 requests per minute
+  @Post('history/:id/aggregate') // Handles POST requests to /csv-import/history/:id/aggregate
+  @ThrottleLenient() // Lenient rate limit: 100 requests per minute (read-only, used interactively)
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
-    summary: 'Export CSV data',
-    description: 'Exports CSV data from an upload to a downloadable CSV file.',
+    summary: 'Aggregate the rows of a successful upload',
+    description:
+      'Groups the stored rows of a successful upload by zero or more columns and computes metrics for every group: count, sum, avg, min, max and distinctCount. sum and avg need integer or number columns. Rows can be narrowed down with a filter expression. Empty values form their own group (null).',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Upload record ID',
+    example: '1234567890-abc123',
+  })
+  @ApiBody({ type: AggregateRequestDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Groups computed successfully',
+    type: AggregateResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Upload not successful, unknown columns, metrics that do not fit their column, or an invalid filter expression',
   })
-  @ApiResponse({ status: 200, description: 'CSV file exported successfully' })
-  @UseGuards(JwtAuthGuard)
-  async exportCsvData(@Body('uploadId') uploadId: string, @Res() res: Response, @CurrentUser() user?: any, @Req() req?: ExpressRequest) {
-    const upload = await this.uploadHistoryService.getUploadById(uploadId);
+  @ApiResponse({
+    status: 404,
+    description: 'Upload record not found',
+  })
+  @UseGuards(JwtAuthGuard, WorkspaceGuard)
+  async aggregateUploadRows(
+    @Param('id') id: string,
+    @Body() aggregateDto: AggregateRequestDto,
+    @CurrentUser() user?: AuthenticatedUser,
+    @Req() req?: ExpressRequest,
+  ): Promise<AggregateResponseDto> {
+    const upload = await this.uploadHistoryService.getUploadById(
+      id,
+      this.uploadScope(user),
+    );
     if (!upload) {
       throw new NotFoundException('Upload record not found');
     }
 
-    if (upload.status !== UploadStatus.SUCCESS || !upload.data) {
-      throw new BadRequestException('CSV data is only available for successful uploads');
+    if (upload.status !== UploadStatus.SUCCESS) {
+      throw new BadRequestException(
+        'CSV data is only available for successful uploads',
+      );
     }
 
-    // Convert data to CSV format
-    const headers = upload.data.length > 0 ? Object.keys(upload.data[0]) : [];
-    const csvRows = [
-      headers.join(','), // Header row
-      ...upload.data.map((row) =>
-        headers.map((header) => {
-          const value = row[header] || '';
-          // Escape commas and quotes in CSV
-          if (value.includes(',') || value.includes('"') || value.includes('\n')) {
-            return `"${value.replace(/"/g, '""')}"`;
-          }
-          return value;
-        }).join(','),
-      ),
-    ];
-
-    const csvContent = csvRows.join('\n');
-    const csvBuffer = Buffer.from(csvContent, 'utf-8');
+    const result = await this.aggregationService.aggregate(
+      upload.id,
+      upload.columnSchema ?? [],
+      aggregateDto,
+    );
 
-    // Log export action
-    await this.auditLogService.logAction(AuditAction.EXPORT, {
+    // Log the aggregation with its parameters, so it can be reproduced
+    await this.auditLogService.logAction(AuditAction.AGGREGATE, {
       userId: user?.id,
+      workspaceId: user?.workspaceId,
       uploadId: upload.id,
       fileName: upload.fileName,
       userIp: req?.ip || req?.socket?.remoteAddress,
       userAgent: req?.headers['user-agent'],
       details: {
-        totalRows: upload.totalRows,
-        exportFileName: `export_${upload.fileName}`,
+        groupBy: result.groupBy,
+        metrics: result.metrics,
+        filter: aggregateDto.filter || undefined,
+        totalGroups: result.totalGroups,
       },
       status: 'success',
     });
 
-    res.setHeader('Content-Type', 'text/csv');
-    res.setHeader(
-      'Content-Disposition',
-      `attachment; filename="export_${upload.fileName}"`,
-    );
-    res.send(csvBuffer);
+    return { uploadId: upload.id, ...result };
   }
 
   /**
-   * DELETE /csv-import/history/bulk
-   * Deletes multiple upload records
+   * GET /csv-import/history/:id/profile
+   * Gets the column profiles of a successful upload
+   *
+   * Path Parameter:
+   * - id: The unique ID of the upload record
+   *
+   * Returns:
+   * - For every column: empty rate, distinct count, most frequent values, value lengths
+   *   and shapes, and for numeric and date columns their range, percentiles and histogram
+   * - Profiles are computed after the import; uploads made before profiling existed are
+   *   profiled on the first request
    */
-  @Delete('history/bulk')
-  @ThrottleModerate() // Moderate rate limit: 10 requests per minute
-  @HttpCode(HttpStatus.OK)
-  @UseGuards(JwtAuthGuard)
+  @Get('history/:id/profile') // Handles GET requests to /csv-import/history/:id/profile
+  @ThrottleLenient() // Lenient rate limit: 100 requests per minute
   @ApiOperation({
-    summary: 'Bulk delete uploads',
-    description: 'Permanently deletes multiple upload records and their associated data (CSV data and original files) by their IDs. This action cannot be undone.',
+    summary: 'Get column profiles of a successful upload',
+    description:
+      'Retrieves the profile of every column of a successful upload: empty rate, distinct count, top values with frequencies, value length distribution and value patterns, plus min/max/mean/percentiles and a histogram for numeric columns and the date range and a histogram for date columns.',
   })
-  @ApiBody({
-    type: BulkDeleteDto,
-    description: 'Array of upload record IDs to delete',
+  @ApiParam({
+    name: 'id',
+    description: 'Upload record ID',
+    example: '1234567890-abc123',
   })
   @ApiResponse({
     status: 200,
-    description: 'Uploads deleted successfully',
-    type: BulkDeleteResponseDto,
+    description: 'Profile retrieved successfully',
+    type: UploadProfileResponseDto,
   })
   @ApiResponse({
     status: 400,
-    description: 'Bad Request - Invalid or empty IDs array',
+    description: 'Upload not successful',
   })
   @ApiResponse({
-    status: 401,
-    description: 'Unauthorized - Invalid or missing token',
+    status: 404,
+    description: 'Upload record not found',
   })
-  async bulkDelete(@Body() bulkDeleteDto: BulkDeleteDto, @CurrentUser() user?: any, @Req() req?: ExpressRequest) {
-    const ids = bulkDeleteDto.ids;
-    if (!ids || !Array.isArray(ids) || ids.length === 0) {
-      throw new BadRequestException('ids array is required and must not be empty');
+  @UseGuards(JwtAuthGuard, WorkspaceGuard)
+  async getUploadProfile(
+    @Param('id') id: string,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<UploadProfileResponseDto> {
+    const upload = await this.uploadHistoryService.getUploadById(
+      id,
+      this.uploadScope(user),
+    );
+    if (!upload) {
+      throw new NotFoundException('Upload record not found');
     }
 
-    // Get file names before deletion for audit log
-    const uploadsToDelete = await this.uploadHistoryService.getUploadsByIds(ids);
-    const fileNames = uploadsToDelete.map(upload => upload.fileName).filter(Boolean);
+    if (upload.status !== UploadStatus.SUCCESS) {
+      throw new BadRequestException(
+        'CSV data is only available for successful uploads',
+      );
+    }
 
-    const deletedCount = await this.uploadHistoryService.deleteUploads(ids);
+    const profile = await this.columnProfileService.getProfile(
+      upload.id,
+      upload.columnSchema ?? [],
+    );
+    return { ...profile, fileName: upload.fileName };
+  }
+
+  /**
+   * GET /csv-import/history/:id/issues
+   * Gets the issues found while importing an upload, with its quality score
+   *
+   * Path Parameter:
+   * - id: The unique ID of the upload record
+   *
+   * Query Parameters:
+   * - code, severity, column: Only issues with this code, severity and/or column
+   * - page, limit: Pagination (default: page 1, 100 issues per page, max: 1000)
+   *
+   * Returns:
+   * - A page of issues in file order (row, column, code, severity, message)
+   * - The quality score of the upload (completeness, validity, uniqueness, consistency)
+   */
+  @Get('history/:id/issues') // Handles GET requests to /csv-import/history/:id/issues
+  @ThrottleLenient() // Lenient rate limit: 100 requests per minute
+  @ApiOperation({
+    summary: 'Get the issues and quality score of an upload',
+    description:
+      'Retrieves the issues found while importing an upload a page at a time, in file order: skipped empty rows, header differences, duplicates, formula-like values, validation rule violations and values that do not fit their column type. Each issue has a row, an optional column, a code, a severity (info, warning, error) and a message. Also returns the quality score of the upload. Failed uploads list the rule violations that failed them.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Upload record ID',
+    example: '1234567890-abc123',
+  })
+  @ApiQuery({
+    name: 'code',
+    required: false,
+    enum: ISSUE_CODES,
+    description: 'Return only issues with this code',
+  })
+  @ApiQuery({
+    name: 'severity',
+    required: false,
+    enum: ISSUE_SEVERITIES,
+    description: 'Return only issues with this severity',
+  })
+  @ApiQuery({
+    name: 'column',
+    required: false,
+    type: String,
+    description: 'Return only issues about this column',
+  })
+  @ApiQuery({
+    name: 'page',
+    required: false,
+    type: Number,
+    description: 'Page number (default: 1)',
+    example: 1,
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: Number,
+    description: 'Number of issues per page (default: 100, max: 1000)',
+    example: 100,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Issues retrieved successfully',
+    type: UploadIssuesResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Unknown issue code or severity',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Upload record not found',
+  })
+  @UseGuards(JwtAuthGuard, WorkspaceGuard)
+  async getUploadIssues(
+    @Param('id') id: string,
+    @Query('code') code?: string,
+    @Query('severity') severity?: string,
+    @Query('column') column?: string,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<UploadIssuesResponseDto> {
+    const upload = await this.uploadHistoryService.getUploadById(
+      id,
+      this.uploadScope(user),
+    );
+    if (!upload) {
+      throw new NotFoundException('Upload record not found');
+    }
+
+    const query = this.parseIssueQuery(code, severity, column);
+    const pageNum = page ? Math.max(1, parseInt(page, 10) || 1) : 1;
+    const limitNum = limit
+      ? Math.min(1000, Math.max(1, parseInt(limit, 10) || 100))
+      : 100;
+    const result = await this.dataQualityService.getIssues(
+      upload,
+      query,
+      pageNum,
+      limitNum,
+    );
+    const totalPages = Math.ceil(result.total / limitNum);
+
+    return {
+      uploadId: upload.id,
+      fileName: upload.fileName,
+      quality: upload.quality,
+      issues: result.issues,
+      total: result.total,
+      page: pageNum,
+      limit: limitNum,
+      totalPages,
+      hasNextPage: pageNum < totalPages,
+      hasPreviousPage: pageNum > 1,
+    };
+  }
+
+  /**
+   * GET /csv-import/history/:id/issues/export
+   * Downloads the issues of an upload as CSV (row, column, code, severity, message)
+   */
+  @Get('history/:id/issues/export')
+  @ThrottleModerate() // Moderate rate limit: 10 requests per minute
+  @ApiOperation({
+    summary: 'Download the issues of an upload as CSV',
+    description:
+      'Downloads the issues of an upload (optionally only those with a code, severity and/or column) as a CSV file with the columns row, column, code, severity and message, in file order.',
+  })
+  @ApiParam({ name: 'id', description: 'Upload record ID' })
+  @ApiQuery({ name: 'code', required: false, enum: ISSUE_CODES })
+  @ApiQuery({ name: 'severity', required: false, enum: ISSUE_SEVERITIES })
+  @ApiQuery({ name: 'column', required: false, type: String })
+  @ApiResponse({ status: 200, description: 'Issues downloaded successfully' })
+  @ApiResponse({ status: 400, description: 'Unknown issue code or severity' })
+  @ApiResponse({ status: 404, description: 'Upload record not found' })
+  @UseGuards(JwtAuthGuard, WorkspaceGuard)
+  async exportUploadIssues(
+    @Param('id') id: string,
+    @Res() res: Response,
+    @Query('code') code?: string,
+    @Query('severity') severity?: string,
+    @Query('column') column?: string,
+    @CurrentUser() user?: AuthenticatedUser,
+    @Req() req?: ExpressRequest,
+  ) {
+    const upload = await this.uploadHistoryService.getUploadById(
+      id,
+      this.uploadScope(user),
+    );
+    if (!upload) {
+      throw new NotFoundException('Upload record not found');
+    }
+
+    const query = this.parseIssueQuery(code, severity, column);
+    const issues = await this.dataQualityService.getAllIssues(upload, query);
+    const exportFileName = this.exportService.getFileName(
+      upload.fileName,
+      'csv',
+      'issues',
+    );
+
+    await this.auditLogService.logAction(AuditAction.EXPORT_ISSUES, {
+      userId: user?.id,
+      workspaceId: user?.workspaceId,
+      uploadId: upload.id,
+      fileName: upload.fileName,
+      userIp: req?.ip || req?.socket?.remoteAddress,
+      userAgent: req?.headers['user-agent'],
+      details: {
+        ...query,
+        exportedIssues: issues.length,
+        exportFileName,
+      },
+      status: 'success',
+    });
+
+    res.setHeader(
+      'Content-Type',
+      this.exportService.getFormatInfo('csv').contentType,
+    );
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="${exportFileName}"`,
+    );
+    try {
+      // Messages quote values from the file, so they are neutralized like exported data
+      await this.exportService.write(
+        'csv',
+        ['row', 'column', 'code', 'severity', 'message'],
+        issues.map((issue) => ({ ...issue, column: issue.column ?? '' })),
+        res,
+        getExportFormulaSanitization(this.configService),
+      );
+    } catch (error) {
+      // Headers are already sent, so the only way to signal failure is to abort the download
+      res.destroy(error instanceof Error ? error : undefined);
+    }
+  }
+
+  /**
+   * GET /csv-import/history/:id/download
+   * Downloads the original CSV file
+   */
+  @Get('history/:id/download')
+  @ThrottleModerate() // Moderate rate limit: 10 requests per minute
+  @ApiOperation({
+    summary: 'Download original CSV file',
+    description: 'Downloads the original CSV file that was uploaded.',
+  })
+  @ApiParam({ name: 'id', description: 'Upload record ID' })
+  @ApiResponse({ status: 200, description: 'File downloaded successfully' })
+  @ApiResponse({ status: 404, description: 'Upload record or file not found' })
+  @UseGuards(JwtAuthGuard, WorkspaceGuard)
+  async downloadOriginalFile(
+    @Param('id') id: string,
+    @Res() res: Response,
+    @CurrentUser() user?: AuthenticatedUser,
+    @Req() req?: ExpressRequest,
+  ) {
+    const upload = await this.uploadHistoryService.getUploadById(
+      id,
+      this.uploadScope(user),
+    );
+    if (!upload) {
+      throw new NotFoundException('Upload record not found');
+    }
+
+    const fileStream =
+      await this.uploadHistoryService.getOriginalFileStream(id);
+    if (!fileStream) {
+      throw new NotFoundException('Original file not found');
+    }
+
+    // Log download action
+    await this.auditLogService.logAction(AuditAction.DOWNLOAD_ORIGINAL, {
+      userId: user?.id,
+      workspaceId: user?.workspaceId,
+      uploadId: upload.id,
+      fileName: upload.fileName,
+      userIp: req?.ip || req?.socket?.remoteAddress,
+      userAgent: req?.headers['user-agent'],
+      details: {
+        fileSize: upload.fileSize,
+      },
+      status: 'success',
+    });
+
+    // The original bytes are sent unchanged; tell the client how to decode them
+    res.setHeader('Content-Type', this.getOriginalContentType(upload));
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="${upload.fileName}"`,
+    );
+    fileStream.pipe(res);
+  }
+
+  /**
+   * POST /csv-import/history/export
+   * Exports an upload's data as CSV, Excel, JSON, NDJSON or Parquet
+   */
+  @Post('history/export')
+  @ThrottleModerate() // Moderate rate limit: 10 requests per minute
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Export upload data',
+    description:
+      'Exports the data of a successful upload to a downloadable file. Supported formats: csv (default), xlsx, json, ndjson and parquet. The export can be narrowed down to rows matching a filter expression (query) or containing a text (filter), sorted, and limited to a list of (renamed, reordered) columns. In CSV exports, values that spreadsheets would run as formulas are neutralized (sanitize: apostrophe, strip or off). The file is streamed, so large datasets can be exported.',
+  })
+  @ApiBody({ type: ExportDataDto })
+  @ApiResponse({ status: 200, description: 'File exported successfully' })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Upload not successful, unknown or duplicate columns, or an invalid filter expression',
+  })
+  @UseGuards(JwtAuthGuard, WorkspaceGuard)
+  async exportCsvData(
+    @Body() exportDto: ExportDataDto,
+    @Res() res: Response,
+    @CurrentUser() user?: AuthenticatedUser,
+    @Req() req?: ExpressRequest,
+  ) {
+    const upload = await this.uploadHistoryService.getUploadById(
+      exportDto.uploadId,
+      this.uploadScope(user),
+    );
+    if (!upload) {
+      throw new NotFoundException('Upload record not found');
+    }
+
+    if (upload.status !== UploadStatus.SUCCESS) {
+      throw new BadRequestException(
+        'CSV data is only available for successful uploads',
+      );
+    }
+
+    const columnNames = upload.columnSchema?.map((column) => column.name) ?? [];
+    const where = this.rowFilterService.compile(
+      exportDto.query,
+      columnNames,
+      'uploadRow.data',
+    );
+    const format = exportDto.format ?? 'csv';
+    const sanitize =
+      exportDto.sanitize ?? getExportFormulaSanitization(this.configService);
+    const exportFileName = this.exportService.getFileName(
+      upload.fileName,
+      format,
+    );
+    const { filter, sort, columns } = exportDto;
+    const selection = this.exportService.selectColumns(columnNames, {
+      sort,
+      columns,
+    });
+    // The database filters, sorts and picks the columns; rows are read a page at a time
+    const selectedNames = selection.columns.map((column) => column.name);
+    const rowQuery: UploadRowQuery = {
+      where,
+      search: filter,
+      searchColumns: selectedNames,
+      sort: sort?.map(({ column, direction }) => {
+        const type = upload.columnSchema?.find(
+          (entry) => entry.name === column,
+        )?.type;
+        return {
+          column,
+          direction,
+          numeric: type === 'integer' || type === 'number',
+        };
+      }),
+      columns: selectedNames,
+    };
+    const exportedRows = await this.uploadRowService.countRows(
+      upload.id,
+      rowQuery,
+    );
+
+    // Log export action with the exact parameters, so the export can be reproduced
+    await this.auditLogService.logAction(AuditAction.EXPORT, {
+      userId: user?.id,
+      workspaceId: user?.workspaceId,
+      uploadId: upload.id,
+      fileName: upload.fileName,
+      userIp: req?.ip || req?.socket?.remoteAddress,
+      userAgent: req?.headers['user-agent'],
+      details: {
+        format,
+        sanitize: format === 'csv' ? sanitize : undefined,
+        totalRows: upload.totalRows,
+        exportedRows,
+        exportFileName,
+        filter: filter || undefined,
+        query: exportDto.query || undefined,
+        sort,
+        columns,
+      },
+      status: 'success',
+    });
+
+    res.setHeader(
+      'Content-Type',
+      this.exportService.getFormatInfo(format).contentType,
+    );
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="${exportFileName}"`,
+    );
+    try {
+      await this.exportService.write(
+        format,
+        selection.headers,
+        () =>
+          this.exportService.selectRows(
+            this.uploadRowService.iterateRows(upload.id, rowQuery),
+            selection,
+          ),
+        res,
+        sanitize,
+      );
+    } catch (error) {
+      // Headers are already sent, so the only way to signal failure is to abort the download
+      res.destroy(error instanceof Error ? error : undefined);
+    }
+  }
+
+  /**
+   * POST /csv-import/history/diff
+   * Compares the rows of two successful uploads, matched by key columns
+   *
+   * Body:
+   * - baseId, compareId: The earlier and the later upload
+   * - keyColumns: Columns whose values identify a row in both uploads
+   * - type: Only added, removed or changed rows (default: all)
+   * - page, limit: Pagination (default: page 1, 100 rows per page, max: 1000)
+   *
+   * Returns:
+   * - A summary of added, removed, changed and unchanged rows
+   * - A page of rows that differ, with the changed cells of changed rows
+   */
+  @Post('history/diff') // Handles POST requests to /csv-import/history/diff
+  @ThrottleLenient() // Lenient rate limit: 100 requests per minute (read-only, used interactively)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Compare the rows of two uploads',
+    description:
+      'Matches the rows of two successful uploads by the values of one or more key columns and classifies every key as added (only in the compared upload), removed (only in the base upload) or changed (different values in some columns). Changed rows list the cells that differ. Only columns both uploads have are compared; values are compared by column type when both uploads inferred the same type, as text otherwise.',
+  })
+  @ApiBody({ type: UploadDiffPageRequestDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Uploads compared successfully',
+    type: UploadDiffResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Uploads not successful or the same, key columns missing from an upload, or keys that do not identify rows uniquely',
+  })
+  @ApiResponse({ status: 404, description: 'Upload record not found' })
+  @UseGuards(JwtAuthGuard, WorkspaceGuard)
+  async diffUploads(
+    @Body() diffDto: UploadDiffPageRequestDto,
+    @CurrentUser() user?: AuthenticatedUser,
+    @Req() req?: ExpressRequest,
+  ): Promise<UploadDiffResponseDto> {
+    const { base, compare } = await this.getDiffUploads(
+      diffDto,
+      this.uploadScope(user),
+    );
+    const page = diffDto.page ?? 1;
+    const limit = diffDto.limit ?? 100;
+    const diff = await this.uploadDiffService.diff(
+      base,
+      compare,
+      diffDto.keyColumns,
+      { type: diffDto.type, offset: (page - 1) * limit, limit },
+    );
+    const totalPages = Math.ceil(diff.total / limit);
+
+    await this.auditLogService.logAction(AuditAction.DIFF, {
+      userId: user?.id,
+      workspaceId: user?.workspaceId,
+      uploadId: base.id,
+      fileName: base.fileName,
+      userIp: req?.ip || req?.socket?.remoteAddress,
+      userAgent: req?.headers['user-agent'],
+      details: {
+        compareId: compare.id,
+        compareFileName: compare.fileName,
+        keyColumns: diff.keyColumns,
+        summary: diff.summary,
+      },
+      status: 'success',
+    });
+
+    return {
+      base: {
+        id: base.id,
+        fileName: base.fileName,
+        uploadedAt: base.uploadedAt,
+      },
+      compare: {
+        id: compare.id,
+        fileName: compare.fileName,
+        uploadedAt: compare.uploadedAt,
+      },
+      ...diff,
+      page,
+      limit,
+      totalPages,
+      hasNextPage: page < totalPages,
+      hasPreviousPage: page > 1,
+    };
+  }
+
+  /**
+   * POST /csv-import/history/diff/export
+   * Downloads the diff of two uploads as CSV: one line per row that differs, with
+   * its change, row numbers, key and the before/after value of every compared column
+   */
+  @Post('history/diff/export')
+  @ThrottleModerate() // Moderate rate limit: 10 requests per minute
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Download the diff of two uploads as CSV',
+    description:
+      'Compares two successful uploads like POST /csv-import/history/diff and downloads every row that differs (optionally only added, removed or changed rows) as CSV: the change, the row numbers in both uploads, the key columns, the changed columns and the value before and after of every compared column.',
+  })
+  @ApiBody({ type: UploadDiffRequestDto })
+  @ApiResponse({ status: 200, description: 'Diff downloaded successfully' })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Uploads not successful or the same, key columns missing from an upload, or keys that do not identify rows uniquely',
+  })
+  @ApiResponse({ status: 404, description: 'Upload record not found' })
+  @UseGuards(JwtAuthGuard, WorkspaceGuard)
+  async exportUploadDiff(
+    @Body() diffDto: UploadDiffRequestDto,
+    @Res() res: Response,
+    @CurrentUser() user?: AuthenticatedUser,
+    @Req() req?: ExpressRequest,
+  ) {
+    const { base, compare } = await this.getDiffUploads(
+      diffDto,
+      this.uploadScope(user),
+    );
+    // Checks the keys and counts the rows; the rows are read a batch at a time while writing
+    const diff = await this.uploadDiffService.diff(
+      base,
+      compare,
+      diffDto.keyColumns,
+      { type: diffDto.type },
+    );
+    const exportFileName = this.exportService.getFileName(
+      base.fileName,
+      'csv',
+      'diff',
+    );
+
+    await this.auditLogService.logAction(AuditAction.EXPORT_DIFF, {
+      userId: user?.id,
+      workspaceId: user?.workspaceId,
+      uploadId: base.id,
+      fileName: base.fileName,
+      userIp: req?.ip || req?.socket?.remoteAddress,
+      userAgent: req?.headers['user-agent'],
+      details: {
+        compareId: compare.id,
+        compareFileName: compare.fileName,
+        keyColumns: diff.keyColumns,
+        type: diffDto.type,
+        exportedRows: diff.total,
+        exportFileName,
+      },
+      status: 'success',
+    });
+
+    res.setHeader(
+      'Content-Type',
+      this.exportService.getFormatInfo('csv').contentType,
+    );
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="${exportFileName}"`,
+    );
+    try {
+      await this.exportService.write(
+        'csv',
+        this.uploadDiffService.toTable(diff).columns,
+        () =>
+          this.uploadDiffService.iterateTable(
+            base,
+            compare,
+            diff,
+            diffDto.type,
+          ),
+        res,
+        getExportFormulaSanitization(this.configService),
+      );
+    } catch (error) {
+      // Headers are already sent, so the only way to signal failure is to abort the download
+      res.destroy(error instanceof Error ? error : undefined);
+    }
+  }
+
+  /**
+   * POST /csv-import/history/:id/coerce
+   * Stores an upload's values as typed JSON (or as text again)
+   *
+   * Typed values sort and aggregate as numbers and dates instead of text.
+   * Types given in the body replace the inferred type of those columns.
+   */
+  @Post('history/:id/coerce')
+  @ThrottleModerate() // Moderate rate limit: 10 requests per minute
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Store values as typed JSON',
+    description:
+      'Converts the stored values of a successful upload to their column types (numbers, booleans, ISO dates, null for empty values), or back to text with typed: false. Values that do not fit their column type stay text. Pass types to set the type of some columns instead of the inferred one.',
+  })
+  @ApiParam({ name: 'id', description: 'Upload record ID' })
+  @ApiBody({ type: CoerceTypesDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Values converted; returns the upload record',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Upload not successful, or unknown columns or types',
+  })
+  @ApiResponse({ status: 404, description: 'Upload record not found' })
+  @UseGuards(JwtAuthGuard, RolesGuard, WorkspaceGuard)
+  @Roles(UserRole.ADMIN, UserRole.EDITOR) // Viewers cannot change data
+  @WorkspaceRoles(WorkspaceRole.ADMIN, WorkspaceRole.EDITOR) // Nor can viewers of the workspace
+  async coerceUploadTypes(
+    @Param('id') id: string,
+    @Body() coerceDto: CoerceTypesDto,
+    @CurrentUser() user?: AuthenticatedUser,
+    @Req() req?: ExpressRequest,
+  ) {
+    const upload = await this.uploadHistoryService.getUploadById(
+      id,
+      this.uploadScope(user),
+    );
+    if (!upload) {
+      throw new NotFoundException('Upload record not found');
+    }
+
+    if (upload.status !== UploadStatus.SUCCESS) {
+      throw new BadRequestException(
+        'CSV data is only available for successful uploads',
+      );
+    }
+
+    // Values are converted a batch of rows at a time; row numbers, warnings and duplicate flags stay
+    const typed = coerceDto.typed ?? true;
+    let columnSchema =
+      upload.columnSchema ??
+      (await this.uploadRowService.inferSchema(upload.id));
+    if (coerceDto.types && Object.keys(coerceDto.types).length > 0) {
+      const types = this.typeInferenceService.checkTypes(
+        columnSchema,
+        coerceDto.types,
+      );
+      const chosen = await this.uploadRowService.inferSchema(
+        upload.id,
+        Object.keys(types),
+        types,
+      );
+      columnSchema = columnSchema.map(
+        (entry) => chosen.find((column) => column.name === entry.name) ?? entry,
+      );
+    }
+    await this.uploadRowService.convertRows(upload.id, columnSchema, typed);
+    // Column types decide which statistics a profile has and which values are consistent
+    await this.columnProfileService.saveProfile(upload.id, columnSchema);
+    const quality = await this.dataQualityService.rescoreConsistency(
+      upload,
+      columnSchema,
+    );
+    await this.uploadHistoryService.updateColumnTypes(upload.id, {
+      columnSchema,
+      typed,
+      quality,
+    });
+
+    await this.auditLogService.logAction(AuditAction.COERCE_TYPES, {
+      userId: user?.id,
+      workspaceId: user?.workspaceId,
+      uploadId: upload.id,
+      fileName: upload.fileName,
+      userIp: req?.ip || req?.socket?.remoteAddress,
+      userAgent: req?.headers['user-agent'],
+      details: {
+        typed,
+        types: coerceDto.types,
+        totalRows: upload.totalRows,
+      },
+      status: 'success',
+    });
+
+    return { ...upload, columnSchema, typed, quality };
+  }
+
+  /**
+   * POST /csv-import/history/:id/share-links
+   * Creates a read-only share link for a successful upload
+   *
+   * Anyone with the returned token can view the upload's rows and download it
+   * through /shared/:token without logging in, until the link expires or is revoked.
+   */
+  @Post('history/:id/share-links')
+  @ThrottleModerate() // Moderate rate limit: 10 requests per minute
+  @ApiOperation({
+    summary: 'Create a share link',
+    description:
+      'Creates a signed, expiring link to a successful upload for people without an account (GET /shared/:token). Optionally protected by a password. The token is only returned now.',
+  })
+  @ApiParam({ name: 'id', description: 'Upload record ID' })
+  @ApiBody({ type: CreateShareLinkDto })
+  @ApiResponse({
+    status: 201,
+    description: 'Share link created',
+    type: CreatedShareLinkResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Upload not successful' })
+  @ApiResponse({ status: 404, description: 'Upload record not found' })
+  @UseGuards(JwtAuthGuard, RolesGuard, WorkspaceGuard)
+  @Roles(UserRole.ADMIN, UserRole.EDITOR) // Viewers cannot share data
+  @WorkspaceRoles(WorkspaceRole.ADMIN, WorkspaceRole.EDITOR) // Nor can viewers of the workspace
+  async createShareLink(
+    @Param('id') id: string,
+    @Body() createDto: CreateShareLinkDto,
+    @CurrentUser() user?: AuthenticatedUser,
+    @Req() req?: ExpressRequest,
+  ): Promise<CreatedShareLinkResponseDto> {
+    const upload = await this.uploadHistoryService.getUploadById(
+      id,
+      this.uploadScope(user),
+    );
+    if (!upload) {
+      throw new NotFoundException('Upload record not found');
+    }
+    if (upload.status !== UploadStatus.SUCCESS) {
+      throw new BadRequestException('Only successful uploads can be shared');
+    }
+
+    const link = await this.shareLinkService.create(
+      upload,
+      user?.id,
+      createDto,
+    );
+
+    await this.auditLogService.logAction(AuditAction.SHARE_CREATE, {
+      userId: user?.id,
+      workspaceId: user?.workspaceId,
+      uploadId: upload.id,
+      fileName: upload.fileName,
+      userIp: req?.ip || req?.socket?.remoteAddress,
+      userAgent: req?.headers['user-agent'],
+      details: {
+        shareLinkId: link.id,
+        expiresAt: link.expiresAt,
+        passwordProtected: link.passwordProtected,
+      },
+      status: 'success',
+    });
+
+    return link;
+  }
+
+  /**
+   * GET /csv-import/history/:id/share-links
+   * Lists the share links of an upload
+   */
+  @Get('history/:id/share-links')
+  @ThrottleLenient() // Lenient rate limit: 100 requests per minute
+  @ApiOperation({
+    summary: 'List share links',
+    description:
+      'Lists the share links of an upload (active, expired and revoked), newest first, with how often each was used.',
+  })
+  @ApiParam({ name: 'id', description: 'Upload record ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Share links retrieved successfully',
+    type: [ShareLinkResponseDto],
+  })
+  @ApiResponse({ status: 404, description: 'Upload record not found' })
+  @UseGuards(JwtAuthGuard, WorkspaceGuard)
+  async getShareLinks(
+    @Param('id') id: string,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ShareLinkResponseDto[]> {
+    const upload = await this.uploadHistoryService.getUploadById(
+      id,
+      this.uploadScope(user),
+    );
+    if (!upload) {
+      throw new NotFoundException('Upload record not found');
+    }
+    return this.shareLinkService.findForUpload(upload.id);
+  }
+
+  /**
+   * DELETE /csv-import/history/:id/share-links/:linkId
+   * Revokes a share link; it stops working at once
+   */
+  @Delete('history/:id/share-links/:linkId')
+  @ThrottleModerate() // Moderate rate limit: 10 requests per minute
+  @ApiOperation({ summary: 'Revoke a share link' })
+  @ApiParam({ name: 'id', description: 'Upload record ID' })
+  @ApiParam({ name: 'linkId', description: 'Share link ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Share link revoked',
+    type: ShareLinkResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Upload record or share link not found',
+  })
+  @UseGuards(JwtAuthGuard, RolesGuard, WorkspaceGuard)
+  @Roles(UserRole.ADMIN, UserRole.EDITOR) // Viewers cannot change data
+  @WorkspaceRoles(WorkspaceRole.ADMIN, WorkspaceRole.EDITOR) // Nor can viewers of the workspace
+  async revokeShareLink(
+    @Param('id') id: string,
+    @Param('linkId') linkId: string,
+    @CurrentUser() user?: AuthenticatedUser,
+    @Req() req?: ExpressRequest,
+  ): Promise<ShareLinkResponseDto> {
+    const upload = await this.uploadHistoryService.getUploadById(
+      id,
+      this.uploadScope(user),
+    );
+    if (!upload) {
+      throw new NotFoundException('Upload record not found');
+    }
+
+    const link = await this.shareLinkService.revoke(upload.id, linkId);
+
+    await this.auditLogService.logAction(AuditAction.SHARE_REVOKE, {
+      userId: user?.id,
+      workspaceId: user?.workspaceId,
+      uploadId: upload.id,
+      fileName: upload.fileName,
+      userIp: req?.ip || req?.socket?.remoteAddress,
+      userAgent: req?.headers['user-agent'],
+      details: { shareLinkId: link.id },
+      status: 'success',
+    });
+
+    return link;
+  }
+
+  /**
+   * DELETE /csv-import/history/bulk
+   * Deletes multiple upload records
+   */
+  @Delete('history/bulk')
+  @ThrottleModerate() // Moderate rate limit: 10 requests per minute
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard, RolesGuard, WorkspaceGuard)
+  @Roles(UserRole.ADMIN, UserRole.EDITOR) // Viewers cannot change data
+  @WorkspaceRoles(WorkspaceRole.ADMIN, WorkspaceRole.EDITOR) // Nor can viewers of the workspace
+  @ApiOperation({
+    summary: 'Bulk delete uploads',
+    description:
+      'Permanently deletes multiple upload records and their associated data (CSV data and original files) by their IDs. This action cannot be undone.',
+  })
+  @ApiBody({
+    type: BulkDeleteDto,
+    description: 'Array of upload record IDs to delete',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Uploads deleted successfully',
+    type: BulkDeleteResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad Request - Invalid or empty IDs array',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing token',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Viewers cannot delete uploads',
+  })
+  @ApiResponse({
+    status: 404,
+    description:
+      "An upload does not exist, is in another workspace, or is another user's (only admins and workspace admins can delete other users' uploads)",
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Conflict - An upload is still being imported',
+  })
+  async bulkDelete(
+    @Body() bulkDeleteDto: BulkDeleteDto,
+    @CurrentUser() user?: AuthenticatedUser,
+    @Req() req?: ExpressRequest,
+  ) {
+    const ids = bulkDeleteDto.ids;
+    if (!ids || !Array.isArray(ids) || ids.length === 0) {
+      throw new BadRequestException(
+        'ids array is required and must not be empty',
+      );
+    }
+
+    // Get file names before deletion for audit log; admins and workspace admins can delete
+    // any upload of the workspace, other users only their own
+    const canDeleteOthers =
+      user?.role === UserRole.ADMIN ||
+      user?.workspaceRole === WorkspaceRole.ADMIN;
+    const uploadsToDelete = (
+      await this.uploadHistoryService.getUploadsByIds(
+        ids,
+        this.uploadScope(user),
+      )
+    ).filter((upload) => canDeleteOthers || upload.userId === user?.id);
+    if (uploadsToDelete.length < new Set(ids).size) {
+      throw new NotFoundException('Upload record not found');
+    }
+    const fileNames = uploadsToDelete
+      .map((upload) => upload.fileName)
+      .filter(Boolean);
+
+    const deletedCount = await this.uploadHistoryService.deleteUploads(ids);
+
+    // Notify the workspaces' connected clients so deleted uploads disappear from open views
+    uploadsToDelete.forEach((upload) =>
+      this.uploadEventsService.publish(UploadEventType.DELETED, upload.id, {
+        workspaceId: upload.workspaceId,
+        fileName: upload.fileName,
+      }),
+    );
 
     // Log bulk delete action
     await this.auditLogService.logAction(AuditAction.BULK_DELETE, {
       userId: user?.id,
+      workspaceId: user?.workspaceId,
       userIp: req?.ip || req?.socket?.remoteAddress,
       userAgent: req?.headers['user-agent'],
-      fileName: fileNames.length === 1 ? fileNames[0] : `${fileNames.length} files`,
+      fileName:
+        fileNames.length === 1 ? fileNames[0] : `${fileNames.length} files`,
       details: {
         deletedCount,
         uploadIds: ids,
@@ -858,4 +2629,621 @@ export class CsvImportController {
     };
   }
 
+  /**
+   * GET /csv-import/validation-schemas
+   * Lists the saved validation schemas
+   */
+  @Get('validation-schemas')
+  @ThrottleLenient() // Lenient rate limit: 100 requests per minute
+  @UseGuards(JwtAuthGuard, WorkspaceGuard)
+  @ApiOperation({
+    summary: 'List validation schemas',
+    description:
+      'Lists the saved validation schemas, by name. Pass a schema ID as validationSchemaId when uploading to check rows against it.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Validation schemas retrieved successfully',
+    type: [ValidationSchemaResponseDto],
+  })
+  async getValidationSchemas(
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ValidationSchemaResponseDto[]> {
+    return this.validationSchemaService.findAll(user?.workspaceId);
+  }
+
+  /**
+   * GET /csv-import/validation-schemas/:id
+   * Gets a saved validation schema
+   */
+  @Get('validation-schemas/:id')
+  @ThrottleLenient() // Lenient rate limit: 100 requests per minute
+  @UseGuards(JwtAuthGuard, WorkspaceGuard)
+  @ApiOperation({ summary: 'Get a validation schema' })
+  @ApiParam({ name: 'id', description: 'Validation schema ID' })
+  @ApiResponse({ status: 200, type: ValidationSchemaResponseDto })
+  @ApiResponse({ status: 404, description: 'Validation schema not found' })
+  async getValidationSchema(
+    @Param('id') id: string,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ValidationSchemaResponseDto> {
+    return this.validationSchemaService.findOne(id, user?.workspaceId);
+  }
+
+  /**
+   * POST /csv-import/validation-schemas
+   * Saves a validation schema
+   *
+   * A schema has per-column rules (required, type, pattern, min/max, enum,
+   * unique, maxLength) and cross-field rules; each rule has a severity:
+   * warning (report), reject_row (leave the row out) or fail_upload.
+   */
+  @Post('validation-schemas')
+  @ThrottleModerate() // Moderate rate limit: 10 requests per minute
+  @UseGuards(JwtAuthGuard, RolesGuard, WorkspaceGuard)
+  @Roles(UserRole.ADMIN, UserRole.EDITOR) // Viewers cannot change data
+  @WorkspaceRoles(WorkspaceRole.ADMIN, WorkspaceRole.EDITOR) // Nor can viewers of the workspace
+  @ApiOperation({
+    summary: 'Create a validation schema',
+    description:
+      'Saves a named set of validation rules. Column rules: required, type (string, integer, number, boolean, date, email, url), pattern, min, max, maxLength, enum, unique. Cross-field rules: when/then conditions (empty, notEmpty, equals, notEquals, in, notIn, matches, gt, gte, lt, lte) against a value or another column. Severity per rule or for the whole schema: warning (default), reject_row or fail_upload.',
+  })
+  @ApiBody({ type: CreateValidationSchemaDto })
+  @ApiResponse({ status: 201, type: ValidationSchemaResponseDto })
+  @ApiResponse({ status: 400, description: 'Invalid validation rules' })
+  async createValidationSchema(
+    @Body() createDto: CreateValidationSchemaDto,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ValidationSchemaResponseDto> {
+    return this.validationSchemaService.create(
+      createDto,
+      user?.id,
+      user?.workspaceId,
+    );
+  }
+
+  /**
+   * PUT /csv-import/validation-schemas/:id
+   * Updates a saved validation schema
+   *
+   * Uploads already imported keep the results of the rules they were checked against.
+   */
+  @Put('validation-schemas/:id')
+  @ThrottleModerate() // Moderate rate limit: 10 requests per minute
+  @UseGuards(JwtAuthGuard, RolesGuard, WorkspaceGuard)
+  @Roles(UserRole.ADMIN, UserRole.EDITOR) // Viewers cannot change data
+  @WorkspaceRoles(WorkspaceRole.ADMIN, WorkspaceRole.EDITOR) // Nor can viewers of the workspace
+  @ApiOperation({ summary: 'Update a validation schema' })
+  @ApiParam({ name: 'id', description: 'Validation schema ID' })
+  @ApiBody({ type: UpdateValidationSchemaDto })
+  @ApiResponse({ status: 200, type: ValidationSchemaResponseDto })
+  @ApiResponse({ status: 400, description: 'Invalid validation rules' })
+  @ApiResponse({ status: 404, description: 'Validation schema not found' })
+  async updateValidationSchema(
+    @Param('id') id: string,
+    @Body() updateDto: UpdateValidationSchemaDto,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ValidationSchemaResponseDto> {
+    return this.validationSchemaService.update(
+      id,
+      updateDto,
+      user?.workspaceId,
+    );
+  }
+
+  /**
+   * DELETE /csv-import/validation-schemas/:id
+   * Deletes a saved validation schema
+   */
+  @Delete('validation-schemas/:id')
+  @ThrottleModerate() // Moderate rate limit: 10 requests per minute
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard, RolesGuard, WorkspaceGuard)
+  @Roles(UserRole.ADMIN, UserRole.EDITOR) // Viewers cannot change data
+  @WorkspaceRoles(WorkspaceRole.ADMIN, WorkspaceRole.EDITOR) // Nor can viewers of the workspace
+  @ApiOperation({ summary: 'Delete a validation schema' })
+  @ApiParam({ name: 'id', description: 'Validation schema ID' })
+  @ApiResponse({ status: 200, description: 'Validation schema deleted' })
+  @ApiResponse({ status: 404, description: 'Validation schema not found' })
+  async deleteValidationSchema(
+    @Param('id') id: string,
+    @CurrentUser() user?: AuthenticatedUser,
+  ) {
+    await this.validationSchemaService.remove(id, user?.workspaceId);
+    return { message: 'Validation schema deleted' };
+  }
+
+  /**
+   * GET /csv-import/import-templates
+   * Lists the import templates
+   */
+  @Get('import-templates')
+  @ThrottleLenient() // Lenient rate limit: 100 requests per minute
+  @UseGuards(JwtAuthGuard, WorkspaceGuard)
+  @ApiOperation({
+    summary: 'List import templates',
+    description:
+      'Lists the import templates, by name. Pass a template ID as templateId when uploading to reuse its settings.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Import templates retrieved successfully',
+    type: [ImportTemplateResponseDto],
+  })
+  async getImportTemplates(
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ImportTemplateResponseDto[]> {
+    return this.importTemplateService.findAll(user?.workspaceId);
+  }
+
+  /**
+   * POST /csv-import/import-templates/suggest
+   * Suggests templates for a file, based on its headers
+   *
+   * Called by the preview before uploading; templates sharing at least half of
+   * their headers with the file are returned, best match first.
+   */
+  @Post('import-templates/suggest')
+  @ThrottleLenient() // Lenient rate limit: 100 requests per minute
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard, WorkspaceGuard)
+  @ApiOperation({
+    summary: 'Suggest import templates',
+    description:
+      'Returns the templates whose expected headers match the given headers (ignoring case and surrounding whitespace), best match first, with the headers that differ.',
+  })
+  @ApiBody({ type: SuggestImportTemplatesDto })
+  @ApiResponse({ status: 200, type: [ImportTemplateSuggestionDto] })
+  async suggestImportTemplates(
+    @Body() suggestDto: SuggestImportTemplatesDto,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ImportTemplateSuggestionDto[]> {
+    return this.importTemplateService.suggest(
+      suggestDto.headers,
+      user?.workspaceId,
+    );
+  }
+
+  /**
+   * GET /csv-import/import-templates/:id
+   * Gets an import template
+   */
+  @Get('import-templates/:id')
+  @ThrottleLenient() // Lenient rate limit: 100 requests per minute
+  @UseGuards(JwtAuthGuard, WorkspaceGuard)
+  @ApiOperation({ summary: 'Get an import template' })
+  @ApiParam({ name: 'id', description: 'Import template ID' })
+  @ApiResponse({ status: 200, type: ImportTemplateResponseDto })
+  @ApiResponse({ status: 404, description: 'Import template not found' })
+  async getImportTemplate(
+    @Param('id') id: string,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ImportTemplateResponseDto> {
+    return this.importTemplateService.findOne(id, user?.workspaceId);
+  }
+
+  /**
+   * POST /csv-import/import-templates
+   * Saves an import template
+   *
+   * A template holds column mapping, duplicate settings, validation rules,
+   * dialect overrides and the headers of the files it is for.
+   */
+  @Post('import-templates')
+  @ThrottleModerate() // Moderate rate limit: 10 requests per minute
+  @UseGuards(JwtAuthGuard, RolesGuard, WorkspaceGuard)
+  @Roles(UserRole.ADMIN, UserRole.EDITOR) // Viewers cannot change data
+  @WorkspaceRoles(WorkspaceRole.ADMIN, WorkspaceRole.EDITOR) // Nor can viewers of the workspace
+  @ApiOperation({
+    summary: 'Create an import template',
+    description:
+      'Saves column mapping, duplicate settings, validation rules and dialect overrides under a name, together with the headers of the files they are for.',
+  })
+  @ApiBody({ type: CreateImportTemplateDto })
+  @ApiResponse({ status: 201, type: ImportTemplateResponseDto })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid validation rules or dialect',
+  })
+  async createImportTemplate(
+    @Body() createDto: CreateImportTemplateDto,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ImportTemplateResponseDto> {
+    return this.importTemplateService.create(
+      createDto,
+      user?.id,
+      user?.workspaceId,
+    );
+  }
+
+  /**
+   * PUT /csv-import/import-templates/:id
+   * Updates an import template
+   *
+   * Only the settings in the request change; uploads already imported are not affected.
+   */
+  @Put('import-templates/:id')
+  @ThrottleModerate() // Moderate rate limit: 10 requests per minute
+  @UseGuards(JwtAuthGuard, RolesGuard, WorkspaceGuard)
+  @Roles(UserRole.ADMIN, UserRole.EDITOR) // Viewers cannot change data
+  @WorkspaceRoles(WorkspaceRole.ADMIN, WorkspaceRole.EDITOR) // Nor can viewers of the workspace
+  @ApiOperation({ summary: 'Update an import template' })
+  @ApiParam({ name: 'id', description: 'Import template ID' })
+  @ApiBody({ type: UpdateImportTemplateDto })
+  @ApiResponse({ status: 200, type: ImportTemplateResponseDto })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid validation rules or dialect',
+  })
+  @ApiResponse({ status: 404, description: 'Import template not found' })
+  async updateImportTemplate(
+    @Param('id') id: string,
+    @Body() updateDto: UpdateImportTemplateDto,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<ImportTemplateResponseDto> {
+    return this.importTemplateService.update(id, updateDto, user?.workspaceId);
+  }
+
+  /**
+   * DELETE /csv-import/import-templates/:id
+   * Deletes an import template
+   */
+  @Delete('import-templates/:id')
+  @ThrottleModerate() // Moderate rate limit: 10 requests per minute
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard, RolesGuard, WorkspaceGuard)
+  @Roles(UserRole.ADMIN, UserRole.EDITOR) // Viewers cannot change data
+  @WorkspaceRoles(WorkspaceRole.ADMIN, WorkspaceRole.EDITOR) // Nor can viewers of the workspace
+  @ApiOperation({ summary: 'Delete an import template' })
+  @ApiParam({ name: 'id', description: 'Import template ID' })
+  @ApiResponse({ status: 200, description: 'Import template deleted' })
+  @ApiResponse({ status: 404, description: 'Import template not found' })
+  async deleteImportTemplate(
+    @Param('id') id: string,
+    @CurrentUser() user?: AuthenticatedUser,
+  ) {
+    await this.importTemplateService.remove(id, user?.workspaceId);
+    return { message: 'Import template deleted' };
+  }
+
+  /**
+   * GET /csv-import/datasets
+   * Lists datasets with their current version
+   *
+   * Query Parameters:
+   * - search: Search by dataset name (case-insensitive partial match)
+   * - page, limit: Pagination (default 1 and 10, max limit 100)
+   */
+  @Get('datasets')
+  @ThrottleLenient() // Lenient rate limit: 100 requests per minute
+  @UseGuards(JwtAuthGuard, WorkspaceGuard)
+  @ApiOperation({
+    summary: 'List datasets',
+    description:
+      'Lists datasets, most recently changed first, with their number of versions and current upload. Pass a dataset ID as datasetId when uploading to import a file as its next version.',
+  })
+  @ApiQuery({
+    name: 'search',
+    required: false,
+    type: String,
+    description: 'Search by dataset name',
+  })
+  @ApiQuery({
+    name: 'page',
+    required: false,
+    type: Number,
+    description: 'Page number (default: 1)',
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: Number,
+    description: 'Datasets per page (default: 10, max: 100)',
+  })
+  @ApiResponse({ status: 200, type: DatasetListResponseDto })
+  async getDatasets(
+    @Query('search') search?: string,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<DatasetListResponseDto> {
+    const pageNum = page ? Math.max(1, parseInt(page, 10)) : 1;
+    const limitNum = limit
+      ? Math.min(100, Math.max(1, parseInt(limit, 10)))
+      : 10;
+
+    const { datasets, total } = await this.datasetService.findAll(
+      search,
+      pageNum,
+      limitNum,
+      user?.workspaceId,
+    );
+    const currentUploads = new Map(
+      (
+        await this.uploadHistoryService.getUploadsByIds(
+          datasets.map((dataset) => dataset.currentUploadId).filter(Boolean),
+          user?.workspaceId,
+        )
+      ).map((upload) => [upload.id, upload]),
+    );
+
+    const totalPages = Math.ceil(total / limitNum);
+    return {
+      datasets: datasets.map((dataset) => ({
+        ...dataset,
+        current: currentUploads.get(dataset.currentUploadId),
+      })),
+      total,
+      page: pageNum,
+      limit: limitNum,
+      totalPages,
+      hasNextPage: pageNum < totalPages,
+      hasPreviousPage: pageNum > 1,
+    };
+  }
+
+  /**
+   * GET /csv-import/datasets/:id
+   * Gets a dataset with all of its versions
+   */
+  @Get('datasets/:id')
+  @ThrottleLenient() // Lenient rate limit: 100 requests per minute
+  @UseGuards(JwtAuthGuard, WorkspaceGuard)
+  @ApiOperation({ summary: 'Get a dataset and its versions' })
+  @ApiParam({ name: 'id', description: 'Dataset ID' })
+  @ApiResponse({ status: 200, type: DatasetResponseDto })
+  @ApiResponse({ status: 404, description: 'Dataset not found' })
+  async getDataset(
+    @Param('id') id: string,
+    @CurrentUser() user?: AuthenticatedUser,
+  ): Promise<DatasetResponseDto> {
+    const dataset = await this.datasetService.findOne(id, user?.workspaceId);
+    return {
+      dataset,
+      versions: await this.datasetService.annotate(
+        await this.uploadHistoryService.getDatasetVersions(
+          id,
+          user?.workspaceId,
+        ),
+      ),
+    };
+  }
+
+  /**
+   * PATCH /csv-import/datasets/:id
+   * Renames a dataset
+   */
+  @Patch('datasets/:id')
+  @ThrottleModerate() // Moderate rate limit: 10 requests per minute
+  @UseGuards(JwtAuthGuard, RolesGuard, WorkspaceGuard)
+  @Roles(UserRole.ADMIN, UserRole.EDITOR) // Viewers cannot change data
+  @WorkspaceRoles(WorkspaceRole.ADMIN, WorkspaceRole.EDITOR) // Nor can viewers of the workspace
+  @ApiOperation({ summary: 'Rename a dataset' })
+  @ApiParam({ name: 'id', description: 'Dataset ID' })
+  @ApiBody({ type: UpdateDatasetDto })
+  @ApiResponse({ status: 200, description: 'Dataset renamed' })
+  @ApiResponse({ status: 404, description: 'Dataset not found' })
+  async renameDataset(
+    @Param('id') id: string,
+    @Body() updateDto: UpdateDatasetDto,
+    @CurrentUser() user?: AuthenticatedUser,
+  ) {
+    return this.datasetService.rename(id, updateDto.name, user?.workspaceId);
+  }
+
+  /**
+   * PUT /csv-import/datasets/:id/current
+   * Makes a version of a dataset the current one
+   *
+   * Picking an older version rolls the dataset back; the change is recorded in the
+   * audit log (promote_version) with the previous current version.
+   */
+  @Put('datasets/:id/current')
+  @ThrottleModerate() // Moderate rate limit: 10 requests per minute
+  @UseGuards(JwtAuthGuard, RolesGuard, WorkspaceGuard)
+  @Roles(UserRole.ADMIN, UserRole.EDITOR) // Viewers cannot change data
+  @WorkspaceRoles(WorkspaceRole.ADMIN, WorkspaceRole.EDITOR) // Nor can viewers of the workspace
+  @ApiOperation({
+    summary: 'Set the current version of a dataset',
+    description:
+      'Makes a successful version of the dataset its current version. Picking an older version rolls back.',
+  })
+  @ApiParam({ name: 'id', description: 'Dataset ID' })
+  @ApiBody({ type: SetCurrentVersionDto })
+  @ApiResponse({ status: 200, description: 'Current version changed' })
+  @ApiResponse({
+    status: 400,
+    description: 'The upload is not a successful version of the dataset',
+  })
+  @ApiResponse({ status: 404, description: 'Dataset or upload not found' })
+  async setCurrentDatasetVersion(
+    @Param('id') id: string,
+    @Body() setCurrentDto: SetCurrentVersionDto,
+    @CurrentUser() user?: AuthenticatedUser,
+    @Req() req?: ExpressRequest,
+  ) {
+    return this.datasetService.setCurrentVersion(
+      id,
+      setCurrentDto.uploadId,
+      user?.workspaceId,
+      {
+        userId: user?.id,
+        workspaceId: user?.workspaceId,
+        userIp: req?.ip || req?.socket?.remoteAddress,
+        userAgent: req?.headers['user-agent'],
+      },
+    );
+  }
+
+  /**
+   * queueImport - Registers an uploaded file and queues it for import
+   *
+   * @param fileName - Original file name
+   * @param fileSize - File size in bytes
+   * @param tempPath - Temp file holding the upload (moved into storage)
+   * @param options - Parse options for the import job
+   * @returns Accepted response with the upload and job IDs
+   *
+   * Shared by single-request uploads and completed chunked uploads.
+   */
+  private async queueImport(
+    fileName: string,
+    fileSize: number,
+    tempPath: string,
+    options: ImportJobOptions,
+    user?: AuthenticatedUser,
+    req?: ExpressRequest,
+  ): Promise<ImportJobResponseDto> {
+    // Step 1: Create upload record in database with PROCESSING status
+    // This tracks the upload even if parsing fails
+    const uploadRecord = await this.uploadHistoryService.createUploadRecord(
+      fileName,
+      fileSize,
+      options.templateId,
+      options.datasetId,
+      user?.id,
+      user?.workspaceId,
+    );
+
+    try {
+      // Step 2: Move the original file into storage; the import job reads it from there
+      await this.uploadHistoryService.storeOriginalFilePath(
+        uploadRecord.id,
+        tempPath,
+      );
+    } catch (error) {
+      await this.fileStorageService.remove(tempPath);
+      const errorMessage = `Failed to store CSV file "${fileName}": ${error instanceof Error ? error.message : String(error)}`;
+      await this.uploadHistoryService.updateUploadStatus(
+        uploadRecord.id,
+        UploadStatus.FAILED,
+        {
+          errors: [errorMessage],
+          message: errorMessage,
+        },
+      );
+      this.uploadEventsService.publish(
+        UploadEventType.FAILED,
+        uploadRecord.id,
+        {
+          workspaceId: uploadRecord.workspaceId,
+          fileName: uploadRecord.fileName,
+          progress: await this.uploadHistoryService.getUploadProgress(
+            uploadRecord.id,
+            ALL_WORKSPACES,
+          ),
+        },
+      );
+      throw new InternalServerErrorException(errorMessage);
+    }
+
+    // Step 3: Let the workspace's open tabs know about the new upload
+    this.uploadEventsService.publish(UploadEventType.CREATED, uploadRecord.id, {
+      workspaceId: uploadRecord.workspaceId,
+      fileName: uploadRecord.fileName,
+      progress: await this.uploadHistoryService.getUploadProgress(
+        uploadRecord.id,
+        ALL_WORKSPACES,
+      ),
+    });
+
+    // Step 4: Queue the import (the upload audit entry is written when the job finishes)
+    const jobId = await this.importJobService.enqueue(
+      uploadRecord.id,
+      options,
+      {
+        userId: user?.id,
+        workspaceId: user?.workspaceId,
+        userIp: req?.ip || req?.socket?.remoteAddress,
+        userAgent: req?.headers['user-agent'],
+      },
+    );
+
+    // Step 5: Return the upload ID so the client can follow progress
+    return {
+      success: true,
+      message: `File "${fileName}" uploaded and queued for import`,
+      uploadId: uploadRecord.id,
+      jobId,
+      status: uploadRecord.status,
+      phase: uploadRecord.phase,
+    };
+  }
+
+  /**
+   * parseIssueQuery - Checks issue code and severity filters (400 for unknown values)
+   */
+  private parseIssueQuery(
+    code?: string,
+    severity?: string,
+    column?: string,
+  ): UploadIssueQuery {
+    if (code && !ISSUE_CODES.includes(code as IssueCode)) {
+      throw new BadRequestException(
+        `Unknown issue code: ${code}. Use one of: ${ISSUE_CODES.join(', ')}`,
+      );
+    }
+    if (severity && !ISSUE_SEVERITIES.includes(severity as IssueSeverity)) {
+      throw new BadRequestException(
+        `Unknown severity: ${severity}. Use one of: ${ISSUE_SEVERITIES.join(', ')}`,
+      );
+    }
+    return {
+      code: (code as IssueCode) || undefined,
+      severity: (severity as IssueSeverity) || undefined,
+      column: column || undefined,
+    };
+  }
+
+  /**
+   * uploadScope - Workspace whose uploads a request may open, change or delete
+   * Admins may reach every workspace's uploads (ALL_WORKSPACES); everyone else only
+   * those of their active workspace.
+   */
+  private uploadScope(user: AuthenticatedUser): UploadScope {
+    return user.role === UserRole.ADMIN ? ALL_WORKSPACES : user.workspaceId;
+  }
+
+  /**
+   * getDiffUploads - Loads the two uploads of a diff request
+   * @throws NotFoundException if an upload does not exist or is not in the workspace
+   * @throws BadRequestException if both IDs are the same or an upload is not successful
+   */
+  private async getDiffUploads(
+    diffDto: UploadDiffRequestDto,
+    scope: UploadScope,
+  ): Promise<{ base: UploadRecord; compare: UploadRecord }> {
+    if (diffDto.baseId === diffDto.compareId) {
+      throw new BadRequestException('Choose two different uploads to compare');
+    }
+    const [base, compare] = await Promise.all([
+      this.uploadHistoryService.getUploadById(diffDto.baseId, scope),
+      this.uploadHistoryService.getUploadById(diffDto.compareId, scope),
+    ]);
+    for (const upload of [base, compare]) {
+      if (!upload) {
+        throw new NotFoundException('Upload record not found');
+      }
+      if (upload.status !== UploadStatus.SUCCESS) {
+        throw new BadRequestException(
+          `CSV data is only available for successful uploads (${upload.fileName})`,
+        );
+      }
+    }
+    return { base, compare };
+  }
+
+  /**
+   * getOriginalContentType - Content-Type for downloading an upload's original file
+   * Delimited text files include the charset they were read with.
+   */
+  private getOriginalContentType(upload: UploadRecord): string {
+    const reader =
+      this.importFormatService.getReader(upload.format) ??
+      this.importFormatService.getReaderForFileName(upload.fileName);
+    const mimeType = reader?.mimeType ?? 'application/octet-stream';
+    return upload.dialect
+      ? `${mimeType}; charset=${upload.dialect.encoding}`
+      : mimeType;
+  }
 }
@@ -5,31 +5,145 @@
  * It registers controllers, services, and makes database repositories available.
  *
  * Module Structure:
- * - Controllers: Handle HTTP requests (csv-import.controller.ts)
- * - Services: Business logic (csv-import.service.ts, upload-history.service.ts)
- * - Entities: Database models (upload-record.entity.ts)
+ * - Controllers: Handle HTTP requests (csv-import.controller.ts, and shared-uploads.controller.ts for share links without a login)
+ * - Services: Business logic (csv-import.service.ts, upload-history.service.ts, upload-row.service.ts, row-filter.service.ts, aggregation.service.ts, column-profile.service.ts, data-quality.service.ts, upload-diff.service.ts, dataset.service.ts, share-link.service.ts, file-storage.service.ts, import-job.service.ts, upload-events.service.ts)
+ * - Imports: WorkspacesModule, for WorkspaceGuard (uploads, datasets, templates and audit logs belong to a workspace)
+ * - Readers: One per import format (readers/*.reader.ts), registered with import-format.service.ts
+ * - Entities: Database models (upload-record.entity.ts, upload-row.entity.ts, upload-profile.entity.ts, upload-issue.entity.ts, dataset.entity.ts, share-link.entity.ts, import-job.entity.ts, validation-schema.entity.ts, import-template.entity.ts)
  */
 
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { MulterModule } from '@nestjs/platform-express';
+import { diskStorage } from 'multer';
+import { mkdirSync } from 'fs';
+import { randomUUID } from 'crypto';
 import { CsvImportController } from './csv-import.controller';
+import { SharedUploadsController } from './shared-uploads.controller';
 import { CsvImportService } from './csv-import.service';
 import { UploadHistoryService } from './services/upload-history.service';
 import { AuditLogService } from './services/audit-log.service';
+import { FileStorageService } from './services/file-storage.service';
+import { ImportJobService } from './services/import-job.service';
+import { UploadEventsService } from './services/upload-events.service';
+import { UploadSessionService } from './services/upload-session.service';
+import { CsvDialectService } from './services/csv-dialect.service';
+import { ExcelReaderService } from './services/excel-reader.service';
+import { ImportFormatService } from './services/import-format.service';
+import { CsvFormatReader } from './readers/csv-format.reader';
+import { TsvFormatReader } from './readers/tsv-format.reader';
+import { JsonFormatReader } from './readers/json-format.reader';
+import { NdjsonFormatReader } from './readers/ndjson-format.reader';
+import { ExcelFormatReader } from './readers/excel-format.reader';
+import { ExportService } from './services/export.service';
+import { ValidationRulesService } from './services/validation-rules.service';
+import { ValidationSchemaService } from './services/validation-schema.service';
+import { ImportTemplateService } from './services/import-template.service';
+import { TypeInferenceService } from './services/type-inference.service';
+import { UploadRowService } from './services/upload-row.service';
+import { RowFilterService } from './services/row-filter.service';
+import { AggregationService } from './services/aggregation.service';
+import { ColumnProfileService } from './services/column-profile.service';
+import { DataQualityService } from './services/data-quality.service';
+import { UploadDiffService } from './services/upload-diff.service';
+import { DatasetService } from './services/dataset.service';
+import { ShareLinkService } from './services/share-link.service';
 import { UploadRecordEntity } from './entities/upload-record.entity';
 import { AuditLogEntity } from './entities/audit-log.entity';
+import { ImportJobEntity } from './entities/import-job.entity';
+import { UploadSessionEntity } from './entities/upload-session.entity';
+import { ValidationSchemaEntity } from './entities/validation-schema.entity';
+import { ImportTemplateEntity } from './entities/import-template.entity';
+import { UploadRowEntity } from './entities/upload-row.entity';
+import { UploadProfileEntity } from './entities/upload-profile.entity';
+import { UploadIssueEntity } from './entities/upload-issue.entity';
+import { DatasetEntity } from './entities/dataset.entity';
+import { ShareLinkEntity } from './entities/share-link.entity';
 import { UserEntity } from '../auth/entities/user.entity';
+import { WorkspacesModule } from '../workspaces/workspaces.module';
+import {
+  getMaxUploadSizeBytes,
+  getUploadTempDir,
+} from '../common/config/upload.config';
 
 @Module({
   // Import TypeORM feature module to make entities repository available
   // This allows services in this module to use the database repository
-  imports: [TypeOrmModule.forFeature([UploadRecordEntity, AuditLogEntity, UserEntity])],
+  imports: [
+    TypeOrmModule.forFeature([
+      UploadRecordEntity,
+      AuditLogEntity,
+      ImportJobEntity,
+      UploadSessionEntity,
+      ValidationSchemaEntity,
+      ImportTemplateEntity,
+      UploadRowEntity,
+      UploadProfileEntity,
+      UploadIssueEntity,
+      DatasetEntity,
+      ShareLinkEntity,
+      UserEntity,
+    ]),
+
+    // WorkspacesModule - Resolves the caller's workspace for WorkspaceGuard
+    WorkspacesModule,
+
+    // MulterModule - Streams uploads to disk instead of buffering them in memory
+    // The size limit comes from MAX_UPLOAD_SIZE_MB (multer responds with 413 when exceeded)
+    MulterModule.registerAsync({
+      imports: [ConfigModule],
+      useFactory: (configService: ConfigService) => {
+        const tempDir = getUploadTempDir(configService);
+        mkdirSync(tempDir, { recursive: true });
+        return {
+          storage: diskStorage({
+            destination: tempDir,
+            filename: (_req, _file, callback) => callback(null, randomUUID()),
+          }),
+          limits: {
+            fileSize: getMaxUploadSizeBytes(configService),
+          },
+        };
+      },
+      inject: [ConfigService],
+    }),
+  ],
 
   // Controllers: Handle HTTP requests and define API endpoints
-  controllers: [CsvImportController],
+  controllers: [CsvImportController, SharedUploadsController],
 
   // Providers: Services that contain business logic
   // These can be injected into controllers and other services
-  providers: [CsvImportService, UploadHistoryService, AuditLogService],
+  providers: [
+    CsvImportService,
+    UploadHistoryService,
+    AuditLogService,
+    FileStorageService,
+    ImportJobService,
+    UploadEventsService,
+    UploadSessionService,
+    CsvDialectService,
+    ExcelReaderService,
+    ImportFormatService,
+    CsvFormatReader,
+    TsvFormatReader,
+    JsonFormatReader,
+    NdjsonFormatReader,
+    ExcelFormatReader,
+    ExportService,
+    ValidationRulesService,
+    ValidationSchemaService,
+    ImportTemplateService,
+    TypeInferenceService,
+    UploadRowService,
+    RowFilterService,
+    AggregationService,
+    ColumnProfileService,
+    DataQualityService,
+    UploadDiffService,
+    DatasetService,
+    ShareLinkService,
+  ],
 })
 export class CsvImportModule {}
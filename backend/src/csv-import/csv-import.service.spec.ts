@@ -0,0 +1,254 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { Readable } from 'stream';
+import {
+  CsvImportService,
+  CsvParseProgress,
+  ParseIssue,
+} from './csv-import.service';
+import { ImportFormatService } from './services/import-format.service';
+import { CsvDialectService } from './services/csv-dialect.service';
+import { ExcelReaderService } from './services/excel-reader.service';
+import {
+  ValidationFailedError,
+  ValidationRulesService,
+} from './services/validation-rules.service';
+import { CsvFormatReader } from './readers/csv-format.reader';
+import { TsvFormatReader } from './readers/tsv-format.reader';
+import { JsonFormatReader } from './readers/json-format.reader';
+import { NdjsonFormatReader } from './readers/ndjson-format.reader';
+import { ExcelFormatReader } from './readers/excel-format.reader';
+import { UploadRow } from './interfaces/upload-record.interface';
+
+/**
+ * A CSV file with the given lines, as a stream
+ */
+function csvFile(lines: string[]): Readable {
+  return Readable.from([Buffer.from(lines.join('\n') + '\n')]);
+}
+
+describe('CsvImportService', () => {
+  let service: CsvImportService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CsvImportService,
+        ImportFormatService,
+        CsvDialectService,
+        ExcelReaderService,
+        ValidationRulesService,
+        CsvFormatReader,
+        TsvFormatReader,
+        JsonFormatReader,
+        NdjsonFormatReader,
+        ExcelFormatReader,
+      ],
+    }).compile();
+
+    service = module.get<CsvImportService>(CsvImportService);
+  });
+
+  describe('parseFileStream', () => {
+    it('collects the rows when no onRows is given', async () => {
+      const result = await service.parseFileStream(
+        'people.csv',
+        csvFile(['name,age', 'Ada,36', 'Alan,41']),
+      );
+
+      expect(result.format).toBe('csv');
+      expect(result.rowCount).toBe(2);
+      expect(result.columns).toEqual(['name', 'age']);
+      expect(result.data).toEqual([
+        { name: 'Ada', age: '36' },
+        { name: 'Alan', age: '41' },
+      ]);
+      expect(result.errors).toEqual([]);
+      expect(result.errorCount).toBe(0);
+    });
+
+    it('hands on the rows in batches instead of collecting them', async () => {
+      const lines = ['id,value'];
+      for (let id = 1; id <= 2500; id++) {
+        lines.push(`${id},v${id}`);
+      }
+      const batches: UploadRow[][] = [];
+
+      const result = await service.parseFileStream(
+        'values.csv',
+        csvFile(lines),
+        {
+          onRows: async (rows) => {
+            batches.push(rows);
+          },
+        },
+      );
+
+      expect(batches.map((rows) => rows.length)).toEqual([1000, 1000, 500]);
+      expect(batches[2][499].data).toEqual({ id: '2500', value: 'v2500' });
+      expect(result.rowCount).toBe(2500);
+      expect(result.data).toBeUndefined();
+    });
+
+    it('keeps a sample of the warnings and passes all of them to onIssues before their rows', async () => {
+      const lines = ['a,b'];
+      for (let row = 0; row < 300; row++) {
+        lines.push(row % 2 === 0 ? ',' : `=cmd${row},x`);
+      }
+      const calls: string[] = [];
+      const issues: ParseIssue[] = [];
+
+      const result = await service.parseFileStream(
+        'warnings.csv',
+        csvFile(lines),
+        {
+          onIssues: async (batch) => {
+            calls.push('issues');
+            issues.push(...batch);
+          },
+          onRows: async () => {
+            calls.push('rows');
+          },
+        },
+      );
+
+      expect(result.rowCount).toBe(150);
+      expect(result.errorCount).toBe(300);
+      expect(result.errors).toHaveLength(100);
+      expect(issues).toHaveLength(300);
+      expect(issues.filter((issue) => issue.code === 'empty_row')).toHaveLength(
+        150,
+      );
+      expect(
+        issues.filter((issue) => issue.code === 'formula_injection'),
+      ).toHaveLength(150);
+      expect(calls).toEqual(['issues', 'rows']);
+    });
+
+    it('adds the warnings of a row to that row', async () => {
+      const rows: UploadRow[] = [];
+
+      await service.parseFileStream(
+        'formula.csv',
+        csvFile(['a', '=1+1', 'ok']),
+        {
+          onRows: async (batch) => {
+            rows.push(...batch);
+          },
+        },
+      );
+
+      expect(rows[0].warnings).toEqual([
+        'Possible formula injection in column(s): a',
+      ]);
+      expect(rows[1].warnings).toBeUndefined();
+    });
+
+    it('marks duplicates with the row they repeat and counts all of them', async () => {
+      const lines = ['name,city', 'Ada,London'];
+      for (let copy = 0; copy < 150; copy++) {
+        lines.push('Ada,London');
+      }
+      lines.push('Alan,Wilmslow');
+      const rows: UploadRow[] = [];
+
+      const result = await service.parseFileStream(
+        'dupes.csv',
+        csvFile(lines),
+        {
+          detectDuplicates: true,
+          handleDuplicates: 'mark',
+          onRows: async (batch) => {
+            rows.push(...batch);
+          },
+        },
+      );
+
+      const [first] = rows;
+      expect(first.duplicateOf).toBeUndefined();
+      expect(rows[1].duplicateOf).toBe(first.rowNumber);
+      expect(rows[1].warnings).toEqual([`Duplicate of row ${first.rowNumber}`]);
+      expect(result.duplicateCount).toBe(150);
+      expect(result.duplicates).toHaveLength(100);
+      expect(result.duplicates[0]).toEqual({
+        row: rows[1].rowNumber,
+        duplicateOf: first.rowNumber,
+      });
+      expect(result.rowCount).toBe(152);
+    });
+
+    it('leaves duplicates out with handleDuplicates skip', async () => {
+      const result = await service.parseFileStream(
+        'dupes.csv',
+        csvFile(['name', 'Ada', 'Ada', 'Alan']),
+        { detectDuplicates: true, handleDuplicates: 'skip' },
+      );
+
+      expect(result.data).toEqual([{ name: 'Ada' }, { name: 'Alan' }]);
+      expect(result.duplicateCount).toBe(1);
+    });
+
+    it('reports progress for every PROGRESS_INTERVAL_ROWS rows read, including skipped ones', async () => {
+      const lines = ['a,b'];
+      for (let row = 0; row < 2500; row++) {
+        lines.push(row % 2 === 0 ? ',' : `${row},x`);
+      }
+      const progress: CsvParseProgress[] = [];
+
+      await service.parseFileStream('progress.csv', csvFile(lines), {
+        onProgress: async (update) => {
+          progress.push(update);
+        },
+        onRows: async () => undefined,
+      });
+
+      expect(progress.map((update) => update.rowsProcessed)).toEqual([
+        1000, 2000,
+      ]);
+      expect(progress[1].bytesProcessed).toBeGreaterThan(0);
+    });
+
+    it('leaves out rows rejected by validation rules', async () => {
+      const result = await service.parseFileStream(
+        'rules.csv',
+        csvFile(['name,age', 'Ada,36', 'Alan,', 'Grace,85']),
+        {
+          validation: {
+            columns: [{ column: 'age', required: true }],
+            severity: 'reject_row',
+          },
+        },
+      );
+
+      expect(result.data).toEqual([
+        { name: 'Ada', age: '36' },
+        { name: 'Grace', age: '85' },
+      ]);
+      expect(result.rejectedRows).toBe(1);
+    });
+
+    it('fails when every row is rejected by validation rules', async () => {
+      await expect(
+        service.parseFileStream('rules.csv', csvFile(['name,age', 'Alan,']), {
+          validation: {
+            columns: [{ column: 'age', required: true }],
+            severity: 'reject_row',
+          },
+        }),
+      ).rejects.toBeInstanceOf(ValidationFailedError);
+    });
+
+    it('fails for an empty file and for a file without data rows', async () => {
+      await expect(
+        service.parseFileStream('empty.csv', Readable.from([Buffer.alloc(0)])),
+      ).rejects.toThrow('CSV parsing failed: File is empty');
+      await expect(
+        service.parseFileStream('header.csv', csvFile(['a,b'])),
+      ).rejects.toThrow('File contains only a header row with no data rows');
+      await expect(
+        service.parseFileStream('blank.csv', csvFile(['a,b', ',', ','])),
+      ).rejects.toThrow(
+        'File contains no valid data rows (all rows are empty)',
+      );
+    });
+  });
+});
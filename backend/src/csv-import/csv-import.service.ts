@@ -1,17 +1,40 @@
 /**
  * csv-import.service.ts - CSV Import Service
  *
- * This service contains the business logic for parsing CSV files.
- * It handles the actual work of converting CSV file content into structured data.
+ * This service contains the business logic for parsing imported files.
+ * It handles the actual work of converting file content into structured data.
+ * The file format (CSV, TSV, JSON, NDJSON, Excel) is handled by a reader from
+ * ImportFormatService; everything after that is the same for all formats.
  *
  * Responsibilities:
- * - Parse CSV files into JavaScript objects
- * - Validate CSV data structure
+ * - Parse files into JavaScript objects (rows of column name -> string value)
+ * - Detect duplicates and apply column mapping
+ * - Flag values that would run as formulas in spreadsheet apps
+ * - Check rows against validation rules (ValidationRulesService)
  * - Handle parsing errors
  */
 
 import { Injectable } from '@nestjs/common';
-import { parse } from 'csv-parse/sync';
+import { createHash } from 'crypto';
+import { Readable } from 'stream';
+import { ImportFormatService } from './services/import-format.service';
+import {
+  ValidationFailedError,
+  ValidationRulesService,
+} from './services/validation-rules.service';
+import { isFormulaLike } from '../common/utils/formula-injection.util';
+import { CsvDialect } from './interfaces/csv-dialect.interface';
+import {
+  FormatReader,
+  ImportRecord,
+} from './interfaces/import-format.interface';
+import {
+  RuleViolation,
+  ValidationSchema,
+  ValidationSeverity,
+} from './interfaces/validation-rule.interface';
+import { IssueCode } from './interfaces/upload-issue.interface';
+import { UploadRow } from './interfaces/upload-record.interface';
 
 /**
  * CsvRow Interface
@@ -22,20 +45,101 @@ export interface CsvRow {
   [key: string]: string; // Dynamic keys (column names) with string values
 }
 
+/**
+ * CsvParseOptions Interface
+ * Options that control how the file is read, duplicate handling and column renaming during parsing
+ */
+export interface CsvParseOptions {
+  dialect?: Partial<CsvDialect>; // CSV/TSV only: values not given are sniffed from the file
+  sheetName?: string; // Excel only: sheet to import (first sheet if not given)
+  headerRow?: number; // Excel only: 1-based header row (default 1)
+  detectDuplicates?: boolean;
+  duplicateColumns?: string[];
+  handleDuplicates?: 'skip' | 'keep' | 'mark';
+  columnMapping?: Record<string, string>;
+  validation?: ValidationSchema; // Rules rows are checked against (after column mapping)
+  expectedHeaders?: string[]; // Headers the import template expects; differences are reported as a warning
+  onProgress?: (progress: CsvParseProgress) => void | Promise<void>;
+  // Receives the kept rows ROW_BATCH_SIZE at a time, with their warnings and duplicate
+  // flags, instead of the result collecting them (awaited, so slow writers apply backpressure)
+  onRows?: (rows: UploadRow[]) => Promise<void>;
+  // Receives every warning, right before the rows of the batch it was found in; the
+  // result only keeps the first MAX_SAMPLED_ISSUES
+  onIssues?: (issues: ParseIssue[]) => Promise<void>;
+}
+
+/**
+ * CsvParseProgress Interface
+ * Reported through CsvParseOptions.onProgress while a stream is being parsed
+ */
+export interface CsvParseProgress {
+  rowsProcessed: number;
+  bytesProcessed: number;
+}
+
+/**
+ * How often (in rows) onProgress is called while parsing
+ */
+const PROGRESS_INTERVAL_ROWS = 1000;
+
+/**
+ * Rows passed to onRows at a time
+ */
+const ROW_BATCH_SIZE = 1000;
+
+/**
+ * Warnings and duplicates kept in the parse result (and stored with the upload); the
+ * others are only counted, and passed to onIssues
+ */
+const MAX_SAMPLED_ISSUES = 100;
+
+/**
+ * Parsing stops once this many violations of fail_upload rules were found
+ */
+const MAX_FAILING_VIOLATIONS = 100;
+
+/**
+ * ParseIssue Interface
+ * A row-level warning; column and severity are set for validation rule violations
+ */
+export interface ParseIssue {
+  row: number;
+  code: IssueCode;
+  message: string;
+  column?: string;
+  severity?: ValidationSeverity;
+}
+
+/**
+ * CsvParseResult Interface
+ * The parsed rows plus any row-level warnings, detected duplicates and how the file was read
+ */
+export interface CsvParseResult {
+  data?: CsvRow[]; // The rows, unless they were passed to onRows
+  rowNumbers?: number[]; // Row number in the source file for each entry of data
+  rowCount: number; // Rows kept
+  columns: string[]; // Columns of the rows (after column mapping), in order of first appearance
+  // Rows passed to onRows may lack columns that only appear in later rows (formats
+  // whose records vary, e.g. JSON); such values are empty
+  columnsVary?: boolean;
+  format?: string; // Reader that parsed the file (csv, tsv, json, ndjson, xlsx)
+  dialect?: CsvDialect; // CSV/TSV files
+  sheetName?: string; // Excel files
+  headerRow?: number; // Excel files
+  errors: ParseIssue[]; // The first MAX_SAMPLED_ISSUES warnings
+  errorCount: number; // All warnings
+  rejectedRows?: number; // Rows left out by reject_row validation rules
+  duplicates?: Array<{ row: number; duplicateOf: number }>; // The first MAX_SAMPLED_ISSUES duplicates
+  duplicateCount?: number; // All duplicates (set with duplicate detection)
+}
+
 @Injectable() // Makes this service available for dependency injection
 export class CsvImportService {
-  /**
-   * parseCsv - Parses a CSV file buffer into structured data
-   *
-   * @param fileBuffer - The CSV file content as a Buffer (binary data)
-   * @returns Array of objects, where each object represents a CSV row
-   *
-   * Process:
-   * 1. Convert buffer to UTF-8 string
-   * 2. Parse CSV using csv-parse library
-   * 3. Convert to array of objects (first row becomes keys)
-   * 4. Return parsed data
-   */
+  constructor(
+    private readonly importFormatService: ImportFormatService,
+    private readonly validationRulesService: ValidationRulesService,
+  ) {}
+
   /**
    * detectDuplicates - Identifies duplicate rows in CSV data
    *
@@ -59,30 +163,18 @@ export class CsvImportService {
       duplicateOf: number;
       data: CsvRow;
     }> = [];
-    const seen = new Map<string, number>();
     const uniqueRows: CsvRow[] = [];
-
-    // Get columns to check (all columns if not specified)
-    const columnsToCheck = columns && columns.length > 0 
-      ? columns 
-      : data.length > 0 ? Object.keys(data[0]) : [];
+    const checkDuplicate = this.createDuplicateTracker(columns);
 
     data.forEach((row, index) => {
-      // Create a key from the specified columns (or all columns)
-      const key = columnsToCheck
-        .map((col) => String(row[col] || '').trim().toLowerCase())
-        .join('|');
-
-      // Check if this row has been seen before
-      if (seen.has(key)) {
-        const duplicateOf = seen.get(key)!;
+      const duplicateOf = checkDuplicate(row, index);
+      if (duplicateOf !== undefined) {
         duplicates.push({
           row: index + 2, // +2 because index is 0-based and we skip header row
           duplicateOf: duplicateOf + 2,
           data: row,
         });
       } else {
-        seen.set(key, index);
         uniqueRows.push(row);
       }
     });
@@ -105,159 +197,505 @@ export class CsvImportService {
       return data;
     }
 
-    return data.map((row) => {
-      const mappedRow: CsvRow = {};
-      
-      // Apply mapping: if column exists in mapping, use mapped name; otherwise keep original
-      Object.keys(row).forEach((sourceColumn) => {
-        const targetColumn = columnMapping[sourceColumn] || sourceColumn;
-        mappedRow[targetColumn] = row[sourceColumn];
-      });
-      
-      return mappedRow;
-    });
+    return data.map((row) => this.mapRow(row, columnMapping));
   }
 
+  /**
+   * parseCsv - Parses a CSV file buffer into structured data
+   *
+   * @param fileBuffer - The CSV file content as a Buffer (binary data)
+   * @returns Array of objects, where each object represents a CSV row
+   *
+   * Convenience wrapper for CSV content that is already in memory.
+   */
   async parseCsv(
     fileBuffer: Buffer,
-    options?: {
-      detectDuplicates?: boolean;
-      duplicateColumns?: string[];
-      handleDuplicates?: 'skip' | 'keep' | 'mark';
-      columnMapping?: Record<string, string>;
-    },
-  ): Promise<{
-    data: CsvRow[];
-    errors: Array<{ row: number; message: string }>;
-    duplicates?: Array<{ row: number; duplicateOf: number; data: CsvRow }>;
-  }> {
+    options?: CsvParseOptions,
+  ): Promise<CsvParseResult> {
+    return this.parseWithReader(
+      this.importFormatService.getDefaultReader(),
+      Readable.from([fileBuffer]),
+      options,
+    );
+  }
+
+  /**
+   * parseFileStream - Parses an uploaded file row by row
+   *
+   * @param fileName - Original file name (its extension picks the reader; unknown ones are sniffed)
+   * @param input - Readable stream of the file content (e.g. a file on disk)
+   * @param options - Dialect or sheet, duplicate detection, column mapping, progress and row options
+   * @returns Parsed rows, row warnings, detected duplicates, the format and how it was read
+   *
+   * The file is read as a stream. With onRows, rows are handed on a batch at a
+   * time and only that batch is held in memory (plus a sample of the warnings, and
+   * a fixed-size hash per distinct row for duplicate detection); without it, the
+   * result collects every row.
+   */
+  async parseFileStream(
+    fileName: string,
+    input: Readable,
+    options?: CsvParseOptions,
+  ): Promise<CsvParseResult> {
+    const { reader, stream } = await this.importFormatService.detect(
+      fileName,
+      input,
+    );
+    return this.parseWithReader(reader, stream, options);
+  }
+
+  /**
+   * parseWithReader - Reads a file with the given reader and hands on or collects its rows
+   *
+   * Errors are prefixed with the format, e.g. "JSON parsing failed: ...".
+   */
+  private async parseWithReader(
+    reader: FormatReader,
+    input: Readable,
+    options?: CsvParseOptions,
+  ): Promise<CsvParseResult> {
     try {
-      const csvContent = fileBuffer.toString('utf-8').trim();
-      
-      // Check if file is empty
-      if (!csvContent || csvContent.length === 0) {
-        throw new Error('CSV file is empty');
+      const output = await reader.read(input, options);
+      const collected: UploadRow[] = [];
+      const result = await this.collectRows(
+        output.records,
+        {
+          ...options,
+          onRows:
+            options?.onRows ??
+            (async (rows) => {
+              collected.push(...rows);
+            }),
+        },
+        output.getBytesRead,
+        output.hasHeader,
+        !reader.variableColumns,
+      );
+      if (!options?.onRows) {
+        result.data = collected.map((row) =>
+          reader.variableColumns
+            ? this.fillMissingColumns(row.data as CsvRow, result.columns)
+            : (row.data as CsvRow),
+        );
+        result.rowNumbers = collected.map((row) => row.rowNumber);
+      } else if (reader.variableColumns) {
+        result.columnsVary = true;
+      }
+      return { ...result, ...output.getDetails?.(), format: reader.format };
+    } catch (error) {
+      if (error instanceof ValidationFailedError) {
+        throw error; // Not a parsing problem; the violations explain it
       }
+      // Enhanced error message with row context if available
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      throw new Error(`${reader.label} parsing failed: ${errorMessage}`);
+    }
+  }
 
-      const errors: Array<{ row: number; message: string }> = [];
-      let validRecords: CsvRow[] = [];
-
-      // Parse CSV file
-      const records = parse(csvContent, {
-        columns: true,
-        skip_empty_lines: true,
-        trim: true,
-        bom: true,
-        relax_column_count: true,
-        on_record: (record, context) => {
-          // Track row numbers (context.lines is 0-indexed, add 2 for header row)
-          const rowNumber = context.lines + 2;
-          
-          // Check for empty rows
-          const values = Object.values(record);
-          const isEmptyRow = values.every((val) => !val || String(val).trim() === '');
-          
-          if (isEmptyRow) {
-            errors.push({
-              row: rowNumber,
-              message: 'Row contains only empty values',
-            });
-            return null; // Skip this row
-          }
-          
-          // Return the record to include it
-          return record;
-        },
-      });
+  /**
+   * collectRows - Turns parsed records into the import result
+   *
+   * @param records - Rows from a file reader, with their row numbers
+   * @param options - Duplicate detection, column mapping and progress options; the kept
+   *                  rows go to onRows, the warnings to onIssues (if set)
+   * @param getBytesRead - Bytes of the file read so far (for progress)
+   * @param hasHeader - Whether the reader found a header row (checked at the end)
+   * @param fixedColumns - Every row has the header's columns (false for JSON, whose records vary)
+   *
+   * Process:
+   * 1. Drop empty rows and record a warning for each
+   * 2. Check each row against previously seen rows for duplicates
+   * 3. Apply column mapping as rows arrive
+   * 4. Warn about values that spreadsheets would run as formulas
+   * 5. Check validation rules: warn, leave the row out, or fail the upload
+   * 6. Warn if the header differs from the expected headers (import templates)
+   * 7. Hand on kept rows with their warnings every ROW_BATCH_SIZE rows, after the
+   *    warnings found meanwhile; keep only a sample of the warnings and duplicates
+   * 8. Report progress every PROGRESS_INTERVAL_ROWS rows read, kept or not (if onProgress
+   *    is set)
+   * 9. Fail if the file had no header or no data rows
+   */
+  private async collectRows(
+    records: AsyncIterable<ImportRecord>,
+    options: CsvParseOptions & Required<Pick<CsvParseOptions, 'onRows'>>,
+    getBytesRead: () => number,
+    hasHeader: () => boolean,
+    fixedColumns: boolean,
+  ): Promise<CsvParseResult> {
+    const errors: ParseIssue[] = [];
+    let errorCount = 0;
+    let batch: UploadRow[] = [];
+    let batchIssues: ParseIssue[] = [];
+    let rowCount = 0;
+    const columns = new Set<string>();
+    const duplicates: Array<{ row: number; duplicateOf: number }> = [];
+    let duplicateCount = 0;
+    const checkDuplicate = options?.detectDuplicates
+      ? this.createDuplicateTracker(options.duplicateColumns)
+      : undefined;
+    const columnMapping =
+      options?.columnMapping && Object.keys(options.columnMapping).length > 0
+        ? options.columnMapping
+        : undefined;
 
-      // Filter out null records (skipped empty rows)
-      validRecords = records.filter((record): record is CsvRow => record !== null && record !== undefined);
+    const validator = options?.validation
+      ? this.validationRulesService.createValidator(options.validation)
+      : undefined;
+    const failingViolations: RuleViolation[] = [];
+    const rejectedSample: RuleViolation[] = []; // Reported if every row is rejected
+    let headerChecked = false;
+    let rejectedRows = 0;
 
-      // Validation: Check if parsing resulted in any valid data
-      if (!validRecords || validRecords.length === 0) {
-        // Check if we have a header but no data
-        const lines = csvContent.split('\n').filter(line => line.trim().length > 0);
-        if (lines.length === 1) {
-          throw new Error('CSV file contains only a header row with no data rows');
-        }
-        throw new Error('CSV file contains no valid data rows (all rows are empty)');
+    let emptyRowCount = 0;
+    let validRowCount = 0;
+    let parsedRowCount = 0; // Every row read, including skipped, rejected and duplicate rows
+    let reportedRowCount = 0;
+
+    const report = (issue: ParseIssue) => {
+      errorCount++;
+      if (errors.length < MAX_SAMPLED_ISSUES) {
+        errors.push(issue);
+      }
+      if (options.onIssues) {
+        batchIssues.push(issue);
+      }
+    };
+    const flush = async () => {
+      if (batchIssues.length > 0) {
+        await options.onIssues(batchIssues);
+        batchIssues = [];
+      }
+      if (batch.length > 0) {
+        await options.onRows(batch);
+        batch = [];
       }
+    };
 
-      // Duplicate detection
-      let duplicates: Array<{ row: number; duplicateOf: number; data: CsvRow }> | undefined;
-      let finalData = validRecords;
+    for await (const { row, rowNumber } of records) {
+      // Report progress periodically (awaited, so slow listeners apply backpressure)
+      parsedRowCount++;
+      if (
+        options?.onProgress &&
+        parsedRowCount - reportedRowCount >= PROGRESS_INTERVAL_ROWS
+      ) {
+        reportedRowCount = parsedRowCount;
+        await options.onProgress({
+          rowsProcessed: parsedRowCount,
+          bytesProcessed: getBytesRead(),
+        });
+      }
 
-      if (options?.detectDuplicates) {
-        const duplicateResult = this.detectDuplicates(
-          validRecords,
-          options.duplicateColumns,
+      // Check for empty rows
+      const isEmptyRow = Object.values(row).every(
+        (val) => !val || String(val).trim() === '',
+      );
+      if (isEmptyRow) {
+        emptyRowCount++;
+        report({
+          row: rowNumber,
+          code: 'empty_row',
+          message: 'Row contains only empty values',
+        });
+        continue; // Skip this row
+      }
+
+      const index = validRowCount++;
+      const warnings: string[] = [];
+      const reportRowIssue = (issue: ParseIssue) => {
+        report(issue);
+        warnings.push(issue.message);
+      };
+      let duplicateOf: number | undefined;
+
+      // Compare the header with the one the import template expects
+      if (index === 0 && fixedColumns && options?.expectedHeaders?.length) {
+        const difference = this.describeHeaderDifference(
+          Object.keys(row),
+          options.expectedHeaders,
         );
+        if (difference) {
+          report({ row: 1, code: 'header_mismatch', message: difference });
+        }
+      }
 
-        duplicates = duplicateResult.duplicates;
-
-        // Handle duplicates based on option
-        if (options.handleDuplicates === 'skip') {
-          // Keep only unique rows
-          finalData = duplicateResult.uniqueRows;
-        } else if (options.handleDuplicates === 'mark') {
-          // Keep all rows but mark duplicates in errors
-          duplicateResult.duplicates.forEach((dup) => {
-            errors.push({
-              row: dup.row,
-              message: `Duplicate of row ${dup.duplicateOf}`,
+      // Duplicate detection
+      if (checkDuplicate) {
+        duplicateOf = checkDuplicate(row, rowNumber);
+        if (duplicateOf !== undefined) {
+          const duplicate = { row: rowNumber, duplicateOf };
+          duplicateCount++;
+          if (duplicates.length < MAX_SAMPLED_ISSUES) {
+            duplicates.push(duplicate);
+          }
+
+          // Handle duplicates based on option
+          if (options.handleDuplicates === 'skip') {
+            // Keep only unique rows
+            continue;
+          } else if (options.handleDuplicates === 'mark') {
+            // Keep all rows but mark duplicates in errors
+            reportRowIssue({
+              row: duplicate.row,
+              code: 'duplicate_row',
+              message: `Duplicate of row ${duplicate.duplicateOf}`,
             });
-          });
+          }
+          // If 'keep', do nothing - keep all rows including duplicates
         }
-        // If 'keep', do nothing - keep all rows including duplicates
       }
 
       // Apply column mapping if provided
-      if (options?.columnMapping && Object.keys(options.columnMapping).length > 0) {
-        finalData = this.applyColumnMapping(finalData, options.columnMapping);
+      const mappedRow = columnMapping ? this.mapRow(row, columnMapping) : row;
+
+      // Validation rules (rules name columns after mapping)
+      if (validator) {
+        const violations: RuleViolation[] = [];
+        if (!headerChecked) {
+          headerChecked = true;
+          if (fixedColumns) {
+            violations.push(...validator.checkHeader(Object.keys(mappedRow)));
+          }
+        }
+        violations.push(...validator.checkRow(mappedRow, rowNumber));
+
+        for (const violation of violations) {
+          if (violation.severity === 'fail_upload') {
+            failingViolations.push(violation);
+          } else if (violation.row === rowNumber) {
+            reportRowIssue(violation);
+          } else {
+            report(violation); // Header violations
+          }
+        }
+        if (failingViolations.length >= MAX_FAILING_VIOLATIONS) {
+          throw this.validationFailure(failingViolations, true);
+        }
+        if (violations.some((v) => v.severity === 'reject_row')) {
+          rejectedRows++;
+          rejectedSample.push(
+            ...violations
+              .filter((v) => v.severity === 'reject_row')
+              .slice(0, MAX_FAILING_VIOLATIONS - rejectedSample.length),
+          );
+          continue;
+        }
       }
 
-      return { data: finalData, errors, duplicates };
-    } catch (error) {
-      // Enhanced error message with row context if available
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      throw new Error(`CSV parsing failed: ${errorMessage}`);
+      // Flag possible formula injection (neutralized again on CSV export)
+      const formulaColumns = Object.keys(mappedRow).filter((column) =>
+        isFormulaLike(mappedRow[column] ?? ''),
+      );
+      if (formulaColumns.length > 0) {
+        reportRowIssue({
+          row: rowNumber,
+          code: 'formula_injection',
+          message: `Possible formula injection in column(s): ${formulaColumns.join(', ')}`,
+        });
+      }
+
+      Object.keys(mappedRow).forEach((column) => columns.add(column));
+      batch.push({
+        rowNumber,
+        data: mappedRow,
+        warnings: warnings.length > 0 ? warnings : undefined,
+        duplicateOf,
+      });
+      rowCount++;
+      if (batch.length >= ROW_BATCH_SIZE) {
+        await flush();
+      }
+    }
+
+    // Check if file is empty
+    if (!hasHeader()) {
+      throw new Error('File is empty');
+    }
+
+    // Validation: Check if parsing resulted in any valid data
+    if (validRowCount === 0) {
+      if (emptyRowCount === 0) {
+        throw new Error('File contains only a header row with no data rows');
+      }
+      throw new Error('File contains no valid data rows (all rows are empty)');
+    }
+
+    if (failingViolations.length > 0) {
+      throw this.validationFailure(failingViolations, false);
+    }
+    if (validator && rowCount === 0 && rejectedRows > 0) {
+      throw new ValidationFailedError(
+        `All ${rejectedRows} data row(s) were rejected by validation rules`,
+        rejectedSample,
+      );
+    }
+
+    await flush();
+
+    return {
+      rowCount,
+      columns: [...columns],
+      errors,
+      errorCount,
+      rejectedRows: validator ? rejectedRows : undefined,
+      duplicates: checkDuplicate ? duplicates : undefined,
+      duplicateCount: checkDuplicate ? duplicateCount : undefined,
+    };
+  }
+
+  /**
+   * describeHeaderDifference - Explains how a file's header differs from the expected one
+   * Headers are compared ignoring case and surrounding whitespace.
+   *
+   * @returns A warning message, or undefined if the headers match
+   */
+  private describeHeaderDifference(
+    headers: string[],
+    expectedHeaders: string[],
+  ): string | undefined {
+    const normalize = (header: string) => header.trim().toLowerCase();
+    const actual = new Set(headers.map(normalize));
+    const expected = new Set(expectedHeaders.map(normalize));
+    const missing = expectedHeaders.filter((h) => !actual.has(normalize(h)));
+    const unexpected = headers.filter((h) => !expected.has(normalize(h)));
+    if (missing.length === 0 && unexpected.length === 0) {
+      return undefined;
     }
+
+    const parts: string[] = [];
+    if (missing.length > 0) {
+      parts.push(`missing ${missing.join(', ')}`);
+    }
+    if (unexpected.length > 0) {
+      parts.push(`unexpected ${unexpected.join(', ')}`);
+    }
+    return `Headers differ from the import template: ${parts.join('; ')}`;
+  }
+
+  /**
+   * validationFailure - The error that fails an upload because of fail_upload rules
+   *
+   * @param stoppedEarly - Parsing stopped at MAX_FAILING_VIOLATIONS, so there may be more
+   */
+  private validationFailure(
+    violations: RuleViolation[],
+    stoppedEarly: boolean,
+  ): ValidationFailedError {
+    const count = stoppedEarly
+      ? `At least ${violations.length}`
+      : `${violations.length}`;
+    return new ValidationFailedError(
+      `${count} violation(s) of validation rules that fail the upload`,
+      violations,
+    );
+  }
+
+  /**
+   * fillMissingColumns - Gives a row all columns, in order of first appearance
+   * Used for formats whose records may have different keys (e.g. JSON)
+   */
+  private fillMissingColumns(row: CsvRow, columns: string[]): CsvRow {
+    const filledRow: CsvRow = {};
+    columns.forEach((column) => {
+      filledRow[column] = row[column] ?? '';
+    });
+    return filledRow;
+  }
+
+  /**
+   * createDuplicateTracker - Builds a row-by-row duplicate checker
+   *
+   * @param columns - Columns that make up the duplicate key (all columns of the first row if empty)
+   * @returns Function that returns the position (index or row number, as passed in) of the
+   *          first matching row, or undefined for new rows
+   *
+   * Keys are hashed so memory stays proportional to the number of distinct rows,
+   * not to their width.
+   */
+  private createDuplicateTracker(
+    columns?: string[],
+  ): (row: CsvRow, index: number) => number | undefined {
+    const seen = new Map<string, number>();
+    let columnsToCheck = columns && columns.length > 0 ? columns : undefined;
+
+    return (row, index) => {
+      // Get columns to check (all columns if not specified)
+      if (!columnsToCheck) {
+        columnsToCheck = Object.keys(row);
+      }
+
+      // Create a key from the specified columns (or all columns)
+      const key = createHash('sha1')
+        .update(
+          columnsToCheck
+            .map((col) =>
+              String(row[col] || '')
+                .trim()
+                .toLowerCase(),
+            )
+            .join('|'),
+        )
+        .digest('base64');
+
+      // Check if this row has been seen before
+      if (seen.has(key)) {
+        return seen.get(key);
+      }
+      seen.set(key, index);
+      return undefined;
+    };
+  }
+
+  /**
+   * mapRow - Renames the columns of a single row
+   * If a column exists in the mapping, the mapped name is used; otherwise the original is kept
+   */
+  private mapRow(row: CsvRow, columnMapping: Record<string, string>): CsvRow {
+    const mappedRow: CsvRow = {};
+    Object.keys(row).forEach((sourceColumn) => {
+      const targetColumn = columnMapping[sourceColumn] || sourceColumn;
+      mappedRow[targetColumn] = row[sourceColumn];
+    });
+    return mappedRow;
   }
 
   /**
-   * validateCsvData - Validates parsed CSV data
+   * validateCsvData - Validates parsed rows against a validation schema
    *
    * @param data - Array of CSV rows (objects)
-   * @returns Validation result with errors array
+   * @param schema - Rules to check (see validation-rule.interface.ts)
+   * @returns Validation result: valid unless a rule rejects a row or fails the upload;
+   *          errors lists every violation as "Row N: message" (warnings included)
    *
-   * This method can be extended to add custom validation rules:
-   * - Check for required columns
-   * - Validate data types
-   * - Check data ranges
-   * - etc.
+   * Imports apply the same rules while parsing (CsvParseOptions.validation);
+   * this checks rows that are already in memory.
    */
   async validateCsvData(
     data: CsvRow[],
+    schema?: ValidationSchema,
   ): Promise<{ valid: boolean; errors: string[] }> {
     const errors: string[] = [];
 
     // Basic validation: Check if data exists
     if (data.length === 0) {
-      errors.push('CSV file contains no data rows');
+      return { valid: false, errors: ['CSV file contains no data rows'] };
+    }
+    if (!schema) {
+      return { valid: true, errors };
     }
 
-    // Add custom validation logic here
-    // Example: Check for required columns
-    // const requiredColumns = ['name', 'email'];
-    // const firstRow = data[0];
-    // requiredColumns.forEach(col => {
-    //   if (!firstRow[col]) {
-    //     errors.push(`Missing required column: ${col}`);
-    //   }
-    // });
+    const validator = this.validationRulesService.createValidator(schema);
+    const violations = [
+      ...validator.checkHeader(Object.keys(data[0])),
+      // +2 because index is 0-based and we skip header row
+      ...data.flatMap((row, index) => validator.checkRow(row, index + 2)),
+    ];
+    violations.forEach((violation) =>
+      errors.push(`Row ${violation.row}: ${violation.message}`),
+    );
 
     return {
-      valid: errors.length === 0,
+      valid: violations.every((violation) => violation.severity === 'warning'),
       errors,
     };
   }
@@ -0,0 +1,155 @@
+/**
+ * aggregate.dto.ts - Aggregation DTOs
+ *
+ * Group-by request for an upload's rows and the table of groups returned.
+ * Columns and metric names are checked against the upload by AggregationService.
+ */
+
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsArray,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  AGGREGATE_FUNCTIONS,
+  AggregateFunction,
+} from '../interfaces/aggregate.interface';
+
+export class AggregateMetricDto {
+  @ApiProperty({ enum: AGGREGATE_FUNCTIONS, example: 'sum' })
+  @IsIn(AGGREGATE_FUNCTIONS)
+  function: AggregateFunction;
+
+  @ApiPropertyOptional({
+    description:
+      'Column to aggregate (required except for count; count with a column counts its non-empty values)',
+    example: 'amount',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  column?: string;
+
+  @ApiPropertyOptional({
+    description: 'Name of the metric in the result (default: e.g. sum_amount)',
+    example: 'revenue',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  as?: string;
+}
+
+export class AggregateSortDto {
+  @ApiProperty({
+    description: 'Group-by column or metric name to sort by',
+    example: 'revenue',
+  })
+  @IsString()
+  @IsNotEmpty()
+  by: string;
+
+  @ApiProperty({ enum: ['asc', 'desc'] })
+  @IsIn(['asc', 'desc'])
+  direction: 'asc' | 'desc';
+}
+
+export class AggregateRequestDto {
+  @ApiPropertyOptional({
+    description:
+      'Columns to group by (default: none, one row for all matching rows)',
+    example: ['country'],
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(5)
+  @IsString({ each: true })
+  groupBy?: string[];
+
+  @ApiProperty({
+    description: 'Values to compute for every group',
+    type: [AggregateMetricDto],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(20)
+  @ValidateNested({ each: true })
+  @Type(() => AggregateMetricDto)
+  metrics: AggregateMetricDto[];
+
+  @ApiPropertyOptional({
+    description:
+      'Only aggregate rows matching this filter expression (same syntax as the filter parameter of GET /csv-import/history/:id/rows)',
+    example: 'status = "paid"',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  filter?: string;
+
+  @ApiPropertyOptional({
+    description: 'Order of the groups (default: by the group-by columns)',
+    type: AggregateSortDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => AggregateSortDto)
+  sort?: AggregateSortDto;
+
+  @ApiPropertyOptional({
+    description:
+      'Maximum number of groups returned (default: 1000, max: 10000)',
+    default: 1000,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(10000)
+  limit?: number;
+}
+
+export class AggregateResponseDto {
+  @ApiProperty()
+  uploadId: string;
+
+  @ApiProperty({ type: [String], example: ['country'] })
+  groupBy: string[];
+
+  @ApiProperty({
+    description: 'Metrics in request order, with their names in the rows',
+    example: [{ name: 'revenue', function: 'sum', column: 'amount' }],
+  })
+  metrics: Array<{
+    name: string;
+    function: AggregateFunction;
+    column?: string;
+  }>;
+
+  @ApiProperty({
+    description:
+      'One row per group: the group-by values (null for empty values) and the metrics by name',
+    example: [{ country: 'DE', revenue: 1520.5 }],
+  })
+  rows: Array<Record<string, string | number | null>>;
+
+  @ApiProperty({ description: 'Number of groups matching the request' })
+  totalGroups: number;
+
+  @ApiProperty({
+    description: 'true if only the first limit groups were returned',
+  })
+  truncated: boolean;
+}
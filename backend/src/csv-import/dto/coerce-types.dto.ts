@@ -0,0 +1,33 @@
+/**
+ * coerce-types.dto.ts - Typed Storage Request DTO
+ *
+ * Whether an upload's values are stored as typed JSON or as text, and
+ * optionally the type to use for some columns instead of the inferred one.
+ * The types map is checked against the upload's columns by TypeInferenceService.
+ */
+
+import { IsBoolean, IsObject, IsOptional } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  INFERRED_TYPES,
+  InferredType,
+} from '../interfaces/column-schema.interface';
+
+export class CoerceTypesDto {
+  @ApiPropertyOptional({
+    description:
+      'true to store values converted to their column types, false to store them as text again (default true)',
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  typed?: boolean;
+
+  @ApiPropertyOptional({
+    description: `Column name -> type to use instead of the inferred one (${INFERRED_TYPES.join(', ')})`,
+    example: { zip: 'string', amount: 'number' },
+  })
+  @IsOptional()
+  @IsObject()
+  types?: Record<string, InferredType>;
+}
@@ -0,0 +1,14 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Matches } from 'class-validator';
+
+export class CompleteUploadSessionDto {
+  @ApiProperty({
+    description:
+      'SHA-256 (hex) over the concatenated binary SHA-256 digests of all chunks, in chunk order',
+    example: '9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08',
+  })
+  @Matches(/^[a-fA-F0-9]{64}$/, {
+    message: 'checksum must be a SHA-256 hex digest',
+  })
+  checksum: string;
+}
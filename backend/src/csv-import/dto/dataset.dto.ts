@@ -0,0 +1,46 @@
+/**
+ * dataset.dto.ts - Dataset DTOs
+ *
+ * Requests to rename a dataset or change its current version, and datasets
+ * as returned by the API.
+ */
+
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { Dataset } from '../interfaces/dataset.interface';
+import { UploadRecord } from '../interfaces/upload-record.interface';
+
+export class UpdateDatasetDto {
+  @ApiProperty({ example: 'Customer list' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  name: string;
+}
+
+export class SetCurrentVersionDto {
+  @ApiProperty({
+    description:
+      'Successful upload of the dataset to make the current version (an older one rolls back)',
+    example: '1234567890-abc123',
+  })
+  @IsString()
+  @IsNotEmpty()
+  uploadId: string;
+}
+
+export class DatasetListResponseDto {
+  datasets: Dataset[]; // Most recently changed first, with their current upload
+  total: number;
+  // Pagination metadata
+  page: number;
+  limit: number;
+  totalPages: number;
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+}
+
+export class DatasetResponseDto {
+  dataset: Dataset;
+  versions: UploadRecord[]; // Every version of the dataset, newest first
+}
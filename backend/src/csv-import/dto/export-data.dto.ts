@@ -0,0 +1,123 @@
+/**
+ * export-data.dto.ts - Export Request DTO
+ *
+ * Which upload to export, the file format to download it in, and optionally
+ * the filters, sort order and columns to narrow the export down to.
+ */
+
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  EXPORT_FORMATS,
+  ExportFormat,
+} from '../interfaces/export-format.interface';
+import {
+  FORMULA_SANITIZATION_MODES,
+  FormulaSanitization,
+} from '../../common/utils/formula-injection.util';
+
+export class ExportSortDto {
+  @ApiProperty({ description: 'Column to sort by', example: 'lastName' })
+  @IsString()
+  @IsNotEmpty()
+  column: string;
+
+  @ApiProperty({ enum: ['asc', 'desc'] })
+  @IsIn(['asc', 'desc'])
+  direction: 'asc' | 'desc';
+}
+
+export class ExportColumnDto {
+  @ApiProperty({ description: 'Column to export', example: 'email' })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiPropertyOptional({
+    description: 'Header in the export (default: the column name)',
+    example: 'E-mail address',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  as?: string;
+}
+
+export class ExportDataDto {
+  @ApiProperty({ description: 'Upload record ID' })
+  @IsString()
+  @IsNotEmpty()
+  uploadId: string;
+
+  @ApiPropertyOptional({
+    description: 'File format of the export',
+    enum: EXPORT_FORMATS,
+    default: 'csv',
+  })
+  @IsOptional()
+  @IsIn(EXPORT_FORMATS)
+  format?: ExportFormat;
+
+  @ApiPropertyOptional({
+    description:
+      'CSV only: how values that spreadsheets would run as formulas (starting with =, +, -, @, tab or CR) are written. Defaults to EXPORT_FORMULA_SANITIZATION (apostrophe)',
+    enum: FORMULA_SANITIZATION_MODES,
+  })
+  @IsOptional()
+  @IsIn(FORMULA_SANITIZATION_MODES)
+  sanitize?: FormulaSanitization;
+
+  @ApiPropertyOptional({
+    description:
+      'Only export rows containing this text (case-insensitive) in any exported column',
+    example: 'berlin',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  filter?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Only export rows matching this filter expression (same syntax as the filter parameter of GET /csv-import/history/:id/rows)',
+    example: 'age > 30 AND country IN ("DE", "FR")',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  query?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Sort keys, applied in order (as on screen: integer and number columns sort numerically, empty values last)',
+    type: [ExportSortDto],
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ExportSortDto)
+  sort?: ExportSortDto[];
+
+  @ApiPropertyOptional({
+    description:
+      'Columns to export, in order, optionally renamed (default: all columns)',
+    type: [ExportColumnDto],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => ExportColumnDto)
+  columns?: ExportColumnDto[];
+}
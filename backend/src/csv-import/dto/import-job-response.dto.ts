@@ -0,0 +1,29 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { UploadStatus } from '../interfaces/upload-status.enum';
+import { UploadPhase } from '../interfaces/upload-phase.enum';
+
+export class ImportJobResponseDto {
+  @ApiProperty({
+    description: 'Whether the upload was accepted',
+    example: true,
+  })
+  success: boolean;
+
+  @ApiProperty({
+    description: 'Status message',
+    example: 'CSV file "customers.csv" uploaded and queued for import',
+  })
+  message: string;
+
+  @ApiProperty({ description: 'Upload record ID (use it to poll progress)' })
+  uploadId: string;
+
+  @ApiProperty({ description: 'Background import job ID' })
+  jobId: string;
+
+  @ApiProperty({ enum: UploadStatus, example: UploadStatus.PROCESSING })
+  status: UploadStatus;
+
+  @ApiProperty({ enum: UploadPhase, example: UploadPhase.QUEUED })
+  phase: UploadPhase;
+}
@@ -0,0 +1,224 @@
+/**
+ * import-template.dto.ts - Import Template DTOs
+ *
+ * Requests to create, update or match import templates, and templates as
+ * returned by the API. Dialect overrides and validation rules are checked by
+ * CsvDialectService and ValidationRulesService, which explain what is wrong.
+ */
+
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CreateImportTemplateDto {
+  @ApiProperty({ example: 'Monthly CRM export' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  name: string;
+
+  @ApiPropertyOptional({ example: 'Customer list exported from the CRM' })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Column headers of the files this template is for (before mapping); used to suggest the template',
+    example: ['Customer ID', 'E-mail', 'Country'],
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(1000)
+  @IsString({ each: true })
+  expectedHeaders?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Mapping of source column names to target column names',
+    example: { 'Customer ID': 'customerId', 'E-mail': 'email' },
+  })
+  @IsOptional()
+  @IsObject()
+  columnMapping?: Record<string, string>;
+
+  @ApiPropertyOptional({ description: 'Enable duplicate detection' })
+  @IsOptional()
+  @IsBoolean()
+  detectDuplicates?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Columns to check for duplicates (all columns if empty)',
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  duplicateColumns?: string[];
+
+  @ApiPropertyOptional({ enum: ['skip', 'keep', 'mark'] })
+  @IsOptional()
+  @IsIn(['skip', 'keep', 'mark'])
+  handleDuplicates?: 'skip' | 'keep' | 'mark';
+
+  @ApiPropertyOptional({
+    description:
+      'Validation rules (see POST /csv-import/validation-schemas for the format)',
+    example: { columns: [{ column: 'email', required: true, type: 'email' }] },
+  })
+  @IsOptional()
+  @IsObject()
+  validationRules?: Record<string, any>;
+
+  @ApiPropertyOptional({
+    description:
+      'Dialect overrides for CSV/TSV files (delimiter, quote, lineEnding, encoding)',
+    example: { delimiter: ';' },
+  })
+  @IsOptional()
+  @IsObject()
+  dialect?: Record<string, string>;
+}
+
+export class UpdateImportTemplateDto {
+  @ApiPropertyOptional({ example: 'Monthly CRM export' })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  name?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiPropertyOptional({ type: [String] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(1000)
+  @IsString({ each: true })
+  expectedHeaders?: string[];
+
+  @ApiPropertyOptional({ description: 'Replaces the column mapping' })
+  @IsOptional()
+  @IsObject()
+  columnMapping?: Record<string, string>;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsBoolean()
+  detectDuplicates?: boolean;
+
+  @ApiPropertyOptional({ type: [String] })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  duplicateColumns?: string[];
+
+  @ApiPropertyOptional({ enum: ['skip', 'keep', 'mark'] })
+  @IsOptional()
+  @IsIn(['skip', 'keep', 'mark'])
+  handleDuplicates?: 'skip' | 'keep' | 'mark';
+
+  @ApiPropertyOptional({
+    description: 'Replaces the validation rules ({} removes them)',
+  })
+  @IsOptional()
+  @IsObject()
+  validationRules?: Record<string, any>;
+
+  @ApiPropertyOptional({
+    description:
+      'Replaces the dialect overrides ({} detects the dialect again)',
+  })
+  @IsOptional()
+  @IsObject()
+  dialect?: Record<string, string>;
+}
+
+export class SuggestImportTemplatesDto {
+  @ApiProperty({
+    description: 'Column headers of the file about to be uploaded',
+    example: ['Customer ID', 'E-mail', 'Country'],
+    type: [String],
+  })
+  @IsArray()
+  @ArrayMaxSize(1000)
+  @IsString({ each: true })
+  headers: string[];
+}
+
+export class ImportTemplateResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty({ example: 'Monthly CRM export' })
+  name: string;
+
+  @ApiPropertyOptional()
+  description?: string;
+
+  @ApiProperty({ type: [String] })
+  expectedHeaders: string[];
+
+  @ApiPropertyOptional()
+  columnMapping?: Record<string, string>;
+
+  @ApiProperty()
+  detectDuplicates: boolean;
+
+  @ApiPropertyOptional({ type: [String] })
+  duplicateColumns?: string[];
+
+  @ApiProperty({ enum: ['skip', 'keep', 'mark'] })
+  handleDuplicates: 'skip' | 'keep' | 'mark';
+
+  @ApiPropertyOptional({ description: 'Validation rules' })
+  validation?: Record<string, any>;
+
+  @ApiPropertyOptional({ description: 'Dialect overrides' })
+  dialect?: Record<string, string>;
+
+  @ApiPropertyOptional({ description: 'User who created the template' })
+  createdBy?: string;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiProperty()
+  updatedAt: Date;
+}
+
+export class ImportTemplateSuggestionDto {
+  @ApiProperty({ type: ImportTemplateResponseDto })
+  template: ImportTemplateResponseDto;
+
+  @ApiProperty({
+    description:
+      'Share of headers the file and template have in common (1 = same headers)',
+    example: 0.9,
+  })
+  score: number;
+
+  @ApiProperty({
+    description: 'Expected headers the file does not have',
+    type: [String],
+  })
+  missingHeaders: string[];
+
+  @ApiProperty({
+    description: 'Headers of the file the template does not expect',
+    type: [String],
+  })
+  extraHeaders: string[];
+}
@@ -0,0 +1,134 @@
+/**
+ * initiate-upload-session.dto.ts - Initiate Chunked Upload Request DTO
+ *
+ * Describes the file about to be uploaded in chunks and the parse options
+ * to use once it has been assembled (dialect for CSV files, sheet and header
+ * row for Excel workbooks, validation rules, import template and typed storage
+ * for every format).
+ */
+
+import {
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class InitiateUploadSessionDto {
+  @ApiProperty({ description: 'Original file name', example: 'customers.csv' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  fileName: string;
+
+  @ApiProperty({ description: 'Total file size in bytes', example: 104857600 })
+  @IsInt()
+  @Min(1, {
+    message: 'File is empty. Please upload a valid CSV or Excel file with data',
+  })
+  fileSize: number;
+
+  @ApiPropertyOptional({ description: 'Enable duplicate detection' })
+  @IsOptional()
+  @IsBoolean()
+  detectDuplicates?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Columns to check for duplicates (all columns if empty)',
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  duplicateColumns?: string[];
+
+  @ApiPropertyOptional({ enum: ['skip', 'keep', 'mark'] })
+  @IsOptional()
+  @IsIn(['skip', 'keep', 'mark'])
+  handleDuplicates?: 'skip' | 'keep' | 'mark';
+
+  @ApiPropertyOptional({
+    description: 'Mapping of source column names to target column names',
+    example: { oldName: 'newName' },
+  })
+  @IsOptional()
+  @IsObject()
+  columnMapping?: Record<string, string>;
+
+  @ApiPropertyOptional({
+    description:
+      'Dialect overrides (delimiter, quote, lineEnding, encoding); anything left out is detected from the file',
+    example: { delimiter: ';', encoding: 'windows-1252' },
+  })
+  @IsOptional()
+  @IsObject()
+  dialect?: Record<string, string>;
+
+  @ApiPropertyOptional({
+    description: 'Excel only: worksheet to import (first sheet if omitted)',
+    example: 'Customers',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  sheetName?: string;
+
+  @ApiPropertyOptional({
+    description: 'Excel only: 1-based row holding the column headers',
+    example: 1,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  headerRow?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Validation rules to check rows against (see POST /csv-import/validation-schemas for the format)',
+    example: {
+      severity: 'reject_row',
+      columns: [{ column: 'email', required: true, type: 'email' }],
+    },
+  })
+  @IsOptional()
+  @IsObject()
+  validationRules?: Record<string, any>;
+
+  @ApiPropertyOptional({
+    description:
+      'ID of a saved validation schema to check rows against (instead of validationRules)',
+  })
+  @IsOptional()
+  @IsString()
+  validationSchemaId?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'ID of an import template; its settings apply unless the same option is also given here',
+  })
+  @IsOptional()
+  @IsString()
+  templateId?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Store values converted to their inferred column types (numbers, booleans, ISO dates) instead of text',
+  })
+  @IsOptional()
+  @IsBoolean()
+  coerceTypes?: boolean;
+  @ApiPropertyOptional({
+    description:
+      'ID of a dataset; the upload becomes its next version (a new dataset is created if not given)',
+  })
+  @IsOptional()
+  @IsString()
+  datasetId?: string;
+}
@@ -0,0 +1,108 @@
+/**
+ * share-link.dto.ts - Share Link DTOs
+ *
+ * The request to create a share link for an upload, share links as listed
+ * for the upload's workspace, and the upload as seen through a share link.
+ */
+
+import {
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  MinLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { MAX_SHARE_LINK_TTL_HOURS } from '../../common/config/share.config';
+import { ColumnSchema } from '../interfaces/column-schema.interface';
+
+export class CreateShareLinkDto {
+  @ApiPropertyOptional({
+    description: `Hours until the link expires (default: 168, max: ${MAX_SHARE_LINK_TTL_HOURS})`,
+    example: 72,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(MAX_SHARE_LINK_TTL_HOURS)
+  expiresInHours?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Password the recipient has to enter (sent as the X-Share-Password header)',
+  })
+  @IsOptional()
+  @IsString()
+  @MinLength(4)
+  @MaxLength(128)
+  password?: string;
+}
+
+export class ShareLinkResponseDto {
+  @ApiProperty({
+    description: 'Share link (token) ID, as recorded in the audit log',
+  })
+  id: string;
+
+  @ApiProperty()
+  uploadId: string;
+
+  @ApiProperty({ enum: ['active', 'expired', 'revoked'] })
+  status: 'active' | 'expired' | 'revoked';
+
+  @ApiProperty()
+  passwordProtected: boolean;
+
+  @ApiProperty()
+  expiresAt: Date;
+
+  @ApiPropertyOptional()
+  revokedAt?: Date;
+
+  @ApiPropertyOptional({
+    description: 'Email of the user who created the link',
+  })
+  createdBy?: string;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiProperty({ description: 'Number of accesses through the link' })
+  accessCount: number;
+
+  @ApiPropertyOptional()
+  lastAccessedAt?: Date;
+}
+
+export class CreatedShareLinkResponseDto extends ShareLinkResponseDto {
+  @ApiProperty({
+    description:
+      'Signed token for /shared/:token; only returned when the link is created',
+  })
+  token: string;
+}
+
+export class SharedUploadResponseDto {
+  @ApiProperty()
+  fileName: string;
+
+  @ApiPropertyOptional({ example: 'csv' })
+  format?: string;
+
+  @ApiProperty()
+  totalRows: number;
+
+  @ApiProperty({ description: 'Columns of the upload, in file order' })
+  columns: string[];
+
+  @ApiPropertyOptional()
+  columnSchema?: ColumnSchema[];
+
+  @ApiProperty()
+  uploadedAt: Date;
+
+  @ApiProperty({ description: 'The link stops working after this time' })
+  expiresAt: Date;
+}
@@ -0,0 +1,102 @@
+/**
+ * upload-diff.dto.ts - Upload Diff DTOs
+ *
+ * Which two uploads to compare and the key columns that match their rows,
+ * and the page of differing rows returned. Key columns are checked against
+ * both uploads by UploadDiffService.
+ */
+
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsArray,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  DIFF_CHANGE_TYPES,
+  DiffChangeType,
+  UploadDiffRow,
+  UploadDiffSummary,
+} from '../interfaces/upload-diff.interface';
+
+export class UploadDiffRequestDto {
+  @ApiProperty({
+    description: 'ID of the base (earlier) upload',
+    example: '1234567890-abc123',
+  })
+  @IsString()
+  @IsNotEmpty()
+  baseId: string;
+
+  @ApiProperty({
+    description: 'ID of the upload compared with the base upload',
+    example: '1234567899-def456',
+  })
+  @IsString()
+  @IsNotEmpty()
+  compareId: string;
+
+  @ApiProperty({
+    description:
+      'Columns whose values identify a row in both uploads (together they must be unique in each upload)',
+    example: ['orderId'],
+    type: [String],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(5)
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  keyColumns: string[];
+
+  @ApiPropertyOptional({
+    description: 'Only rows with this kind of change (default: all)',
+    enum: DIFF_CHANGE_TYPES,
+  })
+  @IsOptional()
+  @IsIn(DIFF_CHANGE_TYPES)
+  type?: DiffChangeType;
+}
+
+export class UploadDiffPageRequestDto extends UploadDiffRequestDto {
+  @ApiPropertyOptional({ description: 'Page number', default: 1 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @ApiPropertyOptional({
+    description: 'Rows per page (default: 100, max: 1000)',
+    default: 100,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(1000)
+  limit?: number;
+}
+
+export class UploadDiffResponseDto {
+  base: { id: string; fileName: string; uploadedAt: Date };
+  compare: { id: string; fileName: string; uploadedAt: Date };
+  keyColumns: string[];
+  columns: string[]; // Columns in both uploads, in the order of the base upload
+  addedColumns: string[]; // Columns only in the compared upload (not compared)
+  removedColumns: string[]; // Columns only in the base upload (not compared)
+  summary: UploadDiffSummary; // Counts of all rows, whatever the type filter
+  rows: UploadDiffRow[];
+  total: number; // Rows matching the type filter
+  // Pagination metadata
+  page: number;
+  limit: number;
+  totalPages: number;
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+}
@@ -0,0 +1,18 @@
+import {
+  QualityScore,
+  UploadIssue,
+} from '../interfaces/upload-issue.interface';
+
+export class UploadIssuesResponseDto {
+  uploadId: string;
+  fileName: string;
+  quality?: QualityScore; // Not set for failed uploads or uploads made before scoring existed
+  issues: UploadIssue[]; // In file order
+  total: number; // Issues matching the filters
+  // Pagination metadata
+  page: number;
+  limit: number;
+  totalPages: number;
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+}
@@ -0,0 +1,9 @@
+import { ColumnProfile } from '../interfaces/column-profile.interface';
+
+export class UploadProfileResponseDto {
+  uploadId: string;
+  fileName: string;
+  rowCount: number; // Rows the profile was computed from
+  columns: ColumnProfile[]; // In column order
+  computedAt: Date;
+}
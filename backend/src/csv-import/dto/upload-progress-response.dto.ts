@@ -0,0 +1,29 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { UploadStatus } from '../interfaces/upload-status.enum';
+import { UploadPhase } from '../interfaces/upload-phase.enum';
+
+export class UploadProgressResponseDto {
+  @ApiProperty({ description: 'Upload record ID' })
+  uploadId: string;
+
+  @ApiProperty({ enum: UploadStatus, example: UploadStatus.PROCESSING })
+  status: UploadStatus;
+
+  @ApiProperty({ enum: UploadPhase, example: UploadPhase.PARSING })
+  phase: UploadPhase;
+
+  @ApiProperty({ description: 'Data rows parsed so far', example: 12000 })
+  rowsProcessed: number;
+
+  @ApiProperty({ description: 'Estimated completion (0-100)', example: 42 })
+  progressPercent: number;
+
+  @ApiProperty({
+    description: 'Total rows imported (set once the import succeeds)',
+    required: false,
+  })
+  totalRows?: number;
+
+  @ApiProperty({ description: 'Status or error message', required: false })
+  message?: string;
+}
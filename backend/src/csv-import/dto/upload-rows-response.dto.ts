@@ -0,0 +1,18 @@
+import { UploadRow } from '../interfaces/upload-record.interface';
+import { ColumnSchema } from '../interfaces/column-schema.interface';
+
+export class UploadRowsResponseDto {
+  uploadId: string;
+  fileName: string;
+  columns: string[]; // All columns of the upload, in file order
+  columnSchema?: ColumnSchema[];
+  typed: boolean;
+  rows: UploadRow[];
+  total: number; // Rows matching the search and filters
+  // Pagination metadata
+  page: number;
+  limit: number;
+  totalPages: number;
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+}
@@ -0,0 +1,36 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { UploadSessionStatus } from '../entities/upload-session.entity';
+
+export class UploadSessionResponseDto {
+  @ApiProperty({ description: 'Upload session ID' })
+  sessionId: string;
+
+  @ApiProperty({ example: 'customers.csv' })
+  fileName: string;
+
+  @ApiProperty({ description: 'Total file size in bytes' })
+  fileSize: number;
+
+  @ApiProperty({ description: 'Size of every chunk except the last, in bytes' })
+  chunkSize: number;
+
+  @ApiProperty({ description: 'Number of chunks the file is split into' })
+  totalChunks: number;
+
+  @ApiProperty({
+    description: 'Indexes of the chunks received so far',
+    type: [Number],
+  })
+  receivedChunks: number[];
+
+  @ApiProperty({ enum: UploadSessionStatus })
+  status: UploadSessionStatus;
+
+  @ApiPropertyOptional({ description: 'Upload record ID once completed' })
+  uploadId?: string;
+
+  @ApiProperty({
+    description: 'When the session expires if no more chunks arrive',
+  })
+  expiresAt: Date;
+}
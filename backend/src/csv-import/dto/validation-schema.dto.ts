@@ -0,0 +1,98 @@
+/**
+ * validation-schema.dto.ts - Saved Validation Schema DTOs
+ *
+ * Requests to create or update a saved validation schema, and the schema as
+ * returned by the API. The rules themselves are checked by
+ * ValidationRulesService.parseSchema, which explains exactly what is wrong.
+ */
+
+import {
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+const SCHEMA_EXAMPLE = {
+  severity: 'reject_row',
+  columns: [
+    { column: 'email', required: true, type: 'email', unique: true },
+    { column: 'age', type: 'integer', min: 0, max: 130, severity: 'warning' },
+    { column: 'country', enum: ['US', 'CA', 'DE'] },
+  ],
+  rules: [
+    {
+      name: 'US addresses need a state',
+      when: [{ column: 'country', operator: 'equals', value: 'US' }],
+      then: [{ column: 'state', operator: 'notEmpty' }],
+    },
+  ],
+};
+
+export class CreateValidationSchemaDto {
+  @ApiProperty({ example: 'Customer list' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  name: string;
+
+  @ApiPropertyOptional({ example: 'Rules for the monthly CRM export' })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiProperty({
+    description:
+      'Validation rules: columns (per-column rules), rules (cross-field rules) and the default severity',
+    example: SCHEMA_EXAMPLE,
+  })
+  @IsObject()
+  schema: Record<string, any>;
+}
+
+export class UpdateValidationSchemaDto {
+  @ApiPropertyOptional({ example: 'Customer list' })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  name?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiPropertyOptional({
+    description: 'Replaces all rules of the schema',
+    example: SCHEMA_EXAMPLE,
+  })
+  @IsOptional()
+  @IsObject()
+  schema?: Record<string, any>;
+}
+
+export class ValidationSchemaResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty({ example: 'Customer list' })
+  name: string;
+
+  @ApiPropertyOptional()
+  description?: string;
+
+  @ApiProperty({ example: SCHEMA_EXAMPLE })
+  schema: Record<string, any>;
+
+  @ApiPropertyOptional({ description: 'User who created the schema' })
+  createdBy?: string;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiProperty()
+  updatedAt: Date;
+}
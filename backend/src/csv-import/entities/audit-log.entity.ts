@@ -26,6 +26,15 @@ export enum AuditAction {
   VIEW_DATA = 'view_data',
   DOWNLOAD_ORIGINAL = 'download_original',
   BULK_DELETE = 'bulk_delete',
+  COERCE_TYPES = 'coerce_types',
+  AGGREGATE = 'aggregate',
+  EXPORT_ISSUES = 'export_issues',
+  DIFF = 'diff',
+  EXPORT_DIFF = 'export_diff',
+  PROMOTE_VERSION = 'promote_version',
+  SHARE_CREATE = 'share_create',
+  SHARE_REVOKE = 'share_revoke',
+  SHARE_ACCESS = 'share_access', // Access through a share link (details.shareLinkId)
 }
 
 /**
@@ -35,6 +44,7 @@ export enum AuditAction {
 @Entity('audit_logs')
 @Index(['action', 'createdAt']) // Index for faster queries by action and date
 @Index(['uploadId']) // Index for faster queries by upload ID
+@Index(['workspaceId', 'createdAt']) // Index for faster queries by workspace and date
 export class AuditLogEntity {
   /**
    * Primary Key - Auto-generated UUID
@@ -64,6 +74,16 @@ export class AuditLogEntity {
   @Index(['userId', 'createdAt']) // Index for faster queries by user and date
   userId?: string;
 
+  /**
+   * Workspace ID Column
+   * References the workspace the action was performed in
+   * nullable: true - Entries made before workspaces existed are moved on startup
+   * into their user's personal workspace
+   * Type: VARCHAR(36) - UUID string
+   */
+  @Column({ type: 'varchar', length: 36, nullable: true })
+  workspaceId?: string;
+
   /**
    * Upload ID Column
    * References the upload record this action relates to
@@ -134,5 +154,3 @@ export class AuditLogEntity {
   @CreateDateColumn()
   createdAt: Date;
 }
-
-
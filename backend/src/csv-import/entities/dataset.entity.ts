@@ -0,0 +1,94 @@
+/**
+ * dataset.entity.ts - Dataset Database Entity
+ *
+ * This file defines the database table structure for datasets.
+ * TypeORM uses this class to create and manage the 'datasets' table.
+ *
+ * A dataset groups the uploads of the same data over time: every upload is a
+ * numbered version of one dataset, and one successful version is the current
+ * one (the version the data is read from unless another is picked).
+ */
+
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+/**
+ * @Entity('datasets') - Maps this class to 'datasets' table
+ * TypeORM will create this table automatically when synchronize is enabled
+ */
+@Entity('datasets')
+export class DatasetEntity {
+  /**
+   * Primary Key - Auto-generated UUID
+   */
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /**
+   * Name Column
+   * Shown in the upload history; taken from the first file's name
+   * Type: VARCHAR(255)
+   */
+  @Column({ type: 'varchar', length: 255 })
+  name: string;
+
+  /**
+   * User ID Column
+   * References the user who created the dataset (the uploader of its first version)
+   * nullable: true - Datasets made before ownership existed are assigned on startup
+   * Type: VARCHAR(36) - UUID string
+   */
+  @Column({ type: 'varchar', length: 36, nullable: true })
+  @Index()
+  userId?: string;
+
+  /**
+   * Workspace ID Column
+   * References the workspace the dataset (and all its versions) belongs to
+   * nullable: true - Datasets made before workspaces existed are assigned on startup
+   * Type: VARCHAR(36) - UUID string
+   */
+  @Column({ type: 'varchar', length: 36, nullable: true })
+  @Index()
+  workspaceId?: string;
+
+  /**
+   * Current Upload ID Column
+   * Upload (a successful version of this dataset) that is the current version
+   * nullable: true - Not set until a version has been imported successfully
+   * Type: VARCHAR(36) - UUID string
+   */
+  @Column({ type: 'varchar', length: 36, nullable: true })
+  currentUploadId?: string;
+
+  /**
+   * Latest Version Column
+   * Highest version number handed out so far; the next upload gets this + 1.
+   * Numbers of deleted versions are not reused.
+   * Type: INT
+   */
+  @Column({ type: 'int', default: 0 })
+  latestVersion: number;
+
+  /**
+   * Created At Column
+   * Automatically set when the dataset is created (with its first version)
+   * Type: TIMESTAMP
+   */
+  @CreateDateColumn()
+  createdAt: Date;
+
+  /**
+   * Updated At Column
+   * Automatically set when a version is added or the current version changes
+   * Type: TIMESTAMP
+   */
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,124 @@
+/**
+ * import-job.entity.ts - Import Job Database Entity
+ *
+ * This file defines the database table structure for background import jobs.
+ * TypeORM uses this class to create and manage the 'import_jobs' table.
+ *
+ * Uploads are parsed outside the HTTP request. When IMPORT_JOB_STORE is 'database'
+ * (the default), each job is persisted here so queued or interrupted imports can be
+ * picked up again after a restart.
+ */
+
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+/**
+ * Import Job Status
+ * Lifecycle of a job in the queue
+ */
+export enum ImportJobStatus {
+  QUEUED = 'queued',
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+}
+
+/**
+ * @Entity('import_jobs') - Maps this class to 'import_jobs' table
+ * TypeORM will create this table automatically when synchronize is enabled
+ */
+@Entity('import_jobs')
+@Index(['status', 'createdAt']) // Index for picking up pending jobs in order
+export class ImportJobEntity {
+  /**
+   * Primary Key - Auto-generated UUID
+   */
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /**
+   * Upload ID Column
+   * References the upload record this job imports
+   * Type: VARCHAR(36) - UUID string
+   */
+  @Column({ type: 'varchar', length: 36 })
+  @Index()
+  uploadId: string;
+
+  /**
+   * Status Column
+   * Current state of the job
+   * Type: ENUM - Only allows specific values
+   * Default: QUEUED (when job is first created)
+   */
+  @Column({
+    type: 'enum',
+    enum: ImportJobStatus,
+    default: ImportJobStatus.QUEUED,
+  })
+  status: ImportJobStatus;
+
+  /**
+   * Options Column
+   * Parse options the upload was submitted with (duplicate handling, column mapping)
+   * Type: JSONB
+   */
+  @Column({ type: 'jsonb', nullable: true })
+  options?: Record<string, any>;
+
+  /**
+   * Context Column
+   * Request details needed for audit logging once the job finishes (user ID, IP, user agent)
+   * Type: JSONB
+   */
+  @Column({ type: 'jsonb', nullable: true })
+  context?: Record<string, any>;
+
+  /**
+   * Attempts Column
+   * How many times the job has been started (incremented on each run)
+   * Type: INT
+   */
+  @Column({ type: 'int', default: 0 })
+  attempts: number;
+
+  /**
+   * Error Message Column
+   * Reason the job failed
+   * nullable: true - Only set for failed jobs
+   * Type: TEXT
+   */
+  @Column({ type: 'text', nullable: true })
+  errorMessage?: string;
+
+  /**
+   * Created At Column
+   * Automatically set when the job is queued
+   * Type: TIMESTAMP
+   */
+  @CreateDateColumn()
+  createdAt: Date;
+
+  /**
+   * Started At Column
+   * Set when a worker picks up the job
+   * nullable: true - Not set while queued
+   * Type: TIMESTAMP
+   */
+  @Column({ type: 'timestamp', nullable: true })
+  startedAt?: Date;
+
+  /**
+   * Finished At Column
+   * Set when the job completes or fails
+   * nullable: true - Not set while queued or running
+   * Type: TIMESTAMP
+   */
+  @Column({ type: 'timestamp', nullable: true })
+  finishedAt?: Date;
+}
@@ -0,0 +1,146 @@
+/**
+ * import-template.entity.ts - Import Template Database Entity
+ *
+ * This file defines the database table structure for import templates.
+ * TypeORM uses this class to create and manage the 'import_templates' table.
+ *
+ * A template stores the import settings of a recurring file (column mapping,
+ * duplicate handling, validation rules, dialect) together with the headers
+ * such files have, so the settings can be reused and suggested automatically.
+ */
+
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import { CsvDialect } from '../interfaces/csv-dialect.interface';
+import { ValidationSchema } from '../interfaces/validation-rule.interface';
+
+/**
+ * @Entity('import_templates') - Maps this class to 'import_templates' table
+ * TypeORM will create this table automatically when synchronize is enabled
+ */
+@Entity('import_templates')
+export class ImportTemplateEntity {
+  /**
+   * Primary Key - Auto-generated UUID
+   */
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /**
+   * Name Column
+   * Shown when picking a template for an upload
+   * Type: VARCHAR(255)
+   */
+  @Column({ type: 'varchar', length: 255 })
+  name: string;
+
+  /**
+   * Description Column
+   * What kind of file the template is for
+   * nullable: true - Optional
+   * Type: TEXT
+   */
+  @Column({ type: 'text', nullable: true })
+  description?: string;
+
+  /**
+   * Expected Headers Column
+   * Column headers of the files this template is for (before column mapping)
+   * Used to suggest the template when a file with the same headers is previewed.
+   * Type: JSONB - Array of header names
+   */
+  @Column({ type: 'jsonb' })
+  expectedHeaders: string[];
+
+  /**
+   * Column Mapping Column
+   * Source column name -> target column name
+   * nullable: true - Columns keep their names
+   * Type: JSONB
+   */
+  @Column({ type: 'jsonb', nullable: true })
+  columnMapping?: Record<string, string>;
+
+  /**
+   * Detect Duplicates Column
+   * Whether uploads using this template check for duplicate rows
+   */
+  @Column({ type: 'boolean', default: false })
+  detectDuplicates: boolean;
+
+  /**
+   * Duplicate Columns Column
+   * Columns compared when detecting duplicates
+   * nullable: true - All columns are compared
+   * Type: JSONB - Array of column names
+   */
+  @Column({ type: 'jsonb', nullable: true })
+  duplicateColumns?: string[];
+
+  /**
+   * Handle Duplicates Column
+   * What to do with duplicates: skip, keep or mark
+   */
+  @Column({ type: 'varchar', length: 10, default: 'mark' })
+  handleDuplicates: 'skip' | 'keep' | 'mark';
+
+  /**
+   * Validation Column
+   * Validation rules rows are checked against (see validation-rule.interface.ts)
+   * nullable: true - Rows are not validated
+   * Type: JSONB
+   */
+  @Column({ type: 'jsonb', nullable: true })
+  validation?: ValidationSchema;
+
+  /**
+   * Dialect Column
+   * Dialect overrides for CSV/TSV files (delimiter, quote, line ending, encoding)
+   * nullable: true - The dialect is detected from each file
+   * Type: JSONB
+   */
+  @Column({ type: 'jsonb', nullable: true })
+  dialect?: Partial<CsvDialect>;
+
+  /**
+   * Created By Column
+   * The user who created the template
+   * nullable: true - Kept consistent with audit logs for unauthenticated (legacy) calls
+   * Type: VARCHAR(36) - UUID string
+   */
+  @Column({ type: 'varchar', length: 36, nullable: true })
+  createdBy?: string;
+
+  /**
+   * Workspace ID Column
+   * References the workspace the template belongs to; its members can use it
+   * nullable: true - Templates made before workspaces existed are moved on startup
+   * into their creator's personal workspace
+   * Type: VARCHAR(36) - UUID string
+   */
+  @Column({ type: 'varchar', length: 36, nullable: true })
+  @Index()
+  workspaceId?: string;
+
+  /**
+   * Created At Column
+   * Automatically set when the template is saved for the first time
+   * Type: TIMESTAMP
+   */
+  @CreateDateColumn()
+  createdAt: Date;
+
+  /**
+   * Updated At Column
+   * Automatically updated whenever the template changes
+   * Type: TIMESTAMP
+   */
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,108 @@
+/**
+ * share-link.entity.ts - Share Link Database Entity
+ *
+ * This file defines the database table structure for share links.
+ * TypeORM uses this class to create and manage the 'share_links' table.
+ *
+ * A share link gives anyone with its token read-only access to one upload
+ * (its rows and exports) without logging in, until it expires or is revoked.
+ * The token itself is not stored; it is the link ID signed by ShareLinkService.
+ */
+
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+/**
+ * @Entity('share_links') - Maps this class to 'share_links' table
+ * TypeORM will create this table automatically when synchronize is enabled
+ */
+@Entity('share_links')
+export class ShareLinkEntity {
+  /**
+   * Primary Key - Auto-generated UUID
+   * Part of the token, and recorded in the audit log for every access
+   */
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /**
+   * Upload ID Column
+   * The upload the link gives access to
+   * Type: VARCHAR(36) - UUID string
+   */
+  @Column({ type: 'varchar', length: 36 })
+  @Index()
+  uploadId: string;
+
+  /**
+   * Workspace ID Column
+   * Workspace of the upload (accesses are logged in it)
+   * Type: VARCHAR(36) - UUID string
+   */
+  @Column({ type: 'varchar', length: 36, nullable: true })
+  workspaceId?: string;
+
+  /**
+   * Created By Column
+   * User who created the link
+   * Type: VARCHAR(36) - UUID string
+   */
+  @Column({ type: 'varchar', length: 36, nullable: true })
+  createdBy?: string;
+
+  /**
+   * Password Hash Column
+   * bcrypt hash of the link's password
+   * nullable: true - Links without a password only need the token
+   * Type: VARCHAR(255)
+   */
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  passwordHash?: string;
+
+  /**
+   * Expires At Column
+   * The link stops working after this time
+   * Type: TIMESTAMP
+   */
+  @Column({ type: 'timestamp' })
+  expiresAt: Date;
+
+  /**
+   * Revoked At Column
+   * When the link was revoked (it stops working at once)
+   * nullable: true - Only set for revoked links
+   * Type: TIMESTAMP
+   */
+  @Column({ type: 'timestamp', nullable: true })
+  revokedAt?: Date;
+
+  /**
+   * Access Count Column
+   * Number of successful accesses through the link
+   * Type: INT
+   */
+  @Column({ type: 'int', default: 0 })
+  accessCount: number;
+
+  /**
+   * Last Accessed At Column
+   * Time of the latest successful access
+   * nullable: true - Not set until the link is first used
+   * Type: TIMESTAMP
+   */
+  @Column({ type: 'timestamp', nullable: true })
+  lastAccessedAt?: Date;
+
+  /**
+   * Created At Column
+   * Automatically set when the link is created
+   * Type: TIMESTAMP
+   */
+  @CreateDateColumn()
+  createdAt: Date;
+}
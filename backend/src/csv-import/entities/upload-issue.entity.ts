@@ -0,0 +1,74 @@
+/**
+ * upload-issue.entity.ts - Upload Issue Database Entity
+ * This file defines the database table structure for the issues of uploads.
+ * TypeORM uses this class to create and manage the 'upload_issues' table.
+ * Each issue found while importing a file (a skipped empty row, a broken
+ * validation rule, a value that does not fit its column type, ...) is stored
+ * as its own record, so issues can be paged, filtered and downloaded.
+ */
+
+import { Entity, Column, PrimaryGeneratedColumn, Index } from 'typeorm';
+import { IssueCode, IssueSeverity } from '../interfaces/upload-issue.interface';
+
+/**
+ * @Entity('upload_issues') - Maps this class to 'upload_issues' table
+ * TypeORM will create this table automatically when synchronize is enabled
+ */
+@Entity('upload_issues')
+@Index(['uploadId', 'row']) // Index for reading issues in file order
+export class UploadIssueEntity {
+  /**
+   * Primary Key - Auto-generated UUID
+   */
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /**
+   * Upload ID Column
+   * References the upload record the issue belongs to
+   * Type: VARCHAR(36) - UUID string
+   */
+  @Column({ type: 'varchar', length: 36 })
+  uploadId: string;
+
+  /**
+   * Row Column
+   * Row number in the source file (the header is row 1 for CSV files)
+   * Type: INTEGER
+   */
+  @Column({ type: 'int' })
+  row: number;
+
+  /**
+   * Column Column
+   * Column the issue is about
+   * nullable: true - Issues about a whole row have none
+   * Type: VARCHAR(255)
+   */
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  column?: string;
+
+  /**
+   * Code Column
+   * What the issue is about (see ISSUE_CODES)
+   * Type: VARCHAR(30)
+   */
+  @Column({ type: 'varchar', length: 30 })
+  code: IssueCode;
+
+  /**
+   * Severity Column
+   * info, warning or error
+   * Type: VARCHAR(10)
+   */
+  @Column({ type: 'varchar', length: 10 })
+  severity: IssueSeverity;
+
+  /**
+   * Message Column
+   * Human-readable description of the issue
+   * Type: TEXT
+   */
+  @Column({ type: 'text' })
+  message: string;
+}
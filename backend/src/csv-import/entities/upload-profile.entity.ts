@@ -0,0 +1,62 @@
+/**
+ * upload-profile.entity.ts - Upload Profile Database Entity
+ * This file defines the database table structure for column profiles.
+ * TypeORM uses this class to create and manage the 'upload_profiles' table.
+ * Each successful upload has one profile, computed after the import and again
+ * when the column types of the upload change.
+ */
+
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+import { ColumnProfile } from '../interfaces/column-profile.interface';
+
+/**
+ * @Entity('upload_profiles') - Maps this class to 'upload_profiles' table
+ * TypeORM will create this table automatically when synchronize is enabled
+ */
+@Entity('upload_profiles')
+@Index(['uploadId'], { unique: true }) // One profile per upload
+export class UploadProfileEntity {
+  /**
+   * Primary Key - Auto-generated UUID
+   */
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /**
+   * Upload ID Column
+   * References the upload record the profile describes
+   * Type: VARCHAR(36) - UUID string
+   */
+  @Column({ type: 'varchar', length: 36 })
+  uploadId: string;
+
+  /**
+   * Row Count Column
+   * Number of rows the profile was computed from
+   * Type: INTEGER
+   */
+  @Column({ type: 'int' })
+  rowCount: number;
+
+  /**
+   * Columns Column
+   * Profile of every column, in column order
+   * Type: JSONB - Array of ColumnProfile
+   */
+  @Column({ type: 'jsonb' })
+  columns: ColumnProfile[];
+
+  /**
+   * Computed At Column
+   * Automatically set when the profile is stored
+   * Type: TIMESTAMP
+   */
+  @CreateDateColumn()
+  computedAt: Date;
+}
@@ -16,14 +16,21 @@ import {
   Column,
   PrimaryGeneratedColumn,
   CreateDateColumn,
+  Index,
 } from 'typeorm';
 import { UploadStatus } from '../interfaces/upload-status.enum';
+import { UploadPhase } from '../interfaces/upload-phase.enum';
+import { CsvDialect } from '../interfaces/csv-dialect.interface';
+import { ColumnSchema, TypedRow } from '../interfaces/column-schema.interface';
+import { QualityScore } from '../interfaces/upload-issue.interface';
 
 /**
  * @Entity('upload_records') - Maps this class to 'upload_records' table
  * TypeORM will create this table automatically when synchronize is enabled
  */
 @Entity('upload_records')
+@Index(['datasetId', 'version']) // Index for listing the versions of a dataset
+@Index(['workspaceId', 'uploadedAt']) // Index for listing a workspace's uploads
 export class UploadRecordEntity {
   /**
    * Primary Key - Auto-generated UUID
@@ -61,6 +68,35 @@ export class UploadRecordEntity {
   })
   status: UploadStatus;
 
+  /**
+   * Phase Column
+   * Finer-grained progress of the background import (queued, parsing, saving, ...)
+   * Type: ENUM - Only allows specific values
+   * Default: QUEUED (when record is first created)
+   */
+  @Column({
+    type: 'enum',
+    enum: UploadPhase,
+    default: UploadPhase.QUEUED,
+  })
+  phase: UploadPhase;
+
+  /**
+   * Rows Processed Column
+   * Number of data rows parsed so far by the background import
+   * Type: INT
+   */
+  @Column({ type: 'int', default: 0 })
+  rowsProcessed: number;
+
+  /**
+   * Progress Percent Column
+   * Estimated completion (0-100), based on how much of the file has been read
+   * Type: SMALLINT
+   */
+  @Column({ type: 'smallint', default: 0 })
+  progressPercent: number;
+
   /**
    * Uploaded At Column
    * Automatically set when record is created
@@ -96,6 +132,141 @@ export class UploadRecordEntity {
   @Column({ type: 'jsonb', nullable: true })
   errors?: string[];
 
+  /**
+   * Error Count Column
+   * How many warnings the import had; errors only keeps the first of them
+   * (all are stored in upload_issues)
+   * nullable: true - Not set for older uploads, whose errors list is complete
+   */
+  @Column({ type: 'int', nullable: true })
+  errorCount?: number;
+
+  /**
+   * Duplicates Column
+   * Rows detected as duplicates during import (row number and the row it duplicates)
+   * nullable: true - Only set when duplicate detection was enabled
+   * Type: JSONB
+   */
+  @Column({ type: 'jsonb', nullable: true })
+  duplicates?: Array<{ row: number; duplicateOf: number }>;
+
+  /**
+   * Duplicate Count Column
+   * How many duplicate rows the import found; duplicates only keeps the first of them
+   * nullable: true - Only set when duplicate detection was enabled (not for older uploads)
+   */
+  @Column({ type: 'int', nullable: true })
+  duplicateCount?: number;
+
+  /**
+   * Format Column
+   * File format the upload was read as (csv, tsv, json, ndjson, xlsx)
+   * nullable: true - Not set for uploads that failed before parsing finished
+   */
+  @Column({ type: 'varchar', length: 20, nullable: true })
+  format?: string;
+
+  /**
+   * Dialect Column
+   * Delimiter, quote character, line ending and encoding the file was read with
+   * (sniffed on import, or chosen by the user). Re-parsing and downloads use it.
+   * nullable: true - Not set for uploads that failed before parsing started
+   * Type: JSONB
+   */
+  @Column({ type: 'jsonb', nullable: true })
+  dialect?: CsvDialect;
+
+  /**
+   * Sheet Name Column
+   * Worksheet the rows were imported from (Excel workbooks only)
+   * nullable: true - Not set for CSV files
+   */
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  sheetName?: string;
+
+  /**
+   * Header Row Column
+   * 1-based row of the worksheet used as the header (Excel workbooks only)
+   * Rows above it (titles, notes) are skipped.
+   * nullable: true - Not set for CSV files
+   */
+  @Column({ type: 'int', nullable: true })
+  headerRow?: number;
+
+  /**
+   * User ID Column
+   * References the user who uploaded the file
+   * nullable: true - Uploads made before ownership existed are assigned on startup
+   * (see UploadHistoryService); uploads that cannot be assigned stay hidden
+   * Type: VARCHAR(36) - UUID string
+   */
+  @Column({ type: 'varchar', length: 36, nullable: true })
+  userId?: string;
+
+  /**
+   * Workspace ID Column
+   * References the workspace the upload belongs to; only its members can see it
+   * nullable: true - Uploads made before workspaces existed are moved on startup into
+   * their uploader's personal workspace (see UploadHistoryService)
+   * Type: VARCHAR(36) - UUID string
+   */
+  @Column({ type: 'varchar', length: 36, nullable: true })
+  workspaceId?: string;
+
+  /**
+   * Template ID Column
+   * Import template whose settings the upload used
+   * nullable: true - Not set for uploads without a template
+   * Type: VARCHAR(36) - UUID string (the template may have been deleted since)
+   */
+  @Column({ type: 'varchar', length: 36, nullable: true })
+  templateId?: string;
+
+  /**
+   * Dataset ID Column
+   * Dataset (see DatasetEntity) the upload is a version of
+   * nullable: true - Set for every upload once DatasetService has grouped older uploads
+   * Type: VARCHAR(36) - UUID string
+   */
+  @Column({ type: 'varchar', length: 36, nullable: true })
+  datasetId?: string;
+
+  /**
+   * Version Column
+   * Version number of the upload within its dataset (1 for the first upload)
+   * nullable: true - Not set for uploads not yet grouped into a dataset
+   * Type: INT
+   */
+  @Column({ type: 'int', nullable: true })
+  version?: number;
+
+  /**
+   * Column Schema Column
+   * Type of each column (number, date, enum, ...) inferred from its values after import
+   * nullable: true - Not set for failed uploads or uploads made before inference existed
+   * Type: JSONB
+   */
+  @Column({ type: 'jsonb', nullable: true })
+  columnSchema?: ColumnSchema[];
+
+  /**
+   * Typed Column
+   * Whether the stored rows (upload_rows) were converted to their column types
+   * (numbers, booleans, ISO dates, null for empty) instead of being stored as text
+   * Type: BOOLEAN
+   */
+  @Column({ type: 'boolean', default: false })
+  typed: boolean;
+
+  /**
+   * Quality Column
+   * Quality score (completeness, validity, uniqueness, consistency) and issue counts
+   * nullable: true - Not set for failed uploads or uploads made before scoring existed
+   * Type: JSONB
+   */
+  @Column({ type: 'jsonb', nullable: true })
+  quality?: QualityScore;
+
   /**
    * Message Column
    * Status message (e.g., "CSV file imported successfully")
@@ -106,14 +277,14 @@ export class UploadRecordEntity {
   message?: string;
 
   /**
-   * Data Column
-   * The parsed CSV data (only for successful uploads)
-   * Stores the actual CSV content as JSON
-   * nullable: true - Only set for successful uploads
-   * Type: JSONB - PostgreSQL JSON format (efficient storage)
+   * Data Column (legacy)
+   * The parsed CSV data of uploads made before rows moved to the upload_rows table.
+   * UploadRowService moves it there on startup and clears this column.
+   * nullable: true - Empty for every upload once migrated
+   * Type: JSONB - PostgreSQL JSON format
    */
   @Column({ type: 'jsonb', nullable: true })
-  data?: Record<string, string>[]; // CSV data stored as JSONB
+  data?: TypedRow[]; // Legacy CSV data, see UploadRowEntity
 
   /**
    * Original File Column
@@ -123,4 +294,14 @@ export class UploadRecordEntity {
    */
   @Column({ type: 'bytea', nullable: true })
   originalFile?: Buffer; // Original file content for download
+
+  /**
+   * Original File Path Column
+   * Location of the original file on disk (see UPLOAD_DIR).
+   * Large uploads are streamed to disk instead of being stored in originalFile.
+   * nullable: true - Older uploads only have originalFile
+   * Type: VARCHAR(1024)
+   */
+  @Column({ type: 'varchar', length: 1024, nullable: true })
+  originalFilePath?: string;
 }
@@ -0,0 +1,66 @@
+/**
+ * upload-row.entity.ts - Upload Row Database Entity
+ * This file defines the database table structure for the parsed rows of uploads.
+ * TypeORM uses this class to create and manage the 'upload_rows' table.
+ * Each data row of a successful upload is stored as its own record, so rows can be
+ * paged, sorted and filtered in the database instead of loading whole datasets.
+ */
+
+import { Entity, Column, PrimaryGeneratedColumn, Index } from 'typeorm';
+import { TypedRow } from '../interfaces/column-schema.interface';
+
+/**
+ * @Entity('upload_rows') - Maps this class to 'upload_rows' table
+ * TypeORM will create this table automatically when synchronize is enabled
+ */
+@Entity('upload_rows')
+@Index(['uploadId', 'rowNumber'], { unique: true }) // Index for reading rows in file order
+export class UploadRowEntity {
+  /**
+   * Primary Key - Auto-generated UUID
+   */
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /**
+   * Upload ID Column
+   * References the upload record the row belongs to
+   * Type: VARCHAR(36) - UUID string
+   */
+  @Column({ type: 'varchar', length: 36 })
+  uploadId: string;
+
+  /**
+   * Row Number Column
+   * Row number in the source file (the header is row 1 for CSV files), as used in warnings
+   * Type: INTEGER
+   */
+  @Column({ type: 'int' })
+  rowNumber: number;
+
+  /**
+   * Data Column
+   * The row's values by column name (text values, or typed values when the upload is typed)
+   * Type: JSONB
+   */
+  @Column({ type: 'jsonb' })
+  data: TypedRow;
+
+  /**
+   * Warnings Column
+   * Warning messages recorded for this row during import (formula-like values, rule violations, ...)
+   * nullable: true - Most rows have none
+   * Type: JSONB - Array of strings
+   */
+  @Column({ type: 'jsonb', nullable: true })
+  warnings?: string[];
+
+  /**
+   * Duplicate Of Column
+   * Row number of the earlier row this row duplicates (when duplicate detection was on)
+   * nullable: true - Not a duplicate
+   * Type: INTEGER
+   */
+  @Column({ type: 'int', nullable: true })
+  duplicateOf?: number;
+}
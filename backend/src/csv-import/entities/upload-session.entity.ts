@@ -0,0 +1,145 @@
+/**
+ * upload-session.entity.ts - Upload Session Database Entity
+ *
+ * This file defines the database table structure for chunked upload sessions.
+ * TypeORM uses this class to create and manage the 'upload_sessions' table.
+ *
+ * Large files are sent in numbered chunks. A session remembers which chunks
+ * have arrived so an interrupted upload can continue where it stopped.
+ */
+
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+/**
+ * Upload Session Status
+ * ACTIVE while chunks are being received, COMPLETED once the file was assembled
+ */
+export enum UploadSessionStatus {
+  ACTIVE = 'active',
+  COMPLETED = 'completed',
+}
+
+/**
+ * @Entity('upload_sessions') - Maps this class to 'upload_sessions' table
+ * TypeORM will create this table automatically when synchronize is enabled
+ */
+@Entity('upload_sessions')
+@Index(['userId', 'status'])
+export class UploadSessionEntity {
+  /**
+   * Primary Key - Auto-generated UUID
+   * Returned to the client as the upload session ID
+   */
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /**
+   * User ID Column
+   * The user who started the session (only they can add chunks or complete it)
+   * nullable: true - Kept consistent with audit logs for unauthenticated (legacy) calls
+   * Type: VARCHAR(36) - UUID string
+   */
+  @Column({ type: 'varchar', length: 36, nullable: true })
+  userId?: string;
+
+  /**
+   * Workspace ID Column
+   * The workspace the session was started in; chunks and completion must come from it too
+   * nullable: true - Sessions started before workspaces existed
+   * Type: VARCHAR(36) - UUID string
+   */
+  @Column({ type: 'varchar', length: 36, nullable: true })
+  workspaceId?: string;
+
+  /**
+   * File Name Column
+   * Original name of the file being uploaded
+   * Type: VARCHAR(255)
+   */
+  @Column({ type: 'varchar', length: 255 })
+  fileName: string;
+
+  /**
+   * File Size Column
+   * Total size of the file in bytes
+   * Type: BIGINT
+   */
+  @Column({ type: 'bigint' })
+  fileSize: number;
+
+  /**
+   * Chunk Size Column
+   * Size of every chunk except the last one, in bytes
+   * Type: INT
+   */
+  @Column({ type: 'int' })
+  chunkSize: number;
+
+  /**
+   * Total Chunks Column
+   * Number of chunks the file is split into
+   * Type: INT
+   */
+  @Column({ type: 'int' })
+  totalChunks: number;
+
+  /**
+   * Chunk Checksums Column
+   * SHA-256 (hex) of each received chunk, keyed by chunk index
+   * Type: JSONB
+   */
+  @Column({ type: 'jsonb', default: {} })
+  chunkChecksums: Record<string, string>;
+
+  /**
+   * Status Column
+   * Type: ENUM - Only allows specific values
+   * Default: ACTIVE (when session is first created)
+   */
+  @Column({
+    type: 'enum',
+    enum: UploadSessionStatus,
+    default: UploadSessionStatus.ACTIVE,
+  })
+  status: UploadSessionStatus;
+
+  /**
+   * Options Column
+   * Parse options chosen when the upload started (duplicate handling, column mapping)
+   * Type: JSONB
+   */
+  @Column({ type: 'jsonb', nullable: true })
+  options?: Record<string, any>;
+
+  /**
+   * Upload ID Column
+   * Upload record created when the session was completed
+   * nullable: true - Only set for completed sessions
+   * Type: VARCHAR(36) - UUID string
+   */
+  @Column({ type: 'varchar', length: 36, nullable: true })
+  uploadId?: string;
+
+  /**
+   * Created At Column
+   * Automatically set when the session is created
+   * Type: TIMESTAMP
+   */
+  @CreateDateColumn()
+  createdAt: Date;
+
+  /**
+   * Updated At Column
+   * Updated whenever a chunk arrives; used to expire abandoned sessions
+   * Type: TIMESTAMP
+   */
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,93 @@
+/**
+ * validation-schema.entity.ts - Validation Schema Database Entity
+ *
+ * This file defines the database table structure for saved validation schemas.
+ * TypeORM uses this class to create and manage the 'validation_schemas' table.
+ *
+ * A saved schema is a named set of validation rules that uploads can refer to
+ * by ID instead of sending the rules every time.
+ */
+
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import { ValidationSchema } from '../interfaces/validation-rule.interface';
+
+/**
+ * @Entity('validation_schemas') - Maps this class to 'validation_schemas' table
+ * TypeORM will create this table automatically when synchronize is enabled
+ */
+@Entity('validation_schemas')
+export class ValidationSchemaEntity {
+  /**
+   * Primary Key - Auto-generated UUID
+   */
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /**
+   * Name Column
+   * Shown when picking a schema for an upload
+   * Type: VARCHAR(255)
+   */
+  @Column({ type: 'varchar', length: 255 })
+  name: string;
+
+  /**
+   * Description Column
+   * What the schema is for
+   * nullable: true - Optional
+   * Type: TEXT
+   */
+  @Column({ type: 'text', nullable: true })
+  description?: string;
+
+  /**
+   * Schema Column
+   * The validation rules (column rules, cross-field rules, default severity)
+   * Type: JSONB
+   */
+  @Column({ type: 'jsonb' })
+  schema: ValidationSchema;
+
+  /**
+   * Created By Column
+   * The user who created the schema
+   * nullable: true - Kept consistent with audit logs for unauthenticated (legacy) calls
+   * Type: VARCHAR(36) - UUID string
+   */
+  @Column({ type: 'varchar', length: 36, nullable: true })
+  createdBy?: string;
+
+  /**
+   * Workspace ID Column
+   * References the workspace the schema belongs to; its members can use it
+   * nullable: true - Schemas made before workspaces existed are moved on startup
+   * into their creator's personal workspace
+   * Type: VARCHAR(36) - UUID string
+   */
+  @Column({ type: 'varchar', length: 36, nullable: true })
+  @Index()
+  workspaceId?: string;
+
+  /**
+   * Created At Column
+   * Automatically set when the schema is saved for the first time
+   * Type: TIMESTAMP
+   */
+  @CreateDateColumn()
+  createdAt: Date;
+
+  /**
+   * Updated At Column
+   * Automatically updated whenever the schema changes
+   * Type: TIMESTAMP
+   */
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,70 @@
+/**
+ * aggregate.interface.ts - Aggregation Types
+ *
+ * Group-by queries over an upload's rows (POST /csv-import/history/:id/aggregate).
+ * AggregationService runs them in the database and returns one row per group,
+ * which the frontend shows as a pivot grid or a bar chart.
+ */
+
+/**
+ * Metric functions
+ * - count: rows in the group (or non-empty values, when a column is given)
+ * - distinctCount: different non-empty values of the column
+ * - sum, avg: of the column's numeric values (integer and number columns only)
+ * - min, max: smallest / largest value (by value for numeric columns, alphabetically otherwise)
+ */
+export const AGGREGATE_FUNCTIONS = [
+  'count',
+  'sum',
+  'avg',
+  'min',
+  'max',
+  'distinctCount',
+] as const;
+export type AggregateFunction = (typeof AGGREGATE_FUNCTIONS)[number];
+
+/**
+ * AggregateMetric Interface
+ * One value computed for every group
+ */
+export interface AggregateMetric {
+  function: AggregateFunction;
+  column?: string; // Required for every function except count
+  as?: string; // Name of the metric in the result (default: e.g. sum_amount)
+}
+
+/**
+ * AggregateSort Interface
+ * Orders the groups by a group-by column or a metric name
+ */
+export interface AggregateSort {
+  by: string;
+  direction: 'asc' | 'desc';
+}
+
+/**
+ * AggregateRequest Interface
+ */
+export interface AggregateRequest {
+  groupBy?: string[]; // No columns: one row for all (matching) rows
+  metrics: AggregateMetric[];
+  filter?: string; // Filter expression (see row-filter.interface.ts)
+  sort?: AggregateSort; // Default: by the group-by columns, ascending
+  limit?: number; // Maximum number of groups returned
+}
+
+/**
+ * AggregateResult Interface
+ * Each row holds the group-by values (text, or null for empty values) and the metrics by name
+ */
+export interface AggregateResult {
+  groupBy: string[];
+  metrics: Array<{
+    name: string;
+    function: AggregateFunction;
+    column?: string;
+  }>;
+  rows: Array<Record<string, string | number | null>>;
+  totalGroups: number;
+  truncated: boolean; // More groups matched than were returned
+}
@@ -0,0 +1,86 @@
+/**
+ * column-profile.interface.ts - Column Profiles
+ *
+ * After an import, ColumnProfileService summarizes the values of every column:
+ * how many are empty or distinct, the most frequent values, the typical shape of
+ * the values and, for numeric and date columns, their range and distribution.
+ * Profiles are stored per upload and served by GET /csv-import/history/:id/profile.
+ */
+
+import { InferredType } from './column-schema.interface';
+
+/**
+ * HistogramBin Interface
+ * Values from `from` up to (excluding) `to`; the last bin also holds `to`
+ */
+export interface HistogramBin<T = number> {
+  from: T;
+  to: T;
+  count: number;
+}
+
+/**
+ * NumericProfile Interface
+ * Distribution of the numeric values of an integer or number column
+ */
+export interface NumericProfile {
+  count: number; // Values that are numbers
+  min: number;
+  max: number;
+  mean: number;
+  stdDev: number;
+  percentiles: {
+    p5: number;
+    p25: number;
+    p50: number;
+    p75: number;
+    p95: number;
+  };
+  histogram: HistogramBin[];
+}
+
+/**
+ * DateProfile Interface
+ * Range of the dates of a date or datetime column (ISO 8601)
+ */
+export interface DateProfile {
+  count: number; // Values that are dates
+  min: string;
+  max: string;
+  histogram: HistogramBin<string>[];
+}
+
+/**
+ * ColumnProfile Interface
+ */
+export interface ColumnProfile {
+  name: string;
+  type: InferredType;
+  emptyCount: number; // Empty values (missing, null or only spaces)
+  emptyRate: number; // Share of rows with an empty value (0-1)
+  distinctCount: number; // Distinct non-empty values
+  topValues: Array<{ value: string; count: number }>; // Most frequent non-empty values
+  lengths?: {
+    // Length in characters of the non-empty values
+    min: number;
+    max: number;
+    mean: number;
+    histogram: HistogramBin[];
+  };
+  // Shapes of the values, most frequent first: letters become A/a, digits 9, and runs
+  // of the same class collapse to one character (e.g. "DE-1234" has shape "A-9")
+  patterns: Array<{ pattern: string; count: number; example: string }>;
+  numeric?: NumericProfile; // integer and number columns
+  dates?: DateProfile; // date and datetime columns
+}
+
+/**
+ * UploadProfile Interface
+ * The profiles of all columns of an upload
+ */
+export interface UploadProfile {
+  uploadId: string;
+  rowCount: number;
+  columns: ColumnProfile[];
+  computedAt: Date;
+}
@@ -0,0 +1,72 @@
+/**
+ * column-schema.interface.ts - Inferred Column Types
+ *
+ * After an import, TypeInferenceService looks at every value of every column
+ * and infers what the column holds. The result is stored with the upload and
+ * is used to turn text values into typed JSON (numbers, booleans, ISO dates).
+ */
+
+/**
+ * Types a column can be inferred as
+ * - integer/number: numeric values (integers with leading zeros, like ZIP codes, are text)
+ * - date: dates without time, in the format given by ColumnSchema.format
+ * - datetime: ISO 8601 timestamps (with T or a space between date and time)
+ * - enum: text with few distinct values that repeat (e.g. status, country)
+ * - empty: every value is empty
+ */
+export const INFERRED_TYPES = [
+  'string',
+  'integer',
+  'number',
+  'boolean',
+  'date',
+  'datetime',
+  'email',
+  'url',
+  'enum',
+  'empty',
+] as const;
+export type InferredType = (typeof INFERRED_TYPES)[number];
+
+/**
+ * ColumnSchema Interface
+ * What a column holds, as inferred from its values (or chosen by a user)
+ */
+export interface ColumnSchema {
+  name: string;
+  type: InferredType;
+  // Share of non-empty values that fit the type (0-1). For string, the share that
+  // fits no other type; for enum, the share of values that repeat.
+  confidence: number;
+  format?: string; // date/datetime: how values are written, e.g. DD/MM/YYYY
+  enumValues?: string[]; // enum: the distinct values, most frequent first
+  nullCount: number; // Empty values
+  distinctCount: number; // Distinct non-empty values
+  sampleValues: string[]; // First few distinct non-empty values
+  overridden?: boolean; // The type was chosen by a user, not inferred
+}
+
+/**
+ * ColumnValueCounts Interface
+ * How often the distinct non-empty values of a stored column occur, as counted by
+ * the database (so inference and profiling never hold every value of a column)
+ */
+export interface ColumnValueCounts {
+  distinctCount: number;
+  repeatedCount: number; // Values that occur more than once, counting every occurrence
+  topValues: Array<{ value: string; count: number }>; // Most frequent first
+}
+
+/**
+ * TypedValue - A stored cell value
+ * Text unless the upload's values were coerced to their column types
+ */
+export type TypedValue = string | number | boolean | null;
+
+/**
+ * TypedRow Interface
+ * A stored row: column name -> value
+ */
+export interface TypedRow {
+  [column: string]: TypedValue;
+}
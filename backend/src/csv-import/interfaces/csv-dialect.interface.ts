@@ -0,0 +1,47 @@
+/**
+ * csv-dialect.interface.ts - CSV Dialect Types
+ *
+ * Describes how a CSV file is written: field delimiter, quote character,
+ * line ending and character encoding. Detected automatically on import and
+ * stored on the upload record so the file is always read the same way.
+ */
+
+/**
+ * Supported character encodings
+ * windows-1252 is the usual encoding of "ANSI" CSV exports from Excel in Western Europe
+ */
+export const CSV_ENCODINGS = [
+  'utf-8',
+  'utf-16le',
+  'utf-16be',
+  'windows-1252',
+  'iso-8859-1',
+] as const;
+export type CsvEncoding = (typeof CSV_ENCODINGS)[number];
+
+/**
+ * Supported line endings (Unix, Windows, classic Mac)
+ */
+export const CSV_LINE_ENDINGS = ['lf', 'crlf', 'cr'] as const;
+export type CsvLineEnding = (typeof CSV_LINE_ENDINGS)[number];
+
+/**
+ * Delimiters tried when sniffing (any other single character can still be chosen explicitly)
+ */
+export const CSV_DELIMITER_CANDIDATES = [',', ';', '\t', '|'];
+
+/**
+ * Quote characters tried when sniffing; '' means fields are never quoted
+ */
+export const CSV_QUOTE_CHARACTERS = ['"', "'", ''];
+
+/**
+ * CsvDialect Interface
+ * The complete set of settings used to read a CSV file
+ */
+export interface CsvDialect {
+  delimiter: string;
+  quote: string;
+  lineEnding: CsvLineEnding;
+  encoding: CsvEncoding;
+}
@@ -0,0 +1,32 @@
+/**
+ * dataset.interface.ts - Dataset Types
+ *
+ * A dataset groups uploads of the same data into numbered versions
+ * (see DatasetEntity); one successful version is the current one.
+ */
+
+import { UploadRecord } from './upload-record.interface';
+
+/**
+ * Why the current version of a dataset changed (recorded in the audit log)
+ * - import: a newer version was imported successfully
+ * - promote: a user made a newer version current
+ * - rollback: a user made an older version current
+ * - delete: the current version was deleted; the newest remaining one took its place
+ */
+export type VersionChangeReason = 'import' | 'promote' | 'rollback' | 'delete';
+
+/**
+ * Dataset Interface
+ */
+export interface Dataset {
+  id: string;
+  name: string;
+  currentUploadId?: string; // Upload that is the current version
+  currentVersion?: number; // Version number of the current upload
+  latestVersion: number; // Highest version number handed out so far
+  versionCount: number; // Versions that still exist (deleted ones are not counted)
+  createdAt: Date;
+  updatedAt: Date;
+  current?: UploadRecord; // The current upload (dataset list only)
+}
@@ -0,0 +1,72 @@
+/**
+ * export-format.interface.ts - Export Format Types
+ *
+ * Formats an upload's data can be downloaded in (POST /csv-import/history/export).
+ * ExportService writes each of them as a stream.
+ */
+
+import { TypedRow } from './column-schema.interface';
+
+/**
+ * Formats supported for export
+ */
+export const EXPORT_FORMATS = [
+  'csv',
+  'xlsx',
+  'json',
+  'ndjson',
+  'parquet',
+] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+/**
+ * ExportFormatInfo Interface
+ * File extension and content type sent with an export
+ */
+export interface ExportFormatInfo {
+  extension: string;
+  contentType: string;
+}
+
+/**
+ * ExportSort Interface
+ * One sort key; rows are sorted by the keys in order
+ */
+export interface ExportSort {
+  column: string;
+  direction: 'asc' | 'desc';
+}
+
+/**
+ * ExportColumn Interface
+ * A column to export and the header to give it
+ */
+export interface ExportColumn {
+  name: string;
+  as?: string; // Header in the export (default: the column name)
+}
+
+/**
+ * ExportOptions Interface
+ * Narrows an export down to what the user sees on screen
+ */
+export interface ExportOptions {
+  filter?: string; // Rows containing this text (case-insensitive) in any exported column
+  sort?: ExportSort[];
+  columns?: ExportColumn[]; // Columns to export, in order (default: all)
+}
+
+/**
+ * ExportSelection Interface
+ * The checked columns of an export and the headers they are written under
+ */
+export interface ExportSelection {
+  columns: ExportColumn[];
+  headers: string[]; // Header of each column, in order
+}
+
+/**
+ * ExportRows - Rows to write: already in memory, or a function that reads them a
+ * page at a time (called once per pass; Parquet reads the rows twice)
+ */
+export type ExportRows = TypedRow[] | (() => AsyncIterable<TypedRow[]>);
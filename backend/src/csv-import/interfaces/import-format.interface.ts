@@ -0,0 +1,69 @@
+/**
+ * import-format.interface.ts - Import Format Types
+ *
+ * Every supported file format is read by a FormatReader. Readers turn a file
+ * into rows of the same shape (column name -> string value), so duplicate
+ * detection, column mapping, history and audit logging work the same for all
+ * of them. ImportFormatService keeps the registry of readers.
+ */
+
+import { Readable } from 'stream';
+import { CsvParseOptions, CsvParseResult, CsvRow } from '../csv-import.service';
+
+/**
+ * Formats supported out of the box
+ */
+export const IMPORT_FORMATS = ['csv', 'tsv', 'json', 'ndjson', 'xlsx'] as const;
+export type ImportFormat = (typeof IMPORT_FORMATS)[number];
+
+/**
+ * ImportRecord Interface
+ * A data row and the row (or line) number it came from in the file
+ */
+export interface ImportRecord {
+  row: CsvRow;
+  rowNumber: number;
+}
+
+/**
+ * FormatReadDetails
+ * Format-specific settings the file was read with, stored on the upload record
+ */
+export type FormatReadDetails = Pick<
+  CsvParseResult,
+  'dialect' | 'sheetName' | 'headerRow'
+>;
+
+/**
+ * FormatReaderOutput Interface
+ * What a reader hands back once it has started reading a file
+ */
+export interface FormatReaderOutput {
+  records: AsyncIterable<ImportRecord>;
+  getBytesRead: () => number; // Raw bytes consumed so far (for progress)
+  hasHeader: () => boolean; // Whether any header/structure was found (checked after reading)
+  getDetails?: () => FormatReadDetails;
+}
+
+/**
+ * FormatReader Interface
+ * Reads one file format; register custom readers with ImportFormatService.register
+ */
+export interface FormatReader {
+  format: string; // Stored on the upload record (e.g. 'csv')
+  label: string; // Used in messages (e.g. 'CSV' -> "CSV parsing failed: ...")
+  extensions: string[]; // Lower case, with dot (e.g. ['.csv'])
+  mimeType: string; // Content-Type used when the original file is downloaded
+  variableColumns?: boolean; // Rows may have different keys (missing ones are filled with '')
+
+  /**
+   * Returns true if the start of a file looks like this format
+   * Used for files whose extension does not say what they are (e.g. .txt)
+   */
+  sniff?: (sample: Buffer, isComplete: boolean) => boolean;
+
+  read: (
+    input: Readable,
+    options: CsvParseOptions | undefined,
+  ) => Promise<FormatReaderOutput>;
+}
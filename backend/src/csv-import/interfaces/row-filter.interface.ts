@@ -0,0 +1,63 @@
+/**
+ * row-filter.interface.ts - Row Filter Expressions
+ *
+ * Rows of an upload can be filtered with a small expression language, e.g.
+ *   age > 30 AND country IN ("DE", "FR") AND email ~ "@acme"
+ * RowFilterService parses an expression into the tree below and translates it
+ * into a parameterized SQL condition on the upload_rows table.
+ *
+ * Grammar (keywords are case-insensitive):
+ *   expression := term (OR term)*
+ *   term       := factor (AND factor)*
+ *   factor     := NOT factor | "(" expression ")" | condition
+ *   condition  := column operator value
+ *               | column [NOT] IN "(" value ("," value)* ")"
+ *               | column IS [NOT] EMPTY
+ *   column     := name made of letters, digits and _, or any name in `backticks`
+ *   value      := "text" | 'text' | number | TRUE | FALSE
+ */
+
+/**
+ * Comparison operators
+ * - = and != compare exactly (numbers by value)
+ * - >, >=, <, <= compare numbers by value and text alphabetically
+ * - ~ and !~ test whether the value contains the text (case-insensitive)
+ */
+export const FILTER_OPERATORS = [
+  '=',
+  '!=',
+  '>',
+  '>=',
+  '<',
+  '<=',
+  '~',
+  '!~',
+] as const;
+export type FilterOperator = (typeof FILTER_OPERATORS)[number];
+
+export type FilterValue = string | number | boolean;
+
+/**
+ * FilterExpression - A parsed filter expression
+ */
+export type FilterExpression =
+  | { type: 'and' | 'or'; operands: FilterExpression[] }
+  | { type: 'not'; operand: FilterExpression }
+  | {
+      type: 'compare';
+      column: string;
+      operator: FilterOperator;
+      value: FilterValue;
+    }
+  | { type: 'in'; column: string; values: FilterValue[]; negated: boolean }
+  | { type: 'empty'; column: string; negated: boolean };
+
+/**
+ * RowPredicate - A filter expression translated to SQL
+ * The condition only contains placeholders for column names and values;
+ * parameters holds what they stand for.
+ */
+export interface RowPredicate {
+  sql: string;
+  parameters: Record<string, unknown>;
+}
@@ -0,0 +1,65 @@
+/**
+ * upload-diff.interface.ts - Upload Diff Types
+ *
+ * Row-level comparison of two uploads (POST /csv-import/history/diff).
+ * Rows are matched by the values of some key columns; UploadDiffService
+ * classifies every key as added, removed or changed and lists the changed cells.
+ */
+
+import { TypedRow, TypedValue } from './column-schema.interface';
+
+/**
+ * How a row differs
+ * - added: the key is only in the compared upload
+ * - removed: the key is only in the base upload
+ * - changed: the key is in both uploads, with different values in some columns
+ */
+export const DIFF_CHANGE_TYPES = ['added', 'removed', 'changed'] as const;
+export type DiffChangeType = (typeof DIFF_CHANGE_TYPES)[number];
+
+/**
+ * DiffCellChange Interface
+ * A column whose value differs between the two rows with the same key
+ */
+export interface DiffCellChange {
+  column: string;
+  before: TypedValue; // Value in the base upload
+  after: TypedValue; // Value in the compared upload
+}
+
+/**
+ * UploadDiffRow Interface
+ */
+export interface UploadDiffRow {
+  type: DiffChangeType;
+  key: TypedRow; // Key column -> value
+  baseRowNumber?: number; // Row number in the base upload (not set for added rows)
+  compareRowNumber?: number; // Row number in the compared upload (not set for removed rows)
+  before?: TypedRow; // Row of the base upload (not set for added rows)
+  after?: TypedRow; // Row of the compared upload (not set for removed rows)
+  changes?: DiffCellChange[]; // Changed rows only, in column order
+}
+
+/**
+ * UploadDiffSummary Interface
+ */
+export interface UploadDiffSummary {
+  added: number;
+  removed: number;
+  changed: number;
+  unchanged: number;
+}
+
+/**
+ * UploadDiff Interface
+ * Columns that are in only one of the uploads are listed but not compared
+ */
+export interface UploadDiff {
+  keyColumns: string[];
+  columns: string[]; // Columns in both uploads, in the order of the base upload
+  addedColumns: string[]; // Columns only in the compared upload
+  removedColumns: string[]; // Columns only in the base upload
+  summary: UploadDiffSummary; // Counts of all rows, whatever the type filter
+  rows: UploadDiffRow[]; // A page of the rows that differ, by base row number, added rows last
+  total: number; // Rows that differ (of the requested type)
+}
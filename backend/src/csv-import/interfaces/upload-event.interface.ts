@@ -0,0 +1,26 @@
+import { UploadProgress } from './upload-record.interface';
+
+/**
+ * UploadEventType - Kinds of events pushed over GET /csv-import/events
+ * Used as the SSE event name
+ */
+export enum UploadEventType {
+  CREATED = 'upload.created',
+  PROGRESS = 'upload.progress',
+  COMPLETED = 'upload.completed',
+  FAILED = 'upload.failed',
+  DELETED = 'upload.deleted',
+}
+
+/**
+ * UploadEvent - A change to an upload record
+ * workspaceId is the workspace whose members the event is delivered to; it is not sent to clients.
+ */
+export interface UploadEvent {
+  type: UploadEventType;
+  uploadId: string;
+  workspaceId?: string;
+  fileName?: string;
+  progress?: UploadProgress;
+  timestamp: Date;
+}
@@ -0,0 +1,99 @@
+/**
+ * upload-issue.interface.ts - Upload Issues and Quality Scores
+ *
+ * Every problem found while importing a file is recorded as an issue: the row
+ * (and column) it is about, a machine-readable code, a severity and a message.
+ * DataQualityService stores the issues of each upload in upload_issues and
+ * condenses them, together with the column profiles, into a quality score.
+ */
+
+/**
+ * What an issue is about
+ * - empty_row: the row only had empty values and was skipped
+ * - header_mismatch: the header differs from the one the import template expects
+ * - duplicate_row: the row duplicates an earlier row (duplicate handling "mark")
+ * - formula_injection: a value would run as a formula in spreadsheet apps
+ * - missing_column ... cross_field: the row (or header) broke a validation rule
+ * - inconsistent_type: a value does not fit the type inferred for its column
+ * - other: a warning of an upload imported before issues had codes
+ */
+export const ISSUE_CODES = [
+  'empty_row',
+  'header_mismatch',
+  'duplicate_row',
+  'formula_injection',
+  'missing_column',
+  'required',
+  'invalid_type',
+  'pattern_mismatch',
+  'out_of_range',
+  'too_long',
+  'not_allowed',
+  'not_unique',
+  'cross_field',
+  'inconsistent_type',
+  'other',
+] as const;
+export type IssueCode = (typeof ISSUE_CODES)[number];
+
+/**
+ * Codes of validation rule violations (they lower the validity score)
+ */
+export const VALIDATION_ISSUE_CODES: IssueCode[] = [
+  'missing_column',
+  'required',
+  'invalid_type',
+  'pattern_mismatch',
+  'out_of_range',
+  'too_long',
+  'not_allowed',
+  'not_unique',
+  'cross_field',
+];
+
+/**
+ * How bad an issue is
+ * - info: nothing was lost (e.g. an empty row was skipped)
+ * - warning: the row was imported as it is
+ * - error: the row was rejected, or the upload failed
+ */
+export const ISSUE_SEVERITIES = ['info', 'warning', 'error'] as const;
+export type IssueSeverity = (typeof ISSUE_SEVERITIES)[number];
+
+/**
+ * UploadIssue Interface
+ */
+export interface UploadIssue {
+  row: number; // Row number in the source file (1 is the header row of CSV files)
+  column?: string;
+  code: IssueCode;
+  severity: IssueSeverity;
+  message: string;
+}
+
+/**
+ * QualityScore Interface
+ * Scores are percentages (0-100); each dimension is 100 when there is nothing to measure
+ */
+export interface QualityScore {
+  score: number; // Mean of the four dimensions
+  completeness: number; // Share of values that are not empty
+  validity: number; // Share of rows that break no validation rule (rejected rows included)
+  uniqueness: number; // Share of rows that are not exact copies of an earlier row
+  consistency: number; // Share of values that fit the type of their column
+  counts: {
+    rows: number;
+    values: number;
+    emptyValues: number;
+    checkedRows: number; // Rows checked against validation rules (imported plus rejected)
+    invalidRows: number;
+    duplicateRows: number;
+    typedValues: number; // Non-empty values of integer, number, boolean, date, datetime, email and url columns
+    inconsistentValues: number;
+  };
+  issues: {
+    total: number;
+    bySeverity: Record<IssueSeverity, number>;
+    byCode: Partial<Record<IssueCode, number>>;
+  };
+}
@@ -0,0 +1,11 @@
+/**
+ * UploadPhase - Where a background import currently is
+ * Reported alongside UploadStatus so the UI can show progress while status is PROCESSING
+ */
+export enum UploadPhase {
+  QUEUED = 'queued',
+  PARSING = 'parsing',
+  SAVING = 'saving',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+}
@@ -1,15 +1,62 @@
 import { UploadStatus } from './upload-status.enum';
-import { CsvRow } from '../csv-import.service';
+import { UploadPhase } from './upload-phase.enum';
+import { CsvDialect } from './csv-dialect.interface';
+import { ColumnSchema, TypedRow } from './column-schema.interface';
+import { QualityScore } from './upload-issue.interface';
 
 export interface UploadRecord {
   id: string;
   fileName: string;
   fileSize: number;
   status: UploadStatus;
+  phase: UploadPhase;
+  rowsProcessed: number;
+  progressPercent: number;
   uploadedAt: Date;
   completedAt?: Date;
   totalRows?: number;
-  errors?: string[];
+  errors?: string[]; // The first warnings of the import (all are upload issues)
+  errorCount?: number; // How many warnings there were (not set for older uploads)
+  duplicates?: Array<{ row: number; duplicateOf: number }>; // The first duplicates found
+  duplicateCount?: number; // How many duplicates there were (not set for older uploads)
+  format?: string; // File format the upload was read as (csv, tsv, json, ndjson, xlsx)
+  dialect?: CsvDialect; // How the file was read (delimiter, quote, line ending, encoding)
+  sheetName?: string; // Excel only: worksheet the rows came from
+  headerRow?: number; // Excel only: 1-based header row
+  templateId?: string; // Import template the upload used
+  userId?: string; // User who uploaded the file
+  workspaceId?: string; // Workspace the upload belongs to
+  datasetId?: string; // Dataset the upload is a version of
+  version?: number; // Version number within the dataset (1 = first upload)
+  datasetName?: string; // Name of the dataset (history endpoints only)
+  current?: boolean; // Whether this is the current version of its dataset (history endpoints only)
+  columnSchema?: ColumnSchema[]; // Inferred type of each column
+  typed: boolean; // Whether the stored rows hold typed values instead of text
+  quality?: QualityScore; // Quality score and issue counts of a successful import
   message?: string;
-  data?: CsvRow[]; // Store parsed CSV data for successful uploads
+}
+
+/**
+ * UploadProgress - Progress of a background import, as reported by
+ * GET /csv-import/history/:id/progress
+ */
+export interface UploadProgress {
+  uploadId: string;
+  status: UploadStatus;
+  phase: UploadPhase;
+  rowsProcessed: number;
+  progressPercent: number;
+  totalRows?: number;
+  message?: string;
+}
+
+/**
+ * UploadRow - One stored data row of an upload (see UploadRowEntity), as returned by
+ * GET /csv-import/history/:id/rows
+ */
+export interface UploadRow {
+  rowNumber: number; // Row number in the source file, as used in warnings
+  data: TypedRow;
+  warnings?: string[]; // Warnings recorded for the row during import
+  duplicateOf?: number; // Row number of the earlier row this row duplicates
 }
@@ -0,0 +1,120 @@
+/**
+ * validation-rule.interface.ts - Validation Rule Types
+ *
+ * A validation schema describes what valid rows look like: per-column rules
+ * (required, type, pattern, range, allowed values, uniqueness, length) and
+ * cross-field rules ("if country is US, state is required"). Every rule has a
+ * severity that decides what happens to a row that breaks it.
+ * ValidationRulesService checks rows against a schema while they are imported.
+ */
+
+import { IssueCode } from './upload-issue.interface';
+
+/**
+ * What a broken rule does
+ * - warning: the row is imported and the violation is reported
+ * - reject_row: the row is left out of the import
+ * - fail_upload: the whole upload fails
+ */
+export const VALIDATION_SEVERITIES = [
+  'warning',
+  'reject_row',
+  'fail_upload',
+] as const;
+export type ValidationSeverity = (typeof VALIDATION_SEVERITIES)[number];
+
+/**
+ * Value types a column can be checked against
+ */
+export const VALUE_TYPES = [
+  'string',
+  'integer',
+  'number',
+  'boolean',
+  'date',
+  'email',
+  'url',
+] as const;
+export type ValueType = (typeof VALUE_TYPES)[number];
+
+/**
+ * ColumnRule Interface
+ * Checks for the values of one column; all checks except required skip empty values
+ */
+export interface ColumnRule {
+  column: string;
+  required?: boolean; // The column must exist and no value may be empty
+  type?: ValueType;
+  pattern?: string; // Regular expression the whole value must match
+  min?: number; // Smallest allowed number (values must be numeric)
+  max?: number; // Largest allowed number (values must be numeric)
+  maxLength?: number; // Longest allowed value, in characters
+  enum?: string[]; // Allowed values (exact match)
+  unique?: boolean; // No two rows may have the same value
+  severity?: ValidationSeverity; // Defaults to the schema severity
+  message?: string; // Replaces the generated message
+}
+
+/**
+ * Operators for cross-field conditions
+ */
+export const CONDITION_OPERATORS = [
+  'empty',
+  'notEmpty',
+  'equals',
+  'notEquals',
+  'in',
+  'notIn',
+  'matches',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+] as const;
+export type ConditionOperator = (typeof CONDITION_OPERATORS)[number];
+
+/**
+ * RuleCondition Interface
+ * A test on one column of a row, against a fixed value or another column
+ * gt/gte/lt/lte compare numbers or dates when both sides are, text otherwise
+ */
+export interface RuleCondition {
+  column: string;
+  operator: ConditionOperator;
+  value?: string | number | string[]; // Not used by empty/notEmpty; a list for in/notIn
+  otherColumn?: string; // Compare with this column of the same row instead of value
+}
+
+/**
+ * CrossFieldRule Interface
+ * When all "when" conditions hold (or there are none), all "then" conditions must hold
+ */
+export interface CrossFieldRule {
+  name?: string; // Shown in violation messages
+  when?: RuleCondition[];
+  then: RuleCondition[];
+  severity?: ValidationSeverity; // Defaults to the schema severity
+  message?: string; // Replaces the generated message
+}
+
+/**
+ * ValidationSchema Interface
+ * The rules an upload is checked against
+ */
+export interface ValidationSchema {
+  columns?: ColumnRule[];
+  rules?: CrossFieldRule[];
+  severity?: ValidationSeverity; // Default severity of the rules (default: warning)
+}
+
+/**
+ * RuleViolation Interface
+ * A rule a row (or the header row) broke
+ */
+export interface RuleViolation {
+  row: number;
+  column?: string;
+  code: IssueCode;
+  message: string;
+  severity: ValidationSeverity;
+}
@@ -0,0 +1,70 @@
+/**
+ * csv-format.reader.ts - CSV Format Reader
+ *
+ * Reads delimited text files. The dialect (delimiter, quote, line ending,
+ * encoding) is sniffed by CsvDialectService unless the user chose it.
+ */
+
+import { Injectable } from '@nestjs/common';
+import { Readable, pipeline } from 'stream';
+import { parse } from 'csv-parse';
+import { CsvDialectService } from '../services/csv-dialect.service';
+import { CsvParseOptions } from '../csv-import.service';
+import {
+  FormatReader,
+  FormatReaderOutput,
+} from '../interfaces/import-format.interface';
+
+@Injectable()
+export class CsvFormatReader implements FormatReader {
+  format = 'csv';
+  label = 'CSV';
+  extensions = ['.csv'];
+  mimeType = 'text/csv';
+
+  constructor(protected readonly csvDialectService: CsvDialectService) {}
+
+  /**
+   * read - Sniffs the dialect, decodes the input and pipes it through csv-parse
+   *
+   * The first row becomes the keys of every record.
+   */
+  async read(
+    input: Readable,
+    options: CsvParseOptions | undefined,
+  ): Promise<FormatReaderOutput> {
+    let headerSeen = false;
+
+    const { dialect, stream, getBytesRead } = await this.csvDialectService.open(
+      input,
+      options?.dialect,
+    );
+
+    const parser = parse({
+      ...this.csvDialectService.getParserOptions(dialect),
+      // Capture the header row so an empty file can be told apart from a header-only file
+      columns: (header: string[]) => {
+        headerSeen = true;
+        return header;
+      },
+      skip_empty_lines: true,
+      trim: true,
+      bom: true,
+      relax_column_count: true,
+      // Track row numbers (context.lines is 0-indexed, add 2 for header row)
+      on_record: (record, context) => ({
+        row: record,
+        rowNumber: context.lines + 2,
+      }),
+    });
+    // Read errors are forwarded to the parser and end the import loop
+    pipeline(stream, parser, () => undefined);
+
+    return {
+      records: parser,
+      getBytesRead,
+      hasHeader: () => headerSeen,
+      getDetails: () => ({ dialect }),
+    };
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * excel-format.reader.ts - Excel Format Reader
+ *
+ * Reads one sheet of an Excel workbook (.xlsx) through ExcelReaderService.
+ * Cells are normalized to strings, so rows have the same shape as CSV rows.
+ */
+
+import { Injectable } from '@nestjs/common';
+import { Readable } from 'stream';
+import { ExcelReaderService } from '../services/excel-reader.service';
+import { CsvParseOptions } from '../csv-import.service';
+import {
+  FormatReader,
+  FormatReaderOutput,
+} from '../interfaces/import-format.interface';
+
+/**
+ * .xlsx files are zip archives
+ */
+const ZIP_SIGNATURE = Buffer.from([0x50, 0x4b, 0x03, 0x04]);
+
+@Injectable()
+export class ExcelFormatReader implements FormatReader {
+  format = 'xlsx';
+  label = 'Excel';
+  extensions = ['.xlsx'];
+  mimeType =
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+  constructor(private readonly excelReaderService: ExcelReaderService) {}
+
+  sniff(sample: Buffer): boolean {
+    return sample.subarray(0, ZIP_SIGNATURE.length).equals(ZIP_SIGNATURE);
+  }
+
+  async read(
+    input: Readable,
+    options: CsvParseOptions | undefined,
+  ): Promise<FormatReaderOutput> {
+    let sheetName: string | undefined;
+    let bytesRead = 0;
+    input.on('data', (chunk: Buffer) => (bytesRead += chunk.length));
+
+    const records = this.excelReaderService.readRows(
+      input,
+      { sheetName: options?.sheetName, headerRow: options?.headerRow },
+      (name) => (sheetName = name),
+    );
+
+    return {
+      records,
+      getBytesRead: () => bytesRead,
+      hasHeader: () => sheetName !== undefined,
+      getDetails: () => ({ sheetName, headerRow: options?.headerRow ?? 1 }),
+    };
+  }
+}
@@ -0,0 +1,227 @@
+/**
+ * json-format.reader.ts - JSON Format Reader
+ *
+ * Reads a JSON array of objects (or a single object) as rows. The array is
+ * split into items as it streams in, so only one item is held in memory at a time.
+ * Nested objects are flattened into dotted column names.
+ */
+
+import { Injectable } from '@nestjs/common';
+import { Readable } from 'stream';
+import { StringDecoder } from 'string_decoder';
+import { CsvRow } from '../csv-import.service';
+import {
+  FormatReader,
+  FormatReaderOutput,
+  ImportRecord,
+} from '../interfaces/import-format.interface';
+
+/**
+ * flattenJsonRecord - Turns a JSON value into a row
+ *
+ * @param value - Parsed JSON item
+ * @returns Row keyed by dotted path, e.g. { "address.city": "Oslo" }
+ *
+ * - Nested objects become dotted columns ({ a: { b: 1 } } -> { "a.b": "1" })
+ * - Arrays are kept as JSON text in a single column
+ * - null becomes an empty value; items that are not objects go into a "value" column
+ */
+export function flattenJsonRecord(value: unknown): CsvRow {
+  const row: CsvRow = {};
+  const visit = (current: unknown, path: string): void => {
+    if (
+      current !== null &&
+      typeof current === 'object' &&
+      !Array.isArray(current)
+    ) {
+      const entries = Object.entries(current);
+      if (entries.length === 0 && path) {
+        row[path] = '';
+      }
+      entries.forEach(([key, child]) =>
+        visit(child, path ? `${path}.${key}` : key),
+      );
+      return;
+    }
+    row[path || 'value'] = toCellText(current);
+  };
+  visit(value, '');
+  return row;
+}
+
+function toCellText(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (typeof value === 'string') {
+    return value.trim();
+  }
+  if (Array.isArray(value)) {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+/**
+ * Returns the first character that is not whitespace or a byte order mark
+ */
+export function firstSignificantChar(text: string): string | undefined {
+  return /[^\s\uFEFF]/.exec(text)?.[0];
+}
+
+/**
+ * JsonItemSplitter - Splits streamed JSON text into the items of a top-level array
+ *
+ * Text is pushed in arbitrary pieces; complete items are returned as soon as
+ * their closing bracket (or comma) arrives. A top-level object is a single item.
+ */
+class JsonItemSplitter {
+  private mode: 'start' | 'array' | 'object' | 'done' = 'start';
+  private depth = 0; // Nesting inside the current item
+  private inString = false;
+  private escaped = false;
+  private item = '';
+
+  push(text: string): string[] {
+    const items: string[] = [];
+    // Start of the current item within text (0 if an item continues from the last piece)
+    let itemStart = this.item || this.depth > 0 ? 0 : -1;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === '\\') {
+          this.escaped = true;
+        } else if (char === '"') {
+          this.inString = false;
+        }
+        continue;
+      }
+
+      if (this.mode === 'start' || this.mode === 'done') {
+        if (/[\s\uFEFF]/.test(char)) {
+          continue;
+        }
+        if (this.mode === 'done') {
+          throw new Error('Unexpected content after the end of the JSON data');
+        }
+        if (char === '[') {
+          this.mode = 'array';
+          continue;
+        }
+        if (char !== '{') {
+          throw new Error('Expected a JSON array or object');
+        }
+        this.mode = 'object';
+        itemStart = i;
+        this.depth = 1;
+        continue;
+      }
+
+      if (this.mode === 'array' && this.depth === 0) {
+        if (char === ',' || char === ']') {
+          const pending =
+            this.item + (itemStart >= 0 ? text.slice(itemStart, i) : '');
+          this.item = '';
+          itemStart = -1;
+          if (pending.trim()) {
+            items.push(pending);
+          } else if (char === ',') {
+            throw new Error('Unexpected "," in JSON array');
+          }
+          if (char === ']') {
+            this.mode = 'done';
+          }
+          continue;
+        }
+        if (itemStart < 0 && !/\s/.test(char)) {
+          itemStart = i;
+        }
+      }
+
+      if (char === '"') {
+        this.inString = true;
+      } else if (char === '{' || char === '[') {
+        this.depth++;
+      } else if (char === '}' || char === ']') {
+        this.depth--;
+        if (this.mode === 'object' && this.depth === 0) {
+          items.push(this.item + text.slice(itemStart, i + 1));
+          this.item = '';
+          itemStart = -1;
+          this.mode = 'done';
+        }
+      }
+    }
+
+    if (itemStart >= 0) {
+      this.item += text.slice(itemStart);
+    }
+    return items;
+  }
+
+  end(): void {
+    if (this.mode === 'array' || this.mode === 'object') {
+      throw new Error('Unexpected end of JSON data');
+    }
+  }
+}
+
+@Injectable()
+export class JsonFormatReader implements FormatReader {
+  format = 'json';
+  label = 'JSON';
+  extensions = ['.json'];
+  mimeType = 'application/json';
+  variableColumns = true;
+
+  /**
+   * sniff - Text starting with "[" or "{" (single-line objects are claimed by NDJSON first)
+   */
+  sniff(sample: Buffer): boolean {
+    const first = firstSignificantChar(sample.toString('utf8', 0, 1024));
+    return first === '[' || first === '{';
+  }
+
+  async read(input: Readable): Promise<FormatReaderOutput> {
+    let bytesRead = 0;
+    let itemCount = 0;
+
+    async function* readItems(): AsyncGenerator<ImportRecord> {
+      const decoder = new StringDecoder('utf8');
+      const splitter = new JsonItemSplitter();
+
+      const parseItems = function* (text: string): Generator<ImportRecord> {
+        for (const item of splitter.push(text)) {
+          itemCount++;
+          let value: unknown;
+          try {
+            value = JSON.parse(item);
+          } catch (error) {
+            const message =
+              error instanceof Error ? error.message : String(error);
+            throw new Error(`Invalid JSON in item ${itemCount}: ${message}`);
+          }
+          yield { row: flattenJsonRecord(value), rowNumber: itemCount };
+        }
+      };
+
+      for await (const chunk of input) {
+        bytesRead += chunk.length;
+        yield* parseItems(decoder.write(chunk));
+      }
+      yield* parseItems(decoder.end());
+      splitter.end();
+    }
+
+    return {
+      records: readItems(),
+      getBytesRead: () => bytesRead,
+      // "[]" counts as empty
+      hasHeader: () => itemCount > 0,
+    };
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * ndjson-format.reader.ts - NDJSON Format Reader
+ *
+ * Reads newline-delimited JSON (one JSON object per line, also known as
+ * JSON Lines). Blank lines are skipped; nested objects are flattened into
+ * dotted column names like the JSON reader does.
+ */
+
+import { Injectable } from '@nestjs/common';
+import { Readable } from 'stream';
+import { StringDecoder } from 'string_decoder';
+import { flattenJsonRecord, firstSignificantChar } from './json-format.reader';
+import {
+  FormatReader,
+  FormatReaderOutput,
+  ImportRecord,
+} from '../interfaces/import-format.interface';
+
+@Injectable()
+export class NdjsonFormatReader implements FormatReader {
+  format = 'ndjson';
+  label = 'NDJSON';
+  extensions = ['.ndjson', '.jsonl'];
+  mimeType = 'application/x-ndjson';
+  variableColumns = true;
+
+  /**
+   * sniff - The first line is a complete JSON object on its own
+   */
+  sniff(sample: Buffer, isComplete: boolean): boolean {
+    const text = sample.toString('utf8');
+    if (firstSignificantChar(text) !== '{') {
+      return false;
+    }
+    // Without a line break the first line may be cut off
+    const lines = text.split('\n').filter((line) => line.trim());
+    if (lines.length < 2 && !isComplete) {
+      return false;
+    }
+    try {
+      const value = JSON.parse(lines[0].replace(/^\uFEFF/, ''));
+      return value !== null && typeof value === 'object';
+    } catch {
+      return false;
+    }
+  }
+
+  async read(input: Readable): Promise<FormatReaderOutput> {
+    let bytesRead = 0;
+    let recordCount = 0;
+
+    async function* readLines(): AsyncGenerator<ImportRecord> {
+      const decoder = new StringDecoder('utf8');
+      let pending = '';
+      let lineNumber = 0;
+
+      const parseLines = function* (
+        text: string,
+        isLast: boolean,
+      ): Generator<ImportRecord> {
+        const lines = (pending + text).split('\n');
+        pending = isLast ? '' : (lines.pop() ?? '');
+        for (const line of lines) {
+          lineNumber++;
+          const trimmed = line.replace(/^\uFEFF/, '').trim();
+          if (!trimmed) {
+            continue;
+          }
+          let value: unknown;
+          try {
+            value = JSON.parse(trimmed);
+          } catch (error) {
+            const message =
+              error instanceof Error ? error.message : String(error);
+            throw new Error(`Invalid JSON on line ${lineNumber}: ${message}`);
+          }
+          recordCount++;
+          yield { row: flattenJsonRecord(value), rowNumber: lineNumber };
+        }
+      };
+
+      for await (const chunk of input) {
+        bytesRead += chunk.length;
+        yield* parseLines(decoder.write(chunk), false);
+      }
+      yield* parseLines(decoder.end(), true);
+    }
+
+    return {
+      records: readLines(),
+      getBytesRead: () => bytesRead,
+      hasHeader: () => recordCount > 0,
+    };
+  }
+}
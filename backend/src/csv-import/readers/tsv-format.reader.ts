@@ -0,0 +1,40 @@
+/**
+ * tsv-format.reader.ts - TSV Format Reader
+ *
+ * Tab-separated values: read like CSV, but the delimiter is a tab unless the
+ * user explicitly chose another one.
+ */
+
+import { Injectable } from '@nestjs/common';
+import { Readable } from 'stream';
+import { CsvFormatReader } from './csv-format.reader';
+import { CsvParseOptions } from '../csv-import.service';
+import { FormatReaderOutput } from '../interfaces/import-format.interface';
+
+@Injectable()
+export class TsvFormatReader extends CsvFormatReader {
+  format = 'tsv';
+  label = 'TSV';
+  extensions = ['.tsv', '.tab'];
+  mimeType = 'text/tab-separated-values';
+
+  /**
+   * sniff - Text whose sniffed delimiter is a tab
+   */
+  sniff(sample: Buffer, isComplete: boolean): boolean {
+    return (
+      this.csvDialectService.resolve(sample, undefined, isComplete)
+        .delimiter === '\t'
+    );
+  }
+
+  async read(
+    input: Readable,
+    options: CsvParseOptions | undefined,
+  ): Promise<FormatReaderOutput> {
+    return super.read(input, {
+      ...options,
+      dialect: { delimiter: '\t', ...options?.dialect },
+    });
+  }
+}
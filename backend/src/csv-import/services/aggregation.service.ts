@@ -0,0 +1,261 @@
+/**
+ * aggregation.service.ts - Aggregation Service
+ *
+ * This service groups an upload's rows by some columns and computes metrics
+ * (count, sum, average, minimum, maximum, distinct count) for every group.
+ * The grouping runs in the database on the upload_rows table, so it works for
+ * uploads of any size.
+ *
+ * Responsibilities:
+ * - Check group-by columns, metrics and sort order against the upload's columns
+ * - Translate the request into a parameterized GROUP BY query
+ * - Return the groups as a table, with numbers as numbers
+ */
+
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, SelectQueryBuilder } from 'typeorm';
+import { UploadRowEntity } from '../entities/upload-row.entity';
+import { ColumnSchema } from '../interfaces/column-schema.interface';
+import {
+  AggregateFunction,
+  AggregateRequest,
+  AggregateResult,
+} from '../interfaces/aggregate.interface';
+import { NUMBER_PATTERN } from './upload-row.service';
+import { RowFilterService } from './row-filter.service';
+
+/**
+ * Groups returned when the request sets no limit
+ */
+const DEFAULT_GROUP_LIMIT = 1000;
+
+@Injectable()
+export class AggregationService {
+  constructor(
+    @InjectRepository(UploadRowEntity)
+    private readonly rowRepository: Repository<UploadRowEntity>,
+    private readonly rowFilterService: RowFilterService,
+  ) {}
+
+  /**
+   * aggregate - Groups an upload's rows and computes metrics for every group
+   *
+   * @param uploadId - Upload record ID
+   * @param columnSchema - Column types of the upload
+   * @param request - Group-by columns, metrics, filter expression, sort order and limit
+   * @returns One row per group, in the requested order
+   * @throws BadRequestException for unknown columns, metrics that do not fit their
+   * column, duplicate names or an invalid filter expression
+   *
+   * Empty values form their own group (null). sum and avg ignore values that are not
+   * numbers; min and max compare numeric columns by value and other columns alphabetically.
+   */
+  async aggregate(
+    uploadId: string,
+    columnSchema: ColumnSchema[],
+    request: AggregateRequest,
+  ): Promise<AggregateResult> {
+    const columnTypes = new Map(
+      columnSchema.map((column) => [column.name, column.type]),
+    );
+    const isNumeric = (column: string) =>
+      ['integer', 'number'].includes(columnTypes.get(column));
+    const groupBy = request.groupBy ?? [];
+
+    // Every column must belong to the upload
+    const unknownColumns = [
+      ...groupBy,
+      ...request.metrics.map((metric) => metric.column).filter(Boolean),
+    ].filter((column) => !columnTypes.has(column));
+    if (unknownColumns.length > 0) {
+      throw new BadRequestException(
+        `Unknown column(s): ${[...new Set(unknownColumns)].join(', ')}`,
+      );
+    }
+
+    const metrics = request.metrics.map((metric) => {
+      if (metric.function !== 'count' && !metric.column) {
+        throw new BadRequestException(
+          `Metric ${metric.function} needs a column`,
+        );
+      }
+      if (
+        (metric.function === 'sum' || metric.function === 'avg') &&
+        !isNumeric(metric.column)
+      ) {
+        throw new BadRequestException(
+          `Metric ${metric.function} needs an integer or number column; "${metric.column}" is ${columnTypes.get(metric.column)}`,
+        );
+      }
+      return {
+        name:
+          metric.as ??
+          (metric.column ? `${metric.function}_${metric.column}` : 'count'),
+        function: metric.function,
+        column: metric.column,
+      };
+    });
+
+    // Group-by columns and metric names are the keys of the result rows
+    const names = [...groupBy, ...metrics.map((metric) => metric.name)];
+    const repeated = names.find((name, index) => names.indexOf(name) !== index);
+    if (repeated !== undefined) {
+      throw new BadRequestException(
+        `"${repeated}" is used more than once as a group-by column or metric name`,
+      );
+    }
+    if (request.sort && !names.includes(request.sort.by)) {
+      throw new BadRequestException(
+        `Cannot sort by "${request.sort.by}": not a group-by column or metric name`,
+      );
+    }
+
+    const where = this.rowFilterService.compile(
+      request.filter,
+      [...columnTypes.keys()],
+      'uploadRow.data',
+    );
+
+    // Column names are parameters; each column uses one parameter, so GROUP BY and
+    // ORDER BY expressions match
+    const queryBuilder = this.rowRepository
+      .createQueryBuilder('uploadRow')
+      .select([])
+      .where('uploadRow.uploadId = :uploadId', { uploadId })
+      .setParameter('numberPattern', NUMBER_PATTERN);
+    if (where) {
+      queryBuilder.andWhere(where.sql, where.parameters);
+    }
+
+    const columnParameters = new Map<string, string>();
+    const text = (column: string) => {
+      if (!columnParameters.has(column)) {
+        const parameter = `aggregateColumn${columnParameters.size}`;
+        columnParameters.set(column, parameter);
+        queryBuilder.setParameter(parameter, column);
+      }
+      return `NULLIF(uploadRow.data ->> :${columnParameters.get(column)}, '')`;
+    };
+    const numeric = (value: string) =>
+      `CASE WHEN btrim(${value}) ~ :numberPattern THEN CAST(btrim(${value}) AS numeric) END`;
+
+    const groupExpressions = groupBy.map((column) => text(column));
+    groupExpressions.forEach((expression, index) => {
+      queryBuilder.addSelect(expression, `group${index}`);
+      queryBuilder.addGroupBy(expression);
+    });
+
+    // Count the groups before the metrics, order and limit are added
+    const totalGroups =
+      groupBy.length === 0 ? 1 : await this.countGroups(queryBuilder);
+
+    metrics.forEach((metric, index) => {
+      queryBuilder.addSelect(
+        this.metricSql(
+          metric.function,
+          metric.column && text(metric.column),
+          metric.column && isNumeric(metric.column),
+          numeric,
+        ),
+        `metric${index}`,
+      );
+    });
+
+    // Requested order first, then the groups in ascending order (numeric columns by value)
+    const groupOrder = (index: number) =>
+      isNumeric(groupBy[index])
+        ? numeric(groupExpressions[index])
+        : groupExpressions[index];
+    if (request.sort) {
+      const direction = request.sort.direction === 'desc' ? 'DESC' : 'ASC';
+      const groupIndex = groupBy.indexOf(request.sort.by);
+      queryBuilder.orderBy(
+        groupIndex >= 0
+          ? groupOrder(groupIndex)
+          : `"metric${metrics.findIndex((metric) => metric.name === request.sort.by)}"`,
+        direction,
+        'NULLS LAST',
+      );
+    }
+    groupBy.forEach((_, index) => {
+      queryBuilder.addOrderBy(groupOrder(index), 'ASC', 'NULLS LAST');
+    });
+
+    const rawRows = await queryBuilder
+      .limit(request.limit ?? DEFAULT_GROUP_LIMIT)
+      .getRawMany();
+
+    // The database returns counts and numeric values as text
+    const rows = rawRows.map((raw) => {
+      const row: Record<string, string | number | null> = {};
+      groupBy.forEach((column, index) => {
+        row[column] = raw[`group${index}`] ?? null;
+      });
+      metrics.forEach((metric, index) => {
+        const value = raw[`metric${index}`];
+        const numericValue =
+          metric.function === 'count' ||
+          metric.function === 'distinctCount' ||
+          isNumeric(metric.column);
+        row[metric.name] =
+          value === null || value === undefined
+            ? null
+            : numericValue
+              ? Number(value)
+              : value;
+      });
+      return row;
+    });
+
+    return {
+      groupBy,
+      metrics,
+      rows,
+      totalGroups,
+      truncated: totalGroups > rows.length,
+    };
+  }
+
+  /**
+   * metricSql - SQL for one metric
+   *
+   * @param value - SQL for the column's text value (empty values are null)
+   * @param numericColumn - Whether the column holds integers or numbers
+   */
+  private metricSql(
+    aggregateFunction: AggregateFunction,
+    value: string | undefined,
+    numericColumn: boolean,
+    numeric: (value: string) => string,
+  ): string {
+    switch (aggregateFunction) {
+      case 'count':
+        return value ? `COUNT(${value})` : 'COUNT(*)';
+      case 'distinctCount':
+        return `COUNT(DISTINCT ${value})`;
+      case 'sum':
+        return `SUM(${numeric(value)})`;
+      case 'avg':
+        return `AVG(${numeric(value)})`;
+      case 'min':
+      case 'max':
+        return `${aggregateFunction.toUpperCase()}(${numericColumn ? numeric(value) : value})`;
+    }
+  }
+
+  /**
+   * countGroups - Number of groups a grouped query returns
+   */
+  private async countGroups(
+    queryBuilder: SelectQueryBuilder<UploadRowEntity>,
+  ): Promise<number> {
+    const result = await this.rowRepository.manager
+      .createQueryBuilder()
+      .select('COUNT(*)', 'count')
+      .from(`(${queryBuilder.getQuery()})`, 'groups')
+      .setParameters(queryBuilder.getParameters())
+      .getRawOne();
+    return Number(result?.count ?? 0);
+  }
+}
@@ -35,6 +35,7 @@ export class AuditLogService {
     action: AuditAction,
     options?: {
       userId?: string;
+      workspaceId?: string;
       uploadId?: string;
       fileName?: string;
       userIp?: string;
@@ -47,6 +48,7 @@ export class AuditLogService {
     const auditLog = this.auditLogRepository.create({
       action,
       userId: options?.userId,
+      workspaceId: options?.workspaceId,
       uploadId: options?.uploadId,
       fileName: options?.fileName,
       userIp: options?.userIp,
@@ -62,7 +64,7 @@ export class AuditLogService {
   /**
    * getAuditLogs - Retrieves audit logs with optional filtering and user information
    *
-   * @param filters - Filter options (action, userId, uploadId, date range, etc.)
+   * @param filters - Filter options (action, userId, workspaceId, uploadId, date range, etc.)
    * @param page - Page number for pagination
    * @param limit - Number of records per page
    * @returns Paginated audit logs with user information
@@ -71,6 +73,7 @@ export class AuditLogService {
     filters?: {
       action?: AuditAction;
       userId?: string;
+      workspaceId?: string;
       uploadId?: string;
       startDate?: Date;
       endDate?: Date;
@@ -85,27 +88,44 @@ export class AuditLogService {
     totalPages: number;
   }> {
     // First, get audit logs with pagination
-    const queryBuilder = this.auditLogRepository.createQueryBuilder('audit_log');
+    const queryBuilder =
+      this.auditLogRepository.createQueryBuilder('audit_log');
 
     // Apply filters
     if (filters?.action) {
-      queryBuilder.andWhere('audit_log.action = :action', { action: filters.action });
+      queryBuilder.andWhere('audit_log.action = :action', {
+        action: filters.action,
+      });
     }
 
     if (filters?.userId) {
-      queryBuilder.andWhere('audit_log.userId = :userId', { userId: filters.userId });
+      queryBuilder.andWhere('audit_log.userId = :userId', {
+        userId: filters.userId,
+      });
+    }
+
+    if (filters?.workspaceId) {
+      queryBuilder.andWhere('audit_log.workspaceId = :workspaceId', {
+        workspaceId: filters.workspaceId,
+      });
     }
 
     if (filters?.uploadId) {
-      queryBuilder.andWhere('audit_log.uploadId = :uploadId', { uploadId: filters.uploadId });
+      queryBuilder.andWhere('audit_log.uploadId = :uploadId', {
+        uploadId: filters.uploadId,
+      });
     }
 
     if (filters?.startDate) {
-      queryBuilder.andWhere('audit_log.createdAt >= :startDate', { startDate: filters.startDate });
+      queryBuilder.andWhere('audit_log.createdAt >= :startDate', {
+        startDate: filters.startDate,
+      });
     }
 
     if (filters?.endDate) {
-      queryBuilder.andWhere('audit_log.createdAt <= :endDate', { endDate: filters.endDate });
+      queryBuilder.andWhere('audit_log.createdAt <= :endDate', {
+        endDate: filters.endDate,
+      });
     }
 
     // Order by most recent first
@@ -122,15 +142,18 @@ export class AuditLogService {
     const logs = await queryBuilder.getMany();
 
     // Get unique user IDs from logs
-    const userIds = [...new Set(logs.map(log => log.userId).filter(Boolean))];
+    const userIds = [...new Set(logs.map((log) => log.userId).filter(Boolean))];
 
     // Fetch user information for all user IDs in one query
-    let usersMap = new Map<string, { email: string; firstName?: string; lastName?: string }>();
+    let usersMap = new Map<
+      string,
+      { email: string; firstName?: string; lastName?: string }
+    >();
     if (userIds.length > 0) {
       const users = await this.userRepository.find({
         where: { id: In(userIds) },
       });
-      users.forEach(user => {
+      users.forEach((user) => {
         usersMap.set(user.id, {
           email: user.email,
           firstName: user.firstName,
@@ -140,7 +163,7 @@ export class AuditLogService {
     }
 
     // Map logs to include user information
-    const logsWithUserInfo = logs.map(log => {
+    const logsWithUserInfo = logs.map((log) => {
       const logWithUser: any = { ...log };
       if (log.userId) {
         const user = usersMap.get(log.userId);
@@ -148,9 +171,10 @@ export class AuditLogService {
           logWithUser.userEmail = user.email;
           const firstName = user.firstName || '';
           const lastName = user.lastName || '';
-          logWithUser.userName = firstName || lastName
-            ? `${firstName} ${lastName}`.trim()
-            : user.email?.split('@')[0] || 'Unknown';
+          logWithUser.userName =
+            firstName || lastName
+              ? `${firstName} ${lastName}`.trim()
+              : user.email?.split('@')[0] || 'Unknown';
         }
       }
       return logWithUser;
@@ -165,5 +189,3 @@ export class AuditLogService {
     };
   }
 }
-
-
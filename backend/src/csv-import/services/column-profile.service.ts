@@ -0,0 +1,543 @@
+/**
+ * column-profile.service.ts - Column Profile Service
+ *
+ * This service computes and stores a profile of every column of an upload
+ * (see column-profile.interface.ts): empty and distinct counts, most frequent
+ * values, value lengths and shapes, and the distribution of numbers and dates.
+ *
+ * Rows are read from upload_rows a batch at a time; distinct values, most frequent
+ * values and percentiles are computed by the database.
+ *
+ * Responsibilities:
+ * - Profile the stored rows of an import (called by ImportJobService)
+ * - Store one profile per upload, replacing the previous one
+ * - Serve profiles, computing them first for uploads made before profiling existed
+ * - Delete the profiles of deleted uploads
+ */
+
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { UploadProfileEntity } from '../entities/upload-profile.entity';
+import {
+  ColumnProfile,
+  HistogramBin,
+  UploadProfile,
+} from '../interfaces/column-profile.interface';
+import {
+  ColumnSchema,
+  ColumnValueCounts,
+} from '../interfaces/column-schema.interface';
+import { TypeInferenceService } from './type-inference.service';
+import { UploadRowService } from './upload-row.service';
+
+/**
+ * Most frequent values listed per column
+ */
+const TOP_VALUE_COUNT = 10;
+
+/**
+ * Value shapes listed per column
+ */
+const PATTERN_COUNT = 5;
+
+/**
+ * Bins of each histogram
+ */
+const HISTOGRAM_BINS = 10;
+
+/**
+ * Longest value shape kept (longer shapes are cut and end in …)
+ */
+const MAX_PATTERN_LENGTH = 40;
+
+/**
+ * Distinct value shapes counted per column (shapes first seen after that are not counted)
+ */
+const MAX_TRACKED_PATTERNS = 1000;
+
+/**
+ * Percentiles of numeric columns (p5, p25, p50, p75, p95)
+ */
+const PERCENTILES = [0.05, 0.25, 0.5, 0.75, 0.95];
+
+/**
+ * ValueRange - Count, range, mean and sum of squared deviations of numbers seen so far
+ */
+interface ValueRange {
+  count: number;
+  min: number;
+  max: number;
+  mean: number;
+  squaredDeviations: number;
+}
+
+/**
+ * ProfileTally - What the first pass over the rows found out about one column
+ */
+interface ProfileTally {
+  column: ColumnSchema;
+  emptyCount: number;
+  patterns: Map<string, { count: number; example: string }>;
+  lengths: ValueRange;
+  numbers?: ValueRange; // integer and number columns
+  times?: ValueRange; // date and datetime columns
+}
+
+/**
+ * HistogramFill - Counts the values of a column into one of its histograms
+ */
+interface HistogramFill {
+  column: string;
+  add: (value: string) => void;
+}
+
+@Injectable()
+export class ColumnProfileService {
+  constructor(
+    @InjectRepository(UploadProfileEntity)
+    private readonly profileRepository: Repository<UploadProfileEntity>,
+    private readonly typeInferenceService: TypeInferenceService,
+    private readonly uploadRowService: UploadRowService,
+  ) {}
+
+  /**
+   * saveProfile - Profiles the stored rows of an upload and stores the profile
+   *
+   * @param uploadId - Upload record ID
+   * @param schema - Column types of the upload
+   */
+  async saveProfile(
+    uploadId: string,
+    schema: ColumnSchema[],
+  ): Promise<UploadProfile> {
+    const { rowCount, columns } = await this.profileColumns(uploadId, schema);
+    const entity = await this.profileRepository.manager.transaction(
+      async (manager) => {
+        await manager.delete(UploadProfileEntity, { uploadId });
+        return manager.save(
+          manager.create(UploadProfileEntity, {
+            uploadId,
+            rowCount,
+            columns,
+          }),
+        );
+      },
+    );
+    return this.entityToInterface(entity);
+  }
+
+  /**
+   * getProfile - The stored profile of an upload
+   * Uploads imported before profiling existed are profiled on first request.
+   *
+   * @param uploadId - Upload record ID
+   * @param schema - Column types of the upload
+   */
+  async getProfile(
+    uploadId: string,
+    schema: ColumnSchema[],
+  ): Promise<UploadProfile> {
+    const entity = await this.profileRepository.findOne({
+      where: { uploadId },
+    });
+    if (entity) {
+      return this.entityToInterface(entity);
+    }
+    return this.saveProfile(uploadId, schema);
+  }
+
+  /**
+   * deleteProfiles - Deletes the profiles of the given uploads
+   */
+  async deleteProfiles(uploadIds: string[]): Promise<void> {
+    if (uploadIds.length === 0) {
+      return;
+    }
+    await this.profileRepository.delete({ uploadId: In(uploadIds) });
+  }
+
+  /**
+   * profileColumns - Profiles every column of the schema from the stored rows
+   *
+   * Flow:
+   * 1. Read the rows a batch at a time, counting empty values and shapes and
+   *    tracking the range of lengths, numbers and dates (mean and spread of numbers
+   *    are updated value by value)
+   * 2. Count distinct and most frequent values and compute percentiles in the database
+   * 3. Read the rows again to fill the histograms, now that the ranges are known
+   */
+  private async profileColumns(
+    uploadId: string,
+    schema: ColumnSchema[],
+  ): Promise<{ rowCount: number; columns: ColumnProfile[] }> {
+    const tallies = schema.map((column): ProfileTally => {
+      const tally: ProfileTally = {
+        column,
+        emptyCount: 0,
+        patterns: new Map(),
+        lengths: this.createRange(),
+      };
+      if (column.type === 'integer' || column.type === 'number') {
+        tally.numbers = this.createRange();
+      } else if (column.type === 'date' || column.type === 'datetime') {
+        tally.times = this.createRange();
+      }
+      return tally;
+    });
+
+    let rowCount = 0;
+    for await (const rows of this.uploadRowService.iterateRows(uploadId)) {
+      rowCount += rows.length;
+      for (const row of rows) {
+        for (const tally of tallies) {
+          this.tallyValue(
+            tally,
+            this.typeInferenceService.toText(row.data[tally.column.name]),
+          );
+        }
+      }
+    }
+
+    const valueCounts = await this.uploadRowService.countValues(
+      uploadId,
+      schema.map((column) => column.name),
+      TOP_VALUE_COUNT,
+      false,
+    );
+    const profiles = await Promise.all(
+      tallies.map((tally) =>
+        this.describeColumn(
+          uploadId,
+          tally,
+          rowCount,
+          valueCounts.get(tally.column.name),
+        ),
+      ),
+    );
+
+    const histograms = tallies.flatMap((tally, index) =>
+      this.createHistograms(tally, profiles[index]),
+    );
+    if (histograms.length > 0) {
+      for await (const rows of this.uploadRowService.iterateRows(uploadId)) {
+        for (const row of rows) {
+          for (const histogram of histograms) {
+            histogram.add(
+              this.typeInferenceService.toText(row.data[histogram.column]),
+            );
+          }
+        }
+      }
+    }
+
+    return { rowCount, columns: profiles };
+  }
+
+  /**
+   * tallyValue - Adds one value of a column to its tally
+   */
+  private tallyValue(tally: ProfileTally, value: string): void {
+    if (!value.trim()) {
+      tally.emptyCount++;
+      return;
+    }
+    this.addToRange(tally.lengths, value.length);
+
+    const pattern = this.patternOf(value);
+    const entry = tally.patterns.get(pattern);
+    if (entry) {
+      entry.count++;
+    } else if (tally.patterns.size < MAX_TRACKED_PATTERNS) {
+      tally.patterns.set(pattern, { count: 1, example: value });
+    }
+
+    if (tally.numbers) {
+      const number = this.toNumber(value, tally.column);
+      if (number !== undefined) {
+        this.addToRange(tally.numbers, number);
+      }
+    } else if (tally.times) {
+      const time = this.toTime(value, tally.column);
+      if (time !== undefined) {
+        this.addToRange(tally.times, time);
+      }
+    }
+  }
+
+  /**
+   * describeColumn - Turns the tally of a column into its profile (histograms still empty)
+   */
+  private async describeColumn(
+    uploadId: string,
+    tally: ProfileTally,
+    rowCount: number,
+    counts: ColumnValueCounts | undefined,
+  ): Promise<ColumnProfile> {
+    const { column, emptyCount, lengths, numbers, times } = tally;
+    const profile: ColumnProfile = {
+      name: column.name,
+      type: column.type,
+      emptyCount,
+      emptyRate: rowCount > 0 ? this.round(emptyCount / rowCount) : 0,
+      distinctCount: counts?.distinctCount ?? 0,
+      topValues: counts?.topValues ?? [],
+      patterns: [...tally.patterns]
+        .sort((a, b) => b[1].count - a[1].count)
+        .slice(0, PATTERN_COUNT)
+        .map(([pattern, { count, example }]) => ({ pattern, count, example })),
+    };
+
+    if (lengths.count > 0) {
+      profile.lengths = {
+        min: lengths.min,
+        max: lengths.max,
+        mean: this.round(lengths.mean),
+        histogram: [],
+      };
+    }
+
+    if (numbers && numbers.count > 0) {
+      const [p5, p25, p50, p75, p95] =
+        (await this.uploadRowService.getPercentiles(
+          uploadId,
+          column.name,
+          PERCENTILES,
+        )) ?? [];
+      profile.numeric = {
+        count: numbers.count,
+        min: numbers.min,
+        max: numbers.max,
+        mean: this.round(numbers.mean),
+        stdDev: this.round(
+          Math.sqrt(numbers.squaredDeviations / numbers.count),
+        ),
+        percentiles: {
+          p5: this.round(p5 ?? numbers.min),
+          p25: this.round(p25 ?? numbers.min),
+          p50: this.round(p50 ?? numbers.min),
+          p75: this.round(p75 ?? numbers.max),
+          p95: this.round(p95 ?? numbers.max),
+        },
+        histogram: [],
+      };
+    }
+
+    if (times && times.count > 0) {
+      const toIso = (time: number) =>
+        column.type === 'date'
+          ? new Date(time).toISOString().slice(0, 10)
+          : new Date(time).toISOString();
+      profile.dates = {
+        count: times.count,
+        min: toIso(times.min),
+        max: toIso(times.max),
+        histogram: [],
+      };
+    }
+
+    return profile;
+  }
+
+  /**
+   * createHistograms - Histograms to fill in for a column, with their bins in its profile
+   * Date bins are equal spans of time, labelled with ISO dates (timestamps for datetime columns).
+   */
+  private createHistograms(
+    tally: ProfileTally,
+    profile: ColumnProfile,
+  ): HistogramFill[] {
+    const { column, lengths, numbers, times } = tally;
+    const histograms: HistogramFill[] = [];
+
+    if (profile.lengths) {
+      const histogram = this.createHistogram(lengths.min, lengths.max, true);
+      profile.lengths.histogram = histogram.bins;
+      histograms.push({
+        column: column.name,
+        add: (value) => {
+          if (value.trim()) {
+            histogram.add(value.length);
+          }
+        },
+      });
+    }
+
+    if (numbers && profile.numeric) {
+      const histogram = this.createHistogram(
+        numbers.min,
+        numbers.max,
+        column.type === 'integer',
+      );
+      profile.numeric.histogram = histogram.bins;
+      histograms.push({
+        column: column.name,
+        add: (value) => {
+          const number = this.toNumber(value, column);
+          if (number !== undefined) {
+            histogram.add(number);
+          }
+        },
+      });
+    }
+
+    if (times && profile.dates) {
+      const dates = profile.dates;
+      const histogram = this.createHistogram(times.min, times.max, false);
+      const toIso = (time: number) =>
+        column.type === 'date'
+          ? new Date(time).toISOString().slice(0, 10)
+          : new Date(time).toISOString();
+      dates.histogram = histogram.bins.map((bin) => ({
+        from: toIso(bin.from),
+        to: toIso(bin.to),
+        count: 0,
+      }));
+      histograms.push({
+        column: column.name,
+        add: (value) => {
+          const time = this.toTime(value, column);
+          if (time !== undefined) {
+            dates.histogram[histogram.add(time)].count++;
+          }
+        },
+      });
+    }
+
+    return histograms;
+  }
+
+  /**
+   * toNumber - A value of a numeric column as a number (undefined if it is not one)
+   */
+  private toNumber(value: string, column: ColumnSchema): number | undefined {
+    const number = this.typeInferenceService.coerceValue(value, column);
+    return typeof number === 'number' ? number : undefined;
+  }
+
+  /**
+   * toTime - A value of a date column as a timestamp (undefined if it is not a date)
+   */
+  private toTime(value: string, column: ColumnSchema): number | undefined {
+    const date = this.typeInferenceService.coerceValue(value, column);
+    if (typeof date !== 'string' || !/^\d{4}-\d{2}-\d{2}/.test(date)) {
+      return undefined;
+    }
+    const time = Date.parse(date.length === 10 ? `${date}T00:00:00Z` : date);
+    return Number.isNaN(time) ? undefined : time;
+  }
+
+  /**
+   * createHistogram - HISTOGRAM_BINS equal bins between min and max, and a function
+   * that counts a value in its bin (returning the bin's index)
+   * Integer bins have whole-number bounds; a single value gets a single bin.
+   */
+  private createHistogram(
+    min: number,
+    max: number,
+    integer: boolean,
+  ): { bins: HistogramBin[]; add: (value: number) => number } {
+    if (min === max) {
+      const bins = [{ from: min, to: max, count: 0 }];
+      return {
+        bins,
+        add: () => {
+          bins[0].count++;
+          return 0;
+        },
+      };
+    }
+
+    const width = integer
+      ? Math.max(1, Math.ceil((max - min + 1) / HISTOGRAM_BINS))
+      : (max - min) / HISTOGRAM_BINS;
+    const binCount = integer
+      ? Math.ceil((max - min + 1) / width)
+      : HISTOGRAM_BINS;
+    const bins: HistogramBin[] = Array.from(
+      { length: binCount },
+      (_, index) => ({
+        from: this.round(min + index * width),
+        to: this.round(
+          index === binCount - 1 && !integer ? max : min + (index + 1) * width,
+        ),
+        count: 0,
+      }),
+    );
+    return {
+      bins,
+      add: (value) => {
+        const index = Math.min(binCount - 1, Math.floor((value - min) / width));
+        bins[index].count++;
+        return index;
+      },
+    };
+  }
+
+  /**
+   * createRange - An empty ValueRange
+   */
+  private createRange(): ValueRange {
+    return {
+      count: 0,
+      min: 0,
+      max: 0,
+      mean: 0,
+      squaredDeviations: 0,
+    };
+  }
+
+  /**
+   * addToRange - Adds a value to a range, updating mean and spread as it goes (Welford)
+   */
+  private addToRange(range: ValueRange, value: number): void {
+    range.count++;
+    if (range.count === 1 || value < range.min) range.min = value;
+    if (range.count === 1 || value > range.max) range.max = value;
+    const delta = value - range.mean;
+    range.mean += delta / range.count;
+    range.squaredDeviations += delta * (value - range.mean);
+  }
+
+  /**
+   * patternOf - The shape of a value (see ColumnProfile.patterns)
+   */
+  private patternOf(value: string): string {
+    let pattern = '';
+    for (const char of value) {
+      const symbol = /[A-Z]/.test(char)
+        ? 'A'
+        : /[a-z]/.test(char)
+          ? 'a'
+          : /[0-9]/.test(char)
+            ? '9'
+            : /\p{L}/u.test(char)
+              ? char === char.toUpperCase()
+                ? 'A'
+                : 'a'
+              : char;
+      if (!pattern.endsWith(symbol) || !/[Aa9]/.test(symbol)) {
+        pattern += symbol;
+      }
+    }
+    return pattern.length > MAX_PATTERN_LENGTH
+      ? `${pattern.slice(0, MAX_PATTERN_LENGTH)}…`
+      : pattern;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 1000) / 1000;
+  }
+
+  /**
+   * entityToInterface - Converts a profile entity to the profile returned by the API
+   */
+  private entityToInterface(entity: UploadProfileEntity): UploadProfile {
+    return {
+      uploadId: entity.uploadId,
+      rowCount: entity.rowCount,
+      columns: entity.columns,
+      computedAt: entity.computedAt,
+    };
+  }
+}
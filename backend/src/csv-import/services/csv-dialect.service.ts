@@ -0,0 +1,419 @@
+/**
+ * csv-dialect.service.ts - CSV Dialect Service
+ *
+ * This service works out how a CSV file is written before it is parsed.
+ * Not every system exports comma-separated UTF-8: European Excel exports are
+ * typically semicolon-separated Windows-1252, others use tabs or pipes.
+ *
+ * Responsibilities:
+ * - Sniff encoding (BOM, UTF-16, UTF-8 validity, Windows-1252/Latin-1 fallback)
+ * - Sniff line ending, quote character and delimiter
+ * - Validate user overrides of the detected values
+ * - Decode a file stream into text using the chosen encoding
+ */
+
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { Readable, pipeline } from 'stream';
+import * as iconv from 'iconv-lite';
+import {
+  CsvDialect,
+  CsvEncoding,
+  CsvLineEnding,
+  CSV_DELIMITER_CANDIDATES,
+  CSV_ENCODINGS,
+  CSV_LINE_ENDINGS,
+  CSV_QUOTE_CHARACTERS,
+} from '../interfaces/csv-dialect.interface';
+import { peekStream } from '../../common/utils/peek-stream.util';
+
+/**
+ * How much of the file is inspected when sniffing
+ */
+const SNIFF_BYTES = 64 * 1024;
+
+/**
+ * Maximum number of lines compared when sniffing the delimiter
+ */
+const SNIFF_LINES = 50;
+
+const ICONV_ENCODINGS: Record<CsvEncoding, string> = {
+  'utf-8': 'utf8',
+  'utf-16le': 'utf16le',
+  'utf-16be': 'utf16be',
+  'windows-1252': 'windows1252',
+  'iso-8859-1': 'latin1',
+};
+
+const LINE_SEPARATORS: Record<CsvLineEnding, string> = {
+  lf: '\n',
+  crlf: '\r\n',
+  cr: '\r',
+};
+
+/**
+ * DecodedCsvInput Interface
+ * A file stream decoded to text, plus the dialect it was read with
+ */
+export interface DecodedCsvInput {
+  dialect: CsvDialect;
+  stream: NodeJS.ReadableStream;
+  getBytesRead: () => number; // Raw bytes consumed so far (for progress)
+}
+
+@Injectable()
+export class CsvDialectService {
+  /**
+   * open - Sniffs the dialect of a CSV stream and decodes it to text
+   *
+   * @param input - Raw file stream
+   * @param overrides - Values chosen by the user; only the rest is sniffed
+   * @returns Decoded text stream and the dialect in use
+   *
+   * Only the first SNIFF_BYTES are buffered; they are replayed in front of the
+   * rest of the stream, so nothing is read twice.
+   */
+  async open(
+    input: Readable,
+    overrides?: Partial<CsvDialect>,
+  ): Promise<DecodedCsvInput> {
+    const peeked = await peekStream(input, SNIFF_BYTES);
+    const dialect = this.resolve(peeked.head, overrides, peeked.isComplete);
+
+    // Errors are passed down the pipeline and surface wherever the text is consumed
+    const stream = pipeline(
+      peeked.stream,
+      iconv.decodeStream(ICONV_ENCODINGS[dialect.encoding]),
+      () => undefined,
+    );
+
+    return { dialect, stream, getBytesRead: peeked.getBytesRead };
+  }
+
+  /**
+   * resolve - Completes a (possibly partial) dialect by sniffing a sample
+   *
+   * @param sample - Start of the file
+   * @param overrides - Values chosen by the user (kept as-is)
+   * @param isComplete - Whether the sample is the whole file
+   */
+  resolve(
+    sample: Buffer,
+    overrides?: Partial<CsvDialect>,
+    isComplete = false,
+  ): CsvDialect {
+    const encoding = overrides?.encoding ?? this.detectEncoding(sample);
+
+    let text = iconv.decode(sample, ICONV_ENCODINGS[encoding]);
+    if (!isComplete) {
+      // The sample may end mid-line (or mid-character); drop the partial line
+      const lastBreak = Math.max(
+        text.lastIndexOf('\n'),
+        text.lastIndexOf('\r'),
+      );
+      if (lastBreak > 0) {
+        text = text.slice(0, lastBreak);
+      }
+    }
+
+    const lineEnding = overrides?.lineEnding ?? this.detectLineEnding(text);
+    const quote = overrides?.quote ?? this.detectQuote(text);
+    const delimiter =
+      overrides?.delimiter ?? this.detectDelimiter(text, quote, lineEnding);
+
+    return { delimiter, quote, lineEnding, encoding };
+  }
+
+  /**
+   * getParserOptions - Translates a dialect into csv-parse options
+   */
+  getParserOptions(dialect: CsvDialect): {
+    delimiter: string;
+    quote: string | false;
+    escape: string;
+    record_delimiter: string;
+  } {
+    return {
+      delimiter: dialect.delimiter,
+      quote: dialect.quote || false,
+      // Quotes inside quoted fields are escaped by doubling them
+      escape: dialect.quote || '"',
+      record_delimiter: LINE_SEPARATORS[dialect.lineEnding],
+    };
+  }
+
+  /**
+   * parseOverrides - Validates dialect values supplied by the client
+   *
+   * @param raw - Object (or JSON string) with any of delimiter, quote, lineEnding, encoding
+   * @returns The validated overrides, or undefined if none were given
+   * @throws BadRequestException for unknown keys or unsupported values
+   */
+  parseOverrides(raw: unknown): Partial<CsvDialect> | undefined {
+    if (raw === undefined || raw === null || raw === '') {
+      return undefined;
+    }
+
+    let value = raw;
+    if (typeof raw === 'string') {
+      try {
+        value = JSON.parse(raw);
+      } catch (error) {
+        throw new BadRequestException('Invalid dialect JSON format');
+      }
+    }
+    if (typeof value !== 'object' || Array.isArray(value)) {
+      throw new BadRequestException('Dialect must be an object');
+    }
+
+    const overrides: Partial<CsvDialect> = {};
+    for (const [key, option] of Object.entries(value)) {
+      if (option === undefined || option === null) {
+        continue;
+      }
+      switch (key) {
+        case 'delimiter':
+          if (
+            typeof option !== 'string' ||
+            option.length !== 1 ||
+            /[\r\n]/.test(option)
+          ) {
+            throw new BadRequestException(
+              'Delimiter must be a single character other than a line break',
+            );
+          }
+          overrides.delimiter = option;
+          break;
+        case 'quote':
+          if (!CSV_QUOTE_CHARACTERS.includes(option)) {
+            throw new BadRequestException(
+              `Quote must be one of: ${CSV_QUOTE_CHARACTERS.map((q) => JSON.stringify(q)).join(', ')}`,
+            );
+          }
+          overrides.quote = option;
+          break;
+        case 'lineEnding':
+          if (!CSV_LINE_ENDINGS.includes(option)) {
+            throw new BadRequestException(
+              `Line ending must be one of: ${CSV_LINE_ENDINGS.join(', ')}`,
+            );
+          }
+          overrides.lineEnding = option;
+          break;
+        case 'encoding':
+          if (!CSV_ENCODINGS.includes(option)) {
+            throw new BadRequestException(
+              `Encoding must be one of: ${CSV_ENCODINGS.join(', ')}`,
+            );
+          }
+          overrides.encoding = option;
+          break;
+        default:
+          throw new BadRequestException(`Unknown dialect option "${key}"`);
+      }
+    }
+
+    if (
+      overrides.delimiter !== undefined &&
+      overrides.delimiter === overrides.quote
+    ) {
+      throw new BadRequestException(
+        'Delimiter and quote character must be different',
+      );
+    }
+
+    return Object.keys(overrides).length > 0 ? overrides : undefined;
+  }
+
+  /**
+   * detectEncoding - Guesses the character encoding of a sample
+   *
+   * Order of checks:
+   * 1. Byte order mark (UTF-8, UTF-16 LE/BE)
+   * 2. UTF-16 without BOM (every other byte is zero for mostly-ASCII text)
+   * 3. Valid UTF-8
+   * 4. Windows-1252 if bytes 0x80-0x9F occur (printable there, control codes in Latin-1), else ISO-8859-1
+   */
+  detectEncoding(sample: Buffer): CsvEncoding {
+    if (sample[0] === 0xef && sample[1] === 0xbb && sample[2] === 0xbf) {
+      return 'utf-8';
+    }
+    if (sample[0] === 0xff && sample[1] === 0xfe) {
+      return 'utf-16le';
+    }
+    if (sample[0] === 0xfe && sample[1] === 0xff) {
+      return 'utf-16be';
+    }
+
+    const pairs = Math.floor(Math.min(sample.length, 4096) / 2);
+    if (pairs > 0) {
+      let evenZeros = 0;
+      let oddZeros = 0;
+      for (let i = 0; i < pairs * 2; i += 2) {
+        if (sample[i] === 0) evenZeros++;
+        if (sample[i + 1] === 0) oddZeros++;
+      }
+      if (oddZeros > pairs * 0.3 && evenZeros < pairs * 0.05) {
+        return 'utf-16le';
+      }
+      if (evenZeros > pairs * 0.3 && oddZeros < pairs * 0.05) {
+        return 'utf-16be';
+      }
+    }
+
+    if (this.isValidUtf8(sample)) {
+      return 'utf-8';
+    }
+    return sample.some((byte) => byte >= 0x80 && byte <= 0x9f)
+      ? 'windows-1252'
+      : 'iso-8859-1';
+  }
+
+  /**
+   * detectLineEnding - Picks the most common line ending (LF if there are none)
+   */
+  detectLineEnding(text: string): CsvLineEnding {
+    const crlf = (text.match(/\r\n/g) || []).length;
+    const lf = (text.match(/\n/g) || []).length - crlf;
+    const cr = (text.match(/\r/g) || []).length - crlf;
+
+    if (crlf >= lf && crlf >= cr && crlf > 0) {
+      return 'crlf';
+    }
+    return cr > lf ? 'cr' : 'lf';
+  }
+
+  /**
+   * detectQuote - Picks the quote character that most often wraps whole fields
+   * Defaults to a double quote, which is harmless when nothing is quoted
+   */
+  detectQuote(text: string): string {
+    const separators = CSV_DELIMITER_CANDIDATES.map((d) =>
+      d === '\t' ? '\\t' : `\\${d}`,
+    ).join('');
+    let bestQuote = '"';
+    let bestCount = 0;
+
+    for (const quote of ['"', "'"]) {
+      const pattern = new RegExp(
+        `(^|[${separators}])${quote}[^${quote}\\r\\n]*${quote}(?=[${separators}]|\\r?$)`,
+        'gm',
+      );
+      const count = (text.match(pattern) || []).length;
+      if (count > bestCount) {
+        bestQuote = quote;
+        bestCount = count;
+      }
+    }
+    return bestQuote;
+  }
+
+  /**
+   * detectDelimiter - Picks the delimiter that splits lines into a consistent number of fields
+   *
+   * Each candidate is scored by how many lines share the most common field count;
+   * ties go to the candidate producing more fields. Defaults to a comma.
+   */
+  detectDelimiter(
+    text: string,
+    quote: string,
+    lineEnding: CsvLineEnding,
+  ): string {
+    const lines = text
+      .split(LINE_SEPARATORS[lineEnding])
+      .filter((line) => line.trim().length > 0)
+      .slice(0, SNIFF_LINES);
+    if (lines.length === 0) {
+      return ',';
+    }
+
+    let bestDelimiter = ',';
+    let bestScore = 0;
+    let bestFields = 1;
+
+    for (const delimiter of CSV_DELIMITER_CANDIDATES) {
+      const counts = lines.map((line) =>
+        this.countFields(line, delimiter, quote),
+      );
+
+      // Most common field count across the sampled lines
+      const frequency = new Map<number, number>();
+      counts.forEach((count) =>
+        frequency.set(count, (frequency.get(count) || 0) + 1),
+      );
+      let fields = 1;
+      let matchingLines = 0;
+      frequency.forEach((lineCount, count) => {
+        if (
+          lineCount > matchingLines ||
+          (lineCount === matchingLines && count > fields)
+        ) {
+          fields = count;
+          matchingLines = lineCount;
+        }
+      });
+      if (fields <= 1) {
+        continue;
+      }
+
+      const score = matchingLines / lines.length;
+      if (score > bestScore || (score === bestScore && fields > bestFields)) {
+        bestDelimiter = delimiter;
+        bestScore = score;
+        bestFields = fields;
+      }
+    }
+
+    return bestDelimiter;
+  }
+
+  /**
+   * countFields - Number of fields in a line, ignoring delimiters inside quotes
+   */
+  private countFields(line: string, delimiter: string, quote: string): number {
+    let fields = 1;
+    let inQuotes = false;
+    for (const char of line) {
+      if (quote && char === quote) {
+        inQuotes = !inQuotes;
+      } else if (char === delimiter && !inQuotes) {
+        fields++;
+      }
+    }
+    return fields;
+  }
+
+  /**
+   * isValidUtf8 - Checks that a sample is well-formed UTF-8
+   * A multi-byte sequence cut off at the end of the sample is accepted
+   */
+  private isValidUtf8(sample: Buffer): boolean {
+    let i = 0;
+    while (i < sample.length) {
+      const byte = sample[i];
+      let continuationBytes: number;
+      if (byte < 0x80) {
+        i++;
+        continue;
+      } else if (byte >= 0xc2 && byte <= 0xdf) {
+        continuationBytes = 1;
+      } else if (byte >= 0xe0 && byte <= 0xef) {
+        continuationBytes = 2;
+      } else if (byte >= 0xf0 && byte <= 0xf4) {
+        continuationBytes = 3;
+      } else {
+        return false;
+      }
+
+      for (let j = 1; j <= continuationBytes; j++) {
+        if (i + j >= sample.length) {
+          return true; // Truncated at the end of the sample
+        }
+        if ((sample[i + j] & 0xc0) !== 0x80) {
+          return false;
+        }
+      }
+      i += continuationBytes + 1;
+    }
+    return true;
+  }
+}
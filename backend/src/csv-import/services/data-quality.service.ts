@@ -0,0 +1,512 @@
+/**
+ * data-quality.service.ts - Data Quality Service
+ *
+ * This service keeps the issues of uploads (the upload_issues table, see
+ * upload-issue.interface.ts) and scores the quality of imported data:
+ * - Completeness: share of values that are not empty
+ * - Validity: share of rows that break no validation rule
+ * - Uniqueness: share of rows that are not exact copies of an earlier row
+ * - Consistency: share of values that fit the type inferred for their column
+ *
+ * Responsibilities:
+ * - Store the warnings of an import as issues while the file is parsed, add the stored
+ *   values that do not fit their column type (a batch of rows at a time) and score the
+ *   upload (called by ImportJobService)
+ * - Store the rule violations of failed uploads
+ * - Rescore consistency when the column types of an upload change
+ * - Page through, filter and export the issues of an upload
+ * - Delete the issues of deleted uploads
+ */
+
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, FindOptionsWhere, In, Repository } from 'typeorm';
+import { UploadIssueEntity } from '../entities/upload-issue.entity';
+import {
+  ISSUE_SEVERITIES,
+  IssueCode,
+  IssueSeverity,
+  QualityScore,
+  UploadIssue,
+  VALIDATION_ISSUE_CODES,
+} from '../interfaces/upload-issue.interface';
+import { ColumnSchema } from '../interfaces/column-schema.interface';
+import { ColumnProfile } from '../interfaces/column-profile.interface';
+import { UploadRecord, UploadRow } from '../interfaces/upload-record.interface';
+import { UploadStatus } from '../interfaces/upload-status.enum';
+import { ParseIssue } from '../csv-import.service';
+import { TypeInferenceService } from './type-inference.service';
+import { UploadRowService } from './upload-row.service';
+
+/**
+ * Issues written per INSERT statement
+ */
+const INSERT_BATCH_SIZE = 1000;
+
+/**
+ * Warnings stored with older uploads start with the row they are about
+ */
+const LEGACY_WARNING_PATTERN = /^Row (\d+): (.*?)( \(row rejected\))?$/;
+
+/**
+ * Column types whose values can be checked (text and enum columns fit anything)
+ */
+const CHECKED_TYPES = [
+  'integer',
+  'number',
+  'boolean',
+  'date',
+  'datetime',
+  'email',
+  'url',
+];
+
+/**
+ * UploadIssueQuery - Which issues to return
+ */
+export interface UploadIssueQuery {
+  code?: IssueCode;
+  severity?: IssueSeverity;
+  column?: string;
+}
+
+/**
+ * ImportAssessment - What an import produced, as needed to score it
+ */
+export interface ImportAssessment {
+  rowCount: number; // Imported rows (stored in upload_rows); their warnings are stored issues
+  schema: ColumnSchema[];
+  profile: ColumnProfile[]; // Column profiles of the imported rows
+  rejectedRows?: number; // Rows left out by reject_row validation rules
+}
+
+@Injectable()
+export class DataQualityService {
+  constructor(
+    @InjectRepository(UploadIssueEntity)
+    private readonly issueRepository: Repository<UploadIssueEntity>,
+    private readonly typeInferenceService: TypeInferenceService,
+    private readonly uploadRowService: UploadRowService,
+  ) {}
+
+  /**
+   * appendIssues - Stores warnings of an import as they are found while parsing
+   */
+  async appendIssues(uploadId: string, issues: ParseIssue[]): Promise<void> {
+    await this.insertIssues(
+      this.issueRepository.manager,
+      uploadId,
+      issues.map((issue) => this.toUploadIssue(issue)),
+    );
+  }
+
+  /**
+   * assessImport - Scores the quality of a successful import
+   *
+   * The warnings of the import were stored by appendIssues; the stored rows are
+   * checked against their column types a batch at a time.
+   *
+   * @param uploadId - Upload record ID
+   * @param assessment - Row count, column types and profiles of the import
+   */
+  async assessImport(
+    uploadId: string,
+    assessment: ImportAssessment,
+  ): Promise<QualityScore> {
+    const { rowCount, schema, profile } = assessment;
+    const inconsistent = await this.issueRepository.manager.transaction(
+      async (manager) => {
+        await manager.delete(UploadIssueEntity, {
+          uploadId,
+          code: 'inconsistent_type',
+        });
+        return this.storeInconsistentValues(manager, uploadId, schema);
+      },
+    );
+
+    // Header issues (row 1 of files with a header) are not about a data row
+    const { invalidRows } = await this.issueRepository
+      .createQueryBuilder('issue')
+      .select('COUNT(DISTINCT issue.row)', 'invalidRows')
+      .where('issue.uploadId = :uploadId', { uploadId })
+      .andWhere('issue.code IN (:...codes)', {
+        codes: VALIDATION_ISSUE_CODES.filter(
+          (code) => code !== 'missing_column',
+        ),
+      })
+      .getRawOne();
+    const distinctRows =
+      await this.uploadRowService.countDistinctRows(uploadId);
+
+    return this.score(
+      {
+        rows: rowCount,
+        values: rowCount * schema.length,
+        emptyValues: profile.reduce(
+          (total, column) => total + column.emptyCount,
+          0,
+        ),
+        checkedRows: rowCount + (assessment.rejectedRows ?? 0),
+        invalidRows: Number(invalidRows),
+        duplicateRows: rowCount - distinctRows,
+        typedValues: inconsistent.typedValues,
+        inconsistentValues: inconsistent.count,
+      },
+      await this.countIssues(uploadId),
+    );
+  }
+
+  /**
+   * recordIssues - Stores the issues of an import, e.g. the rule violations of a failed upload
+   */
+  async recordIssues(uploadId: string, issues: ParseIssue[]): Promise<void> {
+    await this.replaceIssues(
+      uploadId,
+      issues.map((issue) => this.toUploadIssue(issue)),
+    );
+  }
+
+  /**
+   * rescoreConsistency - Checks the values of an upload against new column types
+   * Replaces the inconsistent_type issues and updates the consistency of the score;
+   * the other dimensions do not depend on column types.
+   *
+   * @param upload - Upload record (its quality score is the one updated)
+   * @param schema - The new column types
+   * @returns The updated score, or undefined if the upload was never scored
+   */
+  async rescoreConsistency(
+    upload: UploadRecord,
+    schema: ColumnSchema[],
+  ): Promise<QualityScore | undefined> {
+    await this.migrateLegacyIssues(upload);
+    const inconsistent = await this.issueRepository.manager.transaction(
+      async (manager) => {
+        await manager.delete(UploadIssueEntity, {
+          uploadId: upload.id,
+          code: 'inconsistent_type',
+        });
+        return this.storeInconsistentValues(manager, upload.id, schema);
+      },
+    );
+
+    if (!upload.quality) {
+      return undefined;
+    }
+    return this.score(
+      {
+        ...upload.quality.counts,
+        typedValues: inconsistent.typedValues,
+        inconsistentValues: inconsistent.count,
+      },
+      await this.countIssues(upload.id),
+    );
+  }
+
+  /**
+   * getIssues - A page of the issues of an upload, in file order
+   *
+   * @param upload - Upload record
+   * @param query - Only issues with this code, severity and/or column
+   * @param page - Page number (1-based)
+   * @param limit - Issues per page
+   */
+  async getIssues(
+    upload: UploadRecord,
+    query: UploadIssueQuery,
+    page: number,
+    limit: number,
+  ): Promise<{ issues: UploadIssue[]; total: number }> {
+    await this.migrateLegacyIssues(upload);
+    const [entities, total] = await this.issueRepository.findAndCount({
+      where: this.toWhere(upload.id, query),
+      order: { row: 'ASC', column: 'ASC', code: 'ASC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+    return {
+      issues: entities.map((entity) => this.entityToInterface(entity)),
+      total,
+    };
+  }
+
+  /**
+   * getAllIssues - Every issue of an upload matching the query, in file order (CSV download)
+   */
+  async getAllIssues(
+    upload: UploadRecord,
+    query: UploadIssueQuery,
+  ): Promise<UploadIssue[]> {
+    await this.migrateLegacyIssues(upload);
+    const entities = await this.issueRepository.find({
+      where: this.toWhere(upload.id, query),
+      order: { row: 'ASC', column: 'ASC', code: 'ASC' },
+    });
+    return entities.map((entity) => this.entityToInterface(entity));
+  }
+
+  /**
+   * deleteIssues - Deletes the issues of the given uploads
+   */
+  async deleteIssues(uploadIds: string[]): Promise<void> {
+    if (uploadIds.length === 0) {
+      return;
+    }
+    await this.issueRepository.delete({ uploadId: In(uploadIds) });
+  }
+
+  /**
+   * migrateLegacyIssues - Stores the "Row N: message" warnings of an older upload as issues
+   * Uploads imported before issues existed have no score; their warnings get a code
+   * where the message tells which one, "other" otherwise.
+   */
+  private async migrateLegacyIssues(upload: UploadRecord): Promise<void> {
+    if (upload.quality || !upload.errors?.length) {
+      return;
+    }
+    if (await this.issueRepository.exists({ where: { uploadId: upload.id } })) {
+      return;
+    }
+
+    const issues = upload.errors.flatMap((error): UploadIssue[] => {
+      const match = LEGACY_WARNING_PATTERN.exec(error);
+      if (!match) {
+        return [];
+      }
+      const [, row, message, rejected] = match;
+      const column = /^Column "(.+?)":/.exec(message)?.[1];
+      const code: IssueCode =
+        message === 'Row contains only empty values'
+          ? 'empty_row'
+          : message.startsWith('Duplicate of row ')
+            ? 'duplicate_row'
+            : message.startsWith('Possible formula injection')
+              ? 'formula_injection'
+              : message.startsWith('Headers differ from the import template')
+                ? 'header_mismatch'
+                : 'other';
+      return [
+        {
+          row: Number(row),
+          column,
+          code,
+          severity:
+            rejected || upload.status === UploadStatus.FAILED
+              ? 'error'
+              : code === 'empty_row'
+                ? 'info'
+                : 'warning',
+          message,
+        },
+      ];
+    });
+    await this.replaceIssues(upload.id, issues);
+  }
+
+  /**
+   * storeInconsistentValues - Stores an inconsistent_type issue per value that does not
+   * fit the type of its column, reading the stored rows a batch at a time
+   *
+   * @returns How many values did not fit, and how many values were checked
+   */
+  private async storeInconsistentValues(
+    manager: EntityManager,
+    uploadId: string,
+    schema: ColumnSchema[],
+  ): Promise<{ count: number; typedValues: number }> {
+    const columns = schema.filter((column) =>
+      CHECKED_TYPES.includes(column.type),
+    );
+    let count = 0;
+    let typedValues = 0;
+    if (columns.length === 0) {
+      return { count, typedValues };
+    }
+
+    for await (const rows of this.uploadRowService.iterateRows(uploadId)) {
+      const inconsistent = this.findInconsistentValues(rows, columns);
+      await this.insertIssues(manager, uploadId, inconsistent.issues);
+      count += inconsistent.issues.length;
+      typedValues += inconsistent.typedValues;
+    }
+    return { count, typedValues };
+  }
+
+  /**
+   * findInconsistentValues - Values of the given rows that do not fit the type of their column
+   *
+   * @param columns - Columns whose values are checked
+   * @returns An inconsistent_type issue per value, and how many values were checked
+   */
+  private findInconsistentValues(
+    rows: UploadRow[],
+    columns: ColumnSchema[],
+  ): { issues: UploadIssue[]; typedValues: number } {
+    const issues: UploadIssue[] = [];
+    let typedValues = 0;
+
+    rows.forEach((row) => {
+      for (const column of columns) {
+        const value = this.typeInferenceService.toText(row.data[column.name]);
+        if (!value.trim()) {
+          continue;
+        }
+        typedValues++;
+        if (!this.typeInferenceService.fitsType(value, column)) {
+          issues.push({
+            row: row.rowNumber,
+            column: column.name,
+            code: 'inconsistent_type',
+            severity: 'warning',
+            message: `Column "${column.name}": "${value}" does not fit the column type ${column.type}`,
+          });
+        }
+      }
+    });
+    return { issues, typedValues };
+  }
+
+  /**
+   * score - Turns the counts of an upload into a quality score
+   */
+  private score(
+    counts: QualityScore['counts'],
+    issues: QualityScore['issues'],
+  ): QualityScore {
+    // Share of the whole that is fine, as a percentage (100 when there is nothing to measure)
+    const share = (bad: number, whole: number) =>
+      whole > 0 ? Math.round((1 - bad / whole) * 1000) / 10 : 100;
+
+    const completeness = share(counts.emptyValues, counts.values);
+    const validity = share(counts.invalidRows, counts.checkedRows);
+    const uniqueness = share(counts.duplicateRows, counts.rows);
+    const consistency = share(counts.inconsistentValues, counts.typedValues);
+    return {
+      score:
+        Math.round(
+          ((completeness + validity + uniqueness + consistency) / 4) * 10,
+        ) / 10,
+      completeness,
+      validity,
+      uniqueness,
+      consistency,
+      counts,
+      issues,
+    };
+  }
+
+  /**
+   * countIssues - Stored issues of an upload by severity and by code
+   */
+  private async countIssues(uploadId: string): Promise<QualityScore['issues']> {
+    const groups: Array<{
+      code: IssueCode;
+      severity: IssueSeverity;
+      count: string;
+    }> = await this.issueRepository
+      .createQueryBuilder('issue')
+      .select('issue.code', 'code')
+      .addSelect('issue.severity', 'severity')
+      .addSelect('COUNT(*)', 'count')
+      .where('issue.uploadId = :uploadId', { uploadId })
+      .groupBy('issue.code')
+      .addGroupBy('issue.severity')
+      .getRawMany();
+
+    const counts: QualityScore['issues'] = {
+      total: 0,
+      bySeverity: Object.fromEntries(
+        ISSUE_SEVERITIES.map((severity) => [severity, 0]),
+      ) as Record<IssueSeverity, number>,
+      byCode: {},
+    };
+    for (const group of groups) {
+      const count = Number(group.count);
+      counts.total += count;
+      counts.bySeverity[group.severity] += count;
+      counts.byCode[group.code] = (counts.byCode[group.code] ?? 0) + count;
+    }
+    return counts;
+  }
+
+  /**
+   * replaceIssues - Replaces all stored issues of an upload
+   */
+  private async replaceIssues(
+    uploadId: string,
+    issues: UploadIssue[],
+  ): Promise<void> {
+    await this.issueRepository.manager.transaction(async (manager) => {
+      await manager.delete(UploadIssueEntity, { uploadId });
+      await this.insertIssues(manager, uploadId, issues);
+    });
+  }
+
+  /**
+   * insertIssues - Writes issues in batches of INSERT_BATCH_SIZE
+   */
+  private async insertIssues(
+    manager: EntityManager,
+    uploadId: string,
+    issues: UploadIssue[],
+  ): Promise<void> {
+    for (let start = 0; start < issues.length; start += INSERT_BATCH_SIZE) {
+      await manager.insert(
+        UploadIssueEntity,
+        issues.slice(start, start + INSERT_BATCH_SIZE).map((issue) => ({
+          uploadId,
+          row: issue.row,
+          column: issue.column ?? null,
+          code: issue.code,
+          severity: issue.severity,
+          message: issue.message,
+        })),
+      );
+    }
+  }
+
+  /**
+   * toUploadIssue - Gives an import warning or rule violation its issue severity
+   * Rows rejected by rules and violations that failed the upload are errors;
+   * skipped empty rows are only informational.
+   */
+  private toUploadIssue(issue: ParseIssue): UploadIssue {
+    return {
+      row: issue.row,
+      column: issue.column,
+      code: issue.code,
+      severity:
+        issue.severity === 'reject_row' || issue.severity === 'fail_upload'
+          ? 'error'
+          : issue.code === 'empty_row'
+            ? 'info'
+            : 'warning',
+      message: issue.message,
+    };
+  }
+
+  private toWhere(
+    uploadId: string,
+    query: UploadIssueQuery,
+  ): FindOptionsWhere<UploadIssueEntity> {
+    return {
+      uploadId,
+      ...(query.code && { code: query.code }),
+      ...(query.severity && { severity: query.severity }),
+      ...(query.column && { column: query.column }),
+    };
+  }
+
+  /**
+   * entityToInterface - Converts an issue entity to the issue returned by the API
+   */
+  private entityToInterface(entity: UploadIssueEntity): UploadIssue {
+    return {
+      row: entity.row,
+      column: entity.column ?? undefined,
+      code: entity.code,
+      severity: entity.severity,
+      message: entity.message,
+    };
+  }
+}
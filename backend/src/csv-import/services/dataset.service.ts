@@ -0,0 +1,477 @@
+/**
+ * dataset.service.ts - Dataset Service
+ *
+ * This service manages datasets (the datasets table): uploads of the same data
+ * over time, grouped into numbered versions. Every upload is a version of a
+ * dataset; re-importing a file as a new version of an existing dataset gives it
+ * the next number. One successful version is the current one.
+ *
+ * Responsibilities:
+ * - Hand out version numbers to new uploads (a new dataset if none is given)
+ * - Make a newly imported version current, unless a newer one already is
+ * - Change the current version on request (promote or roll back)
+ * - Keep the current version valid when versions are deleted
+ * - Record every change of the current version in the audit log
+ * - Keep each workspace's datasets to its members (a dataset and its versions share a workspace)
+ * - Group uploads made before datasets existed (on startup, see UploadHistoryService)
+ */
+
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, IsNull, Repository } from 'typeorm';
+import { DatasetEntity } from '../entities/dataset.entity';
+import { UploadRecordEntity } from '../entities/upload-record.entity';
+import { AuditAction } from '../entities/audit-log.entity';
+import { AuditLogService } from './audit-log.service';
+import { ImportJobContext } from './import-job.service';
+import { UploadStatus } from '../interfaces/upload-status.enum';
+import { UploadRecord } from '../interfaces/upload-record.interface';
+import { Dataset, VersionChangeReason } from '../interfaces/dataset.interface';
+import { requireWorkspace } from '../../common/utils/workspace.util';
+
+@Injectable()
+export class DatasetService {
+  private readonly logger = new Logger(DatasetService.name);
+
+  constructor(
+    @InjectRepository(DatasetEntity)
+    private readonly datasetRepository: Repository<DatasetEntity>,
+    @InjectRepository(UploadRecordEntity)
+    private readonly uploadRepository: Repository<UploadRecordEntity>,
+    private readonly auditLogService: AuditLogService,
+  ) {}
+
+  /**
+   * groupLegacyUploads - Makes every upload without a dataset version 1 of a dataset of its own
+   * Called on startup by UploadHistoryService, after upload owners have been assigned;
+   * each dataset gets its upload's owner. Uploads are grouped one at a time; an upload
+   * that fails is logged and tried again on the next startup.
+   */
+  async groupLegacyUploads(): Promise<void> {
+    const legacyUploads = await this.uploadRepository.find({
+      where: { datasetId: IsNull() },
+      select: ['id', 'fileName', 'status', 'userId', 'workspaceId'],
+      order: { uploadedAt: 'ASC' },
+    });
+    if (legacyUploads.length === 0) {
+      return;
+    }
+
+    this.logger.log(`Grouping ${legacyUploads.length} upload(s) into datasets`);
+    for (const upload of legacyUploads) {
+      try {
+        await this.uploadRepository.manager.transaction(async (manager) => {
+          const dataset = await manager.save(
+            manager.create(DatasetEntity, {
+              name: this.nameFromFileName(upload.fileName),
+              userId: upload.userId,
+              workspaceId: upload.workspaceId,
+              latestVersion: 1,
+              currentUploadId:
+                upload.status === UploadStatus.SUCCESS ? upload.id : null,
+            }),
+          );
+          await manager.update(UploadRecordEntity, upload.id, {
+            datasetId: dataset.id,
+            version: 1,
+          });
+        });
+      } catch (error) {
+        this.logger.error(
+          `Could not group upload ${upload.id} into a dataset: ${error instanceof Error ? error.message : error}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * assignOwners - Gives datasets without an owner the owner of their first version
+   * Called on startup by UploadHistoryService, for datasets made before ownership
+   * existed; datasets whose versions have no owner yet stay without one.
+   */
+  async assignOwners(): Promise<void> {
+    const result = await this.datasetRepository
+      .createQueryBuilder()
+      .update(DatasetEntity)
+      .set({
+        userId: () =>
+          `(SELECT upload."userId" FROM upload_records upload WHERE upload."datasetId" = CAST(datasets.id AS varchar) AND upload."userId" IS NOT NULL ORDER BY upload.version ASC LIMIT 1)`,
+        updatedAt: () => '"updatedAt"', // Keep the order of the dataset list
+      })
+      .where('"userId" IS NULL')
+      .andWhere(
+        `EXISTS (SELECT 1 FROM upload_records upload WHERE upload."datasetId" = CAST(datasets.id AS varchar) AND upload."userId" IS NOT NULL)`,
+      )
+      .execute();
+    if (result.affected) {
+      this.logger.log(`Assigned owners to ${result.affected} dataset(s)`);
+    }
+  }
+
+  /**
+   * assignVersion - Hands out the version number of a new upload
+   *
+   * @param fileName - Name of the uploaded file (names a new dataset)
+   * @param datasetId - Dataset the upload is a new version of (a new dataset if not given)
+   * @param userId - User who uploaded the file (creates a new dataset)
+   * @param workspaceId - Workspace of the upload; a given dataset must belong to it
+   * @returns The dataset and the upload's version number in it
+   * @throws NotFoundException if there is no dataset with this ID (in the workspace)
+   *
+   * Numbers are taken atomically, so uploads of the same dataset made at the same
+   * time never share a number.
+   */
+  async assignVersion(
+    fileName: string,
+    datasetId?: string,
+    userId?: string,
+    workspaceId?: string,
+  ): Promise<{ datasetId: string; version: number }> {
+    if (!datasetId) {
+      const dataset = await this.datasetRepository.save(
+        this.datasetRepository.create({
+          name: this.nameFromFileName(fileName),
+          userId,
+          workspaceId,
+          latestVersion: 1,
+        }),
+      );
+      return { datasetId: dataset.id, version: 1 };
+    }
+
+    const result = await this.datasetRepository
+      .createQueryBuilder()
+      .update(DatasetEntity)
+      .set({ latestVersion: () => '"latestVersion" + 1' })
+      .where('id = :datasetId', { datasetId })
+      .andWhere('"workspaceId" = :workspaceId', {
+        workspaceId: requireWorkspace(workspaceId),
+      })
+      .returning(['latestVersion'])
+      .execute();
+    if (!result.affected) {
+      throw new NotFoundException('Dataset not found');
+    }
+    return { datasetId, version: Number(result.raw[0].latestVersion) };
+  }
+
+  /**
+   * findOne - A dataset
+   *
+   * @param id - Dataset ID
+   * @param workspaceId - Only a dataset in this workspace
+   * @throws NotFoundException if there is no dataset with this ID (in the workspace)
+   */
+  async findOne(id: string, workspaceId: string): Promise<Dataset> {
+    const dataset = await this.datasetRepository.findOne({
+      where: { id, workspaceId: requireWorkspace(workspaceId) },
+    });
+    if (!dataset) {
+      throw new NotFoundException('Dataset not found');
+    }
+    const [summary] = await this.summarize([dataset]);
+    return summary;
+  }
+
+  /**
+   * findAll - Datasets, most recently changed first
+   *
+   * @param search - Only datasets whose name contains this (case-insensitive)
+   * @param page - Page number (1-based)
+   * @param limit - Datasets per page
+   * @param workspaceId - Only datasets in this workspace
+   */
+  async findAll(
+    search: string | undefined,
+    page: number = 1,
+    limit: number = 10,
+    workspaceId: string,
+  ): Promise<{ datasets: Dataset[]; total: number }> {
+    const queryBuilder = this.datasetRepository
+      .createQueryBuilder('dataset')
+      .where('dataset.workspaceId = :workspaceId', {
+        workspaceId: requireWorkspace(workspaceId),
+      });
+    if (search && search.trim()) {
+      queryBuilder.andWhere('LOWER(dataset.name) LIKE LOWER(:search)', {
+        search: `%${search.trim()}%`,
+      });
+    }
+    queryBuilder.orderBy('dataset.updatedAt', 'DESC');
+
+    const total = await queryBuilder.getCount();
+    const datasets = await queryBuilder
+      .skip((page - 1) * limit)
+      .take(limit)
+      .getMany();
+    return { datasets: await this.summarize(datasets), total };
+  }
+
+  /**
+   * rename - Changes the name of a dataset
+   *
+   * @param workspaceId - Only a dataset in this workspace
+   * @throws NotFoundException if there is no dataset with this ID (in the workspace)
+   */
+  async rename(
+    id: string,
+    name: string,
+    workspaceId: string,
+  ): Promise<Dataset> {
+    await this.findOne(id, workspaceId);
+    await this.datasetRepository.update(id, { name });
+    return this.findOne(id, workspaceId);
+  }
+
+  /**
+   * setCurrentVersion - Makes a version of a dataset the current one
+   *
+   * @param id - Dataset ID
+   * @param uploadId - Upload to make current (an older version rolls back)
+   * @param workspaceId - Only a dataset and upload in this workspace
+   * @param context - Request details for the audit log
+   * @throws NotFoundException if there is no dataset or upload with these IDs (in the workspace)
+   * @throws BadRequestException if the upload is not a successful version of the dataset
+   */
+  async setCurrentVersion(
+    id: string,
+    uploadId: string,
+    workspaceId: string,
+    context: ImportJobContext = {},
+  ): Promise<Dataset> {
+    const dataset = await this.findOne(id, workspaceId);
+    const upload = await this.uploadRepository.findOne({
+      where: { id: uploadId, workspaceId },
+      select: ['id', 'fileName', 'status', 'datasetId', 'version'],
+    });
+    if (!upload) {
+      throw new NotFoundException(`Upload ${uploadId} not found`);
+    }
+    if (upload.datasetId !== id) {
+      throw new BadRequestException(
+        `${upload.fileName} is not a version of ${dataset.name}`,
+      );
+    }
+    if (upload.status !== UploadStatus.SUCCESS) {
+      throw new BadRequestException(
+        `Only successful uploads can be the current version; ${upload.fileName} is ${upload.status}`,
+      );
+    }
+    if (dataset.currentUploadId === upload.id) {
+      return dataset;
+    }
+
+    await this.datasetRepository.update(id, { currentUploadId: upload.id });
+    await this.logVersionChange(
+      dataset,
+      upload,
+      dataset.currentVersion !== undefined &&
+        upload.version < dataset.currentVersion
+        ? 'rollback'
+        : 'promote',
+      context,
+    );
+    return this.findOne(id, workspaceId);
+  }
+
+  /**
+   * promoteImported - Makes a version current after it was imported successfully
+   *
+   * @param upload - The imported upload
+   * @param context - Request details of the upload, for the audit log
+   *
+   * Called by the import job runner. The version does not become current if a newer
+   * version of the dataset already is (an older import that finished late).
+   */
+  async promoteImported(
+    upload: UploadRecord,
+    context: ImportJobContext = {},
+  ): Promise<void> {
+    if (!upload.datasetId) {
+      return;
+    }
+    const dataset = await this.datasetRepository.findOne({
+      where: { id: upload.datasetId },
+    });
+    if (!dataset) {
+      return;
+    }
+    const [previous] = await this.summarize([dataset]);
+
+    // Checked in the update itself, so two imports finishing together keep the newer one
+    const result = await this.datasetRepository
+      .createQueryBuilder()
+      .update(DatasetEntity)
+      .set({ currentUploadId: upload.id })
+      .where('id = :datasetId', { datasetId: dataset.id })
+      .andWhere(
+        `NOT EXISTS (SELECT 1 FROM upload_records newer WHERE CAST(newer.id AS varchar) = datasets."currentUploadId" AND newer.version > :version)`,
+        { version: upload.version },
+      )
+      .execute();
+    if (result.affected) {
+      await this.logVersionChange(previous, upload, 'import', context);
+    }
+  }
+
+  /**
+   * removeVersions - Updates datasets after some of their versions were deleted
+   *
+   * @param datasetIds - Datasets the deleted uploads belonged to
+   *
+   * A dataset whose current version was deleted gets the newest remaining successful
+   * version as its current one; a dataset without versions is deleted.
+   */
+  async removeVersions(datasetIds: string[]): Promise<void> {
+    const ids = [...new Set(datasetIds.filter(Boolean))];
+    if (ids.length === 0) {
+      return;
+    }
+
+    for (const dataset of await this.datasetRepository.find({
+      where: { id: In(ids) },
+    })) {
+      const versions = await this.uploadRepository.find({
+        where: { datasetId: dataset.id },
+        select: ['id', 'fileName', 'status', 'datasetId', 'version'],
+        order: { version: 'DESC' },
+      });
+      if (versions.length === 0) {
+        await this.datasetRepository.delete(dataset.id);
+        continue;
+      }
+      if (versions.some((version) => version.id === dataset.currentUploadId)) {
+        continue;
+      }
+
+      const newest = versions.find(
+        (version) => version.status === UploadStatus.SUCCESS,
+      );
+      const [previous] = await this.summarize([dataset]);
+      await this.datasetRepository.update(dataset.id, {
+        currentUploadId: newest?.id ?? null,
+      });
+      if (newest) {
+        await this.logVersionChange(previous, newest, 'delete', {
+          workspaceId: dataset.workspaceId,
+        });
+      }
+    }
+  }
+
+  /**
+   * annotate - Adds the dataset name and whether each upload is its dataset's current version
+   */
+  async annotate(uploads: UploadRecord[]): Promise<UploadRecord[]> {
+    const datasetIds = [
+      ...new Set(uploads.map((upload) => upload.datasetId).filter(Boolean)),
+    ];
+    if (datasetIds.length === 0) {
+      return uploads;
+    }
+
+    const datasets = new Map(
+      (
+        await this.datasetRepository.find({
+          where: { id: In(datasetIds) },
+          select: ['id', 'name', 'currentUploadId'],
+        })
+      ).map((dataset) => [dataset.id, dataset]),
+    );
+    return uploads.map((upload) => {
+      const dataset = datasets.get(upload.datasetId);
+      return dataset
+        ? {
+            ...upload,
+            datasetName: dataset.name,
+            current: dataset.currentUploadId === upload.id,
+          }
+        : upload;
+    });
+  }
+
+  /**
+   * Datasets with their number of versions and the version number of their current upload
+   */
+  private async summarize(datasets: DatasetEntity[]): Promise<Dataset[]> {
+    if (datasets.length === 0) {
+      return [];
+    }
+
+    const counts: Array<{ datasetId: string; count: string }> =
+      await this.uploadRepository
+        .createQueryBuilder('upload')
+        .select('upload.datasetId', 'datasetId')
+        .addSelect('COUNT(*)', 'count')
+        .where('upload.datasetId IN (:...ids)', {
+          ids: datasets.map((dataset) => dataset.id),
+        })
+        .groupBy('upload.datasetId')
+        .getRawMany();
+    const versionCounts = new Map(
+      counts.map(({ datasetId, count }) => [datasetId, Number(count)]),
+    );
+
+    const currentIds = datasets
+      .map((dataset) => dataset.currentUploadId)
+      .filter(Boolean);
+    const currentVersions = new Map(
+      currentIds.length > 0
+        ? (
+            await this.uploadRepository.find({
+              where: { id: In(currentIds) },
+              select: ['id', 'version'],
+            })
+          ).map((upload) => [upload.id, upload.version])
+        : [],
+    );
+
+    return datasets.map((dataset) => ({
+      id: dataset.id,
+      name: dataset.name,
+      currentUploadId: dataset.currentUploadId ?? undefined,
+      currentVersion: currentVersions.get(dataset.currentUploadId),
+      latestVersion: dataset.latestVersion,
+      versionCount: versionCounts.get(dataset.id) ?? 0,
+      createdAt: dataset.createdAt,
+      updatedAt: dataset.updatedAt,
+    }));
+  }
+
+  /**
+   * Records a change of a dataset's current version in the audit log
+   */
+  private async logVersionChange(
+    previous: Dataset,
+    upload: Pick<UploadRecordEntity, 'id' | 'fileName' | 'version'>,
+    reason: VersionChangeReason,
+    context: ImportJobContext = {},
+  ): Promise<void> {
+    await this.auditLogService.logAction(AuditAction.PROMOTE_VERSION, {
+      ...context,
+      uploadId: upload.id,
+      fileName: upload.fileName,
+      details: {
+        datasetId: previous.id,
+        datasetName: previous.name,
+        version: upload.version,
+        previousUploadId: previous.currentUploadId,
+        previousVersion: previous.currentVersion,
+        reason,
+      },
+      status: 'success',
+    });
+  }
+
+  /**
+   * Name of a new dataset: the file name without its extension
+   */
+  private nameFromFileName(fileName: string): string {
+    return fileName.replace(/\.[^.]+$/, '') || fileName;
+  }
+}
@@ -0,0 +1,173 @@
+/**
+ * excel-reader.service.ts - Excel Reader Service
+ *
+ * This service reads rows from Excel workbooks (.xlsx) so they can go through
+ * the same import pipeline as CSV files.
+ * The workbook is streamed, so only the selected sheet's rows are held in memory.
+ *
+ * Responsibilities:
+ * - Pick a sheet (by name, or the first one)
+ * - Use a chosen row as the header row (title rows above it are skipped)
+ * - Normalize cell values (dates, numbers, formulas, rich text, ...) to strings
+ */
+
+import { Injectable } from '@nestjs/common';
+import { Readable } from 'stream';
+import * as ExcelJS from 'exceljs';
+import { CsvRow } from '../csv-import.service';
+
+/**
+ * ExcelReadOptions Interface
+ * Which part of the workbook to import
+ */
+export interface ExcelReadOptions {
+  sheetName?: string; // First sheet if not given
+  headerRow?: number; // 1-based; rows above it are skipped (default 1)
+}
+
+/**
+ * ExcelRecord Interface
+ * A data row and its row number in the sheet
+ */
+export interface ExcelRecord {
+  row: CsvRow;
+  rowNumber: number;
+}
+
+/**
+ * The streaming worksheet reader has a name at runtime, but not in the type definitions
+ */
+type NamedWorksheetReader = ExcelJS.stream.xlsx.WorksheetReader & {
+  name: string;
+};
+
+@Injectable()
+export class ExcelReaderService {
+  /**
+   * readRows - Streams the data rows of one sheet
+   *
+   * @param input - Raw .xlsx file stream
+   * @param options - Sheet and header row to use
+   * @param onHeader - Called with the sheet name and columns once the header row is read
+   * @returns Async iterator of data rows keyed by header
+   * @throws Error if the sheet does not exist or the file is not a valid workbook
+   */
+  async *readRows(
+    input: Readable,
+    options: ExcelReadOptions,
+    onHeader?: (sheetName: string, columns: string[]) => void,
+  ): AsyncGenerator<ExcelRecord> {
+    const headerRow = options.headerRow ?? 1;
+    const workbook = new ExcelJS.stream.xlsx.WorkbookReader(input, {
+      sharedStrings: 'cache',
+      styles: 'cache', // Needed to recognize dates and number formats
+      hyperlinks: 'ignore',
+      worksheets: 'emit',
+      entries: 'ignore',
+    });
+
+    const sheetNames: string[] = [];
+    try {
+      for await (const worksheet of workbook) {
+        const sheetName = (worksheet as NamedWorksheetReader).name;
+        sheetNames.push(sheetName);
+        if (options.sheetName && sheetName !== options.sheetName) {
+          continue;
+        }
+
+        let columns: string[] | undefined;
+        for await (const row of worksheet) {
+          if (row.number < headerRow) {
+            continue;
+          }
+
+          if (!columns) {
+            // Header row: blank headers get a positional name
+            columns = [];
+            for (let col = 1; col <= row.cellCount; col++) {
+              const cell = row.getCell(col);
+              columns.push(
+                this.normalizeCellValue(cell.value, cell.numFmt) ||
+                  `Column ${col}`,
+              );
+            }
+            onHeader?.(sheetName, columns);
+            continue;
+          }
+
+          const record: CsvRow = {};
+          columns.forEach((column, index) => {
+            const cell = row.getCell(index + 1);
+            record[column] = this.normalizeCellValue(cell.value, cell.numFmt);
+          });
+          yield { row: record, rowNumber: row.number };
+        }
+        return;
+      }
+    } finally {
+      // Stop reading the rest of the workbook once the sheet is done
+      input.destroy();
+    }
+
+    if (options.sheetName) {
+      throw new Error(
+        `Sheet "${options.sheetName}" not found. Available sheets: ${sheetNames.join(', ') || 'none'}`,
+      );
+    }
+  }
+
+  /**
+   * normalizeCellValue - Converts a cell value to the string stored in a CsvRow
+   *
+   * @param value - Cell value as read by ExcelJS
+   * @param numFmt - Number format of the cell, if any
+   * @returns Trimmed string value
+   *
+   * - Dates become YYYY-MM-DD (or YYYY-MM-DDTHH:mm:ss when they have a time)
+   * - Numbers with zero-padded formats (e.g. "00000" for ZIP codes) keep their leading zeros
+   * - Formulas use their cached result; rich text and hyperlinks use their text
+   */
+  normalizeCellValue(value: ExcelJS.CellValue, numFmt?: string): string {
+    if (value === null || value === undefined) {
+      return '';
+    }
+    if (value instanceof Date) {
+      const iso = value.toISOString();
+      return iso.endsWith('T00:00:00.000Z')
+        ? iso.slice(0, 10)
+        : iso.slice(0, 19);
+    }
+    if (typeof value === 'number') {
+      if (numFmt && /^0+$/.test(numFmt) && Number.isInteger(value)) {
+        return String(value).padStart(numFmt.length, '0');
+      }
+      // Drop floating point noise (e.g. 3.3000000000000003)
+      return String(Number(value.toPrecision(15)));
+    }
+    if (typeof value === 'boolean') {
+      return value ? 'true' : 'false';
+    }
+    if (typeof value === 'string') {
+      return value.trim();
+    }
+    if ('richText' in value) {
+      return value.richText
+        .map((part) => part.text)
+        .join('')
+        .trim();
+    }
+    if ('error' in value) {
+      return value.error;
+    }
+    if ('result' in value || 'formula' in value || 'sharedFormula' in value) {
+      const result = (value as { result?: ExcelJS.CellValue }).result;
+      return result === undefined
+        ? ''
+        : this.normalizeCellValue(result as ExcelJS.CellValue, numFmt);
+    }
+    if ('text' in value) {
+      return String(value.text).trim();
+    }
+    return String(value).trim();
+  }
+}
@@ -0,0 +1,395 @@
+/**
+ * export.service.ts - Export Service
+ *
+ * This service writes an upload's rows as a downloadable file.
+ * Output is streamed to the response in small pieces (respecting
+ * backpressure), so large datasets are never built up as one big string.
+ *
+ * Supported formats: CSV, Excel (.xlsx), JSON, NDJSON and Parquet.
+ *
+ * Responsibilities:
+ * - Know the file extension and content type of each format
+ * - Build the name of the exported file
+ * - Check the columns of an export and rename them, so the export matches the screen
+ *   (rows are filtered, sorted and read a page at a time by UploadRowService)
+ * - Neutralize values that spreadsheets would run as formulas (CSV only: Excel
+ *   text cells are never run as formulas, and JSON/Parquet are not spreadsheets)
+ * - Write rows in the chosen format and end the output stream, keeping typed
+ *   values typed where the format can (Excel, JSON, NDJSON, Parquet)
+ */
+
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { Writable } from 'stream';
+import { extname } from 'path';
+import * as ExcelJS from 'exceljs';
+import { ParquetSchema, ParquetWriter } from 'parquetjs-lite';
+import { TypedRow, TypedValue } from '../interfaces/column-schema.interface';
+import { UploadRow } from '../interfaces/upload-record.interface';
+import {
+  FormulaSanitization,
+  sanitizeFormulaValue,
+} from '../../common/utils/formula-injection.util';
+import {
+  ExportColumn,
+  ExportFormat,
+  ExportFormatInfo,
+  ExportOptions,
+  ExportRows,
+  ExportSelection,
+} from '../interfaces/export-format.interface';
+
+const EXPORT_FORMAT_INFO: Record<ExportFormat, ExportFormatInfo> = {
+  csv: { extension: '.csv', contentType: 'text/csv; charset=utf-8' },
+  xlsx: {
+    extension: '.xlsx',
+    contentType:
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  },
+  json: { extension: '.json', contentType: 'application/json; charset=utf-8' },
+  ndjson: {
+    extension: '.ndjson',
+    contentType: 'application/x-ndjson; charset=utf-8',
+  },
+  parquet: {
+    extension: '.parquet',
+    contentType: 'application/vnd.apache.parquet',
+  },
+};
+
+/**
+ * Text formats are written in pieces of about this size
+ */
+const WRITE_BATCH_SIZE = 64 * 1024;
+
+@Injectable()
+export class ExportService {
+  /**
+   * getFormatInfo - File extension and content type of a format
+   */
+  getFormatInfo(format: ExportFormat): ExportFormatInfo {
+    return EXPORT_FORMAT_INFO[format];
+  }
+
+  /**
+   * getFileName - Name of the exported file, e.g. export_customers.xlsx
+   *
+   * @param fileName - Original file name of the upload
+   * @param prefix - What was exported (e.g. issues_customers.csv)
+   */
+  getFileName(
+    fileName: string,
+    format: ExportFormat,
+    prefix: string = 'export',
+  ): string {
+    const baseName = fileName.slice(
+      0,
+      fileName.length - extname(fileName).length,
+    );
+    return `${prefix}_${baseName || fileName}${EXPORT_FORMAT_INFO[format].extension}`;
+  }
+
+  /**
+   * selectColumns - Checks the columns and sort keys of an export
+   *
+   * @param available - Columns of the upload, in order
+   * @param options - Columns to export (default: all) and sort keys
+   * @returns The exported columns and their headers, in order
+   * @throws BadRequestException if a column does not exist or a header is used twice
+   */
+  selectColumns(available: string[], options: ExportOptions): ExportSelection {
+    const columns: ExportColumn[] =
+      options.columns ?? available.map((name) => ({ name }));
+
+    const unknown = [
+      ...columns.map((column) => column.name),
+      ...(options.sort ?? []).map((sort) => sort.column),
+    ].filter((name) => !available.includes(name));
+    if (unknown.length > 0) {
+      throw new BadRequestException(
+        `Unknown column(s): ${[...new Set(unknown)].join(', ')}`,
+      );
+    }
+
+    const headers = columns.map((column) => column.as ?? column.name);
+    const repeated = headers.filter(
+      (header, index) => headers.indexOf(header) !== index,
+    );
+    if (repeated.length > 0) {
+      throw new BadRequestException(
+        `Each exported column needs a unique name: ${[...new Set(repeated)].join(', ')}`,
+      );
+    }
+
+    return { columns, headers };
+  }
+
+  /**
+   * selectRows - Keeps the selected columns of each page of rows, keyed by their headers
+   */
+  async *selectRows(
+    pages: AsyncIterable<UploadRow[]>,
+    selection: ExportSelection,
+  ): AsyncGenerator<TypedRow[]> {
+    for await (const rows of pages) {
+      yield rows.map((row) => this.toExportRow(row.data, selection));
+    }
+  }
+
+  /**
+   * The selected columns of a row, keyed by their headers
+   */
+  private toExportRow(row: TypedRow, selection: ExportSelection): TypedRow {
+    const exported: TypedRow = {};
+    selection.columns.forEach((column, index) => {
+      exported[selection.headers[index]] = this.getValue(row, column.name);
+    });
+    return exported;
+  }
+
+  /**
+   * write - Writes rows in the given format and ends the output stream
+   *
+   * @param format - Export format
+   * @param columns - Columns to write, in order
+   * @param rows - Data rows, or a function that reads them a page at a time
+   * @param output - Destination (e.g. the HTTP response)
+   * @param sanitization - How formula-like values are written to CSV
+   */
+  async write(
+    format: ExportFormat,
+    columns: string[],
+    rows: ExportRows,
+    output: Writable,
+    sanitization: FormulaSanitization = 'off',
+  ): Promise<void> {
+    const readPages = Array.isArray(rows)
+      ? async function* () {
+          yield rows;
+        }
+      : rows;
+    switch (format) {
+      case 'xlsx':
+        return this.writeXlsx(columns, readPages, output);
+      case 'parquet':
+        return this.writeParquet(columns, readPages, output);
+      case 'json':
+        return this.writeText(
+          output,
+          '[\n',
+          readPages(),
+          (row, index) =>
+            (index > 0 ? ',\n' : '') + JSON.stringify(this.pick(row, columns)),
+          (count) => (count > 0 ? '\n]\n' : ']\n'),
+        );
+      case 'ndjson':
+        return this.writeText(
+          output,
+          '',
+          readPages(),
+          (row) => JSON.stringify(this.pick(row, columns)) + '\n',
+          () => '',
+        );
+      default:
+        return this.writeText(
+          output,
+          this.toCsvLine(columns, sanitization),
+          readPages(),
+          (row) =>
+            this.toCsvLine(
+              columns.map((column) => this.toText(row[column])),
+              sanitization,
+            ),
+          () => '',
+        );
+    }
+  }
+
+  /**
+   * Writes a text format in batches, waiting whenever the output is full
+   *
+   * @param tail - Text after the rows, given the number of rows written
+   */
+  private async writeText(
+    output: Writable,
+    head: string,
+    pages: AsyncIterable<TypedRow[]>,
+    formatRow: (row: TypedRow, index: number) => string,
+    tail: (count: number) => string,
+  ): Promise<void> {
+    let batch = head;
+    let index = 0;
+    for await (const rows of pages) {
+      for (const row of rows) {
+        batch += formatRow(row, index++);
+        if (batch.length >= WRITE_BATCH_SIZE) {
+          await this.writeChunk(output, batch);
+          batch = '';
+        }
+      }
+    }
+    batch += tail(index);
+    if (batch) {
+      await this.writeChunk(output, batch);
+    }
+    output.end();
+  }
+
+  /**
+   * Writes a workbook with a single "Data" sheet; text values stay text so
+   * leading zeros and long identifiers survive, typed values keep their type
+   */
+  private async writeXlsx(
+    columns: string[],
+    readPages: () => AsyncIterable<TypedRow[]>,
+    output: Writable,
+  ): Promise<void> {
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+      stream: output,
+      useStyles: false,
+      useSharedStrings: false,
+    });
+    const worksheet = workbook.addWorksheet('Data');
+    worksheet.addRow(columns).commit();
+    for await (const rows of readPages()) {
+      for (const row of rows) {
+        worksheet.addRow(columns.map((column) => row[column] ?? '')).commit();
+      }
+    }
+    // Ends the output stream once the archive is written
+    await workbook.commit();
+  }
+
+  /**
+   * Writes a Parquet file with one optional column per column: DOUBLE or
+   * BOOLEAN when every value is a number or boolean, UTF8 otherwise
+   * The rows are read twice: once to find the column types, once to write them.
+   */
+  private async writeParquet(
+    columns: string[],
+    readPages: () => AsyncIterable<TypedRow[]>,
+    output: Writable,
+  ): Promise<void> {
+    const valueTypes = columns.map(() => new Set<string>());
+    for await (const rows of readPages()) {
+      for (const row of rows) {
+        columns.forEach((column, index) => {
+          const value = row[column];
+          if (value !== null && value !== undefined && value !== '') {
+            valueTypes[index].add(typeof value);
+          }
+        });
+      }
+    }
+    const types = valueTypes.map((found) => this.getParquetType(found));
+    const schema = new ParquetSchema(
+      Object.fromEntries(
+        columns.map((column, index) => [
+          column,
+          { type: types[index], optional: true },
+        ]),
+      ),
+    );
+    const writer = await ParquetWriter.openStream(schema, output);
+    for await (const rows of readPages()) {
+      for (const row of rows) {
+        const record: Record<string, TypedValue> = {};
+        columns.forEach((column, index) => {
+          const value = this.getValue(row, column);
+          // Null fields are left out of a record; empty text stays empty text
+          if (types[index] === 'UTF8') {
+            if (value !== null) {
+              record[column] = String(value);
+            }
+          } else if (value !== null && value !== '') {
+            record[column] = value;
+          }
+        });
+        await writer.appendRow(record);
+      }
+    }
+    // Writes the footer and ends the output stream
+    await writer.close();
+  }
+
+  /**
+   * Parquet type for a column, given the JavaScript types of its non-empty values
+   */
+  private getParquetType(
+    valueTypes: Set<string>,
+  ): 'DOUBLE' | 'BOOLEAN' | 'UTF8' {
+    if (valueTypes.size === 1 && valueTypes.has('number')) {
+      return 'DOUBLE';
+    }
+    if (valueTypes.size === 1 && valueTypes.has('boolean')) {
+      return 'BOOLEAN';
+    }
+    return 'UTF8';
+  }
+
+  /**
+   * Copies the given columns of a row, in order
+   */
+  private pick(row: TypedRow, columns: string[]): TypedRow {
+    const picked: TypedRow = {};
+    for (const column of columns) {
+      picked[column] = this.getValue(row, column);
+    }
+    return picked;
+  }
+
+  /**
+   * The value of a column; missing columns are empty text, typed empty values stay null
+   */
+  private getValue(row: TypedRow, column: string): TypedValue {
+    return row[column] === undefined ? '' : row[column];
+  }
+
+  /**
+   * The text form of a value (empty for null)
+   */
+  private toText(value: TypedValue | undefined): string {
+    return value === null || value === undefined ? '' : String(value);
+  }
+
+  /**
+   * Formats one CSV line, quoting values with delimiters, quotes or line breaks
+   */
+  private toCsvLine(
+    values: string[],
+    sanitization: FormulaSanitization,
+  ): string {
+    return (
+      values
+        .map((value) => sanitizeFormulaValue(value, sanitization))
+        .map((value) =>
+          /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value,
+        )
+        .join(',') + '\n'
+    );
+  }
+
+  /**
+   * Writes a chunk; if the output is full, waits until it drains
+   * (or fails when the client has gone away)
+   */
+  private writeChunk(output: Writable, chunk: string): Promise<void> {
+    if (output.destroyed) {
+      return Promise.reject(new Error('Output stream closed'));
+    }
+    if (output.write(chunk)) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve, reject) => {
+      const onDrain = () => {
+        output.off('close', onClose);
+        resolve();
+      };
+      const onClose = () => {
+        output.off('drain', onDrain);
+        reject(new Error('Output stream closed'));
+      };
+      output.once('drain', onDrain);
+      output.once('close', onClose);
+    });
+  }
+}
@@ -0,0 +1,203 @@
+/**
+ * file-storage.service.ts - File Storage Service
+ *
+ * This service manages uploaded files on disk.
+ * Multer streams incoming uploads into a temp directory; once an upload record exists,
+ * the file is moved next to the other originals so it can be downloaded later.
+ *
+ * Chunked uploads are written chunk by chunk into a per-session directory and
+ * assembled into a single temp file once the client completes the session.
+ *
+ * Responsibilities:
+ * - Move temp uploads into permanent storage
+ * - Open read streams for stored files
+ * - Store and assemble chunks of resumable uploads
+ * - Remove stored and temp files
+ */
+
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createReadStream, createWriteStream, promises as fs } from 'fs';
+import { join } from 'path';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { createHash, randomUUID } from 'crypto';
+import {
+  getUploadDir,
+  getUploadTempDir,
+} from '../../common/config/upload.config';
+
+/**
+ * ChunkTooLargeError - Thrown when a chunk is bigger than the session allows
+ */
+export class ChunkTooLargeError extends Error {
+  constructor(maxBytes: number) {
+    super(`Chunk exceeds the maximum size of ${maxBytes} bytes`);
+    this.name = 'ChunkTooLargeError';
+  }
+}
+
+@Injectable()
+export class FileStorageService {
+  private readonly originalsDir: string;
+  private readonly chunksDir: string;
+  private readonly tempDir: string;
+
+  constructor(configService: ConfigService) {
+    this.originalsDir = join(getUploadDir(configService), 'originals');
+    this.chunksDir = join(getUploadDir(configService), 'chunks');
+    this.tempDir = getUploadTempDir(configService);
+  }
+
+  /**
+   * persistUpload - Moves a temp upload into permanent storage
+   *
+   * @param uploadId - Upload record ID (used as the stored file name)
+   * @param tempPath - Path multer wrote the incoming file to
+   * @returns Absolute path of the stored file
+   */
+  async persistUpload(uploadId: string, tempPath: string): Promise<string> {
+    await fs.mkdir(this.originalsDir, { recursive: true });
+    const targetPath = join(this.originalsDir, uploadId);
+    await fs.rename(tempPath, targetPath);
+    return targetPath;
+  }
+
+  /**
+   * openReadStream - Opens a stored file for streaming
+   *
+   * @param path - Absolute path of the stored file
+   */
+  openReadStream(path: string): Readable {
+    return createReadStream(path);
+  }
+
+  /**
+   * exists - Checks whether a stored file is still on disk
+   */
+  async exists(path: string): Promise<boolean> {
+    try {
+      await fs.access(path);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * writeChunk - Streams one chunk of a resumable upload to disk
+   *
+   * @param sessionId - Upload session ID
+   * @param index - Zero-based chunk number
+   * @param input - Request body stream
+   * @param maxBytes - Largest size this chunk may have
+   * @returns Chunk size in bytes and its SHA-256 (hex)
+   *
+   * The chunk is written to a temp name first and renamed when complete, so a
+   * dropped connection never leaves a partial chunk behind.
+   */
+  async writeChunk(
+    sessionId: string,
+    index: number,
+    input: Readable,
+    maxBytes: number,
+  ): Promise<{ size: number; checksum: string }> {
+    const sessionDir = join(this.chunksDir, sessionId);
+    await fs.mkdir(sessionDir, { recursive: true });
+
+    const partialPath = join(sessionDir, `${index}.${randomUUID()}.part`);
+    const hash = createHash('sha256');
+    let size = 0;
+
+    try {
+      await pipeline(
+        input,
+        new Transform({
+          transform(chunk: Buffer, _encoding, callback) {
+            size += chunk.length;
+            if (size > maxBytes) {
+              callback(new ChunkTooLargeError(maxBytes));
+              return;
+            }
+            hash.update(chunk);
+            callback(null, chunk);
+          },
+        }),
+        createWriteStream(partialPath),
+      );
+      await fs.rename(partialPath, join(sessionDir, String(index)));
+    } catch (error) {
+      await this.remove(partialPath);
+      throw error;
+    }
+
+    return { size, checksum: hash.digest('hex') };
+  }
+
+  /**
+   * assembleChunks - Concatenates the chunks of a session into one temp file
+   *
+   * @param sessionId - Upload session ID
+   * @param totalChunks - Number of chunks to concatenate (0 .. totalChunks - 1)
+   * @returns Path of the assembled file and the SHA-256 (hex) of each chunk as read back
+   */
+  async assembleChunks(
+    sessionId: string,
+    totalChunks: number,
+  ): Promise<{ path: string; chunkChecksums: string[] }> {
+    await fs.mkdir(this.tempDir, { recursive: true });
+    const targetPath = join(this.tempDir, randomUUID());
+    const output = createWriteStream(targetPath);
+    const chunkChecksums: string[] = [];
+
+    try {
+      for (let index = 0; index < totalChunks; index++) {
+        const hash = createHash('sha256');
+        const chunkStream = createReadStream(
+          join(this.chunksDir, sessionId, String(index)),
+        );
+        chunkStream.on('data', (data: Buffer) => hash.update(data));
+        await pipeline(chunkStream, output, { end: false });
+        chunkChecksums.push(hash.digest('hex'));
+      }
+      await new Promise<void>((resolve, reject) =>
+        output.end((error?: Error | null) =>
+          error ? reject(error) : resolve(),
+        ),
+      );
+    } catch (error) {
+      output.destroy();
+      await this.remove(targetPath);
+      throw error;
+    }
+
+    return { path: targetPath, chunkChecksums };
+  }
+
+  /**
+   * removeChunks - Deletes all stored chunks of a session
+   */
+  async removeChunks(sessionId: string): Promise<void> {
+    await fs.rm(join(this.chunksDir, sessionId), {
+      recursive: true,
+      force: true,
+    });
+  }
+
+  /**
+   * remove - Deletes a stored or temp file
+   * Missing files are ignored so cleanup can be called unconditionally
+   */
+  async remove(path?: string): Promise<void> {
+    if (!path) {
+      return;
+    }
+    try {
+      await fs.unlink(path);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  }
+}
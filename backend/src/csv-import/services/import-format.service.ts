@@ -0,0 +1,141 @@
+/**
+ * import-format.service.ts - Import Format Service
+ *
+ * This service is the registry of file format readers.
+ * It decides which reader handles an uploaded file: by file extension, or by
+ * sniffing the content when the extension does not say (e.g. .txt exports).
+ *
+ * Built-in formats: CSV, TSV, JSON, NDJSON and Excel (.xlsx).
+ * Further formats can be added with register().
+ *
+ * Responsibilities:
+ * - Keep the list of readers and the file extensions they accept
+ * - Pick a reader for a file (extension first, then content sniffing)
+ * - Explain why a file type is not supported
+ */
+
+import { Injectable } from '@nestjs/common';
+import { Readable } from 'stream';
+import { extname } from 'path';
+import { FormatReader } from '../interfaces/import-format.interface';
+import { CsvFormatReader } from '../readers/csv-format.reader';
+import { TsvFormatReader } from '../readers/tsv-format.reader';
+import { JsonFormatReader } from '../readers/json-format.reader';
+import { NdjsonFormatReader } from '../readers/ndjson-format.reader';
+import { ExcelFormatReader } from '../readers/excel-format.reader';
+import { peekStream } from '../../common/utils/peek-stream.util';
+
+/**
+ * Extensions accepted for upload whose format is always sniffed from the content
+ */
+const SNIFFED_EXTENSIONS = ['.txt'];
+
+/**
+ * How much of a file is inspected when sniffing its format
+ */
+const SNIFF_BYTES = 64 * 1024;
+
+@Injectable()
+export class ImportFormatService {
+  private readonly readers: FormatReader[] = [];
+
+  constructor(
+    private readonly csvFormatReader: CsvFormatReader,
+    tsvFormatReader: TsvFormatReader,
+    jsonFormatReader: JsonFormatReader,
+    ndjsonFormatReader: NdjsonFormatReader,
+    excelFormatReader: ExcelFormatReader,
+  ) {
+    // Sniffing tries readers in this order; CSV is the fallback
+    this.register(excelFormatReader);
+    this.register(ndjsonFormatReader);
+    this.register(jsonFormatReader);
+    this.register(tsvFormatReader);
+    this.register(csvFormatReader);
+  }
+
+  /**
+   * register - Adds a reader, replacing any reader for the same format
+   */
+  register(reader: FormatReader): void {
+    const index = this.readers.findIndex((r) => r.format === reader.format);
+    if (index === -1) {
+      this.readers.push(reader);
+    } else {
+      this.readers[index] = reader;
+    }
+  }
+
+  /**
+   * getReader - Reader for a format stored on an upload record
+   */
+  getReader(format: string | undefined): FormatReader | undefined {
+    return this.readers.find((reader) => reader.format === format);
+  }
+
+  /**
+   * getDefaultReader - The CSV reader, used when sniffing recognizes nothing else
+   */
+  getDefaultReader(): FormatReader {
+    return this.csvFormatReader;
+  }
+
+  /**
+   * getReaderForFileName - Reader whose extensions match the file name
+   */
+  getReaderForFileName(fileName: string): FormatReader | undefined {
+    const extension = extname(fileName).toLowerCase();
+    return this.readers.find((reader) => reader.extensions.includes(extension));
+  }
+
+  /**
+   * detect - Picks the reader for an uploaded file
+   *
+   * @param fileName - Original file name
+   * @param input - File content
+   * @returns The reader and the stream to hand it (input itself, or a replay
+   *          of it if the start had to be read for sniffing)
+   */
+  async detect(
+    fileName: string,
+    input: Readable,
+  ): Promise<{ reader: FormatReader; stream: Readable }> {
+    const byExtension = this.getReaderForFileName(fileName);
+    if (byExtension) {
+      return { reader: byExtension, stream: input };
+    }
+
+    const peeked = await peekStream(input, SNIFF_BYTES);
+    const reader =
+      this.readers.find((r) => r.sniff?.(peeked.head, peeked.isComplete)) ??
+      this.getDefaultReader();
+    return { reader, stream: peeked.stream };
+  }
+
+  /**
+   * getSupportedExtensions - All extensions accepted for upload
+   */
+  getSupportedExtensions(): string[] {
+    return [
+      ...this.readers.flatMap((reader) => reader.extensions),
+      ...SNIFFED_EXTENSIONS,
+    ];
+  }
+
+  /**
+   * getUnsupportedFileTypeMessage - Explains why a file cannot be imported
+   *
+   * @returns The reason, or undefined if the extension is supported
+   */
+  getUnsupportedFileTypeMessage(fileName: string): string | undefined {
+    const extension = extname(fileName).toLowerCase();
+    if (extension === '.xls') {
+      return `Legacy Excel files (.xls) are not supported: "${fileName}". Please save the workbook as .xlsx and upload it again`;
+    }
+    const supported = this.getSupportedExtensions();
+    if (!supported.includes(extension)) {
+      return `Invalid file type: "${fileName}". Supported file types: ${supported.join(', ')}`;
+    }
+    return undefined;
+  }
+}
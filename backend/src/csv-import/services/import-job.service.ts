@@ -0,0 +1,532 @@
+/**
+ * import-job.service.ts - Import Job Service
+ *
+ * This service runs CSV imports in the background.
+ * The upload endpoint only stores the file and queues a job; the job then parses
+ * the stored file and records progress on the upload record as it goes.
+ *
+ * Responsibilities:
+ * - Queue import jobs (in-process queue, IMPORT_JOB_CONCURRENCY workers)
+ * - Persist jobs to the import_jobs table (IMPORT_JOB_STORE=database, the default)
+ * - Resume queued or interrupted jobs after a restart
+ * - Update upload progress, final status and audit log
+ * - Make a successful import the current version of its dataset
+ * - Publish progress/completed/failed events for connected clients
+ */
+
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository, In } from 'typeorm';
+import { randomUUID } from 'crypto';
+import { CsvImportService, CsvParseOptions } from '../csv-import.service';
+import { ALL_WORKSPACES, UploadHistoryService } from './upload-history.service';
+import { AuditLogService } from './audit-log.service';
+import { UploadEventsService } from './upload-events.service';
+import { ImportFormatService } from './import-format.service';
+import { ValidationFailedError } from './validation-rules.service';
+import {
+  MAX_LISTED_ENUM_VALUES,
+  TypeInferenceService,
+} from './type-inference.service';
+import { UploadRowService } from './upload-row.service';
+import { ColumnProfileService } from './column-profile.service';
+import { DataQualityService } from './data-quality.service';
+import { DatasetService } from './dataset.service';
+import { AuditAction } from '../entities/audit-log.entity';
+import {
+  ImportJobEntity,
+  ImportJobStatus,
+} from '../entities/import-job.entity';
+import { UploadStatus } from '../interfaces/upload-status.enum';
+import { UploadPhase } from '../interfaces/upload-phase.enum';
+import { UploadEventType } from '../interfaces/upload-event.interface';
+import { UploadRecord } from '../interfaces/upload-record.interface';
+
+/**
+ * ImportJobOptions - Parse options stored with a job
+ * Everything in CsvParseOptions except callbacks, so it can be saved as JSON,
+ * plus the import template the options came from, whether values are stored typed
+ * and the dataset the upload is a version of
+ */
+export type ImportJobOptions = Omit<
+  CsvParseOptions,
+  'onProgress' | 'onRows'
+> & {
+  templateId?: string;
+  coerceTypes?: boolean; // Store values converted to their inferred column types
+  datasetId?: string; // Dataset the upload is a new version of (a new dataset if not set)
+};
+
+/**
+ * ImportJobContext - Request details kept for audit logging
+ */
+export interface ImportJobContext {
+  userId?: string;
+  workspaceId?: string; // Workspace the upload was made in
+  userIp?: string;
+  userAgent?: string;
+}
+
+interface QueuedImportJob {
+  id: string;
+  uploadId: string;
+  options: ImportJobOptions;
+  context: ImportJobContext;
+  attempts: number;
+}
+
+@Injectable()
+export class ImportJobService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(ImportJobService.name);
+  private readonly queue: QueuedImportJob[] = [];
+  private readonly concurrency: number;
+  private readonly persistJobs: boolean;
+  private activeJobs = 0;
+
+  constructor(
+    @InjectRepository(ImportJobEntity)
+    private readonly importJobRepository: Repository<ImportJobEntity>,
+    private readonly csvImportService: CsvImportService,
+    private readonly uploadHistoryService: UploadHistoryService,
+    private readonly auditLogService: AuditLogService,
+    private readonly uploadEventsService: UploadEventsService,
+    private readonly importFormatService: ImportFormatService,
+    private readonly typeInferenceService: TypeInferenceService,
+    private readonly uploadRowService: UploadRowService,
+    private readonly columnProfileService: ColumnProfileService,
+    private readonly dataQualityService: DataQualityService,
+    private readonly datasetService: DatasetService,
+    configService: ConfigService,
+  ) {
+    const concurrency = Number(configService.get('IMPORT_JOB_CONCURRENCY', 1));
+    this.concurrency =
+      Number.isInteger(concurrency) && concurrency > 0 ? concurrency : 1;
+    this.persistJobs =
+      configService.get<string>('IMPORT_JOB_STORE', 'database') !== 'memory';
+  }
+
+  /**
+   * onApplicationBootstrap - Re-queues jobs that did not finish before the last shutdown
+   * Jobs that were RUNNING were interrupted mid-parse and start again from the beginning.
+   */
+  async onApplicationBootstrap(): Promise<void> {
+    if (!this.persistJobs) {
+      return;
+    }
+
+    const pendingJobs = await this.importJobRepository.find({
+      where: { status: In([ImportJobStatus.QUEUED, ImportJobStatus.RUNNING]) },
+      order: { createdAt: 'ASC' },
+    });
+    if (pendingJobs.length === 0) {
+      return;
+    }
+
+    this.logger.log(`Resuming ${pendingJobs.length} pending import job(s)`);
+    for (const job of pendingJobs) {
+      this.queue.push({
+        id: job.id,
+        uploadId: job.uploadId,
+        options: (job.options || {}) as ImportJobOptions,
+        context: (job.context || {}) as ImportJobContext,
+        attempts: job.attempts,
+      });
+    }
+    this.processQueue();
+  }
+
+  /**
+   * enqueue - Queues an import for an upload whose file is already in storage
+   *
+   * @param uploadId - Upload record ID (status PROCESSING, phase QUEUED)
+   * @param options - Parse options (dialect overrides or sheet, duplicate handling, column mapping)
+   * @param context - Request details for the audit log entry written when the job finishes
+   * @returns Job ID
+   */
+  async enqueue(
+    uploadId: string,
+    options: ImportJobOptions,
+    context: ImportJobContext,
+  ): Promise<string> {
+    let jobId: string = randomUUID();
+    if (this.persistJobs) {
+      const saved = await this.importJobRepository.save(
+        this.importJobRepository.create({
+          uploadId,
+          status: ImportJobStatus.QUEUED,
+          options,
+          context,
+        }),
+      );
+      jobId = saved.id;
+    }
+
+    this.queue.push({ id: jobId, uploadId, options, context, attempts: 0 });
+    this.processQueue();
+    return jobId;
+  }
+
+  /**
+   * processQueue - Starts queued jobs until the concurrency limit is reached
+   */
+  private processQueue(): void {
+    while (this.activeJobs < this.concurrency && this.queue.length > 0) {
+      const job = this.queue.shift();
+      this.activeJobs++;
+      this.runJob(job)
+        .catch((error) =>
+          this.logger.error(
+            `Import job ${job.id} crashed: ${error instanceof Error ? error.message : error}`,
+          ),
+        )
+        .finally(() => {
+          this.activeJobs--;
+          this.processQueue();
+        });
+    }
+  }
+
+  /**
+   * runJob - Parses the stored file for one upload and records the outcome
+   *
+   * Flow:
+   * 1. Mark the job RUNNING and the upload phase PARSING
+   * 2. Stream the stored file through the reader for its format, recording progress;
+   *    parsed rows are written to upload_rows with their warnings and duplicate flags
+   *    a batch at a time, and tallied for type inference as they go
+   * 3. Infer column types (phase SAVING), convert the stored values if coerceTypes
+   *    is set, store the column profiles and issues, score the data quality and mark
+   *    the upload SUCCESS
+   * 4. On any error, remove the rows written so far and mark the upload FAILED with
+   *    a descriptive message
+   *    (for fail_upload validation rules, errors and the stored issues list the violations)
+   * 5. Write the UPLOAD audit log entry using the original request details
+   */
+  private async runJob(job: QueuedImportJob): Promise<void> {
+    const upload = await this.uploadHistoryService.getUploadById(
+      job.uploadId,
+      ALL_WORKSPACES,
+    );
+    if (!upload) {
+      // The upload was deleted while the job was waiting
+      await this.updateJob(job.id, {
+        status: ImportJobStatus.FAILED,
+        errorMessage: 'Upload record not found',
+        finishedAt: new Date(),
+      });
+      return;
+    }
+
+    job.attempts++;
+    await this.updateJob(job.id, {
+      status: ImportJobStatus.RUNNING,
+      attempts: job.attempts,
+      startedAt: new Date(),
+    });
+
+    try {
+      const input = await this.uploadHistoryService.getOriginalFileStream(
+        upload.id,
+      );
+      if (!input) {
+        throw new Error('Uploaded file is no longer available');
+      }
+
+      await this.reportProgress(job, upload, {
+        phase: UploadPhase.PARSING,
+        rowsProcessed: 0,
+        progressPercent: 0,
+      });
+
+      // Rows and issues of an interrupted earlier run are written again
+      await this.uploadRowService.deleteRows([upload.id]);
+      await this.dataQualityService.deleteIssues([upload.id]);
+      const tally = this.typeInferenceService.createTally();
+
+      const result = await this.csvImportService.parseFileStream(
+        upload.fileName,
+        input,
+        {
+          ...job.options,
+          // A dialect or sheet stored by an earlier run wins, so re-parsing reads the file the same way
+          dialect: { ...job.options.dialect, ...upload.dialect },
+          sheetName: upload.sheetName ?? job.options.sheetName,
+          headerRow: upload.headerRow ?? job.options.headerRow,
+          // Percent is estimated from bytes read; 100 is only reported once the data is saved
+          onProgress: ({ rowsProcessed, bytesProcessed }) =>
+            this.reportProgress(job, upload, {
+              rowsProcessed,
+              progressPercent:
+                upload.fileSize > 0
+                  ? Math.min(99, (bytesProcessed / upload.fileSize) * 100)
+                  : 0,
+            }),
+          onRows: async (rows) => {
+            tally.add(rows.map((row) => row.data));
+            await this.uploadRowService.appendRows(upload.id, rows);
+          },
+          onIssues: (issues) =>
+            this.dataQualityService.appendIssues(upload.id, issues),
+        },
+      );
+
+      await this.reportProgress(job, upload, {
+        phase: UploadPhase.SAVING,
+        rowsProcessed: result.rowCount,
+      });
+
+      if (result.columnsVary) {
+        await this.uploadRowService.fillMissingColumns(
+          upload.id,
+          result.columns,
+        );
+      }
+      const columnSchema = this.typeInferenceService.describeColumns(
+        tally,
+        result.rowCount,
+        await this.uploadRowService.countValues(
+          upload.id,
+          tally.columns(),
+          MAX_LISTED_ENUM_VALUES,
+        ),
+      );
+      if (job.options.coerceTypes) {
+        await this.uploadRowService.convertRows(upload.id, columnSchema, true);
+      }
+      const profile = await this.columnProfileService.saveProfile(
+        upload.id,
+        columnSchema,
+      );
+      const quality = await this.dataQualityService.assessImport(upload.id, {
+        rowCount: result.rowCount,
+        schema: columnSchema,
+        profile: profile.columns,
+        rejectedRows: result.rejectedRows,
+      });
+
+      // Prepare error messages with row numbers (a sample; all warnings are upload issues)
+      const errorMessages = result.errors.map(
+        (err) =>
+          `Row ${err.row}: ${err.message}${err.severity === 'reject_row' ? ' (row rejected)' : ''}`,
+      );
+
+      // Prepare duplicate information
+      const duplicateCount = result.duplicateCount || 0;
+      let message =
+        result.errorCount > 0
+          ? `CSV file imported with ${result.errorCount} warning(s)`
+          : 'CSV file imported successfully';
+      if (duplicateCount > 0) {
+        message += ` (${duplicateCount} duplicate${duplicateCount !== 1 ? 's' : ''} detected)`;
+      }
+      if (result.rejectedRows) {
+        message += `; ${result.rejectedRows} row${result.rejectedRows !== 1 ? 's' : ''} rejected by validation rules`;
+      }
+
+      await this.uploadHistoryService.updateUploadStatus(
+        upload.id,
+        UploadStatus.SUCCESS,
+        {
+          totalRows: result.rowCount,
+          message,
+          rowsProcessed: result.rowCount,
+          errors: errorMessages.length > 0 ? errorMessages : undefined,
+          errorCount: result.errorCount,
+          duplicates: result.duplicates?.map(({ row, duplicateOf }) => ({
+            row,
+            duplicateOf,
+          })),
+          duplicateCount: result.duplicateCount,
+          format: result.format,
+          dialect: result.dialect,
+          sheetName: result.sheetName,
+          headerRow: result.headerRow,
+          columnSchema,
+          typed: !!job.options.coerceTypes,
+          quality,
+        },
+      );
+
+      await this.publishEvent(UploadEventType.COMPLETED, job, upload);
+
+      await this.auditLogService.logAction(AuditAction.UPLOAD, {
+        ...job.context,
+        uploadId: upload.id,
+        fileName: upload.fileName,
+        details: {
+          fileSize: upload.fileSize,
+          totalRows: result.rowCount,
+          duplicateCount,
+          detectDuplicates: !!job.options.detectDuplicates,
+          handleDuplicates: job.options.handleDuplicates || 'mark',
+          columnMapping: job.options.columnMapping
+            ? Object.keys(job.options.columnMapping).length
+            : 0,
+          format: result.format,
+          dialect: result.dialect,
+          sheetName: result.sheetName,
+          validationRules: this.countValidationRules(job.options),
+          rejectedRows: result.rejectedRows,
+          templateId: job.options.templateId,
+          coerceTypes: !!job.options.coerceTypes,
+          datasetId: upload.datasetId,
+          version: upload.version,
+        },
+        status: 'success',
+      });
+
+      await this.datasetService.promoteImported(upload, job.context);
+
+      await this.updateJob(job.id, {
+        status: ImportJobStatus.COMPLETED,
+        finishedAt: new Date(),
+      });
+    } catch (error) {
+      const errorMessage = this.describeImportError(error, upload.fileName);
+      const errors =
+        error instanceof ValidationFailedError
+          ? error.violations.map(
+              (violation) => `Row ${violation.row}: ${violation.message}`,
+            )
+          : [errorMessage];
+      await this.uploadRowService.deleteRows([upload.id]);
+      if (error instanceof ValidationFailedError) {
+        await this.dataQualityService.recordIssues(upload.id, error.violations);
+      } else {
+        await this.dataQualityService.deleteIssues([upload.id]);
+      }
+
+      await this.uploadHistoryService.updateUploadStatus(
+        upload.id,
+        UploadStatus.FAILED,
+        {
+          errors,
+          message: errorMessage,
+        },
+      );
+
+      await this.publishEvent(UploadEventType.FAILED, job, upload);
+
+      await this.auditLogService.logAction(AuditAction.UPLOAD, {
+        ...job.context,
+        uploadId: upload.id,
+        fileName: upload.fileName,
+        status: 'failed',
+        errorMessage,
+        details:
+          error instanceof ValidationFailedError
+            ? {
+                validationRules: this.countValidationRules(job.options),
+                violations: error.violations.length,
+              }
+            : undefined,
+      });
+
+      await this.updateJob(job.id, {
+        status: ImportJobStatus.FAILED,
+        errorMessage,
+        finishedAt: new Date(),
+      });
+    }
+  }
+
+  /**
+   * reportProgress - Records progress on the upload and notifies connected clients
+   */
+  private async reportProgress(
+    job: QueuedImportJob,
+    upload: UploadRecord,
+    progress: {
+      phase?: UploadPhase;
+      rowsProcessed?: number;
+      progressPercent?: number;
+    },
+  ): Promise<void> {
+    await this.uploadHistoryService.updateProgress(upload.id, progress);
+    await this.publishEvent(UploadEventType.PROGRESS, job, upload);
+  }
+
+  /**
+   * publishEvent - Publishes an upload event with the upload's current progress
+   * Delivered to the members of the upload's workspace
+   */
+  private async publishEvent(
+    type: UploadEventType,
+    job: QueuedImportJob,
+    upload: UploadRecord,
+  ): Promise<void> {
+    const progress = await this.uploadHistoryService.getUploadProgress(
+      upload.id,
+      ALL_WORKSPACES,
+    );
+    this.uploadEventsService.publish(type, upload.id, {
+      workspaceId: upload.workspaceId,
+      fileName: upload.fileName,
+      progress,
+    });
+  }
+
+  /**
+   * updateJob - Saves job state when jobs are persisted (no-op for IMPORT_JOB_STORE=memory)
+   */
+  private async updateJob(
+    jobId: string,
+    update: Partial<ImportJobEntity>,
+  ): Promise<void> {
+    if (!this.persistJobs) {
+      return;
+    }
+    await this.importJobRepository.update(jobId, update);
+  }
+
+  /**
+   * countValidationRules - Number of column and cross-field rules the upload was checked against
+   */
+  private countValidationRules(options: ImportJobOptions): number {
+    return (
+      (options.validation?.columns?.length ?? 0) +
+      (options.validation?.rules?.length ?? 0)
+    );
+  }
+
+  /**
+   * describeImportError - Turns a parser error into a message that names the file
+   *
+   * @param error - Error thrown while importing
+   * @param fileName - Original name of the uploaded file
+   * @returns Message suitable for the upload record and the UI
+   */
+  private describeImportError(error: unknown, fileName: string): string {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    if (error instanceof ValidationFailedError) {
+      return `File "${fileName}" failed validation: ${errorMessage}`;
+    }
+    // Readers prefix their errors with the format, e.g. "JSON parsing failed: ..."
+    const parseFailure = /^(\w+) parsing failed: ([\s\S]*)$/.exec(errorMessage);
+    const label =
+      parseFailure?.[1] ??
+      this.importFormatService.getReaderForFileName(fileName)?.label;
+    const fileKind = label ? `${label} file` : 'File';
+
+    if (errorMessage.includes('File is empty')) {
+      return `${fileKind} "${fileName}" is empty. Please upload a valid ${fileKind} with data`;
+    }
+    if (errorMessage.includes('only a header row')) {
+      return `${fileKind} "${fileName}" contains only a header row with no data rows. Please ensure your ${fileKind} has data rows`;
+    }
+    if (errorMessage.includes('no valid data rows')) {
+      return `${fileKind} "${fileName}" contains no valid data rows (all rows are empty). Please check your ${fileKind} format`;
+    }
+    if (parseFailure) {
+      // Extract the underlying error message
+      const underlyingError = parseFailure[2];
+      return `Failed to parse ${fileKind} "${fileName}": ${underlyingError}. Please check that the file is valid ${label}`;
+    }
+    if (!errorMessage.includes(fileName)) {
+      // Add filename context if not already present
+      return `Failed to process ${fileKind} "${fileName}": ${errorMessage}`;
+    }
+    return errorMessage;
+  }
+}
@@ -0,0 +1,285 @@
+/**
+ * import-template.service.ts - Import Template Service
+ *
+ * This service manages import templates (the import_templates table): saved
+ * import settings for files that are uploaded again and again.
+ *
+ * Responsibilities:
+ * - Create, list, update and delete templates (each belongs to a workspace)
+ * - Suggest templates whose expected headers match a file's headers
+ * - Combine a template with the options sent with an upload
+ */
+
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { ImportTemplateEntity } from '../entities/import-template.entity';
+import { ValidationRulesService } from './validation-rules.service';
+import { CsvDialectService } from './csv-dialect.service';
+import { ImportJobOptions } from './import-job.service';
+import {
+  CreateImportTemplateDto,
+  UpdateImportTemplateDto,
+} from '../dto/import-template.dto';
+import { requireWorkspace } from '../../common/utils/workspace.util';
+
+/**
+ * Templates sharing less than this share of headers with a file are not suggested
+ */
+const MIN_SUGGESTION_SCORE = 0.5;
+
+/**
+ * Most suggestions returned for one file
+ */
+const MAX_SUGGESTIONS = 5;
+
+/**
+ * ImportTemplateSuggestion - A template that fits a file's headers
+ */
+export interface ImportTemplateSuggestion {
+  template: ImportTemplateEntity;
+  score: number; // Shared headers / all headers of file and template (1 = same headers)
+  missingHeaders: string[]; // Expected by the template, not in the file
+  extraHeaders: string[]; // In the file, not expected by the template
+}
+
+@Injectable()
+export class ImportTemplateService {
+  constructor(
+    @InjectRepository(ImportTemplateEntity)
+    private readonly templateRepository: Repository<ImportTemplateEntity>,
+    private readonly validationRulesService: ValidationRulesService,
+    private readonly csvDialectService: CsvDialectService,
+  ) {}
+
+  /**
+   * findAll - All templates, by name
+   *
+   * @param workspaceId - Only templates of this workspace
+   */
+  async findAll(workspaceId: string): Promise<ImportTemplateEntity[]> {
+    return this.templateRepository.find({
+      where: { workspaceId: requireWorkspace(workspaceId) },
+      order: { name: 'ASC' },
+    });
+  }
+
+  /**
+   * findOne - A template
+   *
+   * @param workspaceId - Only a template of this workspace
+   * @throws NotFoundException if there is no template with this ID (in the workspace)
+   */
+  async findOne(
+    id: string,
+    workspaceId: string,
+  ): Promise<ImportTemplateEntity> {
+    const template = await this.templateRepository.findOne({
+      where: { id, workspaceId: requireWorkspace(workspaceId) },
+    });
+    if (!template) {
+      throw new NotFoundException('Import template not found');
+    }
+    return template;
+  }
+
+  /**
+   * create - Saves a new template
+   *
+   * @param workspaceId - Workspace the template belongs to
+   * @throws BadRequestException if the validation rules or dialect are invalid
+   */
+  async create(
+    dto: CreateImportTemplateDto,
+    userId: string | undefined,
+    workspaceId: string,
+  ): Promise<ImportTemplateEntity> {
+    return this.templateRepository.save(
+      this.templateRepository.create({
+        name: dto.name,
+        description: dto.description,
+        expectedHeaders: dto.expectedHeaders ?? [],
+        columnMapping: this.emptyToNull(dto.columnMapping),
+        detectDuplicates: dto.detectDuplicates ?? false,
+        duplicateColumns: dto.duplicateColumns?.length
+          ? dto.duplicateColumns
+          : null,
+        handleDuplicates: dto.handleDuplicates ?? 'mark',
+        validation:
+          this.validationRulesService.parseSchema(dto.validationRules) ?? null,
+        dialect: this.emptyToNull(
+          this.csvDialectService.parseOverrides(dto.dialect),
+        ),
+        createdBy: userId,
+        workspaceId: requireWorkspace(workspaceId),
+      }),
+    );
+  }
+
+  /**
+   * update - Changes the given settings of a template; the others stay as they are
+   *
+   * @param workspaceId - Only a template of this workspace
+   * @throws NotFoundException if there is no template with this ID (in the workspace)
+   * @throws BadRequestException if the validation rules or dialect are invalid
+   */
+  async update(
+    id: string,
+    dto: UpdateImportTemplateDto,
+    workspaceId: string,
+  ): Promise<ImportTemplateEntity> {
+    const template = await this.findOne(id, workspaceId);
+    if (dto.name !== undefined) {
+      template.name = dto.name;
+    }
+    if (dto.description !== undefined) {
+      template.description = dto.description;
+    }
+    if (dto.expectedHeaders !== undefined) {
+      template.expectedHeaders = dto.expectedHeaders;
+    }
+    if (dto.columnMapping !== undefined) {
+      template.columnMapping = this.emptyToNull(dto.columnMapping);
+    }
+    if (dto.detectDuplicates !== undefined) {
+      template.detectDuplicates = dto.detectDuplicates;
+    }
+    if (dto.duplicateColumns !== undefined) {
+      template.duplicateColumns = dto.duplicateColumns.length
+        ? dto.duplicateColumns
+        : null;
+    }
+    if (dto.handleDuplicates !== undefined) {
+      template.handleDuplicates = dto.handleDuplicates;
+    }
+    if (dto.validationRules !== undefined) {
+      template.validation =
+        this.validationRulesService.parseSchema(dto.validationRules) ?? null;
+    }
+    if (dto.dialect !== undefined) {
+      template.dialect = this.emptyToNull(
+        this.csvDialectService.parseOverrides(dto.dialect),
+      );
+    }
+    return this.templateRepository.save(template);
+  }
+
+  /**
+   * remove - Deletes a template (uploads that used it keep its ID)
+   *
+   * @param workspaceId - Only a template of this workspace
+   * @throws NotFoundException if there is no template with this ID (in the workspace)
+   */
+  async remove(id: string, workspaceId: string): Promise<void> {
+    const template = await this.findOne(id, workspaceId);
+    await this.templateRepository.remove(template);
+  }
+
+  /**
+   * suggest - Templates whose expected headers match a file's headers, best first
+   *
+   * Headers are compared ignoring case and surrounding whitespace.
+   *
+   * @param headers - Column headers of the file (before mapping)
+   * @param workspaceId - Only templates of this workspace
+   */
+  async suggest(
+    headers: string[],
+    workspaceId: string,
+  ): Promise<ImportTemplateSuggestion[]> {
+    const fileHeaders = new Map(
+      headers.map((header) => [this.normalizeHeader(header), header]),
+    );
+    if (fileHeaders.size === 0) {
+      return [];
+    }
+
+    const suggestions: ImportTemplateSuggestion[] = [];
+    for (const template of await this.findAll(workspaceId)) {
+      const expected = new Map(
+        template.expectedHeaders.map((header) => [
+          this.normalizeHeader(header),
+          header,
+        ]),
+      );
+      if (expected.size === 0) {
+        continue;
+      }
+
+      const missingHeaders = [...expected]
+        .filter(([key]) => !fileHeaders.has(key))
+        .map(([, header]) => header);
+      const extraHeaders = [...fileHeaders]
+        .filter(([key]) => !expected.has(key))
+        .map(([, header]) => header);
+      const shared = expected.size - missingHeaders.length;
+      const score = shared / (expected.size + fileHeaders.size - shared);
+
+      if (score >= MIN_SUGGESTION_SCORE) {
+        suggestions.push({ template, score, missingHeaders, extraHeaders });
+      }
+    }
+
+    return suggestions
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_SUGGESTIONS);
+  }
+
+  /**
+   * resolveForUpload - The options of an upload that uses a template
+   *
+   * The template provides the defaults; options sent with the upload win.
+   * Dialect overrides are combined key by key.
+   *
+   * @param templateId - Template to apply (optional)
+   * @param requested - Options sent with the upload (undefined where not given)
+   * @param workspaceId - Workspace of the upload; the template must belong to it
+   * @returns Options for the import job, including the template ID and expected headers
+   * @throws NotFoundException if the template does not exist (in the workspace)
+   */
+  async resolveForUpload(
+    templateId: string | undefined,
+    requested: ImportJobOptions,
+    workspaceId: string,
+  ): Promise<ImportJobOptions> {
+    if (!templateId) {
+      return {
+        ...requested,
+        detectDuplicates: requested.detectDuplicates ?? false,
+        handleDuplicates: requested.handleDuplicates || 'mark',
+      };
+    }
+
+    const template = await this.findOne(templateId, workspaceId);
+    const dialect = { ...template.dialect, ...requested.dialect };
+    return {
+      ...requested,
+      templateId: template.id,
+      expectedHeaders: template.expectedHeaders.length
+        ? template.expectedHeaders
+        : undefined,
+      dialect: Object.keys(dialect).length > 0 ? dialect : undefined,
+      detectDuplicates: requested.detectDuplicates ?? template.detectDuplicates,
+      duplicateColumns:
+        requested.duplicateColumns ?? template.duplicateColumns ?? undefined,
+      handleDuplicates: requested.handleDuplicates || template.handleDuplicates,
+      columnMapping:
+        requested.columnMapping ?? template.columnMapping ?? undefined,
+      validation: requested.validation ?? template.validation ?? undefined,
+    };
+  }
+
+  /**
+   * Key used to compare headers
+   */
+  private normalizeHeader(header: string): string {
+    return header.trim().toLowerCase();
+  }
+
+  /**
+   * Stores an empty object as NULL, so "not set" has one representation
+   */
+  private emptyToNull<T extends object>(value: T | undefined): T | null {
+    return value && Object.keys(value).length > 0 ? value : null;
+  }
+}
@@ -0,0 +1,204 @@
+import { BadRequestException } from '@nestjs/common';
+import { RowFilterService } from './row-filter.service';
+import { NUMBER_PATTERN } from './upload-row.service';
+
+const COLUMNS = ['name', 'age', 'country', 'email', 'active', 'first name'];
+const DATA = 'uploadRow.data';
+
+describe('RowFilterService', () => {
+  let service: RowFilterService;
+
+  beforeEach(() => {
+    service = new RowFilterService();
+  });
+
+  describe('parse', () => {
+    it('returns undefined for an empty expression', () => {
+      expect(service.parse('', COLUMNS)).toBeUndefined();
+      expect(service.parse('   ', COLUMNS)).toBeUndefined();
+    });
+
+    it('binds AND tighter than OR and reads NOT, IN and IS EMPTY', () => {
+      expect(
+        service.parse(
+          'age >= 18 and country not in ("DE", 1) or NOT `first name` is empty',
+          COLUMNS,
+        ),
+      ).toEqual({
+        type: 'or',
+        operands: [
+          {
+            type: 'and',
+            operands: [
+              { type: 'compare', column: 'age', operator: '>=', value: 18 },
+              {
+                type: 'in',
+                column: 'country',
+                values: ['DE', 1],
+                negated: true,
+              },
+            ],
+          },
+          {
+            type: 'not',
+            operand: { type: 'empty', column: 'first name', negated: false },
+          },
+        ],
+      });
+    });
+
+    it('accepts <> and == and unescapes quoted text', () => {
+      expect(service.parse(`name <> 'O\\'Brien'`, COLUMNS)).toEqual({
+        type: 'compare',
+        column: 'name',
+        operator: '!=',
+        value: "O'Brien",
+      });
+      expect(service.parse('active == TRUE', COLUMNS)).toEqual({
+        type: 'compare',
+        column: 'active',
+        operator: '=',
+        value: true,
+      });
+    });
+
+    it.each([
+      ['age > ', 'Invalid filter at position 7: expected a value after ">"'],
+      ['salary > 10', 'Invalid filter at position 1: unknown column "salary"'],
+      [
+        'country = DE',
+        'Invalid filter at position 11: expected a value after "=", found "DE" (put text in quotes: "DE")',
+      ],
+      [
+        '(age > 1',
+        'Invalid filter at position 9: expected ")" to close the "(" at position 1',
+      ],
+      [
+        'name = "Ada',
+        'Invalid filter at position 8: text is missing its closing "',
+      ],
+      [
+        'active > TRUE',
+        'Invalid filter at position 8: TRUE and FALSE can only be compared with = or !=',
+      ],
+      [
+        'age > 1 age < 2',
+        'Invalid filter at position 9: unexpected "age"; expected AND, OR or the end of the filter',
+      ],
+      ['age $ 1', 'Invalid filter at position 5: unexpected character "$"'],
+    ])('rejects %p', (expression, message) => {
+      expect(() => service.parse(expression, COLUMNS)).toThrow(
+        BadRequestException,
+      );
+      expect(() => service.parse(expression, COLUMNS)).toThrow(message);
+    });
+
+    it('rejects filters nested too deeply', () => {
+      expect(() =>
+        service.parse(`${'NOT '.repeat(25)}age > 1`, COLUMNS),
+      ).toThrow('filters can be nested at most 20 levels deep');
+    });
+  });
+
+  describe('compile', () => {
+    it('returns undefined for an empty expression', () => {
+      expect(service.compile('', COLUMNS, DATA)).toBeUndefined();
+    });
+
+    it('compares numbers by value, passing the column name as a parameter', () => {
+      expect(service.compile('age > 30', COLUMNS, DATA)).toEqual({
+        sql:
+          '((CASE WHEN btrim((uploadRow.data ->> :filter1)) ~ :filterNumberPattern' +
+          ' THEN CAST(btrim((uploadRow.data ->> :filter1)) AS numeric) END) > :filter2)',
+        parameters: {
+          filterNumberPattern: NUMBER_PATTERN,
+          filter1: 'age',
+          filter2: 30,
+        },
+      });
+    });
+
+    it('compares text exactly and treats missing values as different', () => {
+      expect(service.compile('name != "Ada"', COLUMNS, DATA)).toEqual({
+        sql: '((uploadRow.data ->> :filter1) IS DISTINCT FROM :filter2)',
+        parameters: {
+          filterNumberPattern: NUMBER_PATTERN,
+          filter1: 'name',
+          filter2: 'Ada',
+        },
+      });
+    });
+
+    it('compares booleans case-insensitively as text', () => {
+      expect(service.compile('active = false', COLUMNS, DATA)).toEqual({
+        sql: '(lower(btrim((uploadRow.data ->> :filter1))) = :filter2)',
+        parameters: {
+          filterNumberPattern: NUMBER_PATTERN,
+          filter1: 'active',
+          filter2: 'false',
+        },
+      });
+    });
+
+    it('escapes %, _ and \\ in contains patterns', () => {
+      const predicate = service.compile(
+        'email ~ "50%_off\\\\" AND email !~ "@spam"',
+        COLUMNS,
+        DATA,
+      );
+
+      expect(predicate.sql).toBe(
+        '(((uploadRow.data ->> :filter1) ILIKE :filter2) AND ' +
+          "(COALESCE((uploadRow.data ->> :filter3), '') NOT ILIKE :filter4))",
+      );
+      expect(predicate.parameters).toMatchObject({
+        filter1: 'email',
+        filter2: '%50\\%\\_off\\\\%',
+        filter3: 'email',
+        filter4: '%@spam%',
+      });
+    });
+
+    it('compares IN lists numerically only when every value is a number', () => {
+      const numbers = service.compile('age IN (1, 2.5)', COLUMNS, DATA);
+      expect(numbers.sql).toContain('AS numeric) END) IN (:...filter2))');
+      expect(numbers.parameters.filter2).toEqual([1, 2.5]);
+
+      const mixed = service.compile('country NOT IN ("DE", 1)', COLUMNS, DATA);
+      expect(mixed).toEqual({
+        sql:
+          '((uploadRow.data ->> :filter1) IS NULL OR ' +
+          '(uploadRow.data ->> :filter1) NOT IN (:...filter2))',
+        parameters: {
+          filterNumberPattern: NUMBER_PATTERN,
+          filter1: 'country',
+          filter2: ['DE', '1'],
+        },
+      });
+    });
+
+    it('treats blank values as empty', () => {
+      expect(service.compile('name IS NOT EMPTY', COLUMNS, DATA).sql).toBe(
+        "(COALESCE(btrim((uploadRow.data ->> :filter1)), '') <> '')",
+      );
+    });
+
+    it('keeps rows with a missing value in NOT', () => {
+      expect(service.compile('NOT name = "Ada"', COLUMNS, DATA).sql).toBe(
+        '(NOT COALESCE(((uploadRow.data ->> :filter1) = :filter2), false))',
+      );
+    });
+
+    it('never writes column names or values into the SQL', () => {
+      const predicate = service.compile(
+        "`first name` = 'x\\' OR 1=1 --'",
+        COLUMNS,
+        DATA,
+      );
+
+      expect(predicate.sql).not.toContain('first name');
+      expect(predicate.sql).not.toContain('1=1');
+      expect(predicate.parameters.filter2).toBe("x' OR 1=1 --");
+    });
+  });
+});
@@ -0,0 +1,527 @@
+/**
+ * row-filter.service.ts - Row Filter Service
+ *
+ * This service parses filter expressions for an upload's rows
+ * (see row-filter.interface.ts), e.g.
+ *   age > 30 AND country IN ("DE", "FR") AND email ~ "@acme"
+ * and translates them into SQL conditions on the JSONB values of upload_rows.
+ *
+ * Responsibilities:
+ * - Tokenize and parse expressions, reporting the position of the first problem
+ * - Check that every column exists in the upload
+ * - Translate expressions into parameterized SQL (column names and values are
+ *   always passed as parameters, never written into the SQL)
+ */
+
+import { BadRequestException, Injectable } from '@nestjs/common';
+import {
+  FilterExpression,
+  FilterOperator,
+  FilterValue,
+  RowPredicate,
+} from '../interfaces/row-filter.interface';
+import { NUMBER_PATTERN } from './upload-row.service';
+
+/**
+ * Longest filter expression accepted
+ */
+const MAX_FILTER_LENGTH = 2000;
+
+/**
+ * Deepest nesting of parentheses and NOT accepted
+ */
+const MAX_NESTING = 20;
+
+/**
+ * Operators as they may be written, longest first; <> and == are accepted for != and =
+ */
+const OPERATOR_SPELLINGS: Array<[string, FilterOperator]> = [
+  ['>=', '>='],
+  ['<=', '<='],
+  ['!=', '!='],
+  ['<>', '!='],
+  ['==', '='],
+  ['!~', '!~'],
+  ['=', '='],
+  ['>', '>'],
+  ['<', '<'],
+  ['~', '~'],
+];
+
+const NUMBER_TOKEN = /^-?(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?/;
+const NAME_TOKEN = /^[A-Za-z_][A-Za-z0-9_]*/;
+
+/**
+ * Words with a meaning in expressions; columns with these names must be written in backticks
+ */
+const KEYWORDS = ['AND', 'OR', 'NOT', 'IN', 'IS', 'EMPTY', 'TRUE', 'FALSE'];
+
+interface Token {
+  type: 'name' | 'string' | 'number' | 'operator' | '(' | ')' | ',' | 'end';
+  text: string; // As written in the expression
+  value?: string | number; // Name, text or number (unquoted)
+  keyword?: string; // Upper-cased keyword, for unquoted names that are keywords
+  operator?: FilterOperator;
+  position: number; // 1-based
+}
+
+interface ParserState {
+  tokens: Token[];
+  index: number;
+  columns: string[];
+}
+
+@Injectable()
+export class RowFilterService {
+  /**
+   * parse - Parses a filter expression and checks its columns
+   *
+   * @param expression - Filter expression
+   * @param columns - Columns of the upload
+   * @returns The parsed expression, or undefined for an empty expression
+   * @throws BadRequestException naming the position of the first problem
+   */
+  parse(expression: string, columns: string[]): FilterExpression | undefined {
+    if (!expression || !expression.trim()) {
+      return undefined;
+    }
+    if (expression.length > MAX_FILTER_LENGTH) {
+      throw new BadRequestException(
+        `Invalid filter: must be at most ${MAX_FILTER_LENGTH} characters long`,
+      );
+    }
+
+    const state: ParserState = {
+      tokens: this.tokenize(expression),
+      index: 0,
+      columns,
+    };
+    const parsed = this.parseExpression(state, 0);
+    const next = this.peek(state);
+    if (next.type !== 'end') {
+      throw this.syntaxError(
+        next,
+        `unexpected ${this.describe(next)}; expected AND, OR or the end of the filter`,
+      );
+    }
+    return parsed;
+  }
+
+  /**
+   * compile - Translates a filter expression into an SQL condition
+   *
+   * @param expression - Filter expression
+   * @param columns - Columns of the upload
+   * @param dataSql - SQL for the JSONB row values (e.g. uploadRow.data)
+   * @returns The condition and its parameters, or undefined for an empty expression
+   * @throws BadRequestException if the expression is invalid
+   *
+   * Numbers are compared by value: rows whose value is not a number do not match
+   * a numeric comparison. Text comparisons are exact, except ~ and !~.
+   */
+  compile(
+    expression: string,
+    columns: string[],
+    dataSql: string,
+  ): RowPredicate | undefined {
+    const parsed = this.parse(expression, columns);
+    if (!parsed) {
+      return undefined;
+    }
+
+    const parameters: Record<string, unknown> = {
+      filterNumberPattern: NUMBER_PATTERN,
+    };
+    const addParameter = (value: unknown): string => {
+      const name = `filter${Object.keys(parameters).length}`;
+      parameters[name] = value;
+      return name;
+    };
+
+    const text = (column: string) =>
+      `(${dataSql} ->> :${addParameter(column)})`;
+    const numeric = (column: string) => {
+      const value = text(column);
+      return `(CASE WHEN btrim(${value}) ~ :filterNumberPattern THEN CAST(btrim(${value}) AS numeric) END)`;
+    };
+
+    const toSql = (node: FilterExpression): string => {
+      switch (node.type) {
+        case 'and':
+        case 'or':
+          return `(${node.operands.map(toSql).join(` ${node.type.toUpperCase()} `)})`;
+        case 'not':
+          return `(NOT COALESCE(${toSql(node.operand)}, false))`;
+        case 'empty':
+          return `(COALESCE(btrim(${text(node.column)}), '') ${node.negated ? '<>' : '='} '')`;
+        case 'in': {
+          const allNumbers = node.values.every(
+            (value) => typeof value === 'number',
+          );
+          const value = allNumbers ? numeric(node.column) : text(node.column);
+          const list = `(:...${addParameter(
+            allNumbers ? node.values : node.values.map(String),
+          )})`;
+          return node.negated
+            ? `(${value} IS NULL OR ${value} NOT IN ${list})`
+            : `(${value} IN ${list})`;
+        }
+        case 'compare':
+          return this.compareSql(node, text, numeric, addParameter);
+      }
+    };
+
+    return { sql: toSql(parsed), parameters };
+  }
+
+  /**
+   * compareSql - SQL for one comparison
+   */
+  private compareSql(
+    node: { column: string; operator: FilterOperator; value: FilterValue },
+    text: (column: string) => string,
+    numeric: (column: string) => string,
+    addParameter: (value: unknown) => string,
+  ): string {
+    const { column, operator, value } = node;
+
+    // Contains / does not contain (case-insensitive, % and _ match literally)
+    if (operator === '~' || operator === '!~') {
+      const pattern = `%${String(value).replace(/[\\%_]/g, '\\$&')}%`;
+      return operator === '~'
+        ? `(${text(column)} ILIKE :${addParameter(pattern)})`
+        : `(COALESCE(${text(column)}, '') NOT ILIKE :${addParameter(pattern)})`;
+    }
+
+    let left: string;
+    let right: string;
+    if (typeof value === 'number') {
+      left = numeric(column);
+      right = `:${addParameter(value)}`;
+    } else if (typeof value === 'boolean') {
+      left = `lower(btrim(${text(column)}))`;
+      right = `:${addParameter(String(value))}`;
+    } else {
+      left = text(column);
+      right = `:${addParameter(value)}`;
+    }
+
+    return operator === '!='
+      ? `(${left} IS DISTINCT FROM ${right})`
+      : `(${left} ${operator} ${right})`;
+  }
+
+  /**
+   * tokenize - Splits an expression into names, values, operators and punctuation
+   */
+  private tokenize(expression: string): Token[] {
+    const tokens: Token[] = [];
+    let index = 0;
+
+    while (index < expression.length) {
+      const char = expression[index];
+      const position = index + 1;
+
+      if (/\s/.test(char)) {
+        index++;
+        continue;
+      }
+
+      if (char === '(' || char === ')' || char === ',') {
+        tokens.push({ type: char, text: char, position });
+        index++;
+        continue;
+      }
+
+      const spelling = OPERATOR_SPELLINGS.find(([written]) =>
+        expression.startsWith(written, index),
+      );
+      if (spelling) {
+        tokens.push({
+          type: 'operator',
+          text: spelling[0],
+          operator: spelling[1],
+          position,
+        });
+        index += spelling[0].length;
+        continue;
+      }
+
+      // Quoted text ("..." or '...') and quoted column names (`...`); \ escapes the next character
+      if (char === '"' || char === "'" || char === '`') {
+        let value = '';
+        let end = index + 1;
+        let closed = false;
+        while (end < expression.length) {
+          if (expression[end] === '\\' && end + 1 < expression.length) {
+            value += expression[end + 1];
+            end += 2;
+          } else if (expression[end] === char) {
+            closed = true;
+            end++;
+            break;
+          } else {
+            value += expression[end++];
+          }
+        }
+        if (!closed) {
+          throw this.syntaxError(
+            { position },
+            char === '`'
+              ? 'column name is missing its closing `'
+              : `text is missing its closing ${char}`,
+          );
+        }
+        tokens.push({
+          type: char === '`' ? 'name' : 'string',
+          text: expression.slice(index, end),
+          value,
+          position,
+        });
+        index = end;
+        continue;
+      }
+
+      const rest = expression.slice(index);
+      const number = NUMBER_TOKEN.exec(rest);
+      if (number) {
+        tokens.push({
+          type: 'number',
+          text: number[0],
+          value: Number(number[0]),
+          position,
+        });
+        index += number[0].length;
+        continue;
+      }
+
+      const name = NAME_TOKEN.exec(rest);
+      if (name) {
+        const upper = name[0].toUpperCase();
+        tokens.push({
+          type: 'name',
+          text: name[0],
+          value: name[0],
+          keyword: KEYWORDS.includes(upper) ? upper : undefined,
+          position,
+        });
+        index += name[0].length;
+        continue;
+      }
+
+      throw this.syntaxError({ position }, `unexpected character "${char}"`);
+    }
+
+    tokens.push({ type: 'end', text: '', position: expression.length + 1 });
+    return tokens;
+  }
+
+  /**
+   * parseExpression - term (OR term)*
+   */
+  private parseExpression(state: ParserState, depth: number): FilterExpression {
+    const operands = [this.parseTerm(state, depth)];
+    while (this.peek(state).keyword === 'OR') {
+      state.index++;
+      operands.push(this.parseTerm(state, depth));
+    }
+    return operands.length === 1 ? operands[0] : { type: 'or', operands };
+  }
+
+  /**
+   * parseTerm - factor (AND factor)*
+   */
+  private parseTerm(state: ParserState, depth: number): FilterExpression {
+    const operands = [this.parseFactor(state, depth)];
+    while (this.peek(state).keyword === 'AND') {
+      state.index++;
+      operands.push(this.parseFactor(state, depth));
+    }
+    return operands.length === 1 ? operands[0] : { type: 'and', operands };
+  }
+
+  /**
+   * parseFactor - NOT factor | ( expression ) | condition
+   */
+  private parseFactor(state: ParserState, depth: number): FilterExpression {
+    const token = this.peek(state);
+    if (depth > MAX_NESTING) {
+      throw this.syntaxError(
+        token,
+        `filters can be nested at most ${MAX_NESTING} levels deep`,
+      );
+    }
+
+    if (token.keyword === 'NOT') {
+      state.index++;
+      return { type: 'not', operand: this.parseFactor(state, depth + 1) };
+    }
+
+    if (token.type === '(') {
+      state.index++;
+      const expression = this.parseExpression(state, depth + 1);
+      const closing = this.next(state);
+      if (closing.type !== ')') {
+        throw this.syntaxError(
+          closing,
+          `expected ")" to close the "(" at position ${token.position}, found ${this.describe(closing)}`,
+        );
+      }
+      return expression;
+    }
+
+    return this.parseCondition(state);
+  }
+
+  /**
+   * parseCondition - column operator value | column [NOT] IN (...) | column IS [NOT] EMPTY
+   */
+  private parseCondition(state: ParserState): FilterExpression {
+    const columnToken = this.next(state);
+    if (columnToken.type !== 'name' || columnToken.keyword) {
+      throw this.syntaxError(
+        columnToken,
+        columnToken.keyword
+          ? `expected a column name, found ${this.describe(columnToken)} (write a column named ${columnToken.text} as \`${columnToken.text}\`)`
+          : `expected a column name, found ${this.describe(columnToken)}`,
+      );
+    }
+    const column = String(columnToken.value);
+    if (!state.columns.includes(column)) {
+      throw this.syntaxError(columnToken, `unknown column "${column}"`);
+    }
+
+    const token = this.next(state);
+    if (token.keyword === 'IS') {
+      const negated = this.peek(state).keyword === 'NOT';
+      if (negated) {
+        state.index++;
+      }
+      const empty = this.next(state);
+      if (empty.keyword !== 'EMPTY') {
+        throw this.syntaxError(
+          empty,
+          `expected EMPTY after "IS${negated ? ' NOT' : ''}", found ${this.describe(empty)}`,
+        );
+      }
+      return { type: 'empty', column, negated };
+    }
+
+    if (token.keyword === 'IN' || token.keyword === 'NOT') {
+      const negated = token.keyword === 'NOT';
+      if (negated) {
+        const inToken = this.next(state);
+        if (inToken.keyword !== 'IN') {
+          throw this.syntaxError(
+            inToken,
+            `expected IN after "NOT", found ${this.describe(inToken)}`,
+          );
+        }
+      }
+      return {
+        type: 'in',
+        column,
+        values: this.parseList(state),
+        negated,
+      };
+    }
+
+    if (token.type !== 'operator') {
+      throw this.syntaxError(
+        token,
+        `expected an operator (=, !=, >, >=, <, <=, ~, !~, IN or IS EMPTY) after column "${column}", found ${this.describe(token)}`,
+      );
+    }
+
+    const value = this.parseValue(state, token.text);
+    if (
+      typeof value === 'boolean' &&
+      token.operator !== '=' &&
+      token.operator !== '!='
+    ) {
+      throw this.syntaxError(
+        token,
+        `TRUE and FALSE can only be compared with = or !=`,
+      );
+    }
+    return { type: 'compare', column, operator: token.operator, value };
+  }
+
+  /**
+   * parseList - ( value , value ... )
+   */
+  private parseList(state: ParserState): FilterValue[] {
+    const opening = this.next(state);
+    if (opening.type !== '(') {
+      throw this.syntaxError(
+        opening,
+        `expected "(" to start the IN list, found ${this.describe(opening)}`,
+      );
+    }
+
+    const values = [this.parseValue(state, '(')];
+    let token = this.next(state);
+    while (token.type === ',') {
+      values.push(this.parseValue(state, ','));
+      token = this.next(state);
+    }
+    if (token.type !== ')') {
+      throw this.syntaxError(
+        token,
+        `expected "," or ")" in the IN list, found ${this.describe(token)}`,
+      );
+    }
+    return values;
+  }
+
+  /**
+   * parseValue - "text", 'text', a number, TRUE or FALSE
+   */
+  private parseValue(state: ParserState, after: string): FilterValue {
+    const token = this.next(state);
+    if (token.type === 'string' || token.type === 'number') {
+      return token.value;
+    }
+    if (token.keyword === 'TRUE' || token.keyword === 'FALSE') {
+      return token.keyword === 'TRUE';
+    }
+    if (token.type === 'name' && !token.text.startsWith('`')) {
+      throw this.syntaxError(
+        token,
+        `expected a value after "${after}", found ${this.describe(token)} (put text in quotes: "${token.text}")`,
+      );
+    }
+    throw this.syntaxError(
+      token,
+      `expected a value after "${after}", found ${this.describe(token)}`,
+    );
+  }
+
+  private peek(state: ParserState): Token {
+    return state.tokens[state.index];
+  }
+
+  private next(state: ParserState): Token {
+    const token = state.tokens[state.index];
+    if (token.type !== 'end') {
+      state.index++;
+    }
+    return token;
+  }
+
+  /**
+   * describe - How a token is named in error messages
+   */
+  private describe(token: Token): string {
+    return token.type === 'end' ? 'the end of the filter' : `"${token.text}"`;
+  }
+
+  private syntaxError(
+    token: { position: number },
+    message: string,
+  ): BadRequestException {
+    return new BadRequestException(
+      `Invalid filter at position ${token.position}: ${message}`,
+    );
+  }
+}
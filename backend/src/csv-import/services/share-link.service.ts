@@ -0,0 +1,268 @@
+/**
+ * share-link.service.ts - Share Link Service
+ *
+ * This service manages share links (the share_links table): read-only access
+ * to a single upload for people without an account.
+ *
+ * Responsibilities:
+ * - Create links with an expiry and an optional (bcrypt-hashed) password
+ * - Sign tokens (the link ID plus an HMAC-SHA256 signature) and check them
+ * - Refuse expired and revoked links, and links opened with a wrong password
+ * - Revoke links and list the links of an upload
+ * - Record every access, allowed or refused, in the audit log with the link ID
+ */
+
+import {
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { In, Repository } from 'typeorm';
+import { createHmac, timingSafeEqual } from 'crypto';
+import * as bcrypt from 'bcrypt';
+import { ShareLinkEntity } from '../entities/share-link.entity';
+import { AuditAction } from '../entities/audit-log.entity';
+import { UserEntity } from '../../auth/entities/user.entity';
+import { AuditLogService } from './audit-log.service';
+import { UploadRecord } from '../interfaces/upload-record.interface';
+import {
+  CreatedShareLinkResponseDto,
+  ShareLinkResponseDto,
+} from '../dto/share-link.dto';
+import {
+  DEFAULT_SHARE_LINK_TTL_HOURS,
+  getShareLinkSecret,
+} from '../../common/config/share.config';
+
+/**
+ * Who opened a share link, for the audit log
+ */
+export interface ShareAccessContext {
+  userIp?: string;
+  userAgent?: string;
+}
+
+@Injectable()
+export class ShareLinkService {
+  private readonly secret: string;
+
+  constructor(
+    @InjectRepository(ShareLinkEntity)
+    private readonly shareLinkRepository: Repository<ShareLinkEntity>,
+    @InjectRepository(UserEntity)
+    private readonly userRepository: Repository<UserEntity>,
+    private readonly auditLogService: AuditLogService,
+    configService: ConfigService,
+  ) {
+    this.secret = getShareLinkSecret(configService);
+  }
+
+  /**
+   * Create a share link for an upload
+   * @param upload - The (successful) upload to share
+   * @param userId - The user creating the link
+   * @param options - Hours until the link expires, and an optional password
+   * @returns The link, with its token (the only time the token is returned)
+   */
+  async create(
+    upload: UploadRecord,
+    userId: string | undefined,
+    options: { expiresInHours?: number; password?: string },
+  ): Promise<CreatedShareLinkResponseDto> {
+    const hours = options.expiresInHours ?? DEFAULT_SHARE_LINK_TTL_HOURS;
+    const link = await this.shareLinkRepository.save(
+      this.shareLinkRepository.create({
+        uploadId: upload.id,
+        workspaceId: upload.workspaceId,
+        createdBy: userId,
+        passwordHash: options.password
+          ? await bcrypt.hash(options.password, 10)
+          : undefined,
+        expiresAt: new Date(Date.now() + hours * 60 * 60 * 1000),
+      }),
+    );
+
+    const [response] = await this.toResponses([link]);
+    return { ...response, token: `${link.id}.${this.sign(link.id)}` };
+  }
+
+  /**
+   * List the share links of an upload, newest first
+   * @param uploadId - Upload ID
+   */
+  async findForUpload(uploadId: string): Promise<ShareLinkResponseDto[]> {
+    const links = await this.shareLinkRepository.find({
+      where: { uploadId },
+      order: { createdAt: 'DESC' },
+    });
+    return this.toResponses(links);
+  }
+
+  /**
+   * Revoke a share link; it stops working at once
+   * @param uploadId - Upload the link belongs to
+   * @param id - Share link ID
+   * @returns The revoked link
+   * @throws NotFoundException if the upload has no such link
+   */
+  async revoke(uploadId: string, id: string): Promise<ShareLinkResponseDto> {
+    const link = await this.shareLinkRepository.findOne({
+      where: { id, uploadId },
+    });
+    if (!link) {
+      throw new NotFoundException('Share link not found');
+    }
+    if (!link.revokedAt) {
+      link.revokedAt = new Date();
+      await this.shareLinkRepository.save(link);
+    }
+    const [response] = await this.toResponses([link]);
+    return response;
+  }
+
+  /**
+   * Find the link a token opens, checking its signature, expiry, revocation and password
+   * Refusals of a known link are recorded in the audit log.
+   * @param token - Token from the share URL
+   * @param password - Password sent by the recipient (X-Share-Password)
+   * @param context - Who opened the link
+   * @returns The link
+   * @throws NotFoundException if the token is not a valid signed token of an existing link
+   * @throws ForbiddenException if the link expired or was revoked, or the password is missing or wrong
+   *         (the response body then has passwordRequired: true)
+   */
+  async resolve(
+    token: string,
+    password: string | undefined,
+    context: ShareAccessContext,
+  ): Promise<ShareLinkEntity> {
+    const [id, signature] = (token || '').split('.');
+    if (!id || !signature || !this.hasValidSignature(id, signature)) {
+      throw new NotFoundException('Share link not found');
+    }
+    const link = await this.shareLinkRepository.findOne({ where: { id } });
+    if (!link) {
+      throw new NotFoundException('Share link not found');
+    }
+
+    let refusal: ForbiddenException | undefined;
+    if (link.revokedAt) {
+      refusal = new ForbiddenException('This share link has been revoked');
+    } else if (link.expiresAt.getTime() <= Date.now()) {
+      refusal = new ForbiddenException('This share link has expired');
+    } else if (link.passwordHash && !password) {
+      refusal = new ForbiddenException({
+        statusCode: 403,
+        message: 'This share link needs a password',
+        passwordRequired: true,
+      });
+    } else if (
+      link.passwordHash &&
+      !(await bcrypt.compare(password, link.passwordHash))
+    ) {
+      refusal = new ForbiddenException({
+        statusCode: 403,
+        message: 'Wrong password',
+        passwordRequired: true,
+      });
+    }
+
+    if (refusal) {
+      await this.auditLogService.logAction(AuditAction.SHARE_ACCESS, {
+        workspaceId: link.workspaceId,
+        uploadId: link.uploadId,
+        userIp: context.userIp,
+        userAgent: context.userAgent,
+        details: { shareLinkId: link.id },
+        status: 'failed',
+        errorMessage: refusal.message,
+      });
+      throw refusal;
+    }
+    return link;
+  }
+
+  /**
+   * Record a successful access through a link (audit log entry and access count)
+   * @param link - The link used
+   * @param upload - The shared upload
+   * @param context - Who opened the link
+   * @param details - What was accessed (view, rows or export, and its parameters)
+   */
+  async recordAccess(
+    link: ShareLinkEntity,
+    upload: UploadRecord,
+    context: ShareAccessContext,
+    details: Record<string, any>,
+  ): Promise<void> {
+    await this.shareLinkRepository.increment({ id: link.id }, 'accessCount', 1);
+    await this.shareLinkRepository.update(link.id, {
+      lastAccessedAt: new Date(),
+    });
+    await this.auditLogService.logAction(AuditAction.SHARE_ACCESS, {
+      workspaceId: link.workspaceId,
+      uploadId: upload.id,
+      fileName: upload.fileName,
+      userIp: context.userIp,
+      userAgent: context.userAgent,
+      details: { shareLinkId: link.id, ...details },
+      status: 'success',
+    });
+  }
+
+  /**
+   * HMAC-SHA256 signature of a link ID (base64url)
+   */
+  private sign(id: string): string {
+    return createHmac('sha256', this.secret).update(id).digest('base64url');
+  }
+
+  /**
+   * Compare a token's signature with the expected one in constant time
+   */
+  private hasValidSignature(id: string, signature: string): boolean {
+    const expected = Buffer.from(this.sign(id));
+    const actual = Buffer.from(signature);
+    return (
+      expected.length === actual.length && timingSafeEqual(expected, actual)
+    );
+  }
+
+  /**
+   * Convert links to API responses, with the email of the user who created each
+   */
+  private async toResponses(
+    links: ShareLinkEntity[],
+  ): Promise<ShareLinkResponseDto[]> {
+    const userIds = [
+      ...new Set(links.map((link) => link.createdBy).filter(Boolean)),
+    ];
+    const users =
+      userIds.length > 0
+        ? await this.userRepository.find({
+            where: { id: In(userIds) },
+            select: ['id', 'email'],
+          })
+        : [];
+    const emails = new Map(users.map((user) => [user.id, user.email]));
+
+    return links.map((link) => ({
+      id: link.id,
+      uploadId: link.uploadId,
+      status: link.revokedAt
+        ? 'revoked'
+        : link.expiresAt.getTime() <= Date.now()
+          ? 'expired'
+          : 'active',
+      passwordProtected: !!link.passwordHash,
+      expiresAt: link.expiresAt,
+      revokedAt: link.revokedAt,
+      createdBy: emails.get(link.createdBy),
+      createdAt: link.createdAt,
+      accessCount: link.accessCount,
+      lastAccessedAt: link.lastAccessedAt,
+    }));
+  }
+}
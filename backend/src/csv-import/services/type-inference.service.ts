@@ -0,0 +1,644 @@
+/**
+ * type-inference.service.ts - Type Inference Service
+ *
+ * This service works out what each column of an upload holds (numbers,
+ * booleans, dates, emails, ...) and converts values to typed JSON, so that
+ * sorting and aggregation compare numbers as numbers and dates as dates.
+ *
+ * Responsibilities:
+ * - Infer a ColumnSchema (type, confidence, date format, enum values) per column,
+ *   counting values a batch of rows at a time (distinct values are counted by the
+ *   database, see UploadRowService.countValues)
+ * - Check and describe columns whose type a user chose
+ * - Coerce stored values to their column types, and back to text
+ */
+
+import { BadRequestException, Injectable } from '@nestjs/common';
+import {
+  ColumnSchema,
+  ColumnValueCounts,
+  INFERRED_TYPES,
+  InferredType,
+  TypedRow,
+  TypedValue,
+} from '../interfaces/column-schema.interface';
+
+/**
+ * A column gets a specific type when at least this share of its non-empty values fit it
+ */
+const TYPE_CONFIDENCE_THRESHOLD = 0.8;
+
+/**
+ * Text columns with at most this many distinct values (each repeating on average) are enum-like
+ */
+const MAX_ENUM_VALUES = 20;
+
+/**
+ * Enum values listed for a column whose type a user set to enum
+ */
+export const MAX_LISTED_ENUM_VALUES = 100;
+
+const SAMPLE_VALUE_COUNT = 3;
+
+const NUMBER_PATTERN = /^[+-]?(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?$/;
+const INTEGER_PATTERN = /^[+-]?\d+$/;
+// Leading zeros mean an identifier (ZIP code, account number), not a number
+const LEADING_ZERO_PATTERN = /^[+-]?0\d/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const URL_PATTERN = /^https?:\/\/[^\s/$.?#][^\s]*$/i;
+export const DATETIME_PATTERN =
+  /^(\d{4})-(\d{2})-(\d{2})([T ])(\d{2}):(\d{2})(?::(\d{2})(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+
+/**
+ * Date formats, in order of preference when a column fits several equally
+ * (so 01/02/2024 is read as January 2 unless the column shows otherwise)
+ */
+export const DATE_FORMATS: Array<{
+  format: string;
+  pattern: RegExp;
+  parts: [
+    'year' | 'month' | 'day',
+    'year' | 'month' | 'day',
+    'year' | 'month' | 'day',
+  ];
+}> = [
+  {
+    format: 'YYYY-MM-DD',
+    pattern: /^(\d{4})-(\d{1,2})-(\d{1,2})$/,
+    parts: ['year', 'month', 'day'],
+  },
+  {
+    format: 'YYYY/MM/DD',
+    pattern: /^(\d{4})\/(\d{1,2})\/(\d{1,2})$/,
+    parts: ['year', 'month', 'day'],
+  },
+  {
+    format: 'MM/DD/YYYY',
+    pattern: /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/,
+    parts: ['month', 'day', 'year'],
+  },
+  {
+    format: 'DD/MM/YYYY',
+    pattern: /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/,
+    parts: ['day', 'month', 'year'],
+  },
+  {
+    format: 'MM-DD-YYYY',
+    pattern: /^(\d{1,2})-(\d{1,2})-(\d{4})$/,
+    parts: ['month', 'day', 'year'],
+  },
+  {
+    format: 'DD-MM-YYYY',
+    pattern: /^(\d{1,2})-(\d{1,2})-(\d{4})$/,
+    parts: ['day', 'month', 'year'],
+  },
+  {
+    format: 'DD.MM.YYYY',
+    pattern: /^(\d{1,2})\.(\d{1,2})\.(\d{4})$/,
+    parts: ['day', 'month', 'year'],
+  },
+];
+
+const DATETIME_FORMATS = {
+  T: 'YYYY-MM-DDTHH:mm:ss',
+  ' ': 'YYYY-MM-DD HH:mm:ss',
+};
+
+/**
+ * Types tried for a column, most specific first (ties go to the earlier type)
+ */
+const CANDIDATE_TYPES: InferredType[] = [
+  'boolean',
+  'integer',
+  'number',
+  'date',
+  'datetime',
+  'email',
+  'url',
+];
+
+/**
+ * ColumnTally Interface
+ * What inference has counted about the non-empty values of one column
+ */
+export interface ColumnTally {
+  nonEmpty: number;
+  fits: Map<InferredType, number>; // Values that fit each candidate type (except date)
+  dateFormats: Map<string, number>; // Values that are dates in each format
+  datetimeFormats: Map<string, number>;
+  sampleValues: string[]; // First few distinct values
+}
+
+/**
+ * SchemaTally Interface
+ * Counts what type inference needs, a batch of rows at a time, so the rows of an
+ * upload never have to be in memory together (see TypeInferenceService.createTally)
+ */
+export interface SchemaTally {
+  add(rows: TypedRow[]): void;
+  columns(): string[]; // Columns counted, in order of first appearance
+  get(column: string): ColumnTally | undefined;
+}
+
+@Injectable()
+export class TypeInferenceService {
+  /**
+   * createTally - Starts counting the values of rows for type inference
+   *
+   * @param columns - Only count these columns (default: every column, as they appear)
+   */
+  createTally(columns?: string[]): SchemaTally {
+    const tallies = new Map<string, ColumnTally>();
+    const tallyOf = (column: string) => {
+      let tally = tallies.get(column);
+      if (!tally) {
+        tally = {
+          nonEmpty: 0,
+          fits: new Map(),
+          dateFormats: new Map(),
+          datetimeFormats: new Map(),
+          sampleValues: [],
+        };
+        tallies.set(column, tally);
+      }
+      return tally;
+    };
+    columns?.forEach(tallyOf);
+
+    return {
+      add: (rows) => {
+        for (const row of rows) {
+          for (const column of columns ?? Object.keys(row)) {
+            const value = this.toText(row[column]).trim();
+            if (value) {
+              this.tallyValue(tallyOf(column), value);
+            }
+          }
+        }
+      },
+      columns: () => [...tallies.keys()],
+      get: (column) => tallies.get(column),
+    };
+  }
+
+  /**
+   * describeColumns - Turns the counts of a tally into the schema of its columns
+   *
+   * @param tally - Counts of the values of every row
+   * @param rowCount - Number of rows counted (values missing from a row are empty)
+   * @param valueCounts - Distinct values of each column, counted by the database
+   *                      (at least MAX_LISTED_ENUM_VALUES top values)
+   * @param types - Column name -> type chosen by the user, instead of the inferred one
+   */
+  describeColumns(
+    tally: SchemaTally,
+    rowCount: number,
+    valueCounts: Map<string, ColumnValueCounts>,
+    types: Record<string, InferredType> = {},
+  ): ColumnSchema[] {
+    return tally.columns().map((column) => {
+      const schema = this.describeColumn(
+        column,
+        tally.get(column),
+        rowCount,
+        valueCounts.get(column) ?? {
+          distinctCount: 0,
+          repeatedCount: 0,
+          topValues: [],
+        },
+        types[column],
+      );
+      return types[column] ? { ...schema, overridden: true } : schema;
+    });
+  }
+
+  /**
+   * inferSchema - Infers the type of every column of rows that are already in memory
+   * (e.g. the data of uploads stored before rows had their own table)
+   *
+   * @param rows - All rows of the upload
+   * @param columns - Columns in order (default: the keys of the first row)
+   */
+  inferSchema(rows: TypedRow[], columns?: string[]): ColumnSchema[] {
+    const tally = this.createTally(columns ?? Object.keys(rows[0] ?? {}));
+    tally.add(rows);
+    const valueCounts = new Map(
+      tally
+        .columns()
+        .map((column) => [
+          column,
+          this.countValues(rows.map((row) => this.toText(row[column]).trim())),
+        ]),
+    );
+    return this.describeColumns(tally, rows.length, valueCounts);
+  }
+
+  /**
+   * checkTypes - Checks the column types chosen by a user
+   *
+   * @param schema - Current schema
+   * @param types - Column name -> type
+   * @returns The types, checked
+   * @throws BadRequestException for unknown columns or types
+   */
+  checkTypes(
+    schema: ColumnSchema[],
+    types: Record<string, string>,
+  ): Record<string, InferredType> {
+    const unknownColumns = Object.keys(types).filter(
+      (column) => !schema.some((entry) => entry.name === column),
+    );
+    if (unknownColumns.length > 0) {
+      throw new BadRequestException(
+        `Unknown column(s): ${unknownColumns.join(', ')}`,
+      );
+    }
+    for (const [column, type] of Object.entries(types)) {
+      if (!(INFERRED_TYPES as readonly string[]).includes(type)) {
+        throw new BadRequestException(
+          `Type of column "${column}" must be one of: ${INFERRED_TYPES.join(', ')}`,
+        );
+      }
+    }
+    return types as Record<string, InferredType>;
+  }
+
+  /**
+   * coerceRows - Converts values to their column types
+   *
+   * Empty values become null. Values that do not fit their column's type stay
+   * text, so nothing is lost. Dates become YYYY-MM-DD and timestamps
+   * YYYY-MM-DDTHH:mm:ss (with the original fraction and zone, if any).
+   */
+  coerceRows(rows: TypedRow[], schema: ColumnSchema[]): TypedRow[] {
+    return rows.map((row) => {
+      const typed: TypedRow = {};
+      for (const column of Object.keys(row)) {
+        const entry = schema.find((candidate) => candidate.name === column);
+        typed[column] = entry
+          ? this.coerceValue(this.toText(row[column]), entry)
+          : row[column];
+      }
+      return typed;
+    });
+  }
+
+  /**
+   * toTextRows - Converts typed values back to text (null becomes an empty string)
+   */
+  toTextRows(rows: TypedRow[]): Record<string, string>[] {
+    return rows.map((row) => {
+      const text: Record<string, string> = {};
+      for (const column of Object.keys(row)) {
+        text[column] = this.toText(row[column]);
+      }
+      return text;
+    });
+  }
+
+  /**
+   * toText - The text form of a stored value
+   */
+  toText(value: TypedValue | undefined): string {
+    return value === null || value === undefined ? '' : String(value);
+  }
+
+  /**
+   * coerceValue - Converts one value to its column's type; values that do not fit stay text
+   */
+  coerceValue(value: string, column: ColumnSchema): TypedValue {
+    const trimmed = value.trim();
+    if (!trimmed) {
+      return null;
+    }
+    switch (column.type) {
+      case 'integer':
+      case 'number':
+        return this.parseNumber(trimmed) ?? value;
+      case 'boolean':
+        return /^(true|false)$/i.test(trimmed)
+          ? trimmed.toLowerCase() === 'true'
+          : value;
+      case 'date':
+        // Values coerced before are already YYYY-MM-DD
+        return (
+          this.parseDate(trimmed, column.format ?? 'YYYY-MM-DD') ??
+          this.parseDate(trimmed, 'YYYY-MM-DD') ??
+          value
+        );
+      case 'datetime':
+        return this.parseDatetime(trimmed)?.value ?? value;
+      default:
+        return value;
+    }
+  }
+
+  /**
+   * fitsType - Whether a value fits its column's type (empty values and text types always fit)
+   * Values coerced before (numbers, booleans, YYYY-MM-DD dates) fit as well.
+   */
+  fitsType(value: string, column: ColumnSchema): boolean {
+    const trimmed = value.trim();
+    if (!trimmed) {
+      return true;
+    }
+    switch (column.type) {
+      case 'integer':
+        return (
+          INTEGER_PATTERN.test(trimmed) &&
+          this.parseNumber(trimmed) !== undefined
+        );
+      case 'number':
+        return this.parseNumber(trimmed) !== undefined;
+      case 'boolean':
+        return /^(true|false)$/i.test(trimmed);
+      case 'date':
+        return (
+          this.parseDate(trimmed, column.format ?? 'YYYY-MM-DD') !==
+            undefined || this.parseDate(trimmed, 'YYYY-MM-DD') !== undefined
+        );
+      case 'datetime':
+        return this.parseDatetime(trimmed) !== undefined;
+      case 'email':
+        return EMAIL_PATTERN.test(trimmed);
+      case 'url':
+        return URL_PATTERN.test(trimmed);
+      default:
+        return true;
+    }
+  }
+
+  /**
+   * Describes one column; infers the type unless one is given
+   */
+  private describeColumn(
+    name: string,
+    tally: ColumnTally | undefined,
+    rowCount: number,
+    counts: ColumnValueCounts,
+    forcedType?: InferredType,
+  ): ColumnSchema {
+    const nonEmpty = tally?.nonEmpty ?? 0;
+    const base = {
+      name,
+      nullCount: rowCount - nonEmpty,
+      distinctCount: counts.distinctCount,
+      sampleValues: tally?.sampleValues ?? [],
+    };
+
+    if (nonEmpty === 0) {
+      return {
+        ...base,
+        type: forcedType ?? 'empty',
+        confidence: forcedType && forcedType !== 'empty' ? 0 : 1,
+      };
+    }
+
+    // A column uses one date format; values in other formats do not count.
+    // Timestamps are all ISO 8601, so any separator counts.
+    const dateFormat = this.mostFrequent(tally.dateFormats);
+    const datetimeFormat = this.mostFrequent(tally.datetimeFormats);
+    const fitCount = (type: InferredType) =>
+      type === 'date'
+        ? (tally.dateFormats.get(dateFormat) ?? 0)
+        : (tally.fits.get(type) ?? 0);
+    const ratio = (type: InferredType) => fitCount(type) / nonEmpty;
+    const formatOf = (type: InferredType) =>
+      type === 'date'
+        ? dateFormat
+        : type === 'datetime'
+          ? datetimeFormat
+          : undefined;
+
+    if (forcedType) {
+      return this.describeAs(forcedType, base, nonEmpty, counts, {
+        confidence: ['string', 'enum', 'empty'].includes(forcedType)
+          ? undefined
+          : ratio(forcedType),
+        format: formatOf(forcedType),
+      });
+    }
+
+    // The best fitting type; integer only wins over number when every number is an integer
+    let best: InferredType | undefined;
+    for (const type of CANDIDATE_TYPES) {
+      if (!best || ratio(type) > ratio(best)) {
+        best = type;
+      }
+    }
+    if (ratio(best) >= TYPE_CONFIDENCE_THRESHOLD) {
+      return {
+        ...base,
+        type: best,
+        confidence: this.round(ratio(best)),
+        format: formatOf(best),
+      };
+    }
+
+    const enumLike =
+      counts.distinctCount <= MAX_ENUM_VALUES &&
+      counts.distinctCount <= nonEmpty / 2;
+    if (enumLike) {
+      return this.describeAs('enum', base, nonEmpty, counts, {});
+    }
+    return {
+      ...base,
+      type: 'string',
+      confidence: this.round(1 - ratio(best)),
+    };
+  }
+
+  /**
+   * Describes a column as the given type
+   */
+  private describeAs(
+    type: InferredType,
+    base: Pick<
+      ColumnSchema,
+      'name' | 'nullCount' | 'distinctCount' | 'sampleValues'
+    >,
+    nonEmpty: number,
+    counts: ColumnValueCounts,
+    fit: { confidence?: number; format?: string },
+  ): ColumnSchema {
+    if (type === 'enum') {
+      return {
+        ...base,
+        type,
+        confidence: this.round(counts.repeatedCount / nonEmpty),
+        enumValues: counts.topValues
+          .slice(0, MAX_LISTED_ENUM_VALUES)
+          .map(({ value }) => value),
+      };
+    }
+    return {
+      ...base,
+      type,
+      confidence: this.round(fit.confidence ?? 1),
+      format: fit.format,
+    };
+  }
+
+  /**
+   * Counts a non-empty (trimmed) value: the candidate types and date formats it
+   * fits, and whether it is one of the first sample values
+   */
+  private tallyValue(tally: ColumnTally, value: string): void {
+    const add = <K>(map: Map<K, number>, key: K) =>
+      map.set(key, (map.get(key) ?? 0) + 1);
+
+    tally.nonEmpty++;
+    if (
+      tally.sampleValues.length < SAMPLE_VALUE_COUNT &&
+      !tally.sampleValues.includes(value)
+    ) {
+      tally.sampleValues.push(value);
+    }
+    if (/^(true|false)$/i.test(value)) {
+      add(tally.fits, 'boolean');
+    }
+    if (this.parseNumber(value) !== undefined) {
+      add(tally.fits, 'number');
+      if (INTEGER_PATTERN.test(value)) {
+        add(tally.fits, 'integer');
+      }
+    }
+    for (const { format } of DATE_FORMATS) {
+      if (this.parseDate(value, format)) {
+        add(tally.dateFormats, format);
+      }
+    }
+    const datetime = this.parseDatetime(value);
+    if (datetime) {
+      add(tally.fits, 'datetime');
+      add(tally.datetimeFormats, datetime.format);
+    }
+    if (EMAIL_PATTERN.test(value)) {
+      add(tally.fits, 'email');
+    }
+    if (URL_PATTERN.test(value)) {
+      add(tally.fits, 'url');
+    }
+  }
+
+  /**
+   * Counts the distinct non-empty values of a column held in memory
+   */
+  private countValues(values: string[]): ColumnValueCounts {
+    const frequencies = new Map<string, number>();
+    for (const value of values) {
+      if (value) {
+        frequencies.set(value, (frequencies.get(value) ?? 0) + 1);
+      }
+    }
+    return {
+      distinctCount: frequencies.size,
+      repeatedCount: [...frequencies.values()]
+        .filter((count) => count > 1)
+        .reduce((sum, count) => sum + count, 0),
+      topValues: [...frequencies]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, MAX_LISTED_ENUM_VALUES)
+        .map(([value, count]) => ({ value, count })),
+    };
+  }
+
+  /**
+   * The number a value holds, or undefined (leading zeros and integers too
+   * large to store exactly are not numbers)
+   */
+  private parseNumber(value: string): number | undefined {
+    if (!NUMBER_PATTERN.test(value) || LEADING_ZERO_PATTERN.test(value)) {
+      return undefined;
+    }
+    const number = Number(value);
+    if (
+      !Number.isFinite(number) ||
+      (INTEGER_PATTERN.test(value) && !Number.isSafeInteger(number))
+    ) {
+      return undefined;
+    }
+    return number;
+  }
+
+  /**
+   * A date written in the given format, as YYYY-MM-DD; undefined if it does not fit
+   * or is not a real day (e.g. 2024-02-30)
+   */
+  private parseDate(value: string, format: string): string | undefined {
+    const dateFormat = DATE_FORMATS.find(
+      (candidate) => candidate.format === format,
+    );
+    const match = dateFormat?.pattern.exec(value);
+    if (!match) {
+      return undefined;
+    }
+    const parts: Record<string, number> = {};
+    dateFormat.parts.forEach((part, index) => {
+      parts[part] = Number(match[index + 1]);
+    });
+    return this.isoDate(parts.year, parts.month, parts.day);
+  }
+
+  /**
+   * An ISO 8601 timestamp, as YYYY-MM-DDTHH:mm:ss (plus fraction and zone if given)
+   */
+  private parseDatetime(
+    value: string,
+  ): { value: string; format: string } | undefined {
+    const match = DATETIME_PATTERN.exec(value);
+    if (!match) {
+      return undefined;
+    }
+    const [, year, month, day, separator, hours, minutes, seconds] = match;
+    const date = this.isoDate(Number(year), Number(month), Number(day));
+    if (
+      !date ||
+      Number(hours) > 23 ||
+      Number(minutes) > 59 ||
+      Number(seconds ?? 0) > 59
+    ) {
+      return undefined;
+    }
+    return {
+      value: `${date}T${hours}:${minutes}:${seconds ?? '00'}${match[8] ?? ''}${match[9] ?? ''}`,
+      format: DATETIME_FORMATS[separator as keyof typeof DATETIME_FORMATS],
+    };
+  }
+
+  /**
+   * YYYY-MM-DD for a real calendar day, undefined otherwise
+   */
+  private isoDate(
+    year: number,
+    month: number,
+    day: number,
+  ): string | undefined {
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (
+      date.getUTCFullYear() !== year ||
+      date.getUTCMonth() !== month - 1 ||
+      date.getUTCDate() !== day
+    ) {
+      return undefined;
+    }
+    return `${String(year).padStart(4, '0')}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+  }
+
+  /**
+   * The key with the highest count (the first one on ties)
+   */
+  private mostFrequent(counts: Map<string, number>): string | undefined {
+    let best: string | undefined;
+    for (const [key, count] of counts) {
+      if (best === undefined || count > counts.get(best)) {
+        best = key;
+      }
+    }
+    return best;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 1000) / 1000;
+  }
+}
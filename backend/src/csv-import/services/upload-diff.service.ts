@@ -0,0 +1,524 @@
+/**
+ * upload-diff.service.ts - Upload Diff Service
+ *
+ * This service compares the rows of two uploads, e.g. two daily imports of the
+ * same feed. Rows are matched by the values of user-chosen key columns; each key
+ * is classified as added, removed or changed, and changed rows list the cells
+ * that differ. The comparison runs in the database (a FULL OUTER JOIN of the
+ * upload_rows of both uploads on the key), so it works for uploads of any size.
+ *
+ * Responsibilities:
+ * - Check the key columns against both uploads
+ * - Match rows by key (keys must identify rows uniquely in both uploads)
+ * - Compare the columns both uploads have, by column type where both agree
+ * - Count the rows that differ and read them a page at a time
+ * - Lay a diff out as a table for export
+ */
+
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ObjectLiteral, Repository, SelectQueryBuilder } from 'typeorm';
+import { UploadRowEntity } from '../entities/upload-row.entity';
+import { UploadRecord } from '../interfaces/upload-record.interface';
+import { ColumnSchema, TypedRow } from '../interfaces/column-schema.interface';
+import {
+  DiffChangeType,
+  UploadDiff,
+  UploadDiffRow,
+  UploadDiffSummary,
+} from '../interfaces/upload-diff.interface';
+import {
+  LEADING_ZERO_PATTERN,
+  NUMBER_PATTERN,
+  READ_BATCH_SIZE,
+} from './upload-row.service';
+import { DATE_FORMATS, DATETIME_PATTERN } from './type-inference.service';
+
+/**
+ * The change of a row of the joined uploads (NULL for unchanged rows)
+ */
+const CHANGE_TYPE_SQL = `(CASE WHEN diff."baseRowNumber" IS NULL THEN 'added' WHEN diff."compareRowNumber" IS NULL THEN 'removed' WHEN cardinality(diff.changes) > 0 THEN 'changed' END)`;
+
+/**
+ * UploadDiffPage - Which rows of a diff to return
+ */
+export interface UploadDiffPage {
+  type?: DiffChangeType; // Only rows with this kind of change (default: all)
+  offset?: number; // Rows to skip (default: 0)
+  limit?: number; // Rows to return (default: none, only the summary)
+}
+
+/**
+ * The columns of two uploads and how their values are compared in SQL
+ */
+interface DiffQuery {
+  keyColumns: string[];
+  columns: string[]; // Columns in both uploads, in the order of the base upload
+  addedColumns: string[];
+  removedColumns: string[];
+  sql: string; // Every key of both uploads: row numbers, rows and changed columns
+  baseKeySql: string; // Key of a row of the base upload (on data)
+  compareKeySql: string; // Key of a row of the compared upload (on data)
+  parameters: Record<string, unknown>;
+}
+
+@Injectable()
+export class UploadDiffService {
+  constructor(
+    @InjectRepository(UploadRowEntity)
+    private readonly rowRepository: Repository<UploadRowEntity>,
+  ) {}
+
+  /**
+   * diff - Compares the rows of two successful uploads
+   *
+   * @param base - The earlier upload (rows only here are removed)
+   * @param compare - The later upload (rows only here are added)
+   * @param keyColumns - Columns whose values identify a row in both uploads
+   * @param page - Which of the rows that differ to return
+   * @returns A summary of all rows and a page of the rows that differ
+   * @throws BadRequestException if a key column is missing from an upload, or
+   * two rows of an upload have the same key
+   *
+   * Values are compared by column type when both uploads inferred the same type for
+   * a column (so 12.50 equals 12.5, and 15/01/2024 equals 2024-01-15), as text otherwise.
+   */
+  async diff(
+    base: UploadRecord,
+    compare: UploadRecord,
+    keyColumns: string[],
+    page: UploadDiffPage = {},
+  ): Promise<UploadDiff> {
+    const query = this.createDiffQuery(base, compare, keyColumns);
+    await this.checkUniqueKeys(base, query, query.baseKeySql);
+    await this.checkUniqueKeys(compare, query, query.compareKeySql);
+
+    const summary: UploadDiffSummary = {
+      added: 0,
+      removed: 0,
+      changed: 0,
+      unchanged: 0,
+    };
+    const counts = await this.createQueryBuilder(query)
+      .select(CHANGE_TYPE_SQL, 'type')
+      .addSelect('COUNT(*)', 'count')
+      .groupBy(CHANGE_TYPE_SQL)
+      .getRawMany();
+    for (const { type, count } of counts) {
+      summary[(type as DiffChangeType) ?? 'unchanged'] = Number(count);
+    }
+
+    const rows =
+      page.limit > 0
+        ? await this.createRowsQuery(query, page.type)
+            .offset(page.offset ?? 0)
+            .limit(page.limit)
+            .getRawMany()
+        : [];
+
+    return {
+      keyColumns: query.keyColumns,
+      columns: query.columns,
+      addedColumns: query.addedColumns,
+      removedColumns: query.removedColumns,
+      summary,
+      rows: rows.map((row) => this.toDiffRow(row, query.keyColumns)),
+      total: page.type
+        ? summary[page.type]
+        : summary.added + summary.removed + summary.changed,
+    };
+  }
+
+  /**
+   * iterateRows - The rows that differ, a batch at a time, in the order of diff
+   * Pages by row numbers, so each batch is one query; call diff first to check the keys.
+   *
+   * @param type - Only rows with this kind of change (default: all)
+   */
+  async *iterateRows(
+    base: UploadRecord,
+    compare: UploadRecord,
+    keyColumns: string[],
+    type?: DiffChangeType,
+  ): AsyncGenerator<UploadDiffRow[]> {
+    const query = this.createDiffQuery(base, compare, keyColumns);
+    let last: { baseRowNumber: number; compareRowNumber: number };
+    while (true) {
+      const queryBuilder = this.createRowsQuery(query, type).limit(
+        READ_BATCH_SIZE,
+      );
+      if (last?.baseRowNumber != null) {
+        queryBuilder.andWhere(
+          '(diff."baseRowNumber" > :lastBaseRowNumber OR diff."baseRowNumber" IS NULL)',
+          { lastBaseRowNumber: last.baseRowNumber },
+        );
+      } else if (last) {
+        queryBuilder.andWhere(
+          'diff."baseRowNumber" IS NULL AND diff."compareRowNumber" > :lastCompareRowNumber',
+          { lastCompareRowNumber: last.compareRowNumber },
+        );
+      }
+      const rows = await queryBuilder.getRawMany();
+      if (rows.length === 0) {
+        return;
+      }
+      yield rows.map((row) => this.toDiffRow(row, query.keyColumns));
+      if (rows.length < READ_BATCH_SIZE) {
+        return;
+      }
+      last = rows[rows.length - 1];
+    }
+  }
+
+  /**
+   * iterateTable - The rows of a diff that differ as table lines (see toTable), a batch at a time
+   *
+   * @param diff - The diff of the two uploads (checks the keys)
+   * @param type - Only rows with this kind of change (default: all)
+   */
+  async *iterateTable(
+    base: UploadRecord,
+    compare: UploadRecord,
+    diff: UploadDiff,
+    type?: DiffChangeType,
+  ): AsyncGenerator<TypedRow[]> {
+    for await (const rows of this.iterateRows(
+      base,
+      compare,
+      diff.keyColumns,
+      type,
+    )) {
+      yield this.toTable(diff, rows).rows;
+    }
+  }
+
+  /**
+   * toTable - Lays rows of a diff out as a table, one line per row
+   *
+   * Columns: change, base_row, compare_row, the key columns, changed_columns, then
+   * "<column> (before)" and "<column> (after)" for every other compared column.
+   * Added rows have no before values, removed rows no after values.
+   */
+  toTable(
+    diff: UploadDiff,
+    rows: UploadDiffRow[] = diff.rows,
+  ): { columns: string[]; rows: TypedRow[] } {
+    const comparedColumns = diff.columns.filter(
+      (column) => !diff.keyColumns.includes(column),
+    );
+    const columns = [
+      'change',
+      'base_row',
+      'compare_row',
+      ...diff.keyColumns,
+      'changed_columns',
+      ...comparedColumns.flatMap((column) => [
+        `${column} (before)`,
+        `${column} (after)`,
+      ]),
+    ];
+
+    return {
+      columns,
+      rows: rows.map((row) => {
+        const line: TypedRow = {
+          change: row.type,
+          base_row: row.baseRowNumber ?? null,
+          compare_row: row.compareRowNumber ?? null,
+          ...row.key,
+          changed_columns: (row.changes ?? [])
+            .map((change) => change.column)
+            .join(', '),
+        };
+        for (const column of comparedColumns) {
+          line[`${column} (before)`] = row.before?.[column] ?? null;
+          line[`${column} (after)`] = row.after?.[column] ?? null;
+        }
+        return line;
+      }),
+    };
+  }
+
+  /**
+   * createDiffQuery - Checks the key columns and builds the join of both uploads
+   * Column names and patterns are passed as parameters, never written into the SQL.
+   *
+   * @throws BadRequestException if a key column is missing from an upload
+   */
+  private createDiffQuery(
+    base: UploadRecord,
+    compare: UploadRecord,
+    keyColumns: string[],
+  ): DiffQuery {
+    const baseSchema = base.columnSchema ?? [];
+    const compareSchema = compare.columnSchema ?? [];
+    const baseColumnsByName = new Map(
+      baseSchema.map((column) => [column.name, column]),
+    );
+    const compareColumnsByName = new Map(
+      compareSchema.map((column) => [column.name, column]),
+    );
+
+    for (const [upload, columns] of [
+      [base, baseColumnsByName],
+      [compare, compareColumnsByName],
+    ] as const) {
+      const missing = keyColumns.filter((column) => !columns.has(column));
+      if (missing.length > 0) {
+        throw new BadRequestException(
+          `Key column(s) not found in ${upload.fileName}: ${missing.join(', ')}`,
+        );
+      }
+    }
+
+    const columns = baseSchema
+      .map((column) => column.name)
+      .filter((column) => compareColumnsByName.has(column));
+    const comparedColumns = columns.filter(
+      (column) => !keyColumns.includes(column),
+    );
+
+    const parameters: Record<string, unknown> = {
+      diffBaseId: base.id,
+      diffCompareId: compare.id,
+      diffNumberPattern: NUMBER_PATTERN,
+      diffLeadingZeroPattern: LEADING_ZERO_PATTERN,
+      diffIntegerPattern: '^[+-]?[0-9]+$',
+      // Exponents the database cannot hold as numeric; such values compare as text
+      diffLongExponentPattern: '[eE][+-]?[0-9]{5,}',
+      diffDatetimePattern: DATETIME_PATTERN.source,
+    };
+    const addParameter = (value: unknown): string => {
+      const name = `diff${Object.keys(parameters).length}`;
+      parameters[name] = value;
+      return name;
+    };
+
+    // Key values are compared like the other values
+    const baseComparable = (dataSql: string, column: string) =>
+      this.comparableSql(
+        dataSql,
+        baseColumnsByName.get(column),
+        compareColumnsByName.get(column),
+        addParameter,
+      );
+    const compareComparable = (dataSql: string, column: string) =>
+      this.comparableSql(
+        dataSql,
+        compareColumnsByName.get(column),
+        baseColumnsByName.get(column),
+        addParameter,
+      );
+    const baseKeySql = `ARRAY[${keyColumns.map((column) => baseComparable('data', column)).join(', ')}]`;
+    const compareKeySql = `ARRAY[${keyColumns.map((column) => compareComparable('data', column)).join(', ')}]`;
+
+    const changes = comparedColumns.length
+      ? `array_remove(ARRAY[${comparedColumns
+          .map(
+            (column) =>
+              `CASE WHEN ${baseComparable('base.data', column)} IS DISTINCT FROM ${compareComparable('compare.data', column)} THEN CAST(:${addParameter(column)} AS text) END`,
+          )
+          .join(', ')}], NULL)`
+      : 'CAST(ARRAY[] AS text[])';
+
+    return {
+      keyColumns,
+      columns,
+      addedColumns: compareSchema
+        .map((column) => column.name)
+        .filter((column) => !baseColumnsByName.has(column)),
+      removedColumns: baseSchema
+        .map((column) => column.name)
+        .filter((column) => !compareColumnsByName.has(column)),
+      sql: `SELECT base."rowNumber" AS "baseRowNumber", compare."rowNumber" AS "compareRowNumber", base.data AS "before", compare.data AS "after", ${changes} AS changes
+        FROM (SELECT "rowNumber", data, ${baseKeySql} AS key FROM upload_rows WHERE "uploadId" = :diffBaseId) AS base
+        FULL OUTER JOIN (SELECT "rowNumber", data, ${compareKeySql} AS key FROM upload_rows WHERE "uploadId" = :diffCompareId) AS compare
+        ON base.key = compare.key`,
+      baseKeySql,
+      compareKeySql,
+      parameters,
+    };
+  }
+
+  /**
+   * Query on the joined rows of both uploads (alias diff)
+   */
+  private createQueryBuilder(
+    query: DiffQuery,
+  ): SelectQueryBuilder<ObjectLiteral> {
+    return this.rowRepository.manager
+      .createQueryBuilder()
+      .from(`(${query.sql})`, 'diff')
+      .setParameters(query.parameters);
+  }
+
+  /**
+   * Query for the rows that differ: rows of the base upload in file order, then
+   * added rows in the order of the compared upload
+   */
+  private createRowsQuery(
+    query: DiffQuery,
+    type?: DiffChangeType,
+  ): SelectQueryBuilder<ObjectLiteral> {
+    return this.createQueryBuilder(query)
+      .select(CHANGE_TYPE_SQL, 'type')
+      .addSelect('diff."baseRowNumber"', 'baseRowNumber')
+      .addSelect('diff."compareRowNumber"', 'compareRowNumber')
+      .addSelect('diff."before"', 'before')
+      .addSelect('diff."after"', 'after')
+      .addSelect('diff.changes', 'changes')
+      .where(
+        type
+          ? `${CHANGE_TYPE_SQL} = :diffType`
+          : `${CHANGE_TYPE_SQL} IS NOT NULL`,
+        { diffType: type },
+      )
+      .orderBy('diff."baseRowNumber"', 'ASC', 'NULLS LAST')
+      .addOrderBy('diff."compareRowNumber"', 'ASC');
+  }
+
+  /**
+   * checkUniqueKeys - Makes sure no two rows of an upload have the same key
+   * @throws BadRequestException naming the first row whose key an earlier row has
+   */
+  private async checkUniqueKeys(
+    upload: UploadRecord,
+    query: DiffQuery,
+    keySql: string,
+  ): Promise<void> {
+    const rowNumbers =
+      'array_agg(keyed."rowNumber" ORDER BY keyed."rowNumber")';
+    const duplicate = await this.rowRepository.manager
+      .createQueryBuilder()
+      .select(`(${rowNumbers})[1]`, 'firstRow')
+      .addSelect(`(${rowNumbers})[2]`, 'secondRow')
+      .from(
+        `(SELECT "rowNumber", ${keySql} AS key FROM upload_rows WHERE "uploadId" = :diffUploadId)`,
+        'keyed',
+      )
+      .setParameters({ ...query.parameters, diffUploadId: upload.id })
+      .groupBy('keyed.key')
+      .having('COUNT(*) > 1')
+      .orderBy(`(${rowNumbers})[2]`, 'ASC')
+      .limit(1)
+      .getRawOne();
+    if (duplicate) {
+      throw new BadRequestException(
+        `Key column(s) ${query.keyColumns.join(', ')} do not identify rows uniquely in ${upload.fileName}: rows ${duplicate.firstRow} and ${duplicate.secondRow} have the same key`,
+      );
+    }
+  }
+
+  /**
+   * comparableSql - SQL for the form of a value that is compared: converted to the
+   * column type if both uploads inferred the same type for the column, its text
+   * otherwise (as TypeInferenceService.coerceValue converts values)
+   *
+   * @param dataSql - SQL for the JSONB row values
+   */
+  private comparableSql(
+    dataSql: string,
+    column: ColumnSchema,
+    otherColumn: ColumnSchema,
+    addParameter: (value: unknown) => string,
+  ): string {
+    const text = `COALESCE(${dataSql} ->> :${addParameter(column.name)}, '')`;
+    if (column.type !== otherColumn.type) {
+      return text;
+    }
+
+    const value = `btrim(${text})`;
+    let typed: string;
+    switch (column.type) {
+      case 'integer':
+      case 'number': {
+        // Numbers compare by value; integers too large to store exactly stay text
+        const number = `CAST(${value} AS numeric)`;
+        typed = `(CASE WHEN ${value} ~ :diffNumberPattern AND ${value} !~ :diffLeadingZeroPattern AND ${value} !~ :diffLongExponentPattern THEN (CASE WHEN abs(${number}) < 1e308 AND (${number} = 0 OR abs(${number}) > 1e-307) AND (${value} !~ :diffIntegerPattern OR abs(${number}) <= ${Number.MAX_SAFE_INTEGER}) THEN CAST(CAST(${number} AS double precision) AS text) END) END)`;
+        break;
+      }
+      case 'boolean':
+        typed = `(CASE WHEN lower(${value}) IN ('true', 'false') THEN lower(${value}) END)`;
+        break;
+      case 'date':
+        // Values coerced before are already YYYY-MM-DD
+        typed = `COALESCE(${[column.format ?? 'YYYY-MM-DD', 'YYYY-MM-DD']
+          .map((format) => this.dateSql(value, format, addParameter))
+          .join(', ')})`;
+        break;
+      case 'datetime':
+        typed = `(SELECT CASE WHEN CAST(parts[5] AS int) <= 23 AND CAST(parts[6] AS int) <= 59 AND CAST(COALESCE(parts[7], '0') AS int) <= 59 THEN ${this.isoDateSql(
+          'CAST(parts[1] AS int)',
+          'CAST(parts[2] AS int)',
+          'CAST(parts[3] AS int)',
+        )} || 'T' || parts[5] || ':' || parts[6] || ':' || COALESCE(parts[7], '00') || COALESCE(parts[8], '') || COALESCE(parts[9], '') END FROM regexp_match(${value}, :diffDatetimePattern) AS parts)`;
+        break;
+      default:
+        typed = 'NULL';
+    }
+    // Empty values are null; values that do not fit the type stay text
+    return `(CASE WHEN ${value} = '' THEN '' ELSE COALESCE(${typed}, ${text}) END)`;
+  }
+
+  /**
+   * SQL for a date written in the given format, as YYYY-MM-DD (NULL if it does not fit)
+   */
+  private dateSql(
+    value: string,
+    format: string,
+    addParameter: (value: unknown) => string,
+  ): string {
+    const dateFormat = DATE_FORMATS.find(
+      (candidate) => candidate.format === format,
+    );
+    if (!dateFormat) {
+      return 'NULL';
+    }
+    const part = (name: 'year' | 'month' | 'day') =>
+      `CAST(parts[${dateFormat.parts.indexOf(name) + 1}] AS int)`;
+    return `(SELECT ${this.isoDateSql(part('year'), part('month'), part('day'))} FROM regexp_match(${value}, :${addParameter(dateFormat.pattern.source)}) AS parts)`;
+  }
+
+  /**
+   * SQL for YYYY-MM-DD of a real calendar day, NULL otherwise (years before 100
+   * are not real days in JavaScript either)
+   */
+  private isoDateSql(year: string, month: string, day: string): string {
+    return `(CASE WHEN ${year} >= 100 AND ${month} BETWEEN 1 AND 12 THEN (CASE WHEN ${day} BETWEEN 1 AND CAST(extract(day FROM make_date(${year}, ${month}, 1) + interval '1 month' - interval '1 day') AS int) THEN lpad(CAST(${year} AS text), 4, '0') || '-' || lpad(CAST(${month} AS text), 2, '0') || '-' || lpad(CAST(${day} AS text), 2, '0') END) END)`;
+  }
+
+  /**
+   * toDiffRow - Converts a row of the diff query to the row returned by the API
+   */
+  private toDiffRow(
+    raw: {
+      type: DiffChangeType;
+      baseRowNumber: number | null;
+      compareRowNumber: number | null;
+      before: TypedRow | null;
+      after: TypedRow | null;
+      changes: string[];
+    },
+    keyColumns: string[],
+  ): UploadDiffRow {
+    const keyRow = raw.before ?? raw.after;
+    return {
+      type: raw.type,
+      key: Object.fromEntries(
+        keyColumns.map((column) => [column, keyRow[column] ?? null]),
+      ),
+      baseRowNumber: raw.baseRowNumber ?? undefined,
+      compareRowNumber: raw.compareRowNumber ?? undefined,
+      before: raw.before ?? undefined,
+      after: raw.after ?? undefined,
+      changes:
+        raw.type === 'changed'
+          ? raw.changes.map((column) => ({
+              column,
+              before: raw.before[column] ?? null,
+              after: raw.after[column] ?? null,
+            }))
+          : undefined,
+    };
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * upload-events.service.ts - Upload Events Service
+ *
+ * This service broadcasts changes to upload records to connected clients.
+ * Producers (controller, import jobs) publish events; GET /csv-import/events
+ * turns the stream into Server-Sent Events for each connected client.
+ *
+ * Responsibilities:
+ * - Publish upload created/progress/completed/failed/deleted events
+ * - Provide a per-workspace event stream (only events for the uploads of the caller's workspace)
+ * - Keep idle connections open with periodic heartbeats
+ */
+
+import { Injectable, MessageEvent } from '@nestjs/common';
+import { Observable, Subject, interval, merge } from 'rxjs';
+import { filter, map } from 'rxjs/operators';
+import {
+  UploadEvent,
+  UploadEventType,
+} from '../interfaces/upload-event.interface';
+import { UploadProgress } from '../interfaces/upload-record.interface';
+
+/**
+ * Interval between heartbeat messages, so proxies do not close idle streams
+ */
+const HEARTBEAT_INTERVAL_MS = 25000;
+
+@Injectable()
+export class UploadEventsService {
+  private readonly events$ = new Subject<UploadEvent>();
+
+  /**
+   * publish - Broadcasts an upload event
+   *
+   * @param type - Kind of change
+   * @param uploadId - Upload record ID
+   * @param options - Workspace the upload belongs to, file name and current progress
+   */
+  publish(
+    type: UploadEventType,
+    uploadId: string,
+    options?: {
+      workspaceId?: string;
+      fileName?: string;
+      progress?: UploadProgress;
+    },
+  ): void {
+    this.events$.next({
+      type,
+      uploadId,
+      workspaceId: options?.workspaceId,
+      fileName: options?.fileName,
+      progress: options?.progress,
+      timestamp: new Date(),
+    });
+  }
+
+  /**
+   * streamFor - Returns the SSE stream for one workspace
+   *
+   * @param workspaceId - Workspace the connected user works in
+   * @returns Observable of SSE messages (event name = event type)
+   *
+   * Only events for uploads in this workspace are delivered, so every member
+   * sees uploads made by the others.
+   */
+  streamFor(workspaceId: string): Observable<MessageEvent> {
+    const events = this.events$.pipe(
+      filter((event) => event.workspaceId === workspaceId),
+      map(
+        (event): MessageEvent => ({
+          type: event.type,
+          data: {
+            type: event.type,
+            uploadId: event.uploadId,
+            fileName: event.fileName,
+            progress: event.progress,
+            timestamp: event.timestamp,
+          },
+        }),
+      ),
+    );
+
+    const heartbeats = interval(HEARTBEAT_INTERVAL_MS).pipe(
+      map((): MessageEvent => ({ type: 'heartbeat', data: {} })),
+    );
+
+    return merge(events, heartbeats);
+  }
+}
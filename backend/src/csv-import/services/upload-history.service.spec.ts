@@ -0,0 +1,117 @@
+import { ForbiddenException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ALL_WORKSPACES, UploadHistoryService } from './upload-history.service';
+import { UploadRecordEntity } from '../entities/upload-record.entity';
+import { UserEntity } from '../../auth/entities/user.entity';
+import { UploadStatus } from '../interfaces/upload-status.enum';
+import { WorkspacesService } from '../../workspaces/workspaces.service';
+import { FileStorageService } from './file-storage.service';
+import { UploadRowService } from './upload-row.service';
+import { ColumnProfileService } from './column-profile.service';
+import { DataQualityService } from './data-quality.service';
+import { DatasetService } from './dataset.service';
+
+const WORKSPACE_ID = '7d4c1a52-3b0e-4f6a-9a1c-2e8f5b6d7c90';
+
+describe('UploadHistoryService', () => {
+  let service: UploadHistoryService;
+  let queryBuilder: Record<string, jest.Mock>;
+  let uploadRepository: {
+    findOne: jest.Mock;
+    createQueryBuilder: jest.Mock;
+  };
+
+  beforeEach(async () => {
+    queryBuilder = {
+      select: jest.fn().mockReturnThis(),
+      addSelect: jest.fn().mockReturnThis(),
+      groupBy: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      getRawMany: jest.fn().mockResolvedValue([
+        { status: UploadStatus.SUCCESS, count: '3' },
+        { status: UploadStatus.FAILED, count: '1' },
+      ]),
+    };
+    uploadRepository = {
+      findOne: jest.fn().mockResolvedValue(null),
+      createQueryBuilder: jest.fn().mockReturnValue(queryBuilder),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        UploadHistoryService,
+        {
+          provide: getRepositoryToken(UploadRecordEntity),
+          useValue: uploadRepository,
+        },
+        { provide: getRepositoryToken(UserEntity), useValue: {} },
+        { provide: ConfigService, useValue: {} },
+        { provide: FileStorageService, useValue: {} },
+        { provide: UploadRowService, useValue: {} },
+        { provide: ColumnProfileService, useValue: {} },
+        { provide: DataQualityService, useValue: {} },
+        { provide: DatasetService, useValue: {} },
+        { provide: WorkspacesService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<UploadHistoryService>(UploadHistoryService);
+  });
+
+  describe('getUploadById', () => {
+    it('only looks in the given workspace', async () => {
+      await service.getUploadById('upload-1', WORKSPACE_ID);
+
+      expect(uploadRepository.findOne).toHaveBeenCalledWith({
+        where: { id: 'upload-1', workspaceId: WORKSPACE_ID },
+      });
+    });
+
+    it('looks in every workspace only when asked to', async () => {
+      await service.getUploadById('upload-1', ALL_WORKSPACES);
+
+      expect(uploadRepository.findOne).toHaveBeenCalledWith({
+        where: { id: 'upload-1' },
+      });
+    });
+
+    it('refuses a lookup without a workspace', async () => {
+      await expect(
+        service.getUploadById('upload-1', undefined),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+      expect(uploadRepository.findOne).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('countUploadsByStatus', () => {
+    it('counts the uploads of the given workspace in the database', async () => {
+      const counts = await service.countUploadsByStatus(WORKSPACE_ID);
+
+      expect(queryBuilder.groupBy).toHaveBeenCalledWith('upload.status');
+      expect(queryBuilder.where).toHaveBeenCalledWith(
+        'upload.workspaceId = :workspaceId',
+        { workspaceId: WORKSPACE_ID },
+      );
+      expect(counts).toEqual({
+        [UploadStatus.SUCCESS]: 3,
+        [UploadStatus.FAILED]: 1,
+        [UploadStatus.PROCESSING]: 0,
+      });
+    });
+
+    it('counts the uploads of every workspace for ALL_WORKSPACES', async () => {
+      await service.countUploadsByStatus(ALL_WORKSPACES);
+
+      expect(queryBuilder.where).not.toHaveBeenCalled();
+    });
+
+    it('refuses to count without a workspace', async () => {
+      await expect(
+        service.countUploadsByStatus(undefined),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+      expect(queryBuilder.getRawMany).not.toHaveBeenCalled();
+    });
+  });
+});
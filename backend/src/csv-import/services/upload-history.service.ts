@@ -7,21 +7,67 @@
  * Responsibilities:
  * - Create new upload records
  * - Update upload status (success/failed/processing)
+ * - Record progress of background imports
  * - Retrieve upload history
  * - Filter uploads by status
+ * - Number uploads as versions of a dataset (see DatasetService)
+ * - Record who uploaded each file and the workspace it belongs to; lookups take an
+ *   UploadScope and only find that workspace's uploads, unless the scope is
+ *   ALL_WORKSPACES (admins, background jobs, share links)
+ * - Assign owners and workspaces to uploads made before they existed (on startup)
  * - Convert database entities to interface objects
  */
 
-import { Injectable } from '@nestjs/common';
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+} from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, In } from 'typeorm';
-import { UploadRecord } from '../interfaces/upload-record.interface';
+import { ConfigService } from '@nestjs/config';
+import { Repository, In, IsNull, EntityTarget, ObjectLiteral } from 'typeorm';
+import { Readable } from 'stream';
+import {
+  UploadRecord,
+  UploadProgress,
+} from '../interfaces/upload-record.interface';
 import { UploadStatus } from '../interfaces/upload-status.enum';
-import { CsvRow } from '../csv-import.service';
+import { UploadPhase } from '../interfaces/upload-phase.enum';
+import { CsvDialect } from '../interfaces/csv-dialect.interface';
+import { ColumnSchema } from '../interfaces/column-schema.interface';
+import { IssueCode, QualityScore } from '../interfaces/upload-issue.interface';
 import { UploadRecordEntity } from '../entities/upload-record.entity';
+import { AuditAction, AuditLogEntity } from '../entities/audit-log.entity';
+import { DatasetEntity } from '../entities/dataset.entity';
+import { ImportTemplateEntity } from '../entities/import-template.entity';
+import { ValidationSchemaEntity } from '../entities/validation-schema.entity';
+import { ShareLinkEntity } from '../entities/share-link.entity';
+import { UserEntity } from '../../auth/entities/user.entity';
+import { WorkspacesService } from '../../workspaces/workspaces.service';
+import { FileStorageService } from './file-storage.service';
+import { UploadRowService } from './upload-row.service';
+import { ColumnProfileService } from './column-profile.service';
+import { DataQualityService } from './data-quality.service';
+import { DatasetService } from './dataset.service';
+import { requireWorkspace } from '../../common/utils/workspace.util';
+
+/**
+ * Scope of lookups that may return the uploads of every workspace
+ */
+export const ALL_WORKSPACES = Symbol('ALL_WORKSPACES');
+
+/**
+ * UploadScope - Which uploads a lookup may return: those of a workspace (by ID),
+ * or every upload with ALL_WORKSPACES. Reaching every upload has to be asked for;
+ * a missing workspace ID is refused instead of matching everything.
+ */
+export type UploadScope = string | typeof ALL_WORKSPACES;
 
 @Injectable()
-export class UploadHistoryService {
+export class UploadHistoryService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(UploadHistoryService.name);
+
   /**
    * Constructor - Dependency Injection
    * @InjectRepository injects the TypeORM repository for UploadRecordEntity
@@ -30,27 +76,101 @@ export class UploadHistoryService {
   constructor(
     @InjectRepository(UploadRecordEntity)
     private readonly uploadRepository: Repository<UploadRecordEntity>,
+    @InjectRepository(UserEntity)
+    private readonly userRepository: Repository<UserEntity>,
+    private readonly configService: ConfigService,
+    private readonly fileStorageService: FileStorageService,
+    private readonly uploadRowService: UploadRowService,
+    private readonly columnProfileService: ColumnProfileService,
+    private readonly dataQualityService: DataQualityService,
+    private readonly datasetService: DatasetService,
+    private readonly workspacesService: WorkspacesService,
   ) {}
 
+  /**
+   * onApplicationBootstrap - Assigns owners and workspaces to uploads made before they existed
+   *
+   * 1. Each upload without an owner gets the user who uploaded it, taken from its
+   *    'upload' audit log entry
+   * 2. Uploads still without an owner go to the user with the email in
+   *    LEGACY_UPLOADS_OWNER_EMAIL, if set; otherwise they stay hidden from everyone
+   * 3. Uploads without a dataset are grouped into datasets, and datasets without an
+   *    owner get the owner of their first version (see DatasetService)
+   * 4. Users without a personal workspace get one, and uploads, datasets, import
+   *    templates, validation schemas and audit log entries without a workspace move
+   *    into their user's personal workspace
+   *
+   * Runs in this order on every startup, so uploads that cannot be assigned yet are
+   * tried again once the variable is set.
+   */
+  async onApplicationBootstrap(): Promise<void> {
+    try {
+      await this.assignLegacyOwners();
+    } catch (error) {
+      this.logger.error(
+        `Could not assign owners to uploads: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+    await this.datasetService.groupLegacyUploads();
+    try {
+      await this.datasetService.assignOwners();
+    } catch (error) {
+      this.logger.error(
+        `Could not assign owners to datasets: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+    try {
+      await this.workspacesService.createMissingPersonalWorkspaces();
+      await this.assignLegacyWorkspaces();
+    } catch (error) {
+      this.logger.error(
+        `Could not assign workspaces: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+  }
+
   /**
    * createUploadRecord - Creates a new upload record in the database
    *
    * @param fileName - Name of the uploaded file
    * @param fileSize - Size of the file in bytes
+   * @param templateId - Import template the upload uses (optional)
+   * @param datasetId - Dataset the upload is a new version of (optional, a new dataset otherwise)
+   * @param userId - User who uploaded the file
+   * @param workspaceId - Workspace the upload belongs to
    * @returns Created upload record with generated ID
+   * @throws NotFoundException if there is no dataset with the given ID in the workspace
    *
    * This is called when a file upload starts.
-   * Creates a record with status PROCESSING.
+   * Creates a record with status PROCESSING and phase QUEUED.
    */
   async createUploadRecord(
     fileName: string,
     fileSize: number,
+    templateId?: string,
+    datasetId?: string,
+    userId?: string,
+    workspaceId?: string,
   ): Promise<UploadRecord> {
+    // Take the next version number of the dataset
+    const assigned = await this.datasetService.assignVersion(
+      fileName,
+      datasetId,
+      userId,
+      workspaceId,
+    );
+
     // Create a new entity instance (not saved yet)
     const record = this.uploadRepository.create({
       fileName,
       fileSize,
+      userId,
+      workspaceId,
+      templateId,
+      datasetId: assigned.datasetId,
+      version: assigned.version,
       status: UploadStatus.PROCESSING, // Start with processing status
+      phase: UploadPhase.QUEUED, // Waiting for the import job to pick it up
     });
 
     // Save to database and get the saved record (with generated ID)
@@ -64,10 +184,10 @@ export class UploadHistoryService {
    *
    * @param id - Upload record ID
    * @param status - New status (SUCCESS, FAILED, or PROCESSING)
-   * @param data - Optional data to update (rows, errors, message, CSV data)
+   * @param data - Optional data to update (rows, errors, message, rows stored, format, dialect, sheet, column schema or quality score)
    *
    * This is called after CSV parsing completes (success or failure).
-   * Updates the record with final status and stores CSV data if successful.
+   * The parsed rows themselves are stored in upload_rows by UploadRowService.
    */
   async updateUploadStatus(
     id: string,
@@ -75,8 +195,18 @@ export class UploadHistoryService {
     data?: {
       totalRows?: number;
       errors?: string[];
+      errorCount?: number;
       message?: string;
-      csvData?: CsvRow[];
+      rowsProcessed?: number;
+      duplicates?: Array<{ row: number; duplicateOf: number }>;
+      duplicateCount?: number;
+      format?: string;
+      dialect?: CsvDialect;
+      sheetName?: string;
+      headerRow?: number;
+      columnSchema?: ColumnSchema[];
+      typed?: boolean;
+      quality?: QualityScore;
     },
   ): Promise<void> {
     // Prepare update data
@@ -85,6 +215,14 @@ export class UploadHistoryService {
       completedAt: new Date(), // Mark when processing completed
     };
 
+    // Keep the progress fields consistent with the final status
+    if (status === UploadStatus.SUCCESS) {
+      updateData.phase = UploadPhase.COMPLETED;
+      updateData.progressPercent = 100;
+    } else if (status === UploadStatus.FAILED) {
+      updateData.phase = UploadPhase.FAILED;
+    }
+
     // Add optional data if provided
     if (data) {
       if (data.totalRows !== undefined) {
@@ -93,12 +231,39 @@ export class UploadHistoryService {
       if (data.errors) {
         updateData.errors = data.errors;
       }
+      if (data.errorCount !== undefined) {
+        updateData.errorCount = data.errorCount;
+      }
       if (data.message) {
         updateData.message = data.message;
       }
-      if (data.csvData) {
-        // Store CSV data as JSONB in database
-        updateData.data = data.csvData as Record<string, string>[];
+      if (data.rowsProcessed !== undefined) {
+        updateData.rowsProcessed = data.rowsProcessed;
+      }
+      if (data.duplicates) {
+        updateData.duplicates = data.duplicates;
+      }
+      if (data.duplicateCount !== undefined) {
+        updateData.duplicateCount = data.duplicateCount;
+      }
+      if (data.format) {
+        updateData.format = data.format;
+      }
+      if (data.dialect) {
+        updateData.dialect = data.dialect;
+      }
+      if (data.sheetName) {
+        updateData.sheetName = data.sheetName;
+        updateData.headerRow = data.headerRow;
+      }
+      if (data.columnSchema) {
+        updateData.columnSchema = data.columnSchema;
+      }
+      if (data.typed !== undefined) {
+        updateData.typed = data.typed;
+      }
+      if (data.quality) {
+        updateData.quality = data.quality;
       }
     }
 
@@ -107,44 +272,152 @@ export class UploadHistoryService {
   }
 
   /**
-   * getAllUploads - Retrieves all upload records with smart sorting
+   * updateColumnTypes - Records the column schema of an upload and whether its rows are typed
    *
-   * @returns Array of upload records sorted by:
-   *   1. Status priority: success → processing → failed
-   *   2. Date: newest first within each status group
+   * @param id - Upload record ID
+   * @param data - Column schema, whether the stored rows hold typed values, and the
+   *               quality score for the new column types (if the upload has one)
    *
-   * This ensures successful uploads appear at the top of the list.
+   * Used when a user converts an upload's values to their column types (or back to text);
+   * the converted rows are written by UploadRowService.
    */
-  async getAllUploads(): Promise<UploadRecord[]> {
-    // Use QueryBuilder for complex sorting
-    // Sort by status priority first, then by date
-    const records = await this.uploadRepository
+  async updateColumnTypes(
+    id: string,
+    data: {
+      columnSchema: ColumnSchema[];
+      typed: boolean;
+      quality?: QualityScore;
+    },
+  ): Promise<void> {
+    await this.uploadRepository.update(id, {
+      columnSchema: data.columnSchema,
+      typed: data.typed,
+      ...(data.quality && { quality: data.quality }),
+    });
+  }
+
+  /**
+   * updateProgress - Records how far a background import has got
+   *
+   * @param id - Upload record ID
+   * @param progress - Fields to update (phase, rows processed so far, percent complete)
+   *
+   * Called by the import job runner while the upload is still PROCESSING.
+   */
+  async updateProgress(
+    id: string,
+    progress: {
+      phase?: UploadPhase;
+      rowsProcessed?: number;
+      progressPercent?: number;
+    },
+  ): Promise<void> {
+    const updateData: Partial<UploadRecordEntity> = {};
+    if (progress.phase) {
+      updateData.phase = progress.phase;
+    }
+    if (progress.rowsProcessed !== undefined) {
+      updateData.rowsProcessed = progress.rowsProcessed;
+    }
+    if (progress.progressPercent !== undefined) {
+      // Clamp to 0-100 so estimates based on bytes read never overshoot
+      updateData.progressPercent = Math.min(
+        100,
+        Math.max(0, Math.round(progress.progressPercent)),
+      );
+    }
+    if (Object.keys(updateData).length === 0) {
+      return;
+    }
+    await this.uploadRepository.update(id, updateData);
+  }
+
+  /**
+   * getUploadProgress - Retrieves only the progress fields of an upload
+   *
+   * @param id - Upload record ID
+   * @param scope - Workspace the upload must be in (or ALL_WORKSPACES)
+   * @returns Progress fields or undefined if not found
+   *
+   * Avoids loading the stored CSV data, since this is polled frequently.
+   */
+  async getUploadProgress(
+    id: string,
+    scope: UploadScope,
+  ): Promise<UploadProgress | undefined> {
+    const record = await this.uploadRepository.findOne({
+      where: { id, ...this.scopeWhere(scope) },
+      select: [
+        'id',
+        'status',
+        'phase',
+        'rowsProcessed',
+        'progressPercent',
+        'totalRows',
+        'message',
+      ],
+    });
+    if (!record) {
+      return undefined;
+    }
+    return {
+      uploadId: record.id,
+      status: record.status,
+      phase: record.phase,
+      rowsProcessed: record.rowsProcessed,
+      progressPercent: record.progressPercent,
+      totalRows: record.totalRows,
+      message: record.message,
+    };
+  }
+
+  /**
+   * countUploadsByStatus - Counts uploads per status (history statistics)
+   *
+   * @param scope - Workspace whose uploads to count (or ALL_WORKSPACES)
+   * @returns Number of uploads of each status (0 for statuses without uploads)
+   *
+   * Counted by the database, so no upload record (or stored file) is loaded.
+   */
+  async countUploadsByStatus(
+    scope: UploadScope,
+  ): Promise<Record<UploadStatus, number>> {
+    const queryBuilder = this.uploadRepository
       .createQueryBuilder('upload')
-      .orderBy(
-        `CASE 
-          WHEN upload.status = 'success' THEN 0
-          WHEN upload.status = 'processing' THEN 1
-          WHEN upload.status = 'failed' THEN 2
-          ELSE 3
-        END`,
-        'ASC', // Lower numbers first (success = 0 comes first)
-      )
-      .addOrderBy('upload.uploadedAt', 'DESC') // Newest first
-      .getMany();
+      .select('upload.status', 'status')
+      .addSelect('COUNT(*)', 'count')
+      .groupBy('upload.status');
+    const { workspaceId } = this.scopeWhere(scope);
+    if (workspaceId) {
+      queryBuilder.where('upload.workspaceId = :workspaceId', { workspaceId });
+    }
 
-    // Convert all entities to interface objects
-    return records.map((record) => this.entityToInterface(record));
+    const counts = Object.fromEntries(
+      Object.values(UploadStatus).map((status) => [status, 0]),
+    ) as Record<UploadStatus, number>;
+    const groups: Array<{ status: UploadStatus; count: string }> =
+      await queryBuilder.getRawMany();
+    for (const group of groups) {
+      counts[group.status] = Number(group.count);
+    }
+    return counts;
   }
 
   /**
    * getUploadById - Retrieves a specific upload record by ID
    *
    * @param id - Upload record ID (UUID)
+   * @param scope - Workspace the upload must be in (or ALL_WORKSPACES)
    * @returns Upload record or undefined if not found
    */
-  async getUploadById(id: string): Promise<UploadRecord | undefined> {
-    // Find one record matching the ID
-    const record = await this.uploadRepository.findOne({ where: { id } });
+  async getUploadById(
+    id: string,
+    scope: UploadScope,
+  ): Promise<UploadRecord | undefined> {
+    // Find one record matching the ID (and workspace)
+    const record = await this.uploadRepository.findOne({
+      where: { id, ...this.scopeWhere(scope) },
+    });
     // Convert to interface if found, otherwise return undefined
     return record ? this.entityToInterface(record) : undefined;
   }
@@ -182,6 +455,11 @@ export class UploadHistoryService {
       endDate?: Date;
       minSize?: number;
       maxSize?: number;
+      minQuality?: number;
+      maxQuality?: number;
+      issueCode?: IssueCode;
+      datasetId?: string;
+      scope: UploadScope; // Workspace whose uploads to return (or ALL_WORKSPACES)
     },
     page: number = 1,
     limit: number = 10,
@@ -195,9 +473,19 @@ export class UploadHistoryService {
     // Build query with filters
     const queryBuilder = this.uploadRepository.createQueryBuilder('upload');
 
+    // Workspace filter
+    const { workspaceId } = this.scopeWhere(filters.scope);
+    if (workspaceId) {
+      queryBuilder.andWhere('upload.workspaceId = :workspaceId', {
+        workspaceId,
+      });
+    }
+
     // Status filter
     if (filters.status) {
-      queryBuilder.andWhere('upload.status = :status', { status: filters.status });
+      queryBuilder.andWhere('upload.status = :status', {
+        status: filters.status,
+      });
     }
 
     // Filename search filter (case-insensitive partial match)
@@ -231,6 +519,35 @@ export class UploadHistoryService {
       });
     }
 
+    // Quality score filters (uploads without a score never match)
+    if (filters.minQuality !== undefined) {
+      queryBuilder.andWhere(
+        "CAST(upload.quality ->> 'score' AS numeric) >= :minQuality",
+        { minQuality: filters.minQuality },
+      );
+    }
+    if (filters.maxQuality !== undefined) {
+      queryBuilder.andWhere(
+        "CAST(upload.quality ->> 'score' AS numeric) <= :maxQuality",
+        { maxQuality: filters.maxQuality },
+      );
+    }
+
+    // Uploads with at least one issue of the given code
+    if (filters.issueCode) {
+      queryBuilder.andWhere(
+        "CAST(upload.quality -> 'issues' -> 'byCode' ->> :issueCode AS integer) > 0",
+        { issueCode: filters.issueCode },
+      );
+    }
+
+    // Versions of one dataset
+    if (filters.datasetId) {
+      queryBuilder.andWhere('upload.datasetId = :datasetId', {
+        datasetId: filters.datasetId,
+      });
+    }
+
     // Apply sorting: status priority first, then date
     queryBuilder.orderBy(
       `CASE 
@@ -252,7 +569,9 @@ export class UploadHistoryService {
 
     // Execute query and convert to interface objects
     const records = await queryBuilder.getMany();
-    const mappedRecords = records.map((record) => this.entityToInterface(record));
+    const mappedRecords = records.map((record) =>
+      this.entityToInterface(record),
+    );
 
     // Calculate pagination metadata
     const totalPages = Math.ceil(total / limit);
@@ -266,6 +585,24 @@ export class UploadHistoryService {
     };
   }
 
+  /**
+   * getDatasetVersions - Retrieves every version of a dataset
+   *
+   * @param datasetId - Dataset ID
+   * @param scope - Workspace the uploads must be in (or ALL_WORKSPACES)
+   * @returns Upload records of the dataset, newest version first
+   */
+  async getDatasetVersions(
+    datasetId: string,
+    scope: UploadScope,
+  ): Promise<UploadRecord[]> {
+    const records = await this.uploadRepository.find({
+      where: { datasetId, ...this.scopeWhere(scope) },
+      order: { version: 'DESC' },
+    });
+    return records.map((record) => this.entityToInterface(record));
+  }
+
   /**
    * storeOriginalFile - Stores the original CSV file buffer for later download
    *
@@ -278,6 +615,22 @@ export class UploadHistoryService {
     });
   }
 
+  /**
+   * storeOriginalFilePath - Moves a streamed upload into permanent storage and records its path
+   *
+   * @param id - Upload record ID
+   * @param tempPath - Path multer wrote the incoming file to
+   */
+  async storeOriginalFilePath(id: string, tempPath: string): Promise<void> {
+    const storedPath = await this.fileStorageService.persistUpload(
+      id,
+      tempPath,
+    );
+    await this.uploadRepository.update(id, {
+      originalFilePath: storedPath,
+    });
+  }
+
   /**
    * getOriginalFile - Retrieves the original CSV file buffer
    *
@@ -292,33 +645,217 @@ export class UploadHistoryService {
     return record?.originalFile;
   }
 
+  /**
+   * getOriginalFileStream - Opens the original file for streaming
+   *
+   * @param id - Upload record ID
+   * @returns Readable stream of the original file or undefined if not found
+   *
+   * Files stored on disk are streamed directly; older uploads fall back to the
+   * originalFile buffer.
+   */
+  async getOriginalFileStream(id: string): Promise<Readable | undefined> {
+    const record = await this.uploadRepository.findOne({
+      where: { id },
+      select: ['id', 'originalFilePath', 'datasetId'],
+    });
+    if (
+      record?.originalFilePath &&
+      (await this.fileStorageService.exists(record.originalFilePath))
+    ) {
+      return this.fileStorageService.openReadStream(record.originalFilePath);
+    }
+
+    const fileBuffer = await this.getOriginalFile(id);
+    return fileBuffer ? Readable.from([fileBuffer]) : undefined;
+  }
+
   /**
    * getUploadsByIds - Retrieves multiple upload records by IDs
    *
    * @param ids - Array of upload record IDs
-   * @returns Array of upload records
+   * @param scope - Workspace the uploads must be in (or ALL_WORKSPACES)
+   * @returns Array of upload records (IDs that were not found or out of scope are left out)
    */
-  async getUploadsByIds(ids: string[]): Promise<UploadRecord[]> {
+  async getUploadsByIds(
+    ids: string[],
+    scope: UploadScope,
+  ): Promise<UploadRecord[]> {
     if (ids.length === 0) {
       return [];
     }
     const records = await this.uploadRepository.find({
-      where: { id: In(ids) },
+      where: { id: In(ids), ...this.scopeWhere(scope) },
     });
     return records.map((record) => this.entityToInterface(record));
   }
 
   /**
-   * deleteUploads - Deletes multiple upload records by IDs
+   * deleteUploads - Deletes multiple upload records by IDs, with their stored rows, files
+   * and share links
    *
    * @param ids - Array of upload record IDs to delete
    * @returns Number of deleted records
+   * @throws ConflictException if an upload is still being imported
+   *
+   * Datasets whose current version is deleted fall back to their newest remaining version.
+   * Share links are deleted in the same transaction as the records, so no link outlives
+   * its upload. Uploads being imported are refused, as their import job would go on
+   * writing rows for them; uploads never become PROCESSING again once their job is done.
    */
   async deleteUploads(ids: string[]): Promise<number> {
-    const result = await this.uploadRepository.delete(ids);
+    // Look up stored files first so they can be removed along with the records
+    const records = await this.uploadRepository.find({
+      where: { id: In(ids) },
+      select: ['id', 'originalFilePath', 'datasetId', 'status'],
+    });
+    if (records.some((record) => record.status === UploadStatus.PROCESSING)) {
+      throw new ConflictException(
+        'Uploads that are still being imported cannot be deleted',
+      );
+    }
+
+    const result = await this.uploadRepository.manager.transaction(
+      async (manager) => {
+        await manager.delete(ShareLinkEntity, { uploadId: In(ids) });
+        return manager.delete(UploadRecordEntity, ids);
+      },
+    );
+    await this.uploadRowService.deleteRows(ids);
+    await this.columnProfileService.deleteProfiles(ids);
+    await this.dataQualityService.deleteIssues(ids);
+    await this.datasetService.removeVersions(
+      records.map((record) => record.datasetId),
+    );
+
+    await Promise.all(
+      records.map((record) =>
+        this.fileStorageService.remove(record.originalFilePath),
+      ),
+    );
     return result.affected || 0;
   }
 
+  /**
+   * Assigns owners to uploads without one (see onApplicationBootstrap)
+   */
+  private async assignLegacyOwners(): Promise<void> {
+    const unowned = await this.uploadRepository.count({
+      where: { userId: IsNull() },
+    });
+    if (unowned === 0) {
+      return;
+    }
+
+    // The user recorded by the upload's audit log entry
+    const fromAuditLog = await this.uploadRepository
+      .createQueryBuilder()
+      .update(UploadRecordEntity)
+      .set({
+        userId: () =>
+          `(SELECT audit."userId" FROM audit_logs audit WHERE audit."uploadId" = CAST(upload_records.id AS varchar) AND audit.action = :action AND audit."userId" IS NOT NULL ORDER BY audit."createdAt" ASC LIMIT 1)`,
+      })
+      .where('"userId" IS NULL')
+      .andWhere(
+        `EXISTS (SELECT 1 FROM audit_logs audit WHERE audit."uploadId" = CAST(upload_records.id AS varchar) AND audit.action = :action AND audit."userId" IS NOT NULL)`,
+      )
+      .setParameter('action', AuditAction.UPLOAD)
+      .execute();
+    let remaining = unowned - (fromAuditLog.affected || 0);
+    if (fromAuditLog.affected) {
+      this.logger.log(
+        `Assigned ${fromAuditLog.affected} upload(s) without an owner to their uploader`,
+      );
+    }
+    if (remaining === 0) {
+      return;
+    }
+
+    // The rest go to the configured owner, if any
+    const email = this.configService.get<string>('LEGACY_UPLOADS_OWNER_EMAIL');
+    if (email) {
+      const owner = await this.userRepository.findOne({
+        where: { email },
+        select: ['id'],
+      });
+      if (owner) {
+        const result = await this.uploadRepository.update(
+          { userId: IsNull() },
+          { userId: owner.id },
+        );
+        this.logger.log(
+          `Assigned ${result.affected || 0} upload(s) without an owner to ${email}`,
+        );
+        remaining -= result.affected || 0;
+      } else {
+        this.logger.warn(
+          `LEGACY_UPLOADS_OWNER_EMAIL is set to ${email}, but there is no user with this email`,
+        );
+      }
+    }
+    if (remaining > 0) {
+      this.logger.warn(
+        `${remaining} upload(s) have no owner and are hidden; set LEGACY_UPLOADS_OWNER_EMAIL to assign them to a user`,
+      );
+    }
+  }
+
+  /**
+   * Moves records without a workspace into their user's personal workspace
+   * (see onApplicationBootstrap); records whose user has none are left as they are
+   */
+  private async assignLegacyWorkspaces(): Promise<void> {
+    const owned: Array<[EntityTarget<ObjectLiteral>, string]> = [
+      [UploadRecordEntity, 'userId'],
+      [DatasetEntity, 'userId'],
+      [ImportTemplateEntity, 'createdBy'],
+      [ValidationSchemaEntity, 'createdBy'],
+      [AuditLogEntity, 'userId'],
+    ];
+
+    for (const [entity, ownerColumn] of owned) {
+      const metadata =
+        this.uploadRepository.manager.connection.getMetadata(entity);
+      const personalWorkspace = `FROM workspaces workspace WHERE workspace.personal = true AND workspace."createdBy" = ${metadata.tableName}."${ownerColumn}"`;
+      const values: ObjectLiteral = {
+        workspaceId: () =>
+          `(SELECT CAST(workspace.id AS varchar) ${personalWorkspace} LIMIT 1)`,
+      };
+      if (metadata.updateDateColumn) {
+        // Keep the date of the last real change
+        values[metadata.updateDateColumn.propertyName] = () =>
+          `"${metadata.updateDateColumn.databaseName}"`;
+      }
+
+      const result = await this.uploadRepository.manager
+        .createQueryBuilder()
+        .update(entity)
+        .set(values)
+        .where('"workspaceId" IS NULL')
+        .andWhere(`EXISTS (SELECT 1 ${personalWorkspace})`)
+        .execute();
+      if (result.affected) {
+        this.logger.log(
+          `Moved ${result.affected} ${metadata.tableName} row(s) without a workspace into their user's personal workspace`,
+        );
+      }
+    }
+  }
+
+  /**
+   * scopeWhere - The workspace condition of a lookup
+   * ALL_WORKSPACES adds none; a workspace ID restricts the lookup to that workspace.
+   *
+   * @throws ForbiddenException if no workspace ID is given (e.g. a user without an
+   *         active workspace), rather than matching the uploads of every workspace
+   */
+  private scopeWhere(scope: UploadScope): { workspaceId?: string } {
+    if (scope === ALL_WORKSPACES) {
+      return {};
+    }
+    return { workspaceId: requireWorkspace(scope) };
+  }
+
   /**
    * entityToInterface - Converts database entity to interface
    *
@@ -334,12 +871,29 @@ export class UploadHistoryService {
       fileName: entity.fileName,
       fileSize: Number(entity.fileSize), // Convert bigint to number
       status: entity.status,
+      phase: entity.phase,
+      rowsProcessed: entity.rowsProcessed,
+      progressPercent: entity.progressPercent,
       uploadedAt: entity.uploadedAt,
       completedAt: entity.completedAt,
       totalRows: entity.totalRows,
       errors: entity.errors,
+      errorCount: entity.errorCount,
+      duplicates: entity.duplicates,
+      duplicateCount: entity.duplicateCount,
+      format: entity.format,
+      dialect: entity.dialect,
+      sheetName: entity.sheetName,
+      headerRow: entity.headerRow,
+      userId: entity.userId,
+      workspaceId: entity.workspaceId,
+      templateId: entity.templateId,
+      datasetId: entity.datasetId,
+      version: entity.version,
+      columnSchema: entity.columnSchema,
+      typed: entity.typed,
+      quality: entity.quality,
       message: entity.message,
-      data: entity.data as CsvRow[] | undefined,
     };
   }
 }
@@ -0,0 +1,641 @@
+/**
+ * upload-row.service.ts - Upload Row Service
+ *
+ * This service manages the parsed rows of uploads (the upload_rows table).
+ * Every data row is stored as its own record, so large uploads are read a page
+ * at a time and sorted and filtered by the database.
+ *
+ * Responsibilities:
+ * - Store the rows of an upload with their warnings and duplicate flags, a batch
+ *   at a time while the file is parsed
+ * - Page through rows with sorting, text search, filter expressions and a warnings filter
+ * - Read all rows of an upload in fixed-size batches (profiling, quality checks, exports)
+ * - Infer column types from stored rows; count distinct values and number percentiles
+ *   in the database (type inference, profiles)
+ * - Convert stored values to their column types and back, a batch at a time
+ * - Delete the rows of deleted uploads
+ * - Move the rows of older uploads out of upload_records.data on startup
+ */
+
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, In, Repository, SelectQueryBuilder } from 'typeorm';
+import { UploadRowEntity } from '../entities/upload-row.entity';
+import { UploadRecordEntity } from '../entities/upload-record.entity';
+import { UploadRow } from '../interfaces/upload-record.interface';
+import {
+  ColumnSchema,
+  ColumnValueCounts,
+  InferredType,
+  TypedRow,
+} from '../interfaces/column-schema.interface';
+import { RowPredicate } from '../interfaces/row-filter.interface';
+import {
+  MAX_LISTED_ENUM_VALUES,
+  TypeInferenceService,
+} from './type-inference.service';
+
+/**
+ * Rows written per INSERT statement
+ */
+const INSERT_BATCH_SIZE = 1000;
+
+/**
+ * Rows read (and converted) per query when going through all rows of an upload
+ */
+export const READ_BATCH_SIZE = 1000;
+
+/**
+ * Values the database compares as numbers when sorting numeric columns stored as text
+ * (the same numbers TypeInferenceService recognizes)
+ */
+export const NUMBER_PATTERN =
+  '^[+-]?([0-9]+([.][0-9]*)?|[.][0-9]+)([eE][+-]?[0-9]+)?$';
+
+/**
+ * Numbers with leading zeros (ZIP codes, account numbers) that TypeInferenceService
+ * treats as identifiers
+ */
+export const LEADING_ZERO_PATTERN = '^[+-]?0[0-9]';
+
+/**
+ * Warning messages stored with older uploads start with the row they are about
+ */
+const LEGACY_WARNING_PATTERN = /^Row (\d+): (.*)$/;
+
+/**
+ * UploadRowSort - One sort key; rows are sorted by the keys in order, then by row number
+ */
+export interface UploadRowSort {
+  column: string;
+  direction?: 'asc' | 'desc';
+  numeric?: boolean; // Compare the column's text values as numbers
+}
+
+/**
+ * UploadRowQuery - How to sort and filter a page of rows
+ */
+export interface UploadRowQuery {
+  sort?: UploadRowSort[]; // Sort keys (default: file order)
+  search?: string; // Case-insensitive text to look for in the row's values
+  searchColumns?: string[]; // Only look for the text in these columns
+  flagged?: boolean; // Only rows with warnings or marked as duplicates
+  where?: RowPredicate; // Filter expression compiled by RowFilterService (on uploadRow.data)
+  columns?: string[]; // Only return these columns of each row (iterateRows; default: all)
+}
+
+@Injectable()
+export class UploadRowService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(UploadRowService.name);
+
+  constructor(
+    @InjectRepository(UploadRowEntity)
+    private readonly rowRepository: Repository<UploadRowEntity>,
+    @InjectRepository(UploadRecordEntity)
+    private readonly uploadRepository: Repository<UploadRecordEntity>,
+    private readonly typeInferenceService: TypeInferenceService,
+  ) {}
+
+  /**
+   * onApplicationBootstrap - Moves rows still stored in upload_records.data to upload_rows
+   * Uploads are moved one at a time; an upload that fails is logged and tried again
+   * on the next startup.
+   */
+  async onApplicationBootstrap(): Promise<void> {
+    const legacyUploads = await this.uploadRepository
+      .createQueryBuilder('upload')
+      .select('upload.id')
+      .where('upload.data IS NOT NULL')
+      .getMany();
+    if (legacyUploads.length === 0) {
+      return;
+    }
+
+    this.logger.log(
+      `Moving rows of ${legacyUploads.length} upload(s) to upload_rows`,
+    );
+    for (const { id } of legacyUploads) {
+      try {
+        await this.migrateUpload(id);
+      } catch (error) {
+        this.logger.error(
+          `Could not move rows of upload ${id}: ${error instanceof Error ? error.message : error}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * buildRows - Pairs parsed rows with their row numbers, warnings and duplicate flags
+   *
+   * @param rows - Parsed rows, in file order
+   * @param rowNumbers - Row number in the source file of each row
+   * @param warnings - Row warnings from the import (warnings for other rows are ignored)
+   * @param duplicates - Rows marked as duplicates of earlier rows
+   */
+  buildRows(
+    rows: TypedRow[],
+    rowNumbers: number[],
+    warnings: Array<{ row: number; message: string }> = [],
+    duplicates: Array<{ row: number; duplicateOf: number }> = [],
+  ): UploadRow[] {
+    const warningsByRow = new Map<number, string[]>();
+    for (const { row, message } of warnings) {
+      warningsByRow.set(row, [...(warningsByRow.get(row) || []), message]);
+    }
+    const duplicateOfByRow = new Map(
+      duplicates.map(({ row, duplicateOf }) => [row, duplicateOf]),
+    );
+
+    return rows.map((data, index) => {
+      const rowNumber = rowNumbers[index];
+      return {
+        rowNumber,
+        data,
+        warnings: warningsByRow.get(rowNumber),
+        duplicateOf: duplicateOfByRow.get(rowNumber),
+      };
+    });
+  }
+
+  /**
+   * appendRows - Adds rows to an upload (imports write each parsed batch as it arrives)
+   */
+  async appendRows(uploadId: string, rows: UploadRow[]): Promise<void> {
+    await this.insertRows(this.rowRepository.manager, uploadId, rows);
+  }
+
+  /**
+   * fillMissingColumns - Gives every row of an upload all the given columns
+   * Rows of formats whose records vary (e.g. JSON) get an empty value for columns
+   * that only appeared in later rows.
+   */
+  async fillMissingColumns(uploadId: string, columns: string[]): Promise<void> {
+    if (columns.length === 0) {
+      return;
+    }
+    const empty = Object.fromEntries(columns.map((column) => [column, '']));
+    await this.rowRepository
+      .createQueryBuilder()
+      .update(UploadRowEntity)
+      // Values of the row win over the empty defaults
+      .set({ data: () => 'CAST(:empty AS jsonb) || data' })
+      .where('"uploadId" = :uploadId', { uploadId })
+      .andWhere('NOT (data ?& CAST(:columns AS text[]))')
+      .setParameters({ empty: JSON.stringify(empty), columns })
+      .execute();
+  }
+
+  /**
+   * convertRows - Stores an upload's values as typed values, or as text again
+   *
+   * Rows are read and rewritten READ_BATCH_SIZE at a time in one transaction, so
+   * readers see either the old or the new values. Converting back to text keeps
+   * the normalized form of typed values (e.g. 1.50 stays 1.5 and 31/12/2024 stays
+   * 2024-12-31), since the original text is not kept.
+   *
+   * @param uploadId - Upload record ID
+   * @param schema - Column types to convert to
+   * @param typed - Whether the stored values become typed or text
+   */
+  async convertRows(
+    uploadId: string,
+    schema: ColumnSchema[],
+    typed: boolean,
+  ): Promise<void> {
+    await this.rowRepository.manager.transaction(async (manager) => {
+      for await (const rows of this.iterateRows(uploadId, {}, manager)) {
+        const data = rows.map((row) => row.data);
+        const converted = typed
+          ? this.typeInferenceService.coerceRows(data, schema)
+          : this.typeInferenceService.toTextRows(data);
+        await manager.query(
+          `UPDATE upload_rows AS "uploadRow" SET data = converted.data
+           FROM jsonb_to_recordset(CAST($2 AS jsonb)) AS converted("rowNumber" int, data jsonb)
+           WHERE "uploadRow"."uploadId" = $1 AND "uploadRow"."rowNumber" = converted."rowNumber"`,
+          [
+            uploadId,
+            JSON.stringify(
+              rows.map((row, index) => ({
+                rowNumber: row.rowNumber,
+                data: converted[index],
+              })),
+            ),
+          ],
+        );
+      }
+    });
+  }
+
+  /**
+   * inferSchema - Infers column types from the stored rows of an upload
+   * Rows are tallied a batch at a time; distinct values are counted by the database.
+   *
+   * @param uploadId - Upload record ID
+   * @param columns - Only describe these columns (default: every column)
+   * @param types - Column name -> type chosen by the user, instead of the inferred one
+   */
+  async inferSchema(
+    uploadId: string,
+    columns?: string[],
+    types?: Record<string, InferredType>,
+  ): Promise<ColumnSchema[]> {
+    const tally = this.typeInferenceService.createTally(columns);
+    let rowCount = 0;
+    for await (const rows of this.iterateRows(uploadId)) {
+      tally.add(rows.map((row) => row.data));
+      rowCount += rows.length;
+    }
+    return this.typeInferenceService.describeColumns(
+      tally,
+      rowCount,
+      await this.countValues(uploadId, tally.columns(), MAX_LISTED_ENUM_VALUES),
+      types,
+    );
+  }
+
+  /**
+   * getRows - One page of an upload's rows
+   *
+   * @param uploadId - Upload record ID
+   * @param query - Sort column and direction, search text and filters
+   * @param page - Page number (1-based)
+   * @param limit - Number of rows per page
+   * @returns Rows of the page and pagination metadata
+   *
+   * Empty values sort last in both directions; rows with equal values keep file order.
+   */
+  async getRows(
+    uploadId: string,
+    query: UploadRowQuery,
+    page: number = 1,
+    limit: number = 50,
+  ): Promise<{
+    rows: UploadRow[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }> {
+    const queryBuilder = this.createRowQuery(uploadId, query);
+    const total = await queryBuilder.getCount();
+
+    queryBuilder.skip((page - 1) * limit).take(limit);
+    const rows = await queryBuilder.getMany();
+
+    return {
+      rows: rows.map((row) => this.entityToInterface(row)),
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  /**
+   * getRowSlice - Rows of an upload in file order, from an offset
+   *
+   * @param uploadId - Upload record ID
+   * @param offset - Rows to skip
+   * @param limit - Rows to return
+   */
+  async getRowSlice(
+    uploadId: string,
+    offset: number,
+    limit: number,
+  ): Promise<UploadRow[]> {
+    const rows = await this.rowRepository.find({
+      where: { uploadId },
+      order: { rowNumber: 'ASC' },
+      skip: offset,
+      take: limit,
+    });
+    return rows.map((row) => this.entityToInterface(row));
+  }
+
+  /**
+   * iterateRows - Goes through the matching rows of an upload, READ_BATCH_SIZE at a time
+   * Only one batch is in memory at a time. Rows in file order are read by row
+   * number (each batch starts after the last row of the one before); sorted rows
+   * are read page by page.
+   *
+   * @param uploadId - Upload record ID
+   * @param query - Sort keys, search text, filters and the columns to return
+   * @param manager - Reads within this transaction (default: outside any transaction)
+   */
+  async *iterateRows(
+    uploadId: string,
+    query: UploadRowQuery = {},
+    manager?: EntityManager,
+  ): AsyncGenerator<UploadRow[]> {
+    for (let offset = 0, afterRow = 0; ; offset += READ_BATCH_SIZE) {
+      const queryBuilder = this.createRowQuery(uploadId, query, manager)
+        .select('uploadRow.rowNumber', 'rowNumber')
+        .addSelect(
+          query.columns
+            ? // Keeps only the requested keys (a row missing all of them is an empty object)
+              `COALESCE((SELECT jsonb_object_agg(cell.key, cell.value) FROM jsonb_each(uploadRow.data) AS cell WHERE cell.key = ANY(CAST(:columns AS text[]))), CAST('{}' AS jsonb))`
+            : 'uploadRow.data',
+          'data',
+        )
+        .addSelect('uploadRow.warnings', 'warnings')
+        .addSelect('uploadRow.duplicateOf', 'duplicateOf');
+      if (query.columns) {
+        queryBuilder.setParameter('columns', query.columns);
+      }
+      if (query.sort?.length) {
+        queryBuilder.offset(offset);
+      } else {
+        queryBuilder.andWhere('uploadRow.rowNumber > :afterRow', { afterRow });
+      }
+      const rows: UploadRow[] = await queryBuilder
+        .limit(READ_BATCH_SIZE)
+        .getRawMany();
+      if (rows.length === 0) {
+        return;
+      }
+      afterRow = rows[rows.length - 1].rowNumber;
+      yield rows.map((row) => ({
+        rowNumber: row.rowNumber,
+        data: row.data,
+        warnings: row.warnings ?? undefined,
+        duplicateOf: row.duplicateOf ?? undefined,
+      }));
+      if (rows.length < READ_BATCH_SIZE) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * countRows - Number of rows of an upload matching a query
+   */
+  async countRows(
+    uploadId: string,
+    query: UploadRowQuery = {},
+  ): Promise<number> {
+    return this.createRowQuery(uploadId, query).getCount();
+  }
+
+  /**
+   * countValues - Counts the distinct non-empty values of columns of an upload
+   *
+   * @param uploadId - Upload record ID
+   * @param columns - Columns to count
+   * @param limit - Most frequent values to return per column (ties in value order)
+   * @param trim - Count values without their surrounding whitespace
+   */
+  async countValues(
+    uploadId: string,
+    columns: string[],
+    limit: number,
+    trim: boolean = true,
+  ): Promise<Map<string, ColumnValueCounts>> {
+    const counts = new Map<string, ColumnValueCounts>();
+    for (const column of columns) {
+      const value = trim
+        ? 'btrim(uploadRow.data ->> :column)'
+        : 'uploadRow.data ->> :column';
+      const grouped = this.rowRepository
+        .createQueryBuilder('uploadRow')
+        .select(value, 'value')
+        .addSelect('COUNT(*)', 'count')
+        .where('uploadRow.uploadId = :uploadId', { uploadId })
+        .andWhere(`btrim(uploadRow.data ->> :column) <> ''`, { column })
+        .groupBy(value);
+      const rows: Array<{
+        value: string;
+        count: string;
+        distinctCount: string;
+        repeatedCount: string;
+      }> = await this.rowRepository.manager
+        .createQueryBuilder()
+        .select('grouped.value', 'value')
+        .addSelect('grouped.count', 'count')
+        .addSelect('COUNT(*) OVER ()', 'distinctCount')
+        .addSelect(
+          'SUM(CASE WHEN grouped.count > 1 THEN grouped.count ELSE 0 END) OVER ()',
+          'repeatedCount',
+        )
+        .from(`(${grouped.getQuery()})`, 'grouped')
+        .setParameters(grouped.getParameters())
+        .orderBy('grouped.count', 'DESC')
+        .addOrderBy('grouped.value', 'ASC')
+        .limit(limit)
+        .getRawMany();
+
+      // The database returns counts as text
+      counts.set(column, {
+        distinctCount: Number(rows[0]?.distinctCount ?? 0),
+        repeatedCount: Number(rows[0]?.repeatedCount ?? 0),
+        topValues: rows.map((row) => ({
+          value: row.value,
+          count: Number(row.count),
+        })),
+      });
+    }
+    return counts;
+  }
+
+  /**
+   * getPercentiles - Percentiles of the values of a column that are numbers
+   * Linear interpolation between the closest ranks; numbers with leading zeros
+   * are identifiers, not numbers (as in TypeInferenceService).
+   *
+   * @param shares - Percentiles to compute, as shares (e.g. 0.5 for the median)
+   * @returns The percentiles in the order of shares, or undefined if no value is a number
+   */
+  async getPercentiles(
+    uploadId: string,
+    column: string,
+    shares: number[],
+  ): Promise<number[] | undefined> {
+    const numbers = this.rowRepository
+      .createQueryBuilder('uploadRow')
+      .select(
+        `CASE WHEN btrim(uploadRow.data ->> :column) ~ :numberPattern AND btrim(uploadRow.data ->> :column) !~ :leadingZeroPattern THEN CAST(btrim(uploadRow.data ->> :column) AS numeric) END`,
+        'number',
+      )
+      .where('uploadRow.uploadId = :uploadId', { uploadId })
+      .setParameters({
+        column,
+        numberPattern: NUMBER_PATTERN,
+        leadingZeroPattern: LEADING_ZERO_PATTERN,
+      });
+    const result = await this.rowRepository.manager
+      .createQueryBuilder()
+      .select(
+        'percentile_cont(CAST(:shares AS double precision[])) WITHIN GROUP (ORDER BY CAST(numbers.number AS double precision))',
+        'percentiles',
+      )
+      .from(`(${numbers.getQuery()})`, 'numbers')
+      .setParameters({ ...numbers.getParameters(), shares })
+      // Numbers too large for double precision are not numbers in JavaScript either
+      .where('numbers.number IS NOT NULL AND abs(numbers.number) < 1e308')
+      .getRawOne();
+    return result?.percentiles ?? undefined;
+  }
+
+  /**
+   * countDistinctRows - Number of distinct rows of an upload (rows with the same values count once)
+   */
+  async countDistinctRows(uploadId: string): Promise<number> {
+    const result = await this.rowRepository
+      .createQueryBuilder('uploadRow')
+      .select('COUNT(DISTINCT uploadRow.data)', 'count')
+      .where('uploadRow.uploadId = :uploadId', { uploadId })
+      .getRawOne();
+    return Number(result?.count ?? 0);
+  }
+
+  /**
+   * createRowQuery - Query for the rows of an upload with the sort order, search and filters
+   * Empty values sort last in both directions; rows with equal values keep file order.
+   */
+  private createRowQuery(
+    uploadId: string,
+    query: UploadRowQuery,
+    manager?: EntityManager,
+  ): SelectQueryBuilder<UploadRowEntity> {
+    const queryBuilder = (manager ?? this.rowRepository.manager)
+      .getRepository(UploadRowEntity)
+      .createQueryBuilder('uploadRow')
+      .where('uploadRow.uploadId = :uploadId', { uploadId });
+
+    // Text search (case-insensitive partial match on any, or the given, columns)
+    if (query.search && query.search.trim()) {
+      const columnFilter = query.searchColumns?.length
+        ? 'cell.key IN (:...searchColumns) AND '
+        : '';
+      queryBuilder.andWhere(
+        `EXISTS (SELECT 1 FROM jsonb_each_text(uploadRow.data) AS cell WHERE ${columnFilter}cell.value ILIKE :search)`,
+        {
+          search: `%${query.search.trim().replace(/[\\%_]/g, '\\$&')}%`,
+          searchColumns: query.searchColumns,
+        },
+      );
+    }
+
+    if (query.flagged) {
+      queryBuilder.andWhere(
+        '(uploadRow.warnings IS NOT NULL OR uploadRow.duplicateOf IS NOT NULL)',
+      );
+    }
+
+    if (query.where) {
+      queryBuilder.andWhere(query.where.sql, query.where.parameters);
+    }
+
+    // Sort by the values of the sort columns, then by row number
+    (query.sort ?? []).forEach((sort, index) => {
+      const direction = sort.direction === 'desc' ? 'DESC' : 'ASC';
+      const column = `sortColumn${index}`; // One parameter per key, so each expression matches its own
+      queryBuilder.setParameter(column, sort.column);
+      if (sort.numeric) {
+        queryBuilder.setParameter('numberPattern', NUMBER_PATTERN);
+        queryBuilder.addOrderBy(
+          `CASE WHEN btrim(uploadRow.data ->> :${column}) ~ :numberPattern THEN CAST(btrim(uploadRow.data ->> :${column}) AS numeric) END`,
+          direction,
+          'NULLS LAST',
+        );
+      } else {
+        queryBuilder.addOrderBy(
+          `NULLIF(uploadRow.data -> :${column}, CAST('null' AS jsonb))`,
+          direction,
+          'NULLS LAST',
+        );
+      }
+    });
+    queryBuilder.addOrderBy('uploadRow.rowNumber', 'ASC');
+    return queryBuilder;
+  }
+
+  /**
+   * deleteRows - Deletes the rows of the given uploads
+   */
+  async deleteRows(uploadIds: string[]): Promise<void> {
+    if (uploadIds.length === 0) {
+      return;
+    }
+    await this.rowRepository.delete({ uploadId: In(uploadIds) });
+  }
+
+  /**
+   * migrateUpload - Moves one older upload's rows from upload_records.data to upload_rows
+   * Older uploads numbered rows by position, so row N of the data is row N + 2 of the
+   * file (0-based index, plus the header row); warnings and duplicates use the same numbers.
+   * Uploads made before type inference also get their column schema.
+   */
+  private async migrateUpload(id: string): Promise<void> {
+    const upload = await this.uploadRepository.findOne({
+      where: { id },
+      select: ['id', 'data', 'errors', 'duplicates', 'columnSchema'],
+    });
+    const data = upload?.data || [];
+    const rows = this.buildRows(
+      data,
+      data.map((_, index) => index + 2),
+      this.parseLegacyWarnings(upload?.errors),
+      upload?.duplicates,
+    );
+
+    await this.rowRepository.manager.transaction(async (manager) => {
+      await manager.delete(UploadRowEntity, { uploadId: id });
+      await this.insertRows(manager, id, rows);
+      await manager.update(UploadRecordEntity, id, {
+        data: null,
+        columnSchema:
+          upload?.columnSchema ??
+          (data.length > 0
+            ? this.typeInferenceService.inferSchema(data)
+            : null),
+      });
+    });
+  }
+
+  /**
+   * insertRows - Writes rows in batches of INSERT_BATCH_SIZE
+   */
+  private async insertRows(
+    manager: EntityManager,
+    uploadId: string,
+    rows: UploadRow[],
+  ): Promise<void> {
+    for (let start = 0; start < rows.length; start += INSERT_BATCH_SIZE) {
+      await manager.insert(
+        UploadRowEntity,
+        rows.slice(start, start + INSERT_BATCH_SIZE).map((row) => ({
+          uploadId,
+          rowNumber: row.rowNumber,
+          data: row.data,
+          warnings: row.warnings?.length ? row.warnings : null,
+          duplicateOf: row.duplicateOf ?? null,
+        })),
+      );
+    }
+  }
+
+  /**
+   * parseLegacyWarnings - Splits "Row N: message" warnings into row number and message
+   */
+  private parseLegacyWarnings(
+    errors: string[] | undefined,
+  ): Array<{ row: number; message: string }> {
+    return (errors || []).flatMap((error) => {
+      const match = LEGACY_WARNING_PATTERN.exec(error);
+      return match ? [{ row: Number(match[1]), message: match[2] }] : [];
+    });
+  }
+
+  /**
+   * entityToInterface - Converts a row entity to the row returned by the API
+   */
+  private entityToInterface(entity: UploadRowEntity): UploadRow {
+    return {
+      rowNumber: entity.rowNumber,
+      data: entity.data,
+      warnings: entity.warnings ?? undefined,
+      duplicateOf: entity.duplicateOf ?? undefined,
+    };
+  }
+}
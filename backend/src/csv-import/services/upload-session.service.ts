@@ -0,0 +1,409 @@
+/**
+ * upload-session.service.ts - Upload Session Service
+ *
+ * This service implements resumable, chunked uploads.
+ * A client initiates a session, PUTs numbered chunks (in any order, retrying as
+ * needed) and completes the session with a checksum. The assembled file then
+ * goes through the same import pipeline as a regular upload.
+ *
+ * Checksum: SHA-256 (hex) over the concatenated binary SHA-256 digests of all
+ * chunks in order. Browsers can compute it one chunk at a time, so clients never
+ * need to hold the whole file in memory.
+ *
+ * Responsibilities:
+ * - Create, look up and abort upload sessions (only for the user and workspace that
+ *   started them)
+ * - Validate and store chunks
+ * - Verify the checksum, assemble the file and hand it to the import on completion
+ * - Expire abandoned sessions (UPLOAD_SESSION_TTL_HOURS)
+ */
+
+import {
+  Injectable,
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+  PayloadTooLargeException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository, LessThan } from 'typeorm';
+import { Readable } from 'stream';
+import { createHash } from 'crypto';
+import {
+  UploadSessionEntity,
+  UploadSessionStatus,
+} from '../entities/upload-session.entity';
+import { FileStorageService, ChunkTooLargeError } from './file-storage.service';
+import { UploadSessionResponseDto } from '../dto/upload-session-response.dto';
+import { ImportJobOptions } from './import-job.service';
+import { ImportFormatService } from './import-format.service';
+import {
+  getMaxUploadSizeBytes,
+  getUploadChunkSizeBytes,
+  getUploadSessionTtlMs,
+} from '../../common/config/upload.config';
+
+/**
+ * combineChunkChecksums - Computes the session checksum from per-chunk SHA-256 digests
+ *
+ * @param chunkChecksums - Hex SHA-256 of each chunk, in chunk order
+ * @returns Hex SHA-256 of the concatenated binary digests
+ */
+export function combineChunkChecksums(chunkChecksums: string[]): string {
+  const hash = createHash('sha256');
+  chunkChecksums.forEach((checksum) =>
+    hash.update(Buffer.from(checksum, 'hex')),
+  );
+  return hash.digest('hex');
+}
+
+@Injectable()
+export class UploadSessionService {
+  private readonly chunkSize: number;
+  private readonly maxUploadSize: number;
+  private readonly sessionTtlMs: number;
+
+  constructor(
+    @InjectRepository(UploadSessionEntity)
+    private readonly sessionRepository: Repository<UploadSessionEntity>,
+    private readonly fileStorageService: FileStorageService,
+    private readonly importFormatService: ImportFormatService,
+    configService: ConfigService,
+  ) {
+    this.chunkSize = getUploadChunkSizeBytes(configService);
+    this.maxUploadSize = getMaxUploadSizeBytes(configService);
+    this.sessionTtlMs = getUploadSessionTtlMs(configService);
+  }
+
+  /**
+   * createSession - Starts a chunked upload
+   *
+   * @param userId - User starting the upload
+   * @param workspaceId - Workspace the upload goes to
+   * @param fileName - Original file name (any extension supported by ImportFormatService)
+   * @param fileSize - Total file size in bytes
+   * @param options - Parse options to use once the file is assembled
+   * @returns The new session
+   */
+  async createSession(
+    userId: string | undefined,
+    workspaceId: string | undefined,
+    fileName: string,
+    fileSize: number,
+    options: ImportJobOptions,
+  ): Promise<UploadSessionEntity> {
+    const unsupportedFileType =
+      this.importFormatService.getUnsupportedFileTypeMessage(fileName);
+    if (unsupportedFileType) {
+      throw new BadRequestException(unsupportedFileType);
+    }
+    if (fileSize > this.maxUploadSize) {
+      const fileSizeMB = (fileSize / (1024 * 1024)).toFixed(2);
+      const maxFileSizeMB = (this.maxUploadSize / (1024 * 1024)).toFixed(0);
+      throw new BadRequestException(
+        `File "${fileName}" is too large (${fileSizeMB}MB). Maximum file size is ${maxFileSizeMB}MB`,
+      );
+    }
+
+    // Good moment to clean up sessions nobody came back to
+    await this.purgeExpiredSessions();
+
+    const session = this.sessionRepository.create({
+      userId,
+      workspaceId,
+      fileName,
+      fileSize,
+      chunkSize: this.chunkSize,
+      totalChunks: Math.ceil(fileSize / this.chunkSize),
+      chunkChecksums: {},
+      status: UploadSessionStatus.ACTIVE,
+      options,
+    });
+    return await this.sessionRepository.save(session);
+  }
+
+  /**
+   * getSession - Retrieves a session the user started in the given workspace
+   *
+   * @throws NotFoundException if the session does not exist, belongs to someone else or
+   *         another workspace, or expired
+   */
+  async getSession(
+    id: string,
+    userId: string | undefined,
+    workspaceId: string | undefined,
+  ): Promise<UploadSessionEntity> {
+    const session = await this.sessionRepository.findOne({ where: { id } });
+    if (
+      !session ||
+      session.userId !== userId ||
+      session.workspaceId !== workspaceId
+    ) {
+      throw new NotFoundException('Upload session not found');
+    }
+    if (
+      session.status === UploadSessionStatus.ACTIVE &&
+      this.isExpired(session)
+    ) {
+      await this.deleteSession(session);
+      throw new NotFoundException('Upload session has expired');
+    }
+    return session;
+  }
+
+  /**
+   * receiveChunk - Stores one chunk of an active session
+   *
+   * @param id - Upload session ID
+   * @param userId - User sending the chunk
+   * @param workspaceId - Workspace the request was made in
+   * @param index - Zero-based chunk number
+   * @param input - Raw chunk bytes (request body)
+   * @param checksum - Optional SHA-256 (hex) of the chunk, verified if present
+   * @returns The updated session
+   *
+   * Re-sending a chunk replaces it, so clients can simply retry failed chunks.
+   */
+  async receiveChunk(
+    id: string,
+    userId: string | undefined,
+    workspaceId: string | undefined,
+    index: number,
+    input: Readable,
+    checksum?: string,
+  ): Promise<UploadSessionEntity> {
+    const session = await this.getSession(id, userId, workspaceId);
+    if (session.status !== UploadSessionStatus.ACTIVE) {
+      throw new ConflictException('Upload session is already completed');
+    }
+    if (!Number.isInteger(index) || index < 0 || index >= session.totalChunks) {
+      throw new BadRequestException(
+        `Chunk index must be between 0 and ${session.totalChunks - 1}`,
+      );
+    }
+
+    const fileSize = Number(session.fileSize);
+    const expectedSize =
+      index < session.totalChunks - 1
+        ? session.chunkSize
+        : fileSize - session.chunkSize * (session.totalChunks - 1);
+
+    let written: { size: number; checksum: string };
+    try {
+      written = await this.fileStorageService.writeChunk(
+        session.id,
+        index,
+        input,
+        expectedSize,
+      );
+    } catch (error) {
+      if (error instanceof ChunkTooLargeError) {
+        throw new PayloadTooLargeException(
+          `Chunk ${index} is larger than the expected ${expectedSize} bytes`,
+        );
+      }
+      throw error;
+    }
+
+    if (written.size !== expectedSize) {
+      throw new BadRequestException(
+        `Chunk ${index} has ${written.size} bytes, expected ${expectedSize}`,
+      );
+    }
+    if (checksum && checksum.toLowerCase() !== written.checksum) {
+      throw new BadRequestException(
+        `Checksum mismatch for chunk ${index}. Please resend it`,
+      );
+    }
+
+    // Merge into the JSONB map atomically so parallel chunk uploads don't overwrite each other
+    await this.sessionRepository
+      .createQueryBuilder()
+      .update(UploadSessionEntity)
+      .set({
+        chunkChecksums: () =>
+          '"chunkChecksums" || CAST(:chunkChecksum AS jsonb)',
+        updatedAt: () => 'CURRENT_TIMESTAMP',
+      })
+      .where('id = :id', { id: session.id })
+      .setParameter(
+        'chunkChecksum',
+        JSON.stringify({ [index]: written.checksum }),
+      )
+      .execute();
+
+    return await this.getSession(session.id, userId, workspaceId);
+  }
+
+  /**
+   * completeSession - Verifies and assembles a fully uploaded session and imports the file
+   *
+   * @param id - Upload session ID
+   * @param userId - User completing the upload
+   * @param workspaceId - Workspace the request was made in
+   * @param checksum - Session checksum computed by the client
+   * @param importFile - Queues the import of the assembled temp file (which it then owns)
+   *                     and returns the ID of the new upload record
+   * @returns The completed session, linked to its upload record
+   *
+   * The chunks are only deleted once the import is queued. If importFile fails, the
+   * session goes back to ACTIVE, so the client can complete it again.
+   */
+  async completeSession(
+    id: string,
+    userId: string | undefined,
+    workspaceId: string | undefined,
+    checksum: string,
+    importFile: (
+      session: UploadSessionEntity,
+      filePath: string,
+    ) => Promise<string>,
+  ): Promise<UploadSessionEntity> {
+    const session = await this.getSession(id, userId, workspaceId);
+    if (session.status !== UploadSessionStatus.ACTIVE) {
+      throw new ConflictException('Upload session is already completed');
+    }
+
+    const missing = this.getMissingChunks(session);
+    if (missing.length > 0) {
+      throw new BadRequestException(
+        `Upload is incomplete: ${missing.length} of ${session.totalChunks} chunk(s) missing (first missing: ${missing[0]})`,
+      );
+    }
+
+    const assembled = await this.fileStorageService.assembleChunks(
+      session.id,
+      session.totalChunks,
+    );
+
+    // Compare against what is actually on disk, not just what was recorded
+    const storedChecksums = this.getReceivedChunks(session).map(
+      (index) => session.chunkChecksums[index],
+    );
+    const corruptChunk = assembled.chunkChecksums.findIndex(
+      (chunkChecksum, index) => chunkChecksum !== storedChecksums[index],
+    );
+    if (corruptChunk !== -1) {
+      await this.fileStorageService.remove(assembled.path);
+      throw new BadRequestException(
+        `Stored chunk ${corruptChunk} is corrupted. Please resend it`,
+      );
+    }
+    if (
+      combineChunkChecksums(assembled.chunkChecksums) !== checksum.toLowerCase()
+    ) {
+      await this.fileStorageService.remove(assembled.path);
+      throw new BadRequestException(
+        'Checksum mismatch. The uploaded file does not match the original',
+      );
+    }
+
+    // Guard against two concurrent completions of the same session
+    const result = await this.sessionRepository.update(
+      { id: session.id, status: UploadSessionStatus.ACTIVE },
+      { status: UploadSessionStatus.COMPLETED },
+    );
+    if (!result.affected) {
+      await this.fileStorageService.remove(assembled.path);
+      throw new ConflictException('Upload session is already completed');
+    }
+
+    let uploadId: string;
+    try {
+      uploadId = await importFile(session, assembled.path);
+    } catch (error) {
+      await this.fileStorageService.remove(assembled.path);
+      await this.sessionRepository.update(session.id, {
+        status: UploadSessionStatus.ACTIVE,
+      });
+      throw error;
+    }
+
+    await this.sessionRepository.update(session.id, { uploadId });
+    await this.fileStorageService.removeChunks(session.id);
+    session.status = UploadSessionStatus.COMPLETED;
+    session.uploadId = uploadId;
+    return session;
+  }
+
+  /**
+   * abortSession - Cancels a session and deletes its chunks
+   */
+  async abortSession(
+    id: string,
+    userId: string | undefined,
+    workspaceId: string | undefined,
+  ): Promise<void> {
+    const session = await this.getSession(id, userId, workspaceId);
+    await this.deleteSession(session);
+  }
+
+  /**
+   * toResponse - Converts a session entity to the API response shape
+   */
+  toResponse(session: UploadSessionEntity): UploadSessionResponseDto {
+    return {
+      sessionId: session.id,
+      fileName: session.fileName,
+      fileSize: Number(session.fileSize), // Convert bigint to number
+      chunkSize: session.chunkSize,
+      totalChunks: session.totalChunks,
+      receivedChunks: this.getReceivedChunks(session),
+      status: session.status,
+      uploadId: session.uploadId,
+      expiresAt: new Date(
+        new Date(session.updatedAt).getTime() + this.sessionTtlMs,
+      ),
+    };
+  }
+
+  /**
+   * getReceivedChunks - Sorted indexes of the chunks received so far
+   */
+  private getReceivedChunks(session: UploadSessionEntity): number[] {
+    return Object.keys(session.chunkChecksums || {})
+      .map(Number)
+      .sort((a, b) => a - b);
+  }
+
+  /**
+   * getMissingChunks - Indexes of chunks that have not arrived yet
+   */
+  private getMissingChunks(session: UploadSessionEntity): number[] {
+    const missing: number[] = [];
+    for (let index = 0; index < session.totalChunks; index++) {
+      if (!session.chunkChecksums?.[index]) {
+        missing.push(index);
+      }
+    }
+    return missing;
+  }
+
+  private isExpired(session: UploadSessionEntity): boolean {
+    return (
+      new Date(session.updatedAt).getTime() + this.sessionTtlMs < Date.now()
+    );
+  }
+
+  private async deleteSession(session: UploadSessionEntity): Promise<void> {
+    await this.fileStorageService.removeChunks(session.id);
+    await this.sessionRepository.delete(session.id);
+  }
+
+  /**
+   * purgeExpiredSessions - Removes active sessions that have been idle longer than the TTL
+   */
+  private async purgeExpiredSessions(): Promise<void> {
+    const expired = await this.sessionRepository.find({
+      where: {
+        status: UploadSessionStatus.ACTIVE,
+        updatedAt: LessThan(new Date(Date.now() - this.sessionTtlMs)),
+      },
+      select: ['id'],
+    });
+    for (const session of expired) {
+      await this.deleteSession(session);
+    }
+  }
+}
@@ -0,0 +1,712 @@
+/**
+ * validation-rules.service.ts - Validation Rules Service
+ *
+ * This service checks imported rows against a validation schema
+ * (see validation-rule.interface.ts). Rules are compiled once per import and
+ * then applied row by row while the file is parsed, so validation works on
+ * streamed files of any size.
+ *
+ * Responsibilities:
+ * - Validate schemas supplied by clients (unknown keys, bad regexes, ...)
+ * - Check the header for required columns
+ * - Check each row against column rules and cross-field rules
+ */
+
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { CsvRow } from '../csv-import.service';
+import {
+  CONDITION_OPERATORS,
+  ColumnRule,
+  CrossFieldRule,
+  RuleCondition,
+  RuleViolation,
+  VALIDATION_SEVERITIES,
+  VALUE_TYPES,
+  ValidationSchema,
+  ValidationSeverity,
+  ValueType,
+} from '../interfaces/validation-rule.interface';
+import { IssueCode } from '../interfaces/upload-issue.interface';
+
+/**
+ * RowValidator Interface
+ * A schema compiled for one import; keeps state for unique checks
+ */
+export interface RowValidator {
+  checkHeader(columns: string[]): RuleViolation[];
+  checkRow(row: CsvRow, rowNumber: number): RuleViolation[];
+}
+
+/**
+ * ValidationFailedError
+ * Thrown when rows break rules with severity fail_upload (or every row was rejected)
+ */
+export class ValidationFailedError extends Error {
+  constructor(
+    message: string,
+    readonly violations: RuleViolation[],
+  ) {
+    super(message);
+    this.name = 'ValidationFailedError';
+  }
+}
+
+/**
+ * Severity of rules that do not set one, unless the schema says otherwise
+ */
+const DEFAULT_SEVERITY: ValidationSeverity = 'warning';
+
+/**
+ * Longest regular expression accepted in a schema
+ */
+const MAX_PATTERN_LENGTH = 500;
+
+const NUMBER_PATTERN = /^[+-]?(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?$/;
+const INTEGER_PATTERN = /^[+-]?\d+$/;
+const BOOLEAN_VALUES = ['true', 'false', 'yes', 'no', '1', '0'];
+const DATE_PATTERN =
+  /^(\d{4})-(\d{2})-(\d{2})([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const COLUMN_RULE_KEYS = [
+  'column',
+  'required',
+  'type',
+  'pattern',
+  'min',
+  'max',
+  'maxLength',
+  'enum',
+  'unique',
+  'severity',
+  'message',
+];
+const CROSS_FIELD_RULE_KEYS = ['name', 'when', 'then', 'severity', 'message'];
+const CONDITION_KEYS = ['column', 'operator', 'value', 'otherColumn'];
+
+@Injectable()
+export class ValidationRulesService {
+  /**
+   * parseSchema - Validates a schema supplied by the client
+   *
+   * @param raw - Schema object (or JSON string)
+   * @returns The schema, or undefined if none was given
+   * @throws BadRequestException describing the first problem found
+   */
+  parseSchema(raw: unknown): ValidationSchema | undefined {
+    if (raw === undefined || raw === null || raw === '') {
+      return undefined;
+    }
+
+    let value = raw;
+    if (typeof raw === 'string') {
+      try {
+        value = JSON.parse(raw);
+      } catch (error) {
+        throw new BadRequestException('Invalid validation rules JSON format');
+      }
+    }
+    const schema = this.expectObject(value, 'Validation rules', [
+      'columns',
+      'rules',
+      'severity',
+    ]);
+
+    const columns = this.optionalArray(schema.columns, 'columns').map(
+      (rule, index) => this.parseColumnRule(rule, `columns[${index}]`),
+    );
+    const rules = this.optionalArray(schema.rules, 'rules').map((rule, index) =>
+      this.parseCrossFieldRule(rule, `rules[${index}]`),
+    );
+
+    const severity = this.parseSeverity(schema.severity, 'severity');
+    if (columns.length === 0 && rules.length === 0) {
+      return undefined;
+    }
+    return {
+      columns: columns.length > 0 ? columns : undefined,
+      rules: rules.length > 0 ? rules : undefined,
+      severity,
+    };
+  }
+
+  /**
+   * createValidator - Compiles a schema for one import
+   *
+   * @param schema - A schema that passed parseSchema
+   */
+  createValidator(schema: ValidationSchema): RowValidator {
+    const defaultSeverity = schema.severity ?? DEFAULT_SEVERITY;
+    const columnRules = (schema.columns ?? []).map((rule) => ({
+      rule,
+      severity: rule.severity ?? defaultSeverity,
+      pattern: rule.pattern ? new RegExp(`^(?:${rule.pattern})$`) : undefined,
+      seen: rule.unique ? new Map<string, number>() : undefined,
+    }));
+    const crossFieldRules = (schema.rules ?? []).map((rule) => ({
+      rule,
+      severity: rule.severity ?? defaultSeverity,
+    }));
+    // Patterns of "matches" conditions, compiled once
+    const patterns = new Map<string, RegExp>();
+    for (const { rule } of crossFieldRules) {
+      for (const condition of [...(rule.when ?? []), ...rule.then]) {
+        if (condition.operator === 'matches') {
+          const pattern = String(condition.value);
+          patterns.set(pattern, new RegExp(`^(?:${pattern})$`));
+        }
+      }
+    }
+    // Required columns missing from the header are reported once, not on every row
+    const missingColumns = new Set<string>();
+
+    return {
+      checkHeader: (columns) => {
+        const violations: RuleViolation[] = [];
+        for (const { rule, severity } of columnRules) {
+          if (rule.required && !columns.includes(rule.column)) {
+            missingColumns.add(rule.column);
+            violations.push({
+              row: 1,
+              column: rule.column,
+              code: 'missing_column',
+              message:
+                rule.message ?? `Required column "${rule.column}" is missing`,
+              // Rejecting every row would reject the whole file
+              severity: severity === 'reject_row' ? 'fail_upload' : severity,
+            });
+          }
+        }
+        return violations;
+      },
+
+      checkRow: (row, rowNumber) => {
+        const violations: RuleViolation[] = [];
+        for (const compiled of columnRules) {
+          if (missingColumns.has(compiled.rule.column)) {
+            continue;
+          }
+          const failure = this.checkColumnRule(compiled, row, rowNumber);
+          if (failure) {
+            violations.push({
+              row: rowNumber,
+              column: compiled.rule.column,
+              code: failure.code,
+              message: compiled.rule.message
+                ? `Column "${compiled.rule.column}": ${compiled.rule.message}`
+                : failure.message,
+              severity: compiled.severity,
+            });
+          }
+        }
+        for (const { rule, severity } of crossFieldRules) {
+          const applies = (rule.when ?? []).every((condition) =>
+            this.testCondition(condition, row, patterns),
+          );
+          if (!applies) {
+            continue;
+          }
+          const failed = rule.then.find(
+            (condition) => !this.testCondition(condition, row, patterns),
+          );
+          if (failed) {
+            violations.push({
+              row: rowNumber,
+              column: failed.column,
+              code: 'cross_field',
+              message:
+                rule.message ?? this.describeCrossFieldFailure(rule, failed),
+              severity,
+            });
+          }
+        }
+        return violations;
+      },
+    };
+  }
+
+  /**
+   * Returns why a value breaks a column rule (issue code and message), or undefined if it does not
+   */
+  private checkColumnRule(
+    compiled: {
+      rule: ColumnRule;
+      pattern?: RegExp;
+      seen?: Map<string, number>;
+    },
+    row: CsvRow,
+    rowNumber: number,
+  ): { code: IssueCode; message: string } | undefined {
+    const { rule, pattern, seen } = compiled;
+    const value = row[rule.column] ?? '';
+    const prefix = `Column "${rule.column}":`;
+    const failure = (code: IssueCode, message: string) => ({
+      code,
+      message: `${prefix} ${message}`,
+    });
+
+    if (value.trim() === '') {
+      return rule.required
+        ? failure('required', 'value is required')
+        : undefined;
+    }
+    if (rule.type && !this.isOfType(value, rule.type)) {
+      return failure('invalid_type', `"${value}" is not a valid ${rule.type}`);
+    }
+    if (pattern && !pattern.test(value)) {
+      return failure(
+        'pattern_mismatch',
+        `"${value}" does not match the pattern ${rule.pattern}`,
+      );
+    }
+    if (rule.min !== undefined || rule.max !== undefined) {
+      if (!NUMBER_PATTERN.test(value)) {
+        return failure('invalid_type', `"${value}" is not a number`);
+      }
+      if (rule.min !== undefined && Number(value) < rule.min) {
+        return failure(
+          'out_of_range',
+          `${value} is less than the minimum of ${rule.min}`,
+        );
+      }
+      if (rule.max !== undefined && Number(value) > rule.max) {
+        return failure(
+          'out_of_range',
+          `${value} is greater than the maximum of ${rule.max}`,
+        );
+      }
+    }
+    if (rule.maxLength !== undefined && value.length > rule.maxLength) {
+      return failure(
+        'too_long',
+        `value is longer than ${rule.maxLength} characters`,
+      );
+    }
+    if (rule.enum && !rule.enum.includes(value)) {
+      return failure(
+        'not_allowed',
+        `"${value}" is not one of: ${rule.enum.join(', ')}`,
+      );
+    }
+    if (seen) {
+      const firstRow = seen.get(value);
+      if (firstRow !== undefined) {
+        return failure(
+          'not_unique',
+          `"${value}" already appears in row ${firstRow}`,
+        );
+      }
+      seen.set(value, rowNumber);
+    }
+    return undefined;
+  }
+
+  /**
+   * Whether a (non-empty) value is of the given type
+   */
+  private isOfType(value: string, type: ValueType): boolean {
+    switch (type) {
+      case 'integer':
+        return INTEGER_PATTERN.test(value);
+      case 'number':
+        return NUMBER_PATTERN.test(value);
+      case 'boolean':
+        return BOOLEAN_VALUES.includes(value.toLowerCase());
+      case 'date':
+        return this.parseDate(value) !== undefined;
+      case 'email':
+        return EMAIL_PATTERN.test(value);
+      case 'url':
+        try {
+          return ['http:', 'https:'].includes(new URL(value).protocol);
+        } catch {
+          return false;
+        }
+      default:
+        return true;
+    }
+  }
+
+  /**
+   * Parses an ISO date (YYYY-MM-DD, optionally with a time); undefined if invalid
+   */
+  private parseDate(value: string): number | undefined {
+    const match = DATE_PATTERN.exec(value);
+    if (!match) {
+      return undefined;
+    }
+    const [, year, month, day] = match.map(Number);
+    const calendarDate = new Date(Date.UTC(year, month - 1, day));
+    if (calendarDate.getUTCMonth() !== month - 1) {
+      return undefined; // e.g. 2024-02-30
+    }
+    const time = Date.parse(value.replace(' ', 'T'));
+    return Number.isNaN(time) ? undefined : time;
+  }
+
+  /**
+   * Whether a row meets a condition
+   */
+  private testCondition(
+    condition: RuleCondition,
+    row: CsvRow,
+    patterns: Map<string, RegExp>,
+  ): boolean {
+    const value = row[condition.column] ?? '';
+    const other =
+      condition.otherColumn !== undefined
+        ? (row[condition.otherColumn] ?? '')
+        : condition.value;
+
+    switch (condition.operator) {
+      case 'empty':
+        return value.trim() === '';
+      case 'notEmpty':
+        return value.trim() !== '';
+      case 'equals':
+        return value === String(other ?? '');
+      case 'notEquals':
+        return value !== String(other ?? '');
+      case 'in':
+        return (other as string[]).map(String).includes(value);
+      case 'notIn':
+        return !(other as string[]).map(String).includes(value);
+      case 'matches':
+        return patterns.get(String(other)).test(value);
+      default: {
+        // An empty value cannot be compared; its emptiness is checked with notEmpty
+        if (value.trim() === '' || String(other ?? '').trim() === '') {
+          return true;
+        }
+        const order = this.compare(value, String(other));
+        switch (condition.operator) {
+          case 'gt':
+            return order > 0;
+          case 'gte':
+            return order >= 0;
+          case 'lt':
+            return order < 0;
+          default:
+            return order <= 0;
+        }
+      }
+    }
+  }
+
+  /**
+   * Compares two values as numbers, then as dates, then as text
+   */
+  private compare(a: string, b: string): number {
+    if (NUMBER_PATTERN.test(a) && NUMBER_PATTERN.test(b)) {
+      return Number(a) - Number(b);
+    }
+    const dateA = this.parseDate(a);
+    const dateB = this.parseDate(b);
+    if (dateA !== undefined && dateB !== undefined) {
+      return dateA - dateB;
+    }
+    return a.localeCompare(b);
+  }
+
+  /**
+   * Builds the message for a cross-field rule whose "then" condition failed
+   */
+  private describeCrossFieldFailure(
+    rule: CrossFieldRule,
+    failed: RuleCondition,
+  ): string {
+    const requirement = this.describeCondition(failed);
+    const when = (rule.when ?? []).map((condition) =>
+      this.describeCondition(condition, 'is'),
+    );
+    const text = when.length
+      ? `${requirement} when ${when.join(' and ')}`
+      : requirement;
+    return rule.name ? `Rule "${rule.name}": ${text}` : text;
+  }
+
+  /**
+   * Describes a condition, e.g. "end" must be greater than or equal to column "start"
+   */
+  private describeCondition(
+    condition: RuleCondition,
+    verb: 'must be' | 'is' = 'must be',
+  ): string {
+    const subject = `"${condition.column}"`;
+    const target =
+      condition.otherColumn !== undefined
+        ? `column "${condition.otherColumn}"`
+        : Array.isArray(condition.value)
+          ? condition.value.join(', ')
+          : `"${condition.value}"`;
+    const not = verb === 'must be' ? 'must not be' : 'is not';
+    switch (condition.operator) {
+      case 'empty':
+        return `${subject} ${verb} empty`;
+      case 'notEmpty':
+        return `${subject} ${not} empty`;
+      case 'equals':
+        return `${subject} ${verb} ${target}`;
+      case 'notEquals':
+        return `${subject} ${not} ${target}`;
+      case 'in':
+        return `${subject} ${verb} one of: ${target}`;
+      case 'notIn':
+        return `${subject} ${not} one of: ${target}`;
+      case 'matches':
+        return `${subject} ${verb} matching ${condition.value}`;
+      case 'gt':
+        return `${subject} ${verb} greater than ${target}`;
+      case 'gte':
+        return `${subject} ${verb} at least ${target}`;
+      case 'lt':
+        return `${subject} ${verb} less than ${target}`;
+      default:
+        return `${subject} ${verb} at most ${target}`;
+    }
+  }
+
+  /**
+   * parseColumnRule - Validates one column rule
+   */
+  private parseColumnRule(raw: unknown, path: string): ColumnRule {
+    const rule = this.expectObject(raw, path, COLUMN_RULE_KEYS);
+    const parsed: ColumnRule = {
+      column: this.expectString(rule.column, `${path}.column`),
+    };
+
+    for (const key of ['required', 'unique'] as const) {
+      if (rule[key] !== undefined) {
+        if (typeof rule[key] !== 'boolean') {
+          throw new BadRequestException(`${path}.${key} must be true or false`);
+        }
+        parsed[key] = rule[key] as boolean;
+      }
+    }
+    if (rule.type !== undefined) {
+      if (!VALUE_TYPES.includes(rule.type as ValueType)) {
+        throw new BadRequestException(
+          `${path}.type must be one of: ${VALUE_TYPES.join(', ')}`,
+        );
+      }
+      parsed.type = rule.type as ValueType;
+    }
+    if (rule.pattern !== undefined) {
+      parsed.pattern = this.expectPattern(rule.pattern, `${path}.pattern`);
+    }
+    for (const key of ['min', 'max'] as const) {
+      if (rule[key] !== undefined) {
+        if (typeof rule[key] !== 'number' || !Number.isFinite(rule[key])) {
+          throw new BadRequestException(`${path}.${key} must be a number`);
+        }
+        parsed[key] = rule[key] as number;
+      }
+    }
+    if (
+      parsed.min !== undefined &&
+      parsed.max !== undefined &&
+      parsed.min > parsed.max
+    ) {
+      throw new BadRequestException(`${path}.min must not be greater than max`);
+    }
+    if (rule.maxLength !== undefined) {
+      if (!Number.isInteger(rule.maxLength) || (rule.maxLength as number) < 1) {
+        throw new BadRequestException(
+          `${path}.maxLength must be a positive whole number`,
+        );
+      }
+      parsed.maxLength = rule.maxLength as number;
+    }
+    if (rule.enum !== undefined) {
+      parsed.enum = this.expectValueList(rule.enum, `${path}.enum`);
+    }
+    parsed.severity = this.parseSeverity(rule.severity, `${path}.severity`);
+    if (rule.message !== undefined) {
+      parsed.message = this.expectString(rule.message, `${path}.message`);
+    }
+    return parsed;
+  }
+
+  /**
+   * parseCrossFieldRule - Validates one cross-field rule
+   */
+  private parseCrossFieldRule(raw: unknown, path: string): CrossFieldRule {
+    const rule = this.expectObject(raw, path, CROSS_FIELD_RULE_KEYS);
+    const then = this.optionalArray(rule.then, `${path}.then`);
+    if (then.length === 0) {
+      throw new BadRequestException(
+        `${path}.then must list at least one condition`,
+      );
+    }
+    const when = this.optionalArray(rule.when, `${path}.when`);
+
+    return {
+      name:
+        rule.name !== undefined
+          ? this.expectString(rule.name, `${path}.name`)
+          : undefined,
+      when:
+        when.length > 0
+          ? when.map((condition, index) =>
+              this.parseCondition(condition, `${path}.when[${index}]`),
+            )
+          : undefined,
+      then: then.map((condition, index) =>
+        this.parseCondition(condition, `${path}.then[${index}]`),
+      ),
+      severity: this.parseSeverity(rule.severity, `${path}.severity`),
+      message:
+        rule.message !== undefined
+          ? this.expectString(rule.message, `${path}.message`)
+          : undefined,
+    };
+  }
+
+  /**
+   * parseCondition - Validates one condition of a cross-field rule
+   */
+  private parseCondition(raw: unknown, path: string): RuleCondition {
+    const condition = this.expectObject(raw, path, CONDITION_KEYS);
+    const operator = condition.operator as RuleCondition['operator'];
+    if (!CONDITION_OPERATORS.includes(operator)) {
+      throw new BadRequestException(
+        `${path}.operator must be one of: ${CONDITION_OPERATORS.join(', ')}`,
+      );
+    }
+    const parsed: RuleCondition = {
+      column: this.expectString(condition.column, `${path}.column`),
+      operator,
+    };
+    if (condition.otherColumn !== undefined) {
+      parsed.otherColumn = this.expectString(
+        condition.otherColumn,
+        `${path}.otherColumn`,
+      );
+    }
+
+    switch (operator) {
+      case 'empty':
+      case 'notEmpty':
+        break;
+      case 'in':
+      case 'notIn':
+        parsed.value = this.expectValueList(condition.value, `${path}.value`);
+        break;
+      case 'matches':
+        parsed.value = this.expectPattern(condition.value, `${path}.value`);
+        break;
+      default:
+        if (parsed.otherColumn === undefined) {
+          if (
+            typeof condition.value !== 'string' &&
+            typeof condition.value !== 'number'
+          ) {
+            throw new BadRequestException(
+              `${path} needs a value (text or number) or an otherColumn`,
+            );
+          }
+          parsed.value = condition.value;
+        }
+    }
+    return parsed;
+  }
+
+  /**
+   * parseSeverity - Validates an optional severity
+   */
+  private parseSeverity(
+    value: unknown,
+    path: string,
+  ): ValidationSeverity | undefined {
+    if (value === undefined) {
+      return undefined;
+    }
+    if (!VALIDATION_SEVERITIES.includes(value as ValidationSeverity)) {
+      throw new BadRequestException(
+        `${path} must be one of: ${VALIDATION_SEVERITIES.join(', ')}`,
+      );
+    }
+    return value as ValidationSeverity;
+  }
+
+  /**
+   * expectObject - Checks for a plain object without unknown keys
+   */
+  private expectObject(
+    value: unknown,
+    path: string,
+    allowedKeys: string[],
+  ): Record<string, unknown> {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new BadRequestException(`${path} must be an object`);
+    }
+    const unknownKey = Object.keys(value).find(
+      (key) => !allowedKeys.includes(key),
+    );
+    if (unknownKey) {
+      throw new BadRequestException(
+        `Unknown option "${unknownKey}" in ${path}`,
+      );
+    }
+    return value as Record<string, unknown>;
+  }
+
+  /**
+   * optionalArray - Returns the items of an optional array
+   */
+  private optionalArray(value: unknown, path: string): unknown[] {
+    if (value === undefined) {
+      return [];
+    }
+    if (!Array.isArray(value)) {
+      throw new BadRequestException(`${path} must be an array`);
+    }
+    return value;
+  }
+
+  /**
+   * expectString - Checks for a non-empty string
+   */
+  private expectString(value: unknown, path: string): string {
+    if (typeof value !== 'string' || value.trim() === '') {
+      throw new BadRequestException(`${path} must be a non-empty string`);
+    }
+    return value;
+  }
+
+  /**
+   * expectValueList - Checks for a non-empty list of texts or numbers (returned as text)
+   */
+  private expectValueList(value: unknown, path: string): string[] {
+    if (
+      !Array.isArray(value) ||
+      value.length === 0 ||
+      !value.every((item) => ['string', 'number'].includes(typeof item))
+    ) {
+      throw new BadRequestException(
+        `${path} must be a non-empty list of values`,
+      );
+    }
+    return value.map(String);
+  }
+
+  /**
+   * expectPattern - Checks for a valid regular expression
+   */
+  private expectPattern(value: unknown, path: string): string {
+    const pattern = this.expectString(value, path);
+    if (pattern.length > MAX_PATTERN_LENGTH) {
+      throw new BadRequestException(
+        `${path} must be at most ${MAX_PATTERN_LENGTH} characters`,
+      );
+    }
+    try {
+      new RegExp(pattern);
+    } catch (error) {
+      throw new BadRequestException(
+        `${path} is not a valid regular expression`,
+      );
+    }
+    return pattern;
+  }
+}
@@ -0,0 +1,82 @@
+import { ForbiddenException, NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ValidationSchemaService } from './validation-schema.service';
+import { ValidationRulesService } from './validation-rules.service';
+import { ValidationSchemaEntity } from '../entities/validation-schema.entity';
+
+const WORKSPACE_ID = '7d4c1a52-3b0e-4f6a-9a1c-2e8f5b6d7c90';
+const DTO = { name: 'Customers', schema: { columns: [{ column: 'email' }] } };
+
+describe('ValidationSchemaService', () => {
+  let service: ValidationSchemaService;
+  let schemaRepository: {
+    find: jest.Mock;
+    findOne: jest.Mock;
+    create: jest.Mock;
+    save: jest.Mock;
+  };
+
+  beforeEach(async () => {
+    schemaRepository = {
+      find: jest.fn().mockResolvedValue([]),
+      findOne: jest.fn().mockResolvedValue(null),
+      create: jest.fn((values) => values),
+      save: jest.fn(async (values) => values),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ValidationSchemaService,
+        ValidationRulesService,
+        {
+          provide: getRepositoryToken(ValidationSchemaEntity),
+          useValue: schemaRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<ValidationSchemaService>(ValidationSchemaService);
+  });
+
+  it('lists only the schemas of the workspace', async () => {
+    await service.findAll(WORKSPACE_ID);
+
+    expect(schemaRepository.find).toHaveBeenCalledWith({
+      where: { workspaceId: WORKSPACE_ID },
+      order: { name: 'ASC' },
+    });
+  });
+
+  it('does not find a schema of another workspace', async () => {
+    await expect(
+      service.findOne('schema-1', WORKSPACE_ID),
+    ).rejects.toBeInstanceOf(NotFoundException);
+
+    expect(schemaRepository.findOne).toHaveBeenCalledWith({
+      where: { id: 'schema-1', workspaceId: WORKSPACE_ID },
+    });
+  });
+
+  it('saves a new schema in the workspace', async () => {
+    const schema = await service.create(DTO, 'user-1', WORKSPACE_ID);
+
+    expect(schema.workspaceId).toBe(WORKSPACE_ID);
+  });
+
+  it('refuses every lookup without a workspace', async () => {
+    await expect(service.findAll(undefined)).rejects.toBeInstanceOf(
+      ForbiddenException,
+    );
+    await expect(service.findOne('schema-1', undefined)).rejects.toBeInstanceOf(
+      ForbiddenException,
+    );
+    await expect(
+      service.create(DTO, 'user-1', undefined),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+
+    expect(schemaRepository.find).not.toHaveBeenCalled();
+    expect(schemaRepository.findOne).not.toHaveBeenCalled();
+    expect(schemaRepository.save).not.toHaveBeenCalled();
+  });
+});
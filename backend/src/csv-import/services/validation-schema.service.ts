@@ -0,0 +1,164 @@
+/**
+ * validation-schema.service.ts - Validation Schema Service
+ *
+ * This service manages saved validation schemas (the validation_schemas table)
+ * and works out which rules an upload is checked against.
+ *
+ * Responsibilities:
+ * - Create, list, update and delete saved schemas (each belongs to a workspace)
+ * - Resolve the rules of an upload: inline rules or a saved schema
+ */
+
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { ValidationSchemaEntity } from '../entities/validation-schema.entity';
+import { ValidationSchema } from '../interfaces/validation-rule.interface';
+import { ValidationRulesService } from './validation-rules.service';
+import {
+  CreateValidationSchemaDto,
+  UpdateValidationSchemaDto,
+} from '../dto/validation-schema.dto';
+import { requireWorkspace } from '../../common/utils/workspace.util';
+
+@Injectable()
+export class ValidationSchemaService {
+  constructor(
+    @InjectRepository(ValidationSchemaEntity)
+    private readonly schemaRepository: Repository<ValidationSchemaEntity>,
+    private readonly validationRulesService: ValidationRulesService,
+  ) {}
+
+  /**
+   * findAll - All saved schemas, by name
+   *
+   * @param workspaceId - Only schemas of this workspace
+   */
+  async findAll(workspaceId: string): Promise<ValidationSchemaEntity[]> {
+    return this.schemaRepository.find({
+      where: { workspaceId: requireWorkspace(workspaceId) },
+      order: { name: 'ASC' },
+    });
+  }
+
+  /**
+   * findOne - A saved schema
+   *
+   * @param workspaceId - Only a schema of this workspace
+   * @throws NotFoundException if there is no schema with this ID (in the workspace)
+   */
+  async findOne(
+    id: string,
+    workspaceId: string,
+  ): Promise<ValidationSchemaEntity> {
+    const schema = await this.schemaRepository.findOne({
+      where: { id, workspaceId: requireWorkspace(workspaceId) },
+    });
+    if (!schema) {
+      throw new NotFoundException('Validation schema not found');
+    }
+    return schema;
+  }
+
+  /**
+   * create - Saves a new schema
+   *
+   * @param workspaceId - Workspace the schema belongs to
+   * @throws BadRequestException if the rules are invalid
+   */
+  async create(
+    dto: CreateValidationSchemaDto,
+    userId: string | undefined,
+    workspaceId: string,
+  ): Promise<ValidationSchemaEntity> {
+    return this.schemaRepository.save(
+      this.schemaRepository.create({
+        name: dto.name,
+        description: dto.description,
+        schema: this.parseRules(dto.schema),
+        createdBy: userId,
+        workspaceId: requireWorkspace(workspaceId),
+      }),
+    );
+  }
+
+  /**
+   * update - Changes the name, description or rules of a schema
+   *
+   * @param workspaceId - Only a schema of this workspace
+   * @throws NotFoundException if there is no schema with this ID (in the workspace)
+   * @throws BadRequestException if the rules are invalid
+   */
+  async update(
+    id: string,
+    dto: UpdateValidationSchemaDto,
+    workspaceId: string,
+  ): Promise<ValidationSchemaEntity> {
+    const schema = await this.findOne(id, workspaceId);
+    if (dto.name !== undefined) {
+      schema.name = dto.name;
+    }
+    if (dto.description !== undefined) {
+      schema.description = dto.description;
+    }
+    if (dto.schema !== undefined) {
+      schema.schema = this.parseRules(dto.schema);
+    }
+    return this.schemaRepository.save(schema);
+  }
+
+  /**
+   * remove - Deletes a schema (uploads keep the rules they were checked against)
+   *
+   * @param workspaceId - Only a schema of this workspace
+   * @throws NotFoundException if there is no schema with this ID (in the workspace)
+   */
+  async remove(id: string, workspaceId: string): Promise<void> {
+    const schema = await this.findOne(id, workspaceId);
+    await this.schemaRepository.remove(schema);
+  }
+
+  /**
+   * resolveForUpload - The rules an upload is checked against
+   *
+   * @param schemaId - ID of a saved schema
+   * @param rules - Rules sent with the upload (object or JSON string)
+   * @param workspaceId - Workspace of the upload; the saved schema must belong to it
+   * @returns The rules, or undefined if the upload has none
+   * @throws BadRequestException if both or invalid rules are given
+   * @throws NotFoundException if the saved schema does not exist (in the workspace)
+   */
+  async resolveForUpload(
+    schemaId: string | undefined,
+    rules: unknown,
+    workspaceId: string,
+  ): Promise<ValidationSchema | undefined> {
+    const inlineRules = this.validationRulesService.parseSchema(rules);
+    if (schemaId && inlineRules) {
+      throw new BadRequestException(
+        'Send either validationSchemaId or validationRules, not both',
+      );
+    }
+    if (schemaId) {
+      return (await this.findOne(schemaId, workspaceId)).schema;
+    }
+    return inlineRules;
+  }
+
+  /**
+   * Validates the rules of a saved schema; a saved schema must have at least one rule
+   */
+  private parseRules(raw: unknown): ValidationSchema {
+    const schema = this.validationRulesService.parseSchema(raw);
+    if (!schema) {
+      throw new BadRequestException(
+        'A validation schema needs at least one column rule or cross-field rule',
+      );
+    }
+    return schema;
+  }
+}
@@ -0,0 +1,317 @@
+/**
+ * shared-uploads.controller.ts - Shared Uploads Controller
+ *
+ * Serves uploads through share links, without a login:
+ * - GET /shared/:token - The shared upload's file name, columns and row count
+ * - GET /shared/:token/rows - Page through, sort and search its rows
+ * - GET /shared/:token/export - Download it as CSV, Excel, JSON, NDJSON or Parquet
+ *
+ * The token is checked by ShareLinkService (signature, expiry, revocation and,
+ * for password-protected links, the X-Share-Password header). Every access,
+ * allowed or refused, is recorded in the audit log with the share link ID.
+ * Links are created and revoked through /csv-import/history/:id/share-links.
+ */
+
+import {
+  Controller,
+  Get,
+  Param,
+  Query,
+  Res,
+  Req,
+  Headers,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { Response, Request as ExpressRequest } from 'express';
+import { ConfigService } from '@nestjs/config';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiQuery,
+  ApiHeader,
+} from '@nestjs/swagger';
+import {
+  ALL_WORKSPACES,
+  UploadHistoryService,
+} from './services/upload-history.service';
+import { UploadRowService } from './services/upload-row.service';
+import { ExportService } from './services/export.service';
+import {
+  ShareAccessContext,
+  ShareLinkService,
+} from './services/share-link.service';
+import { ShareLinkEntity } from './entities/share-link.entity';
+import { SharedUploadResponseDto } from './dto/share-link.dto';
+import { UploadRowsResponseDto } from './dto/upload-rows-response.dto';
+import { UploadRecord } from './interfaces/upload-record.interface';
+import { UploadStatus } from './interfaces/upload-status.enum';
+import {
+  EXPORT_FORMATS,
+  ExportFormat,
+} from './interfaces/export-format.interface';
+import {
+  ThrottleModerate,
+  ThrottleLenient,
+} from '../common/decorators/throttle.decorator';
+import { getExportFormulaSanitization } from '../common/config/export.config';
+
+@ApiTags('shared')
+@ApiHeader({
+  name: 'X-Share-Password',
+  required: false,
+  description: 'Password of a password-protected share link',
+})
+@ApiParam({ name: 'token', description: 'Share link token' })
+@ApiResponse({
+  status: 403,
+  description:
+    'Link expired or revoked, or password missing or wrong (passwordRequired: true)',
+})
+@ApiResponse({ status: 404, description: 'Share link not found' })
+@Controller('shared')
+export class SharedUploadsController {
+  constructor(
+    private readonly shareLinkService: ShareLinkService,
+    private readonly uploadHistoryService: UploadHistoryService,
+    private readonly uploadRowService: UploadRowService,
+    private readonly exportService: ExportService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * GET /shared/:token
+   * Describe the shared upload
+   */
+  @Get(':token')
+  @ThrottleLenient() // Lenient rate limit: 100 requests per minute
+  @ApiOperation({
+    summary: 'Get a shared upload',
+    description:
+      'Returns the file name, columns and row count of the upload a share link gives access to. No login needed.',
+  })
+  @ApiResponse({ status: 200, type: SharedUploadResponseDto })
+  async getSharedUpload(
+    @Param('token') token: string,
+    @Headers('x-share-password') password?: string,
+    @Req() req?: ExpressRequest,
+  ): Promise<SharedUploadResponseDto> {
+    const context = this.accessContext(req);
+    const { link, upload } = await this.open(token, password, context);
+
+    await this.shareLinkService.recordAccess(link, upload, context, {
+      access: 'view',
+    });
+
+    return {
+      fileName: upload.fileName,
+      format: upload.format,
+      totalRows: upload.totalRows,
+      columns: upload.columnSchema?.map((column) => column.name) ?? [],
+      columnSchema: upload.columnSchema,
+      uploadedAt: upload.uploadedAt,
+      expiresAt: link.expiresAt,
+    };
+  }
+
+  /**
+   * GET /shared/:token/rows
+   * Page through the rows of the shared upload
+   */
+  @Get(':token/rows')
+  @ThrottleLenient() // Lenient rate limit: 100 requests per minute
+  @ApiOperation({
+    summary: 'Get a page of rows of a shared upload',
+    description:
+      'Pages through the rows of the upload a share link gives access to, optionally sorted by a column and searched. No login needed.',
+  })
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: Number,
+    description: 'Rows per page (default: 50, max: 500)',
+  })
+  @ApiQuery({ name: 'sort', required: false, type: String })
+  @ApiQuery({ name: 'direction', required: false, enum: ['asc', 'desc'] })
+  @ApiQuery({
+    name: 'search',
+    required: false,
+    type: String,
+    description: 'Return rows with a value containing this text',
+  })
+  @ApiResponse({ status: 200, type: UploadRowsResponseDto })
+  @ApiResponse({ status: 400, description: 'Unknown sort column' })
+  async getSharedRows(
+    @Param('token') token: string,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+    @Query('sort') sort?: string,
+    @Query('direction') direction?: string,
+    @Query('search') search?: string,
+    @Headers('x-share-password') password?: string,
+    @Req() req?: ExpressRequest,
+  ): Promise<UploadRowsResponseDto> {
+    const context = this.accessContext(req);
+    const { link, upload } = await this.open(token, password, context);
+
+    const pageNum = page ? Math.max(1, parseInt(page, 10) || 1) : 1;
+    const limitNum = limit
+      ? Math.min(500, Math.max(1, parseInt(limit, 10) || 50))
+      : 50;
+    const columns = upload.columnSchema?.map((column) => column.name) ?? [];
+    if (sort && !columns.includes(sort)) {
+      throw new BadRequestException(`Unknown column(s): ${sort}`);
+    }
+    if (direction && direction !== 'asc' && direction !== 'desc') {
+      throw new BadRequestException('direction must be asc or desc');
+    }
+
+    const sortType = upload.columnSchema?.find(
+      (column) => column.name === sort,
+    )?.type;
+    const result = await this.uploadRowService.getRows(
+      upload.id,
+      {
+        sort: sort
+          ? [
+              {
+                column: sort,
+                direction: direction as 'asc' | 'desc',
+                numeric: sortType === 'integer' || sortType === 'number',
+              },
+            ]
+          : undefined,
+        search,
+      },
+      pageNum,
+      limitNum,
+    );
+
+    await this.shareLinkService.recordAccess(link, upload, context, {
+      access: 'rows',
+      page: pageNum,
+      limit: limitNum,
+      sort,
+      search: search || undefined,
+    });
+
+    return {
+      uploadId: upload.id,
+      fileName: upload.fileName,
+      columns,
+      columnSchema: upload.columnSchema,
+      typed: upload.typed,
+      rows: result.rows,
+      total: result.total,
+      page: result.page,
+      limit: result.limit,
+      totalPages: result.totalPages,
+      hasNextPage: result.page < result.totalPages,
+      hasPreviousPage: result.page > 1,
+    };
+  }
+
+  /**
+   * GET /shared/:token/export
+   * Download the shared upload
+   */
+  @Get(':token/export')
+  @ThrottleModerate() // Moderate rate limit: 10 requests per minute
+  @ApiOperation({
+    summary: 'Export a shared upload',
+    description:
+      'Downloads the rows of the upload a share link gives access to. Formula-like values in CSV exports are neutralized as configured by EXPORT_FORMULA_SANITIZATION. No login needed.',
+  })
+  @ApiQuery({ name: 'format', required: false, enum: EXPORT_FORMATS })
+  @ApiResponse({ status: 200, description: 'File exported successfully' })
+  @ApiResponse({ status: 400, description: 'Unknown export format' })
+  async exportSharedUpload(
+    @Param('token') token: string,
+    @Res() res: Response,
+    @Query('format') format?: string,
+    @Headers('x-share-password') password?: string,
+    @Req() req?: ExpressRequest,
+  ) {
+    const exportFormat = (format || 'csv') as ExportFormat;
+    if (!EXPORT_FORMATS.includes(exportFormat)) {
+      throw new BadRequestException(
+        `format must be one of: ${EXPORT_FORMATS.join(', ')}`,
+      );
+    }
+
+    const context = this.accessContext(req);
+    const { link, upload } = await this.open(token, password, context);
+
+    const sanitize = getExportFormulaSanitization(this.configService);
+    const exportFileName = this.exportService.getFileName(
+      upload.fileName,
+      exportFormat,
+    );
+    const selection = this.exportService.selectColumns(
+      upload.columnSchema?.map((column) => column.name) ?? [],
+      {},
+    );
+
+    await this.shareLinkService.recordAccess(link, upload, context, {
+      access: 'export',
+      format: exportFormat,
+      exportedRows: upload.totalRows,
+      exportFileName,
+    });
+
+    res.setHeader(
+      'Content-Type',
+      this.exportService.getFormatInfo(exportFormat).contentType,
+    );
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="${exportFileName}"`,
+    );
+    try {
+      // Rows are read from the database a page at a time
+      await this.exportService.write(
+        exportFormat,
+        selection.headers,
+        () =>
+          this.exportService.selectRows(
+            this.uploadRowService.iterateRows(upload.id),
+            selection,
+          ),
+        res,
+        sanitize,
+      );
+    } catch (error) {
+      // Headers are already sent, so the only way to signal failure is to abort the download
+      res.destroy(error instanceof Error ? error : undefined);
+    }
+  }
+
+  /**
+   * Check the token and find the shared upload (only successful uploads can be read)
+   */
+  private async open(
+    token: string,
+    password: string | undefined,
+    context: ShareAccessContext,
+  ): Promise<{ link: ShareLinkEntity; upload: UploadRecord }> {
+    const link = await this.shareLinkService.resolve(token, password, context);
+    const upload = await this.uploadHistoryService.getUploadById(
+      link.uploadId,
+      ALL_WORKSPACES, // The link itself grants access
+    );
+    if (!upload || upload.status !== UploadStatus.SUCCESS) {
+      throw new NotFoundException('The shared upload no longer exists');
+    }
+    return { link, upload };
+  }
+
+  private accessContext(req?: ExpressRequest): ShareAccessContext {
+    return {
+      userIp: req?.ip || req?.socket?.remoteAddress,
+      userAgent: req?.headers['user-agent'],
+    };
+  }
+}
@@ -29,7 +29,12 @@ async function bootstrap() {
     origin: true, // Allow all origins in development
     credentials: true, // Allow credentials (cookies, authorization headers)
     methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization'],
+    allowedHeaders: [
+      'Content-Type',
+      'Authorization',
+      'X-Workspace-Id',
+      'X-Share-Password',
+    ],
   });
 
   // Global Validation Pipe
@@ -51,16 +56,16 @@ async function bootstrap() {
     .setTitle('CSV Import API')
     .setDescription(
       'A REST API for uploading, parsing, and managing CSV files. Provides endpoints for file upload, history tracking, and data retrieval.\n\n' +
-      '**Rate Limiting:**\n' +
-      '- Authentication endpoints: 5 requests per 15 minutes\n' +
-      '- File upload endpoints: 10 requests per minute\n' +
-      '- Read-only endpoints: 100 requests per minute\n' +
-      '- Default: 50 requests per minute\n\n' +
-      'Rate limit headers are included in all responses:\n' +
-      '- `X-RateLimit-Limit`: Maximum number of requests allowed\n' +
-      '- `X-RateLimit-Remaining`: Number of requests remaining\n' +
-      '- `X-RateLimit-Reset`: Time when the rate limit resets\n' +
-      '- `Retry-After`: Seconds to wait before retrying (when limit exceeded)',
+        '**Rate Limiting:**\n' +
+        '- Authentication endpoints: 5 requests per 15 minutes\n' +
+        '- File upload endpoints: 10 requests per minute\n' +
+        '- Read-only endpoints: 100 requests per minute\n' +
+        '- Default: 50 requests per minute\n\n' +
+        'Rate limit headers are included in all responses:\n' +
+        '- `X-RateLimit-Limit`: Maximum number of requests allowed\n' +
+        '- `X-RateLimit-Remaining`: Number of requests remaining\n' +
+        '- `X-RateLimit-Reset`: Time when the rate limit resets\n' +
+        '- `Retry-After`: Seconds to wait before retrying (when limit exceeded)',
     )
     .setVersion('1.0')
     .addTag('csv-import', 'CSV file import and management endpoints')
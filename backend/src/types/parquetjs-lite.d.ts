@@ -0,0 +1,30 @@
+/**
+ * parquetjs-lite.d.ts - Type declarations for parquetjs-lite
+ *
+ * The package ships without typings; only the writer API used by
+ * ExportService is declared here.
+ */
+
+declare module 'parquetjs-lite' {
+  import { Writable } from 'stream';
+
+  export interface ParquetFieldDefinition {
+    type: string;
+    optional?: boolean;
+    compression?: string;
+  }
+
+  export class ParquetSchema {
+    constructor(fields: Record<string, ParquetFieldDefinition>);
+  }
+
+  export class ParquetWriter {
+    static openStream(
+      schema: ParquetSchema,
+      outputStream: Writable,
+      opts?: Record<string, unknown>,
+    ): Promise<ParquetWriter>;
+    appendRow(row: Record<string, unknown>): Promise<void>;
+    close(): Promise<void>;
+  }
+}
@@ -0,0 +1,13 @@
+/**
+ * workspace-roles.decorator.ts - Workspace Roles Decorator
+ *
+ * Decorator to limit routes to members with one of the given roles in the active workspace.
+ * Used with @WorkspaceRoles(WorkspaceRole.ADMIN, ...) on controller methods, together with WorkspaceGuard.
+ */
+
+import { SetMetadata } from '@nestjs/common';
+import { WorkspaceRole } from '../entities/workspace-member.entity';
+
+export const WORKSPACE_ROLES_KEY = 'workspaceRoles';
+export const WorkspaceRoles = (...roles: WorkspaceRole[]) =>
+  SetMetadata(WORKSPACE_ROLES_KEY, roles);
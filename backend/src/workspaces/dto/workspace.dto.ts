@@ -0,0 +1,131 @@
+/**
+ * workspace.dto.ts - Workspace DTOs
+ *
+ * Requests to create or rename a workspace, change a member's role and invite
+ * a user, and workspaces, members and invitations as returned by the API.
+ */
+
+import {
+  IsEmail,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { WorkspaceRole } from '../entities/workspace-member.entity';
+
+const ROLE_MESSAGE = `Role must be one of: ${Object.values(WorkspaceRole).join(', ')}`;
+
+export class CreateWorkspaceDto {
+  @ApiProperty({ example: 'Finance team' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+}
+
+export class UpdateWorkspaceDto {
+  @ApiProperty({ example: 'Finance team' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+}
+
+export class UpdateMemberRoleDto {
+  @ApiProperty({
+    description: 'New role of the member in the workspace',
+    enum: WorkspaceRole,
+    example: WorkspaceRole.VIEWER,
+  })
+  @IsEnum(WorkspaceRole, { message: ROLE_MESSAGE })
+  role: WorkspaceRole;
+}
+
+export class CreateInvitationDto {
+  @ApiProperty({
+    description: 'Email of the (already registered) user to invite',
+    example: 'colleague@example.com',
+  })
+  @IsEmail({}, { message: 'Please provide a valid email address' })
+  email: string;
+
+  @ApiPropertyOptional({
+    description: 'Role the user gets when accepting (default: editor)',
+    enum: WorkspaceRole,
+    example: WorkspaceRole.EDITOR,
+  })
+  @IsOptional()
+  @IsEnum(WorkspaceRole, { message: ROLE_MESSAGE })
+  role?: WorkspaceRole;
+}
+
+export class WorkspaceResponseDto {
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000' })
+  id: string;
+
+  @ApiProperty({ example: 'Finance team' })
+  name: string;
+
+  @ApiProperty({
+    description: "Whether this is the caller's personal workspace",
+  })
+  personal: boolean;
+
+  @ApiProperty({
+    description: 'Role of the caller in the workspace',
+    enum: WorkspaceRole,
+  })
+  role: WorkspaceRole;
+
+  @ApiProperty({ example: 3 })
+  memberCount: number;
+
+  @ApiProperty()
+  createdAt: Date;
+}
+
+export class WorkspaceMemberResponseDto {
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000' })
+  userId: string;
+
+  @ApiProperty({ example: 'user@example.com' })
+  email: string;
+
+  @ApiPropertyOptional({ example: 'John' })
+  firstName?: string;
+
+  @ApiPropertyOptional({ example: 'Doe' })
+  lastName?: string;
+
+  @ApiProperty({ enum: WorkspaceRole })
+  role: WorkspaceRole;
+
+  @ApiProperty()
+  joinedAt: Date;
+}
+
+export class WorkspaceInvitationResponseDto {
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000' })
+  id: string;
+
+  @ApiProperty()
+  workspaceId: string;
+
+  @ApiProperty({ example: 'Finance team' })
+  workspaceName: string;
+
+  @ApiProperty({ description: 'Email of the invited user' })
+  email: string;
+
+  @ApiProperty({ enum: WorkspaceRole })
+  role: WorkspaceRole;
+
+  @ApiPropertyOptional({ description: 'Email of the admin who sent it' })
+  invitedBy?: string;
+
+  @ApiProperty()
+  createdAt: Date;
+}
@@ -0,0 +1,78 @@
+/**
+ * workspace-invitation.entity.ts - Workspace Invitation Database Entity
+ *
+ * This file defines the database table structure for workspace invitations.
+ * TypeORM uses this class to create and manage the 'workspace_invitations' table.
+ *
+ * An invitation asks an existing user to join a workspace with a given role.
+ * Only pending invitations are stored: accepting one turns it into a membership,
+ * declining or revoking it deletes it.
+ */
+
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+import { WorkspaceRole } from './workspace-member.entity';
+
+/**
+ * @Entity('workspace_invitations') - Maps this class to 'workspace_invitations' table
+ * TypeORM will create this table automatically when synchronize is enabled
+ */
+@Entity('workspace_invitations')
+@Index(['workspaceId', 'userId'], { unique: true }) // One pending invitation per user and workspace
+export class WorkspaceInvitationEntity {
+  /**
+   * Primary Key - Auto-generated UUID
+   */
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /**
+   * Workspace ID Column
+   * References the workspace the user is invited to
+   * Type: VARCHAR(36) - UUID string
+   */
+  @Column({ type: 'varchar', length: 36 })
+  workspaceId: string;
+
+  /**
+   * User ID Column
+   * References the invited user
+   * Type: VARCHAR(36) - UUID string
+   */
+  @Column({ type: 'varchar', length: 36 })
+  @Index()
+  userId: string;
+
+  /**
+   * Role Column
+   * Role the user gets in the workspace when accepting
+   * Type: ENUM - Only allows specific values
+   */
+  @Column({
+    type: 'enum',
+    enum: WorkspaceRole,
+    default: WorkspaceRole.EDITOR,
+  })
+  role: WorkspaceRole;
+
+  /**
+   * Invited By Column
+   * The workspace admin who sent the invitation
+   * Type: VARCHAR(36) - UUID string
+   */
+  @Column({ type: 'varchar', length: 36 })
+  invitedBy: string;
+
+  /**
+   * Created At Column
+   * Automatically set when the invitation is sent
+   * Type: TIMESTAMP
+   */
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,80 @@
+/**
+ * workspace-member.entity.ts - Workspace Member Database Entity
+ *
+ * This file defines the database table structure for workspace memberships.
+ * TypeORM uses this class to create and manage the 'workspace_members' table.
+ *
+ * Each row lets one user into one workspace with a role in that workspace.
+ */
+
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+/**
+ * Workspace Roles
+ * Defines what a member may do in one workspace (checked by WorkspaceGuard on routes marked with @WorkspaceRoles())
+ * - admin: everything, including inviting members, changing their roles and renaming the workspace
+ * - editor: upload files and change or delete the workspace's data
+ * - viewer: read the workspace's data only
+ */
+export enum WorkspaceRole {
+  ADMIN = 'admin',
+  EDITOR = 'editor',
+  VIEWER = 'viewer',
+}
+
+/**
+ * @Entity('workspace_members') - Maps this class to 'workspace_members' table
+ * TypeORM will create this table automatically when synchronize is enabled
+ */
+@Entity('workspace_members')
+@Index(['workspaceId', 'userId'], { unique: true }) // A user is a member at most once
+export class WorkspaceMemberEntity {
+  /**
+   * Primary Key - Auto-generated UUID
+   */
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /**
+   * Workspace ID Column
+   * References the workspace
+   * Type: VARCHAR(36) - UUID string
+   */
+  @Column({ type: 'varchar', length: 36 })
+  workspaceId: string;
+
+  /**
+   * User ID Column
+   * References the member
+   * Type: VARCHAR(36) - UUID string
+   */
+  @Column({ type: 'varchar', length: 36 })
+  @Index()
+  userId: string;
+
+  /**
+   * Role Column
+   * What the member may do in the workspace (see WorkspaceRole)
+   * Type: ENUM - Only allows specific values
+   */
+  @Column({
+    type: 'enum',
+    enum: WorkspaceRole,
+    default: WorkspaceRole.EDITOR,
+  })
+  role: WorkspaceRole;
+
+  /**
+   * Joined At Column
+   * Automatically set when the user joins (creates the workspace or accepts an invitation)
+   * Type: TIMESTAMP
+   */
+  @CreateDateColumn()
+  joinedAt: Date;
+}
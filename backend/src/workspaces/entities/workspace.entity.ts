@@ -0,0 +1,73 @@
+/**
+ * workspace.entity.ts - Workspace Database Entity
+ *
+ * This file defines the database table structure for workspaces.
+ * TypeORM uses this class to create and manage the 'workspaces' table.
+ *
+ * A workspace is a shared library of uploads, datasets, import templates and
+ * audit logs. Its members (see workspace-member.entity.ts) all see its data;
+ * what each of them may change depends on their role in the workspace.
+ */
+
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+/**
+ * @Entity('workspaces') - Maps this class to 'workspaces' table
+ * TypeORM will create this table automatically when synchronize is enabled
+ */
+@Entity('workspaces')
+export class WorkspaceEntity {
+  /**
+   * Primary Key - Auto-generated UUID
+   */
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /**
+   * Name Column
+   * Shown in the workspace switcher
+   * Type: VARCHAR(100)
+   */
+  @Column({ type: 'varchar', length: 100 })
+  name: string;
+
+  /**
+   * Personal Column
+   * Whether this is the workspace created for its creator when they registered
+   * (the one used when no workspace is picked). Other members can still be invited.
+   */
+  @Column({ type: 'boolean', default: false })
+  personal: boolean;
+
+  /**
+   * Created By Column
+   * The user who created the workspace (for a personal workspace: the user it belongs to)
+   * Type: VARCHAR(36) - UUID string
+   */
+  @Column({ type: 'varchar', length: 36 })
+  @Index()
+  createdBy: string;
+
+  /**
+   * Created At Column
+   * Automatically set when the workspace is created
+   * Type: TIMESTAMP
+   */
+  @CreateDateColumn()
+  createdAt: Date;
+
+  /**
+   * Updated At Column
+   * Automatically updated when the workspace is renamed
+   * Type: TIMESTAMP
+   */
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
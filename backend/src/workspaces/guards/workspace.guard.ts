@@ -0,0 +1,59 @@
+/**
+ * workspace.guard.ts - Workspace Guard
+ *
+ * Guard that resolves the workspace a request works in and checks the caller's role there.
+ * Runs after JwtAuthGuard, which sets the user: @UseGuards(JwtAuthGuard, WorkspaceGuard).
+ *
+ * The workspace is taken from the X-Workspace-Id header (the caller's oldest
+ * membership, normally their personal workspace, if not sent). The guard sets
+ * user.workspaceId and user.workspaceRole for the route, and lets only members
+ * with one of the roles given by @WorkspaceRoles() through.
+ */
+
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { WORKSPACE_ROLES_KEY } from '../decorators/workspace-roles.decorator';
+import { WorkspaceRole } from '../entities/workspace-member.entity';
+import { WorkspacesService } from '../workspaces.service';
+
+export const WORKSPACE_HEADER = 'x-workspace-id';
+
+@Injectable()
+export class WorkspaceGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private workspacesService: WorkspacesService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest();
+    const user = request.user;
+    if (!user) {
+      throw new ForbiddenException('No workspace without a logged-in user');
+    }
+
+    const header = request.headers[WORKSPACE_HEADER];
+    const membership = await this.workspacesService.resolveMembership(
+      user.id,
+      typeof header === 'string' && header ? header : undefined,
+    );
+    user.workspaceId = membership.workspaceId;
+    user.workspaceRole = membership.role;
+
+    const roles = this.reflector.getAllAndOverride<WorkspaceRole[]>(
+      WORKSPACE_ROLES_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    if (roles && roles.length > 0 && !roles.includes(membership.role)) {
+      throw new ForbiddenException(
+        `This action requires the ${roles.join(' or ')} role in this workspace`,
+      );
+    }
+    return true;
+  }
+}
@@ -0,0 +1,389 @@
+/**
+ * workspaces.controller.ts - Workspaces Controller
+ *
+ * Handles HTTP requests for workspaces, their members and invitations:
+ * - GET /workspaces - List the caller's workspaces
+ * - POST /workspaces - Create a workspace
+ * - PATCH /workspaces/:id - Rename a workspace
+ * - GET /workspaces/:id/members - List members
+ * - PATCH /workspaces/:id/members/:userId - Change a member's role
+ * - DELETE /workspaces/:id/members/:userId - Remove a member (or leave)
+ * - GET/POST /workspaces/:id/invitations - List or send invitations
+ * - DELETE /workspaces/:id/invitations/:invitationId - Revoke an invitation
+ * - GET /workspaces/invitations - List invitations sent to the caller
+ * - POST /workspaces/invitations/:id/accept|decline - Answer an invitation
+ */
+
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Param,
+  Body,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+  ApiBody,
+} from '@nestjs/swagger';
+import { WorkspacesService } from './workspaces.service';
+import {
+  CreateWorkspaceDto,
+  UpdateWorkspaceDto,
+  UpdateMemberRoleDto,
+  CreateInvitationDto,
+  WorkspaceResponseDto,
+  WorkspaceMemberResponseDto,
+  WorkspaceInvitationResponseDto,
+} from './dto/workspace.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AuthenticatedUser } from '../auth/strategies/jwt.strategy';
+import {
+  ThrottleLenient,
+  ThrottleModerate,
+} from '../common/decorators/throttle.decorator';
+
+@ApiTags('workspaces')
+@ApiBearerAuth()
+@Controller('workspaces')
+@UseGuards(JwtAuthGuard)
+export class WorkspacesController {
+  constructor(private readonly workspacesService: WorkspacesService) {}
+
+  /**
+   * GET /workspaces
+   * List the workspaces the caller is a member of
+   */
+  @Get()
+  @ThrottleLenient() // Lenient rate limit: 100 requests per minute
+  @ApiOperation({
+    summary: 'List my workspaces',
+    description:
+      "Lists the workspaces the caller is a member of with the caller's role in each, personal workspace first.",
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Workspaces retrieved successfully',
+    type: [WorkspaceResponseDto],
+  })
+  async findAll(
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<WorkspaceResponseDto[]> {
+    return this.workspacesService.findAllForUser(user.id);
+  }
+
+  /**
+   * POST /workspaces
+   * Create a workspace; the caller becomes its admin
+   */
+  @Post()
+  @ThrottleModerate() // Moderate rate limit: 10 requests per minute
+  @ApiOperation({
+    summary: 'Create a workspace',
+    description: 'Creates a shared workspace with the caller as its admin.',
+  })
+  @ApiBody({ type: CreateWorkspaceDto })
+  @ApiResponse({
+    status: 201,
+    description: 'Workspace created',
+    type: WorkspaceResponseDto,
+  })
+  async create(
+    @Body() createDto: CreateWorkspaceDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<WorkspaceResponseDto> {
+    return this.workspacesService.create(user.id, createDto.name);
+  }
+
+  /**
+   * GET /workspaces/invitations
+   * List the invitations sent to the caller
+   */
+  @Get('invitations')
+  @ThrottleLenient() // Lenient rate limit: 100 requests per minute
+  @ApiOperation({
+    summary: 'List my invitations',
+    description:
+      'Lists the pending invitations sent to the caller, newest first.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Invitations retrieved successfully',
+    type: [WorkspaceInvitationResponseDto],
+  })
+  async findMyInvitations(
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<WorkspaceInvitationResponseDto[]> {
+    return this.workspacesService.findInvitationsForUser(user.id);
+  }
+
+  /**
+   * POST /workspaces/invitations/:id/accept
+   * Join the workspace of an invitation
+   */
+  @Post('invitations/:id/accept')
+  @HttpCode(HttpStatus.OK)
+  @ThrottleModerate() // Moderate rate limit: 10 requests per minute
+  @ApiOperation({
+    summary: 'Accept an invitation',
+    description: 'Joins the workspace with the role given in the invitation.',
+  })
+  @ApiParam({ name: 'id', description: 'Invitation ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Joined the workspace',
+    type: WorkspaceResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Invitation not found' })
+  async acceptInvitation(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<WorkspaceResponseDto> {
+    return this.workspacesService.acceptInvitation(id, user.id);
+  }
+
+  /**
+   * POST /workspaces/invitations/:id/decline
+   * Decline an invitation
+   */
+  @Post('invitations/:id/decline')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ThrottleModerate() // Moderate rate limit: 10 requests per minute
+  @ApiOperation({ summary: 'Decline an invitation' })
+  @ApiParam({ name: 'id', description: 'Invitation ID' })
+  @ApiResponse({ status: 204, description: 'Invitation declined' })
+  @ApiResponse({ status: 404, description: 'Invitation not found' })
+  async declineInvitation(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<void> {
+    await this.workspacesService.declineInvitation(id, user.id);
+  }
+
+  /**
+   * PATCH /workspaces/:id
+   * Rename a workspace
+   */
+  @Patch(':id')
+  @ThrottleModerate() // Moderate rate limit: 10 requests per minute
+  @ApiOperation({
+    summary: 'Rename a workspace',
+    description: 'Workspace admins only.',
+  })
+  @ApiParam({ name: 'id', description: 'Workspace ID' })
+  @ApiBody({ type: UpdateWorkspaceDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Workspace renamed',
+    type: WorkspaceResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Workspace admins only',
+  })
+  @ApiResponse({ status: 404, description: 'Workspace not found' })
+  async rename(
+    @Param('id') id: string,
+    @Body() updateDto: UpdateWorkspaceDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<WorkspaceResponseDto> {
+    return this.workspacesService.rename(id, user.id, updateDto.name);
+  }
+
+  /**
+   * GET /workspaces/:id/members
+   * List the members of a workspace
+   */
+  @Get(':id/members')
+  @ThrottleLenient() // Lenient rate limit: 100 requests per minute
+  @ApiOperation({
+    summary: 'List members',
+    description:
+      'Lists the members of a workspace with their roles. Any member may.',
+  })
+  @ApiParam({ name: 'id', description: 'Workspace ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Members retrieved successfully',
+    type: [WorkspaceMemberResponseDto],
+  })
+  @ApiResponse({ status: 404, description: 'Workspace not found' })
+  async findMembers(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<WorkspaceMemberResponseDto[]> {
+    return this.workspacesService.findMembers(id, user.id);
+  }
+
+  /**
+   * PATCH /workspaces/:id/members/:userId
+   * Change a member's role
+   */
+  @Patch(':id/members/:userId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ThrottleModerate() // Moderate rate limit: 10 requests per minute
+  @ApiOperation({
+    summary: "Change a member's role",
+    description:
+      'Sets the role of a member in the workspace. The last admin cannot be demoted. Workspace admins only.',
+  })
+  @ApiParam({ name: 'id', description: 'Workspace ID' })
+  @ApiParam({ name: 'userId', description: 'User ID of the member' })
+  @ApiBody({ type: UpdateMemberRoleDto })
+  @ApiResponse({ status: 204, description: 'Role changed' })
+  @ApiResponse({ status: 400, description: 'This would leave no admin' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Workspace admins only',
+  })
+  @ApiResponse({ status: 404, description: 'Workspace or member not found' })
+  async updateMemberRole(
+    @Param('id') id: string,
+    @Param('userId') memberUserId: string,
+    @Body() updateDto: UpdateMemberRoleDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<void> {
+    await this.workspacesService.updateMemberRole(
+      id,
+      user.id,
+      memberUserId,
+      updateDto.role,
+    );
+  }
+
+  /**
+   * DELETE /workspaces/:id/members/:userId
+   * Remove a member, or leave the workspace (the caller's own user ID)
+   */
+  @Delete(':id/members/:userId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ThrottleModerate() // Moderate rate limit: 10 requests per minute
+  @ApiOperation({
+    summary: 'Remove a member',
+    description:
+      'Removes a member from the workspace (workspace admins only), or leaves it when userId is the caller. The last admin cannot be removed. Their uploads stay in the workspace.',
+  })
+  @ApiParam({ name: 'id', description: 'Workspace ID' })
+  @ApiParam({ name: 'userId', description: 'User ID of the member' })
+  @ApiResponse({ status: 204, description: 'Member removed' })
+  @ApiResponse({ status: 400, description: 'This would leave no admin' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Workspace admins only',
+  })
+  @ApiResponse({ status: 404, description: 'Workspace or member not found' })
+  async removeMember(
+    @Param('id') id: string,
+    @Param('userId') memberUserId: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<void> {
+    await this.workspacesService.removeMember(id, user.id, memberUserId);
+  }
+
+  /**
+   * GET /workspaces/:id/invitations
+   * List the pending invitations of a workspace
+   */
+  @Get(':id/invitations')
+  @ThrottleLenient() // Lenient rate limit: 100 requests per minute
+  @ApiOperation({
+    summary: 'List pending invitations',
+    description: 'Workspace admins only.',
+  })
+  @ApiParam({ name: 'id', description: 'Workspace ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Invitations retrieved successfully',
+    type: [WorkspaceInvitationResponseDto],
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Workspace admins only',
+  })
+  @ApiResponse({ status: 404, description: 'Workspace not found' })
+  async findInvitations(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<WorkspaceInvitationResponseDto[]> {
+    return this.workspacesService.findInvitations(id, user.id);
+  }
+
+  /**
+   * POST /workspaces/:id/invitations
+   * Invite an existing user by email
+   */
+  @Post(':id/invitations')
+  @ThrottleModerate() // Moderate rate limit: 10 requests per minute
+  @ApiOperation({
+    summary: 'Invite a user',
+    description:
+      'Invites a registered user to the workspace with a role (default: editor). They join when they accept. Workspace admins only.',
+  })
+  @ApiParam({ name: 'id', description: 'Workspace ID' })
+  @ApiBody({ type: CreateInvitationDto })
+  @ApiResponse({
+    status: 201,
+    description: 'Invitation sent',
+    type: WorkspaceInvitationResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'The user is already a member or invited',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Workspace admins only',
+  })
+  @ApiResponse({ status: 404, description: 'Workspace or user not found' })
+  async invite(
+    @Param('id') id: string,
+    @Body() createDto: CreateInvitationDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<WorkspaceInvitationResponseDto> {
+    return this.workspacesService.invite(
+      id,
+      user.id,
+      createDto.email,
+      createDto.role,
+    );
+  }
+
+  /**
+   * DELETE /workspaces/:id/invitations/:invitationId
+   * Revoke a pending invitation
+   */
+  @Delete(':id/invitations/:invitationId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ThrottleModerate() // Moderate rate limit: 10 requests per minute
+  @ApiOperation({
+    summary: 'Revoke an invitation',
+    description: 'Workspace admins only.',
+  })
+  @ApiParam({ name: 'id', description: 'Workspace ID' })
+  @ApiParam({ name: 'invitationId', description: 'Invitation ID' })
+  @ApiResponse({ status: 204, description: 'Invitation revoked' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Workspace admins only',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Workspace or invitation not found',
+  })
+  async revokeInvitation(
+    @Param('id') id: string,
+    @Param('invitationId') invitationId: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<void> {
+    await this.workspacesService.revokeInvitation(id, user.id, invitationId);
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * workspaces.module.ts - Workspaces Module
+ *
+ * This module groups workspaces, their memberships and invitations.
+ * It exports WorkspacesService so WorkspaceGuard can be used by other modules'
+ * controllers, and so new users get a personal workspace when they register.
+ */
+
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { WorkspacesController } from './workspaces.controller';
+import { WorkspacesService } from './workspaces.service';
+import { WorkspaceEntity } from './entities/workspace.entity';
+import { WorkspaceMemberEntity } from './entities/workspace-member.entity';
+import { WorkspaceInvitationEntity } from './entities/workspace-invitation.entity';
+import { UserEntity } from '../auth/entities/user.entity';
+
+@Module({
+  imports: [
+    // Make the workspace repositories and UserEntity (for invitations by email) available
+    TypeOrmModule.forFeature([
+      WorkspaceEntity,
+      WorkspaceMemberEntity,
+      WorkspaceInvitationEntity,
+      UserEntity,
+    ]),
+  ],
+  controllers: [WorkspacesController],
+  providers: [WorkspacesService],
+  exports: [WorkspacesService],
+})
+export class WorkspacesModule {}
@@ -0,0 +1,567 @@
+/**
+ * workspaces.service.ts - Workspaces Service
+ *
+ * This service handles workspaces and who may use them:
+ * - Creating workspaces (every user gets a personal one) and renaming them
+ * - Resolving the workspace a request works in (used by WorkspaceGuard)
+ * - Listing members and changing or removing them (there is always at least one admin)
+ * - Inviting existing users and accepting, declining or revoking invitations
+ */
+
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { WorkspaceEntity } from './entities/workspace.entity';
+import {
+  WorkspaceMemberEntity,
+  WorkspaceRole,
+} from './entities/workspace-member.entity';
+import { WorkspaceInvitationEntity } from './entities/workspace-invitation.entity';
+import { UserEntity } from '../auth/entities/user.entity';
+import {
+  WorkspaceResponseDto,
+  WorkspaceMemberResponseDto,
+  WorkspaceInvitationResponseDto,
+} from './dto/workspace.dto';
+
+@Injectable()
+export class WorkspacesService {
+  private readonly logger = new Logger(WorkspacesService.name);
+
+  constructor(
+    @InjectRepository(WorkspaceEntity)
+    private readonly workspaceRepository: Repository<WorkspaceEntity>,
+    @InjectRepository(WorkspaceMemberEntity)
+    private readonly memberRepository: Repository<WorkspaceMemberEntity>,
+    @InjectRepository(WorkspaceInvitationEntity)
+    private readonly invitationRepository: Repository<WorkspaceInvitationEntity>,
+    @InjectRepository(UserEntity)
+    private readonly userRepository: Repository<UserEntity>,
+  ) {}
+
+  /**
+   * Create a user's personal workspace, with the user as its admin
+   * @param user - The user (called when they register)
+   * @returns The new workspace
+   */
+  async createPersonalWorkspace(
+    user: Pick<UserEntity, 'id' | 'email' | 'firstName'>,
+  ): Promise<WorkspaceEntity> {
+    const name = `${user.firstName || user.email.split('@')[0]}'s workspace`;
+    return this.createWorkspace(user.id, name.slice(0, 100), true);
+  }
+
+  /**
+   * Give every user without a personal workspace one
+   * (users registered before workspaces existed). Called on startup.
+   */
+  async createMissingPersonalWorkspaces(): Promise<void> {
+    const users = await this.userRepository
+      .createQueryBuilder('user')
+      .where(
+        `NOT EXISTS (SELECT 1 FROM workspaces workspace WHERE workspace.personal = true AND workspace."createdBy" = CAST("user".id AS varchar))`,
+      )
+      .getMany();
+
+    for (const user of users) {
+      await this.createPersonalWorkspace(user);
+    }
+    if (users.length > 0) {
+      this.logger.log(
+        `Created personal workspaces for ${users.length} user(s)`,
+      );
+    }
+  }
+
+  /**
+   * Find the membership a request works with
+   * @param userId - The caller
+   * @param workspaceId - Requested workspace (the caller's oldest membership if not given)
+   * @returns The caller's membership in the workspace
+   * @throws ForbiddenException if the caller is not a member
+   */
+  async resolveMembership(
+    userId: string,
+    workspaceId?: string,
+  ): Promise<WorkspaceMemberEntity> {
+    const [membership] = await this.memberRepository.find({
+      where: { userId, workspaceId },
+      order: { joinedAt: 'ASC' },
+      take: 1,
+    });
+    if (!membership) {
+      throw new ForbiddenException(
+        workspaceId
+          ? 'You are not a member of this workspace'
+          : 'You are not a member of any workspace',
+      );
+    }
+    return membership;
+  }
+
+  /**
+   * List the workspaces a user is a member of, oldest membership first
+   * @param userId - The user
+   * @returns Workspaces with the user's role in each
+   */
+  async findAllForUser(userId: string): Promise<WorkspaceResponseDto[]> {
+    const memberships = await this.memberRepository.find({
+      where: { userId },
+      order: { joinedAt: 'ASC' },
+    });
+    if (memberships.length === 0) {
+      return [];
+    }
+
+    const workspaceIds = memberships.map(
+      (membership) => membership.workspaceId,
+    );
+    const workspaces = await this.workspaceRepository.find({
+      where: { id: In(workspaceIds) },
+    });
+    const counts: Array<{ workspaceId: string; count: string }> =
+      await this.memberRepository
+        .createQueryBuilder('member')
+        .select('member.workspaceId', 'workspaceId')
+        .addSelect('COUNT(*)', 'count')
+        .where('member.workspaceId IN (:...workspaceIds)', { workspaceIds })
+        .groupBy('member.workspaceId')
+        .getRawMany();
+    const workspacesById = new Map(
+      workspaces.map((workspace) => [workspace.id, workspace]),
+    );
+    const countsById = new Map(
+      counts.map((row) => [row.workspaceId, Number(row.count)]),
+    );
+
+    return memberships
+      .filter((membership) => workspacesById.has(membership.workspaceId))
+      .map((membership) =>
+        this.toResponse(
+          workspacesById.get(membership.workspaceId),
+          membership,
+          countsById.get(membership.workspaceId) ?? 1,
+        ),
+      );
+  }
+
+  /**
+   * Create a shared workspace
+   * @param userId - The creator, who becomes its admin
+   * @param name - Workspace name
+   * @returns The new workspace
+   */
+  async create(userId: string, name: string): Promise<WorkspaceResponseDto> {
+    const workspace = await this.createWorkspace(userId, name.trim(), false);
+    return this.toResponse(workspace, { userId, role: WorkspaceRole.ADMIN }, 1);
+  }
+
+  /**
+   * Rename a workspace (workspace admins only)
+   * @param id - Workspace ID
+   * @param userId - The caller
+   * @param name - New name
+   * @returns The renamed workspace
+   */
+  async rename(
+    id: string,
+    userId: string,
+    name: string,
+  ): Promise<WorkspaceResponseDto> {
+    const membership = await this.requireMember(id, userId, [
+      WorkspaceRole.ADMIN,
+    ]);
+    await this.workspaceRepository.update(id, { name: name.trim() });
+    const workspace = await this.workspaceRepository.findOne({ where: { id } });
+    const memberCount = await this.memberRepository.count({
+      where: { workspaceId: id },
+    });
+    return this.toResponse(workspace, membership, memberCount);
+  }
+
+  /**
+   * List the members of a workspace (any member may)
+   * @param id - Workspace ID
+   * @param userId - The caller
+   * @returns Members, in the order they joined
+   */
+  async findMembers(
+    id: string,
+    userId: string,
+  ): Promise<WorkspaceMemberResponseDto[]> {
+    await this.requireMember(id, userId);
+    const members = await this.memberRepository.find({
+      where: { workspaceId: id },
+      order: { joinedAt: 'ASC' },
+    });
+    const users = await this.findUsers(members.map((member) => member.userId));
+
+    return members
+      .filter((member) => users.has(member.userId))
+      .map((member) => {
+        const user = users.get(member.userId);
+        return {
+          userId: member.userId,
+          email: user.email,
+          firstName: user.firstName,
+          lastName: user.lastName,
+          role: member.role,
+          joinedAt: member.joinedAt,
+        };
+      });
+  }
+
+  /**
+   * Change a member's role (workspace admins only)
+   * @param id - Workspace ID
+   * @param userId - The caller
+   * @param memberUserId - The member whose role changes
+   * @param role - New role
+   * @throws NotFoundException if the user is not a member
+   * @throws BadRequestException if this would leave the workspace without an admin
+   */
+  async updateMemberRole(
+    id: string,
+    userId: string,
+    memberUserId: string,
+    role: WorkspaceRole,
+  ): Promise<void> {
+    await this.requireMember(id, userId, [WorkspaceRole.ADMIN]);
+    const member = await this.memberRepository.findOne({
+      where: { workspaceId: id, userId: memberUserId },
+    });
+    if (!member) {
+      throw new NotFoundException('Member not found');
+    }
+
+    if (member.role === WorkspaceRole.ADMIN && role !== WorkspaceRole.ADMIN) {
+      await this.ensureAnotherAdmin(id);
+    }
+    await this.memberRepository.update(member.id, { role });
+  }
+
+  /**
+   * Remove a member from a workspace (workspace admins, or the member leaving)
+   * @param id - Workspace ID
+   * @param userId - The caller
+   * @param memberUserId - The member to remove
+   * @throws NotFoundException if the user is not a member
+   * @throws BadRequestException if this would leave the workspace without an admin
+   */
+  async removeMember(
+    id: string,
+    userId: string,
+    memberUserId: string,
+  ): Promise<void> {
+    await this.requireMember(
+      id,
+      userId,
+      userId === memberUserId ? undefined : [WorkspaceRole.ADMIN],
+    );
+    const member = await this.memberRepository.findOne({
+      where: { workspaceId: id, userId: memberUserId },
+    });
+    if (!member) {
+      throw new NotFoundException('Member not found');
+    }
+
+    if (member.role === WorkspaceRole.ADMIN) {
+      await this.ensureAnotherAdmin(id);
+    }
+    await this.memberRepository.delete(member.id);
+  }
+
+  /**
+   * List the pending invitations of a workspace (workspace admins only)
+   * @param id - Workspace ID
+   * @param userId - The caller
+   * @returns Invitations, newest first
+   */
+  async findInvitations(
+    id: string,
+    userId: string,
+  ): Promise<WorkspaceInvitationResponseDto[]> {
+    await this.requireMember(id, userId, [WorkspaceRole.ADMIN]);
+    const invitations = await this.invitationRepository.find({
+      where: { workspaceId: id },
+      order: { createdAt: 'DESC' },
+    });
+    return this.toInvitationResponses(invitations);
+  }
+
+  /**
+   * Invite an existing user to a workspace (workspace admins only)
+   * @param id - Workspace ID
+   * @param userId - The caller
+   * @param email - Email of the user to invite
+   * @param role - Role the user gets when accepting
+   * @returns The invitation
+   * @throws NotFoundException if no user has this email
+   * @throws BadRequestException if the user is already a member or invited
+   */
+  async invite(
+    id: string,
+    userId: string,
+    email: string,
+    role: WorkspaceRole = WorkspaceRole.EDITOR,
+  ): Promise<WorkspaceInvitationResponseDto> {
+    await this.requireMember(id, userId, [WorkspaceRole.ADMIN]);
+    const invitee = await this.userRepository.findOne({ where: { email } });
+    if (!invitee) {
+      throw new NotFoundException(
+        `No user with the email ${email}; they need to register first`,
+      );
+    }
+
+    const isMember = await this.memberRepository.exists({
+      where: { workspaceId: id, userId: invitee.id },
+    });
+    if (isMember) {
+      throw new BadRequestException(`${email} is already a member`);
+    }
+    const isInvited = await this.invitationRepository.exists({
+      where: { workspaceId: id, userId: invitee.id },
+    });
+    if (isInvited) {
+      throw new BadRequestException(`${email} has already been invited`);
+    }
+
+    const invitation = await this.invitationRepository.save(
+      this.invitationRepository.create({
+        workspaceId: id,
+        userId: invitee.id,
+        role,
+        invitedBy: userId,
+      }),
+    );
+    const [response] = await this.toInvitationResponses([invitation]);
+    return response;
+  }
+
+  /**
+   * Revoke a pending invitation (workspace admins only)
+   * @param id - Workspace ID
+   * @param userId - The caller
+   * @param invitationId - Invitation to revoke
+   * @throws NotFoundException if the workspace has no such invitation
+   */
+  async revokeInvitation(
+    id: string,
+    userId: string,
+    invitationId: string,
+  ): Promise<void> {
+    await this.requireMember(id, userId, [WorkspaceRole.ADMIN]);
+    const result = await this.invitationRepository.delete({
+      id: invitationId,
+      workspaceId: id,
+    });
+    if (!result.affected) {
+      throw new NotFoundException('Invitation not found');
+    }
+  }
+
+  /**
+   * List the pending invitations sent to a user
+   * @param userId - The invited user
+   * @returns Invitations, newest first
+   */
+  async findInvitationsForUser(
+    userId: string,
+  ): Promise<WorkspaceInvitationResponseDto[]> {
+    const invitations = await this.invitationRepository.find({
+      where: { userId },
+      order: { createdAt: 'DESC' },
+    });
+    return this.toInvitationResponses(invitations);
+  }
+
+  /**
+   * Accept an invitation: the user joins the workspace with the invited role
+   * @param invitationId - Invitation ID
+   * @param userId - The invited user
+   * @returns The joined workspace
+   * @throws NotFoundException if the user has no such invitation
+   */
+  async acceptInvitation(
+    invitationId: string,
+    userId: string,
+  ): Promise<WorkspaceResponseDto> {
+    const invitation = await this.findInvitationFor(invitationId, userId);
+
+    await this.memberRepository.manager.transaction(async (manager) => {
+      await manager.delete(WorkspaceInvitationEntity, invitation.id);
+      await manager.save(
+        manager.create(WorkspaceMemberEntity, {
+          workspaceId: invitation.workspaceId,
+          userId,
+          role: invitation.role,
+        }),
+      );
+    });
+
+    const workspaces = await this.findAllForUser(userId);
+    return workspaces.find(
+      (workspace) => workspace.id === invitation.workspaceId,
+    );
+  }
+
+  /**
+   * Decline an invitation
+   * @param invitationId - Invitation ID
+   * @param userId - The invited user
+   * @throws NotFoundException if the user has no such invitation
+   */
+  async declineInvitation(invitationId: string, userId: string): Promise<void> {
+    const invitation = await this.findInvitationFor(invitationId, userId);
+    await this.invitationRepository.delete(invitation.id);
+  }
+
+  /**
+   * Create a workspace with the creator as its only member (an admin)
+   */
+  private async createWorkspace(
+    userId: string,
+    name: string,
+    personal: boolean,
+  ): Promise<WorkspaceEntity> {
+    return this.workspaceRepository.manager.transaction(async (manager) => {
+      const workspace = await manager.save(
+        manager.create(WorkspaceEntity, { name, personal, createdBy: userId }),
+      );
+      await manager.save(
+        manager.create(WorkspaceMemberEntity, {
+          workspaceId: workspace.id,
+          userId,
+          role: WorkspaceRole.ADMIN,
+        }),
+      );
+      return workspace;
+    });
+  }
+
+  /**
+   * Find the caller's membership of a workspace, optionally requiring a role
+   * @throws NotFoundException if the caller is not a member (the workspace is not revealed)
+   * @throws ForbiddenException if the caller's role is not one of roles
+   */
+  private async requireMember(
+    workspaceId: string,
+    userId: string,
+    roles?: WorkspaceRole[],
+  ): Promise<WorkspaceMemberEntity> {
+    const membership = await this.memberRepository.findOne({
+      where: { workspaceId, userId },
+    });
+    if (!membership) {
+      throw new NotFoundException('Workspace not found');
+    }
+    if (roles && !roles.includes(membership.role)) {
+      throw new ForbiddenException(
+        `This action requires the ${roles.join(' or ')} role in this workspace`,
+      );
+    }
+    return membership;
+  }
+
+  /**
+   * Make sure a workspace has an admin besides the one being demoted or removed
+   * @throws BadRequestException if it does not
+   */
+  private async ensureAnotherAdmin(workspaceId: string): Promise<void> {
+    const adminCount = await this.memberRepository.count({
+      where: { workspaceId, role: WorkspaceRole.ADMIN },
+    });
+    if (adminCount <= 1) {
+      throw new BadRequestException(
+        'A workspace must keep at least one admin; make another member admin first',
+      );
+    }
+  }
+
+  /**
+   * Find an invitation sent to a user
+   * @throws NotFoundException if there is none
+   */
+  private async findInvitationFor(
+    invitationId: string,
+    userId: string,
+  ): Promise<WorkspaceInvitationEntity> {
+    const invitation = await this.invitationRepository.findOne({
+      where: { id: invitationId, userId },
+    });
+    if (!invitation) {
+      throw new NotFoundException('Invitation not found');
+    }
+    return invitation;
+  }
+
+  /**
+   * Load users by ID, keyed by ID
+   */
+  private async findUsers(ids: string[]): Promise<Map<string, UserEntity>> {
+    if (ids.length === 0) {
+      return new Map();
+    }
+    const users = await this.userRepository.find({ where: { id: In(ids) } });
+    return new Map(users.map((user) => [user.id, user]));
+  }
+
+  /**
+   * Add workspace names and user emails to invitations
+   */
+  private async toInvitationResponses(
+    invitations: WorkspaceInvitationEntity[],
+  ): Promise<WorkspaceInvitationResponseDto[]> {
+    if (invitations.length === 0) {
+      return [];
+    }
+    const workspaces = await this.workspaceRepository.find({
+      where: {
+        id: In([...new Set(invitations.map((item) => item.workspaceId))]),
+      },
+    });
+    const workspaceNames = new Map(
+      workspaces.map((workspace) => [workspace.id, workspace.name]),
+    );
+    const users = await this.findUsers([
+      ...new Set(
+        invitations.flatMap((invitation) => [
+          invitation.userId,
+          invitation.invitedBy,
+        ]),
+      ),
+    ]);
+
+    return invitations.map((invitation) => ({
+      id: invitation.id,
+      workspaceId: invitation.workspaceId,
+      workspaceName: workspaceNames.get(invitation.workspaceId),
+      email: users.get(invitation.userId)?.email,
+      role: invitation.role,
+      invitedBy: users.get(invitation.invitedBy)?.email,
+      createdAt: invitation.createdAt,
+    }));
+  }
+
+  private toResponse(
+    workspace: WorkspaceEntity,
+    membership: Pick<WorkspaceMemberEntity, 'userId' | 'role'>,
+    memberCount: number,
+  ): WorkspaceResponseDto {
+    return {
+      id: workspace.id,
+      name: workspace.name,
+      // Someone else's personal workspace is a shared one to its other members
+      personal: workspace.personal && workspace.createdBy === membership.userId,
+      role: membership.role,
+      memberCount,
+      createdAt: workspace.createdAt,
+    };
+  }
+}
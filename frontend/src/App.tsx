@@ -4,10 +4,16 @@ import CsvPreview from './components/CsvPreview'
 import UploadHistory from './components/UploadHistory'
 import StatisticsDashboard from './components/StatisticsDashboard'
 import AuditLogs from './components/AuditLogs'
+import UserManagement from './components/UserManagement'
+import WorkspaceManagement from './components/WorkspaceManagement'
+import SessionManagement from './components/SessionManagement'
+import CustomDropdown from './components/CustomDropdown'
 import Login from './components/Login'
 import Register from './components/Register'
+import SharedUploadView from './components/SharedUploadView'
 import { ToastProvider } from './contexts/ToastContext'
 import { AuthProvider, useAuth } from './contexts/AuthContext'
+import { WorkspaceProvider, useWorkspace } from './contexts/WorkspaceContext'
 import { CsvData, UploadRecord } from './types'
 
 function AppContent() {
@@ -17,9 +23,15 @@ function AppContent() {
   const [showHistory, setShowHistory] = useState(false)
   const [showStatistics, setShowStatistics] = useState(false)
   const [showAuditLogs, setShowAuditLogs] = useState(false)
+  const [showUsers, setShowUsers] = useState(false)
+  const [showWorkspace, setShowWorkspace] = useState(false)
+  const [showSessions, setShowSessions] = useState(false)
   const [darkMode, setDarkMode] = useState(false)
   const [showLogin, setShowLogin] = useState(true)
-  const { user, isAuthenticated, isLoading, logout } = useAuth()
+  const { user, isAuthenticated, isLoading: authLoading, logout, isAdmin } = useAuth()
+  // Viewers of the active workspace cannot upload either
+  const { workspaces, activeWorkspace, isLoading: workspacesLoading, switchWorkspace, canEdit } = useWorkspace()
+  const isLoading = authLoading || workspacesLoading
 
   const handleUploadSuccess = (data: CsvData) => {
     setCsvData(data)
@@ -42,6 +54,16 @@ function AppContent() {
     setShowHistory(false)
     setShowStatistics(false)
     setShowAuditLogs(false)
+    setShowUsers(false)
+    setShowWorkspace(false)
+    setShowSessions(false)
+  }
+
+  const handleWorkspaceChange = (id: string) => {
+    // Data of the previous workspace (including an open preview) no longer applies
+    switchWorkspace(id)
+    setCsvData(null)
+    setError(null)
   }
 
   const handleUploadClick = (upload: UploadRecord) => {
@@ -112,6 +134,21 @@ function AppContent() {
           {/* Header with Dark Mode Toggle and User Info */}
           <header className="text-center mb-8 relative">
             <div className="absolute top-0 right-0 flex items-center gap-3">
+              {/* Workspace Switcher */}
+              {user && workspaces.length > 0 && (
+                <CustomDropdown
+                  options={workspaces.map((workspace) => ({
+                    value: workspace.id,
+                    label: workspace.personal ? `${workspace.name} (personal)` : workspace.name,
+                  }))}
+                  value={activeWorkspace?.id || ''}
+                  onChange={(value) => handleWorkspaceChange(String(value))}
+                  placeholder="Workspace"
+                  darkMode={darkMode}
+                  className="w-56"
+                />
+              )}
+
               {/* User Info */}
               {user && (
                 <div className={`flex items-center gap-2 px-4 py-2 rounded-xl ${
@@ -122,7 +159,7 @@ function AppContent() {
                       {user.firstName || user.email.split('@')[0]}
                     </p>
                     <p className={`text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
-                      {user.email}
+                      {user.email} • <span className="capitalize">{user.role}</span>
                     </p>
                   </div>
                   <div className={`w-8 h-8 rounded-full flex items-center justify-center ${
@@ -188,15 +225,43 @@ function AppContent() {
 
           {/* Navigation Buttons */}
           <div className="mb-6 flex justify-center gap-3 flex-wrap">
+            {/* Viewers cannot upload */}
+            {canEdit && (
+              <button
+                onClick={() => {
+                  setShowHistory(false);
+                  setShowStatistics(false);
+                  setShowAuditLogs(false);
+                  setShowUsers(false);
+                  setShowWorkspace(false);
+                  setShowSessions(false);
+                  setCsvData(null);
+                }}
+                className={`px-6 py-3 rounded-xl font-semibold transition-smooth hover-lift ${
+                  !showHistory && !showStatistics && !showAuditLogs && !showUsers && !showWorkspace && !showSessions && !csvData
+                    ? darkMode
+                      ? 'bg-gradient-to-r from-indigo-600 to-purple-600 text-white shadow-lg shadow-indigo-500/50'
+                      : 'bg-gradient-to-r from-indigo-600 to-purple-600 text-white shadow-lg shadow-indigo-500/30'
+                    : darkMode
+                      ? 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                      : 'bg-white text-gray-700 hover:bg-gray-50 shadow-md'
+                }`}
+              >
+                Upload CSV
+              </button>
+            )}
             <button
               onClick={() => {
-                setShowHistory(false);
+                setShowHistory(true);
                 setShowStatistics(false);
                 setShowAuditLogs(false);
+                setShowUsers(false);
+                setShowWorkspace(false);
+                setShowSessions(false);
                 setCsvData(null);
               }}
               className={`px-6 py-3 rounded-xl font-semibold transition-smooth hover-lift ${
-                !showHistory && !showStatistics && !showAuditLogs && !csvData
+                (showHistory || !canEdit) && !showStatistics && !showAuditLogs && !showUsers && !showWorkspace && !showSessions
                   ? darkMode
                     ? 'bg-gradient-to-r from-indigo-600 to-purple-600 text-white shadow-lg shadow-indigo-500/50'
                     : 'bg-gradient-to-r from-indigo-600 to-purple-600 text-white shadow-lg shadow-indigo-500/30'
@@ -205,17 +270,20 @@ function AppContent() {
                     : 'bg-white text-gray-700 hover:bg-gray-50 shadow-md'
               }`}
             >
-              Upload CSV
+              Data Imports
             </button>
             <button
               onClick={() => {
-                setShowHistory(true);
-                setShowStatistics(false);
+                setShowStatistics(true);
+                setShowHistory(false);
                 setShowAuditLogs(false);
+                setShowUsers(false);
+                setShowWorkspace(false);
+                setShowSessions(false);
                 setCsvData(null);
               }}
               className={`px-6 py-3 rounded-xl font-semibold transition-smooth hover-lift ${
-                showHistory && !showStatistics && !showAuditLogs
+                showStatistics && !showHistory && !showAuditLogs && !showUsers && !showWorkspace && !showSessions
                   ? darkMode
                     ? 'bg-gradient-to-r from-indigo-600 to-purple-600 text-white shadow-lg shadow-indigo-500/50'
                     : 'bg-gradient-to-r from-indigo-600 to-purple-600 text-white shadow-lg shadow-indigo-500/30'
@@ -224,17 +292,42 @@ function AppContent() {
                     : 'bg-white text-gray-700 hover:bg-gray-50 shadow-md'
               }`}
             >
-              Data Imports
+              Statistics
             </button>
             <button
               onClick={() => {
-                setShowStatistics(true);
+                setShowAuditLogs(true);
+                setShowHistory(false);
+                setShowStatistics(false);
+                setShowUsers(false);
+                setShowWorkspace(false);
+                setShowSessions(false);
+                setCsvData(null);
+              }}
+              className={`px-6 py-3 rounded-xl font-semibold transition-smooth hover-lift ${
+                showAuditLogs && !showHistory && !showStatistics && !showUsers && !showWorkspace && !showSessions
+                  ? darkMode
+                    ? 'bg-gradient-to-r from-indigo-600 to-purple-600 text-white shadow-lg shadow-indigo-500/50'
+                    : 'bg-gradient-to-r from-indigo-600 to-purple-600 text-white shadow-lg shadow-indigo-500/30'
+                  : darkMode
+                    ? 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                    : 'bg-white text-gray-700 hover:bg-gray-50 shadow-md'
+              }`}
+            >
+              Audit Logs
+            </button>
+            <button
+              onClick={() => {
+                setShowWorkspace(true);
                 setShowHistory(false);
+                setShowStatistics(false);
                 setShowAuditLogs(false);
+                setShowUsers(false);
+                setShowSessions(false);
                 setCsvData(null);
               }}
               className={`px-6 py-3 rounded-xl font-semibold transition-smooth hover-lift ${
-                showStatistics && !showHistory && !showAuditLogs
+                showWorkspace && !showSessions
                   ? darkMode
                     ? 'bg-gradient-to-r from-indigo-600 to-purple-600 text-white shadow-lg shadow-indigo-500/50'
                     : 'bg-gradient-to-r from-indigo-600 to-purple-600 text-white shadow-lg shadow-indigo-500/30'
@@ -243,17 +336,44 @@ function AppContent() {
                     : 'bg-white text-gray-700 hover:bg-gray-50 shadow-md'
               }`}
             >
-              Statistics
+              Workspace
             </button>
+            {isAdmin && (
+              <button
+                onClick={() => {
+                  setShowUsers(true);
+                  setShowHistory(false);
+                  setShowStatistics(false);
+                  setShowAuditLogs(false);
+                  setShowWorkspace(false);
+                  setShowSessions(false);
+                  setCsvData(null);
+                }}
+                className={`px-6 py-3 rounded-xl font-semibold transition-smooth hover-lift ${
+                  showUsers && !showWorkspace && !showSessions
+                    ? darkMode
+                      ? 'bg-gradient-to-r from-indigo-600 to-purple-600 text-white shadow-lg shadow-indigo-500/50'
+                      : 'bg-gradient-to-r from-indigo-600 to-purple-600 text-white shadow-lg shadow-indigo-500/30'
+                    : darkMode
+                      ? 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                      : 'bg-white text-gray-700 hover:bg-gray-50 shadow-md'
+                }`}
+              >
+                Users
+              </button>
+            )}
             <button
               onClick={() => {
-                setShowAuditLogs(true);
+                setShowSessions(true);
                 setShowHistory(false);
                 setShowStatistics(false);
+                setShowAuditLogs(false);
+                setShowUsers(false);
+                setShowWorkspace(false);
                 setCsvData(null);
               }}
               className={`px-6 py-3 rounded-xl font-semibold transition-smooth hover-lift ${
-                showAuditLogs && !showHistory && !showStatistics
+                showSessions
                   ? darkMode
                     ? 'bg-gradient-to-r from-indigo-600 to-purple-600 text-white shadow-lg shadow-indigo-500/50'
                     : 'bg-gradient-to-r from-indigo-600 to-purple-600 text-white shadow-lg shadow-indigo-500/30'
@@ -262,16 +382,23 @@ function AppContent() {
                     : 'bg-white text-gray-700 hover:bg-gray-50 shadow-md'
               }`}
             >
-              Audit Logs
+              Sessions
             </button>
           </div>
 
-          {/* Main Content */}
-          {showAuditLogs ? (
+          {/* Main Content (remounted when switching workspaces, so nothing of the previous one stays cached) */}
+          <div key={activeWorkspace?.id || 'none'}>
+          {showSessions ? (
+            <SessionManagement darkMode={darkMode} />
+          ) : showWorkspace ? (
+            <WorkspaceManagement darkMode={darkMode} />
+          ) : showUsers && isAdmin ? (
+            <UserManagement darkMode={darkMode} />
+          ) : showAuditLogs ? (
             <AuditLogs darkMode={darkMode} />
           ) : showStatistics ? (
             <StatisticsDashboard darkMode={darkMode} />
-          ) : showHistory ? (
+          ) : showHistory || !canEdit ? (
             <UploadHistory onUploadClick={handleUploadClick} darkMode={darkMode} />
           ) : !csvData ? (
             <>
@@ -303,6 +430,7 @@ function AppContent() {
               darkMode={darkMode}
             />
           )}
+          </div>
         </div>
       </div>
     </div>
@@ -311,9 +439,21 @@ function AppContent() {
 }
 
 function App() {
+  // Share links open without a login, so they skip the auth and workspace providers
+  // (a stale token must not redirect the recipient to the login page)
+  if (window.location.pathname.startsWith('/share/')) {
+    return (
+      <ToastProvider darkMode={false}>
+        <SharedUploadView token={decodeURIComponent(window.location.pathname.slice('/share/'.length))} />
+      </ToastProvider>
+    )
+  }
+
   return (
     <AuthProvider darkMode={false}>
-      <AppContent />
+      <WorkspaceProvider>
+        <AppContent />
+      </WorkspaceProvider>
     </AuthProvider>
   )
 }
@@ -0,0 +1,314 @@
+import { useState, useEffect, useMemo } from 'react';
+import { AggregateFunction, AggregateRequest, AggregateResult, ColumnSchema } from '../types';
+import { aggregateUploadRows } from '../services/api';
+import CustomDropdown from './CustomDropdown';
+
+interface AggregationPanelProps {
+  uploadId: string;
+  columnSchema: ColumnSchema[];
+  filter?: string; // Filter expression of the table; only matching rows are aggregated
+  darkMode?: boolean;
+}
+
+type AggregationView = 'chart' | 'pivot';
+
+const FUNCTION_OPTIONS: Array<{ value: AggregateFunction; label: string }> = [
+  { value: 'count', label: 'Count' },
+  { value: 'sum', label: 'Sum' },
+  { value: 'avg', label: 'Average' },
+  { value: 'min', label: 'Minimum' },
+  { value: 'max', label: 'Maximum' },
+  { value: 'distinctCount', label: 'Distinct count' },
+];
+
+// Bars drawn in the chart view, largest first
+const CHART_GROUP_LIMIT = 30;
+
+// Groups fetched for the pivot grid
+const PIVOT_GROUP_LIMIT = 2000;
+
+const EMPTY_LABEL = '(empty)';
+
+const formatMetric = (value: string | number | null | undefined) =>
+  value === null || value === undefined
+    ? '–'
+    : typeof value === 'number'
+      ? value.toLocaleString(undefined, { maximumFractionDigits: 2 })
+      : value;
+
+/**
+ * Summarizes an upload's rows on the server: groups by one or two columns and shows one
+ * metric (count, sum, average, ...) as a bar chart or as a pivot grid
+ */
+const AggregationPanel: React.FC<AggregationPanelProps> = ({ uploadId, columnSchema, filter, darkMode = false }) => {
+  const columns = useMemo(() => columnSchema.map((column) => column.name), [columnSchema]);
+  const numericColumns = useMemo(
+    () => columnSchema.filter((column) => column.type === 'integer' || column.type === 'number').map((column) => column.name),
+    [columnSchema],
+  );
+
+  const [rowColumn, setRowColumn] = useState<string>(columns[0] ?? '');
+  const [pivotColumn, setPivotColumn] = useState<string>('');
+  const [metricFunction, setMetricFunction] = useState<AggregateFunction>('count');
+  const [metricColumn, setMetricColumn] = useState<string>('');
+  const [view, setView] = useState<AggregationView>('chart');
+  const [result, setResult] = useState<AggregateResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // sum and avg need a numeric column; the other functions take any column (count: optional)
+  const metricColumns = metricFunction === 'sum' || metricFunction === 'avg' ? numericColumns : columns;
+  const needsColumn = metricFunction !== 'count';
+  const metricReady = !needsColumn || metricColumns.includes(metricColumn);
+
+  useEffect(() => {
+    if (metricColumn && !metricColumns.includes(metricColumn)) setMetricColumn('');
+  }, [metricColumn, metricColumns]);
+
+  const request = useMemo<AggregateRequest | null>(() => {
+    if (!metricReady) return null;
+    const metric = { function: metricFunction, column: metricColumn || undefined };
+    const groupBy = [rowColumn, view === 'pivot' ? pivotColumn : ''].filter(Boolean);
+    return {
+      groupBy,
+      metrics: [metric],
+      filter: filter || undefined,
+      // The chart shows the largest groups; the pivot grid keeps the groups in order
+      sort:
+        view === 'chart' && groupBy.length > 0
+          ? { by: metricColumn ? `${metricFunction}_${metricColumn}` : 'count', direction: 'desc' }
+          : undefined,
+      limit: view === 'chart' ? CHART_GROUP_LIMIT : PIVOT_GROUP_LIMIT,
+    };
+  }, [metricReady, metricFunction, metricColumn, rowColumn, pivotColumn, view, filter]);
+
+  useEffect(() => {
+    if (!request) return;
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    aggregateUploadRows(uploadId, request)
+      .then((aggregated) => {
+        if (!cancelled) setResult(aggregated);
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setResult(null);
+          setError(err instanceof Error ? err.message : 'Failed to aggregate rows');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [uploadId, request]);
+
+  const metricName = result?.metrics[0]?.name ?? '';
+
+  // Pivot grid: first group-by column down, second across
+  const pivot = useMemo(() => {
+    if (!result || result.groupBy.length !== 2) return null;
+    const [down, across] = result.groupBy;
+    const rowKeys: string[] = [];
+    const columnKeys: string[] = [];
+    const cells = new Map<string, string | number | null>();
+    for (const row of result.rows) {
+      const rowKey = row[down] === null ? EMPTY_LABEL : String(row[down]);
+      const columnKey = row[across] === null ? EMPTY_LABEL : String(row[across]);
+      if (!rowKeys.includes(rowKey)) rowKeys.push(rowKey);
+      if (!columnKeys.includes(columnKey)) columnKeys.push(columnKey);
+      cells.set(JSON.stringify([rowKey, columnKey]), row[metricName]);
+    }
+    return { rowKeys, columnKeys, cells };
+  }, [result, metricName]);
+
+  const maxValue = useMemo(
+    () => Math.max(0, ...(result?.rows || []).map((row) => (typeof row[metricName] === 'number' ? (row[metricName] as number) : 0))),
+    [result, metricName],
+  );
+
+  const labelClass = `text-sm font-semibold ${darkMode ? 'text-gray-300' : 'text-gray-700'}`;
+  const cellClass = `px-4 py-2 text-sm whitespace-nowrap ${darkMode ? 'text-gray-300' : 'text-gray-700'}`;
+
+  return (
+    <div className={`mb-4 p-4 rounded-xl border-2 space-y-4 ${
+      darkMode ? 'bg-gray-800/50 border-gray-700' : 'bg-gray-50 border-gray-200'
+    }`}>
+      <div className="flex flex-wrap items-end gap-3">
+        <div>
+          <p className={`${labelClass} mb-1`}>Group by</p>
+          <CustomDropdown
+            options={[{ value: '', label: 'All rows' }, ...columns.map((column) => ({ value: column, label: column }))]}
+            value={rowColumn}
+            onChange={(value) => setRowColumn(String(value))}
+            darkMode={darkMode}
+            className="min-w-[150px]"
+          />
+        </div>
+        {view === 'pivot' && (
+          <div>
+            <p className={`${labelClass} mb-1`}>Across</p>
+            <CustomDropdown
+              options={[
+                { value: '', label: 'Nothing' },
+                ...columns.filter((column) => column !== rowColumn).map((column) => ({ value: column, label: column })),
+              ]}
+              value={pivotColumn}
+              onChange={(value) => setPivotColumn(String(value))}
+              darkMode={darkMode}
+              className="min-w-[150px]"
+            />
+          </div>
+        )}
+        <div>
+          <p className={`${labelClass} mb-1`}>Metric</p>
+          <CustomDropdown
+            options={FUNCTION_OPTIONS}
+            value={metricFunction}
+            onChange={(value) => setMetricFunction(value as AggregateFunction)}
+            darkMode={darkMode}
+            className="min-w-[150px]"
+          />
+        </div>
+        <div>
+          <p className={`${labelClass} mb-1`}>Of</p>
+          <CustomDropdown
+            options={[
+              ...(needsColumn ? [] : [{ value: '', label: 'Rows' }]),
+              ...metricColumns.map((column) => ({ value: column, label: column })),
+            ]}
+            value={metricColumn}
+            onChange={(value) => setMetricColumn(String(value))}
+            placeholder={metricColumns.length > 0 ? 'Select column...' : 'No numeric columns'}
+            darkMode={darkMode}
+            className="min-w-[150px]"
+          />
+        </div>
+        <div className="flex rounded-xl overflow-hidden ml-auto">
+          {(['chart', 'pivot'] as AggregationView[]).map((option) => (
+            <button
+              key={option}
+              onClick={() => setView(option)}
+              className={`px-4 py-2 text-sm font-semibold transition-smooth ${
+                view === option
+                  ? 'bg-indigo-600 text-white'
+                  : darkMode
+                    ? 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                    : 'bg-white text-gray-700 hover:bg-gray-100'
+              }`}
+            >
+              {option === 'chart' ? 'Bar Chart' : 'Pivot Table'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {filter && (
+        <p className={`text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+          Only rows matching the filter <code>{filter}</code> are included.
+        </p>
+      )}
+
+      {error ? (
+        <p role="alert" className={`text-sm ${darkMode ? 'text-red-400' : 'text-red-600'}`}>{error}</p>
+      ) : !metricReady ? (
+        <p className={`text-sm ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>Choose a column for the metric.</p>
+      ) : loading && !result ? (
+        <p className={`text-sm ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>Computing...</p>
+      ) : result && result.rows.length === 0 ? (
+        <p className={`text-sm ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>No rows to summarize</p>
+      ) : result && pivot ? (
+        <div className={`overflow-x-auto rounded-xl border ${darkMode ? 'border-gray-700' : 'border-gray-200'} ${loading ? 'opacity-60' : ''}`}>
+          <table className={`min-w-full divide-y ${darkMode ? 'divide-gray-700' : 'divide-gray-200'}`}>
+            <thead className={darkMode ? 'bg-gray-800' : 'bg-gradient-to-r from-indigo-50 to-purple-50'}>
+              <tr>
+                <th className={`${cellClass} text-left font-bold`}>
+                  {result.groupBy[0]} \ {result.groupBy[1]}
+                </th>
+                {pivot.columnKeys.map((columnKey) => (
+                  <th key={columnKey} className={`${cellClass} text-right font-bold`}>{columnKey}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className={`divide-y ${darkMode ? 'bg-gray-900 divide-gray-800' : 'bg-white divide-gray-100'}`}>
+              {pivot.rowKeys.map((rowKey) => (
+                <tr key={rowKey}>
+                  <td className={`${cellClass} font-semibold`}>{rowKey}</td>
+                  {pivot.columnKeys.map((columnKey) => (
+                    <td key={columnKey} className={`${cellClass} text-right tabular-nums`}>
+                      {formatMetric(pivot.cells.get(JSON.stringify([rowKey, columnKey])))}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : result && view === 'pivot' ? (
+        <div className={`overflow-x-auto rounded-xl border ${darkMode ? 'border-gray-700' : 'border-gray-200'} ${loading ? 'opacity-60' : ''}`}>
+          <table className={`min-w-full divide-y ${darkMode ? 'divide-gray-700' : 'divide-gray-200'}`}>
+            <thead className={darkMode ? 'bg-gray-800' : 'bg-gradient-to-r from-indigo-50 to-purple-50'}>
+              <tr>
+                {result.groupBy.map((column) => (
+                  <th key={column} className={`${cellClass} text-left font-bold`}>{column}</th>
+                ))}
+                <th className={`${cellClass} text-right font-bold`}>{metricName}</th>
+              </tr>
+            </thead>
+            <tbody className={`divide-y ${darkMode ? 'bg-gray-900 divide-gray-800' : 'bg-white divide-gray-100'}`}>
+              {result.rows.map((row, index) => (
+                <tr key={index}>
+                  {result.groupBy.map((column) => (
+                    <td key={column} className={cellClass}>{row[column] ?? EMPTY_LABEL}</td>
+                  ))}
+                  <td className={`${cellClass} text-right tabular-nums`}>{formatMetric(row[metricName])}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : result ? (
+        <div className={`space-y-3 ${loading ? 'opacity-60' : ''}`}>
+          {result.rows.map((row, index) => {
+            const value = row[metricName];
+            const label = result.groupBy.length > 0 ? row[result.groupBy[0]] ?? EMPTY_LABEL : 'All rows';
+            const percentage = typeof value === 'number' && maxValue > 0 ? (Math.max(0, value) / maxValue) * 100 : 0;
+            return (
+              <div key={index}>
+                <div className="flex justify-between items-center mb-1 gap-4">
+                  <span className={`text-sm font-medium truncate ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                    {label}
+                  </span>
+                  <span className={`text-sm font-bold tabular-nums ${darkMode ? 'text-gray-200' : 'text-gray-900'}`}>
+                    {formatMetric(value)}
+                  </span>
+                </div>
+                <div className={`h-3 rounded-full overflow-hidden ${darkMode ? 'bg-gray-700' : 'bg-gray-200'}`}>
+                  <div
+                    className={`h-full rounded-full transition-all duration-500 ${
+                      darkMode
+                        ? 'bg-gradient-to-r from-indigo-500 to-purple-500'
+                        : 'bg-gradient-to-r from-indigo-400 to-purple-400'
+                    }`}
+                    style={{ width: `${percentage}%` }}
+                  />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      ) : null}
+
+      {result?.truncated && (
+        <p className={`text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+          Showing {view === 'chart' ? 'the largest ' : 'the first '}
+          {result.rows.length} of {result.totalGroups} groups
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default AggregationPanel;
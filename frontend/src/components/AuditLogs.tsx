@@ -5,6 +5,8 @@ import CustomDropdown from "./CustomDropdown";
 import CustomDatePicker from "./CustomDatePicker";
 import { useDebounce } from "../hooks/useDebounce";
 import { useToast } from "../contexts/ToastContext";
+import { useAuth } from "../contexts/AuthContext";
+import { useWorkspace } from "../contexts/WorkspaceContext";
 
 interface AuditLogsProps {
   darkMode?: boolean;
@@ -26,6 +28,8 @@ const AuditLogs: React.FC<AuditLogsProps> = ({ darkMode = false }) => {
   const [pageSize, setPageSize] = useState<number>(25); // Reduced default from 50
 
   const { showError } = useToast();
+  const { isAdmin } = useAuth();
+  const { isWorkspaceAdmin } = useWorkspace();
   const debouncedUploadId = useDebounce(uploadIdFilter, 500);
   const hasShownErrorRef = useRef<string | null>(null);
 
@@ -205,6 +209,120 @@ const AuditLogs: React.FC<AuditLogsProps> = ({ darkMode = false }) => {
             />
           </svg>
         );
+      case "coerce_types":
+        return (
+          <svg
+            className="w-4 h-4"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M7 16V4m0 0L3 8m4-4l4 4m6 0v12m0 0l4-4m-4 4l-4-4"
+            />
+          </svg>
+        );
+      case "aggregate":
+        return (
+          <svg
+            className="w-4 h-4"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z"
+            />
+          </svg>
+        );
+      case "diff":
+      case "export_diff":
+        return (
+          <svg
+            className="w-4 h-4"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4"
+            />
+          </svg>
+        );
+      case "promote_version":
+        return (
+          <svg
+            className="w-4 h-4"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M7 11l5-5m0 0l5 5m-5-5v12"
+            />
+          </svg>
+        );
+      case "share_create":
+      case "share_access":
+        return (
+          <svg
+            className="w-4 h-4"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1"
+            />
+          </svg>
+        );
+      case "share_revoke":
+        return (
+          <svg
+            className="w-4 h-4"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M18.364 18.364A9 9 0 005.636 5.636m12.728 12.728A9 9 0 015.636 5.636m12.728 12.728L5.636 5.636"
+            />
+          </svg>
+        );
+      case "export_issues":
+        return (
+          <svg
+            className="w-4 h-4"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z"
+            />
+          </svg>
+        );
       default:
         return null;
     }
@@ -309,7 +427,9 @@ const AuditLogs: React.FC<AuditLogsProps> = ({ darkMode = false }) => {
         <p
           className={`text-lg ${darkMode ? "text-gray-400" : "text-gray-600"}`}
         >
-          Track all user actions and system events
+          {isAdmin || isWorkspaceAdmin
+            ? "Track all member actions and system events in this workspace"
+            : "Track your actions and system events in this workspace"}
         </p>
       </div>
 
@@ -325,6 +445,15 @@ const AuditLogs: React.FC<AuditLogsProps> = ({ darkMode = false }) => {
             { value: "bulk_delete", label: "Bulk Delete" },
             { value: "view_data", label: "View Data" },
             { value: "download_original", label: "Download Original" },
+            { value: "coerce_types", label: "Coerce Types" },
+            { value: "aggregate", label: "Aggregate" },
+            { value: "export_issues", label: "Export Issues" },
+            { value: "diff", label: "Compare Uploads" },
+            { value: "export_diff", label: "Export Diff" },
+            { value: "promote_version", label: "Change Current Version" },
+            { value: "share_create", label: "Create Share Link" },
+            { value: "share_revoke", label: "Revoke Share Link" },
+            { value: "share_access", label: "Share Link Access" },
           ]}
           value={actionFilter}
           onChange={setActionFilter}
@@ -519,6 +648,19 @@ const AuditLogs: React.FC<AuditLogsProps> = ({ darkMode = false }) => {
                                 +{log.details.fileNames.length - 1} more
                               </span>
                             )}
+                          {log.action === "promote_version" && log.details && (
+                            <span
+                              className={`text-xs mt-1 ${
+                                darkMode ? "text-gray-500" : "text-gray-500"
+                              }`}
+                            >
+                              {log.details.datasetName}:{" "}
+                              {log.details.previousVersion
+                                ? `v${log.details.previousVersion} → `
+                                : ""}
+                              v{log.details.version} ({log.details.reason})
+                            </span>
+                          )}
                         </div>
                       ) : log.details?.fileNames &&
                         Array.isArray(log.details.fileNames) &&
@@ -562,9 +704,21 @@ const AuditLogs: React.FC<AuditLogsProps> = ({ darkMode = false }) => {
                             </span>
                           )}
                         </div>
+                      ) : log.action === "share_access" ? (
+                        <span className="italic">Share link recipient</span>
                       ) : (
                         <span className="opacity-50">-</span>
                       )}
+                      {log.details?.shareLinkId && (
+                        <div
+                          className={`text-xs font-mono ${
+                            darkMode ? "text-gray-500" : "text-gray-500"
+                          }`}
+                          title={log.details.shareLinkId}
+                        >
+                          link {log.details.shareLinkId.substring(0, 8)}...
+                        </div>
+                      )}
                     </td>
                     <td
                       className={`px-6 py-4 whitespace-nowrap text-sm font-mono ${
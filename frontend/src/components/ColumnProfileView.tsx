@@ -0,0 +1,213 @@
+import { useState, useEffect } from 'react';
+import { ColumnProfile, HistogramBin, UploadProfile } from '../types';
+import { getUploadProfile } from '../services/api';
+
+interface ColumnProfileViewProps {
+  uploadId: string;
+  darkMode?: boolean;
+}
+
+const formatNumber = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+const formatPercent = (share: number) => `${(share * 100).toLocaleString(undefined, { maximumFractionDigits: 1 })}%`;
+
+interface HistogramProps<T> {
+  bins: HistogramBin<T>[];
+  format: (value: T) => string;
+  darkMode: boolean;
+}
+
+// Small vertical bar chart; each bar's tooltip shows its range and count
+function Histogram<T>({ bins, format, darkMode }: HistogramProps<T>) {
+  const maxCount = Math.max(1, ...bins.map((bin) => bin.count));
+  return (
+    <div>
+      <div className="flex items-end gap-0.5 h-16">
+        {bins.map((bin, index) => (
+          <div
+            key={index}
+            title={`${format(bin.from)} – ${format(bin.to)}: ${bin.count.toLocaleString()}`}
+            className={`flex-1 rounded-t ${darkMode ? 'bg-indigo-500/70 hover:bg-indigo-400' : 'bg-indigo-400 hover:bg-indigo-500'}`}
+            style={{ height: `${Math.max(bin.count > 0 ? 4 : 0, (bin.count / maxCount) * 100)}%` }}
+          />
+        ))}
+      </div>
+      {bins.length > 0 && (
+        <div className={`flex justify-between text-xs mt-1 ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>
+          <span>{format(bins[0].from)}</span>
+          <span>{format(bins[bins.length - 1].to)}</span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Profile tab of the data preview: one card per column with empty and distinct counts,
+ * the most frequent values, value shapes and histograms of numbers, dates and lengths
+ */
+const ColumnProfileView: React.FC<ColumnProfileViewProps> = ({ uploadId, darkMode = false }) => {
+  const [profile, setProfile] = useState<UploadProfile | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    getUploadProfile(uploadId)
+      .then((fetched) => {
+        if (!cancelled) setProfile(fetched);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to fetch column profile');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [uploadId]);
+
+  const mutedClass = darkMode ? 'text-gray-400' : 'text-gray-500';
+  const headingClass = `text-xs font-bold uppercase tracking-wider mb-2 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`;
+  const statClass = `flex justify-between text-sm ${darkMode ? 'text-gray-300' : 'text-gray-700'}`;
+
+  if (loading) {
+    return <div className={`text-center py-12 ${mutedClass}`}>Profiling columns...</div>;
+  }
+  if (error || !profile) {
+    return (
+      <div className={`p-4 rounded-xl text-sm ${darkMode ? 'bg-red-500/10 text-red-400' : 'bg-red-50 text-red-700'}`}>
+        {error || 'No profile available'}
+      </div>
+    );
+  }
+
+  const renderColumn = (column: ColumnProfile) => {
+    const topCount = Math.max(1, ...column.topValues.map((entry) => entry.count));
+    return (
+      <div
+        key={column.name}
+        className={`p-4 rounded-xl border-2 space-y-4 ${darkMode ? 'bg-gray-800/50 border-gray-700' : 'bg-white border-gray-200'}`}
+      >
+        <div className="flex items-center justify-between gap-2">
+          <h3 className={`font-bold truncate ${darkMode ? 'text-gray-100' : 'text-gray-800'}`} title={column.name}>
+            {column.name}
+          </h3>
+          <span className={`px-2 py-0.5 rounded text-xs font-medium ${
+            darkMode ? 'bg-indigo-500/20 text-indigo-300' : 'bg-indigo-100 text-indigo-700'
+          }`}>
+            {column.type}
+          </span>
+        </div>
+
+        <div className="space-y-1">
+          <div className={statClass}>
+            <span>Empty</span>
+            <span>{column.emptyCount.toLocaleString()} ({formatPercent(column.emptyRate)})</span>
+          </div>
+          <div className={`h-1.5 rounded-full overflow-hidden ${darkMode ? 'bg-gray-700' : 'bg-gray-200'}`}>
+            <div className="h-full bg-yellow-500" style={{ width: formatPercent(column.emptyRate) }} />
+          </div>
+          <div className={statClass}>
+            <span>Distinct</span>
+            <span>{column.distinctCount.toLocaleString()}</span>
+          </div>
+        </div>
+
+        {column.numeric && (
+          <div>
+            <div className={headingClass}>Distribution</div>
+            <Histogram bins={column.numeric.histogram} format={formatNumber} darkMode={darkMode} />
+            <div className="grid grid-cols-2 gap-x-4 mt-2">
+              {[
+                ['Min', column.numeric.min],
+                ['Max', column.numeric.max],
+                ['P25', column.numeric.percentiles.p25],
+                ['P75', column.numeric.percentiles.p75],
+                ['Median', column.numeric.percentiles.p50],
+                ['Mean', column.numeric.mean],
+                ['P5', column.numeric.percentiles.p5],
+                ['P95', column.numeric.percentiles.p95],
+                ['Std dev', column.numeric.stdDev],
+              ].map(([label, value]) => (
+                <div key={label} className={statClass}>
+                  <span>{label}</span>
+                  <span>{formatNumber(value as number)}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {column.dates && (
+          <div>
+            <div className={headingClass}>Date range</div>
+            <Histogram bins={column.dates.histogram} format={(value) => value.slice(0, 10)} darkMode={darkMode} />
+            <div className={`${statClass} mt-2`}>
+              <span>{column.dates.min}</span>
+              <span>{column.dates.max}</span>
+            </div>
+          </div>
+        )}
+
+        {column.topValues.length > 0 && (
+          <div>
+            <div className={headingClass}>Top values</div>
+            <div className="space-y-1">
+              {column.topValues.map((entry) => (
+                <div key={entry.value} className="relative text-sm">
+                  <div
+                    className={`absolute inset-y-0 left-0 rounded ${darkMode ? 'bg-indigo-500/20' : 'bg-indigo-100'}`}
+                    style={{ width: `${(entry.count / topCount) * 100}%` }}
+                  />
+                  <div className={`relative flex justify-between gap-2 px-2 py-0.5 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                    <span className="truncate" title={entry.value}>{entry.value}</span>
+                    <span>{entry.count.toLocaleString()}</span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {column.lengths && (
+          <div>
+            <div className={headingClass}>
+              Length {column.lengths.min}–{column.lengths.max} (mean {formatNumber(column.lengths.mean)})
+            </div>
+            <Histogram bins={column.lengths.histogram} format={formatNumber} darkMode={darkMode} />
+          </div>
+        )}
+
+        {column.patterns.length > 0 && (
+          <div>
+            <div className={headingClass}>Patterns</div>
+            <div className="space-y-1">
+              {column.patterns.map((entry) => (
+                <div key={entry.pattern} className={statClass} title={`e.g. ${entry.example}`}>
+                  <code className="truncate">{entry.pattern}</code>
+                  <span className={mutedClass}>{entry.count.toLocaleString()}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className={`text-sm ${mutedClass}`}>
+        Profile of {profile.rowCount.toLocaleString()} row{profile.rowCount !== 1 ? 's' : ''}, computed{' '}
+        {new Date(profile.computedAt).toLocaleString()}
+      </p>
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">{profile.columns.map(renderColumn)}</div>
+    </div>
+  );
+};
+
+export default ColumnProfileView;
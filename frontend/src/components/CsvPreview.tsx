@@ -1,9 +1,22 @@
-import { useState, useMemo, useEffect } from 'react';
-import { CsvData } from "../types";
+import { useState, useMemo, useEffect, useRef, useCallback } from 'react';
+import { CsvData, ExportFormat, ExportOptions, FormulaSanitization, UploadRow, UploadRowsQuery } from "../types";
 import { exportCsvData } from '../services/api';
+import { EXPORT_FORMAT_LABELS, EXPORT_FORMAT_OPTIONS } from '../utils/exportFormats';
 import CustomDropdown from './CustomDropdown';
 import VirtualizedTable from './VirtualizedTable';
+import RowQueryBar from './RowQueryBar';
+import AggregationPanel from './AggregationPanel';
+import ColumnProfileView from './ColumnProfileView';
 import { useToast } from '../contexts/ToastContext';
+import { useDebounce } from '../hooks/useDebounce';
+import { useUploadRows } from '../hooks/useUploadRows';
+import { FORMULA_SANITIZATION_OPTIONS, isFormulaLike } from '../utils/formulaInjection';
+import { formatCellValue } from '../utils/dataTypeDetection';
+
+const FORMULA_WARNING = 'Possible formula injection: spreadsheet apps would run this value as a formula';
+
+// Rows fetched per request while scrolling the virtual table
+const VIRTUAL_PAGE_SIZE = 100;
 
 interface CsvPreviewProps {
   data: CsvData;
@@ -11,59 +24,96 @@ interface CsvPreviewProps {
   darkMode?: boolean;
 }
 
+type PreviewTab = 'data' | 'profile';
+
 type SortConfig = {
   key: string;
   direction: 'asc' | 'desc';
 } | null;
 
 const CsvPreview: React.FC<CsvPreviewProps> = ({ data, onReset, darkMode = false }) => {
-  const headers = data.data.length > 0 ? Object.keys(data.data[0]) : [];
   const [sortConfig, setSortConfig] = useState<SortConfig>(null);
   const [exporting, setExporting] = useState(false);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('csv');
+  const [sanitize, setSanitize] = useState<FormulaSanitization>('apostrophe');
   const [currentPage, setCurrentPage] = useState<number>(1);
   const [pageSize, setPageSize] = useState<number>(5); // Default to 5 so pagination shows more often
   const [useVirtualization, setUseVirtualization] = useState<boolean>(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [filterQuery, setFilterQuery] = useState('');
+  const [hiddenColumns, setHiddenColumns] = useState<string[]>([]);
+  const [showSummary, setShowSummary] = useState(false);
+  const [tab, setTab] = useState<PreviewTab>('data');
+  const debouncedSearchQuery = useDebounce(searchQuery, 300);
+  const debouncedFilterQuery = useDebounce(filterQuery, 500);
   const { showSuccess, showError } = useToast();
   
   // Use virtualization for datasets larger than 100 rows
-  const shouldUseVirtualization = data.data.length > 100;
+  const shouldUseVirtualization = data.totalRows > 100;
+  const virtualized = shouldUseVirtualization && useVirtualization;
 
-  // Create a map of duplicate rows for highlighting
-  const duplicateRowMap = useMemo(() => {
-    const map = new Map<number, number>();
-    if (data.duplicates) {
-      data.duplicates.forEach((dup) => {
-        map.set(dup.row, dup.duplicateOf);
-      });
-    }
-    return map;
-  }, [data.duplicates]);
+  // Rows that would run as formulas when the data is opened in a spreadsheet (flagged on import)
+  const formulaRowCount = useMemo(
+    () => (data.warnings || []).filter((warning) => warning.message.startsWith('Possible formula injection')).length,
+    [data.warnings],
+  );
+
+  const headers = useMemo(() => (data.columnSchema || []).map((column) => column.name), [data.columnSchema]);
 
-  const sortedData = useMemo(() => {
-    if (!sortConfig) return data.data;
-    
-    return [...data.data].sort((a, b) => {
-      const aValue = a[sortConfig.key] || '';
-      const bValue = b[sortConfig.key] || '';
-      
-      if (sortConfig.direction === 'asc') {
-        return aValue.localeCompare(bValue);
-      } else {
-        return bValue.localeCompare(aValue);
-      }
-    });
-  }, [data.data, sortConfig]);
+  const visibleHeaders = useMemo(
+    () => headers.filter((header) => !hiddenColumns.includes(header)),
+    [headers, hiddenColumns],
+  );
+
+  // Rows are sorted, searched (visible columns only, like the export), filtered and paged by the server
+  const rowsQuery = useMemo<UploadRowsQuery>(
+    () => ({
+      sort: sortConfig?.key,
+      direction: sortConfig?.direction,
+      search: debouncedSearchQuery.trim() || undefined,
+      searchColumns: hiddenColumns.length > 0 ? visibleHeaders : undefined,
+      filter: debouncedFilterQuery.trim() || undefined,
+    }),
+    [sortConfig, debouncedSearchQuery, hiddenColumns, visibleHeaders, debouncedFilterQuery],
+  );
+  const rows = useUploadRows(data.uploadId, rowsQuery, virtualized ? VIRTUAL_PAGE_SIZE : pageSize);
+  const { loadPage, loadRange } = rows;
+  const matchingRows = rows.total ?? 0;
 
   // Pagination calculations
-  const totalPages = Math.ceil(sortedData.length / pageSize);
+  const totalPages = Math.ceil(matchingRows / pageSize);
   const startIndex = (currentPage - 1) * pageSize;
   const endIndex = startIndex + pageSize;
-  const paginatedData = sortedData.slice(startIndex, endIndex);
+  const paginatedData: UploadRow[] = rows.pages[currentPage] || [];
 
-  // Reset to page 1 when sorting changes
+  // Reset to page 1 when sorting or filtering changes
   useEffect(() => {
     setCurrentPage(1);
-  }, [sortConfig]);
+  }, [rowsQuery]);
+
+  // Pagination: fetch the page on screen
+  useEffect(() => {
+    if (!virtualized) loadPage(currentPage);
+  }, [virtualized, loadPage, currentPage]);
+
+  // Virtual scrolling: fetch the rows in view, again whenever the sort order or filters change
+  const visibleRangeRef = useRef({ startIndex: 0, stopIndex: 0 });
+  useEffect(() => {
+    if (virtualized) loadRange(visibleRangeRef.current.startIndex, visibleRangeRef.current.stopIndex);
+  }, [virtualized, loadRange]);
+  const handleRowsRendered = useCallback(
+    (startIndex: number, stopIndex: number) => {
+      visibleRangeRef.current = { startIndex, stopIndex };
+      loadRange(startIndex, stopIndex);
+    },
+    [loadRange],
+  );
+
+  // Problems with the filter expression are shown under the query bar, other errors as toasts
+  const filterError = rows.error?.startsWith('Invalid filter') ? rows.error : null;
+  useEffect(() => {
+    if (rows.error && !filterError) showError(rows.error);
+  }, [rows.error, filterError, showError]);
 
   const handleSort = (key: string) => {
     let direction: 'asc' | 'desc' = 'asc';
@@ -73,14 +123,28 @@ const CsvPreview: React.FC<CsvPreviewProps> = ({ data, onReset, darkMode = false
     setSortConfig({ key, direction });
   };
 
+  const toggleColumn = (header: string) => {
+    setHiddenColumns((hidden) =>
+      hidden.includes(header) ? hidden.filter((column) => column !== header) : [...hidden, header],
+    );
+  };
+
   const handleExport = async () => {
     if (!data.uploadId) return;
+    // Export what is on screen: the same rows, order and columns
+    const options: ExportOptions = {
+      filter: debouncedSearchQuery.trim() || undefined,
+      query: debouncedFilterQuery.trim() || undefined,
+      sort: sortConfig ? [{ column: sortConfig.key, direction: sortConfig.direction }] : undefined,
+      columns: hiddenColumns.length > 0 ? visibleHeaders.map((name) => ({ name })) : undefined,
+      sanitize: exportFormat === 'csv' ? sanitize : undefined,
+    };
     try {
       setExporting(true);
-      await exportCsvData(data.uploadId, 'export.csv');
-      showSuccess('CSV exported successfully!');
+      await exportCsvData(data.uploadId, 'export.csv', exportFormat, options);
+      showSuccess(`${EXPORT_FORMAT_LABELS[exportFormat]} exported successfully!`);
     } catch (error) {
-      showError(error instanceof Error ? error.message : 'Failed to export CSV');
+      showError(error instanceof Error ? error.message : 'Failed to export data');
     } finally {
       setExporting(false);
     }
@@ -138,18 +202,48 @@ const CsvPreview: React.FC<CsvPreviewProps> = ({ data, onReset, darkMode = false
                      {data.duplicateCount} duplicate{data.duplicateCount !== 1 ? 's' : ''} detected
                    </span>
                  )}
+                 {formulaRowCount > 0 && (
+                   <span
+                     title={FORMULA_WARNING}
+                     className={`ml-2 px-2 py-1 rounded-lg text-sm font-medium ${
+                       darkMode
+                         ? 'bg-orange-500/20 text-orange-400 border border-orange-500/30'
+                         : 'bg-orange-100 text-orange-800 border border-orange-200'
+                     }`}
+                   >
+                     {formulaRowCount} row{formulaRowCount !== 1 ? 's' : ''} with formula-like values
+                   </span>
+                 )}
                </p>
         </div>
         <div className="flex gap-3">
+          {data.uploadId && (
+            <CustomDropdown
+              options={EXPORT_FORMAT_OPTIONS}
+              value={exportFormat}
+              onChange={(value) => setExportFormat(value as ExportFormat)}
+              darkMode={darkMode}
+              className="w-auto min-w-[120px]"
+            />
+          )}
+          {data.uploadId && exportFormat === 'csv' && formulaRowCount > 0 && (
+            <CustomDropdown
+              options={FORMULA_SANITIZATION_OPTIONS}
+              value={sanitize}
+              onChange={(value) => setSanitize(value as FormulaSanitization)}
+              darkMode={darkMode}
+              className="w-auto min-w-[170px]"
+            />
+          )}
           {data.uploadId && (
             <button
               onClick={handleExport}
-              disabled={exporting}
+              disabled={exporting || visibleHeaders.length === 0}
               className={`px-6 py-3 rounded-xl font-semibold transition-smooth hover-lift flex items-center gap-2 ${
                 darkMode
                   ? 'bg-gray-700 text-gray-200 hover:bg-gray-600'
                   : 'bg-white text-gray-700 hover:bg-gray-100 shadow-md'
-              } ${exporting ? 'opacity-50 cursor-not-allowed' : ''}`}
+              } ${exporting || visibleHeaders.length === 0 ? 'opacity-50 cursor-not-allowed' : ''}`}
             >
               {exporting ? (
                 <>
@@ -163,7 +257,7 @@ const CsvPreview: React.FC<CsvPreviewProps> = ({ data, onReset, darkMode = false
                   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
                   </svg>
-                  Export CSV
+                  Export {EXPORT_FORMAT_LABELS[exportFormat]}
                 </>
               )}
             </button>
@@ -181,8 +275,130 @@ const CsvPreview: React.FC<CsvPreviewProps> = ({ data, onReset, darkMode = false
         </div>
       </div>
 
+      {/* Tabs - the rows, or a profile of every column */}
+      {data.uploadId && data.totalRows > 0 && (
+        <div className={`mb-4 inline-flex p-1 rounded-xl ${darkMode ? 'bg-gray-800' : 'bg-gray-100'}`}>
+          {(['data', 'profile'] as PreviewTab[]).map((value) => (
+            <button
+              key={value}
+              onClick={() => setTab(value)}
+              className={`px-5 py-2 rounded-lg text-sm font-semibold transition-smooth ${
+                tab === value
+                  ? 'bg-indigo-600 text-white'
+                  : darkMode
+                    ? 'text-gray-300 hover:bg-gray-700'
+                    : 'text-gray-700 hover:bg-white'
+              }`}
+            >
+              {value === 'data' ? 'Data' : 'Profile'}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Search, Filter and Column Visibility - the export follows all three */}
+      {tab === 'data' && data.totalRows > 0 && (
+        <div className={`mb-4 p-4 rounded-xl border-2 space-y-3 ${
+          darkMode ? 'bg-gray-800/50 border-gray-700' : 'bg-gray-50 border-gray-200'
+        }`}>
+          <div className="flex items-center gap-3">
+            <div className="flex-1 relative">
+              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                <svg className={`w-5 h-5 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+                </svg>
+              </div>
+              <input
+                type="text"
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                placeholder="Search in data..."
+                className={`w-full pl-10 pr-10 py-3 rounded-xl border text-sm transition-smooth ${
+                  darkMode
+                    ? 'bg-gray-800 border-gray-700 text-gray-200 placeholder-gray-500 focus:border-indigo-500 focus:ring-2 focus:ring-indigo-500/20'
+                    : 'bg-white border-gray-300 text-gray-900 placeholder-gray-400 focus:border-indigo-300 focus:ring-2 focus:ring-indigo-300'
+                }`}
+              />
+              {searchQuery && (
+                <button
+                  onClick={() => setSearchQuery('')}
+                  className={`absolute inset-y-0 right-0 pr-3 flex items-center ${
+                    darkMode ? 'text-gray-400 hover:text-gray-200' : 'text-gray-500 hover:text-gray-700'
+                  }`}
+                  aria-label="Clear search"
+                >
+                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              )}
+            </div>
+            {(debouncedSearchQuery.trim() || debouncedFilterQuery.trim()) && !filterError && (
+              <div className={`px-4 py-2 rounded-xl text-sm font-medium whitespace-nowrap ${
+                darkMode ? 'bg-indigo-500/20 text-indigo-300' : 'bg-indigo-100 text-indigo-700'
+              }`}>
+                {rows.total ?? '…'} of {data.totalRows} rows
+              </div>
+            )}
+          </div>
+          <RowQueryBar
+            value={filterQuery}
+            onChange={setFilterQuery}
+            columns={headers}
+            error={filterError}
+            darkMode={darkMode}
+          />
+          <div className="flex flex-wrap items-center gap-2">
+            <span className={`text-sm font-semibold mr-1 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+              Columns:
+            </span>
+            {headers.map((header) => {
+              const visible = !hiddenColumns.includes(header);
+              return (
+                <button
+                  key={header}
+                  onClick={() => toggleColumn(header)}
+                  title={visible ? `Hide ${header}` : `Show ${header}`}
+                  className={`px-3 py-1 rounded-lg text-xs font-medium transition-smooth ${
+                    visible
+                      ? 'bg-indigo-600 text-white'
+                      : darkMode
+                        ? 'bg-gray-700 text-gray-400 line-through hover:bg-gray-600'
+                        : 'bg-white text-gray-500 line-through hover:bg-gray-100 border border-gray-200'
+                  }`}
+                >
+                  {header}
+                </button>
+              );
+            })}
+            <button
+              onClick={() => setShowSummary(!showSummary)}
+              className={`ml-auto px-4 py-1.5 rounded-lg text-xs font-semibold transition-smooth ${
+                showSummary
+                  ? 'bg-indigo-600 text-white'
+                  : darkMode
+                    ? 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                    : 'bg-white text-gray-700 hover:bg-gray-100 border border-gray-200'
+              }`}
+            >
+              {showSummary ? 'Hide Summary' : 'Summarize'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Summary - groups and metrics of the rows matching the filter, computed by the server */}
+      {tab === 'data' && showSummary && data.totalRows > 0 && (
+        <AggregationPanel
+          uploadId={data.uploadId}
+          columnSchema={data.columnSchema || []}
+          filter={filterError ? undefined : debouncedFilterQuery.trim() || undefined}
+          darkMode={darkMode}
+        />
+      )}
+
       {/* Performance Mode Toggle */}
-      {shouldUseVirtualization && (
+      {tab === 'data' && shouldUseVirtualization && (
         <div className={`mb-4 flex items-center justify-end gap-3 p-3 rounded-xl ${
           darkMode ? 'bg-gray-800/50' : 'bg-gray-50'
         }`}>
@@ -207,7 +423,9 @@ const CsvPreview: React.FC<CsvPreviewProps> = ({ data, onReset, darkMode = false
       )}
 
       {/* Data Table */}
-      {data.data.length === 0 ? (
+      {tab === 'profile' ? (
+        <ColumnProfileView uploadId={data.uploadId} darkMode={darkMode} />
+      ) : data.totalRows === 0 ? (
         <div className={`text-center py-12 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
           <svg className="w-16 h-16 mx-auto mb-4 opacity-50" fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 13V6a2 2 0 00-2-2H6a2 2 0 00-2 2v7m16 0v5a2 2 0 01-2 2H6a2 2 0 01-2-2v-5m16 0h-2.586a1 1 0 00-.707.293l-2.414 2.414a1 1 0 01-.707.293h-3.172a1 1 0 01-.707-.293l-2.414-2.414A1 1 0 006.586 13H4" />
@@ -217,8 +435,14 @@ const CsvPreview: React.FC<CsvPreviewProps> = ({ data, onReset, darkMode = false
       ) : shouldUseVirtualization && useVirtualization ? (
         /* Virtual Scrolling Table */
         <VirtualizedTable
-          data={sortedData}
-          columns={headers.map((header) => ({
+          rowCount={rows.total ?? Math.min(data.totalRows, VIRTUAL_PAGE_SIZE)} // Placeholders until the first page arrives
+          getRow={rows.getRow}
+          onRowsRendered={handleRowsRendered}
+          rowClassName={(row) =>
+            row.duplicateOf !== undefined ? (darkMode ? 'bg-yellow-500/10' : 'bg-yellow-50') : undefined
+          }
+          rowTitle={(row) => (row.duplicateOf !== undefined ? `Duplicate of row ${row.duplicateOf}` : undefined)}
+          columns={visibleHeaders.map((header) => ({
             key: header,
             header: (
               <div
@@ -229,6 +453,14 @@ const CsvPreview: React.FC<CsvPreviewProps> = ({ data, onReset, darkMode = false
                 {getSortIcon(header)}
               </div>
             ),
+            render: (row: UploadRow) =>
+              isFormulaLike(formatCellValue(row.data[header])) ? (
+                <span title={FORMULA_WARNING} className={darkMode ? 'text-orange-400' : 'text-orange-700'}>
+                  {formatCellValue(row.data[header])}
+                </span>
+              ) : (
+                formatCellValue(row.data[header])
+              ),
             width: 200,
           }))}
           height={500}
@@ -243,7 +475,7 @@ const CsvPreview: React.FC<CsvPreviewProps> = ({ data, onReset, darkMode = false
             }`}>
               <thead className={darkMode ? 'bg-gray-800' : 'bg-gradient-to-r from-indigo-50 to-purple-50'}>
                 <tr>
-                  {headers.map((header, index) => (
+                  {visibleHeaders.map((header, index) => (
                     <th
                       key={index}
                       onClick={() => handleSort(header)}
@@ -262,14 +494,23 @@ const CsvPreview: React.FC<CsvPreviewProps> = ({ data, onReset, darkMode = false
               <tbody className={`divide-y ${
                 darkMode ? 'bg-gray-900/50 divide-gray-800' : 'bg-white divide-gray-200'
               }`}>
-                {paginatedData.map((row, rowIndex) => {
-                  const actualRowNumber = startIndex + rowIndex + 2;
-                  const isDuplicate = duplicateRowMap.has(actualRowNumber);
-                  const duplicateOf = duplicateRowMap.get(actualRowNumber);
+                {paginatedData.length === 0 && (
+                  <tr>
+                    <td
+                      colSpan={visibleHeaders.length || 1}
+                      className={`px-6 py-8 text-center text-sm ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}
+                    >
+                      {rows.loading || rows.total === null ? 'Loading rows...' : 'No matching rows'}
+                    </td>
+                  </tr>
+                )}
+                {paginatedData.map((row) => {
+                  const isDuplicate = row.duplicateOf !== undefined;
+                  const duplicateOf = row.duplicateOf;
                   
                   return (
                   <tr 
-                    key={rowIndex} 
+                    key={row.rowNumber} 
                     className={`transition-smooth ${
                       isDuplicate
                         ? darkMode
@@ -281,15 +522,22 @@ const CsvPreview: React.FC<CsvPreviewProps> = ({ data, onReset, darkMode = false
                     }`}
                     title={isDuplicate ? `Duplicate of row ${duplicateOf}` : undefined}
                   >
-                    {headers.map((header, colIndex) => (
+                    {visibleHeaders.map((header, colIndex) => {
+                      const value = formatCellValue(row.data[header]);
+                      return (
                       <td
                         key={colIndex}
+                        title={isFormulaLike(value) ? FORMULA_WARNING : undefined}
                         className={`px-6 py-4 whitespace-nowrap text-sm ${
-                          darkMode ? 'text-gray-300' : 'text-gray-900'
+                          isFormulaLike(value)
+                            ? darkMode
+                              ? 'bg-orange-500/10 text-orange-400'
+                              : 'bg-orange-50 text-orange-700'
+                            : darkMode ? 'text-gray-300' : 'text-gray-900'
                         }`}
                       >
                         <div className="flex items-center gap-2">
-                          {row[header] || <span className="opacity-50">-</span>}
+                          {value || <span className="opacity-50">-</span>}
                           {colIndex === 0 && isDuplicate && (
                             <span className={`px-2 py-0.5 rounded text-xs font-medium ${
                               darkMode
@@ -301,7 +549,8 @@ const CsvPreview: React.FC<CsvPreviewProps> = ({ data, onReset, darkMode = false
                           )}
                         </div>
                       </td>
-                    ))}
+                      );
+                    })}
                   </tr>
                   );
                 })}
@@ -316,7 +565,7 @@ const CsvPreview: React.FC<CsvPreviewProps> = ({ data, onReset, darkMode = false
             {/* Page Info */}
             <div className="flex items-center gap-2 text-sm">
               <span>
-                Showing {startIndex + 1} to {Math.min(endIndex, sortedData.length)} of {sortedData.length} result{sortedData.length !== 1 ? 's' : ''}
+                Showing {Math.min(startIndex + 1, matchingRows)} to {Math.min(endIndex, matchingRows)} of {matchingRows} result{matchingRows !== 1 ? 's' : ''}
               </span>
               {totalPages > 1 && (
                 <>
@@ -429,7 +678,7 @@ const CsvPreview: React.FC<CsvPreviewProps> = ({ data, onReset, darkMode = false
               </div>
             ) : (
               <div className={`text-xs px-3 py-2 ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>
-                All {sortedData.length} result{sortedData.length !== 1 ? 's' : ''} shown
+                All {matchingRows} result{matchingRows !== 1 ? 's' : ''} shown
               </div>
             )}
           </div>
@@ -1,10 +1,54 @@
 import { useCallback, useState, useRef } from "react";
+import type { Workbook } from "exceljs";
 import { useDropzone } from "react-dropzone";
-import { uploadCsv, DuplicateDetectionOptions } from "../services/api";
-import { CsvData } from "../types";
+import {
+  uploadCsv,
+  uploadCsvInChunks,
+  waitForImport,
+  getPendingUploadSessions,
+  discardPendingUploadSession,
+  DuplicateDetectionOptions,
+  MAX_UPLOAD_SIZE_MB,
+  UPLOAD_CHUNK_SIZE_MB,
+} from "../services/api";
+import {
+  ChunkUploadProgress,
+  CsvData,
+  CsvDialect,
+  ExcelSheetSelection,
+  PendingUploadSession,
+  UploadPhase,
+  UploadProgress,
+} from "../types";
 import { useKeyboardShortcuts } from "../hooks/useKeyboardShortcuts";
 import { useToast } from "../contexts/ToastContext";
 import PreviewModal from "./PreviewModal";
+import {
+  decodeCsvBytes,
+  parseCsvText,
+  sniffCsvDialect,
+} from "../utils/csvDialect";
+import { loadWorkbook, readExcelPreview } from "../utils/excelPreview";
+import {
+  ACCEPTED_FILE_TYPES,
+  FORMAT_LABELS,
+  SUPPORTED_EXTENSIONS,
+  getFormatFromFileName,
+  isSupportedFileName,
+  parseJsonPreview,
+  sniffImportFormat,
+} from "../utils/importFormats";
+
+// Only the start of the file is read for the preview, so large files open instantly
+const PREVIEW_BYTES = 256 * 1024;
+
+const PHASE_LABELS: Record<UploadPhase, string> = {
+  [UploadPhase.QUEUED]: "Waiting to start...",
+  [UploadPhase.PARSING]: "Parsing rows...",
+  [UploadPhase.SAVING]: "Saving imported data...",
+  [UploadPhase.COMPLETED]: "Import complete",
+  [UploadPhase.FAILED]: "Import failed",
+};
 
 interface CsvUploaderProps {
   onUploadSuccess: (data: CsvData) => void;
@@ -23,71 +67,66 @@ const CsvUploader: React.FC<CsvUploaderProps> = ({
 }) => {
   const [dragActive, setDragActive] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
+  const [importProgress, setImportProgress] = useState<UploadProgress | null>(
+    null
+  );
+  const [chunkProgress, setChunkProgress] =
+    useState<ChunkUploadProgress | null>(null);
+  // Chunked uploads that were interrupted; selecting the same file again resumes them
+  const [pendingUploads, setPendingUploads] = useState<PendingUploadSession[]>(
+    () => getPendingUploadSessions()
+  );
   const [previewFile, setPreviewFile] = useState<File | null>(null);
   const [previewData, setPreviewData] = useState<Record<string, string>[]>([]);
   const [previewColumns, setPreviewColumns] = useState<string[]>([]);
+  const [previewDialect, setPreviewDialect] = useState<CsvDialect | null>(
+    null
+  );
+  // Excel workbooks: loaded once, then re-read when another sheet or header row is picked
+  const [previewExcel, setPreviewExcel] = useState<ExcelSheetSelection | null>(
+    null
+  );
+  const workbookRef = useRef<Workbook | null>(null);
   const [showPreview, setShowPreview] = useState(false);
   const { showSuccess, showError } = useToast();
 
   // Parse CSV file for preview
+  // The dialect (delimiter, quote, line ending, encoding) is sniffed unless given
   const parseCsvPreview = useCallback(
     (
-      file: File
-    ): Promise<{ data: Record<string, string>[]; columns: string[] }> => {
+      file: File,
+      dialectOverrides?: Partial<CsvDialect>
+    ): Promise<{
+      data: Record<string, string>[];
+      columns: string[];
+      dialect: CsvDialect;
+    }> => {
       return new Promise((resolve, reject) => {
         const reader = new FileReader();
 
         reader.onload = (e) => {
           try {
-            const text = e.target?.result as string;
-            const lines = text.split("\n").filter((line) => line.trim());
+            const bytes = new Uint8Array(e.target?.result as ArrayBuffer);
+            const isComplete = file.size <= PREVIEW_BYTES;
+            const dialect = sniffCsvDialect(bytes, isComplete, dialectOverrides);
+            const text = decodeCsvBytes(bytes, dialect.encoding, isComplete);
 
-            if (lines.length === 0) {
+            if (!text.trim()) {
               reject(new Error("CSV file is empty"));
               return;
             }
 
-            // Parse header
-            const headerLine = lines[0];
-            const headers = headerLine
-              .split(",")
-              .map((h) => h.trim().replace(/^"|"$/g, ""));
-
-            // Parse data rows (limit to first 10 rows for preview)
-            const previewRows = Math.min(10, lines.length - 1);
-            const data: Record<string, string>[] = [];
-
-            for (let i = 1; i <= previewRows; i++) {
-              const line = lines[i];
-              if (!line.trim()) continue;
-
-              // Simple CSV parsing (handles quoted values)
-              const values: string[] = [];
-              let currentValue = "";
-              let inQuotes = false;
-
-              for (let j = 0; j < line.length; j++) {
-                const char = line[j];
-
-                if (char === '"') {
-                  inQuotes = !inQuotes;
-                } else if (char === "," && !inQuotes) {
-                  values.push(currentValue.trim());
-                  currentValue = "";
-                } else {
-                  currentValue += char;
-                }
-              }
-              values.push(currentValue.trim()); // Add last value
-
+            // Parse header and the first 10 data rows for preview
+            const { columns: headers, rows } = parseCsvText(text, dialect, 10);
+            const data = rows.map((values) => {
               const row: Record<string, string> = {};
               headers.forEach((header, index) => {
                 row[header] = values[index] || "";
               });
-              data.push(row);
-            }
+              return row;
+            });
 
-            resolve({ data, columns: headers });
+            resolve({ data, columns: headers, dialect });
           } catch (error) {
             reject(new Error("Failed to parse CSV file"));
           }
@@ -97,7 +136,7 @@ const CsvUploader: React.FC<CsvUploaderProps> = ({
           reject(new Error("Failed to read file"));
         };
 
-        reader.readAsText(file);
+        reader.readAsArrayBuffer(file.slice(0, PREVIEW_BYTES));
       });
     },
     []
@@ -118,9 +157,11 @@ const CsvUploader: React.FC<CsvUploaderProps> = ({
         if (rejection.errors) {
           const error = rejection.errors[0];
           if (error.code === "file-invalid-type") {
-            errorMessage = "Invalid file type. Please upload a CSV file (.csv)";
+            errorMessage = `Invalid file type. Supported file types: ${SUPPORTED_EXTENSIONS.join(
+              ", "
+            )}`;
           } else if (error.code === "file-too-large") {
-            errorMessage = "File is too large. Maximum file size is 10MB";
+            errorMessage = `File is too large. Maximum file size is ${MAX_UPLOAD_SIZE_MB}MB`;
           } else if (error.code === "file-too-small") {
             errorMessage = "File is too small. Please upload a valid CSV file";
           } else {
@@ -137,24 +178,30 @@ const CsvUploader: React.FC<CsvUploaderProps> = ({
 
       const file = acceptedFiles[0];
       if (!file) {
-        showError("No file selected. Please select a CSV file to upload");
+        showError(
+          "No file selected. Please select a data file to upload"
+        );
         onUploadError("No file selected");
         return;
       }
 
       // Validate file type (double check)
-      if (!file.name.match(/\.(csv)$/i)) {
-        const errorMessage = `Invalid file type: "${file.name}". Please upload a CSV file (.csv)`;
+      if (!isSupportedFileName(file.name)) {
+        const errorMessage = file.name.match(/\.xls$/i)
+          ? `"${file.name}" is an Excel 97-2003 workbook (.xls). Please save it as .xlsx and upload it again`
+          : `Invalid file type: "${file.name}". Supported file types: ${SUPPORTED_EXTENSIONS.join(
+              ", "
+            )}`;
         showError(errorMessage);
         onUploadError(errorMessage);
         return;
       }
 
-      // Validate file size (10MB = 10 * 1024 * 1024 bytes)
-      const maxSize = 10 * 1024 * 1024; // 10MB
+      // Validate file size (limit is configurable, see MAX_UPLOAD_SIZE_MB)
+      const maxSize = MAX_UPLOAD_SIZE_MB * 1024 * 1024;
       if (file.size > maxSize) {
         const fileSizeMB = (file.size / (1024 * 1024)).toFixed(2);
-        const errorMessage = `File "${file.name}" is too large (${fileSizeMB}MB). Maximum file size is 10MB`;
+        const errorMessage = `File "${file.name}" is too large (${fileSizeMB}MB). Maximum file size is ${MAX_UPLOAD_SIZE_MB}MB`;
         showError(errorMessage);
         onUploadError(errorMessage);
         return;
@@ -162,15 +209,85 @@ const CsvUploader: React.FC<CsvUploaderProps> = ({
 
       // Validate file is not empty
       if (file.size === 0) {
-        const errorMessage = `File "${file.name}" is empty. Please upload a valid CSV file with data`;
+        const errorMessage = `File "${file.name}" is empty. Please upload a valid file with data`;
         showError(errorMessage);
         onUploadError(errorMessage);
         return;
       }
 
-      // Parse CSV for preview
+      // The extension says which format the file is in; otherwise (.txt) sniff the content
+      const isComplete = file.size <= PREVIEW_BYTES;
+      const format =
+        getFormatFromFileName(file.name) ??
+        sniffImportFormat(
+          new Uint8Array(await file.slice(0, PREVIEW_BYTES).arrayBuffer()),
+          isComplete
+        );
+
+      // Excel workbooks: preview the first sheet with the header in row 1
+      if (format === "xlsx") {
+        try {
+          const workbook = await loadWorkbook(file);
+          const preview = readExcelPreview(workbook, undefined, 1, 10);
+          workbookRef.current = workbook;
+          setPreviewFile(file);
+          setPreviewData(preview.data);
+          setPreviewColumns(preview.columns);
+          setPreviewDialect(null);
+          setPreviewExcel({
+            sheets: preview.sheets,
+            sheetName: preview.sheetName,
+            headerRow: preview.headerRow,
+          });
+          setShowPreview(true);
+        } catch (error) {
+          const errorMessage = `Failed to read Excel file "${file.name}". Please check that the file is a valid .xlsx workbook`;
+          showError(errorMessage);
+          onUploadError(errorMessage);
+        }
+        return;
+      }
+
+      // JSON and NDJSON: nested objects become dotted columns
+      if (format === "json" || format === "ndjson") {
+        try {
+          const text = await file.slice(0, PREVIEW_BYTES).text();
+          const { data, columns } = parseJsonPreview(
+            text,
+            format,
+            isComplete,
+            10
+          );
+          if (data.length === 0) {
+            const errorMessage = `${FORMAT_LABELS[format]} file "${file.name}" appears to be empty or has no records`;
+            showError(errorMessage);
+            onUploadError(errorMessage);
+            return;
+          }
+          setPreviewFile(file);
+          setPreviewData(data);
+          setPreviewColumns(columns);
+          setPreviewDialect(null);
+          setPreviewExcel(null);
+          setShowPreview(true);
+        } catch (error) {
+          const errorMessage = `Failed to parse ${
+            FORMAT_LABELS[format]
+          } file "${file.name}": ${
+            error instanceof Error ? error.message : "invalid content"
+          }`;
+          showError(errorMessage);
+          onUploadError(errorMessage);
+        }
+        return;
+      }
+
+      // Parse CSV (or TSV) for preview
       try {
-        const { data, columns } = await parseCsvPreview(file);
+        const { data, columns, dialect } = await parseCsvPreview(
+          file,
+          format === "tsv" ? { delimiter: "\t" } : undefined
+        );
 
         // Validate that CSV has data
         if (!data || data.length === 0) {
@@ -191,6 +308,8 @@ const CsvUploader: React.FC<CsvUploaderProps> = ({
         setPreviewFile(file);
         setPreviewData(data);
         setPreviewColumns(columns);
+        setPreviewDialect(dialect);
+        setPreviewExcel(null);
         setShowPreview(true);
       } catch (error) {
         let errorMessage = "Failed to parse CSV file";
@@ -224,8 +343,15 @@ const CsvUploader: React.FC<CsvUploaderProps> = ({
       setShowPreview(false);
 
       try {
-        const result = await uploadCsv(previewFile, options);
-        let successMessage = `CSV file "${
+        // Large files go up in chunks so an interrupted upload can be resumed
+        // The server then queues the import; follow its progress until it finishes
+        const job =
+          previewFile.size > UPLOAD_CHUNK_SIZE_MB * 1024 * 1024
+            ? await uploadCsvInChunks(previewFile, options, setChunkProgress)
+            : await uploadCsv(previewFile, options);
+        setChunkProgress(null);
+        const result = await waitForImport(job.uploadId, setImportProgress);
+        let successMessage = `File "${
           previewFile.name
         }" uploaded successfully! ${result.totalRows} row${
           result.totalRows !== 1 ? "s" : ""
@@ -241,15 +367,21 @@ const CsvUploader: React.FC<CsvUploaderProps> = ({
         onUploadSuccess(result);
       } catch (error) {
         const errorMessage =
-          error instanceof Error ? error.message : "Failed to upload CSV file";
+          error instanceof Error ? error.message : "Failed to upload file";
         showError(errorMessage);
         onUploadError(errorMessage);
       } finally {
         setIsUploading(false);
+        setImportProgress(null);
+        setChunkProgress(null);
+        setPendingUploads(getPendingUploadSessions());
         onLoadingChange(false);
         setPreviewFile(null);
         setPreviewData([]);
         setPreviewColumns([]);
+        setPreviewDialect(null);
+        setPreviewExcel(null);
+        workbookRef.current = null;
       }
     },
     [
@@ -262,23 +394,78 @@ const CsvUploader: React.FC<CsvUploaderProps> = ({
     ]
   );
 
+  // Discard an interrupted chunked upload (deletes its chunks on the server)
+  const handleDiscardPendingUpload = useCallback(
+    async (pending: PendingUploadSession) => {
+      await discardPendingUploadSession(pending);
+      setPendingUploads(getPendingUploadSessions());
+    },
+    []
+  );
+
+  // Re-parse the preview when the user overrides the detected dialect
+  const handleDialectChange = useCallback(
+    async (dialect: CsvDialect) => {
+      if (!previewFile) return;
+      try {
+        const result = await parseCsvPreview(previewFile, dialect);
+        setPreviewData(result.data);
+        setPreviewColumns(result.columns);
+        setPreviewDialect(result.dialect);
+      } catch (error) {
+        showError(
+          error instanceof Error ? error.message : "Failed to parse CSV file"
+        );
+      }
+    },
+    [previewFile, parseCsvPreview, showError]
+  );
+
+  // Re-read the preview when the user picks another sheet or header row
+  const handleExcelChange = useCallback(
+    (selection: { sheetName: string; headerRow: number }) => {
+      if (!workbookRef.current) return;
+      try {
+        const preview = readExcelPreview(
+          workbookRef.current,
+          selection.sheetName,
+          selection.headerRow,
+          10
+        );
+        setPreviewData(preview.data);
+        setPreviewColumns(preview.columns);
+        setPreviewExcel({
+          sheets: preview.sheets,
+          sheetName: preview.sheetName,
+          headerRow: preview.headerRow,
+        });
+      } catch (error) {
+        showError(
+          error instanceof Error ? error.message : "Failed to read Excel file"
+        );
+      }
+    },
+    [showError]
+  );
+
   // Handle cancel preview
   const handleCancelPreview = useCallback(() => {
     setShowPreview(false);
     setPreviewFile(null);
     setPreviewData([]);
     setPreviewColumns([]);
+    setPreviewDialect(null);
+    setPreviewExcel(null);
+    workbookRef.current = null;
   }, []);
 
   const { getRootProps, getInputProps, isDragActive, open } = useDropzone({
     onDrop,
-    accept: {
-      "text/csv": [".csv"],
-    },
+    accept: ACCEPTED_FILE_TYPES,
     multiple: false,
     disabled: loading || isUploading,
     noClick: loading || isUploading,
-    maxSize: 10 * 1024 * 1024, // 10MB
+    maxSize: MAX_UPLOAD_SIZE_MB * 1024 * 1024,
     minSize: 1, // At least 1 byte
   });
 
@@ -298,6 +485,10 @@ const CsvUploader: React.FC<CsvUploaderProps> = ({
           fileName={previewFile.name}
           previewData={previewData}
           columns={previewColumns}
+          dialect={previewDialect ?? undefined}
+          onDialectChange={handleDialectChange}
+          excel={previewExcel ?? undefined}
+          onExcelChange={handleExcelChange}
           onConfirm={handleConfirmUpload}
           onCancel={handleCancelPreview}
           darkMode={darkMode}
@@ -308,6 +499,44 @@ const CsvUploader: React.FC<CsvUploaderProps> = ({
           darkMode ? "-dark" : ""
         } rounded-2xl p-8 transition-smooth hover-lift`}
       >
+        {!isUploading &&
+          pendingUploads.map((pending) => (
+            <div
+              key={pending.key}
+              className={`mb-4 p-4 rounded-xl border flex items-center justify-between gap-4 ${
+                darkMode
+                  ? "bg-amber-900/20 border-amber-700/50 text-amber-200"
+                  : "bg-amber-50 border-amber-200 text-amber-800"
+              }`}
+            >
+              <p className="text-sm">
+                Unfinished upload: <strong>{pending.fileName}</strong> (
+                {Math.round(
+                  (pending.uploadedChunks / pending.totalChunks) * 100
+                )}
+                % uploaded). Select the same file to resume.
+              </p>
+              <div className="flex gap-2 shrink-0">
+                <button
+                  onClick={open}
+                  disabled={loading}
+                  className="px-3 py-1.5 text-sm rounded-lg bg-amber-500 text-white hover:bg-amber-600 transition-colors disabled:opacity-50"
+                >
+                  Resume
+                </button>
+                <button
+                  onClick={() => handleDiscardPendingUpload(pending)}
+                  className={`px-3 py-1.5 text-sm rounded-lg transition-colors ${
+                    darkMode
+                      ? "bg-gray-700 text-gray-200 hover:bg-gray-600"
+                      : "bg-white text-gray-700 hover:bg-gray-100 border border-gray-200"
+                  }`}
+                >
+                  Discard
+                </button>
+              </div>
+            </div>
+          ))}
         <div
           {...getRootProps()}
           className={`
@@ -382,15 +611,75 @@ const CsvUploader: React.FC<CsvUploaderProps> = ({
                     darkMode ? "text-gray-300" : "text-gray-600"
                   }`}
                 >
-                  Uploading and processing CSV...
-                </p>
-                <p
-                  className={`text-sm mt-2 ${
-                    darkMode ? "text-gray-500" : "text-gray-400"
-                  }`}
-                >
-                  Please wait
+                  {importProgress
+                    ? PHASE_LABELS[importProgress.phase]
+                    : chunkProgress
+                    ? chunkProgress.resumed
+                      ? "Resuming upload..."
+                      : "Uploading file in chunks..."
+                    : "Uploading file..."}
                 </p>
+                {chunkProgress && !importProgress ? (
+                  <div className="w-64 mt-3">
+                    <div
+                      className={`h-2 rounded-full overflow-hidden ${
+                        darkMode ? "bg-gray-700" : "bg-gray-200"
+                      }`}
+                    >
+                      <div
+                        className="h-full bg-gradient-to-r from-indigo-500 to-purple-500 transition-all duration-500"
+                        style={{
+                          width: `${
+                            (chunkProgress.uploadedChunks /
+                              chunkProgress.totalChunks) *
+                            100
+                          }%`,
+                        }}
+                      ></div>
+                    </div>
+                    <p
+                      className={`text-sm mt-2 ${
+                        darkMode ? "text-gray-500" : "text-gray-400"
+                      }`}
+                    >
+                      Chunk{" "}
+                      {Math.min(
+                        chunkProgress.uploadedChunks + 1,
+                        chunkProgress.totalChunks
+                      )}{" "}
+                      of {chunkProgress.totalChunks}
+                    </p>
+                  </div>
+                ) : importProgress ? (
+                  <div className="w-64 mt-3">
+                    <div
+                      className={`h-2 rounded-full overflow-hidden ${
+                        darkMode ? "bg-gray-700" : "bg-gray-200"
+                      }`}
+                    >
+                      <div
+                        className="h-full bg-gradient-to-r from-indigo-500 to-purple-500 transition-all duration-500"
+                        style={{ width: `${importProgress.progressPercent}%` }}
+                      ></div>
+                    </div>
+                    <p
+                      className={`text-sm mt-2 ${
+                        darkMode ? "text-gray-500" : "text-gray-400"
+                      }`}
+                    >
+                      {importProgress.rowsProcessed.toLocaleString()} rows
+                      processed • {importProgress.progressPercent}%
+                    </p>
+                  </div>
+                ) : (
+                  <p
+                    className={`text-sm mt-2 ${
+                      darkMode ? "text-gray-500" : "text-gray-400"
+                    }`}
+                  >
+                    Please wait
+                  </p>
+                )}
               </div>
             ) : (
               <>
@@ -400,8 +689,8 @@ const CsvUploader: React.FC<CsvUploaderProps> = ({
                   }`}
                 >
                   {isDragActive
-                    ? "Drop your CSV file here"
-                    : "Drag & drop your CSV file here"}
+                    ? "Drop your data file here"
+                    : "Drag & drop your data file here"}
                 </h3>
                 <p
                   className={`text-lg mb-6 ${
@@ -433,7 +722,9 @@ const CsvUploader: React.FC<CsvUploaderProps> = ({
                     darkMode ? "text-gray-500" : "text-gray-400"
                   }`}
                 >
-                  Only CSV files are supported • Max file size: 10MB
+                  CSV, TSV, JSON, NDJSON and Excel (.xlsx) files are
+                  supported • Max file size:{" "}
+                  {MAX_UPLOAD_SIZE_MB}MB
                 </p>
                 <p
                   className={`text-xs mt-2 ${
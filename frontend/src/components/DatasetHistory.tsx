@@ -0,0 +1,311 @@
+import { Fragment, useCallback, useEffect, useRef, useState } from 'react';
+import { Dataset, DatasetDetail, DatasetsResponse, UploadRecord, UploadStatus } from '../types';
+import { getDataset, getDatasets, setCurrentDatasetVersion } from '../services/api';
+import { getQualityBadgeClass } from '../utils/dataQuality';
+import { useToast } from '../contexts/ToastContext';
+import { useWorkspace } from '../contexts/WorkspaceContext';
+
+interface DatasetHistoryProps {
+  search?: string; // Dataset name search
+  refreshKey?: unknown; // Datasets are fetched again when this changes (e.g. an import finished)
+  onVersionChange?: () => void; // Called after the current version of a dataset changed
+  darkMode?: boolean;
+}
+
+const PAGE_SIZE = 10;
+
+const formatDate = (dateString: string) => new Date(dateString).toLocaleString();
+
+/**
+ * Upload history grouped by dataset: one row per dataset with its current version,
+ * expanding to every version, where an earlier version can be made current again
+ */
+const DatasetHistory: React.FC<DatasetHistoryProps> = ({ search, refreshKey, onVersionChange, darkMode = false }) => {
+  const { showSuccess, showError } = useToast();
+  const { canEdit } = useWorkspace();
+  const [page, setPage] = useState(1);
+  const [pageSearch, setPageSearch] = useState(search);
+  const [result, setResult] = useState<DatasetsResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<Record<string, DatasetDetail | null>>({}); // null while loading
+  const [changingId, setChangingId] = useState<string | null>(null);
+  const expandedRef = useRef(expanded);
+  expandedRef.current = expanded;
+
+  // A new search starts at the first page
+  if (pageSearch !== search) {
+    setPageSearch(search);
+    setPage(1);
+  }
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    getDatasets(search, page, PAGE_SIZE)
+      .then((fetched) => {
+        if (!cancelled) setResult(fetched);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to fetch datasets');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [search, page, refreshKey]);
+
+  const loadVersions = useCallback(async (datasetId: string) => {
+    setExpanded((prev) => ({ ...prev, [datasetId]: prev[datasetId] ?? null }));
+    try {
+      const detail = await getDataset(datasetId);
+      setExpanded((prev) => (datasetId in prev ? { ...prev, [datasetId]: detail } : prev));
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to fetch versions');
+      setExpanded((prev) => {
+        const next = { ...prev };
+        delete next[datasetId];
+        return next;
+      });
+    }
+  }, [showError]);
+
+  // Keep open datasets up to date when the list is fetched again
+  useEffect(() => {
+    const openIds = Object.keys(expandedRef.current);
+    if (openIds.length === 0) return;
+    let cancelled = false;
+    Promise.all(openIds.map((datasetId) => getDataset(datasetId).catch(() => null))).then((details) => {
+      if (cancelled) return;
+      setExpanded((prev) => {
+        const next = { ...prev };
+        details.forEach((detail, index) => {
+          if (detail && openIds[index] in next) next[openIds[index]] = detail;
+        });
+        return next;
+      });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey]);
+
+  const toggleExpanded = (datasetId: string) => {
+    if (datasetId in expanded) {
+      setExpanded((prev) => {
+        const next = { ...prev };
+        delete next[datasetId];
+        return next;
+      });
+    } else {
+      loadVersions(datasetId);
+    }
+  };
+
+  const handleMakeCurrent = async (dataset: Dataset, upload: UploadRecord) => {
+    try {
+      setChangingId(upload.id);
+      const updated = await setCurrentDatasetVersion(dataset.id, upload.id);
+      showSuccess(
+        `${updated.name}: ${
+          dataset.currentVersion !== undefined && upload.version! < dataset.currentVersion ? 'rolled back to' : 'now using'
+        } v${upload.version}`
+      );
+      setResult((prev) => prev && {
+        ...prev,
+        datasets: prev.datasets.map((item) => (item.id === updated.id ? { ...updated, current: upload } : item)),
+      });
+      await loadVersions(dataset.id);
+      onVersionChange?.();
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to change the current version');
+    } finally {
+      setChangingId(null);
+    }
+  };
+
+  const mutedClass = darkMode ? 'text-gray-400' : 'text-gray-500';
+  const cellClass = `px-6 py-4 whitespace-nowrap text-sm ${mutedClass}`;
+  const buttonClass = `px-3 py-1.5 rounded-lg text-sm font-medium transition-smooth ${
+    darkMode ? 'bg-gray-700 text-gray-200 hover:bg-gray-600' : 'bg-white text-gray-700 hover:bg-gray-100 shadow-md'
+  }`;
+  const currentBadgeClass = `px-1.5 py-0.5 rounded text-xs font-semibold ${
+    darkMode ? 'bg-green-500/20 text-green-300' : 'bg-green-100 text-green-700'
+  }`;
+
+  if (loading && !result) {
+    return <div className={`text-center py-12 ${mutedClass}`}>Loading datasets...</div>;
+  }
+  if (error) {
+    return (
+      <div className={`p-4 rounded-xl text-sm ${darkMode ? 'bg-red-500/10 text-red-400' : 'bg-red-50 text-red-700'}`}>
+        {error}
+      </div>
+    );
+  }
+  if (!result || result.datasets.length === 0) {
+    return <div className={`text-center py-12 ${mutedClass}`}>No datasets found</div>;
+  }
+
+  return (
+    <>
+      <div className={`overflow-x-auto rounded-xl border overflow-hidden ${loading ? 'opacity-50' : ''}`}>
+        <table className={`min-w-full divide-y ${darkMode ? 'divide-gray-700' : 'divide-gray-200'}`}>
+          <thead className={darkMode ? 'bg-gray-800' : 'bg-gradient-to-r from-indigo-50 to-purple-50'}>
+            <tr>
+              {['Dataset', 'Current Version', 'Versions', 'Rows', 'Quality', 'Updated At'].map((header) => (
+                <th
+                  key={header}
+                  className={`px-6 py-4 text-left text-xs font-bold uppercase tracking-wider ${
+                    darkMode ? 'text-gray-300' : 'text-gray-700'
+                  }`}
+                >
+                  {header}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className={`divide-y ${darkMode ? 'bg-gray-900/50 divide-gray-800' : 'bg-white divide-gray-200'}`}>
+            {result.datasets.map((dataset) => {
+              const isOpen = dataset.id in expanded;
+              const detail = expanded[dataset.id];
+              return (
+                <Fragment key={dataset.id}>
+                  <tr
+                    onClick={() => toggleExpanded(dataset.id)}
+                    className={`cursor-pointer transition-smooth ${darkMode ? 'hover:bg-gray-800' : 'hover:bg-indigo-50/50'}`}
+                  >
+                    <td className={`px-6 py-4 whitespace-nowrap text-sm font-medium ${darkMode ? 'text-gray-200' : 'text-gray-900'}`}>
+                      <div className="flex items-center gap-2">
+                        <svg
+                          className={`w-4 h-4 transition-transform ${isOpen ? 'rotate-90' : ''} ${darkMode ? 'text-indigo-400' : 'text-indigo-600'}`}
+                          fill="none"
+                          stroke="currentColor"
+                          viewBox="0 0 24 24"
+                        >
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                        </svg>
+                        {dataset.name}
+                      </div>
+                    </td>
+                    <td className={cellClass}>
+                      {dataset.current ? (
+                        <span title={dataset.current.fileName}>
+                          v{dataset.currentVersion} • {dataset.current.fileName}
+                        </span>
+                      ) : (
+                        <span className="opacity-50">No successful version</span>
+                      )}
+                    </td>
+                    <td className={cellClass}>{dataset.versionCount}</td>
+                    <td className={cellClass}>{dataset.current?.totalRows ?? <span className="opacity-50">-</span>}</td>
+                    <td className={cellClass}>
+                      {dataset.current?.quality ? (
+                        <span className={`px-2 py-0.5 rounded text-xs font-bold ${getQualityBadgeClass(dataset.current.quality.score, darkMode)}`}>
+                          {dataset.current.quality.score}
+                        </span>
+                      ) : (
+                        <span className="opacity-50">-</span>
+                      )}
+                    </td>
+                    <td className={cellClass}>{formatDate(dataset.updatedAt)}</td>
+                  </tr>
+                  {isOpen && (
+                    <tr className={darkMode ? 'bg-gray-800/40' : 'bg-gray-50'}>
+                      <td colSpan={6} className="px-6 py-3">
+                        {!detail ? (
+                          <div className={`text-sm ${mutedClass}`}>Loading versions...</div>
+                        ) : (
+                          <table className="min-w-full text-sm">
+                            <thead>
+                              <tr className={`text-left text-xs font-bold uppercase tracking-wider ${mutedClass}`}>
+                                <th className="py-2 pr-4">Version</th>
+                                <th className="py-2 pr-4">File Name</th>
+                                <th className="py-2 pr-4">Status</th>
+                                <th className="py-2 pr-4">Rows</th>
+                                <th className="py-2 pr-4">Quality</th>
+                                <th className="py-2 pr-4">Uploaded At</th>
+                                <th className="py-2" />
+                              </tr>
+                            </thead>
+                            <tbody className={`divide-y ${darkMode ? 'divide-gray-700 text-gray-300' : 'divide-gray-200 text-gray-700'}`}>
+                              {detail.versions.map((version) => (
+                                <tr key={version.id}>
+                                  <td className="py-2 pr-4 whitespace-nowrap font-semibold">
+                                    v{version.version}
+                                    {version.current && <span className={`ml-2 ${currentBadgeClass}`}>current</span>}
+                                  </td>
+                                  <td className="py-2 pr-4 whitespace-nowrap">{version.fileName}</td>
+                                  <td className="py-2 pr-4 whitespace-nowrap capitalize">{version.status}</td>
+                                  <td className="py-2 pr-4 whitespace-nowrap">{version.totalRows ?? <span className="opacity-50">-</span>}</td>
+                                  <td className="py-2 pr-4 whitespace-nowrap">
+                                    {version.quality ? (
+                                      <span className={`px-2 py-0.5 rounded text-xs font-bold ${getQualityBadgeClass(version.quality.score, darkMode)}`}>
+                                        {version.quality.score}
+                                      </span>
+                                    ) : (
+                                      <span className="opacity-50">-</span>
+                                    )}
+                                  </td>
+                                  <td className="py-2 pr-4 whitespace-nowrap">{formatDate(version.uploadedAt)}</td>
+                                  <td className="py-2 text-right whitespace-nowrap">
+                                    {canEdit && version.status === UploadStatus.SUCCESS && !version.current && (
+                                      <button
+                                        onClick={() => handleMakeCurrent(detail.dataset, version)}
+                                        disabled={changingId !== null}
+                                        className={`${buttonClass} ${changingId !== null ? 'opacity-50 cursor-not-allowed' : ''}`}
+                                      >
+                                        {changingId === version.id
+                                          ? 'Saving...'
+                                          : detail.dataset.currentVersion !== undefined && version.version! < detail.dataset.currentVersion
+                                            ? 'Roll Back'
+                                            : 'Make Current'}
+                                      </button>
+                                    )}
+                                  </td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        )}
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {result.totalPages > 1 && (
+        <div className={`mt-6 flex items-center justify-between gap-4 text-sm ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+          <span>
+            {result.total.toLocaleString()} dataset{result.total !== 1 ? 's' : ''} • Page {result.page} of {result.totalPages}
+          </span>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setPage(page - 1)}
+              disabled={!result.hasPreviousPage}
+              className={`${buttonClass} ${!result.hasPreviousPage ? 'opacity-50 cursor-not-allowed' : ''}`}
+            >
+              Previous
+            </button>
+            <button
+              onClick={() => setPage(page + 1)}
+              disabled={!result.hasNextPage}
+              className={`${buttonClass} ${!result.hasNextPage ? 'opacity-50 cursor-not-allowed' : ''}`}
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default DatasetHistory;
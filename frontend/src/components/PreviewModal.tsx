@@ -1,20 +1,55 @@
-import { useMemo, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import {
   detectColumnType,
   getDataTypeLabel,
   getDataTypeColor,
 } from "../utils/dataTypeDetection";
 import { useDebounce } from "../hooks/useDebounce";
+import {
+  DELIMITER_OPTIONS,
+  ENCODING_OPTIONS,
+  LINE_ENDING_OPTIONS,
+  QUOTE_OPTIONS,
+} from "../utils/csvDialect";
+import {
+  CsvDialect,
+  Dataset,
+  ExcelSheetSelection,
+  ImportTemplate,
+  ImportTemplateSuggestion,
+  ValidationRules,
+  ValidationSchema,
+} from "../types";
+import {
+  createImportTemplate,
+  createValidationSchema,
+  getDatasets,
+  getImportTemplates,
+  getValidationSchemas,
+  suggestImportTemplates,
+} from "../services/api";
 
 interface PreviewModalProps {
   fileName: string;
   previewData: Record<string, string>[];
   columns: string[];
+  dialect?: CsvDialect; // CSV files
+  onDialectChange: (dialect: CsvDialect) => void;
+  excel?: ExcelSheetSelection; // Excel workbooks
+  onExcelChange: (selection: { sheetName: string; headerRow: number }) => void;
   onConfirm: (options?: {
+    dialect?: CsvDialect;
+    sheetName?: string;
+    headerRow?: number;
     detectDuplicates: boolean;
     duplicateColumns?: string[];
     handleDuplicates: "skip" | "keep" | "mark";
     columnMapping?: Record<string, string>;
+    validationSchemaId?: string;
+    validationRules?: ValidationRules;
+    templateId?: string;
+    coerceTypes?: boolean;
+    datasetId?: string;
   }) => void;
   onCancel: () => void;
   darkMode?: boolean;
@@ -24,6 +59,10 @@ const PreviewModal: React.FC<PreviewModalProps> = ({
   fileName,
   previewData,
   columns,
+  dialect,
+  onDialectChange,
+  excel,
+  onExcelChange,
   onConfirm,
   onCancel,
   darkMode = false,
@@ -39,6 +78,77 @@ const PreviewModal: React.FC<PreviewModalProps> = ({
   );
   const [searchQuery, setSearchQuery] = useState("");
   const debouncedSearchQuery = useDebounce(searchQuery, 300);
+  // Validation rules: none, a saved schema (its ID) or custom rules written as JSON
+  const [validationSchemas, setValidationSchemas] = useState<
+    ValidationSchema[]
+  >([]);
+  const [validationChoice, setValidationChoice] = useState("none");
+  const [customRules, setCustomRules] = useState("");
+  const [customSchemaName, setCustomSchemaName] = useState("");
+  const [rulesError, setRulesError] = useState<string | null>(null);
+
+  // Import templates: the one applied, and the best match for the file's headers
+  const [templates, setTemplates] = useState<ImportTemplate[]>([]);
+  const [templateId, setTemplateId] = useState<string | null>(null);
+  const [suggestion, setSuggestion] = useState<ImportTemplateSuggestion | null>(
+    null
+  );
+  const [templateName, setTemplateName] = useState("");
+  const [templateError, setTemplateError] = useState<string | null>(null);
+  const [coerceTypes, setCoerceTypes] = useState(false);
+  // Dataset the file becomes the next version of (a new dataset if null)
+  const [datasets, setDatasets] = useState<Dataset[]>([]);
+  const [datasetId, setDatasetId] = useState<string | null>(null);
+
+  useEffect(() => {
+    getValidationSchemas()
+      .then(setValidationSchemas)
+      .catch(() => setValidationSchemas([]));
+    getImportTemplates()
+      .then(setTemplates)
+      .catch(() => setTemplates([]));
+  }, []);
+
+  // Offer the dataset named like the file (the name a new dataset would get) first
+  useEffect(() => {
+    let cancelled = false;
+    getDatasets(undefined, 1, 100)
+      .then(({ datasets: fetched }) => {
+        if (cancelled) return;
+        const baseName = fileName.replace(/\.[^.]+$/, "") || fileName;
+        setDatasets(fetched);
+        setDatasetId(
+          fetched.find((dataset) => dataset.name === baseName)?.id ?? null
+        );
+      })
+      .catch(() => {
+        if (!cancelled) setDatasets([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [fileName]);
+
+  // Suggest a template whenever the headers change (e.g. another sheet or delimiter)
+  const columnsKey = columns.join("\u0000");
+  useEffect(() => {
+    const headers = columnsKey ? columnsKey.split("\u0000") : [];
+    if (headers.length === 0) {
+      setSuggestion(null);
+      return;
+    }
+    let cancelled = false;
+    suggestImportTemplates(headers)
+      .then((suggestions) => {
+        if (!cancelled) setSuggestion(suggestions[0] ?? null);
+      })
+      .catch(() => {
+        if (!cancelled) setSuggestion(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [columnsKey]);
 
   // Detect column types
   const columnTypes = useMemo(() => {
@@ -97,8 +207,119 @@ const PreviewModal: React.FC<PreviewModalProps> = ({
     });
   };
 
+  // Parses the custom rules; shows the problem and returns undefined if they are not valid JSON
+  const parseCustomRules = (): ValidationRules | undefined => {
+    try {
+      const rules = JSON.parse(customRules);
+      if (!rules || typeof rules !== "object" || Array.isArray(rules)) {
+        throw new Error("Rules must be a JSON object");
+      }
+      setRulesError(null);
+      return rules;
+    } catch (error) {
+      setRulesError(
+        error instanceof Error ? error.message : "Rules must be valid JSON"
+      );
+      return undefined;
+    }
+  };
+
+  const handleSaveCustomRules = async () => {
+    const rules = parseCustomRules();
+    if (!rules || !customSchemaName.trim()) return;
+    try {
+      const saved = await createValidationSchema({
+        name: customSchemaName.trim(),
+        schema: rules,
+      });
+      setValidationSchemas((prev) =>
+        [...prev, saved].sort((a, b) => a.name.localeCompare(b.name))
+      );
+      setValidationChoice(saved.id);
+      setCustomSchemaName("");
+    } catch (error) {
+      setRulesError(
+        error instanceof Error ? error.message : "Failed to save rules"
+      );
+    }
+  };
+
+  // Fills in the settings of a template; they can still be changed before importing
+  const applyTemplate = (template: ImportTemplate) => {
+    setTemplateId(template.id);
+    setTemplateError(null);
+    setDetectDuplicates(template.detectDuplicates);
+    setSelectedColumns(template.duplicateColumns ?? []);
+    setHandleDuplicates(template.handleDuplicates);
+    setColumnMapping(template.columnMapping ?? {});
+    setEnableColumnMapping(
+      Object.keys(template.columnMapping ?? {}).length > 0
+    );
+    if (template.validation) {
+      setValidationChoice("custom");
+      setCustomRules(JSON.stringify(template.validation, null, 2));
+    } else {
+      setValidationChoice("none");
+      setCustomRules("");
+    }
+    setRulesError(null);
+    if (dialect && template.dialect) {
+      onDialectChange({ ...dialect, ...template.dialect });
+    }
+  };
+
+  // Saves the current settings as a template for files with these headers
+  const handleSaveTemplate = async () => {
+    if (!templateName.trim()) return;
+    let validationRules: ValidationRules | undefined;
+    if (validationChoice === "custom" && customRules.trim()) {
+      validationRules = parseCustomRules();
+      if (!validationRules) return;
+    } else if (validationChoice !== "none") {
+      validationRules = validationSchemas.find(
+        (schema) => schema.id === validationChoice
+      )?.schema;
+    }
+    try {
+      const saved = await createImportTemplate({
+        name: templateName.trim(),
+        expectedHeaders: columns,
+        detectDuplicates,
+        duplicateColumns:
+          detectDuplicates && selectedColumns.length > 0
+            ? selectedColumns
+            : undefined,
+        handleDuplicates,
+        columnMapping:
+          enableColumnMapping && Object.keys(columnMapping).length > 0
+            ? columnMapping
+            : undefined,
+        validationRules,
+        dialect,
+      });
+      setTemplates((prev) =>
+        [...prev, saved].sort((a, b) => a.name.localeCompare(b.name))
+      );
+      setTemplateId(saved.id);
+      setTemplateName("");
+      setTemplateError(null);
+    } catch (error) {
+      setTemplateError(
+        error instanceof Error ? error.message : "Failed to save template"
+      );
+    }
+  };
+
   const handleConfirm = () => {
+    let validationRules: ValidationRules | undefined;
+    if (validationChoice === "custom" && customRules.trim()) {
+      validationRules = parseCustomRules();
+      if (!validationRules) return;
+    }
     onConfirm({
+      dialect,
+      sheetName: excel?.sheetName,
+      headerRow: excel?.headerRow,
       detectDuplicates,
       duplicateColumns:
         detectDuplicates && selectedColumns.length > 0
@@ -109,6 +330,14 @@ const PreviewModal: React.FC<PreviewModalProps> = ({
         enableColumnMapping && Object.keys(columnMapping).length > 0
           ? columnMapping
           : undefined,
+      validationSchemaId:
+        validationChoice !== "none" && validationChoice !== "custom"
+          ? validationChoice
+          : undefined,
+      validationRules,
+      templateId: templateId ?? undefined,
+      coerceTypes,
+      datasetId: datasetId ?? undefined,
     });
   };
 
@@ -125,6 +354,30 @@ const PreviewModal: React.FC<PreviewModalProps> = ({
     });
   };
 
+  // Rows of the File Format section: each dialect setting with its choices
+  const dialectSettings: Array<{
+    key: keyof CsvDialect;
+    label: string;
+    options: Array<{ value: string; label: string }>;
+  }> = !dialect
+    ? []
+    : [
+        {
+          key: "delimiter",
+          label: "Delimiter",
+          // Keep an explicitly chosen unusual delimiter selectable
+          options: DELIMITER_OPTIONS.some((o) => o.value === dialect.delimiter)
+            ? DELIMITER_OPTIONS
+            : [
+                ...DELIMITER_OPTIONS,
+                { value: dialect.delimiter, label: `"${dialect.delimiter}"` },
+              ],
+        },
+        { key: "quote", label: "Quote", options: QUOTE_OPTIONS },
+        { key: "lineEnding", label: "Line ending", options: LINE_ENDING_OPTIONS },
+        { key: "encoding", label: "Encoding", options: ENCODING_OPTIONS },
+      ];
+
   const toggleColumn = (column: string) => {
     setSelectedColumns((prev) =>
       prev.includes(column)
@@ -265,6 +518,157 @@ const PreviewModal: React.FC<PreviewModalProps> = ({
             </div>
           </div>
 
+          {/* File Format (detected dialect, can be overridden) */}
+          {dialect && (
+            <div
+              className={`mb-6 p-3 rounded-xl border-2 ${
+                darkMode
+                  ? "bg-gray-800/50 border-gray-700"
+                  : "bg-gray-50 border-gray-200"
+              }`}
+            >
+              <h3
+                className={`text-sm font-semibold mb-1 ${
+                  darkMode ? "text-gray-300" : "text-gray-700"
+                }`}
+              >
+                File Format
+              </h3>
+              <p
+                className={`text-xs mb-3 ${
+                  darkMode ? "text-gray-400" : "text-gray-500"
+                }`}
+              >
+                Detected automatically. If the preview looks wrong, pick the
+                correct settings.
+              </p>
+              <div className="space-y-2">
+                {dialectSettings.map((setting) => (
+                  <div
+                    key={setting.key}
+                    className="flex flex-wrap items-center gap-1.5"
+                  >
+                    <span
+                      className={`text-xs font-medium w-24 ${
+                        darkMode ? "text-gray-400" : "text-gray-600"
+                      }`}
+                    >
+                      {setting.label}:
+                    </span>
+                    {setting.options.map((option) => (
+                      <button
+                        key={option.value || "none"}
+                        onClick={() =>
+                          onDialectChange({
+                            ...dialect,
+                            [setting.key]: option.value,
+                          })
+                        }
+                        className={`px-2 py-1 rounded-lg text-xs font-medium transition-smooth ${
+                          dialect[setting.key] === option.value
+                            ? "bg-indigo-600 text-white"
+                            : darkMode
+                            ? "bg-gray-700 text-gray-300 hover:bg-gray-600"
+                            : "bg-white text-gray-700 hover:bg-gray-50 border border-gray-300"
+                        }`}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Worksheet (Excel workbooks: sheet and header row to import) */}
+          {excel && (
+            <div
+              className={`mb-6 p-3 rounded-xl border-2 ${
+                darkMode
+                  ? "bg-gray-800/50 border-gray-700"
+                  : "bg-gray-50 border-gray-200"
+              }`}
+            >
+              <h3
+                className={`text-sm font-semibold mb-1 ${
+                  darkMode ? "text-gray-300" : "text-gray-700"
+                }`}
+              >
+                Worksheet
+              </h3>
+              <p
+                className={`text-xs mb-3 ${
+                  darkMode ? "text-gray-400" : "text-gray-500"
+                }`}
+              >
+                Pick the sheet to import and the row that holds the column
+                headers. Rows above the header row are skipped.
+              </p>
+              <div className="space-y-2">
+                <div className="flex flex-wrap items-center gap-1.5">
+                  <span
+                    className={`text-xs font-medium w-24 ${
+                      darkMode ? "text-gray-400" : "text-gray-600"
+                    }`}
+                  >
+                    Sheet:
+                  </span>
+                  {excel.sheets.map((sheet) => (
+                    <button
+                      key={sheet}
+                      onClick={() =>
+                        onExcelChange({
+                          sheetName: sheet,
+                          headerRow: excel.headerRow,
+                        })
+                      }
+                      className={`px-2 py-1 rounded-lg text-xs font-medium transition-smooth ${
+                        excel.sheetName === sheet
+                          ? "bg-indigo-600 text-white"
+                          : darkMode
+                          ? "bg-gray-700 text-gray-300 hover:bg-gray-600"
+                          : "bg-white text-gray-700 hover:bg-gray-50 border border-gray-300"
+                      }`}
+                    >
+                      {sheet}
+                    </button>
+                  ))}
+                </div>
+                <div className="flex flex-wrap items-center gap-1.5">
+                  <label
+                    htmlFor="excel-header-row"
+                    className={`text-xs font-medium w-24 ${
+                      darkMode ? "text-gray-400" : "text-gray-600"
+                    }`}
+                  >
+                    Header row:
+                  </label>
+                  <input
+                    id="excel-header-row"
+                    type="number"
+                    min={1}
+                    value={excel.headerRow}
+                    onChange={(e) => {
+                      const headerRow = parseInt(e.target.value, 10);
+                      if (Number.isInteger(headerRow) && headerRow >= 1) {
+                        onExcelChange({
+                          sheetName: excel.sheetName,
+                          headerRow,
+                        });
+                      }
+                    }}
+                    className={`w-20 px-2 py-1 rounded-lg text-xs border focus:outline-none focus:ring-2 focus:ring-indigo-500 ${
+                      darkMode
+                        ? "bg-gray-700 border-gray-600 text-gray-200"
+                        : "bg-white border-gray-300 text-gray-700"
+                    }`}
+                  />
+                </div>
+              </div>
+            </div>
+          )}
+
           {/* Column Information */}
           <div
             className={`mb-6 p-3 rounded-xl border-2 ${
@@ -425,6 +829,111 @@ const PreviewModal: React.FC<PreviewModalProps> = ({
             </div>
           </div>
 
+          {/* Import Template */}
+          <div
+            className={`mb-6 p-3 rounded-xl border-2 ${
+              darkMode
+                ? "bg-gray-800/50 border-gray-700"
+                : "bg-gray-50 border-gray-200"
+            }`}
+          >
+            <h3
+              className={`text-sm font-semibold mb-1 ${
+                darkMode ? "text-gray-300" : "text-gray-700"
+              }`}
+            >
+              Import Template
+            </h3>
+            <p
+              className={`text-xs mb-3 ${
+                darkMode ? "text-gray-400" : "text-gray-500"
+              }`}
+            >
+              Reuse the duplicate, mapping, validation and format settings of a
+              file you imported before, or save the current settings.
+            </p>
+
+            {suggestion && suggestion.template.id !== templateId && (
+              <div
+                className={`mb-3 p-2 rounded-lg flex flex-wrap items-center justify-between gap-2 text-xs ${
+                  darkMode
+                    ? "bg-indigo-500/20 border border-indigo-500/30 text-indigo-300"
+                    : "bg-indigo-50 border border-indigo-200 text-indigo-800"
+                }`}
+              >
+                <span>
+                  Suggested: <strong>{suggestion.template.name}</strong> (
+                  {Math.round(suggestion.score * 100)}% of headers match
+                  {suggestion.missingHeaders.length > 0 &&
+                    `; missing ${suggestion.missingHeaders.join(", ")}`}
+                  )
+                </span>
+                <button
+                  onClick={() => applyTemplate(suggestion.template)}
+                  className="px-3 py-1 rounded-lg font-medium bg-indigo-600 text-white hover:bg-indigo-700 transition-smooth"
+                >
+                  Apply
+                </button>
+              </div>
+            )}
+
+            {templates.length > 0 && (
+              <div className="flex flex-wrap gap-1.5 mb-3">
+                {templates.map((template) => (
+                  <button
+                    key={template.id}
+                    onClick={() => applyTemplate(template)}
+                    className={`px-2 py-1 rounded-lg text-xs font-medium transition-smooth truncate max-w-[160px] ${
+                      templateId === template.id
+                        ? "bg-indigo-600 text-white"
+                        : darkMode
+                        ? "bg-gray-700 text-gray-300 hover:bg-gray-600"
+                        : "bg-white text-gray-700 hover:bg-gray-50 border border-gray-300"
+                    }`}
+                    title={template.description || template.name}
+                  >
+                    {template.name}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            <div className="flex flex-wrap items-center gap-1.5">
+              <input
+                type="text"
+                value={templateName}
+                onChange={(e) => setTemplateName(e.target.value)}
+                placeholder="Template name"
+                className={`px-2 py-1 rounded-lg text-xs border focus:outline-none focus:ring-2 focus:ring-indigo-500 ${
+                  darkMode
+                    ? "bg-gray-700 border-gray-600 text-gray-200"
+                    : "bg-white border-gray-300 text-gray-700"
+                }`}
+              />
+              <button
+                onClick={handleSaveTemplate}
+                disabled={!templateName.trim()}
+                className={`px-3 py-1 rounded-lg text-xs font-medium transition-smooth disabled:opacity-50 ${
+                  darkMode
+                    ? "bg-gray-700 text-gray-300 hover:bg-gray-600"
+                    : "bg-white text-gray-700 hover:bg-gray-50 border border-gray-300"
+                }`}
+              >
+                Save Settings as Template
+              </button>
+            </div>
+
+            {templateError && (
+              <p
+                className={`text-xs mt-2 ${
+                  darkMode ? "text-red-400" : "text-red-600"
+                }`}
+              >
+                {templateError}
+              </p>
+            )}
+          </div>
+
           {/* Duplicate Detection Options */}
           <div
             className={`mb-6 p-3 rounded-xl border-2 ${
@@ -700,6 +1209,213 @@ const PreviewModal: React.FC<PreviewModalProps> = ({
               </div>
             )}
           </div>
+
+          {/* Validation Rules */}
+          <div
+            className={`mb-6 p-3 rounded-xl border-2 ${
+              darkMode
+                ? "bg-gray-800/50 border-gray-700"
+                : "bg-gray-50 border-gray-200"
+            }`}
+          >
+            <h3
+              className={`text-sm font-semibold mb-1 ${
+                darkMode ? "text-gray-300" : "text-gray-700"
+              }`}
+            >
+              Validation Rules
+            </h3>
+            <p
+              className={`text-xs mb-3 ${
+                darkMode ? "text-gray-400" : "text-gray-500"
+              }`}
+            >
+              Check rows against rules while importing. Rules use the column
+              names after mapping; each rule either warns, rejects the row or
+              fails the upload.
+            </p>
+            <div className="flex flex-wrap gap-1.5">
+              {[
+                { value: "none", label: "No Rules" },
+                ...validationSchemas.map((schema) => ({
+                  value: schema.id,
+                  label: schema.name,
+                })),
+                { value: "custom", label: "Custom Rules (JSON)" },
+              ].map((option) => (
+                <button
+                  key={option.value}
+                  onClick={() => {
+                    setValidationChoice(option.value);
+                    setRulesError(null);
+                  }}
+                  className={`px-2 py-1 rounded-lg text-xs font-medium transition-smooth truncate max-w-[160px] ${
+                    validationChoice === option.value
+                      ? "bg-indigo-600 text-white"
+                      : darkMode
+                      ? "bg-gray-700 text-gray-300 hover:bg-gray-600"
+                      : "bg-white text-gray-700 hover:bg-gray-50 border border-gray-300"
+                  }`}
+                  title={
+                    validationSchemas.find(
+                      (schema) => schema.id === option.value
+                    )?.description || option.label
+                  }
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+
+            {validationChoice === "custom" && (
+              <div className="mt-3 space-y-2">
+                <textarea
+                  value={customRules}
+                  onChange={(e) => setCustomRules(e.target.value)}
+                  rows={6}
+                  spellCheck={false}
+                  placeholder={`{\n  "severity": "reject_row",\n  "columns": [{ "column": "${
+                    columns[0] || "email"
+                  }", "required": true }]\n}`}
+                  className={`w-full px-3 py-2 rounded-xl border text-xs font-mono transition-smooth ${
+                    darkMode
+                      ? "bg-gray-800 border-gray-700 text-gray-200 placeholder-gray-500 focus:border-indigo-500 focus:ring-2 focus:ring-indigo-500/20"
+                      : "bg-white border-gray-300 text-gray-900 placeholder-gray-400 focus:border-indigo-300 focus:ring-2 focus:ring-indigo-300"
+                  }`}
+                />
+                <div className="flex flex-wrap items-center gap-1.5">
+                  <input
+                    type="text"
+                    value={customSchemaName}
+                    onChange={(e) => setCustomSchemaName(e.target.value)}
+                    placeholder="Schema name"
+                    className={`px-2 py-1 rounded-lg text-xs border focus:outline-none focus:ring-2 focus:ring-indigo-500 ${
+                      darkMode
+                        ? "bg-gray-700 border-gray-600 text-gray-200"
+                        : "bg-white border-gray-300 text-gray-700"
+                    }`}
+                  />
+                  <button
+                    onClick={handleSaveCustomRules}
+                    disabled={!customRules.trim() || !customSchemaName.trim()}
+                    className={`px-3 py-1 rounded-lg text-xs font-medium transition-smooth disabled:opacity-50 ${
+                      darkMode
+                        ? "bg-gray-700 text-gray-300 hover:bg-gray-600"
+                        : "bg-white text-gray-700 hover:bg-gray-50 border border-gray-300"
+                    }`}
+                  >
+                    Save as Schema
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {rulesError && (
+              <p
+                className={`text-xs mt-2 ${
+                  darkMode ? "text-red-400" : "text-red-600"
+                }`}
+              >
+                {rulesError}
+              </p>
+            )}
+          </div>
+
+          {/* Dataset */}
+          <div
+            className={`mb-6 p-3 rounded-xl border-2 ${
+              darkMode
+                ? "bg-gray-800/50 border-gray-700"
+                : "bg-gray-50 border-gray-200"
+            }`}
+          >
+            <h3
+              className={`text-sm font-semibold mb-1 ${
+                darkMode ? "text-gray-300" : "text-gray-700"
+              }`}
+            >
+              Dataset
+            </h3>
+            <p
+              className={`text-xs mb-3 ${
+                darkMode ? "text-gray-400" : "text-gray-500"
+              }`}
+            >
+              Import the file as the next version of an existing dataset, or
+              start a new one. A successful import becomes the current version;
+              earlier versions are kept and can be made current again.
+            </p>
+            <div className="flex flex-wrap gap-1.5">
+              {[
+                { value: null, label: "New Dataset" },
+                ...datasets.map((dataset) => ({
+                  value: dataset.id,
+                  label: `${dataset.name} (v${dataset.latestVersion + 1})`,
+                })),
+              ].map((option) => (
+                <button
+                  key={option.value ?? "new"}
+                  onClick={() => setDatasetId(option.value)}
+                  className={`px-2 py-1 rounded-lg text-xs font-medium transition-smooth truncate max-w-[200px] ${
+                    datasetId === option.value
+                      ? "bg-indigo-600 text-white"
+                      : darkMode
+                      ? "bg-gray-700 text-gray-300 hover:bg-gray-600"
+                      : "bg-white text-gray-700 hover:bg-gray-50 border border-gray-300"
+                  }`}
+                  title={option.label}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Typed Values */}
+          <div
+            className={`mb-6 p-3 rounded-xl border-2 ${
+              darkMode
+                ? "bg-gray-800/50 border-gray-700"
+                : "bg-gray-50 border-gray-200"
+            }`}
+          >
+            <h3
+              className={`text-sm font-semibold mb-1 ${
+                darkMode ? "text-gray-300" : "text-gray-700"
+              }`}
+            >
+              Stored Values
+            </h3>
+            <p
+              className={`text-xs mb-3 ${
+                darkMode ? "text-gray-400" : "text-gray-500"
+              }`}
+            >
+              Column types are detected after import. Typed values sort and
+              aggregate as numbers and dates; text keeps values exactly as
+              written. This can be changed later from the upload history.
+            </p>
+            <div className="flex flex-wrap gap-1.5">
+              {[
+                { value: false, label: "Text" },
+                { value: true, label: "Typed Values" },
+              ].map((option) => (
+                <button
+                  key={option.label}
+                  onClick={() => setCoerceTypes(option.value)}
+                  className={`px-2 py-1 rounded-lg text-xs font-medium transition-smooth ${
+                    coerceTypes === option.value
+                      ? "bg-indigo-600 text-white"
+                      : darkMode
+                      ? "bg-gray-700 text-gray-300 hover:bg-gray-600"
+                      : "bg-white text-gray-700 hover:bg-gray-50 border border-gray-300"
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
         </div>
         {/* Footer with Actions */}
         <div className="flex justify-between items-center pt-4 border-t border-gray-200 dark:border-gray-700 flex-shrink-0">
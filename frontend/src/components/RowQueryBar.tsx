@@ -0,0 +1,279 @@
+import { useState, useRef, useEffect, useMemo } from 'react';
+
+interface RowQueryBarProps {
+  value: string;
+  onChange: (value: string) => void;
+  columns: string[]; // Offered while typing
+  error?: string | null; // Message for an invalid expression, shown below the input
+  darkMode?: boolean;
+}
+
+interface Suggestion {
+  label: string;
+  insert: string; // Replaces the word being typed
+  kind: 'column' | 'keyword';
+}
+
+const CONDITION_KEYWORDS = ['IN', 'NOT IN', 'IS EMPTY', 'IS NOT EMPTY'];
+const JOIN_KEYWORDS = ['AND', 'OR', 'NOT'];
+const VALUE_KEYWORDS = ['TRUE', 'FALSE'];
+const KEYWORDS = ['AND', 'OR', 'NOT', 'IN', 'IS', 'EMPTY', 'TRUE', 'FALSE'];
+
+const EXAMPLE = 'age > 30 AND country IN ("DE", "FR") AND email ~ "@acme"';
+
+/**
+ * Column name as written in an expression: names that are not plain words go in backticks
+ */
+const quoteColumn = (column: string) =>
+  /^[A-Za-z_][A-Za-z0-9_]*$/.test(column) && !KEYWORDS.includes(column.toUpperCase())
+    ? column
+    : `\`${column.replace(/[\\`]/g, '\\$&')}\``;
+
+/**
+ * The word being typed at the caret (a plain word, or a column name after an unclosed backtick),
+ * or null inside quoted text
+ */
+const findWordAtCaret = (text: string, caret: number): { start: number; word: string } | null => {
+  let quote: string | null = null;
+  let quoteStart = 0;
+  for (let index = 0; index < caret; index++) {
+    const char = text[index];
+    if (quote) {
+      if (char === '\\') index++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'" || char === '`') {
+      quote = char;
+      quoteStart = index;
+    }
+  }
+  if (quote === '`') return { start: quoteStart, word: text.slice(quoteStart + 1, caret) };
+  if (quote) return null;
+
+  let start = caret;
+  while (start > 0 && /[A-Za-z0-9_]/.test(text[start - 1])) start--;
+  return { start, word: text.slice(start, caret) };
+};
+
+/**
+ * Columns and keywords that fit at the caret
+ * - At the start, after "(", AND, OR or NOT: columns (and NOT)
+ * - After a column name: IN, IS EMPTY, ...
+ * - Elsewhere, while a word is typed: matching columns and keywords
+ */
+const getSuggestions = (text: string, caret: number, columns: string[]): { start: number; items: Suggestion[] } => {
+  const current = findWordAtCaret(text, caret);
+  if (!current) return { start: caret, items: [] };
+
+  const before = text.slice(0, current.start).trimEnd();
+  const word = current.word.toLowerCase();
+  const matches = (label: string) => label.toLowerCase().startsWith(word);
+  const columnItems = columns
+    .filter((column) => column.toLowerCase().includes(word))
+    .map<Suggestion>((column) => ({ label: column, insert: `${quoteColumn(column)} `, kind: 'column' }));
+  const keywordItems = (keywords: string[]) =>
+    keywords.filter(matches).map<Suggestion>((keyword) => ({ label: keyword, insert: `${keyword} `, kind: 'keyword' }));
+
+  const afterColumn = columns.some((column) => {
+    const written = quoteColumn(column);
+    const preceding = before.slice(0, -written.length);
+    return before.endsWith(written) && (preceding === '' || /[\s(]$/.test(preceding));
+  });
+  if (before === '' || before.endsWith('(') || /(^|[\s(])(AND|OR|NOT)$/i.test(before)) {
+    return { start: current.start, items: [...columnItems, ...keywordItems(['NOT'])] };
+  }
+  if (afterColumn) {
+    return { start: current.start, items: keywordItems(CONDITION_KEYWORDS) };
+  }
+  if (!current.word) return { start: current.start, items: [] };
+  return {
+    start: current.start,
+    items: [...keywordItems([...JOIN_KEYWORDS, ...VALUE_KEYWORDS]), ...columnItems],
+  };
+};
+
+/**
+ * Input for row filter expressions, e.g. age > 30 AND country IN ("DE", "FR")
+ * Suggests columns and keywords while typing (arrow keys to choose, Enter or Tab to insert,
+ * Escape to close); the expression itself is checked by the server.
+ */
+const RowQueryBar: React.FC<RowQueryBarProps> = ({ value, onChange, columns, error, darkMode = false }) => {
+  const [caret, setCaret] = useState(0);
+  const [open, setOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+  const [showHelp, setShowHelp] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const suggestions = useMemo(() => getSuggestions(value, caret, columns), [value, caret, columns]);
+  const visibleItems = suggestions.items.slice(0, 8);
+  const listOpen = open && visibleItems.length > 0;
+
+  useEffect(() => {
+    setHighlighted(0);
+  }, [value, caret]);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const updateCaret = () => setCaret(inputRef.current?.selectionStart ?? value.length);
+
+  const insert = (suggestion: Suggestion) => {
+    const next = value.slice(0, suggestions.start) + suggestion.insert + value.slice(caret).trimStart();
+    const nextCaret = suggestions.start + suggestion.insert.length;
+    onChange(next);
+    setCaret(nextCaret);
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(nextCaret, nextCaret);
+    });
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!listOpen) {
+      if (event.key === 'ArrowDown') setOpen(true);
+      return;
+    }
+    if (event.key === 'ArrowDown') {
+      event.preventDefault();
+      setHighlighted((index) => (index + 1) % visibleItems.length);
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault();
+      setHighlighted((index) => (index - 1 + visibleItems.length) % visibleItems.length);
+    } else if (event.key === 'Enter' || event.key === 'Tab') {
+      event.preventDefault();
+      insert(visibleItems[highlighted]);
+    } else if (event.key === 'Escape') {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <div className="relative">
+        <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+          <svg className={`w-5 h-5 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 4h18l-7 8v6l-4 2v-8L3 4z" />
+          </svg>
+        </div>
+        <input
+          ref={inputRef}
+          type="text"
+          value={value}
+          onChange={(e) => {
+            onChange(e.target.value);
+            setCaret(e.target.selectionStart ?? e.target.value.length);
+            setOpen(true);
+          }}
+          onKeyDown={handleKeyDown}
+          onKeyUp={updateCaret}
+          onClick={updateCaret}
+          onFocus={() => setOpen(true)}
+          placeholder={`Filter rows, e.g. ${EXAMPLE}`}
+          spellCheck={false}
+          aria-label="Filter expression"
+          aria-invalid={!!error}
+          className={`w-full pl-10 pr-20 py-3 rounded-xl border font-mono text-sm transition-smooth ${
+            error
+              ? darkMode
+                ? 'bg-gray-800 border-red-500 text-gray-200 placeholder-gray-500 focus:ring-2 focus:ring-red-500/20'
+                : 'bg-white border-red-400 text-gray-900 placeholder-gray-400 focus:ring-2 focus:ring-red-200'
+              : darkMode
+                ? 'bg-gray-800 border-gray-700 text-gray-200 placeholder-gray-500 focus:border-indigo-500 focus:ring-2 focus:ring-indigo-500/20'
+                : 'bg-white border-gray-300 text-gray-900 placeholder-gray-400 focus:border-indigo-300 focus:ring-2 focus:ring-indigo-300'
+          }`}
+        />
+        <div className="absolute inset-y-0 right-0 pr-3 flex items-center gap-2">
+          {value && (
+            <button
+              onClick={() => onChange('')}
+              className={darkMode ? 'text-gray-400 hover:text-gray-200' : 'text-gray-500 hover:text-gray-700'}
+              aria-label="Clear filter"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          )}
+          <button
+            onClick={() => setShowHelp(!showHelp)}
+            className={`text-xs font-bold ${darkMode ? 'text-gray-400 hover:text-gray-200' : 'text-gray-500 hover:text-gray-700'}`}
+            aria-label="Filter syntax help"
+            title="Filter syntax"
+          >
+            ?
+          </button>
+        </div>
+      </div>
+
+      {listOpen && (
+        <ul
+          role="listbox"
+          className={`absolute z-20 mt-1 w-full max-w-md rounded-xl border shadow-lg overflow-hidden ${
+            darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'
+          }`}
+        >
+          {visibleItems.map((item, index) => (
+            <li
+              key={`${item.kind}:${item.label}`}
+              role="option"
+              aria-selected={index === highlighted}
+              onMouseDown={(event) => {
+                event.preventDefault();
+                insert(item);
+              }}
+              onMouseEnter={() => setHighlighted(index)}
+              className={`px-4 py-2 text-sm cursor-pointer flex items-center justify-between ${
+                index === highlighted
+                  ? darkMode
+                    ? 'bg-indigo-600/30 text-white'
+                    : 'bg-indigo-50 text-indigo-700'
+                  : darkMode
+                    ? 'text-gray-200'
+                    : 'text-gray-700'
+              }`}
+            >
+              <span className={item.kind === 'keyword' ? 'font-mono font-semibold' : ''}>{item.label}</span>
+              <span className={`text-xs ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>
+                {item.kind === 'column' ? 'column' : 'keyword'}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && (
+        <p role="alert" className={`mt-2 text-sm ${darkMode ? 'text-red-400' : 'text-red-600'}`}>
+          {error}
+        </p>
+      )}
+
+      {showHelp && (
+        <div className={`mt-2 p-3 rounded-xl text-xs space-y-1 ${
+          darkMode ? 'bg-gray-800 text-gray-300' : 'bg-white text-gray-600 border border-gray-200'
+        }`}>
+          <p>
+            Conditions: <code>column = "text"</code>, <code>column != 5</code>, <code>&gt; &gt;= &lt; &lt;=</code>,{' '}
+            <code>column ~ "contains"</code>, <code>column !~ "text"</code>, <code>column IN ("a", "b")</code>,{' '}
+            <code>column NOT IN (1, 2)</code>, <code>column IS EMPTY</code>, <code>column IS NOT EMPTY</code>
+          </p>
+          <p>
+            Combine with <code>AND</code>, <code>OR</code>, <code>NOT</code> and parentheses. Put text in quotes and
+            column names with spaces in backticks: <code>`first name` = "Ada"</code>
+          </p>
+          <p>
+            Example: <code>{EXAMPLE}</code>
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RowQueryBar;
@@ -0,0 +1,188 @@
+import { useEffect, useState } from 'react';
+import { getSessions, revokeSession, Session } from '../services/api';
+import ConfirmationDialog from './ConfirmationDialog';
+import { useToast } from '../contexts/ToastContext';
+import { useAuth } from '../contexts/AuthContext';
+
+interface SessionManagementProps {
+  darkMode?: boolean;
+}
+
+const formatDate = (dateString: string) => new Date(dateString).toLocaleString();
+
+// Browsers and systems recognised in user agents, most specific first (Edge and Opera also say Chrome)
+const BROWSERS: Array<[RegExp, string]> = [
+  [/Edg\//, 'Edge'],
+  [/OPR\//, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+const SYSTEMS: Array<[RegExp, string]> = [
+  [/Android/, 'Android'],
+  [/iPhone|iPad/, 'iOS'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/Linux/, 'Linux'],
+];
+
+// e.g. "Chrome on Windows"; the raw user agent when neither is recognised
+const describeUserAgent = (userAgent?: string): string => {
+  if (!userAgent) return 'Unknown device';
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const system = SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  if (!browser && !system) return userAgent;
+  return [browser || 'Unknown browser', system].filter(Boolean).join(' on ');
+};
+
+/**
+ * The devices the user is logged in on, each of which can be logged out,
+ * and logging out everywhere at once
+ */
+const SessionManagement: React.FC<SessionManagementProps> = ({ darkMode = false }) => {
+  const { showSuccess, showError } = useToast();
+  const { logout, logoutEverywhere } = useAuth();
+  const [sessions, setSessions] = useState<Session[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [showLogoutAllDialog, setShowLogoutAllDialog] = useState(false);
+  const [loggingOutAll, setLoggingOutAll] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    getSessions()
+      .then((fetched) => {
+        if (!cancelled) setSessions(fetched);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to fetch sessions');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const handleRevoke = async (session: Session) => {
+    // Ending this browser's session is a normal logout
+    if (session.current) {
+      await logout();
+      return;
+    }
+    try {
+      setRevokingId(session.id);
+      await revokeSession(session.id);
+      setSessions((prev) => prev && prev.filter((item) => item.id !== session.id));
+      showSuccess(`${describeUserAgent(session.userAgent)} logged out`);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to revoke session');
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const handleLogoutEverywhere = async () => {
+    try {
+      setLoggingOutAll(true);
+      await logoutEverywhere();
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to log out everywhere');
+      setLoggingOutAll(false);
+      setShowLogoutAllDialog(false);
+    }
+  };
+
+  const mutedClass = darkMode ? 'text-gray-400' : 'text-gray-500';
+  const cellClass = `px-6 py-4 whitespace-nowrap text-sm ${mutedClass}`;
+
+  return (
+    <div className={`card-modern${darkMode ? '-dark' : ''} rounded-2xl p-8 transition-smooth`}>
+      <div className="mb-6 flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h2 className={`text-3xl font-bold mb-2 ${darkMode ? 'text-gray-100' : 'text-gray-800'}`}>
+            Sessions
+          </h2>
+          <p className={`text-lg ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+            Devices you are logged in on; log out the ones you do not recognise
+          </p>
+        </div>
+        <button
+          onClick={() => setShowLogoutAllDialog(true)}
+          disabled={!sessions || sessions.length === 0}
+          className={`px-4 py-2 rounded-xl font-semibold transition-smooth hover-lift disabled:opacity-50 ${
+            darkMode ? 'bg-gray-700 text-red-400 hover:bg-gray-600' : 'bg-white text-red-600 hover:bg-red-50 shadow-md'
+          }`}
+        >
+          Log Out Everywhere
+        </button>
+      </div>
+
+      {error ? (
+        <div className={`p-4 rounded-xl text-sm ${darkMode ? 'bg-red-500/10 text-red-400' : 'bg-red-50 text-red-700'}`}>
+          {error}
+        </div>
+      ) : !sessions ? (
+        <div className={`text-center py-12 ${mutedClass}`}>Loading sessions...</div>
+      ) : (
+        <div className="overflow-x-auto rounded-xl border">
+          <table className={`min-w-full divide-y ${darkMode ? 'divide-gray-700' : 'divide-gray-200'}`}>
+            <thead className={darkMode ? 'bg-gray-800' : 'bg-gradient-to-r from-indigo-50 to-purple-50'}>
+              <tr>
+                {['Device', 'IP Address', 'Logged In', 'Last Active', ''].map((header) => (
+                  <th
+                    key={header}
+                    className={`px-6 py-4 text-left text-xs font-bold uppercase tracking-wider ${
+                      darkMode ? 'text-gray-300' : 'text-gray-700'
+                    }`}
+                  >
+                    {header}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className={`divide-y ${darkMode ? 'bg-gray-900/50 divide-gray-800' : 'bg-white divide-gray-200'}`}>
+              {sessions.map((session) => (
+                <tr key={session.id} className={revokingId === session.id ? 'opacity-50 pointer-events-none' : ''}>
+                  <td
+                    className={`px-6 py-4 whitespace-nowrap text-sm font-medium ${darkMode ? 'text-gray-200' : 'text-gray-900'}`}
+                    title={session.userAgent}
+                  >
+                    {describeUserAgent(session.userAgent)}
+                    {session.current && <span className={`ml-2 text-xs ${mutedClass}`}>(this browser)</span>}
+                  </td>
+                  <td className={cellClass}>{session.userIp || '-'}</td>
+                  <td className={cellClass}>{formatDate(session.createdAt)}</td>
+                  <td className={cellClass}>{formatDate(session.lastUsedAt)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right">
+                    <button
+                      onClick={() => handleRevoke(session)}
+                      className={`text-sm font-semibold transition-smooth ${
+                        darkMode ? 'text-red-400 hover:text-red-300' : 'text-red-600 hover:text-red-700'
+                      }`}
+                    >
+                      Log Out
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <ConfirmationDialog
+        isOpen={showLogoutAllDialog}
+        title="Log Out Everywhere?"
+        message={`You will be logged out on ${sessions?.length ?? 0} device${sessions?.length !== 1 ? 's' : ''}, including this one.`}
+        warningMessage="Everyone using your account, on any device, has to log in again."
+        confirmText="Log Out Everywhere"
+        onConfirm={handleLogoutEverywhere}
+        onCancel={() => setShowLogoutAllDialog(false)}
+        darkMode={darkMode}
+        variant="warning"
+        isLoading={loggingOutAll}
+      />
+    </div>
+  );
+};
+
+export default SessionManagement;
@@ -0,0 +1,268 @@
+import { useState, useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import { CreatedShareLink, ShareLink, UploadRecord } from '../types';
+import { createShareLink, getShareLinks, getShareUrl, revokeShareLink } from '../services/api';
+import CustomDropdown from './CustomDropdown';
+import { useToast } from '../contexts/ToastContext';
+
+interface ShareLinkDialogProps {
+  upload: UploadRecord;
+  onClose: () => void;
+  darkMode?: boolean;
+}
+
+// Should stay within MAX_SHARE_LINK_TTL_HOURS on the backend (30 days)
+const EXPIRY_OPTIONS = [
+  { value: 1, label: '1 hour' },
+  { value: 24, label: '1 day' },
+  { value: 7 * 24, label: '7 days' },
+  { value: 30 * 24, label: '30 days' },
+];
+
+const formatDate = (dateString: string) => new Date(dateString).toLocaleString();
+
+/**
+ * Modal for sharing an upload read-only with people without an account: creates expiring links,
+ * optionally protected by a password, and lists and revokes the upload's existing links
+ */
+const ShareLinkDialog: React.FC<ShareLinkDialogProps> = ({ upload, onClose, darkMode = false }) => {
+  const { showSuccess, showError } = useToast();
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expiresInHours, setExpiresInHours] = useState(7 * 24);
+  const [password, setPassword] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [created, setCreated] = useState<CreatedShareLink | null>(null);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    getShareLinks(upload.id)
+      .then((fetched) => {
+        if (!cancelled) setLinks(fetched);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to fetch share links');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [upload.id]);
+
+  // Close on Escape
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleEscape);
+    return () => document.removeEventListener('keydown', handleEscape);
+  }, [onClose]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setCreating(true);
+      const link = await createShareLink(upload.id, {
+        expiresInHours,
+        password: password || undefined,
+      });
+      setCreated(link);
+      setLinks((current) => [link, ...current]);
+      setPassword('');
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to create share link');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleCopy = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      showSuccess('Link copied to clipboard');
+    } catch {
+      showError('Could not copy the link; select it and copy it by hand');
+    }
+  };
+
+  const handleRevoke = async (link: ShareLink) => {
+    try {
+      setRevokingId(link.id);
+      const revoked = await revokeShareLink(upload.id, link.id);
+      setLinks((current) => current.map((existing) => (existing.id === revoked.id ? revoked : existing)));
+      if (created?.id === link.id) setCreated(null);
+      showSuccess('Share link revoked');
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to revoke share link');
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const mutedClass = darkMode ? 'text-gray-400' : 'text-gray-500';
+  const inputClass = `px-4 py-2 rounded-xl border transition-smooth focus:ring-2 ${
+    darkMode
+      ? 'bg-gray-800 border-gray-700 text-gray-200 focus:ring-indigo-500 focus:border-indigo-500'
+      : 'bg-white border-gray-300 text-gray-800 focus:ring-indigo-300 focus:border-indigo-300'
+  }`;
+  const buttonClass =
+    'px-4 py-2 rounded-xl font-semibold transition-smooth hover-lift bg-gradient-to-r from-indigo-600 to-purple-600 text-white shadow-lg disabled:opacity-50';
+  const statusBadgeClass = (status: ShareLink['status']) => {
+    if (status === 'active') return darkMode ? 'bg-green-500/20 text-green-300' : 'bg-green-100 text-green-700';
+    if (status === 'expired') return darkMode ? 'bg-yellow-500/20 text-yellow-300' : 'bg-yellow-100 text-yellow-700';
+    return darkMode ? 'bg-red-500/20 text-red-300' : 'bg-red-100 text-red-700';
+  };
+
+  return createPortal(
+    <div className="fixed inset-0 z-[100] animate-fade-in" onClick={onClose}>
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" />
+      <div className="absolute inset-0 flex items-center justify-center p-4">
+        <div
+          className={`relative card-modern${darkMode ? '-dark' : ''} rounded-2xl shadow-2xl flex flex-col max-w-4xl w-full max-h-[90vh]`}
+          onClick={(e) => e.stopPropagation()}
+        >
+          <div className={`flex justify-between items-start gap-4 p-6 border-b ${darkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+            <div className="min-w-0">
+              <h3 className={`text-xl font-bold break-all ${darkMode ? 'text-gray-100' : 'text-gray-800'}`}>
+                <span className="text-base font-normal opacity-75">Share:</span> {upload.fileName}
+              </h3>
+              <p className={`mt-1 text-sm ${mutedClass}`}>
+                Anyone with the link can view and export the rows of this upload until it expires or is revoked.
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className={`p-2 rounded-xl transition-smooth flex-shrink-0 ${
+                darkMode ? 'text-gray-400 hover:text-gray-200 hover:bg-gray-700' : 'text-gray-500 hover:text-gray-700 hover:bg-gray-100'
+              }`}
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          <form onSubmit={handleCreate} className="flex flex-wrap items-center gap-3 px-6 py-4">
+            <label className={`text-sm font-semibold ${darkMode ? 'text-gray-200' : 'text-gray-800'}`}>Expires in</label>
+            <CustomDropdown
+              options={EXPIRY_OPTIONS}
+              value={expiresInHours}
+              onChange={(value) => setExpiresInHours(Number(value))}
+              darkMode={darkMode}
+              className="w-32"
+            />
+            <input
+              type="password"
+              placeholder="Password (optional)"
+              minLength={4}
+              maxLength={128}
+              autoComplete="new-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className={`${inputClass} flex-1 min-w-[12rem]`}
+            />
+            <button type="submit" disabled={creating || (password.length > 0 && password.length < 4)} className={buttonClass}>
+              {creating ? 'Creating...' : 'Create Link'}
+            </button>
+          </form>
+
+          {created && (
+            <div className={`mx-6 mb-4 p-4 rounded-xl border ${
+              darkMode ? 'bg-indigo-500/10 border-indigo-500/30' : 'bg-indigo-50 border-indigo-200'
+            }`}>
+              <div className="flex items-center gap-3">
+                <input
+                  type="text"
+                  readOnly
+                  value={getShareUrl(created.token)}
+                  onFocus={(e) => e.target.select()}
+                  className={`${inputClass} flex-1 font-mono text-sm`}
+                />
+                <button type="button" onClick={() => handleCopy(getShareUrl(created.token))} className={buttonClass}>
+                  Copy
+                </button>
+              </div>
+              <p className={`mt-2 text-xs ${mutedClass}`}>
+                Copy the link now; it cannot be shown again.
+                {created.passwordProtected && ' Send the password separately.'}
+              </p>
+            </div>
+          )}
+
+          <div className="flex-1 overflow-auto px-6 pb-6">
+            {loading ? (
+              <div className={`text-center py-8 ${mutedClass}`}>Loading share links...</div>
+            ) : error ? (
+              <div className={`p-4 rounded-xl text-sm ${darkMode ? 'bg-red-500/10 text-red-400' : 'bg-red-50 text-red-700'}`}>
+                {error}
+              </div>
+            ) : links.length === 0 ? (
+              <div className={`text-center py-8 ${mutedClass}`}>This upload has not been shared yet</div>
+            ) : (
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className={`text-left text-xs font-bold uppercase tracking-wider ${mutedClass}`}>
+                    <th className="py-2 pr-4">Created</th>
+                    <th className="py-2 pr-4">Expires</th>
+                    <th className="py-2 pr-4">Status</th>
+                    <th className="py-2 pr-4">Opened</th>
+                    <th className="py-2 pr-4">Created By</th>
+                    <th className="py-2"></th>
+                  </tr>
+                </thead>
+                <tbody className={`divide-y ${darkMode ? 'divide-gray-800 text-gray-300' : 'divide-gray-100 text-gray-700'}`}>
+                  {links.map((link) => (
+                    <tr key={link.id} className={revokingId === link.id ? 'opacity-50 pointer-events-none' : ''}>
+                      <td className="py-2 pr-4 whitespace-nowrap">{formatDate(link.createdAt)}</td>
+                      <td className="py-2 pr-4 whitespace-nowrap">{formatDate(link.expiresAt)}</td>
+                      <td className="py-2 pr-4 whitespace-nowrap">
+                        <span className={`px-2 py-0.5 rounded text-xs font-medium capitalize ${statusBadgeClass(link.status)}`}>
+                          {link.status}
+                        </span>
+                        {link.passwordProtected && (
+                          <span
+                            title="Opening the link needs a password"
+                            className={`ml-2 px-2 py-0.5 rounded text-xs font-medium ${
+                              darkMode ? 'bg-gray-700 text-gray-300' : 'bg-gray-100 text-gray-600'
+                            }`}
+                          >
+                            password
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-2 pr-4 whitespace-nowrap" title={link.lastAccessedAt ? `Last opened ${formatDate(link.lastAccessedAt)}` : undefined}>
+                        {link.accessCount.toLocaleString()} time{link.accessCount !== 1 ? 's' : ''}
+                      </td>
+                      <td className="py-2 pr-4 whitespace-nowrap">{link.createdBy || '-'}</td>
+                      <td className="py-2 whitespace-nowrap text-right">
+                        {link.status === 'active' && (
+                          <button
+                            onClick={() => handleRevoke(link)}
+                            className={`text-sm font-semibold transition-smooth ${
+                              darkMode ? 'text-red-400 hover:text-red-300' : 'text-red-600 hover:text-red-700'
+                            }`}
+                          >
+                            Revoke
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default ShareLinkDialog;
@@ -0,0 +1,310 @@
+import { useState, useEffect } from 'react';
+import { ExportFormat, SharedUpload } from '../types';
+import { ShareAccessError, UploadRowsResponse, downloadSharedExport, getSharedRows, getSharedUpload } from '../services/api';
+import { formatCellValue } from '../utils/dataTypeDetection';
+import { EXPORT_FORMAT_LABELS, EXPORT_FORMAT_OPTIONS } from '../utils/exportFormats';
+import { useDebounce } from '../hooks/useDebounce';
+import CustomDropdown from './CustomDropdown';
+import { useToast } from '../contexts/ToastContext';
+
+interface SharedUploadViewProps {
+  token: string; // From the /share/:token URL
+  darkMode?: boolean;
+}
+
+const PAGE_SIZE = 50;
+
+/**
+ * Public page a share link opens: the rows of one upload, read-only, with paging, sorting,
+ * search and export. Asks for the password first when the link is password-protected.
+ */
+const SharedUploadView: React.FC<SharedUploadViewProps> = ({ token, darkMode = false }) => {
+  const { showError } = useToast();
+  const [shared, setShared] = useState<SharedUpload | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // The password sent with every request, once the recipient has entered it
+  const [password, setPassword] = useState<string | undefined>(undefined);
+  const [passwordInput, setPasswordInput] = useState('');
+  const [passwordRequired, setPasswordRequired] = useState(false);
+
+  const [result, setResult] = useState<UploadRowsResponse | null>(null);
+  const [rowsLoading, setRowsLoading] = useState(false);
+  const [page, setPage] = useState(1);
+  const [sortConfig, setSortConfig] = useState<{ key: string; direction: 'asc' | 'desc' } | null>(null);
+  const [search, setSearch] = useState('');
+  const debouncedSearch = useDebounce(search, 300);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('csv');
+  const [exporting, setExporting] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    getSharedUpload(token, password)
+      .then((fetched) => {
+        if (cancelled) return;
+        setShared(fetched);
+        setPasswordRequired(false);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        if (err instanceof ShareAccessError && err.passwordRequired) {
+          setPasswordRequired(true);
+          // Asking for the password the first time is not an error
+          setError(password ? err.message : null);
+        } else {
+          setError(err instanceof Error ? err.message : 'Failed to open share link');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [token, password]);
+
+  // Back to the first page when the search or sort changes
+  useEffect(() => {
+    setPage(1);
+  }, [debouncedSearch, sortConfig]);
+
+  useEffect(() => {
+    if (!shared) return;
+    let cancelled = false;
+    setRowsLoading(true);
+    getSharedRows(
+      token,
+      {
+        page,
+        limit: PAGE_SIZE,
+        sort: sortConfig?.key,
+        direction: sortConfig?.direction,
+        search: debouncedSearch.trim() || undefined,
+      },
+      password,
+    )
+      .then((fetched) => {
+        if (!cancelled) setResult(fetched);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to fetch rows');
+      })
+      .finally(() => {
+        if (!cancelled) setRowsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [shared, token, password, page, sortConfig, debouncedSearch]);
+
+  const handlePasswordSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPassword(passwordInput);
+  };
+
+  const handleSort = (column: string) => {
+    setSortConfig((current) =>
+      current?.key === column && current.direction === 'asc' ? { key: column, direction: 'desc' } : { key: column, direction: 'asc' },
+    );
+  };
+
+  const handleExport = async () => {
+    if (!shared) return;
+    try {
+      setExporting(true);
+      await downloadSharedExport(token, shared.fileName, exportFormat, password);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to export data');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const mutedClass = darkMode ? 'text-gray-400' : 'text-gray-500';
+  const inputClass = `px-4 py-2 rounded-xl border transition-smooth focus:ring-2 ${
+    darkMode
+      ? 'bg-gray-800 border-gray-700 text-gray-200 focus:ring-indigo-500 focus:border-indigo-500'
+      : 'bg-white border-gray-300 text-gray-800 focus:ring-indigo-300 focus:border-indigo-300'
+  }`;
+  const buttonClass = `px-3 py-1.5 rounded-lg text-sm font-medium transition-smooth ${
+    darkMode ? 'bg-gray-700 text-gray-200 hover:bg-gray-600' : 'bg-white text-gray-700 hover:bg-gray-100 shadow-md'
+  }`;
+  const columns = result?.columns ?? shared?.columns ?? [];
+
+  const renderContent = () => {
+    if (loading && !shared) {
+      return <div className={`text-center py-12 ${mutedClass}`}>Opening shared upload...</div>;
+    }
+
+    if (passwordRequired && !shared) {
+      return (
+        <form onSubmit={handlePasswordSubmit} className="max-w-sm mx-auto py-8 text-center">
+          <h2 className={`text-xl font-bold mb-2 ${darkMode ? 'text-gray-100' : 'text-gray-800'}`}>Password required</h2>
+          <p className={`text-sm mb-4 ${mutedClass}`}>This shared upload is protected. Enter the password you were given.</p>
+          {error && (
+            <div className={`mb-4 p-3 rounded-xl text-sm ${darkMode ? 'bg-red-500/10 text-red-400' : 'bg-red-50 text-red-700'}`}>
+              {error}
+            </div>
+          )}
+          <div className="flex gap-3">
+            <input
+              type="password"
+              autoFocus
+              autoComplete="off"
+              value={passwordInput}
+              onChange={(e) => setPasswordInput(e.target.value)}
+              className={`${inputClass} flex-1`}
+            />
+            <button
+              type="submit"
+              disabled={loading || !passwordInput}
+              className="px-4 py-2 rounded-xl font-semibold transition-smooth hover-lift bg-gradient-to-r from-indigo-600 to-purple-600 text-white shadow-lg disabled:opacity-50"
+            >
+              Open
+            </button>
+          </div>
+        </form>
+      );
+    }
+
+    if (!shared) {
+      return (
+        <div className={`p-4 rounded-xl text-sm ${darkMode ? 'bg-red-500/10 text-red-400' : 'bg-red-50 text-red-700'}`}>
+          {error || 'This share link cannot be opened'}
+        </div>
+      );
+    }
+
+    return (
+      <>
+        <div className="flex flex-wrap justify-between items-start gap-4 mb-6">
+          <div className="min-w-0">
+            <h2 className={`text-2xl font-bold break-all ${darkMode ? 'text-gray-100' : 'text-gray-800'}`}>{shared.fileName}</h2>
+            <p className={`mt-1 text-sm ${mutedClass}`}>
+              {shared.totalRows.toLocaleString()} row{shared.totalRows !== 1 ? 's' : ''} • Uploaded{' '}
+              {new Date(shared.uploadedAt).toLocaleString()} • Link expires {new Date(shared.expiresAt).toLocaleString()}
+            </p>
+          </div>
+          <div className="flex gap-3">
+            <CustomDropdown
+              options={EXPORT_FORMAT_OPTIONS}
+              value={exportFormat}
+              onChange={(value) => setExportFormat(value as ExportFormat)}
+              darkMode={darkMode}
+              className="w-auto min-w-[120px]"
+            />
+            <button
+              onClick={handleExport}
+              disabled={exporting}
+              className={`px-4 py-2 rounded-xl font-semibold transition-smooth hover-lift bg-gradient-to-r from-indigo-600 to-purple-600 text-white shadow-lg ${
+                exporting ? 'opacity-50 cursor-not-allowed' : ''
+              }`}
+            >
+              {exporting ? 'Exporting...' : `Export ${EXPORT_FORMAT_LABELS[exportFormat]}`}
+            </button>
+          </div>
+        </div>
+
+        <input
+          type="text"
+          placeholder="Search rows..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className={`${inputClass} w-full mb-4`}
+        />
+
+        {error && (
+          <div className={`mb-4 p-4 rounded-xl text-sm ${darkMode ? 'bg-red-500/10 text-red-400' : 'bg-red-50 text-red-700'}`}>
+            {error}
+          </div>
+        )}
+
+        <div className={`overflow-x-auto rounded-xl border ${darkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+          <table className={`min-w-full text-sm ${rowsLoading ? 'opacity-50' : ''}`}>
+            <thead className={darkMode ? 'bg-gray-800' : 'bg-gradient-to-r from-indigo-50 to-purple-50'}>
+              <tr>
+                {columns.map((column) => (
+                  <th
+                    key={column}
+                    onClick={() => handleSort(column)}
+                    className={`px-4 py-3 text-left text-xs font-bold uppercase tracking-wider cursor-pointer select-none whitespace-nowrap ${
+                      darkMode ? 'text-gray-300' : 'text-gray-700'
+                    }`}
+                  >
+                    {column}
+                    {sortConfig?.key === column && <span className="ml-1">{sortConfig.direction === 'asc' ? '↑' : '↓'}</span>}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className={`divide-y ${darkMode ? 'bg-gray-900/50 divide-gray-800 text-gray-300' : 'bg-white divide-gray-100 text-gray-700'}`}>
+              {result && result.rows.length === 0 ? (
+                <tr>
+                  <td colSpan={Math.max(columns.length, 1)} className={`px-4 py-8 text-center ${mutedClass}`}>
+                    No rows found
+                  </td>
+                </tr>
+              ) : (
+                result?.rows.map((row) => (
+                  <tr key={row.rowNumber}>
+                    {columns.map((column) => (
+                      <td key={column} className="px-4 py-2 whitespace-nowrap">
+                        {formatCellValue(row.data[column]) || <span className="opacity-50">-</span>}
+                      </td>
+                    ))}
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {result && result.total > 0 && (
+          <div className={`flex items-center justify-between gap-4 mt-4 text-sm ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+            <span>
+              {result.total.toLocaleString()} row{result.total !== 1 ? 's' : ''} • Page {result.page} of {result.totalPages}
+            </span>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setPage(page - 1)}
+                disabled={!result.hasPreviousPage}
+                className={`${buttonClass} ${!result.hasPreviousPage ? 'opacity-50 cursor-not-allowed' : ''}`}
+              >
+                Previous
+              </button>
+              <button
+                onClick={() => setPage(page + 1)}
+                disabled={!result.hasNextPage}
+                className={`${buttonClass} ${!result.hasNextPage ? 'opacity-50 cursor-not-allowed' : ''}`}
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <div className={`min-h-screen transition-smooth ${
+      darkMode
+        ? 'bg-gradient-to-br from-gray-900 via-gray-800 to-gray-900'
+        : 'bg-gradient-to-br from-indigo-50 via-purple-50 to-pink-50'
+    }`}>
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-6xl mx-auto">
+          <header className="text-center mb-8">
+            <h1 className={`text-4xl font-bold mb-2 ${darkMode ? 'text-gray-100' : 'text-gray-800'}`}>Shared Upload</h1>
+            <p className={mutedClass}>Read-only access through a share link</p>
+          </header>
+          <div className={`card-modern${darkMode ? '-dark' : ''} rounded-2xl p-8 transition-smooth`}>{renderContent()}</div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SharedUploadView;
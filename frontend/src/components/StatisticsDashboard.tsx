@@ -1,6 +1,7 @@
 import { useEffect, useState, useMemo } from 'react';
-import { UploadHistoryResponse, UploadStatus } from '../types';
+import { UploadHistoryResponse, UploadStatus, UploadEventType } from '../types';
 import { getUploadHistory } from '../services/api';
+import { useUploadEvents } from '../hooks/useUploadEvents';
 
 interface StatisticsDashboardProps {
   darkMode?: boolean;
@@ -33,9 +34,19 @@ const StatisticsDashboard: React.FC<StatisticsDashboardProps> = ({ darkMode = fa
     loadStatistics();
   }, []);
 
-  const loadStatistics = async () => {
+  // Recalculate when uploads are added, finish or are removed (progress events don't affect totals)
+  useUploadEvents((event) => {
+    if (event.type !== UploadEventType.PROGRESS) {
+      loadStatistics(true);
+    }
+  });
+
+  const loadStatistics = async (background = false) => {
     try {
-      setLoading(true);
+      // Background refreshes keep the current numbers on screen instead of the loading state
+      if (!background) {
+        setLoading(true);
+      }
       setError(null);
       
       // Fetch all uploads without filters (use a large limit to get all uploads for accurate statistics)
@@ -0,0 +1,353 @@
+import { useState, useEffect, useMemo } from 'react';
+import { createPortal } from 'react-dom';
+import { CellValue, DiffChangeType, UploadDiffRequest, UploadDiffResponse, UploadDiffRow, UploadRecord } from '../types';
+import { getUploadById, diffUploads, downloadUploadDiff } from '../services/api';
+import { useToast } from '../contexts/ToastContext';
+
+interface UploadDiffViewProps {
+  uploadIds: [string, string];
+  onClose: () => void;
+  darkMode?: boolean;
+}
+
+const PAGE_SIZE = 50;
+
+const CHANGE_TYPE_LABELS: Record<DiffChangeType, string> = {
+  added: 'Added',
+  removed: 'Removed',
+  changed: 'Changed',
+};
+
+const formatValue = (value: CellValue | undefined) =>
+  value === null || value === undefined || value === '' ? '' : String(value);
+
+// Columns both uploads have, in the order of the base upload; only these are compared and can be keys
+const getCommonColumns = (base: UploadRecord, compare: UploadRecord) => {
+  const compareColumns = new Set(compare.columnSchema?.map((column) => column.name));
+  return (base.columnSchema ?? []).map((column) => column.name).filter((name) => compareColumns.has(name));
+};
+
+/**
+ * Modal comparing two uploads row by row: the user picks the key columns that match rows,
+ * and sees added, removed and changed rows with the before and after values side by side
+ */
+const UploadDiffView: React.FC<UploadDiffViewProps> = ({ uploadIds, onClose, darkMode = false }) => {
+  const { showError } = useToast();
+  const [uploads, setUploads] = useState<{ base: UploadRecord; compare: UploadRecord } | null>(null);
+  const [keyColumns, setKeyColumns] = useState<string[]>([]);
+  // The request of the diff shown; set when the user runs the comparison
+  const [request, setRequest] = useState<UploadDiffRequest | null>(null);
+  const [page, setPage] = useState(1);
+  const [result, setResult] = useState<UploadDiffResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [downloading, setDownloading] = useState(false);
+
+  // The earlier upload is the base
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(uploadIds.map((id) => getUploadById(id)))
+      .then(([first, second]) => {
+        if (cancelled) return;
+        const [base, compare] =
+          new Date(first.uploadedAt) <= new Date(second.uploadedAt) ? [first, second] : [second, first];
+        setUploads({ base, compare });
+        // Preselect an "id" column when there is one
+        setKeyColumns(getCommonColumns(base, compare).filter((name) => /^id$/i.test(name)));
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load uploads');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [uploadIds]);
+
+  useEffect(() => {
+    if (!request) return;
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    diffUploads(request, page, PAGE_SIZE)
+      .then((fetched) => {
+        if (!cancelled) setResult(fetched);
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setResult(null);
+          setError(err instanceof Error ? err.message : 'Failed to compare uploads');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [request, page]);
+
+  const commonColumns = useMemo(() => (uploads ? getCommonColumns(uploads.base, uploads.compare) : []), [uploads]);
+
+  const runDiff = (type?: DiffChangeType) => {
+    if (!uploads || keyColumns.length === 0) return;
+    setPage(1);
+    setRequest({ baseId: uploads.base.id, compareId: uploads.compare.id, keyColumns, type });
+  };
+
+  const swapUploads = () => {
+    if (!uploads) return;
+    setUploads({ base: uploads.compare, compare: uploads.base });
+    setRequest(null);
+    setResult(null);
+  };
+
+  const toggleKeyColumn = (column: string) => {
+    setKeyColumns((prev) => (prev.includes(column) ? prev.filter((name) => name !== column) : [...prev, column]));
+  };
+
+  const handleDownload = async () => {
+    if (!request || !uploads) return;
+    try {
+      setDownloading(true);
+      await downloadUploadDiff(request, uploads.base.fileName);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to download diff');
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const mutedClass = darkMode ? 'text-gray-400' : 'text-gray-500';
+  const buttonClass = `px-3 py-1.5 rounded-lg text-sm font-medium transition-smooth ${
+    darkMode ? 'bg-gray-700 text-gray-200 hover:bg-gray-600' : 'bg-white text-gray-700 hover:bg-gray-100 shadow-md'
+  }`;
+  const typeClass = (type: DiffChangeType) => {
+    switch (type) {
+      case 'added':
+        return darkMode ? 'bg-green-500/20 text-green-300' : 'bg-green-100 text-green-700';
+      case 'removed':
+        return darkMode ? 'bg-red-500/20 text-red-300' : 'bg-red-100 text-red-700';
+      default:
+        return darkMode ? 'bg-yellow-500/20 text-yellow-300' : 'bg-yellow-100 text-yellow-700';
+    }
+  };
+  const changedCellClass = darkMode ? 'bg-yellow-500/20 text-yellow-200' : 'bg-yellow-100 text-yellow-900';
+
+  const comparedColumns = result ? result.columns.filter((column) => !result.keyColumns.includes(column)) : [];
+
+  const renderRow = (row: UploadDiffRow, index: number) => {
+    const changed = new Set(row.changes?.map((change) => change.column));
+    return (
+      <tr key={`${row.baseRowNumber}-${row.compareRowNumber}-${index}`}>
+        <td className="px-3 py-2 whitespace-nowrap">
+          <span className={`px-2 py-0.5 rounded text-xs font-medium ${typeClass(row.type)}`}>{CHANGE_TYPE_LABELS[row.type]}</span>
+        </td>
+        {result?.keyColumns.map((column) => (
+          <td key={`key-${column}`} className="px-3 py-2 whitespace-nowrap font-medium">{formatValue(row.key[column])}</td>
+        ))}
+        <td className={`px-3 py-2 whitespace-nowrap border-l ${darkMode ? 'border-gray-700' : 'border-gray-200'} ${mutedClass}`}>
+          {row.baseRowNumber ?? ''}
+        </td>
+        {comparedColumns.map((column) => (
+          <td
+            key={`before-${column}`}
+            className={`px-3 py-2 whitespace-nowrap ${changed.has(column) ? changedCellClass : ''} ${row.before ? '' : 'opacity-40'}`}
+          >
+            {row.before ? formatValue(row.before[column]) : ''}
+          </td>
+        ))}
+        <td className={`px-3 py-2 whitespace-nowrap border-l ${darkMode ? 'border-gray-700' : 'border-gray-200'} ${mutedClass}`}>
+          {row.compareRowNumber ?? ''}
+        </td>
+        {comparedColumns.map((column) => (
+          <td
+            key={`after-${column}`}
+            className={`px-3 py-2 whitespace-nowrap ${changed.has(column) ? changedCellClass : ''} ${row.after ? '' : 'opacity-40'}`}
+          >
+            {row.after ? formatValue(row.after[column]) : ''}
+          </td>
+        ))}
+      </tr>
+    );
+  };
+
+  return createPortal(
+    <div className="fixed inset-0 z-[100] animate-fade-in" onClick={onClose}>
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" />
+      <div className="absolute inset-0 flex items-center justify-center p-4">
+        <div
+          className={`relative card-modern${darkMode ? '-dark' : ''} rounded-2xl shadow-2xl flex flex-col max-w-7xl w-full max-h-[90vh]`}
+          onClick={(e) => e.stopPropagation()}
+        >
+          <div className={`flex justify-between items-start gap-4 p-6 border-b ${darkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+            <div className="min-w-0">
+              <h3 className={`text-xl font-bold ${darkMode ? 'text-gray-100' : 'text-gray-800'}`}>Compare Uploads</h3>
+              {uploads && (
+                <div className={`flex flex-wrap items-center gap-2 mt-1 text-sm ${mutedClass}`}>
+                  <span className="break-all" title={new Date(uploads.base.uploadedAt).toLocaleString()}>
+                    {uploads.base.fileName}
+                  </span>
+                  <span>→</span>
+                  <span className="break-all" title={new Date(uploads.compare.uploadedAt).toLocaleString()}>
+                    {uploads.compare.fileName}
+                  </span>
+                  <button onClick={swapUploads} className={`ml-1 underline-offset-2 hover:underline ${darkMode ? 'text-indigo-400' : 'text-indigo-600'}`}>
+                    Swap
+                  </button>
+                </div>
+              )}
+            </div>
+            <button
+              onClick={onClose}
+              className={`p-2 rounded-xl transition-smooth flex-shrink-0 ${
+                darkMode ? 'text-gray-400 hover:text-gray-200 hover:bg-gray-700' : 'text-gray-500 hover:text-gray-700 hover:bg-gray-100'
+              }`}
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          {uploads && (
+            <div className="px-6 py-4 space-y-3">
+              <div>
+                <div className={`text-xs font-bold uppercase tracking-wider mb-2 ${mutedClass}`}>Key columns</div>
+                <div className="flex flex-wrap gap-2">
+                  {commonColumns.map((column) => (
+                    <button
+                      key={column}
+                      onClick={() => toggleKeyColumn(column)}
+                      className={`px-2.5 py-1 rounded-lg text-xs font-medium transition-smooth ${
+                        keyColumns.includes(column)
+                          ? 'bg-indigo-600 text-white'
+                          : darkMode
+                            ? 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                            : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                      }`}
+                    >
+                      {column}
+                    </button>
+                  ))}
+                  {commonColumns.length === 0 && <span className={`text-sm ${mutedClass}`}>The uploads have no columns in common</span>}
+                </div>
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                <button
+                  onClick={() => runDiff()}
+                  disabled={keyColumns.length === 0 || loading}
+                  className={`px-4 py-1.5 rounded-lg text-sm font-semibold bg-indigo-600 text-white hover:bg-indigo-700 transition-smooth ${
+                    keyColumns.length === 0 || loading ? 'opacity-50 cursor-not-allowed' : ''
+                  }`}
+                >
+                  {loading ? 'Comparing...' : 'Compare'}
+                </button>
+                {result && (
+                  <>
+                    {(['added', 'removed', 'changed'] as const).map((type) => (
+                      <button
+                        key={type}
+                        onClick={() => runDiff(request?.type === type ? undefined : type)}
+                        className={`px-2.5 py-1 rounded-lg text-xs font-medium ${typeClass(type)} ${
+                          request?.type === type ? 'ring-2 ring-indigo-500' : ''
+                        }`}
+                      >
+                        {CHANGE_TYPE_LABELS[type]} {result.summary[type].toLocaleString()}
+                      </button>
+                    ))}
+                    <span className={`text-xs ${mutedClass}`}>Unchanged {result.summary.unchanged.toLocaleString()}</span>
+                    <button onClick={handleDownload} disabled={downloading} className={`ml-auto ${buttonClass} ${downloading ? 'opacity-50 cursor-not-allowed' : ''}`}>
+                      {downloading ? 'Downloading...' : 'Download Diff CSV'}
+                    </button>
+                  </>
+                )}
+              </div>
+              {result && (result.addedColumns.length > 0 || result.removedColumns.length > 0) && (
+                <p className={`text-xs ${mutedClass}`}>
+                  Not compared:
+                  {result.addedColumns.length > 0 && ` new column(s) ${result.addedColumns.join(', ')}`}
+                  {result.addedColumns.length > 0 && result.removedColumns.length > 0 && ';'}
+                  {result.removedColumns.length > 0 && ` dropped column(s) ${result.removedColumns.join(', ')}`}
+                </p>
+              )}
+            </div>
+          )}
+
+          <div className="flex-1 overflow-auto px-6 pb-4">
+            {error ? (
+              <div className={`p-4 rounded-xl text-sm ${darkMode ? 'bg-red-500/10 text-red-400' : 'bg-red-50 text-red-700'}`}>{error}</div>
+            ) : !uploads ? (
+              <div className={`text-center py-12 ${mutedClass}`}>Loading uploads...</div>
+            ) : !result ? (
+              <div className={`text-center py-12 ${mutedClass}`}>
+                {loading ? 'Comparing rows...' : 'Choose the columns that identify a row in both uploads, then compare'}
+              </div>
+            ) : result.rows.length === 0 ? (
+              <div className={`text-center py-12 ${mutedClass}`}>No differences found</div>
+            ) : (
+              <table className={`min-w-full text-sm ${loading ? 'opacity-50' : ''}`}>
+                <thead>
+                  <tr className={`text-left text-xs font-bold uppercase tracking-wider ${mutedClass}`}>
+                    <th className="px-3 pt-2" colSpan={1 + result.keyColumns.length}>Key</th>
+                    <th className={`px-3 pt-2 border-l ${darkMode ? 'border-gray-700' : 'border-gray-200'}`} colSpan={1 + comparedColumns.length}>
+                      Before
+                    </th>
+                    <th className={`px-3 pt-2 border-l ${darkMode ? 'border-gray-700' : 'border-gray-200'}`} colSpan={1 + comparedColumns.length}>
+                      After
+                    </th>
+                  </tr>
+                  <tr className={`text-left text-xs font-semibold ${mutedClass}`}>
+                    <th className="px-3 py-2">Change</th>
+                    {result.keyColumns.map((column) => (
+                      <th key={`key-${column}`} className="px-3 py-2 whitespace-nowrap">{column}</th>
+                    ))}
+                    <th className={`px-3 py-2 border-l ${darkMode ? 'border-gray-700' : 'border-gray-200'}`}>Row</th>
+                    {comparedColumns.map((column) => (
+                      <th key={`before-${column}`} className="px-3 py-2 whitespace-nowrap">{column}</th>
+                    ))}
+                    <th className={`px-3 py-2 border-l ${darkMode ? 'border-gray-700' : 'border-gray-200'}`}>Row</th>
+                    {comparedColumns.map((column) => (
+                      <th key={`after-${column}`} className="px-3 py-2 whitespace-nowrap">{column}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className={`divide-y ${darkMode ? 'divide-gray-800 text-gray-300' : 'divide-gray-100 text-gray-700'}`}>
+                  {result.rows.map(renderRow)}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          {result && result.total > 0 && (
+            <div className={`flex items-center justify-between gap-4 p-4 border-t text-sm ${
+              darkMode ? 'border-gray-700 text-gray-300' : 'border-gray-200 text-gray-700'
+            }`}>
+              <span>
+                {result.total.toLocaleString()} row{result.total !== 1 ? 's' : ''} • Page {result.page} of {result.totalPages}
+              </span>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setPage(page - 1)}
+                  disabled={!result.hasPreviousPage}
+                  className={`${buttonClass} ${!result.hasPreviousPage ? 'opacity-50 cursor-not-allowed' : ''}`}
+                >
+                  Previous
+                </button>
+                <button
+                  onClick={() => setPage(page + 1)}
+                  disabled={!result.hasNextPage}
+                  className={`${buttonClass} ${!result.hasNextPage ? 'opacity-50 cursor-not-allowed' : ''}`}
+                >
+                  Next
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default UploadDiffView;
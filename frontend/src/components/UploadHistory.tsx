@@ -1,14 +1,25 @@
 import { useEffect, useState, useMemo, useCallback } from 'react';
 import { createPortal } from 'react-dom';
-import { UploadHistoryResponse, UploadRecord, UploadStatus, CsvRow } from '../types';
-import { getUploadHistory, getUploadData, UploadHistoryFilters, downloadOriginalFile, bulkDeleteUploads, exportCsvData } from '../services/api';
+import { UploadHistoryResponse, UploadRecord, UploadStatus, UploadProgress, UploadEventType, ColumnSchema, UploadRowsQuery, IssueCode } from '../types';
+import { getUploadHistory, UploadHistoryFilters, downloadOriginalFile, bulkDeleteUploads, exportCsvData, coerceUploadTypes } from '../services/api';
+import { formatCellValue, getDataTypeColor, getDataTypeLabel } from '../utils/dataTypeDetection';
 import CustomDropdown from './CustomDropdown';
 import CustomDatePicker from './CustomDatePicker';
 import ConfirmationDialog from './ConfirmationDialog';
 import { useKeyboardShortcuts } from '../hooks/useKeyboardShortcuts';
 import { useDebounce } from '../hooks/useDebounce';
+import { useUploadEvents } from '../hooks/useUploadEvents';
 import { useCache } from '../hooks/useCache';
+import { useUploadRows } from '../hooks/useUploadRows';
+import RowQueryBar from './RowQueryBar';
+import UploadIssuesPanel from './UploadIssuesPanel';
+import UploadDiffView from './UploadDiffView';
+import DatasetHistory from './DatasetHistory';
+import ShareLinkDialog from './ShareLinkDialog';
+import { ISSUE_CODE_LABELS, QUALITY_LEVEL_RANGES, QualityLevel, getQualityBadgeClass } from '../utils/dataQuality';
 import { useToast } from '../contexts/ToastContext';
+import { useAuth } from '../contexts/AuthContext';
+import { useWorkspace } from '../contexts/WorkspaceContext';
 
 interface UploadHistoryProps {
   onUploadClick?: (upload: UploadRecord) => void;
@@ -21,6 +32,10 @@ const UploadHistory: React.FC<UploadHistoryProps> = ({ onUploadClick, darkMode =
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const { showSuccess, showError, showInfo } = useToast();
+  const { isAdmin } = useAuth();
+  const { canEdit } = useWorkspace();
+  // Admins only: show the uploads of every workspace instead of the active one
+  const [allUsers, setAllUsers] = useState(false);
   const [filter, setFilter] = useState<UploadStatus | 'all'>('all');
   
   // Advanced filter states
@@ -28,6 +43,8 @@ const UploadHistory: React.FC<UploadHistoryProps> = ({ onUploadClick, darkMode =
   const [startDate, setStartDate] = useState<string>('');
   const [endDate, setEndDate] = useState<string>('');
   const [fileSizeFilter, setFileSizeFilter] = useState<string>('all'); // 'all', 'small', 'medium', 'large'
+  const [qualityFilter, setQualityFilter] = useState<QualityLevel | 'all'>('all');
+  const [issueCodeFilter, setIssueCodeFilter] = useState<IssueCode | 'all'>('all');
   
   // Pagination states
   const [currentPage, setCurrentPage] = useState<number>(1);
@@ -41,22 +58,37 @@ const UploadHistory: React.FC<UploadHistoryProps> = ({ onUploadClick, darkMode =
   
   // Modal data sorting and pagination
   const [modalSortConfig, setModalSortConfig] = useState<{ key: string; direction: 'asc' | 'desc' } | null>(null);
+  const [modalFilterQuery, setModalFilterQuery] = useState<string>('');
   const [modalCurrentPage, setModalCurrentPage] = useState<number>(1);
   const [modalPageSize, setModalPageSize] = useState<number>(5); // Default to 5 so pagination shows more often
   const [exportingModal, setExportingModal] = useState(false);
+  const [convertingTypes, setConvertingTypes] = useState(false);
   
   const [selectedUpload, setSelectedUpload] = useState<UploadRecord | null>(null);
-  const [uploadData, setUploadData] = useState<CsvRow[] | null>(null);
-  const [loadingData, setLoadingData] = useState(false);
+  // Upload whose issues are shown in the issues panel
+  const [issuesUpload, setIssuesUpload] = useState<UploadRecord | null>(null);
+  // The two uploads compared in the diff view
+  const [diffIds, setDiffIds] = useState<[string, string] | null>(null);
+  // Row whose actions menu is open, and the upload shown in the share link dialog
+  const [openMenuId, setOpenMenuId] = useState<string | null>(null);
+  const [shareUpload, setShareUpload] = useState<UploadRecord | null>(null);
+  // One row per dataset (with its versions) instead of one row per upload
+  const [groupByDataset, setGroupByDataset] = useState(false);
+  // Detected column types, and whether the values are stored typed
+  const [uploadSchema, setUploadSchema] = useState<ColumnSchema[]>([]);
+  const [uploadTyped, setUploadTyped] = useState(false);
   const [isFullScreen, setIsFullScreen] = useState(false);
+  // Live progress of uploads that are still being imported, keyed by upload ID
+  const [progressById, setProgressById] = useState<Record<string, UploadProgress>>({});
 
   // Performance optimizations: Debouncing and Caching
   const debouncedSearchQuery = useDebounce(searchQuery, 500);
+  const debouncedModalFilterQuery = useDebounce(modalFilterQuery, 500);
   const cache = useCache<UploadHistoryResponse>({ ttl: 2 * 60 * 1000 }); // 2 minutes cache
 
   // Load all history (no filter) to get accurate total counts - with caching
   const loadAllHistory = useCallback(async () => {
-    const cacheKey = 'all-history';
+    const cacheKey = allUsers ? 'all-history-all-users' : 'all-history';
     
     // Check cache first
     const cached = cache.get(cacheKey);
@@ -66,13 +98,13 @@ const UploadHistory: React.FC<UploadHistoryProps> = ({ onUploadClick, darkMode =
     }
 
     try {
-      const data = await getUploadHistory(undefined); // Get all uploads
+      const data = await getUploadHistory(allUsers ? { scope: 'all' } : undefined); // Get all uploads
       cache.set(cacheKey, data);
       setAllHistory(data);
     } catch (err) {
       // Silently fail - don't show error for this background call
     }
-  }, [cache]);
+  }, [allUsers, cache]);
 
   // Load filtered history for display - with caching and lazy loading
   const loadHistory = useCallback(async () => {
@@ -118,7 +150,20 @@ const UploadHistory: React.FC<UploadHistoryProps> = ({ onUploadClick, darkMode =
             break;
         }
       }
+
+      // Quality filters
+      if (qualityFilter !== 'all') {
+        filters.minQuality = QUALITY_LEVEL_RANGES[qualityFilter].min;
+        filters.maxQuality = QUALITY_LEVEL_RANGES[qualityFilter].max;
+      }
+      if (issueCodeFilter !== 'all') {
+        filters.issueCode = issueCodeFilter;
+      }
       
+      if (allUsers) {
+        filters.scope = 'all';
+      }
+
       // Add pagination
       filters.page = currentPage;
       filters.limit = pageSize;
@@ -149,26 +194,42 @@ const UploadHistory: React.FC<UploadHistoryProps> = ({ onUploadClick, darkMode =
     } finally {
       setLoading(false);
     }
-  }, [filter, debouncedSearchQuery, startDate, endDate, fileSizeFilter, currentPage, pageSize, cache]);
+  }, [filter, debouncedSearchQuery, startDate, endDate, fileSizeFilter, qualityFilter, issueCodeFilter, allUsers, currentPage, pageSize, cache]);
 
   // Reset to page 1 when filters change
   useEffect(() => {
     setCurrentPage(1);
-  }, [filter, debouncedSearchQuery, startDate, endDate, fileSizeFilter]);
+  }, [filter, debouncedSearchQuery, startDate, endDate, fileSizeFilter, qualityFilter, issueCodeFilter, allUsers]);
 
   // Load data when filters or pagination change
   useEffect(() => {
     loadAllHistory(); // Always load all history for accurate counts
     loadHistory(); // Load filtered history for display
-    // Refresh every 5 seconds to update processing status
-    const interval = setInterval(() => {
-      // Clear cache before refresh to get fresh data
-      cache.clearExpired();
-      loadAllHistory();
-      loadHistory();
-    }, 5000);
-    return () => clearInterval(interval);
-  }, [filter, debouncedSearchQuery, startDate, endDate, fileSizeFilter, currentPage, pageSize, loadAllHistory, loadHistory, cache]);
+  }, [filter, debouncedSearchQuery, startDate, endDate, fileSizeFilter, qualityFilter, issueCodeFilter, allUsers, currentPage, pageSize, loadAllHistory, loadHistory]);
+
+  // Close the row actions menu on any click outside it
+  useEffect(() => {
+    if (!openMenuId) return;
+    const handleClick = () => setOpenMenuId(null);
+    document.addEventListener('click', handleClick);
+    return () => document.removeEventListener('click', handleClick);
+  }, [openMenuId]);
+
+  // Live updates pushed by the server (replaces polling)
+  useUploadEvents((event) => {
+    if (event.type === UploadEventType.PROGRESS) {
+      // Progress only changes the bar, no need to reload the list
+      if (event.progress) {
+        setProgressById((prev) => ({ ...prev, [event.uploadId]: event.progress as UploadProgress }));
+      }
+      return;
+    }
+
+    // Created, completed, failed or deleted: counts and rows changed
+    cache.clear();
+    loadAllHistory();
+    loadHistory();
+  });
 
   // Clear all filters
   const clearFilters = useCallback(() => {
@@ -177,6 +238,8 @@ const UploadHistory: React.FC<UploadHistoryProps> = ({ onUploadClick, darkMode =
     setStartDate('');
     setEndDate('');
     setFileSizeFilter('all');
+    setQualityFilter('all');
+    setIssueCodeFilter('all');
     setCurrentPage(1);
     setSortConfig(null); // Reset sorting
     setSelectedIds(new Set()); // Clear any selected items
@@ -184,7 +247,7 @@ const UploadHistory: React.FC<UploadHistoryProps> = ({ onUploadClick, darkMode =
   }, [cache]);
 
   // Check if any advanced filters are active (excluding status filter which is a primary view)
-  const hasActiveFilters = searchQuery.trim() || startDate || endDate || fileSizeFilter !== 'all';
+  const hasActiveFilters = searchQuery.trim() || startDate || endDate || fileSizeFilter !== 'all' || qualityFilter !== 'all' || issueCodeFilter !== 'all';
 
   // Pagination handlers
   const goToPage = (page: number) => {
@@ -304,6 +367,16 @@ const UploadHistory: React.FC<UploadHistoryProps> = ({ onUploadClick, darkMode =
     setShowDeleteDialog(true);
   };
 
+  // Open the diff view for the two selected uploads (the earlier one is the base)
+  const handleCompareClick = () => {
+    const ids = Array.from(selectedIds);
+    if (ids.length !== 2) {
+      showInfo('Select exactly two uploads to compare');
+      return;
+    }
+    setDiffIds([ids[0], ids[1]]);
+  };
+
   // Handle bulk delete execution
   const handleBulkDeleteConfirm = async () => {
     try {
@@ -347,47 +420,48 @@ const UploadHistory: React.FC<UploadHistoryProps> = ({ onUploadClick, darkMode =
     }
   };
 
-  // Cache for upload data
-  const dataCache = useCache<CsvRow[]>({ ttl: 10 * 60 * 1000 }); // 10 minutes cache for data
+  // Rows of the upload in the modal, loaded a page at a time and sorted and filtered by the server
+  const modalRowsQuery = useMemo<UploadRowsQuery>(
+    () => ({
+      sort: modalSortConfig?.key,
+      direction: modalSortConfig?.direction,
+      filter: debouncedModalFilterQuery.trim() || undefined,
+    }),
+    [modalSortConfig, debouncedModalFilterQuery],
+  );
+  const modalRows = useUploadRows(selectedUpload?.id, modalRowsQuery, modalPageSize);
+  const { loadPage: loadModalPage, reload: reloadModalRows } = modalRows;
+
+  useEffect(() => {
+    if (selectedUpload) loadModalPage(modalCurrentPage);
+  }, [selectedUpload, loadModalPage, modalCurrentPage]);
 
-  const handleViewData = async (upload: UploadRecord, e: React.MouseEvent) => {
+  // Back to the first page when the filter changes
+  useEffect(() => {
+    setModalCurrentPage(1);
+  }, [debouncedModalFilterQuery]);
+
+  // Problems with the filter expression are shown under the query bar, other errors as toasts
+  const modalFilterError = modalRows.error?.startsWith('Invalid filter') ? modalRows.error : null;
+  useEffect(() => {
+    if (modalRows.error && !modalFilterError) showError(modalRows.error);
+  }, [modalRows.error, modalFilterError, showError]);
+
+  const handleViewData = (upload: UploadRecord, e: React.MouseEvent) => {
     e.stopPropagation(); // Prevent row click
     if (upload.status === UploadStatus.SUCCESS) {
       setSelectedUpload(upload);
-      
-      // Check cache first
-      const cacheKey = `upload-data-${upload.id}`;
-      const cachedData = dataCache.get(cacheKey);
-      
-      if (cachedData) {
-        setUploadData(cachedData);
-        setLoadingData(false);
-        return;
-      }
-      
-      // Lazy load data
-      setLoadingData(true);
-      try {
-        const data = await getUploadData(upload.id);
-        // Cache the data
-        dataCache.set(cacheKey, data.data);
-        setUploadData(data.data);
-        setError(null);
-      } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : 'Failed to load CSV data';
-        setError(errorMessage);
-        showError(errorMessage);
-        setUploadData(null);
-      } finally {
-        setLoadingData(false);
-      }
+      setUploadSchema(upload.columnSchema || []);
+      setUploadTyped(!!upload.typed);
     }
   };
 
   const closeModal = () => {
     setSelectedUpload(null);
-    setUploadData(null);
+    setUploadSchema([]);
+    setUploadTyped(false);
     setModalSortConfig(null);
+    setModalFilterQuery('');
     setModalCurrentPage(1);
     setModalPageSize(10);
     setIsFullScreen(false);
@@ -398,6 +472,10 @@ const UploadHistory: React.FC<UploadHistoryProps> = ({ onUploadClick, darkMode =
     onCloseModal: () => {
       if (selectedUpload) {
         closeModal();
+      } else if (issuesUpload) {
+        setIssuesUpload(null);
+      } else if (diffIds) {
+        setDiffIds(null);
       }
     },
   });
@@ -427,27 +505,16 @@ const UploadHistory: React.FC<UploadHistoryProps> = ({ onUploadClick, darkMode =
     };
   }, [selectedUpload]);
 
-  // Modal data sorting and pagination
-  const sortedModalData = useMemo(() => {
-    if (!uploadData || uploadData.length === 0) return [];
-    if (!modalSortConfig) return uploadData;
-    
-    return [...uploadData].sort((a, b) => {
-      const aValue = a[modalSortConfig.key] || '';
-      const bValue = b[modalSortConfig.key] || '';
-      
-      if (modalSortConfig.direction === 'asc') {
-        return String(aValue).localeCompare(String(bValue));
-      } else {
-        return String(bValue).localeCompare(String(aValue));
-      }
-    });
-  }, [uploadData, modalSortConfig]);
-
-  const modalTotalPages = Math.ceil(sortedModalData.length / modalPageSize);
+  // Modal data pagination (numeric columns sort by value on the server)
+  const modalTotalRows = modalRows.total ?? 0;
+  const modalTotalPages = Math.ceil(modalTotalRows / modalPageSize);
   const modalStartIndex = (modalCurrentPage - 1) * modalPageSize;
   const modalEndIndex = modalStartIndex + modalPageSize;
-  const paginatedModalData = sortedModalData.slice(modalStartIndex, modalEndIndex);
+  const paginatedModalData = modalRows.pages[modalCurrentPage] || [];
+  const loadingData = !!selectedUpload && !modalRows.pages[modalCurrentPage] && !modalRows.error;
+  const modalHeaders = uploadSchema.length > 0
+    ? uploadSchema.map((column) => column.name)
+    : Object.keys(paginatedModalData[0]?.data || {});
 
   const handleModalSort = (key: string) => {
     let direction: 'asc' | 'desc' = 'asc';
@@ -481,7 +548,11 @@ const UploadHistory: React.FC<UploadHistoryProps> = ({ onUploadClick, darkMode =
     if (!selectedUpload?.id) return;
     try {
       setExportingModal(true);
-      await exportCsvData(selectedUpload.id, selectedUpload.fileName);
+      // Keep the filter and sort order shown in the modal
+      await exportCsvData(selectedUpload.id, selectedUpload.fileName, 'csv', {
+        query: debouncedModalFilterQuery.trim() || undefined,
+        sort: modalSortConfig ? [{ column: modalSortConfig.key, direction: modalSortConfig.direction }] : undefined,
+      });
       showSuccess(`CSV exported successfully: ${selectedUpload.fileName}`);
     } catch (error) {
       showError(error instanceof Error ? error.message : 'Failed to export CSV');
@@ -490,6 +561,24 @@ const UploadHistory: React.FC<UploadHistoryProps> = ({ onUploadClick, darkMode =
     }
   };
 
+  // Stores the values as typed JSON, or back as text
+  const handleToggleTyped = async () => {
+    if (!selectedUpload?.id) return;
+    const typed = !uploadTyped;
+    try {
+      setConvertingTypes(true);
+      const updated = await coerceUploadTypes(selectedUpload.id, { typed });
+      setUploadSchema(updated.columnSchema || []);
+      setUploadTyped(!!updated.typed);
+      reloadModalRows();
+      showSuccess(typed ? 'Values are now stored with their column types' : 'Values are now stored as text');
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to convert values');
+    } finally {
+      setConvertingTypes(false);
+    }
+  };
+
   if (loading && !history) {
     return (
       <div className={`card-modern${darkMode ? '-dark' : ''} rounded-2xl p-8`}>
@@ -592,6 +681,38 @@ const UploadHistory: React.FC<UploadHistoryProps> = ({ onUploadClick, darkMode =
             />
           </div>
 
+          {/* Quality Filter */}
+          <div className="w-full sm:w-auto sm:min-w-[160px]">
+            <CustomDropdown
+              options={[
+                { value: 'all', label: 'All Quality' },
+                ...(Object.keys(QUALITY_LEVEL_RANGES) as QualityLevel[]).map((level) => ({
+                  value: level,
+                  label: QUALITY_LEVEL_RANGES[level].label,
+                })),
+              ]}
+              value={qualityFilter}
+              onChange={(value) => setQualityFilter(value as QualityLevel | 'all')}
+              darkMode={darkMode}
+            />
+          </div>
+
+          {/* Issue Code Filter */}
+          <div className="w-full sm:w-auto sm:min-w-[180px]">
+            <CustomDropdown
+              options={[
+                { value: 'all', label: 'All Issues' },
+                ...(Object.keys(ISSUE_CODE_LABELS) as IssueCode[]).map((code) => ({
+                  value: code,
+                  label: ISSUE_CODE_LABELS[code],
+                })),
+              ]}
+              value={issueCodeFilter}
+              onChange={(value) => setIssueCodeFilter(value as IssueCode | 'all')}
+              darkMode={darkMode}
+            />
+          </div>
+
           {/* Clear Filters Button */}
           {hasActiveFilters && (
             <button
@@ -620,7 +741,41 @@ const UploadHistory: React.FC<UploadHistoryProps> = ({ onUploadClick, darkMode =
           </h2>
         </div>
         <div className="flex flex-wrap gap-2">
-          {(['all', UploadStatus.SUCCESS, UploadStatus.FAILED, UploadStatus.PROCESSING] as const).map((filterValue) => {
+          <button
+            onClick={() => setGroupByDataset(!groupByDataset)}
+            title="Show one row per dataset, with its versions"
+            className={`px-4 py-2 rounded-xl font-semibold transition-smooth hover-lift flex items-center gap-2 ${
+              groupByDataset
+                ? 'bg-gradient-to-r from-indigo-600 to-purple-600 text-white shadow-lg'
+                : darkMode
+                  ? 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                  : 'bg-white text-gray-700 hover:bg-gray-50 shadow-md'
+            }`}
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10" />
+            </svg>
+            <span>Group by Dataset</span>
+          </button>
+          {isAdmin && !groupByDataset && (
+            <button
+              onClick={() => setAllUsers(!allUsers)}
+              title="Show the uploads of every workspace, not only the active one"
+              className={`px-4 py-2 rounded-xl font-semibold transition-smooth hover-lift flex items-center gap-2 ${
+                allUsers
+                  ? 'bg-gradient-to-r from-indigo-600 to-purple-600 text-white shadow-lg'
+                  : darkMode
+                    ? 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                    : 'bg-white text-gray-700 hover:bg-gray-50 shadow-md'
+              }`}
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0z" />
+              </svg>
+              <span>All Workspaces</span>
+            </button>
+          )}
+          {!groupByDataset && (['all', UploadStatus.SUCCESS, UploadStatus.FAILED, UploadStatus.PROCESSING] as const).map((filterValue) => {
             const isActive = filter === filterValue;
             const getButtonStyles = () => {
               if (isActive) {
@@ -723,7 +878,14 @@ const UploadHistory: React.FC<UploadHistoryProps> = ({ onUploadClick, darkMode =
         </div>
       )}
 
-      {history && history.uploads.length === 0 ? (
+      {groupByDataset ? (
+        <DatasetHistory
+          search={debouncedSearchQuery}
+          refreshKey={history}
+          onVersionChange={loadHistory}
+          darkMode={darkMode}
+        />
+      ) : history && history.uploads.length === 0 ? (
         <div className={`text-center py-12 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
           <svg className="w-16 h-16 mx-auto mb-4 opacity-50" fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
@@ -744,35 +906,55 @@ const UploadHistory: React.FC<UploadHistoryProps> = ({ onUploadClick, darkMode =
                   {selectedIds.size} upload{selectedIds.size !== 1 ? 's' : ''} selected
                 </span>
               </div>
-              <button
-                onClick={handleBulkDeleteClick}
-                disabled={deleting}
-                className={`px-4 py-2 rounded-xl font-semibold text-sm transition-smooth flex items-center gap-2 ${
-                  deleting
-                    ? darkMode
-                      ? 'bg-gray-700 text-gray-400 cursor-not-allowed'
-                      : 'bg-gray-200 text-gray-400 cursor-not-allowed'
-                    : darkMode
-                      ? 'bg-red-600 text-white hover:bg-red-700'
-                      : 'bg-red-600 text-white hover:bg-red-700'
-                }`}
-              >
-                {deleting ? (
-                  <>
-                    <svg className="w-4 h-4 animate-spin" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
-                    </svg>
-                    Deleting...
-                  </>
-                ) : (
-                  <>
+              <div className="flex items-center gap-2">
+                {selectedIds.size === 2 && (
+                  <button
+                    onClick={handleCompareClick}
+                    title="Compare the rows of the two selected uploads"
+                    className={`px-4 py-2 rounded-xl font-semibold text-sm transition-smooth flex items-center gap-2 ${
+                      darkMode
+                        ? 'bg-gray-700 text-gray-200 hover:bg-gray-600'
+                        : 'bg-white text-gray-700 hover:bg-gray-100 shadow-md'
+                    }`}
+                  >
                     <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
                     </svg>
-                    Delete Selected
-                  </>
+                    Compare
+                  </button>
                 )}
-              </button>
+                {canEdit && (
+                  <button
+                    onClick={handleBulkDeleteClick}
+                    disabled={deleting}
+                    className={`px-4 py-2 rounded-xl font-semibold text-sm transition-smooth flex items-center gap-2 ${
+                      deleting
+                        ? darkMode
+                          ? 'bg-gray-700 text-gray-400 cursor-not-allowed'
+                          : 'bg-gray-200 text-gray-400 cursor-not-allowed'
+                        : darkMode
+                          ? 'bg-red-600 text-white hover:bg-red-700'
+                          : 'bg-red-600 text-white hover:bg-red-700'
+                    }`}
+                  >
+                    {deleting ? (
+                      <>
+                        <svg className="w-4 h-4 animate-spin" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                        </svg>
+                        Deleting...
+                      </>
+                    ) : (
+                      <>
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                        </svg>
+                        Delete Selected
+                      </>
+                    )}
+                  </button>
+                )}
+              </div>
             </div>
           )}
 
@@ -794,7 +976,7 @@ const UploadHistory: React.FC<UploadHistoryProps> = ({ onUploadClick, darkMode =
                       }`}
                     />
                   </th>
-                  {['File Name', 'Status', 'Size', 'Rows', 'Uploaded At', 'Message', 'Actions'].map((header) => (
+                  {['File Name', 'Status', 'Size', 'Rows', 'Quality', 'Uploaded At', 'Message', 'Actions'].map((header) => (
                     <th
                       key={header}
                       className={`px-6 py-4 text-left text-xs font-bold uppercase tracking-wider ${
@@ -835,6 +1017,30 @@ const UploadHistory: React.FC<UploadHistoryProps> = ({ onUploadClick, darkMode =
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
                         </svg>
                         {upload.fileName}
+                        {upload.format && (
+                          <span className={`px-1.5 py-0.5 rounded text-xs font-semibold uppercase ${
+                            darkMode ? 'bg-gray-700 text-gray-300' : 'bg-gray-100 text-gray-600'
+                          }`}>
+                            {upload.format}
+                          </span>
+                        )}
+                        {upload.version && (
+                          <span
+                            title={upload.datasetName ? `Version ${upload.version} of ${upload.datasetName}` : `Version ${upload.version}`}
+                            className={`px-1.5 py-0.5 rounded text-xs font-semibold ${
+                              darkMode ? 'bg-indigo-500/20 text-indigo-300' : 'bg-indigo-100 text-indigo-700'
+                            }`}
+                          >
+                            v{upload.version}
+                          </span>
+                        )}
+                        {upload.current && (
+                          <span className={`px-1.5 py-0.5 rounded text-xs font-semibold ${
+                            darkMode ? 'bg-green-500/20 text-green-300' : 'bg-green-100 text-green-700'
+                          }`}>
+                            current
+                          </span>
+                        )}
                       </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
@@ -856,6 +1062,26 @@ const UploadHistory: React.FC<UploadHistoryProps> = ({ onUploadClick, darkMode =
                         )}
                         {formatStatus(upload.status)}
                       </span>
+                      {upload.status === UploadStatus.PROCESSING && (() => {
+                        const progress = progressById[upload.id] || upload;
+                        return (
+                          <div className="mt-2 w-40">
+                            <div className={`h-1.5 rounded-full overflow-hidden ${
+                              darkMode ? 'bg-gray-700' : 'bg-gray-200'
+                            }`}>
+                              <div
+                                className="h-full bg-gradient-to-r from-yellow-400 to-orange-500 transition-all duration-500"
+                                style={{ width: `${progress.progressPercent}%` }}
+                              />
+                            </div>
+                            <div className={`text-xs mt-1 ${
+                              darkMode ? 'text-gray-400' : 'text-gray-500'
+                            }`}>
+                              {progress.phase} • {progress.rowsProcessed.toLocaleString()} rows • {progress.progressPercent}%
+                            </div>
+                          </div>
+                        );
+                      })()}
                     </td>
                     <td className={`px-6 py-4 whitespace-nowrap text-sm ${
                       darkMode ? 'text-gray-400' : 'text-gray-500'
@@ -867,6 +1093,46 @@ const UploadHistory: React.FC<UploadHistoryProps> = ({ onUploadClick, darkMode =
                     }`}>
                       {upload.totalRows ?? <span className="opacity-50">-</span>}
                     </td>
+                    <td className={`px-6 py-4 whitespace-nowrap text-sm ${
+                      darkMode ? 'text-gray-400' : 'text-gray-500'
+                    }`}>
+                      {upload.quality ? (
+                        <div
+                          className="flex flex-col items-start gap-1"
+                          title={`Completeness ${upload.quality.completeness}% • Validity ${upload.quality.validity}% • Uniqueness ${upload.quality.uniqueness}% • Consistency ${upload.quality.consistency}%`}
+                        >
+                          <span className={`px-2 py-0.5 rounded text-xs font-bold ${getQualityBadgeClass(upload.quality.score, darkMode)}`}>
+                            {upload.quality.score}
+                          </span>
+                          <div className="flex gap-1">
+                            {([
+                              ['C', upload.quality.completeness],
+                              ['V', upload.quality.validity],
+                              ['U', upload.quality.uniqueness],
+                              ['T', upload.quality.consistency],
+                            ] as const).map(([label, value]) => (
+                              <span key={label} className={`px-1.5 py-0.5 rounded text-[10px] font-medium ${getQualityBadgeClass(value, darkMode)}`}>
+                                {label} {Math.round(value)}
+                              </span>
+                            ))}
+                          </div>
+                        </div>
+                      ) : (
+                        <span className="opacity-50">-</span>
+                      )}
+                      {(upload.quality?.issues.total || (!upload.quality && upload.errors?.length)) ? (
+                        <button
+                          onClick={() => setIssuesUpload(upload)}
+                          className={`mt-1 text-xs font-medium underline-offset-2 hover:underline ${
+                            darkMode ? 'text-indigo-400' : 'text-indigo-600'
+                          }`}
+                        >
+                          {upload.quality
+                            ? `${upload.quality.issues.total.toLocaleString()} issue${upload.quality.issues.total !== 1 ? 's' : ''}`
+                            : 'View issues'}
+                        </button>
+                      ) : null}
+                    </td>
                     <td className={`px-6 py-4 whitespace-nowrap text-sm ${
                       darkMode ? 'text-gray-400' : 'text-gray-500'
                     }`}>
@@ -885,28 +1151,63 @@ const UploadHistory: React.FC<UploadHistoryProps> = ({ onUploadClick, darkMode =
                           <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
                           </svg>
-                          {upload.errors.length} error(s)
+                          {upload.errorCount ?? upload.errors.length} error(s)
                         </div>
                       )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm">
-                      {upload.status === UploadStatus.SUCCESS && (
-                        <button
-                          onClick={(e) => handleViewData(upload, e)}
-                          className={`group relative px-6 py-3 rounded-xl font-bold text-sm transition-all duration-300 flex items-center gap-2.5 overflow-hidden ${
-                            darkMode
-                              ? 'bg-gradient-to-r from-indigo-500 via-purple-500 to-pink-500 text-white shadow-[0_0_20px_rgba(99,102,241,0.5)] hover:shadow-[0_0_30px_rgba(99,102,241,0.8)] hover:scale-110 ring-2 ring-indigo-400/50'
-                              : 'bg-gradient-to-r from-indigo-500 via-purple-500 to-pink-500 text-white shadow-[0_4px_20px_rgba(99,102,241,0.4)] hover:shadow-[0_8px_30px_rgba(99,102,241,0.6)] hover:scale-110 ring-2 ring-indigo-300/50'
-                          }`}
-                        >
-                          <div className="absolute inset-0 bg-gradient-to-r from-white/0 via-white/20 to-white/0 translate-x-[-100%] group-hover:translate-x-[100%] transition-transform duration-700"></div>
-                          <svg className="w-5 h-5 relative z-10 transform group-hover:scale-110 transition-transform" fill="currentColor" viewBox="0 0 20 20">
-                            <path d="M10 12a2 2 0 100-4 2 2 0 000 4z" />
-                            <path fillRule="evenodd" d="M.458 10C1.732 5.943 5.522 3 10 3s8.268 2.943 9.542 7c-1.274 4.057-5.064 7-9.542 7S1.732 14.057.458 10zM14 10a4 4 0 11-8 0 4 4 0 018 0z" clipRule="evenodd" />
-                          </svg>
-                          <span className="relative z-10">View Data</span>
-                        </button>
-                      )}
+                      <div className="flex items-center gap-2">
+                        {upload.status === UploadStatus.SUCCESS && (
+                          <button
+                            onClick={(e) => handleViewData(upload, e)}
+                            className={`group relative px-6 py-3 rounded-xl font-bold text-sm transition-all duration-300 flex items-center gap-2.5 overflow-hidden ${
+                              darkMode
+                                ? 'bg-gradient-to-r from-indigo-500 via-purple-500 to-pink-500 text-white shadow-[0_0_20px_rgba(99,102,241,0.5)] hover:shadow-[0_0_30px_rgba(99,102,241,0.8)] hover:scale-110 ring-2 ring-indigo-400/50'
+                                : 'bg-gradient-to-r from-indigo-500 via-purple-500 to-pink-500 text-white shadow-[0_4px_20px_rgba(99,102,241,0.4)] hover:shadow-[0_8px_30px_rgba(99,102,241,0.6)] hover:scale-110 ring-2 ring-indigo-300/50'
+                            }`}
+                          >
+                            <div className="absolute inset-0 bg-gradient-to-r from-white/0 via-white/20 to-white/0 translate-x-[-100%] group-hover:translate-x-[100%] transition-transform duration-700"></div>
+                            <svg className="w-5 h-5 relative z-10 transform group-hover:scale-110 transition-transform" fill="currentColor" viewBox="0 0 20 20">
+                              <path d="M10 12a2 2 0 100-4 2 2 0 000 4z" />
+                              <path fillRule="evenodd" d="M.458 10C1.732 5.943 5.522 3 10 3s8.268 2.943 9.542 7c-1.274 4.057-5.064 7-9.542 7S1.732 14.057.458 10zM14 10a4 4 0 11-8 0 4 4 0 018 0z" clipRule="evenodd" />
+                            </svg>
+                            <span className="relative z-10">View Data</span>
+                          </button>
+                        )}
+                        {canEdit && upload.status === UploadStatus.SUCCESS && (
+                          <div className="relative">
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setOpenMenuId(openMenuId === upload.id ? null : upload.id);
+                              }}
+                              title="More actions"
+                              className={`px-3 py-2 rounded-xl font-bold transition-smooth ${
+                                darkMode ? 'text-gray-300 hover:bg-gray-700' : 'text-gray-600 hover:bg-gray-100'
+                              }`}
+                            >
+                              ⋯
+                            </button>
+                            {openMenuId === upload.id && (
+                              <div className={`absolute right-0 z-20 mt-1 w-44 rounded-xl shadow-xl border overflow-hidden ${
+                                darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'
+                              }`}>
+                                <button
+                                  onClick={() => {
+                                    setOpenMenuId(null);
+                                    setShareUpload(upload);
+                                  }}
+                                  className={`w-full text-left px-4 py-2 text-sm font-medium transition-smooth ${
+                                    darkMode ? 'text-gray-200 hover:bg-gray-700' : 'text-gray-700 hover:bg-indigo-50'
+                                  }`}
+                                >
+                                  Share link
+                                </button>
+                              </div>
+                            )}
+                          </div>
+                        )}
+                      </div>
                     </td>
                   </tr>
                 ))}
@@ -1074,6 +1375,22 @@ const UploadHistory: React.FC<UploadHistoryProps> = ({ onUploadClick, darkMode =
                 </p>
               </div>
               <div className="flex items-center gap-2 sm:gap-3 flex-shrink-0 w-full sm:w-auto justify-end">
+                {canEdit && modalTotalRows > 0 && (
+                  <button
+                    onClick={handleToggleTyped}
+                    disabled={convertingTypes}
+                    title={uploadTyped
+                      ? 'Store values as text again'
+                      : 'Store values as numbers, booleans and dates, so they sort and aggregate by value'}
+                    className={`px-3 sm:px-4 py-2 rounded-xl transition-smooth text-xs sm:text-sm font-medium whitespace-nowrap ${
+                      darkMode
+                        ? 'bg-gray-700 text-gray-200 hover:bg-gray-600'
+                        : 'bg-white text-gray-700 hover:bg-gray-100 shadow-md'
+                    } ${convertingTypes ? 'opacity-50 cursor-not-allowed' : ''}`}
+                  >
+                    {convertingTypes ? 'Converting...' : uploadTyped ? 'Store as Text' : 'Store as Typed Values'}
+                  </button>
+                )}
                 <button
                   onClick={handleModalExport}
                   disabled={exportingModal}
@@ -1134,6 +1451,17 @@ const UploadHistory: React.FC<UploadHistoryProps> = ({ onUploadClick, darkMode =
               </div>
             </div>
             <div className={`flex-1 overflow-auto ${isFullScreen ? 'p-8' : 'p-6'}`}>
+              {modalHeaders.length > 0 && (
+                <div className="mb-4">
+                  <RowQueryBar
+                    value={modalFilterQuery}
+                    onChange={setModalFilterQuery}
+                    columns={modalHeaders}
+                    error={modalFilterError}
+                    darkMode={darkMode}
+                  />
+                </div>
+              )}
               {loadingData ? (
                 <div className="flex flex-col justify-center items-center py-12">
                   <div className="relative">
@@ -1148,7 +1476,7 @@ const UploadHistory: React.FC<UploadHistoryProps> = ({ onUploadClick, darkMode =
                     Loading data...
                   </p>
                 </div>
-              ) : uploadData && uploadData.length > 0 ? (
+              ) : paginatedModalData.length > 0 ? (
                 <div className="overflow-x-auto rounded-xl border overflow-hidden">
                   <table className={`min-w-full divide-y ${
                     darkMode ? 'divide-gray-700' : 'divide-gray-200'
@@ -1157,7 +1485,9 @@ const UploadHistory: React.FC<UploadHistoryProps> = ({ onUploadClick, darkMode =
                       darkMode ? 'bg-gray-800' : 'bg-gradient-to-r from-indigo-50 to-purple-50'
                     }`}>
                       <tr>
-                        {uploadData.length > 0 && Object.keys(uploadData[0]).map((header) => (
+                        {modalHeaders.map((header) => {
+                          const columnType = uploadSchema.find((column) => column.name === header);
+                          return (
                           <th
                             key={header}
                             onClick={() => handleModalSort(header)}
@@ -1167,30 +1497,39 @@ const UploadHistory: React.FC<UploadHistoryProps> = ({ onUploadClick, darkMode =
                           >
                             <div className="flex items-center gap-2">
                               <span>{header}</span>
+                              {columnType && (
+                                <span
+                                  className={`px-1.5 py-0.5 rounded border text-[10px] font-medium normal-case tracking-normal ${getDataTypeColor(columnType.type, darkMode)}`}
+                                  title={`${getDataTypeLabel(columnType.type)}${columnType.format ? ` (${columnType.format})` : ''}, ${Math.round(columnType.confidence * 100)}% confidence${columnType.overridden ? ', set by a user' : ''}`}
+                                >
+                                  {getDataTypeLabel(columnType.type)}
+                                </span>
+                              )}
                               {getModalSortIcon(header)}
                             </div>
                           </th>
-                        ))}
+                          );
+                        })}
                       </tr>
                     </thead>
                     <tbody className={`divide-y ${
                       darkMode ? 'bg-gray-900/50 divide-gray-800' : 'bg-white divide-gray-200'
                     }`}>
-                      {paginatedModalData.map((row, index) => (
+                      {paginatedModalData.map((row) => (
                         <tr
-                          key={index}
+                          key={row.rowNumber}
                           className={`transition-smooth ${
                             darkMode ? 'hover:bg-gray-800' : 'hover:bg-indigo-50/50'
                           }`}
                         >
-                          {Object.values(row).map((cell, cellIndex) => (
+                          {modalHeaders.map((header) => (
                             <td
-                              key={cellIndex}
+                              key={header}
                               className={`px-6 py-4 whitespace-nowrap text-sm ${
                                 darkMode ? 'text-gray-300' : 'text-gray-900'
                               }`}
                             >
-                              {cell || <span className="opacity-50">-</span>}
+                              {formatCellValue(row.data[header]) || <span className="opacity-50">-</span>}
                             </td>
                           ))}
                         </tr>
@@ -1203,13 +1542,15 @@ const UploadHistory: React.FC<UploadHistoryProps> = ({ onUploadClick, darkMode =
                   <svg className="w-16 h-16 mx-auto mb-4 opacity-50" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 13V6a2 2 0 00-2-2H6a2 2 0 00-2 2v7m16 0v5a2 2 0 01-2 2H6a2 2 0 01-2-2v-5m16 0h-2.586a1 1 0 00-.707.293l-2.414 2.414a1 1 0 01-.707.293h-3.172a1 1 0 01-.707-.293l-2.414-2.414A1 1 0 006.586 13H4" />
                   </svg>
-                  <p className="text-lg">No data available</p>
+                  <p className="text-lg">
+                    {modalRowsQuery.filter ? 'No rows match the filter' : 'No data available'}
+                  </p>
                 </div>
               )}
             </div>
 
             {/* Pagination Controls for Modal - Outside scrollable area */}
-            {uploadData && uploadData.length > 0 && (
+            {modalTotalRows > 0 && (
               <div className={`${isFullScreen ? 'px-8 py-6' : 'px-6 py-4'} border-t ${
                 darkMode ? 'border-gray-700' : 'border-gray-200'
               }`}>
@@ -1219,7 +1560,7 @@ const UploadHistory: React.FC<UploadHistoryProps> = ({ onUploadClick, darkMode =
                   {/* Page Info */}
                   <div className="flex items-center gap-2 text-sm">
                     <span>
-                      Showing {modalStartIndex + 1} to {Math.min(modalEndIndex, sortedModalData.length)} of {sortedModalData.length} results
+                      Showing {modalStartIndex + 1} to {Math.min(modalEndIndex, modalTotalRows)} of {modalTotalRows} results
                     </span>
                     {modalTotalPages > 1 && (
                       <>
@@ -1332,7 +1673,7 @@ const UploadHistory: React.FC<UploadHistoryProps> = ({ onUploadClick, darkMode =
                     </div>
                   ) : (
                     <div className={`text-xs px-3 py-2 ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>
-                      All {sortedModalData.length} result{sortedModalData.length !== 1 ? 's' : ''} shown
+                      All {modalTotalRows} result{modalTotalRows !== 1 ? 's' : ''} shown
                     </div>
                   )}
                 </div>
@@ -1344,6 +1685,21 @@ const UploadHistory: React.FC<UploadHistoryProps> = ({ onUploadClick, darkMode =
         document.body
       )}
 
+      {/* Row-level diff of two selected uploads */}
+      {diffIds && (
+        <UploadDiffView uploadIds={diffIds} onClose={() => setDiffIds(null)} darkMode={darkMode} />
+      )}
+
+      {/* Issues found while importing, with the quality score breakdown */}
+      {issuesUpload && (
+        <UploadIssuesPanel upload={issuesUpload} onClose={() => setIssuesUpload(null)} darkMode={darkMode} />
+      )}
+
+      {/* Expiring read-only links to an upload */}
+      {shareUpload && (
+        <ShareLinkDialog upload={shareUpload} onClose={() => setShareUpload(null)} darkMode={darkMode} />
+      )}
+
       {/* Confirmation Dialog for Bulk Delete */}
       <ConfirmationDialog
         isOpen={showDeleteDialog}
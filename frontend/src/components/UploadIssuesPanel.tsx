@@ -0,0 +1,244 @@
+import { useState, useEffect, useMemo } from 'react';
+import { createPortal } from 'react-dom';
+import { IssueCode, IssueSeverity, QualityScore, UploadIssuesQuery, UploadIssuesResponse, UploadRecord } from '../types';
+import { getUploadIssues, downloadUploadIssues } from '../services/api';
+import {
+  ISSUE_CODE_LABELS,
+  ISSUE_SEVERITY_LABELS,
+  getQualityBadgeClass,
+  getSeverityBadgeClass,
+} from '../utils/dataQuality';
+import CustomDropdown from './CustomDropdown';
+import { useToast } from '../contexts/ToastContext';
+
+interface UploadIssuesPanelProps {
+  upload: UploadRecord;
+  onClose: () => void;
+  darkMode?: boolean;
+}
+
+const PAGE_SIZE = 50;
+
+const DIMENSIONS: { key: keyof Omit<QualityScore, 'score' | 'counts' | 'issues'>; label: string }[] = [
+  { key: 'completeness', label: 'Completeness' },
+  { key: 'validity', label: 'Validity' },
+  { key: 'uniqueness', label: 'Uniqueness' },
+  { key: 'consistency', label: 'Consistency' },
+];
+
+/**
+ * Modal listing the issues found while importing an upload, with its quality score broken
+ * down by dimension; issues can be filtered by code and severity and downloaded as CSV
+ */
+const UploadIssuesPanel: React.FC<UploadIssuesPanelProps> = ({ upload, onClose, darkMode = false }) => {
+  const { showError } = useToast();
+  const [code, setCode] = useState<IssueCode | ''>('');
+  const [severity, setSeverity] = useState<IssueSeverity | ''>('');
+  const [page, setPage] = useState(1);
+  const [result, setResult] = useState<UploadIssuesResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [downloading, setDownloading] = useState(false);
+
+  const query = useMemo<UploadIssuesQuery>(() => ({
+    ...(code && { code }),
+    ...(severity && { severity }),
+  }), [code, severity]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    getUploadIssues(upload.id, query, page, PAGE_SIZE)
+      .then((fetched) => {
+        if (!cancelled) setResult(fetched);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to fetch issues');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [upload.id, query, page]);
+
+  const handleDownload = async () => {
+    try {
+      setDownloading(true);
+      await downloadUploadIssues(upload.id, upload.fileName, query);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to download issues');
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const quality = result?.quality ?? upload.quality;
+  const byCode = quality?.issues.byCode ?? {};
+  const mutedClass = darkMode ? 'text-gray-400' : 'text-gray-500';
+  const buttonClass = `px-3 py-1.5 rounded-lg text-sm font-medium transition-smooth ${
+    darkMode ? 'bg-gray-700 text-gray-200 hover:bg-gray-600' : 'bg-white text-gray-700 hover:bg-gray-100 shadow-md'
+  }`;
+
+  return createPortal(
+    <div className="fixed inset-0 z-[100] animate-fade-in" onClick={onClose}>
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" />
+      <div className="absolute inset-0 flex items-center justify-center p-4">
+        <div
+          className={`relative card-modern${darkMode ? '-dark' : ''} rounded-2xl shadow-2xl flex flex-col max-w-5xl w-full max-h-[90vh]`}
+          onClick={(e) => e.stopPropagation()}
+        >
+          <div className={`flex justify-between items-start gap-4 p-6 border-b ${darkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+            <div className="min-w-0">
+              <h3 className={`text-xl font-bold break-all ${darkMode ? 'text-gray-100' : 'text-gray-800'}`}>
+                <span className="text-base font-normal opacity-75">Issues:</span> {upload.fileName}
+              </h3>
+              {quality ? (
+                <div className="flex flex-wrap items-center gap-2 mt-2">
+                  <span className={`px-2 py-0.5 rounded text-sm font-bold ${getQualityBadgeClass(quality.score, darkMode)}`}>
+                    Quality {quality.score}
+                  </span>
+                  {DIMENSIONS.map(({ key, label }) => (
+                    <span key={key} className={`px-2 py-0.5 rounded text-xs font-medium ${getQualityBadgeClass(quality[key], darkMode)}`}>
+                      {label} {quality[key]}%
+                    </span>
+                  ))}
+                </div>
+              ) : (
+                <p className={`mt-1 text-sm ${mutedClass}`}>No quality score for this upload</p>
+              )}
+            </div>
+            <button
+              onClick={onClose}
+              className={`p-2 rounded-xl transition-smooth flex-shrink-0 ${
+                darkMode ? 'text-gray-400 hover:text-gray-200 hover:bg-gray-700' : 'text-gray-500 hover:text-gray-700 hover:bg-gray-100'
+              }`}
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3 px-6 py-4">
+            <div className="min-w-[200px]">
+              <CustomDropdown
+                options={[
+                  { value: '', label: 'All Codes' },
+                  ...(Object.keys(ISSUE_CODE_LABELS) as IssueCode[])
+                    .filter((issueCode) => !quality || byCode[issueCode])
+                    .map((issueCode) => ({
+                      value: issueCode,
+                      label: `${ISSUE_CODE_LABELS[issueCode]}${byCode[issueCode] ? ` (${byCode[issueCode]})` : ''}`,
+                    })),
+                ]}
+                value={code}
+                onChange={(value) => {
+                  setCode(value as IssueCode | '');
+                  setPage(1);
+                }}
+                darkMode={darkMode}
+              />
+            </div>
+            <div className="min-w-[160px]">
+              <CustomDropdown
+                options={[
+                  { value: '', label: 'All Severities' },
+                  ...(Object.keys(ISSUE_SEVERITY_LABELS) as IssueSeverity[]).map((issueSeverity) => ({
+                    value: issueSeverity,
+                    label: quality
+                      ? `${ISSUE_SEVERITY_LABELS[issueSeverity]} (${quality.issues.bySeverity[issueSeverity]})`
+                      : ISSUE_SEVERITY_LABELS[issueSeverity],
+                  })),
+                ]}
+                value={severity}
+                onChange={(value) => {
+                  setSeverity(value as IssueSeverity | '');
+                  setPage(1);
+                }}
+                darkMode={darkMode}
+              />
+            </div>
+            <button
+              onClick={handleDownload}
+              disabled={downloading || !result || result.total === 0}
+              className={`ml-auto ${buttonClass} ${downloading || !result || result.total === 0 ? 'opacity-50 cursor-not-allowed' : ''}`}
+            >
+              {downloading ? 'Downloading...' : 'Download Issues CSV'}
+            </button>
+          </div>
+
+          <div className="flex-1 overflow-auto px-6">
+            {loading && !result ? (
+              <div className={`text-center py-12 ${mutedClass}`}>Loading issues...</div>
+            ) : error ? (
+              <div className={`p-4 rounded-xl text-sm ${darkMode ? 'bg-red-500/10 text-red-400' : 'bg-red-50 text-red-700'}`}>
+                {error}
+              </div>
+            ) : !result || result.issues.length === 0 ? (
+              <div className={`text-center py-12 ${mutedClass}`}>No issues found</div>
+            ) : (
+              <table className={`min-w-full text-sm ${loading ? 'opacity-50' : ''}`}>
+                <thead>
+                  <tr className={`text-left text-xs font-bold uppercase tracking-wider ${mutedClass}`}>
+                    <th className="py-2 pr-4">Row</th>
+                    <th className="py-2 pr-4">Column</th>
+                    <th className="py-2 pr-4">Code</th>
+                    <th className="py-2 pr-4">Severity</th>
+                    <th className="py-2">Message</th>
+                  </tr>
+                </thead>
+                <tbody className={`divide-y ${darkMode ? 'divide-gray-800 text-gray-300' : 'divide-gray-100 text-gray-700'}`}>
+                  {result.issues.map((issue, index) => (
+                    <tr key={`${issue.row}-${issue.column}-${issue.code}-${index}`}>
+                      <td className="py-2 pr-4 whitespace-nowrap">{issue.row}</td>
+                      <td className="py-2 pr-4 whitespace-nowrap">{issue.column ?? <span className="opacity-50">-</span>}</td>
+                      <td className="py-2 pr-4 whitespace-nowrap">{ISSUE_CODE_LABELS[issue.code] ?? issue.code}</td>
+                      <td className="py-2 pr-4 whitespace-nowrap">
+                        <span className={`px-2 py-0.5 rounded text-xs font-medium ${getSeverityBadgeClass(issue.severity, darkMode)}`}>
+                          {ISSUE_SEVERITY_LABELS[issue.severity]}
+                        </span>
+                      </td>
+                      <td className="py-2">{issue.message}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          {result && result.total > 0 && (
+            <div className={`flex items-center justify-between gap-4 p-4 border-t text-sm ${
+              darkMode ? 'border-gray-700 text-gray-300' : 'border-gray-200 text-gray-700'
+            }`}>
+              <span>
+                {result.total.toLocaleString()} issue{result.total !== 1 ? 's' : ''} • Page {result.page} of {result.totalPages}
+              </span>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setPage(page - 1)}
+                  disabled={!result.hasPreviousPage}
+                  className={`${buttonClass} ${!result.hasPreviousPage ? 'opacity-50 cursor-not-allowed' : ''}`}
+                >
+                  Previous
+                </button>
+                <button
+                  onClick={() => setPage(page + 1)}
+                  disabled={!result.hasNextPage}
+                  className={`${buttonClass} ${!result.hasNextPage ? 'opacity-50 cursor-not-allowed' : ''}`}
+                >
+                  Next
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default UploadIssuesPanel;
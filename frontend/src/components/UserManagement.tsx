@@ -0,0 +1,139 @@
+import { useEffect, useState } from 'react';
+import { getUsers, updateUserRole, ManagedUser, UserRole } from '../services/api';
+import CustomDropdown from './CustomDropdown';
+import { useToast } from '../contexts/ToastContext';
+import { useAuth } from '../contexts/AuthContext';
+
+interface UserManagementProps {
+  darkMode?: boolean;
+}
+
+const ROLE_OPTIONS: Array<{ value: UserRole; label: string }> = [
+  { value: 'admin', label: 'Admin' },
+  { value: 'editor', label: 'Editor' },
+  { value: 'viewer', label: 'Viewer' },
+];
+
+const ROLE_DESCRIPTIONS: Record<UserRole, string> = {
+  admin: 'Manages users; sees and deletes the uploads and audit logs of every workspace',
+  editor: 'Uploads files and changes or deletes data in their workspaces (unless a viewer there)',
+  viewer: 'Reads the data of their workspaces; cannot upload or change anything anywhere',
+};
+
+const formatDate = (dateString: string) => new Date(dateString).toLocaleString();
+
+/**
+ * Admin screen listing every user with a role picker
+ */
+const UserManagement: React.FC<UserManagementProps> = ({ darkMode = false }) => {
+  const { showSuccess, showError } = useToast();
+  const { user: currentUser, refreshUser } = useAuth();
+  const [users, setUsers] = useState<ManagedUser[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getUsers()
+      .then((fetched) => {
+        if (!cancelled) setUsers(fetched);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to fetch users');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const handleRoleChange = async (managedUser: ManagedUser, role: UserRole) => {
+    if (role === managedUser.role) return;
+    try {
+      setSavingId(managedUser.id);
+      const updated = await updateUserRole(managedUser.id, role);
+      setUsers((prev) => prev && prev.map((item) => (item.id === updated.id ? updated : item)));
+      showSuccess(`${updated.email} is now ${ROLE_OPTIONS.find((option) => option.value === role)?.label.toLowerCase()}`);
+      // Giving up your own admin role hides this screen
+      if (updated.id === currentUser?.id) {
+        await refreshUser();
+      }
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to change role');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const mutedClass = darkMode ? 'text-gray-400' : 'text-gray-500';
+  const cellClass = `px-6 py-4 whitespace-nowrap text-sm ${mutedClass}`;
+
+  return (
+    <div className={`card-modern${darkMode ? '-dark' : ''} rounded-2xl p-8 transition-smooth`}>
+      <div className="mb-6">
+        <h2 className={`text-3xl font-bold mb-2 ${darkMode ? 'text-gray-100' : 'text-gray-800'}`}>
+          Users
+        </h2>
+        <p className={`text-lg ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+          Choose what each user may do
+        </p>
+        <ul className={`mt-3 text-sm space-y-1 ${mutedClass}`}>
+          {ROLE_OPTIONS.map((option) => (
+            <li key={option.value}>
+              <span className="font-semibold">{option.label}:</span> {ROLE_DESCRIPTIONS[option.value]}
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      {error ? (
+        <div className={`p-4 rounded-xl text-sm ${darkMode ? 'bg-red-500/10 text-red-400' : 'bg-red-50 text-red-700'}`}>
+          {error}
+        </div>
+      ) : !users ? (
+        <div className={`text-center py-12 ${mutedClass}`}>Loading users...</div>
+      ) : (
+        <div className="overflow-x-auto rounded-xl border">
+          <table className={`min-w-full divide-y ${darkMode ? 'divide-gray-700' : 'divide-gray-200'}`}>
+            <thead className={darkMode ? 'bg-gray-800' : 'bg-gradient-to-r from-indigo-50 to-purple-50'}>
+              <tr>
+                {['User', 'Email', 'Registered', 'Role'].map((header) => (
+                  <th
+                    key={header}
+                    className={`px-6 py-4 text-left text-xs font-bold uppercase tracking-wider ${
+                      darkMode ? 'text-gray-300' : 'text-gray-700'
+                    }`}
+                  >
+                    {header}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className={`divide-y ${darkMode ? 'bg-gray-900/50 divide-gray-800' : 'bg-white divide-gray-200'}`}>
+              {users.map((managedUser) => (
+                <tr key={managedUser.id}>
+                  <td className={`px-6 py-4 whitespace-nowrap text-sm font-medium ${darkMode ? 'text-gray-200' : 'text-gray-900'}`}>
+                    {[managedUser.firstName, managedUser.lastName].filter(Boolean).join(' ') || managedUser.email.split('@')[0]}
+                    {managedUser.id === currentUser?.id && <span className={`ml-2 text-xs ${mutedClass}`}>(you)</span>}
+                  </td>
+                  <td className={cellClass}>{managedUser.email}</td>
+                  <td className={cellClass}>{formatDate(managedUser.createdAt)}</td>
+                  <td className={`px-6 py-3 ${savingId === managedUser.id ? 'opacity-50 pointer-events-none' : ''}`}>
+                    <CustomDropdown
+                      options={ROLE_OPTIONS}
+                      value={managedUser.role}
+                      onChange={(value) => handleRoleChange(managedUser, value as UserRole)}
+                      darkMode={darkMode}
+                      className="w-36"
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UserManagement;
@@ -9,25 +9,39 @@ interface Column<T> {
 }
 
 interface VirtualizedTableProps<T> {
-  data: T[];
+  data?: T[];
+  // Rows loaded on demand: the number of rows, the row at an index (undefined while
+  // its page is loading) and a callback telling which rows are about to be shown
+  rowCount?: number;
+  getRow?: (index: number) => T | undefined;
+  onRowsRendered?: (startIndex: number, stopIndex: number) => void;
   columns: Column<T>[];
   height?: number;
   rowHeight?: number;
   darkMode?: boolean;
   onRowClick?: (item: T, index: number) => void;
+  rowClassName?: (item: T, index: number) => string | undefined; // Replaces the striped background
+  rowTitle?: (item: T, index: number) => string | undefined;
 }
 
 /**
  * VirtualizedTable - A high-performance table component using virtual scrolling
- * Only renders visible rows, making it efficient for large datasets
+ * Only renders visible rows, making it efficient for large datasets.
+ * Pass data for rows already in memory, or rowCount/getRow/onRowsRendered to fetch
+ * rows as they scroll into view (placeholders are shown until they arrive).
  */
 function VirtualizedTable<T extends Record<string, any>>({
-  data,
+  data = [],
+  rowCount = data.length,
+  getRow = (index) => data[index],
+  onRowsRendered,
   columns,
   height = 400,
   rowHeight = 50,
   darkMode = false,
   onRowClick,
+  rowClassName,
+  rowTitle,
 }: VirtualizedTableProps<T>) {
   const totalWidth = useMemo(() => {
     return columns.reduce((sum, col) => sum + col.width, 0);
@@ -39,17 +53,41 @@ function VirtualizedTable<T extends Record<string, any>>({
     style: React.CSSProperties;
     ariaAttributes?: any;
   }) => {
-    const item = data[index];
+    const item = getRow(index);
     const isEven = index % 2 === 0;
 
+    // Row not loaded yet
+    if (!item) {
+      return (
+        <div
+          style={style}
+          className={`flex items-center border-b ${darkMode ? 'border-gray-700' : 'border-gray-200'}`}
+          {...ariaAttributes}
+        >
+          {columns.map((column) => (
+            <div
+              key={column.key}
+              style={{ width: column.width, minWidth: column.width, flexShrink: 0 }}
+              className="px-4 py-2"
+            >
+              <div className={`h-3 rounded animate-pulse ${darkMode ? 'bg-gray-700' : 'bg-gray-200'}`} />
+            </div>
+          ))}
+        </div>
+      );
+    }
+
+    const customClassName = rowClassName?.(item, index);
+
     return (
       <div
         style={style}
         onClick={() => onRowClick?.(item, index)}
+        title={rowTitle?.(item, index)}
         className={`flex items-center border-b transition-colors ${
           darkMode
-            ? `border-gray-700 ${isEven ? 'bg-gray-800/30' : 'bg-gray-800/50'} hover:bg-gray-700/50`
-            : `border-gray-200 ${isEven ? 'bg-white' : 'bg-gray-50'} hover:bg-gray-100`
+            ? `border-gray-700 ${customClassName || (isEven ? 'bg-gray-800/30' : 'bg-gray-800/50')} hover:bg-gray-700/50`
+            : `border-gray-200 ${customClassName || (isEven ? 'bg-white' : 'bg-gray-50')} hover:bg-gray-100`
         } ${onRowClick ? 'cursor-pointer' : ''}`}
         {...ariaAttributes}
       >
@@ -92,7 +130,7 @@ function VirtualizedTable<T extends Record<string, any>>({
     </div>
   );
 
-  if (data.length === 0) {
+  if (rowCount === 0) {
     return (
       <div
         className={`flex items-center justify-center h-64 rounded-xl ${
@@ -139,10 +177,11 @@ function VirtualizedTable<T extends Record<string, any>>({
             }}
           >
             <List
-              rowCount={data.length}
+              rowCount={rowCount}
               rowHeight={rowHeight}
               rowComponent={RowComponent}
               rowProps={{}}
+              onRowsRendered={onRowsRendered && ((_visibleRows, allRows) => onRowsRendered(allRows.startIndex, allRows.stopIndex))}
               style={{ 
                 height, 
                 width: totalWidth
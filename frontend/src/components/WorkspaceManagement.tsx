@@ -0,0 +1,485 @@
+import { useEffect, useState } from 'react';
+import {
+  WorkspaceInvitation,
+  WorkspaceMember,
+  WorkspaceRole,
+  acceptInvitation,
+  createWorkspace,
+  declineInvitation,
+  getMyInvitations,
+  getWorkspaceInvitations,
+  getWorkspaceMembers,
+  inviteToWorkspace,
+  removeWorkspaceMember,
+  renameWorkspace,
+  revokeWorkspaceInvitation,
+  updateWorkspaceMemberRole,
+} from '../services/api';
+import CustomDropdown from './CustomDropdown';
+import ConfirmationDialog from './ConfirmationDialog';
+import { useToast } from '../contexts/ToastContext';
+import { useAuth } from '../contexts/AuthContext';
+import { useWorkspace } from '../contexts/WorkspaceContext';
+
+interface WorkspaceManagementProps {
+  darkMode?: boolean;
+}
+
+const ROLE_OPTIONS: Array<{ value: WorkspaceRole; label: string }> = [
+  { value: 'admin', label: 'Admin' },
+  { value: 'editor', label: 'Editor' },
+  { value: 'viewer', label: 'Viewer' },
+];
+
+const ROLE_DESCRIPTIONS: Record<WorkspaceRole, string> = {
+  admin: 'Manages members and invitations, and uploads and changes data',
+  editor: 'Uploads files and changes or deletes the data of the workspace',
+  viewer: 'Reads the data of the workspace; cannot upload or change anything',
+};
+
+const roleLabel = (role: WorkspaceRole) => ROLE_OPTIONS.find((option) => option.value === role)?.label || role;
+
+const formatDate = (dateString: string) => new Date(dateString).toLocaleString();
+
+/**
+ * The active workspace: its members and invitations, creating and renaming
+ * workspaces, and the invitations the user has received
+ */
+const WorkspaceManagement: React.FC<WorkspaceManagementProps> = ({ darkMode = false }) => {
+  const { showSuccess, showError } = useToast();
+  const { user: currentUser } = useAuth();
+  const { activeWorkspace, isWorkspaceAdmin, switchWorkspace, refreshWorkspaces } = useWorkspace();
+  const [members, setMembers] = useState<WorkspaceMember[] | null>(null);
+  const [invitations, setInvitations] = useState<WorkspaceInvitation[]>([]);
+  const [myInvitations, setMyInvitations] = useState<WorkspaceInvitation[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [workspaceName, setWorkspaceName] = useState('');
+  const [newWorkspaceName, setNewWorkspaceName] = useState('');
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<WorkspaceRole>('editor');
+  const [submitting, setSubmitting] = useState(false);
+  // Member to remove (or the current user, to leave) once confirmed
+  const [memberToRemove, setMemberToRemove] = useState<WorkspaceMember | null>(null);
+
+  const workspaceId = activeWorkspace?.id;
+
+  useEffect(() => {
+    setWorkspaceName(activeWorkspace?.name || '');
+  }, [activeWorkspace?.name]);
+
+  // Members and (for workspace admins) pending invitations of the active workspace
+  useEffect(() => {
+    if (!workspaceId) return;
+    let cancelled = false;
+    setMembers(null);
+    setError(null);
+    Promise.all([getWorkspaceMembers(workspaceId), isWorkspaceAdmin ? getWorkspaceInvitations(workspaceId) : []])
+      .then(([fetchedMembers, fetchedInvitations]) => {
+        if (cancelled) return;
+        setMembers(fetchedMembers);
+        setInvitations(fetchedInvitations);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to fetch members');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [workspaceId, isWorkspaceAdmin]);
+
+  // Invitations the current user has received
+  useEffect(() => {
+    let cancelled = false;
+    getMyInvitations()
+      .then((fetched) => {
+        if (!cancelled) setMyInvitations(fetched);
+      })
+      .catch(() => {
+        // The rest of the screen works without them
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const handleRename = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!workspaceId || !workspaceName.trim() || workspaceName.trim() === activeWorkspace?.name) return;
+    try {
+      setSubmitting(true);
+      const renamed = await renameWorkspace(workspaceId, workspaceName.trim());
+      await refreshWorkspaces();
+      showSuccess(`Workspace renamed to ${renamed.name}`);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to rename workspace');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!newWorkspaceName.trim()) return;
+    try {
+      setSubmitting(true);
+      const created = await createWorkspace(newWorkspaceName.trim());
+      await refreshWorkspaces();
+      switchWorkspace(created.id);
+      setNewWorkspaceName('');
+      showSuccess(`Workspace ${created.name} created`);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to create workspace');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleInvite = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!workspaceId || !inviteEmail.trim()) return;
+    try {
+      setSubmitting(true);
+      const invitation = await inviteToWorkspace(workspaceId, inviteEmail.trim(), inviteRole);
+      setInvitations((prev) => [invitation, ...prev]);
+      setInviteEmail('');
+      showSuccess(`Invitation sent to ${invitation.email}`);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to send invitation');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRevoke = async (invitation: WorkspaceInvitation) => {
+    if (!workspaceId) return;
+    try {
+      setSavingId(invitation.id);
+      await revokeWorkspaceInvitation(workspaceId, invitation.id);
+      setInvitations((prev) => prev.filter((item) => item.id !== invitation.id));
+      showSuccess(`Invitation for ${invitation.email} revoked`);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to revoke invitation');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleRoleChange = async (member: WorkspaceMember, role: WorkspaceRole) => {
+    if (!workspaceId || role === member.role) return;
+    try {
+      setSavingId(member.userId);
+      await updateWorkspaceMemberRole(workspaceId, member.userId, role);
+      setMembers((prev) => prev && prev.map((item) => (item.userId === member.userId ? { ...item, role } : item)));
+      showSuccess(`${member.email} is now ${roleLabel(role).toLowerCase()}`);
+      // Giving up your own admin role changes what you may do here
+      if (member.userId === currentUser?.id) {
+        await refreshWorkspaces();
+      }
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to change role');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleRemoveConfirm = async () => {
+    if (!workspaceId || !memberToRemove) return;
+    const leaving = memberToRemove.userId === currentUser?.id;
+    try {
+      setSavingId(memberToRemove.userId);
+      await removeWorkspaceMember(workspaceId, memberToRemove.userId);
+      if (leaving) {
+        // Switches back to the personal workspace
+        showSuccess(`You left ${activeWorkspace?.name}`);
+        await refreshWorkspaces();
+      } else {
+        setMembers((prev) => prev && prev.filter((item) => item.userId !== memberToRemove.userId));
+        showSuccess(`${memberToRemove.email} removed from the workspace`);
+      }
+      setMemberToRemove(null);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to remove member');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleAnswerInvitation = async (invitation: WorkspaceInvitation, accept: boolean) => {
+    try {
+      setSavingId(invitation.id);
+      if (accept) {
+        const joined = await acceptInvitation(invitation.id);
+        await refreshWorkspaces();
+        switchWorkspace(joined.id);
+        showSuccess(`You joined ${joined.name}`);
+      } else {
+        await declineInvitation(invitation.id);
+        showSuccess(`Invitation to ${invitation.workspaceName} declined`);
+      }
+      setMyInvitations((prev) => prev.filter((item) => item.id !== invitation.id));
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to answer invitation');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const mutedClass = darkMode ? 'text-gray-400' : 'text-gray-500';
+  const cellClass = `px-6 py-4 whitespace-nowrap text-sm ${mutedClass}`;
+  const headingClass = `text-xl font-bold mb-3 ${darkMode ? 'text-gray-100' : 'text-gray-800'}`;
+  const inputClass = `px-4 py-2 rounded-xl border transition-smooth focus:ring-2 ${
+    darkMode
+      ? 'bg-gray-800 border-gray-700 text-gray-200 focus:ring-indigo-500 focus:border-indigo-500'
+      : 'bg-white border-gray-300 text-gray-800 focus:ring-indigo-300 focus:border-indigo-300'
+  }`;
+  const buttonClass =
+    'px-4 py-2 rounded-xl font-semibold transition-smooth hover-lift bg-gradient-to-r from-indigo-600 to-purple-600 text-white shadow-lg disabled:opacity-50';
+  const linkButtonClass = (danger: boolean) =>
+    `text-sm font-semibold transition-smooth disabled:opacity-50 ${
+      danger
+        ? darkMode ? 'text-red-400 hover:text-red-300' : 'text-red-600 hover:text-red-700'
+        : darkMode ? 'text-indigo-400 hover:text-indigo-300' : 'text-indigo-600 hover:text-indigo-700'
+    }`;
+  const tableHeader = (headers: string[]) => (
+    <thead className={darkMode ? 'bg-gray-800' : 'bg-gradient-to-r from-indigo-50 to-purple-50'}>
+      <tr>
+        {headers.map((header) => (
+          <th
+            key={header}
+            className={`px-6 py-4 text-left text-xs font-bold uppercase tracking-wider ${
+              darkMode ? 'text-gray-300' : 'text-gray-700'
+            }`}
+          >
+            {header}
+          </th>
+        ))}
+      </tr>
+    </thead>
+  );
+  const tableClass = `min-w-full divide-y ${darkMode ? 'divide-gray-700' : 'divide-gray-200'}`;
+  const tbodyClass = `divide-y ${darkMode ? 'bg-gray-900/50 divide-gray-800' : 'bg-white divide-gray-200'}`;
+
+  return (
+    <div className={`card-modern${darkMode ? '-dark' : ''} rounded-2xl p-8 transition-smooth space-y-8`}>
+      <div>
+        <h2 className={`text-3xl font-bold mb-2 ${darkMode ? 'text-gray-100' : 'text-gray-800'}`}>
+          {activeWorkspace?.name || 'Workspace'}
+        </h2>
+        <p className={`text-lg ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+          Members share the uploads, datasets, import templates and audit logs of the workspace
+        </p>
+        {activeWorkspace && (
+          <p className={`mt-1 text-sm ${mutedClass}`}>
+            Your role here: <span className="capitalize font-semibold">{activeWorkspace.role}</span>
+            {activeWorkspace.personal && ' • Your personal workspace'}
+          </p>
+        )}
+        <ul className={`mt-3 text-sm space-y-1 ${mutedClass}`}>
+          {ROLE_OPTIONS.map((option) => (
+            <li key={option.value}>
+              <span className="font-semibold">{option.label}:</span> {ROLE_DESCRIPTIONS[option.value]}
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      {/* Invitations the current user has received */}
+      {myInvitations.length > 0 && (
+        <section>
+          <h3 className={headingClass}>Your Invitations</h3>
+          <ul className="space-y-2">
+            {myInvitations.map((invitation) => (
+              <li
+                key={invitation.id}
+                className={`flex items-center justify-between gap-4 p-4 rounded-xl ${
+                  darkMode ? 'bg-indigo-500/10 text-gray-200' : 'bg-indigo-50 text-gray-800'
+                } ${savingId === invitation.id ? 'opacity-50 pointer-events-none' : ''}`}
+              >
+                <span className="text-sm">
+                  {invitation.invitedBy || 'An admin'} invited you to <span className="font-semibold">{invitation.workspaceName}</span> as{' '}
+                  {roleLabel(invitation.role).toLowerCase()}
+                </span>
+                <span className="flex gap-4 flex-shrink-0">
+                  <button onClick={() => handleAnswerInvitation(invitation, true)} className={linkButtonClass(false)}>
+                    Accept
+                  </button>
+                  <button onClick={() => handleAnswerInvitation(invitation, false)} className={linkButtonClass(true)}>
+                    Decline
+                  </button>
+                </span>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {/* Members */}
+      <section>
+        <h3 className={headingClass}>Members</h3>
+        {error ? (
+          <div className={`p-4 rounded-xl text-sm ${darkMode ? 'bg-red-500/10 text-red-400' : 'bg-red-50 text-red-700'}`}>
+            {error}
+          </div>
+        ) : !members ? (
+          <div className={`text-center py-12 ${mutedClass}`}>Loading members...</div>
+        ) : (
+          <div className="overflow-x-auto rounded-xl border">
+            <table className={tableClass}>
+              {tableHeader(['Member', 'Email', 'Joined', 'Role', ''])}
+              <tbody className={tbodyClass}>
+                {members.map((member) => {
+                  const isSelf = member.userId === currentUser?.id;
+                  return (
+                    <tr key={member.userId} className={savingId === member.userId ? 'opacity-50 pointer-events-none' : ''}>
+                      <td className={`px-6 py-4 whitespace-nowrap text-sm font-medium ${darkMode ? 'text-gray-200' : 'text-gray-900'}`}>
+                        {[member.firstName, member.lastName].filter(Boolean).join(' ') || member.email.split('@')[0]}
+                        {isSelf && <span className={`ml-2 text-xs ${mutedClass}`}>(you)</span>}
+                      </td>
+                      <td className={cellClass}>{member.email}</td>
+                      <td className={cellClass}>{formatDate(member.joinedAt)}</td>
+                      <td className={isWorkspaceAdmin ? 'px-6 py-3' : cellClass}>
+                        {isWorkspaceAdmin ? (
+                          <CustomDropdown
+                            options={ROLE_OPTIONS}
+                            value={member.role}
+                            onChange={(value) => handleRoleChange(member, value as WorkspaceRole)}
+                            darkMode={darkMode}
+                            className="w-36"
+                          />
+                        ) : (
+                          roleLabel(member.role)
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right">
+                        {(isSelf || isWorkspaceAdmin) && (
+                          <button onClick={() => setMemberToRemove(member)} className={linkButtonClass(true)}>
+                            {isSelf ? 'Leave' : 'Remove'}
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
+      {/* Invitations (workspace admins only) */}
+      {isWorkspaceAdmin && (
+        <section>
+          <h3 className={headingClass}>Invite Members</h3>
+          <p className={`text-sm mb-3 ${mutedClass}`}>
+            Invite users who already have an account; they join once they accept.
+          </p>
+          <form onSubmit={handleInvite} className="flex flex-wrap items-center gap-3">
+            <input
+              type="email"
+              placeholder="colleague@example.com"
+              value={inviteEmail}
+              onChange={(e) => setInviteEmail(e.target.value)}
+              className={`${inputClass} flex-1 min-w-[16rem]`}
+            />
+            <CustomDropdown
+              options={ROLE_OPTIONS}
+              value={inviteRole}
+              onChange={(value) => setInviteRole(value as WorkspaceRole)}
+              darkMode={darkMode}
+              className="w-36"
+            />
+            <button type="submit" disabled={submitting || !inviteEmail.trim()} className={buttonClass}>
+              Send Invitation
+            </button>
+          </form>
+
+          {invitations.length > 0 && (
+            <div className="mt-4 overflow-x-auto rounded-xl border">
+              <table className={tableClass}>
+                {tableHeader(['Pending Invitation', 'Role', 'Invited By', 'Sent', ''])}
+                <tbody className={tbodyClass}>
+                  {invitations.map((invitation) => (
+                    <tr key={invitation.id} className={savingId === invitation.id ? 'opacity-50 pointer-events-none' : ''}>
+                      <td className={`px-6 py-4 whitespace-nowrap text-sm font-medium ${darkMode ? 'text-gray-200' : 'text-gray-900'}`}>
+                        {invitation.email}
+                      </td>
+                      <td className={cellClass}>{roleLabel(invitation.role)}</td>
+                      <td className={cellClass}>{invitation.invitedBy || '-'}</td>
+                      <td className={cellClass}>{formatDate(invitation.createdAt)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right">
+                        <button onClick={() => handleRevoke(invitation)} className={linkButtonClass(true)}>
+                          Revoke
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </section>
+      )}
+
+      {/* Rename (workspace admins only) and create */}
+      <section className="grid gap-6 md:grid-cols-2">
+        {isWorkspaceAdmin && (
+          <form onSubmit={handleRename}>
+            <h3 className={headingClass}>Rename Workspace</h3>
+            <div className="flex gap-3">
+              <input
+                type="text"
+                maxLength={100}
+                value={workspaceName}
+                onChange={(e) => setWorkspaceName(e.target.value)}
+                className={`${inputClass} flex-1`}
+              />
+              <button
+                type="submit"
+                disabled={submitting || !workspaceName.trim() || workspaceName.trim() === activeWorkspace?.name}
+                className={buttonClass}
+              >
+                Rename
+              </button>
+            </div>
+          </form>
+        )}
+        <form onSubmit={handleCreate}>
+          <h3 className={headingClass}>New Workspace</h3>
+          <div className="flex gap-3">
+            <input
+              type="text"
+              maxLength={100}
+              placeholder="Finance team"
+              value={newWorkspaceName}
+              onChange={(e) => setNewWorkspaceName(e.target.value)}
+              className={`${inputClass} flex-1`}
+            />
+            <button type="submit" disabled={submitting || !newWorkspaceName.trim()} className={buttonClass}>
+              Create
+            </button>
+          </div>
+        </form>
+      </section>
+
+      <ConfirmationDialog
+        isOpen={!!memberToRemove}
+        title={memberToRemove?.userId === currentUser?.id ? 'Leave Workspace?' : 'Remove Member?'}
+        message={
+          memberToRemove?.userId === currentUser?.id
+            ? `You will no longer see the data of ${activeWorkspace?.name}.`
+            : `${memberToRemove?.email} will no longer see the data of ${activeWorkspace?.name}.`
+        }
+        warningMessage="Uploads made in the workspace stay in it. Rejoining takes a new invitation."
+        confirmText={memberToRemove?.userId === currentUser?.id ? 'Leave' : 'Remove'}
+        onConfirm={handleRemoveConfirm}
+        onCancel={() => setMemberToRemove(null)}
+        darkMode={darkMode}
+        variant="danger"
+        isLoading={!!memberToRemove && savingId === memberToRemove.userId}
+      />
+    </div>
+  );
+};
+
+export default WorkspaceManagement;
@@ -1,13 +1,16 @@
 import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { User, login as loginApi, register as registerApi, logout as logoutApi, getStoredUser, getCurrentUser, isAuthenticated as checkAuth } from '../services/api';
+import { User, login as loginApi, register as registerApi, logout as logoutApi, logoutEverywhere as logoutEverywhereApi, getStoredUser, getCurrentUser, isAuthenticated as checkAuth } from '../services/api';
 
 interface AuthContextType {
   user: User | null;
   isAuthenticated: boolean;
   isLoading: boolean;
+  isAdmin: boolean; // May manage users and see every user's uploads and audit logs
+  canEdit: boolean; // May upload and change data (admins and editors, not viewers)
   login: (email: string, password: string) => Promise<void>;
   register: (email: string, password: string, firstName?: string, lastName?: string) => Promise<void>;
-  logout: () => void;
+  logout: () => Promise<void>;
+  logoutEverywhere: () => Promise<void>; // Ends the sessions on all devices, including this one
   refreshUser: () => Promise<void>;
 }
 
@@ -43,8 +46,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children, darkMode =
               const currentUser = await getCurrentUser();
               setUser(currentUser);
             } catch {
-              // Token invalid, clear auth
-              logoutApi();
+              // Session ended, clear auth
+              await logoutApi();
               setUser(null);
             }
           }
@@ -83,8 +86,13 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children, darkMode =
     }
   };
 
-  const logout = () => {
-    logoutApi();
+  const logout = async () => {
+    await logoutApi();
+    setUser(null);
+  };
+
+  const logoutEverywhere = async () => {
+    await logoutEverywhereApi();
     setUser(null);
   };
 
@@ -94,7 +102,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children, darkMode =
       setUser(currentUser);
     } catch (error) {
       console.error('Failed to refresh user:', error);
-      logout();
+      await logout();
     }
   };
 
@@ -102,9 +110,12 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children, darkMode =
     user,
     isAuthenticated: !!user,
     isLoading,
+    isAdmin: user?.role === 'admin',
+    canEdit: user?.role === 'admin' || user?.role === 'editor',
     login,
     register,
     logout,
+    logoutEverywhere,
     refreshUser,
   };
 
@@ -0,0 +1,104 @@
+import { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { Workspace, ACTIVE_WORKSPACE_KEY, getWorkspaces } from '../services/api';
+import { useAuth } from './AuthContext';
+
+interface WorkspaceContextType {
+  workspaces: Workspace[];
+  activeWorkspace: Workspace | null; // The workspace requests work in (sent as X-Workspace-Id)
+  isLoading: boolean;
+  isWorkspaceAdmin: boolean; // May manage the members and invitations of the active workspace
+  canEdit: boolean; // May upload and change data in the active workspace (not viewers, globally or here)
+  switchWorkspace: (id: string) => void;
+  refreshWorkspaces: () => Promise<void>;
+}
+
+const WorkspaceContext = createContext<WorkspaceContextType | undefined>(undefined);
+
+export const useWorkspace = () => {
+  const context = useContext(WorkspaceContext);
+  if (!context) {
+    throw new Error('useWorkspace must be used within a WorkspaceProvider');
+  }
+  return context;
+};
+
+interface WorkspaceProviderProps {
+  children: ReactNode;
+}
+
+// The stored workspace if the user is (still) a member of it, otherwise their first one (the personal workspace)
+const pickActiveWorkspace = (workspaces: Workspace[], id: string | null): Workspace | null =>
+  workspaces.find((workspace) => workspace.id === id) || workspaces[0] || null;
+
+export const WorkspaceProvider: React.FC<WorkspaceProviderProps> = ({ children }) => {
+  const { user, canEdit: userCanEdit } = useAuth();
+  const userId = user?.id;
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [activeWorkspace, setActiveWorkspace] = useState<Workspace | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const applyWorkspaces = useCallback((fetched: Workspace[], id: string | null) => {
+    const active = pickActiveWorkspace(fetched, id);
+    if (active) {
+      localStorage.setItem(ACTIVE_WORKSPACE_KEY, active.id);
+    } else {
+      localStorage.removeItem(ACTIVE_WORKSPACE_KEY);
+    }
+    setWorkspaces(fetched);
+    setActiveWorkspace(active);
+  }, []);
+
+  // Load the user's workspaces when they log in
+  useEffect(() => {
+    if (!userId) {
+      setWorkspaces([]);
+      setActiveWorkspace(null);
+      setIsLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    getWorkspaces()
+      .then((fetched) => {
+        if (!cancelled) applyWorkspaces(fetched, localStorage.getItem(ACTIVE_WORKSPACE_KEY));
+      })
+      .catch((error) => {
+        // Requests fall back to the personal workspace without the header
+        console.error('Failed to load workspaces:', error);
+        if (!cancelled) applyWorkspaces([], null);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, applyWorkspaces]);
+
+  const switchWorkspace = (id: string) => {
+    applyWorkspaces(workspaces, id);
+  };
+
+  // Reload after creating, renaming, joining or leaving a workspace
+  const refreshWorkspaces = async () => {
+    try {
+      const fetched = await getWorkspaces();
+      applyWorkspaces(fetched, localStorage.getItem(ACTIVE_WORKSPACE_KEY));
+    } catch (error) {
+      console.error('Failed to refresh workspaces:', error);
+    }
+  };
+
+  const value: WorkspaceContextType = {
+    workspaces,
+    activeWorkspace,
+    isLoading,
+    isWorkspaceAdmin: activeWorkspace?.role === 'admin',
+    canEdit: userCanEdit && activeWorkspace?.role !== 'viewer',
+    switchWorkspace,
+    refreshWorkspaces,
+  };
+
+  return <WorkspaceContext.Provider value={value}>{children}</WorkspaceContext.Provider>;
+};
@@ -0,0 +1,20 @@
+import { useEffect, useRef } from 'react';
+import { subscribeToUploadEvents } from '../services/api';
+import { UploadEvent } from '../types';
+
+/**
+ * Custom hook for live upload events (GET /csv-import/events)
+ * @param onEvent - Called for every upload created/progress/completed/failed/deleted event
+ *
+ * Opens one stream per mounted component; the latest handler is always used,
+ * so callers do not need to memoize it.
+ */
+export function useUploadEvents(onEvent: (event: UploadEvent) => void): void {
+  const handlerRef = useRef(onEvent);
+  handlerRef.current = onEvent;
+
+  useEffect(() => {
+    const unsubscribe = subscribeToUploadEvents((event) => handlerRef.current(event));
+    return unsubscribe;
+  }, []);
+}
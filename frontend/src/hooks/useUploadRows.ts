@@ -0,0 +1,109 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { getUploadRows } from '../services/api';
+import { UploadRow, UploadRowsQuery } from '../types';
+
+interface LoadedRows {
+  key: string; // Query the pages were loaded for
+  pages: Record<number, UploadRow[]>;
+  total: number | null;
+}
+
+/**
+ * Custom hook for reading an upload's rows a page at a time (GET /csv-import/history/:id/rows)
+ * @param uploadId - Upload to read (nothing is loaded while undefined)
+ * @param query - Sort order and filters; changing them starts over with no pages loaded
+ * @param pageSize - Rows per request
+ *
+ * Pages are only requested when loadPage or loadRange asks for them, and each page
+ * once per query. Responses for an older query are dropped.
+ */
+export function useUploadRows(uploadId: string | undefined, query: UploadRowsQuery, pageSize: number) {
+  const [reloadCount, setReloadCount] = useState(0);
+  const key = JSON.stringify([uploadId, query, pageSize, reloadCount]);
+  const [loaded, setLoaded] = useState<LoadedRows>({ key, pages: {}, total: null });
+  const [loadingPages, setLoadingPages] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const requestedRef = useRef(new Set<string>());
+  const keyRef = useRef(key);
+  keyRef.current = key;
+  const queryRef = useRef(query);
+  queryRef.current = query;
+
+  // Rows loaded for an older query are not shown
+  const current = loaded.key === key ? loaded : { key, pages: {}, total: null };
+
+  useEffect(() => {
+    setError(null);
+  }, [key]);
+
+  /**
+   * Loads a page (1-based) unless it was already requested for the current query
+   */
+  const loadPage = useCallback(
+    async (page: number) => {
+      const requestKey = `${key}:${page}`;
+      if (!uploadId || requestedRef.current.has(requestKey)) return;
+      requestedRef.current.add(requestKey);
+
+      setLoadingPages((count) => count + 1);
+      try {
+        const result = await getUploadRows(uploadId, { ...queryRef.current, page, limit: pageSize });
+        if (keyRef.current !== key) return;
+        setLoaded((previous) => ({
+          key,
+          pages: { ...(previous.key === key ? previous.pages : {}), [page]: result.rows },
+          total: result.total,
+        }));
+      } catch (err) {
+        requestedRef.current.delete(requestKey);
+        if (keyRef.current === key) {
+          setError(err instanceof Error ? err.message : 'Failed to load rows');
+        }
+      } finally {
+        setLoadingPages((count) => count - 1);
+      }
+    },
+    [key, uploadId, pageSize],
+  );
+
+  /**
+   * Loads every page holding a row between startIndex and stopIndex (0-based, inclusive)
+   */
+  const loadRange = useCallback(
+    (startIndex: number, stopIndex: number) => {
+      const firstPage = Math.floor(startIndex / pageSize) + 1;
+      const lastPage = Math.floor(stopIndex / pageSize) + 1;
+      for (let page = firstPage; page <= lastPage; page++) {
+        loadPage(page);
+      }
+    },
+    [loadPage, pageSize],
+  );
+
+  /**
+   * The row at a 0-based position, or undefined if its page is not loaded yet
+   */
+  const getRow = useCallback(
+    (index: number): UploadRow | undefined =>
+      current.pages[Math.floor(index / pageSize) + 1]?.[index % pageSize],
+    [current.pages, pageSize],
+  );
+
+  /**
+   * Drops all loaded pages, e.g. after the stored rows changed
+   */
+  const reload = useCallback(() => {
+    setReloadCount((count) => count + 1);
+  }, []);
+
+  return {
+    pages: current.pages,
+    total: current.total,
+    loading: loadingPages > 0,
+    error,
+    loadPage,
+    loadRange,
+    getRow,
+    reload,
+  };
+}
@@ -1,19 +1,111 @@
 import axios from 'axios';
-import { CsvData, UploadHistoryResponse, UploadRecord, UploadStatus } from '../types';
+import {
+  AggregateRequest,
+  AggregateResult,
+  ChunkUploadProgress,
+  ColumnSchema,
+  CreatedShareLink,
+  CreateShareLinkRequest,
+  CsvData,
+  CsvDialect,
+  Dataset,
+  DatasetDetail,
+  DatasetsResponse,
+  ExportFormat,
+  ExportOptions,
+  ImportJobResponse,
+  ImportTemplate,
+  ImportTemplateSuggestion,
+  InferredType,
+  IssueCode,
+  PendingUploadSession,
+  ShareLink,
+  SharedUpload,
+  TypedRow,
+  UploadDiffRequest,
+  UploadDiffResponse,
+  UploadEvent,
+  UploadHistoryResponse,
+  UploadIssuesQuery,
+  UploadIssuesResponse,
+  UploadProfile,
+  UploadProgress,
+  UploadRecord,
+  UploadRow,
+  UploadRowsQuery,
+  UploadSession,
+  UploadStatus,
+  ValidationRules,
+  ValidationSchema,
+} from '../types';
+import { getExportFileName } from '../utils/exportFormats';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000';
 
+// Should match MAX_UPLOAD_SIZE_MB on the backend
+export const MAX_UPLOAD_SIZE_MB = Number(import.meta.env.VITE_MAX_UPLOAD_SIZE_MB) || 500;
+
 const api = axios.create({
   baseURL: API_BASE_URL,
 });
 
-// Add request interceptor to include auth token
+// The workspace requests work in (see WorkspaceContext); the backend uses the
+// caller's personal workspace when no X-Workspace-Id header is sent
+export const ACTIVE_WORKSPACE_KEY = 'activeWorkspaceId';
+
+// Access tokens are short-lived; the refresh token (used once) gets new ones from POST /auth/refresh
+const REFRESH_TOKEN_KEY = 'refreshToken';
+
+const storeTokens = (accessToken: string, refreshToken: string) => {
+  localStorage.setItem('authToken', accessToken);
+  localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+};
+
+const clearAuth = () => {
+  localStorage.removeItem('authToken');
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+  localStorage.removeItem('user');
+  localStorage.removeItem(ACTIVE_WORKSPACE_KEY);
+};
+
+// Refreshes in flight are shared, so that requests failing together use one refresh token once
+// (using it twice would look like a stolen token and end the session)
+let refreshPromise: Promise<string | null> | null = null;
+
+// Gets a new access token with the stored refresh token; resolves to null when the session has ended
+export const refreshAccessToken = (): Promise<string | null> => {
+  if (!refreshPromise) {
+    const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+    refreshPromise = (async () => {
+      if (!refreshToken) return null;
+      try {
+        // Plain axios: the interceptors below must not handle the refresh request itself
+        const response = await axios.post<AuthResponse>(`${API_BASE_URL}/auth/refresh`, { refreshToken });
+        storeTokens(response.data.accessToken, response.data.refreshToken);
+        localStorage.setItem('user', JSON.stringify(response.data.user));
+        return response.data.accessToken;
+      } catch {
+        // Another tab may have refreshed with the same token in the meantime
+        return localStorage.getItem(REFRESH_TOKEN_KEY) !== refreshToken ? localStorage.getItem('authToken') : null;
+      }
+    })().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+};
+
+// Add request interceptor to include auth token and active workspace
 api.interceptors.request.use(
   (config) => {
     const token = localStorage.getItem('authToken');
     if (token) {
       config.headers.Authorization = `Bearer ${token}`;
     }
+    const workspaceId = localStorage.getItem(ACTIVE_WORKSPACE_KEY);
+    if (workspaceId) {
+      config.headers['X-Workspace-Id'] = workspaceId;
+    }
     return config;
   },
   (error) => {
@@ -21,10 +113,11 @@ api.interceptors.request.use(
   },
 );
 
-// Add response interceptor to handle auth errors
+// Add response interceptor to handle auth errors: refresh the access token and retry once,
+// or log out when the session has ended
 api.interceptors.response.use(
   (response) => response,
-  (error) => {
+  async (error) => {
     if (error.response?.status === 401) {
       // Only redirect if it's NOT a login/register request
       // Login/register errors should be handled by the component
@@ -32,9 +125,16 @@ api.interceptors.response.use(
       const isAuthEndpoint = url.includes('/auth/login') || url.includes('/auth/register');
       
       if (!isAuthEndpoint) {
-        // Token expired or invalid - clear auth and redirect to login
-        localStorage.removeItem('authToken');
-        localStorage.removeItem('user');
+        if (error.config && !error.config._retried) {
+          const accessToken = await refreshAccessToken();
+          if (accessToken) {
+            error.config._retried = true;
+            return api(error.config);
+          }
+        }
+
+        // Session expired or revoked - clear auth and redirect to login
+        clearAuth();
         // Only redirect if we're not already on the login page
         if (!window.location.pathname.includes('/login')) {
           window.location.href = '/login';
@@ -46,16 +146,26 @@ api.interceptors.response.use(
 );
 
 export interface DuplicateDetectionOptions {
+  dialect?: CsvDialect;
+  sheetName?: string; // Excel only
+  headerRow?: number; // Excel only
   detectDuplicates?: boolean;
   duplicateColumns?: string[];
   handleDuplicates?: 'skip' | 'keep' | 'mark';
   columnMapping?: Record<string, string>;
+  validationSchemaId?: string; // Saved validation schema to check rows against
+  validationRules?: ValidationRules; // Or rules sent with this upload
+  templateId?: string; // Import template whose settings fill in anything not given here
+  coerceTypes?: boolean; // Store values converted to their detected column types
+  datasetId?: string; // Import as the next version of this dataset (a new dataset if not given)
 }
 
+// Uploads the file and returns as soon as the server has queued the import.
+// Use waitForImport to follow the background job.
 export const uploadCsv = async (
   file: File,
   options?: DuplicateDetectionOptions,
-): Promise<CsvData> => {
+): Promise<ImportJobResponse> => {
   const formData = new FormData();
   formData.append('file', file);
 
@@ -72,9 +182,33 @@ export const uploadCsv = async (
   if (options?.columnMapping && Object.keys(options.columnMapping).length > 0) {
     params.columnMapping = JSON.stringify(options.columnMapping);
   }
+  if (options?.dialect) {
+    params.dialect = JSON.stringify(options.dialect);
+  }
+  if (options?.sheetName) {
+    params.sheetName = options.sheetName;
+  }
+  if (options?.headerRow) {
+    params.headerRow = String(options.headerRow);
+  }
+  if (options?.validationSchemaId) {
+    params.validationSchemaId = options.validationSchemaId;
+  }
+  if (options?.validationRules) {
+    params.validationRules = JSON.stringify(options.validationRules);
+  }
+  if (options?.templateId) {
+    params.templateId = options.templateId;
+  }
+  if (options?.coerceTypes) {
+    params.coerceTypes = 'true';
+  }
+  if (options?.datasetId) {
+    params.datasetId = options.datasetId;
+  }
 
   try {
-    const response = await api.post<CsvData>('/csv-import/upload', formData, {
+    const response = await api.post<ImportJobResponse>('/csv-import/upload', formData, {
       headers: {
         'Content-Type': 'multipart/form-data',
       },
@@ -82,42 +216,364 @@ export const uploadCsv = async (
     });
     return response.data;
   } catch (error) {
-    if (axios.isAxiosError(error)) {
-      // Extract error message from response
-      let message = 'Failed to upload CSV file';
-      
-      if (error.response) {
-        // Server responded with error
-        const responseData = error.response.data;
-        if (responseData?.message) {
-          message = responseData.message;
-        } else if (typeof responseData === 'string') {
-          message = responseData;
-        } else if (error.response.status === 400) {
-          message = 'Invalid file. Please check the file format and try again';
-        } else if (error.response.status === 401) {
-          message = 'Authentication required. Please log in and try again';
-        } else if (error.response.status === 413) {
-          message = 'File is too large. Maximum file size is 10MB';
-        } else if (error.response.status === 429) {
-          message = 'Too many requests. Please wait a moment and try again';
-        } else if (error.response.status >= 500) {
-          message = 'Server error. Please try again later';
+    throw new Error(getUploadErrorMessage(error));
+  }
+};
+
+// Turns a failed upload request into a message suitable for the UI
+const getUploadErrorMessage = (error: unknown): string => {
+  if (axios.isAxiosError(error)) {
+    // Extract error message from response
+    let message = 'Failed to upload CSV file';
+
+    if (error.response) {
+      // Server responded with error
+      const responseData = error.response.data;
+      if (responseData?.message) {
+        message = responseData.message;
+      } else if (typeof responseData === 'string') {
+        message = responseData;
+      } else if (error.response.status === 400) {
+        message = 'Invalid file. Please check the file format and try again';
+      } else if (error.response.status === 401) {
+        message = 'Authentication required. Please log in and try again';
+      } else if (error.response.status === 413) {
+        message = `File is too large. Maximum file size is ${MAX_UPLOAD_SIZE_MB}MB`;
+      } else if (error.response.status === 429) {
+        message = 'Too many requests. Please wait a moment and try again';
+      } else if (error.response.status >= 500) {
+        message = 'Server error. Please try again later';
+      }
+    } else if (error.request) {
+      // Request was made but no response received
+      message = 'Network error. Please check your connection and try again';
+    } else {
+      // Error setting up the request
+      message = error.message || 'Failed to upload CSV file';
+    }
+
+    return message;
+  }
+  return 'An unexpected error occurred while uploading the file';
+};
+
+// Files larger than this are sent in chunks; should match UPLOAD_CHUNK_SIZE_MB on the backend
+export const UPLOAD_CHUNK_SIZE_MB = Number(import.meta.env.VITE_UPLOAD_CHUNK_SIZE_MB) || 5;
+
+const PENDING_UPLOADS_KEY = 'pendingUploadSessions';
+const CHUNK_RETRY_ATTEMPTS = 3;
+const CHUNK_RETRY_DELAY_MS = 1000;
+
+// Identifies a local file well enough to resume its upload after a page reload
+export const getUploadSessionKey = (file: File): string =>
+  `${file.name}:${file.size}:${file.lastModified}`;
+
+export const getPendingUploadSessions = (): PendingUploadSession[] => {
+  try {
+    return JSON.parse(localStorage.getItem(PENDING_UPLOADS_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+const savePendingUploadSession = (pending: PendingUploadSession) => {
+  const others = getPendingUploadSessions().filter((session) => session.key !== pending.key);
+  localStorage.setItem(PENDING_UPLOADS_KEY, JSON.stringify([...others, pending]));
+};
+
+const removePendingUploadSession = (key: string) => {
+  localStorage.setItem(
+    PENDING_UPLOADS_KEY,
+    JSON.stringify(getPendingUploadSessions().filter((session) => session.key !== key)),
+  );
+};
+
+// Forgets an unfinished upload and deletes its chunks on the server
+export const discardPendingUploadSession = async (pending: PendingUploadSession): Promise<void> => {
+  removePendingUploadSession(pending.key);
+  try {
+    await abortUploadSession(pending.sessionId);
+  } catch {
+    // Already expired or completed on the server; nothing left to clean up
+  }
+};
+
+export const initiateUploadSession = async (
+  file: File,
+  options?: DuplicateDetectionOptions,
+): Promise<UploadSession> => {
+  const response = await api.post<UploadSession>('/csv-import/upload-sessions', {
+    fileName: file.name,
+    fileSize: file.size,
+    ...options,
+  });
+  return response.data;
+};
+
+export const getUploadSession = async (sessionId: string): Promise<UploadSession> => {
+  const response = await api.get<UploadSession>(`/csv-import/upload-sessions/${sessionId}`);
+  return response.data;
+};
+
+export const uploadChunk = async (
+  sessionId: string,
+  index: number,
+  chunk: Blob,
+  checksum: string,
+): Promise<UploadSession> => {
+  const response = await api.put<UploadSession>(
+    `/csv-import/upload-sessions/${sessionId}/chunks/${index}`,
+    chunk,
+    {
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'X-Chunk-Checksum': checksum,
+      },
+    },
+  );
+  return response.data;
+};
+
+export const completeUploadSession = async (
+  sessionId: string,
+  checksum: string,
+): Promise<ImportJobResponse> => {
+  const response = await api.post<ImportJobResponse>(
+    `/csv-import/upload-sessions/${sessionId}/complete`,
+    { checksum },
+  );
+  return response.data;
+};
+
+export const abortUploadSession = async (sessionId: string): Promise<void> => {
+  await api.delete(`/csv-import/upload-sessions/${sessionId}`);
+};
+
+const toHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+
+// Session checksum: SHA-256 over the concatenated binary SHA-256 digests of all chunks
+const combineChunkDigests = async (digests: ArrayBuffer[]): Promise<string> => {
+  const combined = new Uint8Array(digests.length * 32);
+  digests.forEach((digest, index) => combined.set(new Uint8Array(digest), index * 32));
+  return toHex(await crypto.subtle.digest('SHA-256', combined));
+};
+
+// Uploads a file in chunks, resuming an unfinished session for the same file if there is one.
+// A resumed session keeps the parse options chosen when it was started.
+// Returns the same response as uploadCsv once the server has queued the import.
+export const uploadCsvInChunks = async (
+  file: File,
+  options?: DuplicateDetectionOptions,
+  onChunkProgress?: (progress: ChunkUploadProgress) => void,
+): Promise<ImportJobResponse> => {
+  const key = getUploadSessionKey(file);
+
+  try {
+    // Step 1: Resume the previous session for this file, or start a new one
+    let session: UploadSession | undefined;
+    const pending = getPendingUploadSessions().find((candidate) => candidate.key === key);
+    if (pending) {
+      try {
+        session = await getUploadSession(pending.sessionId);
+        if (session.status !== 'active') session = undefined;
+      } catch {
+        // Expired or deleted on the server: start over
+        session = undefined;
+      }
+      if (!session) removePendingUploadSession(key);
+    }
+    const resumed = !!session;
+    if (!session) {
+      session = await initiateUploadSession(file, options);
+    }
+
+    const pendingSession: PendingUploadSession = {
+      key,
+      sessionId: session.sessionId,
+      fileName: file.name,
+      fileSize: file.size,
+      totalChunks: session.totalChunks,
+      uploadedChunks: session.receivedChunks.length,
+      startedAt: pending?.startedAt || new Date().toISOString(),
+    };
+    savePendingUploadSession(pendingSession);
+    onChunkProgress?.({
+      uploadedChunks: pendingSession.uploadedChunks,
+      totalChunks: session.totalChunks,
+      resumed,
+    });
+
+    // Step 2: Send the chunks the server does not have yet (every chunk is hashed for the final checksum)
+    const received = new Set(session.receivedChunks);
+    const digests: ArrayBuffer[] = [];
+    for (let index = 0; index < session.totalChunks; index++) {
+      const chunk = file.slice(index * session.chunkSize, (index + 1) * session.chunkSize);
+      const digest = await crypto.subtle.digest('SHA-256', await chunk.arrayBuffer());
+      digests.push(digest);
+      if (received.has(index)) continue;
+
+      for (let attempt = 1; ; attempt++) {
+        try {
+          await uploadChunk(session.sessionId, index, chunk, toHex(digest));
+          break;
+        } catch (error) {
+          // Retry network hiccups and server errors; client errors will not fix themselves
+          const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+          if (attempt >= CHUNK_RETRY_ATTEMPTS || (status && status < 500)) throw error;
+          await new Promise((resolve) => setTimeout(resolve, CHUNK_RETRY_DELAY_MS * attempt));
         }
-      } else if (error.request) {
-        // Request was made but no response received
-        message = 'Network error. Please check your connection and try again';
-      } else {
-        // Error setting up the request
-        message = error.message || 'Failed to upload CSV file';
       }
-      
+
+      pendingSession.uploadedChunks++;
+      savePendingUploadSession(pendingSession);
+      onChunkProgress?.({
+        uploadedChunks: pendingSession.uploadedChunks,
+        totalChunks: session.totalChunks,
+        resumed,
+      });
+    }
+
+    // Step 3: Let the server verify the checksum, assemble the file and queue the import
+    const job = await completeUploadSession(session.sessionId, await combineChunkDigests(digests));
+    removePendingUploadSession(key);
+    return job;
+  } catch (error) {
+    throw new Error(getUploadErrorMessage(error));
+  }
+};
+
+export const getUploadProgress = async (id: string): Promise<UploadProgress> => {
+  try {
+    const response = await api.get<UploadProgress>(`/csv-import/history/${id}/progress`);
+    return response.data;
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      const message = error.response?.data?.message || error.message || 'Failed to fetch import progress';
       throw new Error(message);
     }
-    throw new Error('An unexpected error occurred while uploading the file');
+    throw new Error('An unexpected error occurred');
   }
 };
 
+const IMPORT_POLL_INTERVAL_MS = 1000;
+
+// Polls the progress endpoint until the background import finishes, then loads the
+// upload record (rows are fetched a page at a time with getUploadRows).
+// Rejects with the server's message if the import failed.
+export const waitForImport = async (
+  uploadId: string,
+  onProgress?: (progress: UploadProgress) => void,
+): Promise<CsvData> => {
+  let progress = await getUploadProgress(uploadId);
+  onProgress?.(progress);
+  while (progress.status === UploadStatus.PROCESSING) {
+    await new Promise((resolve) => setTimeout(resolve, IMPORT_POLL_INTERVAL_MS));
+    progress = await getUploadProgress(uploadId);
+    onProgress?.(progress);
+  }
+
+  if (progress.status === UploadStatus.FAILED) {
+    throw new Error(progress.message || 'Failed to import CSV file');
+  }
+
+  const record = await getUploadById(uploadId);
+  // Row warnings are stored as "Row N: message"
+  const warnings = (record.errors || []).map((error) => {
+    const match = /^Row (\d+): (.*)$/.exec(error);
+    return match ? { row: Number(match[1]), message: match[2] } : { row: 0, message: error };
+  });
+
+  return {
+    success: true,
+    message: record.message || 'CSV file imported successfully',
+    totalRows: record.totalRows ?? 0,
+    uploadId: record.id,
+    columnSchema: record.columnSchema,
+    warnings: warnings.length > 0 ? warnings : undefined,
+    duplicates: record.duplicates,
+    duplicateCount: record.duplicateCount ?? record.duplicates?.length,
+  };
+};
+
+const EVENTS_RECONNECT_DELAY_MS = 3000;
+
+// Subscribes to GET /csv-import/events (Server-Sent Events).
+// EventSource cannot send the Authorization header, so the stream is read with fetch.
+// Reconnects automatically; call the returned function to unsubscribe.
+export const subscribeToUploadEvents = (onEvent: (event: UploadEvent) => void): (() => void) => {
+  const controller = new AbortController();
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const connect = async () => {
+    const token = localStorage.getItem('authToken');
+    if (!token) return;
+    const workspaceId = localStorage.getItem(ACTIVE_WORKSPACE_KEY);
+
+    try {
+      const response = await fetch(`${API_BASE_URL}/csv-import/events`, {
+        headers: {
+          Accept: 'text/event-stream',
+          Authorization: `Bearer ${token}`,
+          ...(workspaceId ? { 'X-Workspace-Id': workspaceId } : {}),
+        },
+        signal: controller.signal,
+      });
+      // Expired access token: reconnect with a new one, or stop when the session has ended
+      // (the next API call then redirects to login)
+      if (response.status === 401) {
+        if (await refreshAccessToken()) connect();
+        return;
+      }
+      if (!response.ok || !response.body) {
+        throw new Error(`Event stream failed with status ${response.status}`);
+      }
+
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = '';
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += value;
+
+        // Messages are separated by a blank line; keep any incomplete message in the buffer
+        const messages = buffer.split('\n\n');
+        buffer = messages.pop() || '';
+        messages.forEach((message) => {
+          let eventName = 'message';
+          const dataLines: string[] = [];
+          message.split('\n').forEach((line) => {
+            if (line.startsWith('event:')) {
+              eventName = line.slice(6).trim();
+            } else if (line.startsWith('data:')) {
+              dataLines.push(line.slice(5).trimStart());
+            }
+          });
+          if (eventName.startsWith('upload.') && dataLines.length > 0) {
+            onEvent(JSON.parse(dataLines.join('\n')) as UploadEvent);
+          }
+        });
+      }
+    } catch (error) {
+      if (controller.signal.aborted) return;
+    }
+
+    // Stream ended or dropped: try again shortly
+    if (!controller.signal.aborted) {
+      reconnectTimer = setTimeout(connect, EVENTS_RECONNECT_DELAY_MS);
+    }
+  };
+
+  connect();
+
+  return () => {
+    controller.abort();
+    if (reconnectTimer) clearTimeout(reconnectTimer);
+  };
+};
+
 export interface UploadHistoryFilters {
   status?: UploadStatus;
   search?: string;
@@ -125,6 +581,11 @@ export interface UploadHistoryFilters {
   endDate?: string;
   minSize?: number;
   maxSize?: number;
+  minQuality?: number; // Quality score range (0-100)
+  maxQuality?: number;
+  issueCode?: IssueCode; // Only uploads with issues of this code
+  datasetId?: string; // Only the versions of this dataset
+  scope?: 'all'; // Every workspace's uploads (admins only; default: the active workspace's)
   page?: number;
   limit?: number;
 }
@@ -151,104 +612,591 @@ export const getUploadHistory = async (
         });
       }
     }
-    
-    const response = await api.get<UploadHistoryResponse>('/csv-import/history', { params });
-    return response.data;
+    
+    const response = await api.get<UploadHistoryResponse>('/csv-import/history', { params });
+    return response.data;
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      const message = error.response?.data?.message || error.message || 'Failed to fetch upload history';
+      throw new Error(message);
+    }
+    throw new Error('An unexpected error occurred');
+  }
+};
+
+export const getUploadById = async (id: string): Promise<UploadRecord> => {
+  try {
+    const response = await api.get<UploadRecord>(`/csv-import/history/${id}`);
+    return response.data;
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      const message = error.response?.data?.message || error.message || 'Failed to fetch upload details';
+      throw new Error(message);
+    }
+    throw new Error('An unexpected error occurred');
+  }
+};
+
+export interface UploadDataResponse {
+  uploadId: string;
+  fileName: string;
+  totalRows: number;
+  offset: number; // Rows skipped, in file order
+  limit: number; // Most rows returned at once
+  columnSchema?: ColumnSchema[];
+  typed: boolean; // Values are numbers, booleans, ISO dates and null instead of text
+  data: TypedRow[];
+}
+
+export const getUploadData = async (
+  id: string,
+  params: { offset?: number; limit?: number } = {},
+): Promise<UploadDataResponse> => {
+  try {
+    const response = await api.get<UploadDataResponse>(`/csv-import/history/${id}/data`, { params });
+    return response.data;
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      const message = error.response?.data?.message || error.message || 'Failed to fetch upload data';
+      throw new Error(message);
+    }
+    throw new Error('An unexpected error occurred');
+  }
+};
+
+export interface UploadRowsResponse {
+  uploadId: string;
+  fileName: string;
+  columns: string[]; // All columns of the upload, in file order
+  columnSchema?: ColumnSchema[];
+  typed: boolean;
+  rows: UploadRow[];
+  total: number; // Rows matching the search and filters
+  page: number;
+  limit: number;
+  totalPages: number;
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+}
+
+// One page of an upload's stored rows, sorted and filtered by the server
+// (limit: 50 by default, at most 500)
+export const getUploadRows = async (
+  id: string,
+  query: UploadRowsQuery & { page?: number; limit?: number } = {},
+): Promise<UploadRowsResponse> => {
+  try {
+    const params: Record<string, string | number | undefined> = {
+      ...query,
+      searchColumns: query.searchColumns?.length ? query.searchColumns.join(',') : undefined,
+      flagged: query.flagged ? 'true' : undefined,
+    };
+    // Remove undefined values
+    Object.keys(params).forEach((key) => {
+      if (params[key] === undefined || params[key] === '') {
+        delete params[key];
+      }
+    });
+
+    const response = await api.get<UploadRowsResponse>(`/csv-import/history/${id}/rows`, { params });
+    return response.data;
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      const message = error.response?.data?.message || error.message || 'Failed to fetch upload rows';
+      throw new Error(message);
+    }
+    throw new Error('An unexpected error occurred');
+  }
+};
+
+// Groups an upload's rows and computes metrics for every group (on the server)
+export const aggregateUploadRows = async (id: string, request: AggregateRequest): Promise<AggregateResult> => {
+  try {
+    const response = await api.post<AggregateResult>(`/csv-import/history/${id}/aggregate`, request);
+    return response.data;
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      const message = error.response?.data?.message || error.message || 'Failed to aggregate rows';
+      throw new Error(message);
+    }
+    throw new Error('An unexpected error occurred');
+  }
+};
+
+// Fetches the column profiles of an upload (computed after the import)
+export const getUploadProfile = async (id: string): Promise<UploadProfile> => {
+  try {
+    const response = await api.get<UploadProfile>(`/csv-import/history/${id}/profile`);
+    return response.data;
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      const message = error.response?.data?.message || error.message || 'Failed to fetch column profile';
+      throw new Error(message);
+    }
+    throw new Error('An unexpected error occurred');
+  }
+};
+
+// Stores an upload's values as typed JSON (or as text again with typed: false).
+// types sets the type of some columns instead of the detected one.
+export const coerceUploadTypes = async (
+  id: string,
+  options: { typed?: boolean; types?: Record<string, InferredType> } = {},
+): Promise<UploadRecord> => {
+  try {
+    const response = await api.post<UploadRecord>(`/csv-import/history/${id}/coerce`, options);
+    return response.data;
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      const message = error.response?.data?.message || error.message || 'Failed to convert values';
+      throw new Error(message);
+    }
+    throw new Error('An unexpected error occurred');
+  }
+};
+
+// Fetches a page of the issues found while importing an upload, with its quality score
+export const getUploadIssues = async (
+  id: string,
+  query: UploadIssuesQuery = {},
+  page = 1,
+  limit = 100,
+): Promise<UploadIssuesResponse> => {
+  try {
+    const response = await api.get<UploadIssuesResponse>(`/csv-import/history/${id}/issues`, {
+      params: { ...query, page, limit },
+    });
+    return response.data;
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      const message = error.response?.data?.message || error.message || 'Failed to fetch issues';
+      throw new Error(message);
+    }
+    throw new Error('An unexpected error occurred');
+  }
+};
+
+// Downloads the issues of an upload (matching the query) as CSV
+export const downloadUploadIssues = async (
+  id: string,
+  fileName: string,
+  query: UploadIssuesQuery = {},
+): Promise<void> => {
+  try {
+    const response = await api.get(`/csv-import/history/${id}/issues/export`, {
+      params: query,
+      responseType: 'blob',
+    });
+    const url = window.URL.createObjectURL(new Blob([response.data]));
+    const link = document.createElement('a');
+    link.href = url;
+    link.setAttribute('download', getExportFileName(fileName, 'csv', 'issues'));
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    window.URL.revokeObjectURL(url);
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      const message = error.response?.data?.message || error.message || 'Failed to download issues';
+      throw new Error(message);
+    }
+    throw new Error('An unexpected error occurred');
+  }
+};
+
+export const downloadOriginalFile = async (id: string, fileName: string): Promise<void> => {
+  try {
+    const response = await api.get(`/csv-import/history/${id}/download`, {
+      responseType: 'blob',
+    });
+    const url = window.URL.createObjectURL(new Blob([response.data]));
+    const link = document.createElement('a');
+    link.href = url;
+    link.setAttribute('download', fileName);
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    window.URL.revokeObjectURL(url);
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      const message = error.response?.data?.message || error.message || 'Failed to download file';
+      throw new Error(message);
+    }
+    throw new Error('An unexpected error occurred');
+  }
+};
+
+export const exportCsvData = async (
+  uploadId: string,
+  fileName: string,
+  format: ExportFormat = 'csv',
+  options: ExportOptions = {},
+): Promise<void> => {
+  try {
+    const response = await api.post(
+      '/csv-import/history/export',
+      { uploadId, format, ...options },
+      { responseType: 'blob' },
+    );
+    const url = window.URL.createObjectURL(new Blob([response.data]));
+    const link = document.createElement('a');
+    link.href = url;
+    link.setAttribute('download', getExportFileName(fileName, format));
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    window.URL.revokeObjectURL(url);
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      const message = error.response?.data?.message || error.message || 'Failed to export data';
+      throw new Error(message);
+    }
+    throw new Error('An unexpected error occurred');
+  }
+};
+
+// Compares the rows of two uploads by key columns; returns a page of the rows that differ
+export const diffUploads = async (
+  request: UploadDiffRequest,
+  page = 1,
+  limit = 100,
+): Promise<UploadDiffResponse> => {
+  try {
+    const response = await api.post<UploadDiffResponse>('/csv-import/history/diff', { ...request, page, limit });
+    return response.data;
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      const message = error.response?.data?.message || error.message || 'Failed to compare uploads';
+      throw new Error(message);
+    }
+    throw new Error('An unexpected error occurred');
+  }
+};
+
+// Downloads the diff of two uploads as CSV (named after the base upload)
+export const downloadUploadDiff = async (request: UploadDiffRequest, baseFileName: string): Promise<void> => {
+  try {
+    const response = await api.post('/csv-import/history/diff/export', request, { responseType: 'blob' });
+    const url = window.URL.createObjectURL(new Blob([response.data]));
+    const link = document.createElement('a');
+    link.href = url;
+    link.setAttribute('download', getExportFileName(baseFileName, 'csv', 'diff'));
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    window.URL.revokeObjectURL(url);
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      const message = error.response?.data?.message || error.message || 'Failed to download diff';
+      throw new Error(message);
+    }
+    throw new Error('An unexpected error occurred');
+  }
+};
+
+// Creates a read-only link to an upload; the token is only returned here
+export const createShareLink = async (
+  uploadId: string,
+  request: CreateShareLinkRequest = {},
+): Promise<CreatedShareLink> => {
+  try {
+    const response = await api.post<CreatedShareLink>(`/csv-import/history/${uploadId}/share-links`, request);
+    return response.data;
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      const message = error.response?.data?.message || error.message || 'Failed to create share link';
+      throw new Error(message);
+    }
+    throw new Error('An unexpected error occurred');
+  }
+};
+
+export const getShareLinks = async (uploadId: string): Promise<ShareLink[]> => {
+  try {
+    const response = await api.get<ShareLink[]>(`/csv-import/history/${uploadId}/share-links`);
+    return response.data;
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      const message = error.response?.data?.message || error.message || 'Failed to fetch share links';
+      throw new Error(message);
+    }
+    throw new Error('An unexpected error occurred');
+  }
+};
+
+export const revokeShareLink = async (uploadId: string, linkId: string): Promise<ShareLink> => {
+  try {
+    const response = await api.delete<ShareLink>(`/csv-import/history/${uploadId}/share-links/${linkId}`);
+    return response.data;
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      const message = error.response?.data?.message || error.message || 'Failed to revoke share link';
+      throw new Error(message);
+    }
+    throw new Error('An unexpected error occurred');
+  }
+};
+
+// The URL recipients of a share link open (rendered by SharedUploadView)
+export const getShareUrl = (token: string): string => `${window.location.origin}/share/${token}`;
+
+// Share links are opened without a login, so they get their own client: no
+// auth token is sent and a failed request never logs the current user out
+const publicApi = axios.create({
+  baseURL: API_BASE_URL,
+});
+
+// Thrown by the /shared endpoints; passwordRequired is set when the link needs
+// a password and none or a wrong one was sent
+export class ShareAccessError extends Error {
+  passwordRequired: boolean;
+
+  constructor(message: string, passwordRequired = false) {
+    super(message);
+    this.name = 'ShareAccessError';
+    this.passwordRequired = passwordRequired;
+  }
+}
+
+const toShareAccessError = async (error: unknown, fallback: string): Promise<ShareAccessError> => {
+  if (axios.isAxiosError(error)) {
+    let data = error.response?.data;
+    // Downloads ask for a blob, so their error body arrives as one too
+    if (data instanceof Blob) {
+      try {
+        data = JSON.parse(await data.text());
+      } catch {
+        data = undefined;
+      }
+    }
+    return new ShareAccessError(data?.message || error.message || fallback, !!data?.passwordRequired);
+  }
+  return new ShareAccessError('An unexpected error occurred');
+};
+
+const sharePasswordHeaders = (password?: string) => (password ? { 'X-Share-Password': password } : undefined);
+
+export const getSharedUpload = async (token: string, password?: string): Promise<SharedUpload> => {
+  try {
+    const response = await publicApi.get<SharedUpload>(`/shared/${token}`, {
+      headers: sharePasswordHeaders(password),
+    });
+    return response.data;
+  } catch (error) {
+    throw await toShareAccessError(error, 'Failed to open share link');
+  }
+};
+
+// One page of a shared upload's rows (limit: 50 by default, at most 500)
+export const getSharedRows = async (
+  token: string,
+  query: Pick<UploadRowsQuery, 'sort' | 'direction' | 'search'> & { page?: number; limit?: number } = {},
+  password?: string,
+): Promise<UploadRowsResponse> => {
+  try {
+    const params: Record<string, string | number | undefined> = { ...query };
+    // Remove undefined values
+    Object.keys(params).forEach((key) => {
+      if (params[key] === undefined || params[key] === '') {
+        delete params[key];
+      }
+    });
+
+    const response = await publicApi.get<UploadRowsResponse>(`/shared/${token}/rows`, {
+      params,
+      headers: sharePasswordHeaders(password),
+    });
+    return response.data;
+  } catch (error) {
+    throw await toShareAccessError(error, 'Failed to fetch rows');
+  }
+};
+
+export const downloadSharedExport = async (
+  token: string,
+  fileName: string,
+  format: ExportFormat = 'csv',
+  password?: string,
+): Promise<void> => {
+  try {
+    const response = await publicApi.get(`/shared/${token}/export`, {
+      params: { format },
+      headers: sharePasswordHeaders(password),
+      responseType: 'blob',
+    });
+    const url = window.URL.createObjectURL(new Blob([response.data]));
+    const link = document.createElement('a');
+    link.href = url;
+    link.setAttribute('download', getExportFileName(fileName, format));
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    window.URL.revokeObjectURL(url);
+  } catch (error) {
+    throw await toShareAccessError(error, 'Failed to export data');
+  }
+};
+
+export const bulkDeleteUploads = async (ids: string[]): Promise<{ deleted: number; message: string }> => {
+  try {
+    const response = await api.delete('/csv-import/history/bulk', { data: { ids } });
+    return response.data;
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      const message = error.response?.data?.message || error.message || 'Failed to delete uploads';
+      throw new Error(message);
+    }
+    throw new Error('An unexpected error occurred');
+  }
+};
+
+export const getValidationSchemas = async (): Promise<ValidationSchema[]> => {
+  const response = await api.get<ValidationSchema[]>('/csv-import/validation-schemas');
+  return response.data;
+};
+
+export const createValidationSchema = async (data: {
+  name: string;
+  description?: string;
+  schema: ValidationRules;
+}): Promise<ValidationSchema> => {
+  try {
+    const response = await api.post<ValidationSchema>('/csv-import/validation-schemas', data);
+    return response.data;
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      const message = error.response?.data?.message || error.message || 'Failed to save validation schema';
+      throw new Error(message);
+    }
+    throw new Error('An unexpected error occurred');
+  }
+};
+
+export const updateValidationSchema = async (
+  id: string,
+  data: { name?: string; description?: string; schema?: ValidationRules },
+): Promise<ValidationSchema> => {
+  try {
+    const response = await api.put<ValidationSchema>(`/csv-import/validation-schemas/${id}`, data);
+    return response.data;
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      const message = error.response?.data?.message || error.message || 'Failed to update validation schema';
+      throw new Error(message);
+    }
+    throw new Error('An unexpected error occurred');
+  }
+};
+
+export const deleteValidationSchema = async (id: string): Promise<void> => {
+  try {
+    await api.delete(`/csv-import/validation-schemas/${id}`);
   } catch (error) {
     if (axios.isAxiosError(error)) {
-      const message = error.response?.data?.message || error.message || 'Failed to fetch upload history';
+      const message = error.response?.data?.message || error.message || 'Failed to delete validation schema';
       throw new Error(message);
     }
     throw new Error('An unexpected error occurred');
   }
 };
 
-export const getUploadById = async (id: string): Promise<UploadRecord> => {
+export const getDatasets = async (search?: string, page = 1, limit = 10): Promise<DatasetsResponse> => {
   try {
-    const response = await api.get<UploadRecord>(`/csv-import/history/${id}`);
+    const response = await api.get<DatasetsResponse>('/csv-import/datasets', {
+      params: { ...(search && { search }), page, limit },
+    });
     return response.data;
   } catch (error) {
     if (axios.isAxiosError(error)) {
-      const message = error.response?.data?.message || error.message || 'Failed to fetch upload details';
+      const message = error.response?.data?.message || error.message || 'Failed to fetch datasets';
       throw new Error(message);
     }
     throw new Error('An unexpected error occurred');
   }
 };
 
-export interface UploadDataResponse {
-  uploadId: string;
-  fileName: string;
-  totalRows: number;
-  data: CsvRow[];
-}
-
-export const getUploadData = async (id: string): Promise<UploadDataResponse> => {
+export const getDataset = async (id: string): Promise<DatasetDetail> => {
   try {
-    const response = await api.get<UploadDataResponse>(`/csv-import/history/${id}/data`);
+    const response = await api.get<DatasetDetail>(`/csv-import/datasets/${id}`);
     return response.data;
   } catch (error) {
     if (axios.isAxiosError(error)) {
-      const message = error.response?.data?.message || error.message || 'Failed to fetch upload data';
+      const message = error.response?.data?.message || error.message || 'Failed to fetch dataset';
       throw new Error(message);
     }
     throw new Error('An unexpected error occurred');
   }
 };
 
-export const downloadOriginalFile = async (id: string, fileName: string): Promise<void> => {
+// Makes a version the current one; an older version rolls the dataset back
+export const setCurrentDatasetVersion = async (id: string, uploadId: string): Promise<Dataset> => {
   try {
-    const response = await api.get(`/csv-import/history/${id}/download`, {
-      responseType: 'blob',
-    });
-    const url = window.URL.createObjectURL(new Blob([response.data]));
-    const link = document.createElement('a');
-    link.href = url;
-    link.setAttribute('download', fileName);
-    document.body.appendChild(link);
-    link.click();
-    link.remove();
-    window.URL.revokeObjectURL(url);
+    const response = await api.put<Dataset>(`/csv-import/datasets/${id}/current`, { uploadId });
+    return response.data;
   } catch (error) {
     if (axios.isAxiosError(error)) {
-      const message = error.response?.data?.message || error.message || 'Failed to download file';
+      const message = error.response?.data?.message || error.message || 'Failed to change the current version';
       throw new Error(message);
     }
     throw new Error('An unexpected error occurred');
   }
 };
 
-export const exportCsvData = async (uploadId: string, fileName: string): Promise<void> => {
+// Settings saved in an import template
+export type ImportTemplateInput = Pick<ImportTemplate, 'name'> &
+  Partial<
+    Pick<
+      ImportTemplate,
+      'description' | 'expectedHeaders' | 'columnMapping' | 'detectDuplicates' | 'duplicateColumns' | 'handleDuplicates' | 'dialect'
+    >
+  > & { validationRules?: ValidationRules };
+
+export const getImportTemplates = async (): Promise<ImportTemplate[]> => {
+  const response = await api.get<ImportTemplate[]>('/csv-import/import-templates');
+  return response.data;
+};
+
+// Templates whose expected headers match a file's headers, best match first
+export const suggestImportTemplates = async (headers: string[]): Promise<ImportTemplateSuggestion[]> => {
+  const response = await api.post<ImportTemplateSuggestion[]>('/csv-import/import-templates/suggest', { headers });
+  return response.data;
+};
+
+export const createImportTemplate = async (data: ImportTemplateInput): Promise<ImportTemplate> => {
   try {
-    const response = await api.post(
-      '/csv-import/history/export',
-      { uploadId },
-      { responseType: 'blob' },
-    );
-    const url = window.URL.createObjectURL(new Blob([response.data]));
-    const link = document.createElement('a');
-    link.href = url;
-    link.setAttribute('download', `export_${fileName}`);
-    document.body.appendChild(link);
-    link.click();
-    link.remove();
-    window.URL.revokeObjectURL(url);
+    const response = await api.post<ImportTemplate>('/csv-import/import-templates', data);
+    return response.data;
   } catch (error) {
     if (axios.isAxiosError(error)) {
-      const message = error.response?.data?.message || error.message || 'Failed to export CSV';
+      const message = error.response?.data?.message || error.message || 'Failed to save import template';
       throw new Error(message);
     }
     throw new Error('An unexpected error occurred');
   }
 };
 
-export const bulkDeleteUploads = async (ids: string[]): Promise<{ deleted: number; message: string }> => {
+export const updateImportTemplate = async (
+  id: string,
+  data: Partial<ImportTemplateInput>,
+): Promise<ImportTemplate> => {
   try {
-    const response = await api.delete('/csv-import/history/bulk', { data: { ids } });
+    const response = await api.put<ImportTemplate>(`/csv-import/import-templates/${id}`, data);
     return response.data;
   } catch (error) {
     if (axios.isAxiosError(error)) {
-      const message = error.response?.data?.message || error.message || 'Failed to delete uploads';
+      const message = error.response?.data?.message || error.message || 'Failed to update import template';
+      throw new Error(message);
+    }
+    throw new Error('An unexpected error occurred');
+  }
+};
+
+export const deleteImportTemplate = async (id: string): Promise<void> => {
+  try {
+    await api.delete(`/csv-import/import-templates/${id}`);
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      const message = error.response?.data?.message || error.message || 'Failed to delete import template';
       throw new Error(message);
     }
     throw new Error('An unexpected error occurred');
@@ -261,6 +1209,7 @@ export interface AuditLog {
   userId?: string;
   userEmail?: string;
   userName?: string;
+  workspaceId?: string;
   uploadId?: string;
   fileName?: string;
   userIp?: string;
@@ -281,6 +1230,7 @@ export interface AuditLogsResponse {
 
 export interface AuditLogFilters {
   action?: string;
+  scope?: 'all'; // Every workspace's entries (admins only; default: the active workspace's)
   uploadId?: string;
   startDate?: string;
   endDate?: string;
@@ -294,6 +1244,7 @@ export const getAuditLogs = async (filters?: AuditLogFilters): Promise<AuditLogs
     
     if (filters) {
       if (filters.action) params.action = filters.action;
+      if (filters.scope) params.scope = filters.scope;
       if (filters.uploadId) params.uploadId = filters.uploadId;
       if (filters.startDate) params.startDate = filters.startDate;
       if (filters.endDate) params.endDate = filters.endDate;
@@ -325,13 +1276,18 @@ export interface LoginRequest {
   password: string;
 }
 
+// admin: everything, including managing users; editor: upload and change own data; viewer: read only
+export type UserRole = 'admin' | 'editor' | 'viewer';
+
 export interface AuthResponse {
   accessToken: string;
+  refreshToken: string;
   user: {
     id: string;
     email: string;
     firstName?: string;
     lastName?: string;
+    role: UserRole;
   };
 }
 
@@ -340,13 +1296,19 @@ export interface User {
   email: string;
   firstName?: string;
   lastName?: string;
+  role: UserRole;
+}
+
+// A user as listed in user management (admins only)
+export interface ManagedUser extends User {
+  createdAt: string;
 }
 
 export const register = async (data: RegisterRequest): Promise<AuthResponse> => {
   try {
     const response = await api.post<AuthResponse>('/auth/register', data);
-    // Store token and user info
-    localStorage.setItem('authToken', response.data.accessToken);
+    // Store tokens and user info
+    storeTokens(response.data.accessToken, response.data.refreshToken);
     localStorage.setItem('user', JSON.stringify(response.data.user));
     return response.data;
   } catch (error) {
@@ -361,8 +1323,8 @@ export const register = async (data: RegisterRequest): Promise<AuthResponse> =>
 export const login = async (data: LoginRequest): Promise<AuthResponse> => {
   try {
     const response = await api.post<AuthResponse>('/auth/login', data);
-    // Store token and user info
-    localStorage.setItem('authToken', response.data.accessToken);
+    // Store tokens and user info
+    storeTokens(response.data.accessToken, response.data.refreshToken);
     localStorage.setItem('user', JSON.stringify(response.data.user));
     return response.data;
   } catch (error) {
@@ -382,9 +1344,68 @@ export const login = async (data: LoginRequest): Promise<AuthResponse> => {
   }
 };
 
-export const logout = () => {
-  localStorage.removeItem('authToken');
-  localStorage.removeItem('user');
+// Ends the session on the server too, so the tokens stop working; the local
+// logout happens even when the server cannot be reached
+export const logout = async (): Promise<void> => {
+  try {
+    if (localStorage.getItem('authToken')) {
+      await api.post('/auth/logout');
+    }
+  } catch {
+    // Already logged out on the server
+  } finally {
+    clearAuth();
+  }
+};
+
+// Ends every session of the user, on all devices
+export const logoutEverywhere = async (): Promise<void> => {
+  try {
+    await api.post('/auth/logout-all');
+    clearAuth();
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      const message = error.response?.data?.message || error.message || 'Failed to log out everywhere';
+      throw new Error(message);
+    }
+    throw new Error('An unexpected error occurred');
+  }
+};
+
+// A device the user is logged in on (GET /auth/sessions)
+export interface Session {
+  id: string;
+  userAgent?: string;
+  userIp?: string; // IP address of the last login or refresh
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  current: boolean; // The session of this browser
+}
+
+export const getSessions = async (): Promise<Session[]> => {
+  try {
+    const response = await api.get<Session[]>('/auth/sessions');
+    return response.data;
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      const message = error.response?.data?.message || error.message || 'Failed to fetch sessions';
+      throw new Error(message);
+    }
+    throw new Error('An unexpected error occurred');
+  }
+};
+
+export const revokeSession = async (id: string): Promise<void> => {
+  try {
+    await api.delete(`/auth/sessions/${id}`);
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      const message = error.response?.data?.message || error.message || 'Failed to revoke session';
+      throw new Error(message);
+    }
+    throw new Error('An unexpected error occurred');
+  }
 };
 
 export const getCurrentUser = async (): Promise<User> => {
@@ -416,5 +1437,221 @@ export const isAuthenticated = (): boolean => {
   return !!localStorage.getItem('authToken');
 };
 
+// User management API functions (admins only)
+export const getUsers = async (): Promise<ManagedUser[]> => {
+  try {
+    const response = await api.get<ManagedUser[]>('/users');
+    return response.data;
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      const message = error.response?.data?.message || error.message || 'Failed to fetch users';
+      throw new Error(message);
+    }
+    throw new Error('An unexpected error occurred');
+  }
+};
+
+export const updateUserRole = async (id: string, role: UserRole): Promise<ManagedUser> => {
+  try {
+    const response = await api.patch<ManagedUser>(`/users/${id}/role`, { role });
+    return response.data;
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      const message = error.response?.data?.message || error.message || 'Failed to change role';
+      throw new Error(message);
+    }
+    throw new Error('An unexpected error occurred');
+  }
+};
+
+// Workspace API functions
+// admin: manage members and invitations; editor: upload and change data; viewer: read only
+export type WorkspaceRole = 'admin' | 'editor' | 'viewer';
+
+export interface Workspace {
+  id: string;
+  name: string;
+  personal: boolean; // The caller's own personal workspace
+  role: WorkspaceRole; // The caller's role in the workspace
+  memberCount: number;
+  createdAt: string;
+}
+
+export interface WorkspaceMember {
+  userId: string;
+  email: string;
+  firstName?: string;
+  lastName?: string;
+  role: WorkspaceRole;
+  joinedAt: string;
+}
+
+// A pending invitation of an existing user into a workspace
+export interface WorkspaceInvitation {
+  id: string;
+  workspaceId: string;
+  workspaceName: string;
+  email: string;
+  role: WorkspaceRole;
+  invitedBy?: string;
+  createdAt: string;
+}
+
+export const getWorkspaces = async (): Promise<Workspace[]> => {
+  try {
+    const response = await api.get<Workspace[]>('/workspaces');
+    return response.data;
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      const message = error.response?.data?.message || error.message || 'Failed to fetch workspaces';
+      throw new Error(message);
+    }
+    throw new Error('An unexpected error occurred');
+  }
+};
+
+export const createWorkspace = async (name: string): Promise<Workspace> => {
+  try {
+    const response = await api.post<Workspace>('/workspaces', { name });
+    return response.data;
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      const message = error.response?.data?.message || error.message || 'Failed to create workspace';
+      throw new Error(message);
+    }
+    throw new Error('An unexpected error occurred');
+  }
+};
+
+export const renameWorkspace = async (id: string, name: string): Promise<Workspace> => {
+  try {
+    const response = await api.patch<Workspace>(`/workspaces/${id}`, { name });
+    return response.data;
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      const message = error.response?.data?.message || error.message || 'Failed to rename workspace';
+      throw new Error(message);
+    }
+    throw new Error('An unexpected error occurred');
+  }
+};
+
+export const getWorkspaceMembers = async (id: string): Promise<WorkspaceMember[]> => {
+  try {
+    const response = await api.get<WorkspaceMember[]>(`/workspaces/${id}/members`);
+    return response.data;
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      const message = error.response?.data?.message || error.message || 'Failed to fetch members';
+      throw new Error(message);
+    }
+    throw new Error('An unexpected error occurred');
+  }
+};
+
+export const updateWorkspaceMemberRole = async (id: string, userId: string, role: WorkspaceRole): Promise<void> => {
+  try {
+    await api.patch(`/workspaces/${id}/members/${userId}`, { role });
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      const message = error.response?.data?.message || error.message || 'Failed to change role';
+      throw new Error(message);
+    }
+    throw new Error('An unexpected error occurred');
+  }
+};
+
+export const removeWorkspaceMember = async (id: string, userId: string): Promise<void> => {
+  try {
+    await api.delete(`/workspaces/${id}/members/${userId}`);
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      const message = error.response?.data?.message || error.message || 'Failed to remove member';
+      throw new Error(message);
+    }
+    throw new Error('An unexpected error occurred');
+  }
+};
+
+export const getWorkspaceInvitations = async (id: string): Promise<WorkspaceInvitation[]> => {
+  try {
+    const response = await api.get<WorkspaceInvitation[]>(`/workspaces/${id}/invitations`);
+    return response.data;
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      const message = error.response?.data?.message || error.message || 'Failed to fetch invitations';
+      throw new Error(message);
+    }
+    throw new Error('An unexpected error occurred');
+  }
+};
+
+export const inviteToWorkspace = async (
+  id: string,
+  email: string,
+  role: WorkspaceRole,
+): Promise<WorkspaceInvitation> => {
+  try {
+    const response = await api.post<WorkspaceInvitation>(`/workspaces/${id}/invitations`, { email, role });
+    return response.data;
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      const message = error.response?.data?.message || error.message || 'Failed to send invitation';
+      throw new Error(message);
+    }
+    throw new Error('An unexpected error occurred');
+  }
+};
+
+export const revokeWorkspaceInvitation = async (id: string, invitationId: string): Promise<void> => {
+  try {
+    await api.delete(`/workspaces/${id}/invitations/${invitationId}`);
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      const message = error.response?.data?.message || error.message || 'Failed to revoke invitation';
+      throw new Error(message);
+    }
+    throw new Error('An unexpected error occurred');
+  }
+};
+
+export const getMyInvitations = async (): Promise<WorkspaceInvitation[]> => {
+  try {
+    const response = await api.get<WorkspaceInvitation[]>('/workspaces/invitations');
+    return response.data;
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      const message = error.response?.data?.message || error.message || 'Failed to fetch invitations';
+      throw new Error(message);
+    }
+    throw new Error('An unexpected error occurred');
+  }
+};
+
+export const acceptInvitation = async (invitationId: string): Promise<Workspace> => {
+  try {
+    const response = await api.post<Workspace>(`/workspaces/invitations/${invitationId}/accept`);
+    return response.data;
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      const message = error.response?.data?.message || error.message || 'Failed to accept invitation';
+      throw new Error(message);
+    }
+    throw new Error('An unexpected error occurred');
+  }
+};
+
+export const declineInvitation = async (invitationId: string): Promise<void> => {
+  try {
+    await api.post(`/workspaces/invitations/${invitationId}/decline`);
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      const message = error.response?.data?.message || error.message || 'Failed to decline invitation';
+      throw new Error(message);
+    }
+    throw new Error('An unexpected error occurred');
+  }
+};
+
 export default api;
 
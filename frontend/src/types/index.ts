@@ -2,34 +2,518 @@ export interface CsvRow {
   [key: string]: string;
 }
 
+// A stored value: text, or typed once an upload's values were converted to their column types
+export type CellValue = string | number | boolean | null;
+
+export interface TypedRow {
+  [key: string]: CellValue;
+}
+
+// Column types detected by the backend after import
+export type InferredType =
+  | 'string'
+  | 'integer'
+  | 'number'
+  | 'boolean'
+  | 'date'
+  | 'datetime'
+  | 'email'
+  | 'url'
+  | 'enum'
+  | 'empty';
+
+export interface ColumnSchema {
+  name: string;
+  type: InferredType;
+  confidence: number; // 0-1: share of values that fit the type
+  format?: string; // date/datetime: how values are written, e.g. DD/MM/YYYY
+  enumValues?: string[]; // enum: distinct values, most frequent first
+  nullCount: number;
+  distinctCount: number;
+  sampleValues: string[];
+  overridden?: boolean; // Type chosen by a user
+}
+
+// A finished import; its rows are read a page at a time with getUploadRows
 export interface CsvData {
   success: boolean;
   message: string;
-  data: CsvRow[];
   totalRows: number;
-  uploadId?: string;
+  uploadId: string;
+  columnSchema?: ColumnSchema[];
   warnings?: Array<{ row: number; message: string }>;
-  duplicates?: Array<{ row: number; duplicateOf: number; data: CsvRow }>;
+  duplicates?: Array<{ row: number; duplicateOf: number; data?: CsvRow }>;
   duplicateCount?: number;
 }
 
+export type ImportFormat = 'csv' | 'tsv' | 'json' | 'ndjson' | 'xlsx';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json' | 'ndjson' | 'parquet';
+
+// How CSV exports write values that spreadsheets would run as formulas
+export type FormulaSanitization = 'off' | 'apostrophe' | 'strip';
+
+// Narrows an export down to what is on screen (all rows and columns if omitted)
+export interface ExportOptions {
+  filter?: string; // Rows containing this text (case-insensitive) in any exported column
+  query?: string; // Rows matching this filter expression
+  sort?: Array<{ column: string; direction: 'asc' | 'desc' }>;
+  columns?: Array<{ name: string; as?: string }>; // In export order; `as` renames the header
+  sanitize?: FormulaSanitization; // CSV only; the server default applies if omitted
+}
+
+export type CsvEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252' | 'iso-8859-1';
+export type CsvLineEnding = 'lf' | 'crlf' | 'cr';
+
+// How a CSV file is written; detected automatically and adjustable in the preview
+export interface CsvDialect {
+  delimiter: string;
+  quote: string; // '' means fields are never quoted
+  lineEnding: CsvLineEnding;
+  encoding: CsvEncoding;
+}
+
+// Sheets of an Excel workbook and the sheet / header row chosen for import
+export interface ExcelSheetSelection {
+  sheets: string[];
+  sheetName: string;
+  headerRow: number; // 1-based
+}
+
+// What a broken validation rule does: report it, leave the row out, or fail the upload
+export type ValidationSeverity = 'warning' | 'reject_row' | 'fail_upload';
+
+// Rules rows are checked against while importing (see POST /csv-import/validation-schemas)
+export interface ValidationRules {
+  columns?: Array<{
+    column: string;
+    required?: boolean;
+    type?: 'string' | 'integer' | 'number' | 'boolean' | 'date' | 'email' | 'url';
+    pattern?: string;
+    min?: number;
+    max?: number;
+    maxLength?: number;
+    enum?: string[];
+    unique?: boolean;
+    severity?: ValidationSeverity;
+    message?: string;
+  }>;
+  rules?: Array<{
+    name?: string;
+    when?: Array<{ column: string; operator: string; value?: string | number | string[]; otherColumn?: string }>;
+    then: Array<{ column: string; operator: string; value?: string | number | string[]; otherColumn?: string }>;
+    severity?: ValidationSeverity;
+    message?: string;
+  }>;
+  severity?: ValidationSeverity; // Default for rules without one (warning if omitted)
+}
+
+// A named set of validation rules saved on the server
+export interface ValidationSchema {
+  id: string;
+  name: string;
+  description?: string;
+  schema: ValidationRules;
+  createdBy?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Saved import settings for a recurring file; suggested when a file has its headers
+export interface ImportTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  expectedHeaders: string[];
+  columnMapping?: Record<string, string>;
+  detectDuplicates: boolean;
+  duplicateColumns?: string[];
+  handleDuplicates: 'skip' | 'keep' | 'mark';
+  validation?: ValidationRules;
+  dialect?: Partial<CsvDialect>;
+  createdBy?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ImportTemplateSuggestion {
+  template: ImportTemplate;
+  score: number; // 1 = the file has exactly the expected headers
+  missingHeaders: string[];
+  extraHeaders: string[];
+}
+
 export enum UploadStatus {
   SUCCESS = 'success',
   FAILED = 'failed',
   PROCESSING = 'processing',
 }
 
+export enum UploadPhase {
+  QUEUED = 'queued',
+  PARSING = 'parsing',
+  SAVING = 'saving',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+}
+
 export interface UploadRecord {
   id: string;
   fileName: string;
   fileSize: number;
   status: UploadStatus;
+  phase: UploadPhase;
+  rowsProcessed: number;
+  progressPercent: number;
   uploadedAt: string;
   completedAt?: string;
   totalRows?: number;
-  errors?: string[];
+  errors?: string[]; // The first warnings of the import
+  errorCount?: number; // How many warnings there were (not set for older uploads)
+  duplicates?: Array<{ row: number; duplicateOf: number }>; // The first duplicates found
+  duplicateCount?: number; // How many duplicates there were (not set for older uploads)
+  format?: ImportFormat;
+  dialect?: CsvDialect;
+  sheetName?: string; // Excel only
+  headerRow?: number; // Excel only
+  userId?: string; // User who uploaded the file (its owner)
+  workspaceId?: string; // Workspace the upload belongs to
+  templateId?: string; // Import template the upload used
+  datasetId?: string; // Dataset the upload is a version of
+  version?: number; // Version number within the dataset (1 = first upload)
+  datasetName?: string;
+  current?: boolean; // Whether this is the current version of its dataset
+  columnSchema?: ColumnSchema[]; // Detected type of each column
+  typed?: boolean; // Whether the stored rows hold typed values instead of text
+  quality?: QualityScore; // Not set for failed uploads or uploads made before scoring existed
   message?: string;
-  data?: CsvRow[]; // CSV data for successful uploads
+}
+
+// Uploads of the same data over time, numbered as versions (GET /csv-import/datasets)
+export interface Dataset {
+  id: string;
+  name: string;
+  currentUploadId?: string; // Not set until a version was imported successfully
+  currentVersion?: number;
+  latestVersion: number; // Highest version number handed out so far
+  versionCount: number; // Versions that still exist
+  createdAt: string;
+  updatedAt: string;
+  current?: UploadRecord; // The current upload (dataset list only)
+}
+
+export interface DatasetsResponse {
+  datasets: Dataset[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+}
+
+export interface DatasetDetail {
+  dataset: Dataset;
+  versions: UploadRecord[]; // Newest version first
+}
+
+// Read-only link to one upload for people without an account (GET /csv-import/history/:id/share-links)
+export interface ShareLink {
+  id: string;
+  uploadId: string;
+  status: 'active' | 'expired' | 'revoked';
+  passwordProtected: boolean;
+  expiresAt: string;
+  revokedAt?: string;
+  createdBy?: string; // Email of the user who created the link
+  createdAt: string;
+  accessCount: number;
+  lastAccessedAt?: string;
+}
+
+// Returned once, when the link is created; the token cannot be looked up later
+export interface CreatedShareLink extends ShareLink {
+  token: string;
+}
+
+export interface CreateShareLinkRequest {
+  expiresInHours?: number; // Default: 7 days, at most 30 days
+  password?: string; // 4 to 128 characters
+}
+
+// What a share link shows before its rows are loaded (GET /shared/:token)
+export interface SharedUpload {
+  fileName: string;
+  format?: string;
+  totalRows: number;
+  columns: string[];
+  columnSchema?: ColumnSchema[];
+  uploadedAt: string;
+  expiresAt: string; // When the link stops working
+}
+
+// What an issue found during import is about (GET /csv-import/history/:id/issues)
+export type IssueCode =
+  | 'empty_row'
+  | 'header_mismatch'
+  | 'duplicate_row'
+  | 'formula_injection'
+  | 'missing_column'
+  | 'required'
+  | 'invalid_type'
+  | 'pattern_mismatch'
+  | 'out_of_range'
+  | 'too_long'
+  | 'not_allowed'
+  | 'not_unique'
+  | 'cross_field'
+  | 'inconsistent_type'
+  | 'other';
+
+// info: nothing was lost; warning: the row was imported; error: the row was rejected or the upload failed
+export type IssueSeverity = 'info' | 'warning' | 'error';
+
+export interface UploadIssue {
+  row: number;
+  column?: string;
+  code: IssueCode;
+  severity: IssueSeverity;
+  message: string;
+}
+
+// Percentages (0-100); score is the mean of the four dimensions
+export interface QualityScore {
+  score: number;
+  completeness: number; // Values that are not empty
+  validity: number; // Rows that break no validation rule
+  uniqueness: number; // Rows that are not exact copies of an earlier row
+  consistency: number; // Values that fit their column type
+  counts: {
+    rows: number;
+    values: number;
+    emptyValues: number;
+    checkedRows: number;
+    invalidRows: number;
+    duplicateRows: number;
+    typedValues: number;
+    inconsistentValues: number;
+  };
+  issues: {
+    total: number;
+    bySeverity: Record<IssueSeverity, number>;
+    byCode: Partial<Record<IssueCode, number>>;
+  };
+}
+
+export interface UploadIssuesQuery {
+  code?: IssueCode;
+  severity?: IssueSeverity;
+  column?: string;
+}
+
+export interface UploadIssuesResponse {
+  uploadId: string;
+  fileName: string;
+  quality?: QualityScore;
+  issues: UploadIssue[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+}
+
+// Row-level diff of two uploads (POST /csv-import/history/diff); rows are matched by key columns
+export type DiffChangeType = 'added' | 'removed' | 'changed';
+
+export interface DiffCellChange {
+  column: string;
+  before: CellValue;
+  after: CellValue;
+}
+
+export interface UploadDiffRow {
+  type: DiffChangeType;
+  key: TypedRow;
+  baseRowNumber?: number; // Not set for added rows
+  compareRowNumber?: number; // Not set for removed rows
+  before?: TypedRow;
+  after?: TypedRow;
+  changes?: DiffCellChange[]; // Changed rows only
+}
+
+export interface UploadDiffRequest {
+  baseId: string; // The earlier upload
+  compareId: string;
+  keyColumns: string[];
+  type?: DiffChangeType;
+}
+
+export interface UploadDiffResponse {
+  base: { id: string; fileName: string; uploadedAt: string };
+  compare: { id: string; fileName: string; uploadedAt: string };
+  keyColumns: string[];
+  columns: string[]; // Columns in both uploads (only these are compared)
+  addedColumns: string[];
+  removedColumns: string[];
+  summary: { added: number; removed: number; changed: number; unchanged: number };
+  rows: UploadDiffRow[];
+  total: number; // Rows matching the type filter
+  page: number;
+  limit: number;
+  totalPages: number;
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+}
+
+// One stored row of an upload (GET /csv-import/history/:id/rows)
+export interface UploadRow {
+  rowNumber: number; // Row number in the source file, as used in warnings
+  data: TypedRow;
+  warnings?: string[]; // Warnings recorded for the row during import
+  duplicateOf?: number; // Row number of the earlier row this row duplicates
+}
+
+// How the server sorts and filters an upload's rows
+export interface UploadRowsQuery {
+  sort?: string;
+  direction?: 'asc' | 'desc';
+  search?: string; // Rows with a value containing this text (case-insensitive)
+  searchColumns?: string[]; // Only search these columns (default: all)
+  filter?: string; // Filter expression, e.g. age > 30 AND country IN ("DE", "FR")
+  flagged?: boolean; // Only rows with warnings or marked as duplicates
+}
+
+// Metric functions of POST /csv-import/history/:id/aggregate (sum and avg need integer or number columns)
+export type AggregateFunction = 'count' | 'sum' | 'avg' | 'min' | 'max' | 'distinctCount';
+
+export interface AggregateMetric {
+  function: AggregateFunction;
+  column?: string; // Required except for count
+  as?: string; // Name in the result rows (default: e.g. sum_amount)
+}
+
+export interface AggregateRequest {
+  groupBy?: string[];
+  metrics: AggregateMetric[];
+  filter?: string; // Filter expression selecting the rows to aggregate
+  sort?: { by: string; direction: 'asc' | 'desc' }; // Group-by column or metric name
+  limit?: number; // Maximum number of groups (default 1000)
+}
+
+// One row per group: group-by values (null for empty values) and metrics by name
+export interface AggregateResult {
+  uploadId: string;
+  groupBy: string[];
+  metrics: Array<{ name: string; function: AggregateFunction; column?: string }>;
+  rows: Array<Record<string, string | number | null>>;
+  totalGroups: number;
+  truncated: boolean;
+}
+
+// Values from `from` up to (excluding) `to`; the last bin also holds `to`
+export interface HistogramBin<T = number> {
+  from: T;
+  to: T;
+  count: number;
+}
+
+// Summary of one column's values, from GET /csv-import/history/:id/profile
+export interface ColumnProfile {
+  name: string;
+  type: InferredType;
+  emptyCount: number;
+  emptyRate: number; // Share of rows with an empty value (0-1)
+  distinctCount: number;
+  topValues: Array<{ value: string; count: number }>;
+  lengths?: { min: number; max: number; mean: number; histogram: HistogramBin[] }; // Characters per value
+  patterns: Array<{ pattern: string; count: number; example: string }>; // Value shapes: A/a letters, 9 digits
+  numeric?: {
+    count: number;
+    min: number;
+    max: number;
+    mean: number;
+    stdDev: number;
+    percentiles: { p5: number; p25: number; p50: number; p75: number; p95: number };
+    histogram: HistogramBin[];
+  }; // integer and number columns
+  dates?: { count: number; min: string; max: string; histogram: HistogramBin<string>[] }; // date and datetime columns
+}
+
+export interface UploadProfile {
+  uploadId: string;
+  fileName: string;
+  rowCount: number;
+  columns: ColumnProfile[];
+  computedAt: string;
+}
+
+// Returned by POST /csv-import/upload; parsing continues in the background
+export interface ImportJobResponse {
+  success: boolean;
+  message: string;
+  uploadId: string;
+  jobId: string;
+  status: UploadStatus;
+  phase: UploadPhase;
+}
+
+// Returned by the /csv-import/upload-sessions endpoints (chunked, resumable uploads)
+export interface UploadSession {
+  sessionId: string;
+  fileName: string;
+  fileSize: number;
+  chunkSize: number;
+  totalChunks: number;
+  receivedChunks: number[];
+  status: 'active' | 'completed';
+  uploadId?: string;
+  expiresAt: string;
+}
+
+// Unfinished chunked upload remembered in localStorage so it can be resumed
+export interface PendingUploadSession {
+  key: string; // name:size:lastModified of the local file
+  sessionId: string;
+  fileName: string;
+  fileSize: number;
+  totalChunks: number;
+  uploadedChunks: number;
+  startedAt: string;
+}
+
+export interface ChunkUploadProgress {
+  uploadedChunks: number;
+  totalChunks: number;
+  resumed: boolean;
+}
+
+export interface UploadProgress {
+  uploadId: string;
+  status: UploadStatus;
+  phase: UploadPhase;
+  rowsProcessed: number;
+  progressPercent: number;
+  totalRows?: number;
+  message?: string;
+}
+
+export enum UploadEventType {
+  CREATED = 'upload.created',
+  PROGRESS = 'upload.progress',
+  COMPLETED = 'upload.completed',
+  FAILED = 'upload.failed',
+  DELETED = 'upload.deleted',
+}
+
+// Pushed by GET /csv-import/events
+export interface UploadEvent {
+  type: UploadEventType;
+  uploadId: string;
+  fileName?: string;
+  progress?: UploadProgress;
+  timestamp: string;
 }
 
 export interface UploadHistoryResponse {
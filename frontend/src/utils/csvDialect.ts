@@ -0,0 +1,248 @@
+import { CsvDialect, CsvEncoding, CsvLineEnding } from '../types';
+
+// Mirrors the sniffing done by the backend (CsvDialectService) so the preview
+// shows the file the way it will be imported.
+
+export const DELIMITER_OPTIONS: Array<{ value: string; label: string }> = [
+  { value: ',', label: 'Comma (,)' },
+  { value: ';', label: 'Semicolon (;)' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe (|)' },
+];
+
+export const QUOTE_OPTIONS: Array<{ value: string; label: string }> = [
+  { value: '"', label: 'Double quote (")' },
+  { value: "'", label: "Single quote (')" },
+  { value: '', label: 'None' },
+];
+
+export const LINE_ENDING_OPTIONS: Array<{ value: CsvLineEnding; label: string }> = [
+  { value: 'lf', label: 'LF (Unix)' },
+  { value: 'crlf', label: 'CRLF (Windows)' },
+  { value: 'cr', label: 'CR (classic Mac)' },
+];
+
+export const ENCODING_OPTIONS: Array<{ value: CsvEncoding; label: string }> = [
+  { value: 'utf-8', label: 'UTF-8' },
+  { value: 'utf-16le', label: 'UTF-16 LE' },
+  { value: 'utf-16be', label: 'UTF-16 BE' },
+  { value: 'windows-1252', label: 'Windows-1252' },
+  { value: 'iso-8859-1', label: 'ISO-8859-1 (Latin-1)' },
+];
+
+const LINE_SEPARATORS: Record<CsvLineEnding, string> = {
+  lf: '\n',
+  crlf: '\r\n',
+  cr: '\r',
+};
+
+const SNIFF_LINES = 50;
+
+/**
+ * Detects the character encoding from the BOM, UTF-16 zero-byte patterns and UTF-8 validity
+ */
+export function detectEncoding(bytes: Uint8Array): CsvEncoding {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+
+  const pairs = Math.floor(Math.min(bytes.length, 4096) / 2);
+  if (pairs > 0) {
+    let evenZeros = 0;
+    let oddZeros = 0;
+    for (let i = 0; i < pairs * 2; i += 2) {
+      if (bytes[i] === 0) evenZeros++;
+      if (bytes[i + 1] === 0) oddZeros++;
+    }
+    if (oddZeros > pairs * 0.3 && evenZeros < pairs * 0.05) return 'utf-16le';
+    if (evenZeros > pairs * 0.3 && oddZeros < pairs * 0.05) return 'utf-16be';
+  }
+
+  try {
+    // A multi-byte character cut off at the end of the sample is not an error
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: true });
+    return 'utf-8';
+  } catch {
+    // Not UTF-8: bytes 0x80-0x9F are printable in Windows-1252 but control codes in Latin-1
+    return bytes.some((byte) => byte >= 0x80 && byte <= 0x9f) ? 'windows-1252' : 'iso-8859-1';
+  }
+}
+
+/**
+ * Detects the most common line ending (LF if there are none)
+ */
+export function detectLineEnding(text: string): CsvLineEnding {
+  const crlf = (text.match(/\r\n/g) || []).length;
+  const lf = (text.match(/\n/g) || []).length - crlf;
+  const cr = (text.match(/\r/g) || []).length - crlf;
+
+  if (crlf >= lf && crlf >= cr && crlf > 0) return 'crlf';
+  return cr > lf ? 'cr' : 'lf';
+}
+
+/**
+ * Detects the quote character that most often wraps whole fields (double quote by default)
+ */
+export function detectQuote(text: string): string {
+  let bestQuote = '"';
+  let bestCount = 0;
+
+  ['"', "'"].forEach((quote) => {
+    const pattern = new RegExp(`(^|[,;\\t|])${quote}[^${quote}\\r\\n]*${quote}(?=[,;\\t|]|\\r?$)`, 'gm');
+    const count = (text.match(pattern) || []).length;
+    if (count > bestCount) {
+      bestQuote = quote;
+      bestCount = count;
+    }
+  });
+  return bestQuote;
+}
+
+/**
+ * Counts the fields in a line, ignoring delimiters inside quotes
+ */
+function countFields(line: string, delimiter: string, quote: string): number {
+  let fields = 1;
+  let inQuotes = false;
+  for (const char of line) {
+    if (quote && char === quote) {
+      inQuotes = !inQuotes;
+    } else if (char === delimiter && !inQuotes) {
+      fields++;
+    }
+  }
+  return fields;
+}
+
+/**
+ * Detects the delimiter that splits lines into the most consistent number of fields (comma by default)
+ */
+export function detectDelimiter(text: string, quote: string, lineEnding: CsvLineEnding): string {
+  const lines = text
+    .split(LINE_SEPARATORS[lineEnding])
+    .filter((line) => line.trim().length > 0)
+    .slice(0, SNIFF_LINES);
+  if (lines.length === 0) return ',';
+
+  let bestDelimiter = ',';
+  let bestScore = 0;
+  let bestFields = 1;
+
+  DELIMITER_OPTIONS.forEach(({ value: delimiter }) => {
+    // Most common field count across the sampled lines
+    const frequency = new Map<number, number>();
+    lines.forEach((line) => {
+      const count = countFields(line, delimiter, quote);
+      frequency.set(count, (frequency.get(count) || 0) + 1);
+    });
+    let fields = 1;
+    let matchingLines = 0;
+    frequency.forEach((lineCount, count) => {
+      if (lineCount > matchingLines || (lineCount === matchingLines && count > fields)) {
+        fields = count;
+        matchingLines = lineCount;
+      }
+    });
+    if (fields <= 1) return;
+
+    const score = matchingLines / lines.length;
+    if (score > bestScore || (score === bestScore && fields > bestFields)) {
+      bestDelimiter = delimiter;
+      bestScore = score;
+      bestFields = fields;
+    }
+  });
+
+  return bestDelimiter;
+}
+
+/**
+ * Decodes file bytes to text; when the bytes are only the start of a file, the partial last line is dropped
+ */
+export function decodeCsvBytes(bytes: Uint8Array, encoding: CsvEncoding, isComplete: boolean): string {
+  let text = new TextDecoder(encoding).decode(bytes);
+  if (!isComplete) {
+    const lastBreak = Math.max(text.lastIndexOf('\n'), text.lastIndexOf('\r'));
+    if (lastBreak > 0) text = text.slice(0, lastBreak);
+  }
+  return text;
+}
+
+/**
+ * Sniffs the dialect of a file sample; values in overrides are kept as-is
+ */
+export function sniffCsvDialect(
+  bytes: Uint8Array,
+  isComplete: boolean,
+  overrides?: Partial<CsvDialect>,
+): CsvDialect {
+  const encoding = overrides?.encoding ?? detectEncoding(bytes);
+  const text = decodeCsvBytes(bytes, encoding, isComplete);
+  const lineEnding = overrides?.lineEnding ?? detectLineEnding(text);
+  const quote = overrides?.quote ?? detectQuote(text);
+  const delimiter = overrides?.delimiter ?? detectDelimiter(text, quote, lineEnding);
+  return { delimiter, quote, lineEnding, encoding };
+}
+
+/**
+ * Parses CSV text with the given dialect into a header and up to maxRows data rows
+ * (quoted fields may contain delimiters, line breaks and doubled quotes)
+ */
+export function parseCsvText(
+  text: string,
+  dialect: CsvDialect,
+  maxRows: number,
+): { columns: string[]; rows: string[][] } {
+  const { delimiter, quote } = dialect;
+  const separator = LINE_SEPARATORS[dialect.lineEnding];
+  const records: string[][] = [];
+  let record: string[] = [];
+  let value = '';
+  let inQuotes = false;
+  let i = 0;
+
+  const endRecord = () => {
+    record.push(value.trim());
+    // Skip blank lines
+    if (record.length > 1 || record[0] !== '') records.push(record);
+    record = [];
+    value = '';
+  };
+
+  while (i < text.length && records.length <= maxRows) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === quote && text[i + 1] === quote) {
+        value += quote;
+        i += 2;
+        continue;
+      }
+      if (char === quote) {
+        inQuotes = false;
+      } else {
+        value += char;
+      }
+      i++;
+    } else if (quote && char === quote && value.trim() === '') {
+      inQuotes = true;
+      value = '';
+      i++;
+    } else if (char === delimiter) {
+      record.push(value.trim());
+      value = '';
+      i++;
+    } else if (text.startsWith(separator, i)) {
+      endRecord();
+      i += separator.length;
+    } else {
+      value += char;
+      i++;
+    }
+  }
+  if (records.length <= maxRows && (value !== '' || record.length > 0)) {
+    endRecord();
+  }
+
+  const [columns = [], ...rows] = records;
+  return { columns, rows: rows.slice(0, maxRows) };
+}
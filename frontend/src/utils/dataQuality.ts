@@ -0,0 +1,64 @@
+import { IssueCode, IssueSeverity } from '../types';
+
+// Labels of the issues recorded while importing (see DataQualityService on the backend)
+
+export const ISSUE_CODE_LABELS: Record<IssueCode, string> = {
+  empty_row: 'Empty row',
+  header_mismatch: 'Header mismatch',
+  duplicate_row: 'Duplicate row',
+  formula_injection: 'Formula injection',
+  missing_column: 'Missing column',
+  required: 'Required value missing',
+  invalid_type: 'Invalid type',
+  pattern_mismatch: 'Pattern mismatch',
+  out_of_range: 'Out of range',
+  too_long: 'Too long',
+  not_allowed: 'Value not allowed',
+  not_unique: 'Not unique',
+  cross_field: 'Cross-field rule',
+  inconsistent_type: 'Inconsistent type',
+  other: 'Other',
+};
+
+export const ISSUE_SEVERITY_LABELS: Record<IssueSeverity, string> = {
+  info: 'Info',
+  warning: 'Warning',
+  error: 'Error',
+};
+
+export type QualityLevel = 'good' | 'fair' | 'poor';
+
+// Score ranges of the quality levels, as sent to GET /csv-import/history (minQuality/maxQuality)
+export const QUALITY_LEVEL_RANGES: Record<QualityLevel, { min?: number; max?: number; label: string }> = {
+  good: { min: 90, label: 'Good (90+)' },
+  fair: { min: 70, max: 89.9, label: 'Fair (70 - 90)' },
+  poor: { max: 69.9, label: 'Poor (< 70)' },
+};
+
+export function getQualityLevel(score: number): QualityLevel {
+  if (score >= 90) return 'good';
+  if (score >= 70) return 'fair';
+  return 'poor';
+}
+
+export function getQualityBadgeClass(score: number, darkMode: boolean): string {
+  switch (getQualityLevel(score)) {
+    case 'good':
+      return darkMode ? 'bg-green-500/20 text-green-300' : 'bg-green-100 text-green-700';
+    case 'fair':
+      return darkMode ? 'bg-yellow-500/20 text-yellow-300' : 'bg-yellow-100 text-yellow-700';
+    default:
+      return darkMode ? 'bg-red-500/20 text-red-300' : 'bg-red-100 text-red-700';
+  }
+}
+
+export function getSeverityBadgeClass(severity: IssueSeverity, darkMode: boolean): string {
+  switch (severity) {
+    case 'error':
+      return darkMode ? 'bg-red-500/20 text-red-300' : 'bg-red-100 text-red-700';
+    case 'warning':
+      return darkMode ? 'bg-yellow-500/20 text-yellow-300' : 'bg-yellow-100 text-yellow-700';
+    default:
+      return darkMode ? 'bg-blue-500/20 text-blue-300' : 'bg-blue-100 text-blue-700';
+  }
+}
@@ -1,3 +1,5 @@
+import type { CellValue } from '../types';
+
 /**
  * Detects the data type of a value
  */
@@ -101,10 +103,13 @@ export function getDataTypeLabel(type: string): string {
   const labels: Record<string, string> = {
     string: 'Text',
     number: 'Number',
+    integer: 'Integer',
     date: 'Date',
+    datetime: 'Date & Time',
     boolean: 'Boolean',
     email: 'Email',
     url: 'URL',
+    enum: 'Category',
     mixed: 'Mixed',
     empty: 'Empty',
   };
@@ -118,10 +123,13 @@ export function getDataTypeColor(type: string, darkMode: boolean = false): strin
   const colors: Record<string, { light: string; dark: string }> = {
     string: { light: 'bg-blue-100 text-blue-800 border-blue-200', dark: 'bg-blue-500/20 text-blue-300 border-blue-400/50' },
     number: { light: 'bg-green-100 text-green-800 border-green-200', dark: 'bg-green-500/20 text-green-300 border-green-400/50' },
+    integer: { light: 'bg-emerald-100 text-emerald-800 border-emerald-200', dark: 'bg-emerald-500/20 text-emerald-300 border-emerald-400/50' },
     date: { light: 'bg-purple-100 text-purple-800 border-purple-200', dark: 'bg-purple-500/20 text-purple-300 border-purple-400/50' },
+    datetime: { light: 'bg-violet-100 text-violet-800 border-violet-200', dark: 'bg-violet-500/20 text-violet-300 border-violet-400/50' },
     boolean: { light: 'bg-yellow-100 text-yellow-800 border-yellow-200', dark: 'bg-yellow-500/20 text-yellow-300 border-yellow-400/50' },
     email: { light: 'bg-indigo-100 text-indigo-800 border-indigo-200', dark: 'bg-indigo-500/20 text-indigo-300 border-indigo-400/50' },
     url: { light: 'bg-pink-100 text-pink-800 border-pink-200', dark: 'bg-pink-500/20 text-pink-300 border-pink-400/50' },
+    enum: { light: 'bg-orange-100 text-orange-800 border-orange-200', dark: 'bg-orange-500/20 text-orange-300 border-orange-400/50' },
     mixed: { light: 'bg-gray-100 text-gray-800 border-gray-200', dark: 'bg-gray-500/20 text-gray-300 border-gray-400/50' },
     empty: { light: 'bg-gray-100 text-gray-500 border-gray-200', dark: 'bg-gray-500/10 text-gray-500 border-gray-400/30' },
   };
@@ -130,3 +138,10 @@ export function getDataTypeColor(type: string, darkMode: boolean = false): strin
   return darkMode ? color.dark : color.light;
 }
 
+/**
+ * Formats a stored cell value for display; typed values (numbers, booleans) are shown as text
+ * and null or empty values as an empty string
+ */
+export function formatCellValue(value: CellValue | undefined): string {
+  return value === null || value === undefined ? '' : String(value);
+}
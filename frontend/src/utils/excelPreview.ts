@@ -0,0 +1,90 @@
+import type { CellValue, Workbook } from 'exceljs';
+
+// Mirrors the cell normalization done by the backend (ExcelReaderService) so the
+// preview shows the values the way they will be imported.
+
+export interface ExcelPreview {
+  sheets: string[];
+  sheetName: string;
+  headerRow: number;
+  columns: string[];
+  data: Record<string, string>[];
+}
+
+/**
+ * Loads a workbook; ExcelJS is only downloaded the first time an Excel file is previewed
+ */
+export async function loadWorkbook(file: File): Promise<Workbook> {
+  const { default: ExcelJS } = await import('exceljs');
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(await file.arrayBuffer());
+  return workbook;
+}
+
+/**
+ * Converts a cell value to the string stored in a row
+ * - Dates become YYYY-MM-DD (or YYYY-MM-DDTHH:mm:ss when they have a time)
+ * - Numbers with zero-padded formats (e.g. "00000" for ZIP codes) keep their leading zeros
+ * - Formulas use their cached result; rich text and hyperlinks use their text
+ */
+export function normalizeCellValue(value: CellValue, numFmt?: string): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) {
+    const iso = value.toISOString();
+    return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso.slice(0, 19);
+  }
+  if (typeof value === 'number') {
+    if (numFmt && /^0+$/.test(numFmt) && Number.isInteger(value)) {
+      return String(value).padStart(numFmt.length, '0');
+    }
+    return String(Number(value.toPrecision(15)));
+  }
+  if (typeof value === 'boolean') return value ? 'true' : 'false';
+  if (typeof value === 'string') return value.trim();
+  if ('richText' in value) return value.richText.map((part) => part.text).join('').trim();
+  if ('error' in value) return value.error;
+  if ('result' in value || 'formula' in value || 'sharedFormula' in value) {
+    const result = (value as { result?: CellValue }).result;
+    return result === undefined ? '' : normalizeCellValue(result, numFmt);
+  }
+  if ('text' in value) return String(value.text).trim();
+  return String(value).trim();
+}
+
+/**
+ * Reads the header and up to maxRows data rows of a sheet (first sheet if not given)
+ */
+export function readExcelPreview(
+  workbook: Workbook,
+  sheetName: string | undefined,
+  headerRow: number,
+  maxRows: number,
+): ExcelPreview {
+  const sheets = workbook.worksheets.map((worksheet) => worksheet.name);
+  const worksheet = sheetName ? workbook.getWorksheet(sheetName) : workbook.worksheets[0];
+  if (!worksheet) {
+    throw new Error(sheetName ? `Sheet "${sheetName}" not found` : 'Workbook has no sheets');
+  }
+
+  // Blank headers get a positional name, as on the server
+  const header = worksheet.getRow(headerRow);
+  const columns: string[] = [];
+  for (let col = 1; col <= header.cellCount; col++) {
+    const cell = header.getCell(col);
+    columns.push(normalizeCellValue(cell.value, cell.numFmt) || `Column ${col}`);
+  }
+
+  const data: Record<string, string>[] = [];
+  for (let rowNumber = headerRow + 1; rowNumber <= worksheet.rowCount && data.length < maxRows; rowNumber++) {
+    const row = worksheet.getRow(rowNumber);
+    const record: Record<string, string> = {};
+    columns.forEach((column, index) => {
+      const cell = row.getCell(index + 1);
+      record[column] = normalizeCellValue(cell.value, cell.numFmt);
+    });
+    // Skip blank rows
+    if (Object.values(record).some((value) => value !== '')) data.push(record);
+  }
+
+  return { sheets, sheetName: worksheet.name, headerRow, columns, data };
+}
@@ -0,0 +1,33 @@
+import { ExportFormat } from '../types';
+
+// Formats offered for download (see ExportService on the backend)
+
+const EXPORT_EXTENSIONS: Record<ExportFormat, string> = {
+  csv: '.csv',
+  xlsx: '.xlsx',
+  json: '.json',
+  ndjson: '.ndjson',
+  parquet: '.parquet',
+};
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  xlsx: 'Excel',
+  json: 'JSON',
+  ndjson: 'NDJSON',
+  parquet: 'Parquet',
+};
+
+export const EXPORT_FORMAT_OPTIONS = (Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map((format) => ({
+  value: format,
+  label: EXPORT_FORMAT_LABELS[format],
+}));
+
+/**
+ * Returns the download name of an export, e.g. export_customers.xlsx (same as the server)
+ */
+export function getExportFileName(fileName: string, format: ExportFormat, prefix = 'export'): string {
+  const dot = fileName.lastIndexOf('.');
+  const baseName = dot > 0 ? fileName.slice(0, dot) : fileName;
+  return `${prefix}_${baseName}${EXPORT_EXTENSIONS[format]}`;
+}
@@ -0,0 +1,23 @@
+import { FormulaSanitization } from '../types';
+
+// Mirrors the backend check (formula-injection.util.ts): spreadsheet apps run a cell
+// as a formula when it starts with =, +, -, @, a tab or a carriage return.
+
+// A lone "-" or "+" (common placeholders) is shown as text, so something must follow
+const FORMULA_TRIGGER = /^[=+\-@\t\r][\s\S]/;
+
+// Plain numbers like -12.5 or +3e4 are not formulas
+const PLAIN_NUMBER = /^[+-]?(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?$/;
+
+export const FORMULA_SANITIZATION_OPTIONS: Array<{ value: FormulaSanitization; label: string }> = [
+  { value: 'apostrophe', label: "Formulas: prefix '" },
+  { value: 'strip', label: 'Formulas: strip' },
+  { value: 'off', label: 'Formulas: keep' },
+];
+
+/**
+ * Returns true if a spreadsheet would treat the value as a formula
+ */
+export function isFormulaLike(value: string): boolean {
+  return FORMULA_TRIGGER.test(value) && !PLAIN_NUMBER.test(value);
+}
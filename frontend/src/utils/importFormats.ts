@@ -0,0 +1,187 @@
+import { CsvRow, ImportFormat } from '../types';
+
+// Mirrors the format registry of the backend (ImportFormatService) so the
+// preview reads a file the same way the import will.
+
+const FORMAT_EXTENSIONS: Record<ImportFormat, string[]> = {
+  csv: ['.csv'],
+  tsv: ['.tsv', '.tab'],
+  json: ['.json'],
+  ndjson: ['.ndjson', '.jsonl'],
+  xlsx: ['.xlsx'],
+};
+
+// Accepted for upload; the format is sniffed from the content
+const SNIFFED_EXTENSIONS = ['.txt'];
+
+export const FORMAT_LABELS: Record<ImportFormat, string> = {
+  csv: 'CSV',
+  tsv: 'TSV',
+  json: 'JSON',
+  ndjson: 'NDJSON',
+  xlsx: 'Excel',
+};
+
+// File types for the dropzone (browsers report inconsistent MIME types, so extensions matter most)
+export const ACCEPTED_FILE_TYPES: Record<string, string[]> = {
+  'text/csv': ['.csv'],
+  'text/tab-separated-values': ['.tsv', '.tab'],
+  'application/json': ['.json'],
+  'application/x-ndjson': ['.ndjson', '.jsonl'],
+  'text/plain': ['.txt'],
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
+};
+
+export const SUPPORTED_EXTENSIONS = [...Object.values(FORMAT_EXTENSIONS).flat(), ...SNIFFED_EXTENSIONS];
+
+const getExtension = (fileName: string): string => {
+  const dot = fileName.lastIndexOf('.');
+  return dot === -1 ? '' : fileName.slice(dot).toLowerCase();
+};
+
+/**
+ * Returns true if a file with this name can be uploaded
+ */
+export function isSupportedFileName(fileName: string): boolean {
+  return SUPPORTED_EXTENSIONS.includes(getExtension(fileName));
+}
+
+/**
+ * Returns the format implied by the file extension, if any
+ */
+export function getFormatFromFileName(fileName: string): ImportFormat | undefined {
+  const extension = getExtension(fileName);
+  return (Object.keys(FORMAT_EXTENSIONS) as ImportFormat[]).find((format) =>
+    FORMAT_EXTENSIONS[format].includes(extension),
+  );
+}
+
+const firstSignificantChar = (text: string): string | undefined => /[^\s\uFEFF]/.exec(text)?.[0];
+
+/**
+ * Sniffs the format from the start of a file: zip -> Excel, one object per line -> NDJSON,
+ * "[" or "{" -> JSON; anything else is delimited text (CSV or TSV, decided by the dialect)
+ */
+export function sniffImportFormat(bytes: Uint8Array, isComplete: boolean): ImportFormat {
+  if (bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04) return 'xlsx';
+
+  const text = new TextDecoder('utf-8').decode(bytes);
+  const first = firstSignificantChar(text);
+  if (first === '{') {
+    const lines = text.split('\n').filter((line) => line.trim());
+    if (lines.length >= 2 || isComplete) {
+      try {
+        const value = JSON.parse(lines[0].replace(/^\uFEFF/, ''));
+        if (value !== null && typeof value === 'object') return 'ndjson';
+      } catch {
+        // Not a complete object on the first line: a pretty-printed JSON document
+      }
+    }
+  }
+  if (first === '[' || first === '{') return 'json';
+  return 'csv';
+}
+
+/**
+ * Turns a JSON value into a row: nested objects become dotted columns,
+ * arrays stay JSON text, null becomes empty, non-objects go into a "value" column
+ */
+export function flattenJsonRecord(value: unknown): CsvRow {
+  const row: CsvRow = {};
+  const visit = (current: unknown, path: string): void => {
+    if (current !== null && typeof current === 'object' && !Array.isArray(current)) {
+      const entries = Object.entries(current);
+      if (entries.length === 0 && path) row[path] = '';
+      entries.forEach(([key, child]) => visit(child, path ? `${path}.${key}` : key));
+      return;
+    }
+    if (current === null || current === undefined) row[path || 'value'] = '';
+    else if (typeof current === 'string') row[path || 'value'] = current.trim();
+    else if (Array.isArray(current)) row[path || 'value'] = JSON.stringify(current);
+    else row[path || 'value'] = String(current);
+  };
+  visit(value, '');
+  return row;
+}
+
+/**
+ * Splits the start of a JSON array into its first items (the text may be cut off mid-item)
+ */
+function splitJsonItems(text: string, maxItems: number): string[] {
+  const start = text.search(/[^\s\uFEFF]/);
+  if (start === -1) return [];
+  if (text[start] === '{') return [text.slice(start)]; // A single object is one row
+  if (text[start] !== '[') throw new Error('Expected a JSON array or object');
+
+  const items: string[] = [];
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let itemStart = start + 1;
+
+  for (let i = start + 1; i < text.length && items.length < maxItems; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      depth++;
+    } else if (char === '}' || (char === ']' && depth > 0)) {
+      depth--;
+    } else if (depth === 0 && (char === ',' || char === ']')) {
+      const item = text.slice(itemStart, i).trim();
+      if (item) items.push(item);
+      itemStart = i + 1;
+      if (char === ']') break;
+    }
+  }
+  return items;
+}
+
+/**
+ * Parses the start of a JSON or NDJSON file into preview rows (columns in order of first appearance)
+ */
+export function parseJsonPreview(
+  text: string,
+  format: 'json' | 'ndjson',
+  isComplete: boolean,
+  maxRows: number,
+): { columns: string[]; data: Record<string, string>[] } {
+  // When only the start of the file was read, its last line may be cut off
+  const lines = text.split('\n');
+  if (!isComplete) lines.pop();
+
+  const items =
+    format === 'ndjson'
+      ? lines
+          .map((line) => line.trim())
+          .filter(Boolean)
+          .slice(0, maxRows)
+      : splitJsonItems(text, maxRows);
+
+  const rows = items.map((item, index) => {
+    try {
+      return flattenJsonRecord(JSON.parse(item));
+    } catch {
+      throw new Error(format === 'ndjson' ? `Invalid JSON in record ${index + 1}` : `Invalid JSON in item ${index + 1}`);
+    }
+  });
+
+  const columns: string[] = [];
+  rows.forEach((row) =>
+    Object.keys(row).forEach((column) => {
+      if (!columns.includes(column)) columns.push(column);
+    }),
+  );
+  const data = rows.map((row) => {
+    const filledRow: Record<string, string> = {};
+    columns.forEach((column) => {
+      filledRow[column] = row[column] ?? '';
+    });
+    return filledRow;
+  });
+  return { columns, data };
+}